@@ -0,0 +1,167 @@
+-- Migration: Fee Payments Ledger
+-- One row per instalment instead of overwriting the payment columns on student_fees
+
+-- ============================================
+-- 1. Fee Payments Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS fee_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_fee_id UUID NOT NULL REFERENCES student_fees(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  payment_method VARCHAR(50) NOT NULL, -- 'cash', 'bank_transfer', etc.
+  receipt_number VARCHAR(50),
+  notes TEXT,
+  recorded_by_id UUID, -- Admin who recorded the instalment
+  paid_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for fee_payments
+CREATE INDEX IF NOT EXISTS fee_payments_student_fee_id_idx ON fee_payments(student_fee_id);
+CREATE INDEX IF NOT EXISTS fee_payments_student_id_idx ON fee_payments(student_id);
+CREATE INDEX IF NOT EXISTS fee_payments_paid_at_idx ON fee_payments(paid_at DESC);
+
+-- ============================================
+-- 2. Enable RLS
+-- ============================================
+ALTER TABLE fee_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students can view own fee payments" ON fee_payments;
+DROP POLICY IF EXISTS "Super admins full access to fee payments" ON fee_payments;
+DROP POLICY IF EXISTS "Branch admins can view branch fee payments" ON fee_payments;
+DROP POLICY IF EXISTS "Service role full access to fee payments" ON fee_payments;
+
+-- Students can view their own payments
+CREATE POLICY "Students can view own fee payments"
+  ON fee_payments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'student'
+      AND EXISTS (
+        SELECT 1 FROM students
+        WHERE students.id = fee_payments.student_id
+        AND students.user_id = profiles.user_id
+      )
+    )
+  );
+
+-- Super admins can do everything
+CREATE POLICY "Super admins full access to fee payments"
+  ON fee_payments FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+-- Branch admins can view payments for their branch students
+CREATE POLICY "Branch admins can view branch fee payments"
+  ON fee_payments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+      AND EXISTS (
+        SELECT 1 FROM students
+        WHERE students.id = fee_payments.student_id
+        AND students.branch_id = profiles.branch_id
+      )
+    )
+  );
+
+-- Service role full access
+CREATE POLICY "Service role full access to fee payments"
+  ON fee_payments FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================
+-- 3. Derive student_fees.paid_amount from the ledger
+-- ============================================
+-- paid_amount, status and paid_at are recomputed whenever an instalment is
+-- added, changed or removed. payment_method / receipt_number / notes /
+-- recorded_by_id on student_fees mirror the latest instalment.
+-- The row lock on student_fees serialises concurrent payments, and
+-- check_paid_amount_not_exceed (017) rejects overpayments.
+CREATE OR REPLACE FUNCTION sync_student_fee_paid_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_fee_id UUID;
+  v_fee student_fees%ROWTYPE;
+  v_total DECIMAL(10,2);
+  v_latest fee_payments%ROWTYPE;
+BEGIN
+  v_fee_id := COALESCE(NEW.student_fee_id, OLD.student_fee_id);
+
+  SELECT * INTO v_fee FROM student_fees WHERE id = v_fee_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_total
+  FROM fee_payments
+  WHERE student_fee_id = v_fee_id;
+
+  SELECT * INTO v_latest
+  FROM fee_payments
+  WHERE student_fee_id = v_fee_id
+  ORDER BY paid_at DESC, created_at DESC
+  LIMIT 1;
+
+  UPDATE student_fees
+  SET
+    paid_amount = v_total,
+    status = CASE
+      WHEN v_total >= v_fee.amount THEN 'paid'
+      WHEN v_fee.due_date < CURRENT_DATE THEN 'overdue'
+      ELSE 'pending'
+    END,
+    paid_at = CASE WHEN v_total >= v_fee.amount THEN v_latest.paid_at ELSE NULL END,
+    payment_method = v_latest.payment_method,
+    receipt_number = v_latest.receipt_number,
+    notes = v_latest.notes,
+    recorded_by_id = v_latest.recorded_by_id
+  WHERE id = v_fee_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_student_fee_paid_amount_trigger ON fee_payments;
+CREATE TRIGGER sync_student_fee_paid_amount_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON fee_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_student_fee_paid_amount();
+
+-- ============================================
+-- 4. Backfill existing payments
+-- ============================================
+-- Fees paid before the ledger existed get a single instalment carrying the
+-- last recorded method/receipt. The trigger recomputes the same paid_amount.
+INSERT INTO fee_payments (student_fee_id, student_id, amount, payment_method, receipt_number, notes, recorded_by_id, paid_at)
+SELECT
+  sf.id,
+  sf.student_id,
+  sf.paid_amount,
+  COALESCE(sf.payment_method, 'cash'),
+  sf.receipt_number,
+  sf.notes,
+  sf.recorded_by_id,
+  COALESCE(sf.paid_at, sf.updated_at, NOW())
+FROM student_fees sf
+WHERE sf.paid_amount > 0
+  AND NOT EXISTS (SELECT 1 FROM fee_payments fp WHERE fp.student_fee_id = sf.id);
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Created fee_payments table (one row per instalment)
+-- 2. Set up RLS policies
+-- 3. Added trigger deriving student_fees.paid_amount/status/paid_at from the ledger
+-- 4. Backfilled existing partial/full payments
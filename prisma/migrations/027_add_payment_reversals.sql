@@ -0,0 +1,124 @@
+-- Migration: Payment Reversal and Refund
+-- Lets admins undo a mistaken instalment or refund it, with a reason and audit trail
+
+-- ============================================
+-- 1. Reversal columns on fee_payments
+-- ============================================
+-- A reversed/refunded instalment stays in the ledger for history but no
+-- longer counts towards student_fees.paid_amount.
+ALTER TABLE fee_payments
+ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS reversed_by_id UUID, -- Admin who reversed/refunded it
+ADD COLUMN IF NOT EXISTS reversal_type VARCHAR(20) CHECK (reversal_type IN ('reversal', 'refund')),
+ADD COLUMN IF NOT EXISTS reversal_reason TEXT;
+
+ALTER TABLE fee_payments
+DROP CONSTRAINT IF EXISTS check_reversal_complete;
+
+ALTER TABLE fee_payments
+ADD CONSTRAINT check_reversal_complete
+CHECK (
+  (reversed_at IS NULL AND reversal_type IS NULL) OR
+  (reversed_at IS NOT NULL AND reversal_type IS NOT NULL AND reversal_reason IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS fee_payments_active_idx
+  ON fee_payments(student_fee_id)
+  WHERE reversed_at IS NULL;
+
+-- ============================================
+-- 2. Only active instalments count towards paid_amount
+-- ============================================
+CREATE OR REPLACE FUNCTION sync_student_fee_paid_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_fee_id UUID;
+  v_fee student_fees%ROWTYPE;
+  v_total DECIMAL(10,2);
+  v_latest fee_payments%ROWTYPE;
+BEGIN
+  v_fee_id := COALESCE(NEW.student_fee_id, OLD.student_fee_id);
+
+  SELECT * INTO v_fee FROM student_fees WHERE id = v_fee_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_total
+  FROM fee_payments
+  WHERE student_fee_id = v_fee_id
+    AND reversed_at IS NULL;
+
+  SELECT * INTO v_latest
+  FROM fee_payments
+  WHERE student_fee_id = v_fee_id
+    AND reversed_at IS NULL
+  ORDER BY paid_at DESC, created_at DESC
+  LIMIT 1;
+
+  UPDATE student_fees
+  SET
+    paid_amount = v_total,
+    status = CASE
+      WHEN v_total >= v_fee.amount THEN 'paid'
+      WHEN v_fee.due_date < CURRENT_DATE THEN 'overdue'
+      ELSE 'pending'
+    END,
+    paid_at = CASE WHEN v_total >= v_fee.amount THEN v_latest.paid_at ELSE NULL END,
+    payment_method = v_latest.payment_method,
+    receipt_number = v_latest.receipt_number,
+    notes = v_latest.notes,
+    recorded_by_id = v_latest.recorded_by_id
+  WHERE id = v_fee_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 3. Fee Audit Logs Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS fee_audit_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_fee_id UUID REFERENCES student_fees(id) ON DELETE CASCADE,
+  fee_payment_id UUID REFERENCES fee_payments(id) ON DELETE SET NULL,
+  action VARCHAR(50) NOT NULL, -- 'payment_reversed', 'payment_refunded'
+  reason TEXT,
+  old_values JSONB,
+  new_values JSONB,
+  changed_by UUID REFERENCES profiles(user_id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for fee_audit_logs
+CREATE INDEX IF NOT EXISTS fee_audit_logs_student_fee_id_idx ON fee_audit_logs(student_fee_id);
+CREATE INDEX IF NOT EXISTS fee_audit_logs_changed_by_idx ON fee_audit_logs(changed_by);
+CREATE INDEX IF NOT EXISTS fee_audit_logs_created_at_idx ON fee_audit_logs(created_at DESC);
+
+-- Enable RLS on audit logs
+ALTER TABLE fee_audit_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Super admins can read fee audit logs" ON fee_audit_logs;
+DROP POLICY IF EXISTS "Service role full access to fee audit logs" ON fee_audit_logs;
+
+CREATE POLICY "Super admins can read fee audit logs"
+  ON fee_audit_logs FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+CREATE POLICY "Service role full access to fee audit logs"
+  ON fee_audit_logs FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Added reversal/refund columns to fee_payments
+-- 2. Reversed instalments no longer count towards paid_amount
+-- 3. Created fee_audit_logs table
@@ -0,0 +1,82 @@
+-- Migration: Sequential Receipt Numbers
+-- Receipt numbers are allocated per branch when an instalment is recorded,
+-- instead of being typed in by the admin
+
+-- ============================================
+-- 1. Receipt Sequences Table
+-- ============================================
+-- One counter per branch
+CREATE TABLE IF NOT EXISTS receipt_sequences (
+  branch_id UUID PRIMARY KEY REFERENCES branches(id) ON DELETE CASCADE,
+  last_number INTEGER NOT NULL DEFAULT 0 CHECK (last_number >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE receipt_sequences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view receipt sequences" ON receipt_sequences;
+DROP POLICY IF EXISTS "Service role full access to receipt sequences" ON receipt_sequences;
+
+CREATE POLICY "Admins can view receipt sequences"
+  ON receipt_sequences FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Service role full access to receipt sequences"
+  ON receipt_sequences FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================
+-- 2. Allocate receipt numbers on insert
+-- ============================================
+-- Format: <BRANCH CODE>-<000001>, e.g. KDM-000042
+-- The upsert takes a row lock on the branch counter, so concurrent
+-- payments in the same branch always get distinct numbers. Numbers are not
+-- gap-free: a payment row deleted after insert (e.g. a failed credit
+-- application) leaves its number unused.
+CREATE OR REPLACE FUNCTION assign_fee_receipt_number()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_branch_id UUID;
+  v_branch_code TEXT;
+  v_number INTEGER;
+BEGIN
+  IF NEW.receipt_number IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT s.branch_id, COALESCE(NULLIF(b.code, ''), 'RCPT')
+  INTO v_branch_id, v_branch_code
+  FROM students s
+  JOIN branches b ON b.id = s.branch_id
+  WHERE s.id = NEW.student_id;
+
+  INSERT INTO receipt_sequences (branch_id, last_number, updated_at)
+  VALUES (v_branch_id, 1, NOW())
+  ON CONFLICT (branch_id) DO UPDATE
+    SET last_number = receipt_sequences.last_number + 1,
+        updated_at = NOW()
+  RETURNING last_number INTO v_number;
+
+  NEW.receipt_number := UPPER(v_branch_code) || '-' || LPAD(v_number::TEXT, 6, '0');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS assign_fee_receipt_number_trigger ON fee_payments;
+CREATE TRIGGER assign_fee_receipt_number_trigger
+  BEFORE INSERT ON fee_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_fee_receipt_number();
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Created receipt_sequences table (per-branch counters)
+-- 2. fee_payments.receipt_number is allocated automatically on insert
@@ -0,0 +1,146 @@
+-- Migration: Fee Discount Rules
+-- Sibling, staff-child and scholarship discounts applied to monthly/yearly fees
+
+-- ============================================
+-- 1. Fee Discount Rules Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS fee_discount_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  category VARCHAR(20) NOT NULL CHECK (category IN ('sibling', 'staff_child', 'scholarship')),
+  discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  value DECIMAL(10,2) NOT NULL CHECK (value > 0),
+  sibling_order INTEGER, -- Sibling rules only: applies to the Nth enrolled child of a family and later
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by_id UUID, -- Admin who created the rule
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE fee_discount_rules
+DROP CONSTRAINT IF EXISTS check_percentage_discount_range;
+
+ALTER TABLE fee_discount_rules
+ADD CONSTRAINT check_percentage_discount_range
+CHECK (discount_type != 'percentage' OR value <= 100);
+
+ALTER TABLE fee_discount_rules
+DROP CONSTRAINT IF EXISTS check_sibling_order;
+
+ALTER TABLE fee_discount_rules
+ADD CONSTRAINT check_sibling_order
+CHECK (
+  (category = 'sibling' AND sibling_order IS NOT NULL AND sibling_order >= 2) OR
+  (category != 'sibling' AND sibling_order IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS fee_discount_rules_active_idx
+  ON fee_discount_rules(category)
+  WHERE is_active = true;
+
+-- ============================================
+-- 2. Student Discounts Table
+-- ============================================
+-- Staff-child and scholarship rules are granted per student.
+-- Sibling rules apply automatically and are never assigned here.
+CREATE TABLE IF NOT EXISTS student_discounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  discount_rule_id UUID NOT NULL REFERENCES fee_discount_rules(id) ON DELETE CASCADE,
+  assigned_by_id UUID, -- Admin who granted the discount
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (student_id, discount_rule_id)
+);
+
+CREATE INDEX IF NOT EXISTS student_discounts_student_id_idx ON student_discounts(student_id);
+
+-- ============================================
+-- 3. Applied discount on student_fees
+-- ============================================
+-- student_fees.amount is the amount due after the discount
+ALTER TABLE student_fees
+ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+ADD COLUMN IF NOT EXISTS discount_rule_id UUID REFERENCES fee_discount_rules(id) ON DELETE SET NULL;
+
+-- Sibling order is derived from students sharing a parent phone number
+CREATE INDEX IF NOT EXISTS students_parent_phone_idx
+  ON students(parent_phone)
+  WHERE parent_phone IS NOT NULL;
+
+-- ============================================
+-- 4. updated_at trigger
+-- ============================================
+CREATE OR REPLACE FUNCTION update_fee_discount_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_fee_discount_rules_updated_at_trigger ON fee_discount_rules;
+CREATE TRIGGER update_fee_discount_rules_updated_at_trigger
+  BEFORE UPDATE ON fee_discount_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_fee_discount_rules_updated_at();
+
+-- ============================================
+-- 5. Enable RLS
+-- ============================================
+ALTER TABLE fee_discount_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_discounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view fee discount rules" ON fee_discount_rules;
+DROP POLICY IF EXISTS "Service role full access to fee discount rules" ON fee_discount_rules;
+DROP POLICY IF EXISTS "Students can view own discounts" ON student_discounts;
+DROP POLICY IF EXISTS "Admins can view student discounts" ON student_discounts;
+DROP POLICY IF EXISTS "Service role full access to student discounts" ON student_discounts;
+
+CREATE POLICY "Admins can view fee discount rules"
+  ON fee_discount_rules FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Service role full access to fee discount rules"
+  ON fee_discount_rules FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Students can view their own discounts
+CREATE POLICY "Students can view own discounts"
+  ON student_discounts FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_discounts.student_id
+      AND students.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view student discounts"
+  ON student_discounts FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Service role full access to student discounts"
+  ON student_discounts FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Created fee_discount_rules table (sibling, staff child, scholarship)
+-- 2. Created student_discounts table for per-student grants
+-- 3. Added discount_amount/discount_rule_id to student_fees
+-- 4. Added updated_at trigger
+-- 5. Set up RLS policies
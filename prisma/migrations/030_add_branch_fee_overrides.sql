@@ -0,0 +1,39 @@
+-- Migration: Branch Fee Overrides
+-- Branches can override the global fee for any fee type (and belt level for grading).
+-- Fees without a branch override fall back to the global configuration.
+
+-- ============================================
+-- 1. Allow branch-specific configurations again
+-- ============================================
+ALTER TABLE fee_configurations
+DROP CONSTRAINT IF EXISTS check_all_fees_global;
+
+-- ============================================
+-- 2. Unique constraints for branch overrides
+-- ============================================
+-- For non-grading fees: one active override per type per branch
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_branch_fee
+  ON fee_configurations(fee_type, branch_id)
+  WHERE is_active = true
+    AND fee_type != 'grading'
+    AND branch_id IS NOT NULL
+    AND belt_level IS NULL;
+
+-- For grading fees: one active override per belt level per branch
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_branch_grading_fee_per_belt
+  ON fee_configurations(fee_type, branch_id, belt_level)
+  WHERE is_active = true
+    AND fee_type = 'grading'
+    AND branch_id IS NOT NULL
+    AND belt_level IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS fee_configurations_branch_id_idx
+  ON fee_configurations(branch_id)
+  WHERE branch_id IS NOT NULL;
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Dropped check_all_fees_global so fee configurations can be branch-specific
+-- 2. Added unique constraints for active branch overrides
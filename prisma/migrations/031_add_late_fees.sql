@@ -0,0 +1,108 @@
+-- Migration: Late Fee Penalties
+-- A configurable late-fee policy creates a linked penalty fee once an unpaid
+-- fee is past its due date plus the grace period. Admins can waive penalties.
+
+-- ============================================
+-- 1. Late Fee Policies Table
+-- ============================================
+-- Only one policy is active at a time; older rows are kept for history
+CREATE TABLE IF NOT EXISTS late_fee_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  grace_days INTEGER NOT NULL DEFAULT 0 CHECK (grace_days >= 0),
+  penalty_type VARCHAR(20) NOT NULL CHECK (penalty_type IN ('percentage', 'fixed')),
+  value DECIMAL(10,2) NOT NULL CHECK (value > 0),
+  max_amount DECIMAL(10,2) CHECK (max_amount IS NULL OR max_amount > 0), -- Cap per penalty
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by_id UUID, -- Admin who set the policy
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE late_fee_policies
+DROP CONSTRAINT IF EXISTS check_percentage_penalty_range;
+
+ALTER TABLE late_fee_policies
+ADD CONSTRAINT check_percentage_penalty_range
+CHECK (penalty_type != 'percentage' OR value <= 100);
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_late_fee_policy
+  ON late_fee_policies(is_active)
+  WHERE is_active = true;
+
+-- ============================================
+-- 2. Late fee type, waived status and penalty link on student_fees
+-- ============================================
+ALTER TABLE student_fees
+DROP CONSTRAINT IF EXISTS student_fees_fee_type_check;
+
+ALTER TABLE student_fees
+ADD CONSTRAINT student_fees_fee_type_check
+CHECK (fee_type IN ('registration', 'monthly', 'yearly', 'grading', 'late_fee'));
+
+ALTER TABLE student_fees
+DROP CONSTRAINT IF EXISTS student_fees_status_check;
+
+ALTER TABLE student_fees
+ADD CONSTRAINT student_fees_status_check
+CHECK (status IN ('pending', 'paid', 'overdue', 'waived'));
+
+ALTER TABLE student_fees
+ADD COLUMN IF NOT EXISTS parent_fee_id UUID REFERENCES student_fees(id) ON DELETE CASCADE, -- Late fees only: the fee that was paid late
+ADD COLUMN IF NOT EXISTS waived_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS waived_by_id UUID, -- Admin who waived the fee
+ADD COLUMN IF NOT EXISTS waiver_reason TEXT;
+
+ALTER TABLE student_fees
+DROP CONSTRAINT IF EXISTS check_late_fee_has_parent;
+
+ALTER TABLE student_fees
+ADD CONSTRAINT check_late_fee_has_parent
+CHECK (
+  (fee_type = 'late_fee' AND parent_fee_id IS NOT NULL) OR
+  (fee_type != 'late_fee' AND parent_fee_id IS NULL)
+);
+
+ALTER TABLE student_fees
+DROP CONSTRAINT IF EXISTS check_waiver_complete;
+
+ALTER TABLE student_fees
+ADD CONSTRAINT check_waiver_complete
+CHECK (
+  (status != 'waived' AND waived_at IS NULL) OR
+  (status = 'waived' AND waived_at IS NOT NULL AND waiver_reason IS NOT NULL)
+);
+
+-- At most one penalty per fee
+CREATE UNIQUE INDEX IF NOT EXISTS unique_late_fee_per_parent
+  ON student_fees(parent_fee_id)
+  WHERE fee_type = 'late_fee';
+
+-- ============================================
+-- 3. Enable RLS
+-- ============================================
+ALTER TABLE late_fee_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view late fee policies" ON late_fee_policies;
+DROP POLICY IF EXISTS "Service role full access to late fee policies" ON late_fee_policies;
+
+CREATE POLICY "Admins can view late fee policies"
+  ON late_fee_policies FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Service role full access to late fee policies"
+  ON late_fee_policies FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Created late_fee_policies table (grace days, flat/percentage, cap)
+-- 2. Added 'late_fee' fee type and 'waived' status to student_fees
+-- 3. Added parent_fee_id and waiver columns to student_fees
+-- 4. Set up RLS policies
@@ -0,0 +1,78 @@
+-- Migration: Fee Effective Dates
+-- Fee configurations carry the date they take effect, so price changes can be
+-- scheduled ahead ("monthly fee rises to ₹1200 from April"). Each scope
+-- (fee type, belt level, branch) keeps a timeline of active rates; the rate for
+-- a date is the active row with the latest effective_from on or before it.
+-- is_active = false now marks a rate that was replaced or cancelled.
+
+-- ============================================
+-- 1. effective_from on fee_configurations
+-- ============================================
+ALTER TABLE fee_configurations
+ADD COLUMN IF NOT EXISTS effective_from DATE;
+
+-- Current rates apply to every past period (nothing earlier is on record)
+UPDATE fee_configurations
+SET effective_from = DATE '2000-01-01'
+WHERE effective_from IS NULL AND is_active = true;
+
+-- Replaced rates keep the day they were set. They stay inactive, so they are
+-- kept on record but left out of the rate timeline (active rows only).
+UPDATE fee_configurations
+SET effective_from = created_at::date
+WHERE effective_from IS NULL;
+
+ALTER TABLE fee_configurations
+ALTER COLUMN effective_from SET NOT NULL,
+ALTER COLUMN effective_from SET DEFAULT CURRENT_DATE;
+
+ALTER TABLE fee_configuration_history
+ADD COLUMN IF NOT EXISTS effective_from DATE;
+
+-- ============================================
+-- 2. One active rate per scope per effective date
+-- ============================================
+DROP INDEX IF EXISTS unique_active_global_fee;
+DROP INDEX IF EXISTS unique_active_grading_fee_per_belt;
+DROP INDEX IF EXISTS unique_active_branch_fee;
+DROP INDEX IF EXISTS unique_active_branch_grading_fee_per_belt;
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_global_fee
+  ON fee_configurations(fee_type, effective_from)
+  WHERE is_active = true
+    AND fee_type != 'grading'
+    AND branch_id IS NULL
+    AND belt_level IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_grading_fee_per_belt
+  ON fee_configurations(fee_type, belt_level, effective_from)
+  WHERE is_active = true
+    AND fee_type = 'grading'
+    AND branch_id IS NULL
+    AND belt_level IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_branch_fee
+  ON fee_configurations(fee_type, branch_id, effective_from)
+  WHERE is_active = true
+    AND fee_type != 'grading'
+    AND branch_id IS NOT NULL
+    AND belt_level IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_branch_grading_fee_per_belt
+  ON fee_configurations(fee_type, branch_id, belt_level, effective_from)
+  WHERE is_active = true
+    AND fee_type = 'grading'
+    AND branch_id IS NOT NULL
+    AND belt_level IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS fee_configurations_effective_from_idx
+  ON fee_configurations(fee_type, effective_from DESC)
+  WHERE is_active = true;
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Added effective_from to fee_configurations (and fee_configuration_history)
+-- 2. Backfilled existing rates
+-- 3. Unique constraints now allow one active rate per scope per effective date
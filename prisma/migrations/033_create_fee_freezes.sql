@@ -0,0 +1,90 @@
+-- Migration: Fee Freezes
+-- Pauses monthly/yearly fee generation for a student during a long absence
+-- (exams, injury). A period that would start inside a freeze is skipped and
+-- billing resumes the day after the freeze ends.
+
+-- ============================================
+-- 1. Fee Freezes Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS fee_freezes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT NOT NULL,
+  approved_by_id UUID, -- Admin who approved the freeze
+  billing_resumed_on DATE, -- Set once a billing period has been shifted past this freeze
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE fee_freezes
+DROP CONSTRAINT IF EXISTS check_fee_freeze_dates;
+
+ALTER TABLE fee_freezes
+ADD CONSTRAINT check_fee_freeze_dates
+CHECK (end_date >= start_date);
+
+CREATE INDEX IF NOT EXISTS fee_freezes_student_id_idx
+  ON fee_freezes(student_id, start_date)
+  WHERE cancelled_at IS NULL;
+
+-- ============================================
+-- 2. updated_at trigger
+-- ============================================
+CREATE OR REPLACE FUNCTION update_fee_freezes_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_fee_freezes_updated_at_trigger ON fee_freezes;
+CREATE TRIGGER update_fee_freezes_updated_at_trigger
+  BEFORE UPDATE ON fee_freezes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_fee_freezes_updated_at();
+
+-- ============================================
+-- 3. Enable RLS
+-- ============================================
+ALTER TABLE fee_freezes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students can view own fee freezes" ON fee_freezes;
+DROP POLICY IF EXISTS "Admins can view fee freezes" ON fee_freezes;
+DROP POLICY IF EXISTS "Service role full access to fee freezes" ON fee_freezes;
+
+-- Students can view their own freezes
+CREATE POLICY "Students can view own fee freezes"
+  ON fee_freezes FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = fee_freezes.student_id
+      AND students.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view fee freezes"
+  ON fee_freezes FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Service role full access to fee freezes"
+  ON fee_freezes FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Created fee_freezes table (window, reason, approving admin)
+-- 2. Added updated_at trigger
+-- 3. Set up RLS policies
@@ -0,0 +1,22 @@
+-- Migration: UPI Payment References
+-- Payments received over UPI carry the bank's transaction reference (UTR) so the
+-- same transfer cannot be recorded twice during reconciliation.
+
+-- ============================================
+-- 1. Payment reference on fee_payments
+-- ============================================
+ALTER TABLE fee_payments
+ADD COLUMN IF NOT EXISTS payment_reference VARCHAR(64); -- UPI transaction reference (UTR)
+
+-- A reference can only back one live payment; reversed payments free it again
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_payment_reference
+  ON fee_payments(payment_reference)
+  WHERE payment_reference IS NOT NULL
+    AND reversed_at IS NULL;
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Added payment_reference to fee_payments
+-- 2. Added unique constraint for references on live payments
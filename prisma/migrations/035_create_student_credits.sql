@@ -0,0 +1,63 @@
+-- Migration: Student Credit Balance
+-- Money received for a student that is not (yet) allocated to a fee, e.g. the
+-- remainder of a multi-month prepayment. One row per movement: positive rows
+-- add credit, negative rows use it up. The balance is the sum of the rows.
+
+-- ============================================
+-- 1. Student Credit Transactions Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS student_credit_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount <> 0), -- Positive = credit added, negative = credit used
+  source VARCHAR(30) NOT NULL, -- 'prepayment'
+  payment_method VARCHAR(50), -- How the money was received, for credit added from a payment
+  student_fee_id UUID REFERENCES student_fees(id) ON DELETE SET NULL, -- Fee the credit relates to, if any
+  notes TEXT,
+  created_by_id UUID, -- Admin who recorded the movement
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS student_credit_transactions_student_id_idx
+  ON student_credit_transactions(student_id, created_at DESC);
+
+-- ============================================
+-- 2. Enable RLS
+-- ============================================
+ALTER TABLE student_credit_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students can view own credit transactions" ON student_credit_transactions;
+DROP POLICY IF EXISTS "Admins can view credit transactions" ON student_credit_transactions;
+DROP POLICY IF EXISTS "Service role full access to credit transactions" ON student_credit_transactions;
+
+-- Students can view their own credit
+CREATE POLICY "Students can view own credit transactions"
+  ON student_credit_transactions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_credit_transactions.student_id
+      AND students.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view credit transactions"
+  ON student_credit_transactions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Service role full access to credit transactions"
+  ON student_credit_transactions FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Created student_credit_transactions table (signed credit movements per student)
+-- 2. Set up RLS policies
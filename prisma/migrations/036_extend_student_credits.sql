@@ -0,0 +1,38 @@
+-- Migration: Student Credit Wallet
+-- Credit is now added by overpayments, refunds to credit and discounts, and is
+-- used up automatically when the next fee is created. Credit used on a fee is
+-- recorded as a fee_payments row with payment_method 'credit', linked here.
+
+-- ============================================
+-- 1. Link credit movements to ledger rows
+-- ============================================
+ALTER TABLE student_credit_transactions
+ADD COLUMN IF NOT EXISTS fee_payment_id UUID REFERENCES fee_payments(id) ON DELETE SET NULL;
+
+-- source: 'prepayment', 'overpayment', 'refund', 'discount', 'applied' (used on a fee),
+-- 'restored' (a credit payment was reversed)
+ALTER TABLE student_credit_transactions
+DROP CONSTRAINT IF EXISTS check_credit_source;
+
+ALTER TABLE student_credit_transactions
+ADD CONSTRAINT check_credit_source
+CHECK (source IN ('prepayment', 'overpayment', 'refund', 'discount', 'applied', 'restored'));
+
+-- Credit used on a fee is negative, everything else adds credit
+ALTER TABLE student_credit_transactions
+DROP CONSTRAINT IF EXISTS check_credit_amount_sign;
+
+ALTER TABLE student_credit_transactions
+ADD CONSTRAINT check_credit_amount_sign
+CHECK ((source = 'applied') = (amount < 0));
+
+CREATE INDEX IF NOT EXISTS student_credit_transactions_fee_payment_id_idx
+  ON student_credit_transactions(fee_payment_id)
+  WHERE fee_payment_id IS NOT NULL;
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Added fee_payment_id to student_credit_transactions
+-- 2. Restricted source values and the sign of amount per source
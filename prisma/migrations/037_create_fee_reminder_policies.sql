@@ -0,0 +1,145 @@
+-- Migration: Configurable Fee Reminder Policies
+-- Replaces the hard-coded "3 days before due date" pg_cron reminder with a
+-- policy table. Each policy sends a templated reminder N days before (negative
+-- offset), on (0) or after (positive offset) a fee's due date, over one channel.
+-- Reminders are sent by the server API (fees.sendReminders); deliveries are
+-- logged per fee and policy so each reminder goes out once. The old job keeps
+-- running until migration 046 schedules the server API in its place.
+
+-- ============================================
+-- 1. Fee Reminder Policies Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS fee_reminder_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  offset_days INTEGER NOT NULL CHECK (offset_days BETWEEN -60 AND 60), -- Days relative to due_date
+  channel VARCHAR(20) NOT NULL CHECK (channel IN ('push', 'in_app')),
+  title_template VARCHAR(100) NOT NULL,
+  message_template TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by_id UUID, -- Admin who set up the reminder
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One active reminder per day offset and channel
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_fee_reminder_policy
+  ON fee_reminder_policies(offset_days, channel)
+  WHERE is_active = true;
+
+CREATE OR REPLACE FUNCTION update_fee_reminder_policies_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_fee_reminder_policies_updated_at_trigger ON fee_reminder_policies;
+CREATE TRIGGER update_fee_reminder_policies_updated_at_trigger
+  BEFORE UPDATE ON fee_reminder_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_fee_reminder_policies_updated_at();
+
+-- ============================================
+-- 2. Fee Reminder Deliveries Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS fee_reminder_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_fee_id UUID NOT NULL REFERENCES student_fees(id) ON DELETE CASCADE,
+  policy_id UUID NOT NULL REFERENCES fee_reminder_policies(id) ON DELETE CASCADE,
+  notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT unique_fee_reminder_delivery UNIQUE (student_fee_id, policy_id)
+);
+
+CREATE INDEX IF NOT EXISTS fee_reminder_deliveries_policy_id_idx ON fee_reminder_deliveries(policy_id);
+
+-- ============================================
+-- 3. Default schedule
+-- ============================================
+-- Placeholders: {first_name}, {student_name}, {fee_type}, {amount}, {due_date}, {days}
+INSERT INTO fee_reminder_policies (offset_days, channel, title_template, message_template)
+SELECT * FROM (VALUES
+  (-7, 'in_app', 'Fee Reminder', 'Hi {first_name}, your {fee_type} fee of ₹{amount} is due on {due_date}.'),
+  (-3, 'push', 'Fee Reminder', 'Your {fee_type} fee of ₹{amount} is due in {days} days ({due_date}).'),
+  (0, 'push', 'Fee Due Today', 'Your {fee_type} fee of ₹{amount} is due today.'),
+  (3, 'push', 'Fee Overdue', 'Your {fee_type} fee of ₹{amount} was due on {due_date} and is now {days} days overdue.'),
+  (10, 'push', 'Fee Overdue', 'Your {fee_type} fee of ₹{amount} is {days} days overdue. Please pay or contact your branch admin.')
+) AS defaults(offset_days, channel, title_template, message_template)
+WHERE NOT EXISTS (SELECT 1 FROM fee_reminder_policies);
+
+-- ============================================
+-- 4. Overdue processing
+-- ============================================
+-- Overdue fees are still marked daily, but the notification now comes from the
+-- reminder policies (positive offsets) instead of a fixed message
+CREATE OR REPLACE FUNCTION process_overdue_fees()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE student_fees sf
+  SET
+    status = 'overdue',
+    overdue_notification_sent_at = NOW()
+  FROM students s
+  WHERE sf.student_id = s.id
+    AND sf.status = 'pending'
+    AND sf.due_date < CURRENT_DATE
+    AND sf.overdue_notification_sent_at IS NULL
+    AND s.is_active = true;
+END;
+$$;
+
+-- ============================================
+-- 5. Enable RLS
+-- ============================================
+ALTER TABLE fee_reminder_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fee_reminder_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view fee reminder policies" ON fee_reminder_policies;
+DROP POLICY IF EXISTS "Service role full access to fee reminder policies" ON fee_reminder_policies;
+DROP POLICY IF EXISTS "Admins can view fee reminder deliveries" ON fee_reminder_deliveries;
+DROP POLICY IF EXISTS "Service role full access to fee reminder deliveries" ON fee_reminder_deliveries;
+
+CREATE POLICY "Admins can view fee reminder policies"
+  ON fee_reminder_policies FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Service role full access to fee reminder policies"
+  ON fee_reminder_policies FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Admins can view fee reminder deliveries"
+  ON fee_reminder_deliveries FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Service role full access to fee reminder deliveries"
+  ON fee_reminder_deliveries FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Created fee_reminder_policies table (day offset, channel, title/message templates) with updated_at trigger
+-- 2. Created fee_reminder_deliveries table (one row per fee and policy once sent)
+-- 3. Seeded the default schedule: -7 (in-app), -3, 0, +3, +10 days (push)
+-- 4. process_overdue_fees() now only marks fees overdue
+-- 5. Set up RLS policies
+--
+-- send-fee-reminders-daily still runs send_fee_reminders() until migration 046
+-- replaces it with a daily call to the server API.
@@ -0,0 +1,80 @@
+-- Migration: Overdue Fee Escalation
+-- Reminders only reach the student's own account, which is not enough for minors.
+-- Once a fee is parent_after_days overdue the parent is emailed (parent_email);
+-- once it is admin_after_days overdue the student's branch admins get an alert.
+-- The stage reached is tracked per fee so each step happens once.
+
+-- ============================================
+-- 1. Overdue Escalation Policies Table
+-- ============================================
+-- Only one policy is active at a time; older rows are kept for history
+CREATE TABLE IF NOT EXISTS overdue_escalation_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_after_days INTEGER NOT NULL CHECK (parent_after_days >= 1),
+  admin_after_days INTEGER NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by_id UUID, -- Admin who set the policy
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT check_admin_after_parent CHECK (admin_after_days > parent_after_days)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_overdue_escalation_policy
+  ON overdue_escalation_policies(is_active)
+  WHERE is_active = true;
+
+-- Default: parents after a week, branch admins after two
+INSERT INTO overdue_escalation_policies (parent_after_days, admin_after_days)
+SELECT 7, 14
+WHERE NOT EXISTS (SELECT 1 FROM overdue_escalation_policies);
+
+-- ============================================
+-- 2. Escalation stage on student_fees
+-- ============================================
+ALTER TABLE student_fees
+ADD COLUMN IF NOT EXISTS overdue_escalation_stage VARCHAR(20) NOT NULL DEFAULT 'none',
+ADD COLUMN IF NOT EXISTS overdue_escalated_at TIMESTAMP WITH TIME ZONE; -- When the current stage was reached
+
+ALTER TABLE student_fees
+DROP CONSTRAINT IF EXISTS check_overdue_escalation_stage;
+
+ALTER TABLE student_fees
+ADD CONSTRAINT check_overdue_escalation_stage
+CHECK (overdue_escalation_stage IN ('none', 'parent', 'branch_admin'));
+
+CREATE INDEX IF NOT EXISTS student_fees_overdue_escalation_idx
+  ON student_fees(due_date)
+  WHERE status IN ('pending', 'overdue') AND overdue_escalation_stage != 'branch_admin';
+
+-- ============================================
+-- 3. Enable RLS
+-- ============================================
+ALTER TABLE overdue_escalation_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view overdue escalation policies" ON overdue_escalation_policies;
+DROP POLICY IF EXISTS "Service role full access to overdue escalation policies" ON overdue_escalation_policies;
+
+CREATE POLICY "Admins can view overdue escalation policies"
+  ON overdue_escalation_policies FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Service role full access to overdue escalation policies"
+  ON overdue_escalation_policies FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Created overdue_escalation_policies table (parent and branch admin thresholds), default 7 / 14 days
+-- 2. Added overdue_escalation_stage and overdue_escalated_at to student_fees
+-- 3. Set up RLS policies
+--
+-- Escalations run with the daily fee reminders (fees.sendReminders / fees.runScheduledReminders).
+-- Parent notices use the email API route /api/email/send-fee-overdue-notice
+-- (see ENV_TEMPLATE.md for its payload).
@@ -0,0 +1,139 @@
+-- Migration: Belt Grading Sessions
+-- Gradings are held as events: a date, an examiner panel and a list of
+-- candidates. Candidates are registered for the next belt, given a result
+-- (pass / fail / deferred) and everyone who passed is promoted in one go,
+-- which records the usual belt_gradings row and grading fee for each of them.
+
+-- ============================================
+-- 1. Grading Sessions Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS grading_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title VARCHAR(100) NOT NULL,
+  session_date DATE NOT NULL,
+  branch_id UUID REFERENCES branches(id) ON DELETE SET NULL, -- NULL = open to all branches
+  examiners TEXT[] NOT NULL DEFAULT '{}', -- Examiner panel (names)
+  notes TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'completed', 'cancelled')),
+  created_by_id UUID, -- Admin who created the session
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS grading_sessions_session_date_idx ON grading_sessions(session_date DESC);
+CREATE INDEX IF NOT EXISTS grading_sessions_branch_id_idx ON grading_sessions(branch_id);
+
+CREATE OR REPLACE FUNCTION update_grading_sessions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_grading_sessions_updated_at_trigger ON grading_sessions;
+CREATE TRIGGER update_grading_sessions_updated_at_trigger
+  BEFORE UPDATE ON grading_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_grading_sessions_updated_at();
+
+-- ============================================
+-- 2. Grading Session Candidates Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS grading_session_candidates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES grading_sessions(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  from_belt VARCHAR(50) NOT NULL, -- Belt held when registered
+  to_belt VARCHAR(50) NOT NULL, -- Belt being graded for
+  result VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (result IN ('pending', 'pass', 'fail', 'deferred')),
+  remarks TEXT, -- Examiner remarks
+  belt_grading_id UUID REFERENCES belt_gradings(id) ON DELETE SET NULL, -- Set once promoted
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT unique_grading_session_candidate UNIQUE (session_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS grading_session_candidates_student_id_idx ON grading_session_candidates(student_id);
+
+CREATE OR REPLACE FUNCTION update_grading_session_candidates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_grading_session_candidates_updated_at_trigger ON grading_session_candidates;
+CREATE TRIGGER update_grading_session_candidates_updated_at_trigger
+  BEFORE UPDATE ON grading_session_candidates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_grading_session_candidates_updated_at();
+
+-- ============================================
+-- 3. Link belt gradings to their session
+-- ============================================
+ALTER TABLE belt_gradings
+ADD COLUMN IF NOT EXISTS grading_session_id UUID REFERENCES grading_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS belt_gradings_grading_session_id_idx ON belt_gradings(grading_session_id);
+
+-- ============================================
+-- 4. Enable RLS
+-- ============================================
+ALTER TABLE grading_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE grading_session_candidates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view grading sessions" ON grading_sessions;
+DROP POLICY IF EXISTS "Service role full access to grading sessions" ON grading_sessions;
+DROP POLICY IF EXISTS "Students can view own grading candidacies" ON grading_session_candidates;
+DROP POLICY IF EXISTS "Admins can view grading candidates" ON grading_session_candidates;
+DROP POLICY IF EXISTS "Service role full access to grading candidates" ON grading_session_candidates;
+
+CREATE POLICY "Admins can view grading sessions"
+  ON grading_sessions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Service role full access to grading sessions"
+  ON grading_sessions FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Students can see their own registrations and results
+CREATE POLICY "Students can view own grading candidacies"
+  ON grading_session_candidates FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = grading_session_candidates.student_id
+      AND students.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view grading candidates"
+  ON grading_session_candidates FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "Service role full access to grading candidates"
+  ON grading_session_candidates FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Created grading_sessions table (date, branch, examiner panel, status) with updated_at trigger
+-- 2. Created grading_session_candidates table (belt graded for, result, remarks, promotion link)
+-- 3. Added grading_session_id to belt_gradings
+-- 4. Set up RLS policies
@@ -0,0 +1,81 @@
+-- Migration: Belt Grading Prerequisites
+-- Per-belt requirements a student must meet before being graded for that belt:
+-- time at their current belt, attendance since their last grading and age.
+-- Admins can still register a student who falls short, but must give a reason,
+-- which is kept on the candidate record.
+
+-- ============================================
+-- 1. Belt Prerequisites Table
+-- ============================================
+-- One row per belt being graded FOR (e.g. 'Orange' = requirements to go from Yellow to Orange)
+CREATE TABLE IF NOT EXISTS belt_prerequisites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  belt_level VARCHAR(50) NOT NULL UNIQUE,
+  min_months_at_belt INTEGER NOT NULL DEFAULT 0 CHECK (min_months_at_belt >= 0),
+  min_attendance_percentage INTEGER NOT NULL DEFAULT 0 CHECK (min_attendance_percentage BETWEEN 0 AND 100),
+  min_age_years INTEGER CHECK (min_age_years IS NULL OR min_age_years BETWEEN 3 AND 100), -- NULL = no age limit
+  updated_by_id UUID, -- Admin who last changed the requirements
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION update_belt_prerequisites_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_belt_prerequisites_updated_at_trigger ON belt_prerequisites;
+CREATE TRIGGER update_belt_prerequisites_updated_at_trigger
+  BEFORE UPDATE ON belt_prerequisites
+  FOR EACH ROW
+  EXECUTE FUNCTION update_belt_prerequisites_updated_at();
+
+-- Defaults: 75% attendance throughout, longer time in grade towards the senior belts
+INSERT INTO belt_prerequisites (belt_level, min_months_at_belt, min_attendance_percentage, min_age_years)
+VALUES
+  ('Yellow', 3, 75, NULL),
+  ('Orange', 3, 75, NULL),
+  ('Green', 4, 75, NULL),
+  ('Blue', 4, 75, NULL),
+  ('Purple', 6, 75, NULL),
+  ('Brown 4', 6, 75, NULL),
+  ('Brown 3', 6, 75, NULL),
+  ('Brown 2', 6, 75, NULL),
+  ('Brown 1', 6, 75, NULL),
+  ('Black', 12, 75, 16)
+ON CONFLICT (belt_level) DO NOTHING;
+
+-- ============================================
+-- 2. Override reason on grading candidates
+-- ============================================
+ALTER TABLE grading_session_candidates
+ADD COLUMN IF NOT EXISTS override_reason TEXT, -- Why an ineligible student was registered anyway
+ADD COLUMN IF NOT EXISTS overridden_by_id UUID; -- Admin who gave the override
+
+-- ============================================
+-- 3. Enable RLS
+-- ============================================
+ALTER TABLE belt_prerequisites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view belt prerequisites" ON belt_prerequisites;
+DROP POLICY IF EXISTS "Service role full access to belt prerequisites" ON belt_prerequisites;
+
+-- Students may see what they need for their next belt
+CREATE POLICY "Authenticated users can view belt prerequisites"
+  ON belt_prerequisites FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Service role full access to belt prerequisites"
+  ON belt_prerequisites FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Created belt_prerequisites table (months at current belt, attendance %, minimum age) with defaults
+-- 2. Added override_reason and overridden_by_id to grading_session_candidates
+-- 3. Set up RLS policies
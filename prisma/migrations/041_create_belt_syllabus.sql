@@ -0,0 +1,90 @@
+-- Migration: Belt Syllabus
+-- Moves the belt ladder out of the app into the database so each programme
+-- (the standard syllabus, the kids' programme with striped belts, ...) can
+-- define its own belts, colours, kyu/dan grades and order.
+-- Students, gradings, fees and prerequisites keep referring to belts by name,
+-- so belt names are unique across programmes and belts are retired rather than deleted.
+
+-- ============================================
+-- 1. Belt Ranks Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS belt_ranks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(50) NOT NULL UNIQUE, -- Stored on students.current_belt, belt_gradings, fee_configurations.belt_level
+  programme VARCHAR(50) NOT NULL DEFAULT 'Standard',
+  color VARCHAR(7) NOT NULL, -- Hex colour, e.g. '#FFEB3B'
+  stripe_color VARCHAR(7), -- Stripe through the belt (kids' programme), NULL = plain belt
+  grade_type VARCHAR(3) NOT NULL CHECK (grade_type IN ('kyu', 'dan')),
+  grade_number INTEGER NOT NULL CHECK (grade_number BETWEEN 1 AND 10),
+  sort_order INTEGER NOT NULL, -- Position within the programme, lowest first
+  is_active BOOLEAN NOT NULL DEFAULT true, -- Retired belts stay readable for historical records
+  updated_by_id UUID, -- Admin who last changed the belt
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS belt_ranks_programme_order_idx ON belt_ranks(programme, sort_order);
+
+CREATE OR REPLACE FUNCTION update_belt_ranks_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_belt_ranks_updated_at_trigger ON belt_ranks;
+CREATE TRIGGER update_belt_ranks_updated_at_trigger
+  BEFORE UPDATE ON belt_ranks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_belt_ranks_updated_at();
+
+-- ============================================
+-- 2. Seed the standard syllabus
+-- ============================================
+-- The eleven belts previously hard-coded in the app, followed by 2nd to 5th Dan
+-- ('Black' remains 1st Dan so existing students and fees keep working)
+INSERT INTO belt_ranks (name, programme, color, grade_type, grade_number, sort_order)
+VALUES
+  ('White', 'Standard', '#FFFFFF', 'kyu', 10, 1),
+  ('Yellow', 'Standard', '#FFEB3B', 'kyu', 9, 2),
+  ('Orange', 'Standard', '#FF9800', 'kyu', 8, 3),
+  ('Green', 'Standard', '#4CAF50', 'kyu', 7, 4),
+  ('Blue', 'Standard', '#2196F3', 'kyu', 6, 5),
+  ('Purple', 'Standard', '#9C27B0', 'kyu', 5, 6),
+  ('Brown 4', 'Standard', '#A1887F', 'kyu', 4, 7),
+  ('Brown 3', 'Standard', '#8D6E63', 'kyu', 3, 8),
+  ('Brown 2', 'Standard', '#795548', 'kyu', 2, 9),
+  ('Brown 1', 'Standard', '#6D4C41', 'kyu', 1, 10),
+  ('Black', 'Standard', '#000000', 'dan', 1, 11),
+  ('Black 2', 'Standard', '#000000', 'dan', 2, 12),
+  ('Black 3', 'Standard', '#000000', 'dan', 3, 13),
+  ('Black 4', 'Standard', '#000000', 'dan', 4, 14),
+  ('Black 5', 'Standard', '#000000', 'dan', 5, 15)
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================
+-- 3. Enable RLS
+-- ============================================
+ALTER TABLE belt_ranks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can view belt ranks" ON belt_ranks;
+DROP POLICY IF EXISTS "Service role full access to belt ranks" ON belt_ranks;
+
+-- Public can view the syllabus (shown on the public site, no authentication required)
+CREATE POLICY "Public can view belt ranks"
+  ON belt_ranks FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role full access to belt ranks"
+  ON belt_ranks FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Created belt_ranks table (name, programme, colour, stripe, kyu/dan grade, order)
+-- 2. Seeded the standard syllabus with 1st to 5th Dan
+-- 3. Set up RLS policies (public read, writes through the admin API)
@@ -0,0 +1,94 @@
+-- Migration: Belt Syllabus Content
+-- What a student has to show at grading for each belt: kata, kihon (basic
+-- techniques) and kumite (sparring) requirements, optionally with a YouTube demo.
+-- Instructors tick items off per student as they are ready ahead of grading.
+
+-- ============================================
+-- 1. Syllabus Items Table
+-- ============================================
+-- belt_level is the belt graded FOR (e.g. 'Orange' = what to show to go from Yellow to Orange)
+CREATE TABLE IF NOT EXISTS belt_syllabus_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  belt_level VARCHAR(50) NOT NULL,
+  category VARCHAR(10) NOT NULL CHECK (category IN ('kata', 'kihon', 'kumite')),
+  title VARCHAR(200) NOT NULL, -- e.g. 'Heian Shodan', 'Oi-zuki (stepping punch)'
+  description TEXT,
+  youtube_url TEXT, -- Optional demo video
+  sort_order INTEGER NOT NULL DEFAULT 0, -- Position within the belt and category
+  created_by_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS belt_syllabus_items_belt_level_idx ON belt_syllabus_items(belt_level, category, sort_order);
+
+CREATE OR REPLACE FUNCTION update_belt_syllabus_items_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_belt_syllabus_items_updated_at_trigger ON belt_syllabus_items;
+CREATE TRIGGER update_belt_syllabus_items_updated_at_trigger
+  BEFORE UPDATE ON belt_syllabus_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_belt_syllabus_items_updated_at();
+
+-- ============================================
+-- 2. Student Syllabus Progress Table
+-- ============================================
+-- One row per item an instructor has ticked off for a student
+CREATE TABLE IF NOT EXISTS student_syllabus_progress (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES belt_syllabus_items(id) ON DELETE CASCADE,
+  completed_by_id UUID, -- Instructor who ticked it off
+  completed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(student_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS student_syllabus_progress_student_id_idx ON student_syllabus_progress(student_id);
+
+-- ============================================
+-- 3. Enable RLS
+-- ============================================
+ALTER TABLE belt_syllabus_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_syllabus_progress ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view belt syllabus items" ON belt_syllabus_items;
+DROP POLICY IF EXISTS "Service role full access to belt syllabus items" ON belt_syllabus_items;
+DROP POLICY IF EXISTS "Students can view own syllabus progress" ON student_syllabus_progress;
+DROP POLICY IF EXISTS "Service role full access to syllabus progress" ON student_syllabus_progress;
+
+CREATE POLICY "Authenticated users can view belt syllabus items"
+  ON belt_syllabus_items FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Service role full access to belt syllabus items"
+  ON belt_syllabus_items FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Students can view their own progress
+CREATE POLICY "Students can view own syllabus progress"
+  ON student_syllabus_progress FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_syllabus_progress.student_id
+      AND students.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role full access to syllabus progress"
+  ON student_syllabus_progress FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Created belt_syllabus_items table (kata, kihon and kumite per belt, with optional demo video)
+-- 2. Created student_syllabus_progress table (items ticked off per student)
+-- 3. Set up RLS policies
@@ -0,0 +1,102 @@
+-- Migration: Class Sessions
+-- A branch can run several classes a day (morning and evening batches, extra
+-- sparring sessions). Attendance is recorded per class session instead of per
+-- date, so a student can be marked for each session they attend.
+
+-- ============================================
+-- 1. Class Sessions Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS class_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE RESTRICT,
+  batch_name VARCHAR(100) NOT NULL, -- e.g. 'Morning Batch', 'Sparring'
+  session_date DATE NOT NULL,
+  start_time TIME, -- NULL only for sessions backfilled from date-only attendance
+  end_time TIME,
+  instructor_id UUID REFERENCES instructors(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_time IS NULL OR start_time IS NULL OR end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS class_sessions_branch_date_idx ON class_sessions(branch_id, session_date DESC);
+CREATE INDEX IF NOT EXISTS class_sessions_session_date_idx ON class_sessions(session_date DESC);
+
+CREATE OR REPLACE FUNCTION update_class_sessions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_class_sessions_updated_at_trigger ON class_sessions;
+CREATE TRIGGER update_class_sessions_updated_at_trigger
+  BEFORE UPDATE ON class_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_class_sessions_updated_at();
+
+-- ============================================
+-- 2. Key Attendance to Sessions
+-- ============================================
+ALTER TABLE attendance_records
+  ADD COLUMN IF NOT EXISTS session_id UUID REFERENCES class_sessions(id) ON DELETE CASCADE;
+
+-- Existing attendance becomes one 'Regular Class' session per branch and date
+INSERT INTO class_sessions (branch_id, batch_name, session_date)
+SELECT DISTINCT students.branch_id, 'Regular Class', attendance_records.class_date
+FROM attendance_records
+JOIN students ON students.id = attendance_records.student_id
+WHERE attendance_records.session_id IS NULL
+AND NOT EXISTS (
+  SELECT 1 FROM class_sessions
+  WHERE class_sessions.branch_id = students.branch_id
+  AND class_sessions.session_date = attendance_records.class_date
+  AND class_sessions.batch_name = 'Regular Class'
+);
+
+UPDATE attendance_records
+SET session_id = class_sessions.id
+FROM students, class_sessions
+WHERE attendance_records.session_id IS NULL
+AND students.id = attendance_records.student_id
+AND class_sessions.branch_id = students.branch_id
+AND class_sessions.session_date = attendance_records.class_date
+AND class_sessions.batch_name = 'Regular Class';
+
+ALTER TABLE attendance_records ALTER COLUMN session_id SET NOT NULL;
+
+-- One record per student per session (class_date is kept as the session's date for reporting)
+ALTER TABLE attendance_records DROP CONSTRAINT IF EXISTS attendance_records_student_id_class_date_key;
+ALTER TABLE attendance_records DROP CONSTRAINT IF EXISTS attendance_records_student_id_session_id_key;
+ALTER TABLE attendance_records ADD CONSTRAINT attendance_records_student_id_session_id_key UNIQUE (student_id, session_id);
+
+CREATE INDEX IF NOT EXISTS attendance_records_session_id_idx ON attendance_records(session_id);
+
+-- ============================================
+-- 3. Enable RLS
+-- ============================================
+ALTER TABLE class_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view class sessions" ON class_sessions;
+DROP POLICY IF EXISTS "Service role full access to class sessions" ON class_sessions;
+
+-- Students see the batch names on their attendance history
+CREATE POLICY "Authenticated users can view class sessions"
+  ON class_sessions FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Service role full access to class sessions"
+  ON class_sessions FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Created class_sessions table (branch, batch, date, times, instructor)
+-- 2. Added attendance_records.session_id and backfilled 'Regular Class' sessions for existing attendance
+-- 3. Replaced UNIQUE(student_id, class_date) with UNIQUE(student_id, session_id)
+-- 4. Set up RLS policies
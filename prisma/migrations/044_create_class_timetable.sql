@@ -0,0 +1,116 @@
+-- Migration: Class Timetable and Batch Enrolment
+-- Each branch runs weekly recurring batches (e.g. 'Kids Morning', Mon/Wed/Fri
+-- 6:00-7:30 AM). Students are enrolled into batches; attendance marking,
+-- notification targeting and the public site's schedules come from the timetable.
+
+-- ============================================
+-- 1. Class Batches Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS class_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE RESTRICT,
+  name VARCHAR(100) NOT NULL, -- e.g. 'Kids Morning', 'Adults Evening'
+  days_of_week SMALLINT[] NOT NULL, -- 0 = Sunday ... 6 = Saturday
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  age_group VARCHAR(50), -- e.g. 'Ages 5-12', 'Adults'
+  level VARCHAR(50), -- e.g. 'Beginner', 'Advanced', 'All Levels'
+  instructor_id UUID REFERENCES instructors(id) ON DELETE SET NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true, -- Retired batches keep their history
+  created_by_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_time > start_time),
+  CHECK (cardinality(days_of_week) > 0 AND days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[])
+);
+
+CREATE INDEX IF NOT EXISTS class_batches_branch_id_idx ON class_batches(branch_id, is_active);
+
+CREATE OR REPLACE FUNCTION update_class_batches_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_class_batches_updated_at_trigger ON class_batches;
+CREATE TRIGGER update_class_batches_updated_at_trigger
+  BEFORE UPDATE ON class_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_class_batches_updated_at();
+
+-- ============================================
+-- 2. Batch Enrolments Table
+-- ============================================
+CREATE TABLE IF NOT EXISTS student_batch_enrolments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES class_batches(id) ON DELETE CASCADE,
+  enrolled_by_id UUID,
+  enrolled_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(student_id, batch_id)
+);
+
+CREATE INDEX IF NOT EXISTS student_batch_enrolments_batch_id_idx ON student_batch_enrolments(batch_id);
+
+-- ============================================
+-- 3. Link Sessions and Notifications to Batches
+-- ============================================
+-- Sessions started from the timetable
+ALTER TABLE class_sessions
+  ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES class_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS class_sessions_batch_id_idx ON class_sessions(batch_id, session_date);
+
+-- Notifications can target the students enrolled in a batch
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS target_batch_id UUID REFERENCES class_batches(id) ON DELETE SET NULL;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_target_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_target_type_check
+  CHECK (target_type IN ('all', 'branch', 'batch', 'students'));
+
+-- ============================================
+-- 4. Enable RLS
+-- ============================================
+ALTER TABLE class_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_batch_enrolments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public can view active class batches" ON class_batches;
+DROP POLICY IF EXISTS "Service role full access to class batches" ON class_batches;
+DROP POLICY IF EXISTS "Students can view own batch enrolments" ON student_batch_enrolments;
+DROP POLICY IF EXISTS "Service role full access to batch enrolments" ON student_batch_enrolments;
+
+-- The timetable is shown on the public site (no authentication required)
+CREATE POLICY "Public can view active class batches"
+  ON class_batches FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Service role full access to class batches"
+  ON class_batches FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Students can view their own enrolments
+CREATE POLICY "Students can view own batch enrolments"
+  ON student_batch_enrolments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_batch_enrolments.student_id
+      AND students.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role full access to batch enrolments"
+  ON student_batch_enrolments FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Created class_batches table (weekly timetable per branch: days, times, age group, level, instructor)
+-- 2. Created student_batch_enrolments table
+-- 3. Added class_sessions.batch_id and notifications.target_batch_id ('batch' target type)
+-- 4. Set up RLS policies (active batches are public)
@@ -0,0 +1,65 @@
+-- Migration: Guard Student Credit Balance
+-- Credit could be spent twice when two fees were created at the same time, as
+-- the balance was read before the negative movement was inserted. Negative
+-- movements are now checked against the balance under a lock on the student.
+-- Voiding a payment that added overpayment credit withdraws that credit again.
+
+-- ============================================
+-- 1. 'withdrawn' source (credit taken back when its payment is voided)
+-- ============================================
+ALTER TABLE student_credit_transactions
+DROP CONSTRAINT IF EXISTS check_credit_source;
+
+ALTER TABLE student_credit_transactions
+ADD CONSTRAINT check_credit_source
+CHECK (source IN ('prepayment', 'overpayment', 'refund', 'discount', 'applied', 'restored', 'withdrawn'));
+
+-- Credit used on a fee or withdrawn is negative, everything else adds credit
+ALTER TABLE student_credit_transactions
+DROP CONSTRAINT IF EXISTS check_credit_amount_sign;
+
+ALTER TABLE student_credit_transactions
+ADD CONSTRAINT check_credit_amount_sign
+CHECK ((source IN ('applied', 'withdrawn')) = (amount < 0));
+
+-- ============================================
+-- 2. Balance check on negative movements
+-- ============================================
+-- The row lock on students serialises movements for one student, so two
+-- concurrent spends cannot both see the same balance.
+CREATE OR REPLACE FUNCTION check_student_credit_balance()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_balance DECIMAL(10,2);
+BEGIN
+  IF NEW.amount >= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM 1 FROM students WHERE id = NEW.student_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_balance
+  FROM student_credit_transactions
+  WHERE student_id = NEW.student_id;
+
+  IF v_balance + NEW.amount < 0 THEN
+    RAISE EXCEPTION 'insufficient_student_credit: balance %, movement %', v_balance, NEW.amount
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_student_credit_balance_trigger ON student_credit_transactions;
+CREATE TRIGGER check_student_credit_balance_trigger
+  BEFORE INSERT ON student_credit_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_student_credit_balance();
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Added the 'withdrawn' credit source
+-- 2. Rejected negative credit movements that exceed the student's balance
@@ -0,0 +1,80 @@
+-- Migration: Schedule Fee Reminders Through the Server API
+-- Replaces the send-fee-reminders-daily job (send_fee_reminders(), migration 016)
+-- with a daily call to fees.runScheduledReminders, which sends the policy-based
+-- reminders from migration 037 and applies late fees and overdue escalations.
+-- The job is only replaced once pg_cron, pg_net and the two Vault secrets below
+-- are available, so reminders never stop because the setup is incomplete.
+--
+-- Secrets (Supabase Dashboard → Project Settings → Vault, or SQL):
+--   SELECT vault.create_secret('https://your-api-host', 'fee_reminder_api_url');
+--   SELECT vault.create_secret('<FEE_REMINDER_CRON_SECRET>', 'fee_reminder_cron_secret');
+-- then run: SELECT schedule_fee_reminder_api_job();
+
+-- ============================================
+-- 1. Scheduling function
+-- ============================================
+-- Returns true when the API job is scheduled, false (with a notice) when
+-- something is missing and the old job was left in place
+CREATE OR REPLACE FUNCTION schedule_fee_reminder_api_job()
+RETURNS boolean
+LANGUAGE plpgsql
+AS $fn$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    OR NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net')
+    OR NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'supabase_vault') THEN
+    RAISE NOTICE 'pg_cron, pg_net and supabase_vault are required. Keeping the existing fee reminder job.';
+    RETURN false;
+  END IF;
+
+  IF (
+    SELECT COUNT(DISTINCT name) FROM vault.decrypted_secrets
+    WHERE name IN ('fee_reminder_api_url', 'fee_reminder_cron_secret')
+  ) < 2 THEN
+    RAISE NOTICE 'Vault secrets fee_reminder_api_url and fee_reminder_cron_secret are not set. Keeping the existing fee reminder job.';
+    RETURN false;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'send-fee-reminders-daily') THEN
+    PERFORM cron.unschedule('send-fee-reminders-daily');
+  END IF;
+
+  -- Secrets are read when the job runs, so they never appear in cron.job
+  PERFORM cron.schedule(
+    'send-fee-reminders-daily',
+    '0 9 * * *', -- 9 AM daily (UTC)
+    $job$SELECT net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'fee_reminder_api_url')
+        || '/api/fees.runScheduledReminders',
+      headers := '{"Content-Type": "application/json"}'::jsonb,
+      body := jsonb_build_object(
+        'secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'fee_reminder_cron_secret')
+      )
+    );$job$
+  );
+
+  DROP FUNCTION IF EXISTS send_fee_reminders();
+
+  RAISE NOTICE 'Scheduled daily fee reminders through the server API';
+  RETURN true;
+END;
+$fn$;
+
+-- ============================================
+-- 2. Schedule now if everything is in place
+-- ============================================
+SELECT schedule_fee_reminder_api_job();
+
+-- ============================================
+-- Migration Complete
+-- ============================================
+-- Summary:
+-- 1. Created schedule_fee_reminder_api_job()
+-- 2. Replaced send-fee-reminders-daily with the server API call when pg_cron, pg_net
+--    and the Vault secrets exist; otherwise the old job keeps running
+--
+-- To check which job is scheduled:
+-- SELECT jobname, command FROM cron.job WHERE jobname = 'send-fee-reminders-daily';
+--
+-- To check the API responses:
+-- SELECT status_code, content FROM net._http_response ORDER BY created DESC LIMIT 5;
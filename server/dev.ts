@@ -0,0 +1,52 @@
+/**
+ * Local runner for the server API
+ *
+ *   npm run api
+ *
+ * Loads .env.local / .env, then serves server/index.ts on API_PORT (default 8787).
+ * Point the app at it with EXPO_PUBLIC_API_URL=http://<your-lan-ip>:8787
+ */
+
+import { createServer, type IncomingMessage } from 'node:http'
+import { config } from 'dotenv'
+
+config({ path: '.env.local' })
+config()
+
+const port = Number(process.env.API_PORT) || 8787
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks)
+}
+
+async function main() {
+  // Imported after dotenv so the service role client sees the environment
+  const { default: handler } = await import('./index')
+
+  createServer(async (req, res) => {
+    try {
+      const body = req.method === 'GET' || req.method === 'HEAD' ? undefined : await readBody(req)
+      const request = new Request(`http://localhost:${port}${req.url}`, {
+        method: req.method,
+        headers: req.headers as Record<string, string>,
+        body: body ? new Uint8Array(body) : undefined,
+      })
+
+      const response = await handler(request)
+      res.writeHead(response.status, Object.fromEntries(response.headers.entries()))
+      res.end(Buffer.from(await response.arrayBuffer()))
+    } catch (error) {
+      console.error('Unhandled API error', error)
+      res.writeHead(500, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: 'Internal server error' }))
+    }
+  }).listen(port, () => {
+    console.log(`API listening on http://localhost:${port}/api/<endpoint>`)
+  })
+}
+
+main()
@@ -0,0 +1,626 @@
+import type { Caller, UserRole } from './lib/auth'
+import { canAccessStudent, canAccessStudentRecord } from './lib/auth'
+import * as fees from './services/fees'
+import * as students from './services/students'
+import * as branches from './services/branches'
+import * as attendance from './services/attendance'
+import * as leaveInforms from './services/student-leave-informs'
+import * as notifications from './services/admin-notifications'
+import * as passwordReset from './services/password-reset'
+import * as storage from './services/storage'
+import * as reports from './services/reports'
+import * as gradings from './services/gradings'
+import * as belts from './services/belts'
+import * as batches from './services/batches'
+import type { FeeType, PaymentType, FeeStatus } from '../src/lib/fees'
+import type { CreateStudentData } from '../src/lib/students'
+import type { CreateBranchData, UpdateBranchData } from '../src/lib/branches'
+import type { AttendanceStatus, CreateAttendanceRecordData, CreateClassSessionData } from '../src/lib/attendance'
+import type {
+  CreateGradingSessionData,
+  GradingResultInput,
+  GradingSessionStatus,
+  SaveBeltPrerequisiteData,
+} from '../src/lib/gradings'
+import type { SaveBeltRankData } from '../src/lib/belts'
+import type { SaveBeltSyllabusItemData } from '../src/lib/belt-syllabus'
+import type { SaveClassBatchData } from '../src/lib/batches'
+
+/**
+ * An API endpoint
+ * roles: who may call it (null = public, no session required)
+ * handle: receives the JSON body and the caller resolved from the access token,
+ * and returns the usual `{ ..., error }` result object
+ */
+export interface Endpoint<I, R extends { error: Error | null }> {
+  roles: readonly UserRole[] | null
+  handle: (input: I, caller: Caller | null) => Promise<R>
+}
+
+const SUPER_ADMIN: readonly UserRole[] = ['super_admin']
+const ADMINS: readonly UserRole[] = ['super_admin', 'admin']
+const ANY_USER: readonly UserRole[] = ['super_admin', 'admin', 'student']
+
+function endpoint<I, R extends { error: Error | null }>(
+  roles: readonly UserRole[],
+  handle: (input: I, caller: Caller) => Promise<R>
+): Endpoint<I, R> {
+  return { roles, handle: (input, caller) => handle(input, caller as Caller) }
+}
+
+function publicEndpoint<I, R extends { error: Error | null }>(
+  handle: (input: I) => Promise<R>
+): Endpoint<I, R> {
+  return { roles: null, handle: (input) => handle(input) }
+}
+
+const forbidden = () => new Error('You do not have access to this student')
+
+/**
+ * canAccessStudent for the students owning every fee in a batch of payments
+ */
+async function canAccessStudentFees(caller: Caller, entries: Array<{ studentFeeId: string }>): Promise<boolean> {
+  if (caller.role === 'super_admin') return true
+  const feeIds = [...new Set((entries || []).map((entry) => entry.studentFeeId))]
+  const allowed = await Promise.all(feeIds.map((feeId) => canAccessStudentRecord(caller, 'student_fees', feeId)))
+  return allowed.every(Boolean)
+}
+
+export const endpoints = {
+  // Fees
+  'fees.getConfiguration': endpoint(
+    ANY_USER,
+    (input: { feeType: FeeType; beltLevel?: string | null; branchId?: string | null; onDate?: string }) =>
+      fees.getFeeConfiguration(input.feeType, input.beltLevel, input.branchId, input.onDate)
+  ),
+  'fees.getConfigurations': publicEndpoint(
+    (input: { feeType?: FeeType; branchId?: string | null; includeScheduled?: boolean }) =>
+      fees.getAllFeeConfigurations(input)
+  ),
+  'fees.setConfiguration': endpoint(
+    SUPER_ADMIN,
+    (
+      input: {
+        feeType: FeeType
+        amount: number
+        beltLevel: string | null
+        branchId?: string | null
+        effectiveFrom?: string | null
+      },
+      caller
+    ) =>
+      fees.setFeeConfiguration(
+        input.feeType,
+        input.amount,
+        input.beltLevel,
+        caller.userId,
+        input.branchId || null,
+        input.effectiveFrom
+      )
+  ),
+  'fees.getRateHistory': endpoint(
+    ADMINS,
+    (input: { feeType: FeeType; beltLevel: string | null; branchId?: string | null }) =>
+      fees.getFeeRateHistory(input.feeType, input.beltLevel, input.branchId || null)
+  ),
+  'fees.cancelScheduledChange': endpoint(SUPER_ADMIN, (input: { configurationId: string }) =>
+    fees.cancelScheduledFeeChange(input.configurationId)
+  ),
+  'fees.removeBranchOverride': endpoint(
+    SUPER_ADMIN,
+    (input: { feeType: FeeType; beltLevel: string | null; branchId: string }) =>
+      fees.removeBranchFeeOverride(input.feeType, input.beltLevel, input.branchId)
+  ),
+  'fees.getDiscountRules': endpoint(ADMINS, () => fees.getDiscountRules()),
+  'fees.createDiscountRule': endpoint(
+    SUPER_ADMIN,
+    (input: Parameters<typeof fees.createDiscountRule>[0], caller) => fees.createDiscountRule(input, caller.userId)
+  ),
+  'fees.deactivateDiscountRule': endpoint(SUPER_ADMIN, (input: { ruleId: string }) =>
+    fees.deactivateDiscountRule(input.ruleId)
+  ),
+  'fees.getStudentDiscounts': endpoint(ADMINS, async (input: { studentId: string }, caller) => {
+    if (!(await canAccessStudent(caller, input.studentId))) return { discounts: null, error: forbidden() }
+    return fees.getStudentDiscounts(input.studentId)
+  }),
+  'fees.assignStudentDiscount': endpoint(ADMINS, async (input: { studentId: string; ruleId: string }, caller) => {
+    if (!(await canAccessStudent(caller, input.studentId))) return { discount: null, error: forbidden() }
+    return fees.assignStudentDiscount(input.studentId, input.ruleId, caller.userId)
+  }),
+  'fees.removeStudentDiscount': endpoint(
+    ADMINS,
+    async (input: { studentId: string; studentDiscountId: string }, caller) => {
+      if (!(await canAccessStudent(caller, input.studentId))) return { success: false, error: forbidden() }
+      return fees.removeStudentDiscount(input.studentId, input.studentDiscountId)
+    }
+  ),
+  'fees.getFeeFreezes': endpoint(ANY_USER, async (input: { studentId: string }, caller) => {
+    if (!(await canAccessStudent(caller, input.studentId))) return { freezes: null, error: forbidden() }
+    return fees.getFeeFreezes(input.studentId)
+  }),
+  'fees.createFeeFreeze': endpoint(
+    ADMINS,
+    async (input: { studentId: string; startDate: string; endDate: string; reason: string }, caller) => {
+      if (!(await canAccessStudent(caller, input.studentId))) return { freeze: null, error: forbidden() }
+      return fees.createFeeFreeze(
+        input.studentId,
+        { startDate: input.startDate, endDate: input.endDate, reason: input.reason },
+        caller.userId
+      )
+    }
+  ),
+  'fees.endFeeFreeze': endpoint(ADMINS, async (input: { studentId: string; freezeId: string }, caller) => {
+    if (!(await canAccessStudent(caller, input.studentId))) return { freeze: null, error: forbidden() }
+    return fees.endFeeFreeze(input.studentId, input.freezeId)
+  }),
+  'fees.getLateFeePolicy': endpoint(ADMINS, () => fees.getLateFeePolicy()),
+  'fees.setLateFeePolicy': endpoint(
+    SUPER_ADMIN,
+    (input: Parameters<typeof fees.setLateFeePolicy>[0], caller) => fees.setLateFeePolicy(input, caller.userId)
+  ),
+  'fees.disableLateFeePolicy': endpoint(SUPER_ADMIN, () => fees.disableLateFeePolicy()),
+  'fees.getPaymentPreference': endpoint(ANY_USER, async (input: { studentId: string }, caller) => {
+    if (!(await canAccessStudent(caller, input.studentId))) return { preference: null, error: forbidden() }
+    return fees.getStudentPaymentPreference(input.studentId)
+  }),
+  'fees.setPaymentPreference': endpoint(
+    ADMINS,
+    async (input: { studentId: string; paymentType: PaymentType; startedFrom: string }, caller) => {
+      if (!(await canAccessStudent(caller, input.studentId))) return { preference: null, error: forbidden() }
+      return fees.setStudentPaymentPreference(input.studentId, input.paymentType, input.startedFrom)
+    }
+  ),
+  'fees.createStudentFee': endpoint(ADMINS, async (input: Parameters<typeof fees.createStudentFee>[0], caller) => {
+    if (!(await canAccessStudent(caller, input.studentId))) return { fee: null, error: forbidden() }
+    return fees.createStudentFee(input)
+  }),
+  'fees.getStudentFees': endpoint(
+    ANY_USER,
+    async (input: { studentId: string; status?: FeeStatus | 'all'; feeType?: FeeType | 'all' }, caller) => {
+      if (!(await canAccessStudent(caller, input.studentId))) return { fees: null, error: forbidden() }
+      return fees.getStudentFees(input.studentId, { status: input.status, feeType: input.feeType })
+    }
+  ),
+  'fees.recordPayment': endpoint(
+    ADMINS,
+    async (
+      input: {
+        studentFeeId: string
+        amount: number
+        paymentMethod: string
+        notes?: string | null
+        paymentReference?: string | null
+        excessToCredit?: boolean
+      },
+      caller
+    ) => {
+      if (!(await canAccessStudentRecord(caller, 'student_fees', input.studentFeeId))) {
+        return { success: false, payment: null, error: forbidden() }
+      }
+      return fees.recordPayment(input.studentFeeId, {
+        amount: input.amount,
+        paymentMethod: input.paymentMethod,
+        notes: input.notes,
+        paymentReference: input.paymentReference,
+        excessToCredit: input.excessToCredit,
+        recordedById: caller.userId,
+      })
+    }
+  ),
+  'fees.recordBulkPayments': endpoint(
+    ADMINS,
+    async (input: { entries: Parameters<typeof fees.recordBulkPayments>[0] }, caller) => {
+      if (!(await canAccessStudentFees(caller, input.entries))) return { results: null, error: forbidden() }
+      return fees.recordBulkPayments(input.entries, caller.userId)
+    }
+  ),
+  'fees.recordUpiPayments': endpoint(
+    ADMINS,
+    async (input: { entries: Array<{ studentFeeId: string; amount: number; reference: string }> }, caller) => {
+      if (!(await canAccessStudentFees(caller, input.entries))) return { results: null, error: forbidden() }
+      return fees.recordUpiPayments(input.entries, caller.userId)
+    }
+  ),
+  'fees.recordPrepayment': endpoint(
+    ADMINS,
+    async (
+      input: {
+        studentId: string
+        months: number
+        amount: number
+        paymentMethod: string
+        paymentReference?: string | null
+        notes?: string | null
+      },
+      caller
+    ) => {
+      if (!(await canAccessStudent(caller, input.studentId))) {
+        return { allocations: null, creditAdded: null, error: forbidden() }
+      }
+      return fees.recordPrepayment(input.studentId, {
+        months: input.months,
+        amount: input.amount,
+        paymentMethod: input.paymentMethod,
+        paymentReference: input.paymentReference,
+        notes: input.notes,
+        recordedById: caller.userId,
+      })
+    }
+  ),
+  'fees.grantCredit': endpoint(
+    ADMINS,
+    async (input: { studentId: string; amount: number; notes: string }, caller) => {
+      if (!(await canAccessStudent(caller, input.studentId))) return { transaction: null, error: forbidden() }
+      return fees.grantStudentCredit(input.studentId, { amount: input.amount, notes: input.notes }, caller.userId)
+    }
+  ),
+  'fees.getCredit': endpoint(ANY_USER, async (input: { studentId: string }, caller) => {
+    if (!(await canAccessStudent(caller, input.studentId))) return { balance: null, transactions: null, error: forbidden() }
+    return fees.getStudentCredit(input.studentId)
+  }),
+  'fees.getPayments': endpoint(ANY_USER, async (input: { studentId: string; studentFeeId?: string }, caller) => {
+    if (!(await canAccessStudent(caller, input.studentId))) return { payments: null, error: forbidden() }
+    return fees.getStudentPayments(input.studentId, input.studentFeeId)
+  }),
+  'fees.getReceipt': endpoint(ANY_USER, async (input: { paymentId: string }, caller) => {
+    const result = await fees.getPaymentReceipt(input.paymentId)
+    if (result.receipt && !(await canAccessStudent(caller, result.receipt.student.id))) {
+      return { receipt: null, error: forbidden() }
+    }
+    return result
+  }),
+  'fees.getStatement': endpoint(
+    ANY_USER,
+    async (input: { studentId: string; startDate: string; endDate: string }, caller) => {
+      if (!(await canAccessStudent(caller, input.studentId))) return { statement: null, error: forbidden() }
+      return fees.getFeeStatement(input.studentId, input.startDate, input.endDate)
+    }
+  ),
+  'fees.reversePayment': endpoint(ADMINS, async (input: { paymentId: string; reason: string }, caller) => {
+    if (!(await canAccessStudentRecord(caller, 'fee_payments', input.paymentId))) {
+      return { success: false, error: forbidden() }
+    }
+    return fees.reversePayment(input.paymentId, { reason: input.reason, reversedById: caller.userId })
+  }),
+  'fees.refundPayment': endpoint(
+    ADMINS,
+    async (input: { paymentId: string; reason: string; toCredit?: boolean }, caller) => {
+      if (!(await canAccessStudentRecord(caller, 'fee_payments', input.paymentId))) {
+        return { success: false, error: forbidden() }
+      }
+      return fees.refundPayment(input.paymentId, { reason: input.reason, refundedById: caller.userId, toCredit: input.toCredit })
+    }
+  ),
+  'fees.waiveLateFee': endpoint(
+    ADMINS,
+    async (input: { studentId: string; feeId: string; reason: string }, caller) => {
+      if (!(await canAccessStudent(caller, input.studentId))) return { fee: null, error: forbidden() }
+      return fees.waiveLateFee(input.studentId, input.feeId, { reason: input.reason, waivedById: caller.userId })
+    }
+  ),
+  'fees.initializeStudentFees': endpoint(
+    ADMINS,
+    async (input: { studentId: string; paymentType: PaymentType; enrollmentDate: string }, caller) => {
+      if (!(await canAccessStudent(caller, input.studentId))) return { success: false, error: forbidden() }
+      return fees.initializeStudentFees(input.studentId, input.paymentType, input.enrollmentDate)
+    }
+  ),
+  'fees.switchPaymentPreference': endpoint(
+    ADMINS,
+    async (input: { studentId: string; newPaymentType: PaymentType; switchDate: string }, caller) => {
+      if (!(await canAccessStudent(caller, input.studentId))) return { success: false, error: forbidden() }
+      return fees.switchPaymentPreference(input.studentId, input.newPaymentType, input.switchDate)
+    }
+  ),
+  'fees.getAllFees': endpoint(ADMINS, (input: Parameters<typeof fees.getAllFees>[0], caller) =>
+    // Branch admins only ever see their own branch
+    fees.getAllFees({ ...input, branchId: caller.role === 'admin' ? caller.branchId : input?.branchId })
+  ),
+  'fees.getReminderPolicies': endpoint(ADMINS, () => fees.getReminderPolicies()),
+  'fees.saveReminderPolicy': endpoint(
+    SUPER_ADMIN,
+    (input: Parameters<typeof fees.saveReminderPolicy>[0], caller) => fees.saveReminderPolicy(input, caller.userId)
+  ),
+  'fees.removeReminderPolicy': endpoint(SUPER_ADMIN, (input: { policyId: string }) =>
+    fees.removeReminderPolicy(input.policyId)
+  ),
+  'fees.getFeesDueForReminder': endpoint(SUPER_ADMIN, (input: { policyId: string }) =>
+    fees.getFeesDueForReminder(input.policyId)
+  ),
+  'fees.getOverdueFees': endpoint(SUPER_ADMIN, () => fees.getOverdueFees()),
+  'fees.markReminderSent': endpoint(SUPER_ADMIN, (input: { feeId: string; policyId: string }) =>
+    fees.markReminderSent(input.feeId, input.policyId)
+  ),
+  'fees.sendReminders': endpoint(SUPER_ADMIN, (_input: unknown, caller) => fees.sendFeeReminders(caller.userId)),
+  // Called by the daily scheduler (no session); authorised by FEE_REMINDER_CRON_SECRET
+  'fees.runScheduledReminders': publicEndpoint((input: { secret?: string }) =>
+    fees.runScheduledFeeReminders(input.secret)
+  ),
+  'fees.getOverdueEscalationPolicy': endpoint(ADMINS, () => fees.getOverdueEscalationPolicy()),
+  'fees.setOverdueEscalationPolicy': endpoint(
+    SUPER_ADMIN,
+    (input: Parameters<typeof fees.setOverdueEscalationPolicy>[0], caller) =>
+      fees.setOverdueEscalationPolicy(input, caller.userId)
+  ),
+  'fees.disableOverdueEscalationPolicy': endpoint(SUPER_ADMIN, () => fees.disableOverdueEscalationPolicy()),
+  'fees.markOverdueNotificationSent': endpoint(SUPER_ADMIN, (input: { feeId: string }) =>
+    fees.markOverdueNotificationSent(input.feeId)
+  ),
+
+  // Students
+  'students.create': endpoint(SUPER_ADMIN, (input: CreateStudentData, caller) =>
+    students.createStudent(input, caller.userId)
+  ),
+  'students.delete': endpoint(SUPER_ADMIN, (input: { studentId: string; hardDelete?: boolean }, caller) =>
+    students.deleteStudent(input.studentId, input.hardDelete ?? false, caller.userId)
+  ),
+  'students.reactivate': endpoint(SUPER_ADMIN, (input: { studentId: string }, caller) =>
+    students.reactivateStudent(input.studentId, caller.userId)
+  ),
+
+  // Branches
+  'branches.create': endpoint(SUPER_ADMIN, (input: CreateBranchData, caller) =>
+    branches.createBranch(input, caller.userId)
+  ),
+  'branches.update': endpoint(SUPER_ADMIN, (input: { branchId: string; updates: UpdateBranchData }, caller) =>
+    branches.updateBranch(input.branchId, input.updates, caller.userId)
+  ),
+  'branches.delete': endpoint(SUPER_ADMIN, (input: { branchId: string }, caller) =>
+    branches.deleteBranch(input.branchId, caller.userId)
+  ),
+  'branches.assignAdmin': endpoint(
+    SUPER_ADMIN,
+    (input: {
+      branchId: string
+      adminEmail: string
+      adminName: string
+      adminDetails?: Parameters<typeof branches.assignAdminToBranch>[3]
+      sendEmail?: boolean
+    }) =>
+      branches.assignAdminToBranch(input.branchId, input.adminEmail, input.adminName, input.adminDetails, input.sendEmail ?? true)
+  ),
+  'branches.changeAdmin': endpoint(
+    SUPER_ADMIN,
+    (input: {
+      branchId: string
+      newAdminEmail: string
+      newAdminName: string
+      adminDetails?: Parameters<typeof branches.changeBranchAdmin>[3]
+      sendEmails?: boolean
+    }) =>
+      branches.changeBranchAdmin(input.branchId, input.newAdminEmail, input.newAdminName, input.adminDetails, input.sendEmails ?? true)
+  ),
+
+  // Reports
+  'reports.getFinancial': endpoint(ADMINS, (input: Parameters<typeof reports.getFinancialReport>[0], caller) =>
+    // Branch admins only ever see their own branch
+    reports.getFinancialReport({ ...input, branchId: caller.role === 'admin' ? caller.branchId : input?.branchId })
+  ),
+
+  // Attendance
+  'attendance.mark': endpoint(ADMINS, (input: CreateAttendanceRecordData, caller) =>
+    attendance.markAttendance(input, caller.userId)
+  ),
+  'attendance.markBulk': endpoint(
+    ADMINS,
+    (input: { records: Array<{ studentId: string; status: AttendanceStatus }>; sessionId: string }, caller) =>
+      attendance.markBulkAttendance(input.records, input.sessionId, caller.userId)
+  ),
+  'attendance.getStudentAttendance': endpoint(
+    ANY_USER,
+    async (input: { studentId: string; startDate?: string; endDate?: string; limit?: number }, caller) => {
+      if (!(await canAccessStudent(caller, input.studentId))) return { records: null, error: forbidden() }
+      return attendance.getStudentAttendance(input.studentId, input)
+    }
+  ),
+  'attendance.getClassAttendance': endpoint(ADMINS, (input: { sessionId: string }, caller) =>
+    // Branch admins only ever see their own branch
+    attendance.getClassAttendance(input.sessionId, caller.role === 'admin' ? caller.branchId : null)
+  ),
+  'attendance.getSessions': endpoint(ADMINS, (input: { sessionDate: string; branchId?: string | null }, caller) =>
+    attendance.getClassSessions(input.sessionDate, caller.role === 'admin' ? caller.branchId : input.branchId)
+  ),
+  'attendance.createSession': endpoint(ADMINS, (input: CreateClassSessionData, caller) =>
+    attendance.createClassSession(
+      // Branch admins can only run classes at their own branch
+      { ...input, branchId: caller.role === 'admin' ? caller.branchId || '' : input.branchId },
+      caller.userId
+    )
+  ),
+  'attendance.deleteSession': endpoint(ADMINS, (input: { sessionId: string }, caller) =>
+    attendance.deleteClassSession(input.sessionId, caller.role === 'admin' ? caller.branchId : null)
+  ),
+  'attendance.getStudentsForAttendance': endpoint(
+    ADMINS,
+    (input: { branchId?: string | null; batchId?: string | null }, caller) =>
+      attendance.getStudentsForAttendance(caller.role === 'admin' ? caller.branchId : input.branchId, input.batchId)
+  ),
+
+  // Class timetable
+  'batches.getBatches': endpoint(
+    ADMINS,
+    (input: { branchId?: string | null; includeInactive?: boolean }, caller) =>
+      // Branch admins only ever see their own branch
+      batches.getClassBatches({ ...input, branchId: caller.role === 'admin' ? caller.branchId : input?.branchId })
+  ),
+  'batches.saveBatch': endpoint(ADMINS, (input: SaveClassBatchData, caller) =>
+    batches.saveClassBatch(
+      // Branch admins can only manage their own branch's timetable
+      { ...input, branchId: caller.role === 'admin' ? caller.branchId || '' : input.branchId },
+      caller.userId,
+      caller.role === 'admin' ? caller.branchId : null
+    )
+  ),
+  'batches.getStudentBatches': endpoint(ANY_USER, async (input: { studentId: string }, caller) => {
+    if (!(await canAccessStudent(caller, input.studentId))) return { batches: null, error: forbidden() }
+    return batches.getStudentBatches(input.studentId)
+  }),
+  'batches.setStudentBatches': endpoint(
+    ADMINS,
+    async (input: { studentId: string; batchIds: string[] }, caller) => {
+      if (!(await canAccessStudent(caller, input.studentId))) return { success: false, error: forbidden() }
+      return batches.setStudentBatches(input.studentId, input.batchIds, caller.userId)
+    }
+  ),
+
+  // Belt gradings
+  'gradings.getSessions': endpoint(
+    ADMINS,
+    (input: { status?: GradingSessionStatus; branchId?: string | null }, caller) =>
+      // Branch admins only ever see their own branch
+      gradings.getGradingSessions({ ...input, branchId: caller.role === 'admin' ? caller.branchId : input?.branchId })
+  ),
+  'gradings.getSession': endpoint(ADMINS, (input: { sessionId: string }, caller) =>
+    gradings.getGradingSession(input.sessionId, caller.role === 'admin' ? caller.branchId : null)
+  ),
+  'gradings.createSession': endpoint(ADMINS, (input: CreateGradingSessionData, caller) =>
+    gradings.createGradingSession(
+      { ...input, branchId: caller.role === 'admin' ? caller.branchId : input.branchId },
+      caller.userId
+    )
+  ),
+  'gradings.cancelSession': endpoint(ADMINS, (input: { sessionId: string }, caller) =>
+    gradings.cancelGradingSession(input.sessionId, caller.role === 'admin' ? caller.branchId : null)
+  ),
+  'gradings.getSessionStudents': endpoint(ADMINS, (input: { sessionId: string }, caller) =>
+    gradings.getGradingSessionStudents(input.sessionId, caller.role === 'admin' ? caller.branchId : null)
+  ),
+  'gradings.registerCandidates': endpoint(
+    ADMINS,
+    (input: { sessionId: string; studentIds: string[]; overrideReason?: string | null }, caller) =>
+      gradings.registerGradingCandidates(input.sessionId, input.studentIds, {
+        overrideReason: input.overrideReason,
+        registeredById: caller.userId,
+        callerBranchId: caller.role === 'admin' ? caller.branchId : null,
+      })
+  ),
+  'gradings.removeCandidate': endpoint(ADMINS, (input: { candidateId: string }, caller) =>
+    gradings.removeGradingCandidate(input.candidateId, caller.role === 'admin' ? caller.branchId : null)
+  ),
+  'gradings.recordResults': endpoint(
+    ADMINS,
+    (input: { sessionId: string; results: GradingResultInput[] }, caller) =>
+      gradings.recordGradingResults(input.sessionId, input.results, caller.role === 'admin' ? caller.branchId : null)
+  ),
+  'gradings.promoteCandidates': endpoint(ADMINS, (input: { sessionId: string }, caller) =>
+    gradings.promoteGradingCandidates(input.sessionId, caller.userId, caller.role === 'admin' ? caller.branchId : null)
+  ),
+  'gradings.getReadiness': endpoint(ADMINS, (input: { branchId?: string | null }, caller) =>
+    // Branch admins only ever see their own branch
+    gradings.getGradingReadiness({ branchId: caller.role === 'admin' ? caller.branchId : input?.branchId })
+  ),
+  'gradings.getPrerequisites': endpoint(ADMINS, () => gradings.getBeltPrerequisites()),
+  'gradings.savePrerequisite': endpoint(SUPER_ADMIN, (input: SaveBeltPrerequisiteData, caller) =>
+    gradings.saveBeltPrerequisite(input, caller.userId)
+  ),
+  'gradings.getBeltHistory': endpoint(ANY_USER, async (input: { studentId: string }, caller) => {
+    if (!(await canAccessStudent(caller, input.studentId))) return { history: null, error: forbidden() }
+    return gradings.getStudentBeltHistory(input.studentId)
+  }),
+
+  // Belt syllabus (read directly from the belt_ranks table by the app)
+  'belts.saveRank': endpoint(SUPER_ADMIN, (input: SaveBeltRankData, caller) => belts.saveBeltRank(input, caller.userId)),
+  'belts.moveRank': endpoint(SUPER_ADMIN, (input: { rankId: string; direction: 'up' | 'down' }) =>
+    belts.moveBeltRank(input.rankId, input.direction)
+  ),
+  'belts.getSyllabusItems': endpoint(ADMINS, (input: { beltLevel: string }) =>
+    belts.getBeltSyllabusItems(input.beltLevel)
+  ),
+  'belts.saveSyllabusItem': endpoint(SUPER_ADMIN, (input: SaveBeltSyllabusItemData, caller) =>
+    belts.saveBeltSyllabusItem(input, caller.userId)
+  ),
+  'belts.deleteSyllabusItem': endpoint(SUPER_ADMIN, (input: { itemId: string }) =>
+    belts.deleteBeltSyllabusItem(input.itemId)
+  ),
+  'belts.getStudentProgress': endpoint(ANY_USER, async (input: { studentId: string }, caller) => {
+    if (!(await canAccessStudent(caller, input.studentId))) return { progress: null, error: forbidden() }
+    return belts.getStudentSyllabusProgress(input.studentId)
+  }),
+  'belts.setItemCompleted': endpoint(
+    ADMINS,
+    async (input: { studentId: string; itemId: string; completed: boolean }, caller) => {
+      if (!(await canAccessStudent(caller, input.studentId))) return { success: false, error: forbidden() }
+      return belts.setSyllabusItemCompleted(input.studentId, input.itemId, input.completed, caller.userId)
+    }
+  ),
+
+  // Leave informs
+  'leaveInforms.create': endpoint(ANY_USER, async (input: { studentId: string; message: string }, caller) => {
+    if (!(await canAccessStudent(caller, input.studentId))) return { inform: null, error: forbidden() }
+    return leaveInforms.createLeaveInform(input.studentId, { message: input.message })
+  }),
+  'leaveInforms.getForStudent': endpoint(ANY_USER, async (input: { studentId: string }, caller) => {
+    if (!(await canAccessStudent(caller, input.studentId))) return { informs: null, error: forbidden() }
+    return leaveInforms.getStudentLeaveInforms(input.studentId)
+  }),
+  'leaveInforms.getAll': endpoint(ADMINS, (input: Parameters<typeof leaveInforms.getAllLeaveInforms>[0], caller) =>
+    // Branch admins only ever see their own branch
+    leaveInforms.getAllLeaveInforms({ ...input, branchId: caller.role === 'admin' ? caller.branchId : input?.branchId })
+  ),
+  'leaveInforms.getById': endpoint(ADMINS, async (input: { informId: string }, caller) => {
+    if (!(await canAccessStudentRecord(caller, 'student_leave_informs', input.informId))) {
+      return { inform: null, error: forbidden() }
+    }
+    return leaveInforms.getLeaveInformById(input.informId)
+  }),
+  'leaveInforms.approve': endpoint(ADMINS, async (input: { informId: string }, caller) => {
+    if (!(await canAccessStudentRecord(caller, 'student_leave_informs', input.informId))) {
+      return { success: false, error: forbidden() }
+    }
+    return leaveInforms.approveLeaveInform(input.informId, caller.userId)
+  }),
+  'leaveInforms.getPendingCount': endpoint(ADMINS, (_input: unknown, caller) =>
+    leaveInforms.getPendingInformsCount(caller.role === 'admin' ? caller.branchId : null)
+  ),
+  'leaveInforms.delete': endpoint(ADMINS, async (input: { informId: string }, caller) => {
+    if (!(await canAccessStudentRecord(caller, 'student_leave_informs', input.informId))) {
+      return { success: false, error: forbidden() }
+    }
+    return leaveInforms.deleteLeaveInform(input.informId, caller.userId)
+  }),
+
+  // Notifications
+  'notifications.create': endpoint(SUPER_ADMIN, (input: notifications.CreateNotificationInput, caller) =>
+    notifications.createNotification(input, caller.userId)
+  ),
+  'notifications.getRecipients': endpoint(SUPER_ADMIN, (input: { notificationId: string }) =>
+    notifications.getNotificationRecipients(input.notificationId)
+  ),
+  'notifications.delete': endpoint(SUPER_ADMIN, (input: { notificationId: string }) =>
+    notifications.deleteNotification(input.notificationId)
+  ),
+
+  // Password reset (no session - the user is signed out)
+  'passwordReset.request': publicEndpoint((input: { email: string }) =>
+    passwordReset.requestPasswordReset(input.email)
+  ),
+  'passwordReset.validate': publicEndpoint((input: { token: string }) =>
+    passwordReset.validateResetToken(input.token)
+  ),
+  'passwordReset.reset': publicEndpoint((input: { token: string; newPassword: string }) =>
+    passwordReset.resetPassword(input.token, input.newPassword)
+  ),
+
+  // Storage
+  'storage.summary': endpoint(SUPER_ADMIN, async () => ({
+    summary: await storage.getStorageSummary(),
+    error: null,
+  })),
+  'storage.upload': endpoint(
+    ADMINS,
+    (input: { bucket: storage.WritableBucket; path: string; base64: string; contentType: string }) =>
+      storage.uploadFile(input.bucket, input.path, input.base64, input.contentType)
+  ),
+  'storage.remove': endpoint(ADMINS, (input: { bucket: storage.WritableBucket; paths: string[] }) =>
+    storage.removeFiles(input.bucket, input.paths)
+  ),
+}
+
+export type Endpoints = typeof endpoints
+export type EndpointName = keyof Endpoints
+
+/** JSON body accepted by an endpoint */
+export type EndpointInput<K extends EndpointName> = Parameters<Endpoints[K]['handle']>[0]
+
+/** Successful response payload of an endpoint (its result object without `error`) */
+export type EndpointData<K extends EndpointName> = Omit<Awaited<ReturnType<Endpoints[K]['handle']>>, 'error'>
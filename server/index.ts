@@ -0,0 +1,81 @@
+/**
+ * Server API for operations that need the Supabase service role key
+ *
+ * Edge Function–style handler: `POST /api/<endpoint>` with a JSON body,
+ * answered with `{ data }` on success or `{ error }` with a 4xx/5xx status.
+ * The mobile app calls it through callAdminApi in src/lib/admin-api.ts.
+ *
+ * Run locally with `npm run api` (see server/dev.ts), or deploy this handler
+ * to any runtime that speaks the Fetch API (Supabase/Vercel Edge Functions, Deno, Bun).
+ */
+
+import { endpoints, type EndpointName } from './endpoints'
+import { getCaller } from './lib/auth'
+import { logger } from './lib/logger'
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+function json(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+  })
+}
+
+export default async function handler(request: Request): Promise<Response> {
+  if (request.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: CORS_HEADERS })
+  }
+
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405)
+  }
+
+  const name = new URL(request.url).pathname.replace(/^\/api\//, '') as EndpointName
+  const endpoint = Object.prototype.hasOwnProperty.call(endpoints, name) ? endpoints[name] : null
+  if (!endpoint) {
+    return json({ error: `Unknown endpoint: ${name}` }, 404)
+  }
+
+  let input: any
+  try {
+    input = await request.json()
+  } catch {
+    return json({ error: 'Request body must be JSON' }, 400)
+  }
+  if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+    return json({ error: 'Request body must be a JSON object' }, 400)
+  }
+
+  const caller = await getCaller(request)
+  if (endpoint.roles) {
+    if (!caller) {
+      return json({ error: 'Not signed in' }, 401)
+    }
+    if (!endpoint.roles.includes(caller.role)) {
+      logger.warn('Forbidden API call', { endpoint: name, userId: caller.userId, role: caller.role })
+      return json({ error: 'You do not have permission to perform this action' }, 403)
+    }
+    // Branch admins are limited to their own branch, so one without a branch has nothing to act on
+    if (caller.role === 'admin' && !caller.branchId) {
+      logger.warn('API call from branch admin without a branch', { endpoint: name, userId: caller.userId })
+      return json({ error: 'Your account is not assigned to a branch' }, 403)
+    }
+  }
+
+  try {
+    const result = await endpoint.handle(input, caller)
+    const { error, ...data } = result
+    if (error) {
+      return json({ error: error.message }, 400)
+    }
+    return json({ data })
+  } catch (error) {
+    logger.error('Unexpected error handling API request', error as Error, { endpoint: name })
+    return json({ error: 'Internal server error' }, 500)
+  }
+}
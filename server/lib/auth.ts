@@ -0,0 +1,106 @@
+import { supabaseAdmin } from './supabase-admin'
+import { logger } from './logger'
+
+export type UserRole = 'super_admin' | 'admin' | 'student'
+
+/**
+ * The signed-in user making an API request.
+ * Identity always comes from the access token, never from the request body.
+ */
+export interface Caller {
+  userId: string
+  role: UserRole
+  branchId: string | null
+}
+
+/**
+ * Resolve the caller from the `Authorization: Bearer <access token>` header
+ * Returns null when the header is missing or the token/profile is invalid
+ */
+export async function getCaller(request: Request): Promise<Caller | null> {
+  const header = request.headers.get('authorization') || ''
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : ''
+  if (!token) return null
+
+  try {
+    const { data: { user }, error } = await supabaseAdmin.auth.getUser(token)
+    if (error || !user) {
+      return null
+    }
+
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .select('user_id, role, branch_id')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (profileError || !profile) {
+      return null
+    }
+
+    return {
+      userId: profile.user_id,
+      role: profile.role as UserRole,
+      branchId: profile.branch_id,
+    }
+  } catch (error) {
+    logger.error('Unexpected error resolving API caller', error as Error)
+    return null
+  }
+}
+
+/**
+ * Get a profile's role and branch (server-side counterpart of getProfileByUserId in the app)
+ */
+export async function getProfileByUserId(
+  userId: string
+): Promise<{ profile: { role: UserRole; branchId: string | null } | null; error: null } | { profile: null; error: Error }> {
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .select('role, branch_id')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    return { profile: null, error: new Error(error.message) }
+  }
+
+  return {
+    profile: data ? { role: data.role as UserRole, branchId: data.branch_id } : null,
+    error: null,
+  }
+}
+
+/**
+ * Students may only act on their own student record, and branch admins on their branch's students
+ */
+export async function canAccessStudent(caller: Caller, studentId: string): Promise<boolean> {
+  if (caller.role === 'super_admin') return true
+  if (caller.role === 'admin' && !caller.branchId) return false
+
+  const query = supabaseAdmin.from('students').select('id').eq('id', studentId)
+  const { data } = await (caller.role === 'admin'
+    ? query.eq('branch_id', caller.branchId)
+    : query.eq('user_id', caller.userId)
+  ).maybeSingle()
+
+  return !!data
+}
+
+/**
+ * Records that belong to a student, for endpoints that take their ID instead of the student's
+ */
+export type StudentRecordTable = 'student_fees' | 'fee_payments' | 'student_leave_informs'
+
+/**
+ * canAccessStudent for the student that owns a fee, payment or leave inform
+ * Unknown IDs are refused
+ */
+export async function canAccessStudentRecord(caller: Caller, table: StudentRecordTable, id: string): Promise<boolean> {
+  if (caller.role === 'super_admin') return true
+
+  const { data } = await supabaseAdmin.from(table).select('student_id').eq('id', id).maybeSingle()
+  if (!data) return false
+
+  return canAccessStudent(caller, data.student_id)
+}
@@ -0,0 +1,93 @@
+/**
+ * Logger utility for the server API
+ * Same interface as src/lib/logger.ts, but writes straight to the console
+ * (the app logger depends on __DEV__ and Sentry, which only exist in the app)
+ */
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+interface LogContext {
+  [key: string]: unknown
+}
+
+function errorToContext(error: Error | unknown): LogContext | undefined {
+  if (error instanceof Error) {
+    return {
+      message: error.message,
+      stack: error.stack,
+      name: error.name,
+    }
+  }
+  return undefined
+}
+
+class Logger {
+  private isDevelopment: boolean
+
+  constructor() {
+    this.isDevelopment = process.env.NODE_ENV !== 'production'
+  }
+
+  private formatMessage(level: LogLevel, message: string, context?: LogContext): string {
+    const timestamp = new Date().toISOString()
+    const contextStr = context ? ` ${JSON.stringify(context)}` : ''
+    return `[${timestamp}] [${level.toUpperCase()}] ${message}${contextStr}`
+  }
+
+  private sanitizeContext(context?: LogContext): LogContext | undefined {
+    if (!context) return undefined
+
+    const sanitized: LogContext = {}
+    const sensitiveKeys = ['password', 'token', 'secret', 'key', 'authorization', 'auth']
+
+    for (const [key, value] of Object.entries(context)) {
+      const lowerKey = key.toLowerCase()
+      if (sensitiveKeys.some(sensitive => lowerKey.includes(sensitive))) {
+        sanitized[key] = '[REDACTED]'
+      } else {
+        sanitized[key] = value
+      }
+    }
+
+    return sanitized
+  }
+
+  debug(message: string, context?: LogContext): void {
+    if (this.isDevelopment) {
+      console.log(this.formatMessage('debug', message, this.sanitizeContext(context)))
+    }
+  }
+
+  info(message: string, context?: LogContext): void {
+    console.log(this.formatMessage('info', message, this.sanitizeContext(context)))
+  }
+
+  warn(message: string, context?: LogContext | Error): void {
+    const actualContext = context instanceof Error ? errorToContext(context) : context
+    console.warn(this.formatMessage('warn', message, this.sanitizeContext(actualContext)))
+  }
+
+  error(message: string, error?: Error | unknown, context?: LogContext | Error): void {
+    let actualError: Error | unknown = undefined
+    let actualContext: LogContext | undefined = undefined
+
+    if (error instanceof Error) {
+      actualError = error
+      actualContext = context as LogContext | undefined
+    } else if (context instanceof Error) {
+      actualError = context
+    } else {
+      actualError = error
+      actualContext = context as LogContext | undefined
+    }
+
+    const errorContext = errorToContext(actualError)
+    const mergedContext = actualContext
+      ? { ...actualContext, ...errorContext }
+      : errorContext
+
+    console.error(this.formatMessage('error', message, this.sanitizeContext(mergedContext)))
+  }
+}
+
+export const logger = new Logger()
@@ -0,0 +1,562 @@
+import { supabaseAdmin } from '../lib/supabase-admin'
+import { logger } from '../lib/logger'
+import { getBatchStudentIds } from './batches'
+import type {
+  CreateNotificationData,
+  Notification,
+  NotificationRecipient,
+  TargetType,
+} from '../../src/lib/admin-notifications'
+
+/**
+ * Notification payload as sent over the API
+ * The image is uploaded first (see storage.upload), so only its public URL is sent
+ */
+export type CreateNotificationInput = Omit<CreateNotificationData, 'imageUri' | 'scheduledAt'> & {
+  imageUrl?: string
+  scheduledAt?: string
+}
+
+/**
+ * Calculate recipients based on target type
+ */
+async function calculateRecipients(
+  targetType: TargetType,
+  targetBranchId?: string,
+  targetStudentIds?: string[],
+  targetBatchId?: string
+): Promise<{ userIds: string[]; studentCount: number }> {
+  try {
+    let userIds: string[] = []
+
+    if (targetType === 'all') {
+      // Get all active students
+      const { data: students, error } = await supabaseAdmin
+        .from('students')
+        .select('user_id')
+        .eq('is_active', true)
+        .not('user_id', 'is', null)
+
+      if (error) {
+        logger.error('Error fetching all students', error as Error)
+        return { userIds: [], studentCount: 0 }
+      }
+
+      userIds = (students || []).map((s) => s.user_id).filter((id): id is string => !!id)
+    } else if (targetType === 'branch' && targetBranchId) {
+      // Get students from specific branch
+      const { data: students, error } = await supabaseAdmin
+        .from('students')
+        .select('user_id')
+        .eq('branch_id', targetBranchId)
+        .eq('is_active', true)
+        .not('user_id', 'is', null)
+
+      if (error) {
+        logger.error('Error fetching branch students', error as Error)
+        return { userIds: [], studentCount: 0 }
+      }
+
+      userIds = (students || []).map((s) => s.user_id).filter((id): id is string => !!id)
+    } else if (targetType === 'batch' && targetBatchId) {
+      // Get students enrolled in a timetable batch
+      const { studentIds, error: batchError } = await getBatchStudentIds(targetBatchId)
+      if (batchError || studentIds.length === 0) {
+        return { userIds: [], studentCount: 0 }
+      }
+
+      const { data: students, error } = await supabaseAdmin
+        .from('students')
+        .select('user_id')
+        .in('id', studentIds)
+        .eq('is_active', true)
+        .not('user_id', 'is', null)
+
+      if (error) {
+        logger.error('Error fetching batch students', error as Error)
+        return { userIds: [], studentCount: 0 }
+      }
+
+      userIds = (students || []).map((s) => s.user_id).filter((id): id is string => !!id)
+    } else if (targetType === 'students' && targetStudentIds && targetStudentIds.length > 0) {
+      // Get specific students
+      const { data: students, error } = await supabaseAdmin
+        .from('students')
+        .select('user_id')
+        .in('id', targetStudentIds)
+        .eq('is_active', true)
+        .not('user_id', 'is', null)
+
+      if (error) {
+        logger.error('Error fetching specific students', error as Error)
+        return { userIds: [], studentCount: 0 }
+      }
+
+      userIds = (students || []).map((s) => s.user_id).filter((id): id is string => !!id)
+    }
+
+    logger.info('Recipients calculated', { targetType, count: userIds.length, studentCount: userIds.length })
+    return { userIds, studentCount: userIds.length }
+  } catch (error) {
+    logger.error('Unexpected error calculating recipients', error as Error)
+    return { userIds: [], studentCount: 0 }
+  }
+}
+
+/**
+ * Validate Expo push token format
+ */
+function isValidExpoPushToken(token: string): boolean {
+  return token.startsWith('ExponentPushToken[') || token.startsWith('ExpoPushToken[')
+}
+
+/**
+ * Validate notification data (Expo limits: title 48 chars, body 2000 chars)
+ */
+function validateNotificationData(title: string, body: string): { valid: boolean; error?: string } {
+  if (!title || title.trim().length === 0) {
+    return { valid: false, error: 'Title cannot be empty' }
+  }
+  if (title.length > 48) {
+    return { valid: false, error: `Title exceeds 48 character limit (${title.length} chars)` }
+  }
+  if (!body || body.trim().length === 0) {
+    return { valid: false, error: 'Body cannot be empty' }
+  }
+  if (body.length > 2000) {
+    return { valid: false, error: `Body exceeds 2000 character limit (${body.length} chars)` }
+  }
+  return { valid: true }
+}
+
+/**
+ * Send Expo push notification with retry logic
+ * Returns array of successful token indices and list of invalid tokens to remove
+ */
+export async function sendExpoPushNotification(
+  tokens: string[],
+  title: string,
+  body: string,
+  data?: Record<string, unknown>,
+  retries: number = 2
+): Promise<{ sent: number; failed: number; successfulIndices: number[]; invalidTokens: string[] }> {
+  try {
+    if (tokens.length === 0) {
+      return { sent: 0, failed: 0, successfulIndices: [], invalidTokens: [] }
+    }
+
+    // Validate notification data
+    const validation = validateNotificationData(title, body)
+    if (!validation.valid) {
+      logger.error('Invalid notification data', new Error(validation.error || 'Validation failed'))
+      return { sent: 0, failed: tokens.length, successfulIndices: [], invalidTokens: [] }
+    }
+
+    // Filter and validate tokens
+    const validTokens: string[] = []
+    const invalidTokens: string[] = []
+    const tokenIndexMap = new Map<string, number>() // Map valid token to original index
+
+    tokens.forEach((token, index) => {
+      if (token && isValidExpoPushToken(token)) {
+        validTokens.push(token)
+        tokenIndexMap.set(token, index)
+      } else {
+        invalidTokens.push(token)
+        logger.warn('Invalid push token format', { token: token?.substring(0, 30) + '...', index })
+      }
+    })
+
+    if (validTokens.length === 0) {
+      logger.warn('No valid push tokens to send', { total: tokens.length, invalid: invalidTokens.length })
+      return { sent: 0, failed: tokens.length, successfulIndices: [], invalidTokens }
+    }
+
+    const messages = validTokens.map((token) => ({
+      to: token,
+      sound: 'default',
+      title: title.substring(0, 48), // Ensure within limit
+      body: body.substring(0, 2000), // Ensure within limit
+      data: data || {},
+    }))
+
+    // Retry logic for transient failures
+    let lastError: Error | null = null
+    let response: Response | null = null
+    let result: any = null
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      try {
+        if (attempt > 0) {
+          // Exponential backoff: 1s, 2s, 4s
+          const delay = Math.pow(2, attempt - 1) * 1000
+          await new Promise((resolve) => setTimeout(resolve, delay))
+          logger.info(`Retrying push notification send (attempt ${attempt + 1}/${retries + 1})`)
+        }
+
+        response = await fetch('https://exp.host/--/api/v2/push/send', {
+          method: 'POST',
+          headers: {
+            Accept: 'application/json',
+            'Accept-Encoding': 'gzip, deflate',
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(messages),
+        })
+
+        if (!response.ok) {
+          // Don't retry on client errors (4xx), only server errors (5xx) and network errors
+          if (response.status >= 400 && response.status < 500) {
+            logger.error('Expo push API client error (no retry)', new Error(`HTTP ${response.status}: ${response.statusText}`))
+            return { sent: 0, failed: validTokens.length, successfulIndices: [], invalidTokens }
+          }
+          lastError = new Error(`HTTP ${response.status}: ${response.statusText}`)
+          if (attempt < retries) continue // Retry on server errors
+          logger.error('Expo push API error', lastError)
+          return { sent: 0, failed: validTokens.length, successfulIndices: [], invalidTokens }
+        }
+
+        result = await response.json()
+        break // Success, exit retry loop
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error))
+        if (attempt < retries) {
+          logger.warn(`Push notification send failed, will retry`, { attempt: attempt + 1, error: lastError.message })
+          continue
+        }
+        logger.error('Error sending push notifications', lastError)
+        return { sent: 0, failed: validTokens.length, successfulIndices: [], invalidTokens }
+      }
+    }
+
+    if (!result) {
+      logger.error('No result from Expo push API after retries', lastError || new Error('Unknown error'))
+      return { sent: 0, failed: validTokens.length, successfulIndices: [], invalidTokens }
+    }
+    
+    // Handle different response formats
+    let receipts: any[] = []
+    if (Array.isArray(result.data)) {
+      receipts = result.data
+    } else if (result.data) {
+      receipts = [result.data]
+    } else if (Array.isArray(result)) {
+      receipts = result
+    } else {
+      logger.warn('Unexpected Expo push response format', { result })
+      return { sent: 0, failed: validTokens.length, successfulIndices: [], invalidTokens }
+    }
+
+    const successfulIndices: number[] = []
+    const failedTokens: string[] = []
+    let sent = 0
+    let failed = 0
+
+    receipts.forEach((receipt: any, index: number) => {
+      const token = validTokens[index]
+      const originalIndex = tokenIndexMap.get(token) ?? index
+
+      // Receipt can have status: 'ok' or error details
+      if (receipt.status === 'ok' || (receipt.status && String(receipt.status).toLowerCase().includes('ok'))) {
+        sent++
+        successfulIndices.push(originalIndex)
+      } else {
+        failed++
+        const errorMessage = receipt.message || receipt.error || receipt.status || 'Unknown error'
+        const errorCode = receipt.details?.error || receipt.errorCode
+
+        // Check for invalid token errors (DeviceNotRegistered, InvalidCredentials, etc.)
+        const isInvalidToken = 
+          errorCode === 'DeviceNotRegistered' ||
+          errorCode === 'InvalidCredentials' ||
+          errorCode === 'InvalidToken' ||
+          (typeof errorMessage === 'string' && (
+            errorMessage.includes('DeviceNotRegistered') ||
+            errorMessage.includes('InvalidCredentials') ||
+            errorMessage.includes('InvalidToken')
+          ))
+
+        if (isInvalidToken) {
+          failedTokens.push(token)
+          logger.warn('Invalid push token detected, should be removed', { 
+            index: originalIndex, 
+            token: token.substring(0, 30) + '...', 
+            error: errorMessage,
+            errorCode
+          })
+        } else {
+          logger.warn('Push notification failed', { 
+            index: originalIndex, 
+            token: token.substring(0, 30) + '...', 
+            error: errorMessage,
+            errorCode
+          })
+        }
+      }
+    })
+
+    logger.info('Push notifications sent', { total: validTokens.length, sent, failed, invalidTokens: invalidTokens.length, failedTokens: failedTokens.length })
+    return { sent, failed, successfulIndices, invalidTokens: [...invalidTokens, ...failedTokens] }
+  } catch (error) {
+    logger.error('Error sending push notifications', error as Error)
+    return { sent: 0, failed: tokens.length, successfulIndices: [], invalidTokens: [] }
+  }
+}
+
+/**
+ * Create a new notification
+ * Pass push: false to only add it to the recipients' in-app inbox, and
+ * recipientUserIds to send it to those users (e.g. admins) instead of the targeted students
+ */
+export async function createNotification(
+  data: CreateNotificationInput,
+  createdBy: string,
+  options: { push?: boolean; recipientUserIds?: string[] } = {}
+): Promise<{ notification: Notification | null; error: Error | null }> {
+  try {
+    // Calculate recipients
+    const { userIds, studentCount } = options.recipientUserIds
+      ? { userIds: options.recipientUserIds, studentCount: options.recipientUserIds.length }
+      : await calculateRecipients(data.targetType, data.targetBranchId, data.targetStudentIds, data.targetBatchId)
+
+    if (studentCount === 0) {
+      return { notification: null, error: new Error('No recipients found for the selected target') }
+    }
+
+    // Prepare notification data
+    const notificationData: any = {
+      title: data.title.trim(),
+      message: data.message.trim(),
+      type: data.type,
+      created_by: createdBy,
+      target_type: data.targetType,
+      target_branch_id: data.targetBranchId || null,
+      target_batch_id: data.targetBatchId || null,
+      target_student_ids: data.targetStudentIds && data.targetStudentIds.length > 0 ? data.targetStudentIds : null,
+      image_url: data.imageUrl || null,
+      scheduled_at: data.scheduledAt || null,
+      total_sent: studentCount,
+      read_count: 0,
+    }
+
+    // Create notification
+    const { data: notification, error: createError } = await supabaseAdmin
+      .from('notifications')
+      .insert(notificationData)
+      .select()
+      .single()
+
+    if (createError || !notification) {
+      logger.error('Error creating notification', createError as Error)
+      
+      // Check if it's a schema error (migration not run)
+      if (createError?.code === 'PGRST204' || createError?.message?.includes('schema cache') || createError?.message?.includes('column')) {
+        return {
+          notification: null,
+          error: new Error(
+            'Database migration not run. Please run the migration file: prisma/migrations/006_create_notifications_system.sql in Supabase SQL Editor.'
+          ),
+        }
+      }
+      
+      return { notification: null, error: new Error(createError?.message || 'Failed to create notification') }
+    }
+
+    // Create recipient records
+    const recipientRecords = userIds.map((userId) => ({
+      notification_id: notification.id,
+      user_id: userId,
+      read: false,
+      push_sent: false,
+    }))
+
+    const { error: recipientError } = await supabaseAdmin.from('notification_recipients').insert(recipientRecords)
+
+    if (recipientError) {
+      logger.error('Error creating notification recipients', recipientError as Error)
+      // Don't fail - notification is created
+    }
+
+    // Send push notifications
+    if (options.push !== false) {
+      const { data: pushTokens } = await supabaseAdmin
+        .from('user_push_tokens')
+        .select('user_id, token')
+        .in('user_id', userIds)
+
+      if (pushTokens && pushTokens.length > 0) {
+        // Create map of token to user_id for tracking
+        const tokenToUserIdMap = new Map<string, string>()
+        const tokens: string[] = []
+      
+        pushTokens.forEach((pt: any) => {
+          if (pt.token && pt.user_id) {
+            tokens.push(pt.token)
+            tokenToUserIdMap.set(pt.token, pt.user_id)
+          }
+        })
+
+        if (tokens.length > 0) {
+          const pushResult = await sendExpoPushNotification(tokens, data.title, data.message, {
+            notificationId: notification.id,
+            type: data.type,
+          })
+
+          // Clean up invalid tokens from database
+          if (pushResult.invalidTokens.length > 0) {
+            try {
+              await supabaseAdmin
+                .from('user_push_tokens')
+                .delete()
+                .in('token', pushResult.invalidTokens)
+              logger.info('Removed invalid push tokens', { count: pushResult.invalidTokens.length })
+            } catch (cleanupError) {
+              logger.error('Error cleaning up invalid tokens', cleanupError as Error)
+            }
+          }
+
+          // Clean up invalid tokens from database
+          if (pushResult.invalidTokens.length > 0) {
+            try {
+              await supabaseAdmin
+                .from('user_push_tokens')
+                .delete()
+                .in('token', pushResult.invalidTokens)
+              logger.info('Removed invalid push tokens', { count: pushResult.invalidTokens.length })
+            } catch (cleanupError) {
+              logger.error('Error cleaning up invalid tokens', cleanupError as Error)
+            }
+          }
+
+          // Update push_sent status ONLY for users whose tokens succeeded
+          if (pushResult.successfulIndices.length > 0) {
+            const successfulUserIds: string[] = []
+            pushResult.successfulIndices.forEach((index) => {
+              const token = tokens[index]
+              const userId = tokenToUserIdMap.get(token)
+              if (userId) {
+                successfulUserIds.push(userId)
+              }
+            })
+
+            if (successfulUserIds.length > 0) {
+              await supabaseAdmin
+                .from('notification_recipients')
+                .update({ push_sent: true, push_sent_at: new Date().toISOString() })
+                .eq('notification_id', notification.id)
+                .in('user_id', successfulUserIds)
+            }
+          }
+        }
+      }
+    }
+
+    // Update sent_at
+    await supabaseAdmin
+      .from('notifications')
+      .update({ sent_at: new Date().toISOString() })
+      .eq('id', notification.id)
+
+    logger.info('Notification created successfully', { notificationId: notification.id, recipients: studentCount })
+    return { notification: notification as Notification, error: null }
+  } catch (error) {
+    logger.error('Unexpected error creating notification', error as Error)
+    return { notification: null, error: error instanceof Error ? error : new Error('Failed to create notification') }
+  }
+}
+
+/**
+ * Get notification recipients
+ */
+export async function getNotificationRecipients(notificationId: string): Promise<{ recipients: NotificationRecipient[]; error: null } | { recipients: null; error: Error }> {
+  try {
+    // First get recipients with user info
+    const { data: recipientsData, error: recipientsError } = await supabaseAdmin
+      .from('notification_recipients')
+      .select(
+        `
+        *,
+        user:profiles!notification_recipients_user_id_fkey(email, role)
+      `
+      )
+      .eq('notification_id', notificationId)
+      .order('created_at', { ascending: false })
+
+    if (recipientsError) {
+      logger.error('Error fetching notification recipients', recipientsError as Error)
+      return { recipients: null, error: new Error(recipientsError.message) }
+    }
+
+    // Then fetch student info for each recipient
+    const recipientsWithStudents = await Promise.all(
+      (recipientsData || []).map(async (recipient) => {
+        if (recipient.user_id) {
+          const { data: studentData } = await supabaseAdmin
+            .from('students')
+            .select('first_name, last_name, student_id')
+            .eq('user_id', recipient.user_id)
+            .maybeSingle()
+
+          return {
+            ...recipient,
+            student: studentData || null,
+          }
+        }
+        return { ...recipient, student: null }
+      })
+    )
+
+    return { recipients: recipientsWithStudents as NotificationRecipient[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching recipients', error as Error)
+    return { recipients: null, error: error instanceof Error ? error : new Error('Failed to fetch recipients') }
+  }
+}
+
+/**
+ * Delete notification
+ * Also attempts to delete associated image from storage (non-blocking)
+ */
+export async function deleteNotification(notificationId: string): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    // Get notification to find image URL before deletion
+    const { data: notification } = await supabaseAdmin
+      .from('notifications')
+      .select('image_url')
+      .eq('id', notificationId)
+      .single()
+
+    // Delete notification (this will cascade delete recipients)
+    const { error } = await supabaseAdmin.from('notifications').delete().eq('id', notificationId)
+
+    if (error) {
+      logger.error('Error deleting notification', error as Error)
+      return { success: false, error: new Error(error.message) }
+    }
+
+    // Attempt to delete image from storage (non-blocking - don't fail if this fails)
+    if (notification?.image_url) {
+      try {
+        // Extract file path from URL
+        // URL format: https://project.supabase.co/storage/v1/object/public/notification-images/path/to/file.jpg
+        const url = notification.image_url
+        const match = url.match(/\/notification-images\/(.+)$/)
+        if (match && match[1]) {
+          const filePath = match[1]
+          await supabaseAdmin.storage.from('notification-images').remove([filePath])
+          logger.info('Deleted notification image from storage', { notificationId, filePath })
+        }
+      } catch (storageError) {
+        // Log but don't fail - image deletion is optional
+        logger.warn('Failed to delete notification image from storage', { notificationId, error: storageError })
+      }
+    }
+
+    logger.info('Notification deleted', { notificationId })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error deleting notification', error as Error)
+    return { success: false, error: error instanceof Error ? error : new Error('Failed to delete notification') }
+  }
+}
+
@@ -0,0 +1,638 @@
+import { supabaseAdmin } from '../lib/supabase-admin'
+import { logger } from '../lib/logger'
+import { getBatchStudentIds } from './batches'
+import type {
+  AttendanceStatus,
+  AttendanceRecord,
+  ClassSession,
+  CreateAttendanceRecordData,
+  CreateClassSessionData,
+} from '../../src/lib/attendance'
+
+const RECORD_SELECT = `
+  *,
+  student:students!attendance_records_student_id_fkey(
+    first_name,
+    last_name,
+    student_id,
+    student_photo_url
+  ),
+  marked_by_profile:profiles!attendance_records_marked_by_fkey(email),
+  session:class_sessions!attendance_records_session_id_fkey(batch_name, start_time, end_time)
+`
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/
+
+/**
+ * Validate date for attendance
+ */
+function validateAttendanceDate(classDate: string): { valid: boolean; error?: string } {
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/
+  if (!dateRegex.test(classDate)) {
+    return { valid: false, error: 'Invalid date format. Use YYYY-MM-DD' }
+  }
+
+  const date = new Date(classDate)
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  
+  // Check if date is valid
+  if (isNaN(date.getTime())) {
+    return { valid: false, error: 'Invalid date' }
+  }
+
+  // Allow dates up to 7 days in the future (for advance marking)
+  const maxFutureDate = new Date(today)
+  maxFutureDate.setDate(maxFutureDate.getDate() + 7)
+  
+  // Don't allow dates more than 1 year in the past
+  const minPastDate = new Date(today)
+  minPastDate.setFullYear(minPastDate.getFullYear() - 1)
+
+  if (date > maxFutureDate) {
+    return { valid: false, error: 'Cannot mark attendance more than 7 days in the future' }
+  }
+
+  if (date < minPastDate) {
+    return { valid: false, error: 'Cannot mark attendance for dates more than 1 year ago' }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Validate a class session for attendance marking
+ * Branch admins can only mark sessions at their own branch
+ */
+async function validateSessionForAttendance(
+  sessionId: string,
+  markedByBranchId?: string | null
+): Promise<{ valid: boolean; error?: string; session?: { id: string; branch_id: string; session_date: string } }> {
+  const { data: session, error } = await supabaseAdmin
+    .from('class_sessions')
+    .select('id, branch_id, session_date')
+    .eq('id', sessionId)
+    .single()
+
+  if (error || !session) {
+    return { valid: false, error: 'Class session not found' }
+  }
+
+  if (markedByBranchId && session.branch_id !== markedByBranchId) {
+    return { valid: false, error: 'Class session does not belong to your branch' }
+  }
+
+  const dateValidation = validateAttendanceDate(session.session_date)
+  if (!dateValidation.valid) {
+    return { valid: false, error: dateValidation.error }
+  }
+
+  return { valid: true, session }
+}
+
+/**
+ * Validate student for attendance marking
+ * Students can only be marked for sessions at their own branch
+ */
+async function validateStudentForAttendance(
+  studentId: string,
+  sessionBranchId: string
+): Promise<{ valid: boolean; error?: string }> {
+  const { data: student, error } = await supabaseAdmin
+    .from('students')
+    .select('id, is_active, branch_id')
+    .eq('id', studentId)
+    .single()
+
+  if (error || !student) {
+    return { valid: false, error: 'Student not found' }
+  }
+
+  if (!student.is_active) {
+    return { valid: false, error: 'Cannot mark attendance for inactive student' }
+  }
+
+  if (student.branch_id !== sessionBranchId) {
+    return { valid: false, error: 'Student does not belong to this class branch' }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Validate admin for attendance marking
+ */
+async function validateAdminForAttendance(markedBy: string): Promise<{ valid: boolean; error?: string; branchId?: string | null }> {
+  const { data: profile, error } = await supabaseAdmin
+    .from('profiles')
+    .select('user_id, role, branch_id')
+    .eq('user_id', markedBy)
+    .single()
+
+  if (error || !profile) {
+    return { valid: false, error: 'Admin profile not found' }
+  }
+
+  if (profile.role !== 'super_admin' && profile.role !== 'admin') {
+    return { valid: false, error: 'Only admins can mark attendance' }
+  }
+
+  return { valid: true, branchId: profile.branch_id }
+}
+
+/**
+ * Mark attendance for a student
+ */
+export async function markAttendance(
+  data: CreateAttendanceRecordData,
+  markedBy: string
+): Promise<{ record: AttendanceRecord | null; error: null } | { record: null; error: Error }> {
+  try {
+    // Validate admin
+    const adminValidation = await validateAdminForAttendance(markedBy)
+    if (!adminValidation.valid) {
+      return { record: null, error: new Error(adminValidation.error || 'Invalid admin') }
+    }
+
+    // Validate session (and its date)
+    const sessionValidation = await validateSessionForAttendance(data.sessionId, adminValidation.branchId)
+    if (!sessionValidation.valid || !sessionValidation.session) {
+      return { record: null, error: new Error(sessionValidation.error || 'Invalid class session') }
+    }
+    const session = sessionValidation.session
+
+    // Validate student
+    const studentValidation = await validateStudentForAttendance(data.studentId, session.branch_id)
+    if (!studentValidation.valid) {
+      return { record: null, error: new Error(studentValidation.error || 'Invalid student') }
+    }
+
+    // Check if record already exists
+    const { data: existing } = await supabaseAdmin
+      .from('attendance_records')
+      .select('id')
+      .eq('student_id', data.studentId)
+      .eq('session_id', data.sessionId)
+      .single()
+
+    let record: AttendanceRecord | null = null
+
+    if (existing) {
+      // Update existing record
+      const { data: updated, error: updateError } = await supabaseAdmin
+        .from('attendance_records')
+        .update({
+          status: data.status,
+          notes: data.notes || null,
+          marked_by: markedBy,
+          // updated_at will be set by trigger
+        })
+        .eq('id', existing.id)
+        .select(RECORD_SELECT)
+        .single()
+
+      if (updateError) {
+        logger.error('Error updating attendance record', updateError as Error)
+        return { record: null, error: new Error(updateError.message) }
+      }
+
+      record = updated as AttendanceRecord
+    } else {
+      // Create new record
+      const { data: created, error: createError } = await supabaseAdmin
+        .from('attendance_records')
+        .insert({
+          student_id: data.studentId,
+          session_id: data.sessionId,
+          class_date: session.session_date,
+          status: data.status,
+          notes: data.notes || null,
+          marked_by: markedBy,
+        })
+        .select(RECORD_SELECT)
+        .single()
+
+      if (createError) {
+        logger.error('Error creating attendance record', createError as Error)
+        return { record: null, error: new Error(createError.message) }
+      }
+
+      record = created as AttendanceRecord
+    }
+
+    logger.info('Attendance marked successfully', {
+      studentId: data.studentId,
+      sessionId: data.sessionId,
+      status: data.status,
+    })
+
+    return { record, error: null }
+  } catch (error) {
+    logger.error('Unexpected error marking attendance', error as Error)
+    return {
+      record: null,
+      error: error instanceof Error ? error : new Error('Failed to mark attendance'),
+    }
+  }
+}
+
+/**
+ * Mark attendance for multiple students (bulk operation)
+ */
+export async function markBulkAttendance(
+  records: Array<{ studentId: string; status: AttendanceStatus }>,
+  sessionId: string,
+  markedBy: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    // Validate admin
+    const adminValidation = await validateAdminForAttendance(markedBy)
+    if (!adminValidation.valid) {
+      return { success: false, error: new Error(adminValidation.error || 'Invalid admin') }
+    }
+
+    // Validate session (and its date)
+    const sessionValidation = await validateSessionForAttendance(sessionId, adminValidation.branchId)
+    if (!sessionValidation.valid || !sessionValidation.session) {
+      return { success: false, error: new Error(sessionValidation.error || 'Invalid class session') }
+    }
+    const session = sessionValidation.session
+
+    // Validate all students before bulk operation
+    const studentIds = [...new Set(records.map((r) => r.studentId))]
+    const invalidStudents: string[] = []
+
+    for (const studentId of studentIds) {
+      const studentValidation = await validateStudentForAttendance(studentId, session.branch_id)
+      if (!studentValidation.valid) {
+        invalidStudents.push(studentId)
+      }
+    }
+
+    if (invalidStudents.length > 0) {
+      logger.warn('Invalid students found in bulk attendance', { invalidStudents })
+      return {
+        success: false,
+        error: new Error(
+          `Cannot mark attendance for ${invalidStudents.length} invalid student(s). Please check if students are active and belong to the class branch.`
+        ),
+      }
+    }
+
+    // Prepare upsert data
+    const upsertData = records.map((record) => ({
+      student_id: record.studentId,
+      session_id: sessionId,
+      class_date: session.session_date,
+      status: record.status,
+      marked_by: markedBy,
+      // updated_at will be set by trigger on update
+    }))
+
+    // Use upsert to handle both insert and update
+    const { error: upsertError } = await supabaseAdmin
+      .from('attendance_records')
+      .upsert(upsertData, {
+        onConflict: 'student_id,session_id',
+      })
+
+    if (upsertError) {
+      logger.error('Error bulk marking attendance', upsertError as Error)
+      return { success: false, error: new Error(upsertError.message) }
+    }
+
+    logger.info('Bulk attendance marked successfully', {
+      count: records.length,
+      sessionId,
+      markedBy,
+    })
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error bulk marking attendance', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to mark bulk attendance'),
+    }
+  }
+}
+
+/**
+ * Get attendance records for a student
+ */
+export async function getStudentAttendance(
+  studentId: string,
+  options?: {
+    startDate?: string
+    endDate?: string
+    limit?: number
+  }
+): Promise<{ records: AttendanceRecord[]; error: null } | { records: null; error: Error }> {
+  try {
+    let query = supabaseAdmin
+      .from('attendance_records')
+      .select(RECORD_SELECT)
+      .eq('student_id', studentId)
+      .order('class_date', { ascending: false })
+
+    if (options?.startDate) {
+      query = query.gte('class_date', options.startDate)
+    }
+
+    if (options?.endDate) {
+      query = query.lte('class_date', options.endDate)
+    }
+
+    if (options?.limit) {
+      query = query.limit(options.limit)
+    }
+
+    const { data: records, error } = await query
+
+    if (error) {
+      logger.error('Error fetching student attendance', error as Error)
+      return { records: null, error: new Error(error.message) }
+    }
+
+    return { records: (records || []) as AttendanceRecord[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching student attendance', error as Error)
+    return {
+      records: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch attendance'),
+    }
+  }
+}
+
+/**
+ * Get attendance records for a class session (for admin)
+ * Branch admins can only see sessions at their own branch
+ */
+export async function getClassAttendance(
+  sessionId: string,
+  branchId?: string | null
+): Promise<{ records: AttendanceRecord[]; error: null } | { records: null; error: Error }> {
+  try {
+    if (branchId) {
+      const { data: session } = await supabaseAdmin
+        .from('class_sessions')
+        .select('branch_id')
+        .eq('id', sessionId)
+        .single()
+
+      if (!session || session.branch_id !== branchId) {
+        return { records: null, error: new Error('Class session not found') }
+      }
+    }
+
+    const { data: records, error } = await supabaseAdmin
+      .from('attendance_records')
+      .select(RECORD_SELECT)
+      .eq('session_id', sessionId)
+
+    if (error) {
+      logger.error('Error fetching class attendance', error as Error)
+      return { records: null, error: new Error(error.message) }
+    }
+
+    // Sort by student first name (client-side sorting since Supabase doesn't support nested field ordering)
+    const sortedRecords = [...(records || [])].sort((a: any, b: any) => {
+      const nameA = (a.student?.first_name || '').toLowerCase()
+      const nameB = (b.student?.first_name || '').toLowerCase()
+      return nameA.localeCompare(nameB)
+    })
+
+    return { records: sortedRecords as AttendanceRecord[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching class attendance', error as Error)
+    return {
+      records: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch class attendance'),
+    }
+  }
+}
+
+/**
+ * Get the class sessions on a date, earliest first
+ */
+export async function getClassSessions(
+  sessionDate: string,
+  branchId?: string | null
+): Promise<{ sessions: ClassSession[]; error: null } | { sessions: null; error: Error }> {
+  try {
+    let query = supabaseAdmin
+      .from('class_sessions')
+      .select(`
+        *,
+        branch:branches(name),
+        instructor:instructors(name),
+        attendance_records(count)
+      `)
+      .eq('session_date', sessionDate)
+      .order('start_time', { ascending: true, nullsFirst: true })
+      .order('batch_name', { ascending: true })
+
+    if (branchId) {
+      query = query.eq('branch_id', branchId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      logger.error('Error fetching class sessions', error as Error)
+      return { sessions: null, error: new Error(error.message) }
+    }
+
+    const sessions = (data || []).map(({ attendance_records, ...session }: any) => ({
+      ...session,
+      attendance_count: attendance_records?.[0]?.count || 0,
+    }))
+
+    return { sessions: sessions as ClassSession[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching class sessions', error as Error)
+    return {
+      sessions: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch class sessions'),
+    }
+  }
+}
+
+/**
+ * Create a class session
+ */
+export async function createClassSession(
+  data: CreateClassSessionData,
+  createdBy: string
+): Promise<{ session: ClassSession | null; error: null } | { session: null; error: Error }> {
+  try {
+    const batchName = data.batchName.trim()
+    if (!batchName) {
+      return { session: null, error: new Error('Please enter a batch name') }
+    }
+
+    const dateValidation = validateAttendanceDate(data.sessionDate)
+    if (!dateValidation.valid) {
+      return { session: null, error: new Error(dateValidation.error || 'Invalid date') }
+    }
+
+    if (!TIME_REGEX.test(data.startTime) || !TIME_REGEX.test(data.endTime)) {
+      return { session: null, error: new Error('Times must be in HH:MM format') }
+    }
+    if (data.endTime <= data.startTime) {
+      return { session: null, error: new Error('End time must be after start time') }
+    }
+
+    const { data: branch } = await supabaseAdmin.from('branches').select('id').eq('id', data.branchId).single()
+    if (!branch) {
+      return { session: null, error: new Error('Branch not found') }
+    }
+
+    if (data.batchId) {
+      const { data: batch } = await supabaseAdmin
+        .from('class_batches')
+        .select('id, branch_id')
+        .eq('id', data.batchId)
+        .single()
+
+      if (!batch || batch.branch_id !== data.branchId) {
+        return { session: null, error: new Error('Batch not found at this branch') }
+      }
+    }
+
+    const { data: session, error } = await supabaseAdmin
+      .from('class_sessions')
+      .insert({
+        branch_id: data.branchId,
+        batch_name: batchName,
+        batch_id: data.batchId || null,
+        session_date: data.sessionDate,
+        start_time: data.startTime,
+        end_time: data.endTime,
+        instructor_id: data.instructorId || null,
+        notes: data.notes?.trim() || null,
+        created_by_id: createdBy,
+      })
+      .select(`
+        *,
+        branch:branches(name),
+        instructor:instructors(name)
+      `)
+      .single()
+
+    if (error || !session) {
+      logger.error('Error creating class session', error as Error)
+      return { session: null, error: new Error(error?.message || 'Failed to create class session') }
+    }
+
+    logger.info('Class session created', { sessionId: session.id, branchId: data.branchId })
+    return { session: { ...session, attendance_count: 0 } as ClassSession, error: null }
+  } catch (error) {
+    logger.error('Unexpected error creating class session', error as Error)
+    return {
+      session: null,
+      error: error instanceof Error ? error : new Error('Failed to create class session'),
+    }
+  }
+}
+
+/**
+ * Delete a class session
+ * Sessions with attendance marked are kept so the records aren't lost
+ */
+export async function deleteClassSession(
+  sessionId: string,
+  branchId?: string | null
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { data: session } = await supabaseAdmin
+      .from('class_sessions')
+      .select('id, branch_id')
+      .eq('id', sessionId)
+      .single()
+
+    if (!session || (branchId && session.branch_id !== branchId)) {
+      return { success: false, error: new Error('Class session not found') }
+    }
+
+    const { count } = await supabaseAdmin
+      .from('attendance_records')
+      .select('id', { count: 'exact', head: true })
+      .eq('session_id', sessionId)
+
+    if (count) {
+      return { success: false, error: new Error('Cannot delete a session with attendance marked') }
+    }
+
+    const { error } = await supabaseAdmin.from('class_sessions').delete().eq('id', sessionId)
+
+    if (error) {
+      logger.error('Error deleting class session', error as Error)
+      return { success: false, error: new Error(error.message) }
+    }
+
+    logger.info('Class session deleted', { sessionId })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error deleting class session', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to delete class session'),
+    }
+  }
+}
+
+/**
+ * Get all students for a branch (for marking attendance)
+ */
+export async function getStudentsForAttendance(
+  branchId?: string | null,
+  batchId?: string | null
+): Promise<{ students: Array<{ id: string; first_name: string; last_name: string; student_id: string; student_photo_url: string | null }>; error: null } | { students: null; error: Error }> {
+  try {
+    let query = supabaseAdmin
+      .from('students')
+      .select('id, first_name, last_name, student_id, student_photo_url')
+      .eq('is_active', true)
+      .order('first_name', { ascending: true })
+
+    if (branchId) {
+      query = query.eq('branch_id', branchId)
+    }
+
+    if (batchId) {
+      const { studentIds, error: batchError } = await getBatchStudentIds(batchId)
+      if (batchError) {
+        return { students: null, error: batchError }
+      }
+      if (studentIds.length === 0) {
+        return { students: [], error: null }
+      }
+      query = query.in('id', studentIds)
+    }
+
+    const { data: students, error } = await query
+
+    if (error) {
+      logger.error('Error fetching students for attendance', error as Error)
+      return { students: null, error: new Error(error.message) }
+    }
+
+    return {
+      students: (students || []) as Array<{
+        id: string
+        first_name: string
+        last_name: string
+        student_id: string
+        student_photo_url: string | null
+      }>,
+      error: null,
+    }
+  } catch (error) {
+    logger.error('Unexpected error fetching students for attendance', error as Error)
+    return {
+      students: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch students'),
+    }
+  }
+}
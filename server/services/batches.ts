@@ -0,0 +1,280 @@
+import { supabaseAdmin } from '../lib/supabase-admin'
+import { logger } from '../lib/logger'
+import type { ClassBatch, SaveClassBatchData } from '../../src/lib/batches'
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/
+
+const BATCH_SELECT = `
+  *,
+  branch:branches(name),
+  instructor:instructors(name)
+`
+
+/**
+ * Get the timetable for a branch, or every branch, with enrolment counts
+ */
+export async function getClassBatches(options: {
+  branchId?: string | null
+  includeInactive?: boolean
+}): Promise<{ batches: ClassBatch[]; error: null } | { batches: null; error: Error }> {
+  try {
+    let query = supabaseAdmin
+      .from('class_batches')
+      .select(`${BATCH_SELECT}, student_batch_enrolments(count)`)
+      .order('start_time', { ascending: true })
+      .order('name', { ascending: true })
+
+    if (options.branchId) {
+      query = query.eq('branch_id', options.branchId)
+    }
+    if (!options.includeInactive) {
+      query = query.eq('is_active', true)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      logger.error('Error fetching class batches', error as Error)
+      return { batches: null, error: new Error(error.message) }
+    }
+
+    const batches = (data || []).map(({ student_batch_enrolments, ...batch }: any) => ({
+      ...batch,
+      student_count: student_batch_enrolments?.[0]?.count || 0,
+    }))
+
+    return { batches: batches as ClassBatch[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching class batches', error as Error)
+    return {
+      batches: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch timetable'),
+    }
+  }
+}
+
+/**
+ * Add or update a batch
+ * Pass the caller's branch to stop branch admins editing another branch's batches
+ */
+export async function saveClassBatch(
+  data: SaveClassBatchData,
+  createdById: string,
+  callerBranchId?: string | null
+): Promise<{ batch: ClassBatch | null; error: null } | { batch: null; error: Error }> {
+  try {
+    const name = data.name.trim()
+    const days = [...new Set(data.daysOfWeek)].sort((a, b) => a - b)
+
+    if (!name) {
+      return { batch: null, error: new Error('Please enter a batch name') }
+    }
+    if (days.length === 0 || days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return { batch: null, error: new Error('Please choose the days the batch meets') }
+    }
+    if (!TIME_REGEX.test(data.startTime) || !TIME_REGEX.test(data.endTime)) {
+      return { batch: null, error: new Error('Times must be in HH:MM format') }
+    }
+    if (data.endTime <= data.startTime) {
+      return { batch: null, error: new Error('End time must be after start time') }
+    }
+    if (!data.branchId) {
+      return { batch: null, error: new Error('Please choose a branch') }
+    }
+
+    const fields = {
+      branch_id: data.branchId,
+      name,
+      days_of_week: days,
+      start_time: data.startTime,
+      end_time: data.endTime,
+      age_group: data.ageGroup?.trim() || null,
+      level: data.level?.trim() || null,
+      instructor_id: data.instructorId || null,
+      is_active: data.isActive,
+    }
+
+    if (data.id) {
+      const { data: existing } = await supabaseAdmin
+        .from('class_batches')
+        .select('id, branch_id')
+        .eq('id', data.id)
+        .single()
+
+      if (!existing || (callerBranchId && existing.branch_id !== callerBranchId)) {
+        return { batch: null, error: new Error('Batch not found') }
+      }
+      // Enrolments are per branch, so a batch stays at its branch
+      if (existing.branch_id !== data.branchId) {
+        return { batch: null, error: new Error('A batch cannot be moved to another branch') }
+      }
+
+      const { data: batch, error } = await supabaseAdmin
+        .from('class_batches')
+        .update(fields)
+        .eq('id', data.id)
+        .select(BATCH_SELECT)
+        .single()
+
+      if (error || !batch) {
+        logger.error('Error updating class batch', error as Error)
+        return { batch: null, error: new Error(error?.message || 'Failed to update batch') }
+      }
+
+      return { batch: batch as ClassBatch, error: null }
+    }
+
+    const { data: batch, error } = await supabaseAdmin
+      .from('class_batches')
+      .insert({ ...fields, created_by_id: createdById })
+      .select(BATCH_SELECT)
+      .single()
+
+    if (error || !batch) {
+      logger.error('Error creating class batch', error as Error)
+      return { batch: null, error: new Error(error?.message || 'Failed to add batch') }
+    }
+
+    logger.info('Class batch created', { batchId: batch.id, branchId: data.branchId })
+    return { batch: { ...batch, student_count: 0 } as ClassBatch, error: null }
+  } catch (error) {
+    logger.error('Unexpected error saving class batch', error as Error)
+    return {
+      batch: null,
+      error: error instanceof Error ? error : new Error('Failed to save batch'),
+    }
+  }
+}
+
+/**
+ * Get the batches a student is enrolled in
+ */
+export async function getStudentBatches(
+  studentId: string
+): Promise<{ batches: ClassBatch[]; error: null } | { batches: null; error: Error }> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('student_batch_enrolments')
+      .select(`batch:class_batches(${BATCH_SELECT})`)
+      .eq('student_id', studentId)
+
+    if (error) {
+      logger.error('Error fetching student batches', error as Error)
+      return { batches: null, error: new Error(error.message) }
+    }
+
+    const batches = (data || [])
+      .map((enrolment: any) => enrolment.batch)
+      .filter(Boolean)
+      .sort((a: ClassBatch, b: ClassBatch) => a.start_time.localeCompare(b.start_time))
+
+    return { batches: batches as ClassBatch[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching student batches', error as Error)
+    return {
+      batches: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch student batches'),
+    }
+  }
+}
+
+/**
+ * Replace the batches a student is enrolled in
+ */
+export async function setStudentBatches(
+  studentId: string,
+  batchIds: string[],
+  enrolledById: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { data: student, error: studentError } = await supabaseAdmin
+      .from('students')
+      .select('id, branch_id')
+      .eq('id', studentId)
+      .single()
+
+    if (studentError || !student) {
+      return { success: false, error: new Error('Student not found') }
+    }
+
+    const uniqueBatchIds = [...new Set(batchIds)]
+    if (uniqueBatchIds.length > 0) {
+      const { data: batches, error: batchesError } = await supabaseAdmin
+        .from('class_batches')
+        .select('id, branch_id')
+        .in('id', uniqueBatchIds)
+
+      if (batchesError) {
+        logger.error('Error fetching batches for enrolment', batchesError as Error)
+        return { success: false, error: new Error(batchesError.message) }
+      }
+      if ((batches || []).length !== uniqueBatchIds.length) {
+        return { success: false, error: new Error('Batch not found') }
+      }
+      if ((batches || []).some((batch) => batch.branch_id !== student.branch_id)) {
+        return { success: false, error: new Error('Students can only join batches at their own branch') }
+      }
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from('student_batch_enrolments')
+      .select('batch_id')
+      .eq('student_id', studentId)
+
+    const existingIds = (existing || []).map((e) => e.batch_id)
+    const toRemove = existingIds.filter((id) => !uniqueBatchIds.includes(id))
+    const toAdd = uniqueBatchIds.filter((id) => !existingIds.includes(id))
+
+    if (toRemove.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('student_batch_enrolments')
+        .delete()
+        .eq('student_id', studentId)
+        .in('batch_id', toRemove)
+
+      if (error) {
+        logger.error('Error removing batch enrolments', error as Error)
+        return { success: false, error: new Error(error.message) }
+      }
+    }
+
+    if (toAdd.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('student_batch_enrolments')
+        .insert(toAdd.map((batchId) => ({ student_id: studentId, batch_id: batchId, enrolled_by_id: enrolledById })))
+
+      if (error) {
+        logger.error('Error adding batch enrolments', error as Error)
+        return { success: false, error: new Error(error.message) }
+      }
+    }
+
+    logger.info('Student batches updated', { studentId, added: toAdd.length, removed: toRemove.length })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error updating student batches', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to update student batches'),
+    }
+  }
+}
+
+/**
+ * IDs of the students enrolled in a batch
+ */
+export async function getBatchStudentIds(
+  batchId: string
+): Promise<{ studentIds: string[]; error: null } | { studentIds: null; error: Error }> {
+  const { data, error } = await supabaseAdmin
+    .from('student_batch_enrolments')
+    .select('student_id')
+    .eq('batch_id', batchId)
+
+  if (error) {
+    logger.error('Error fetching batch students', error as Error)
+    return { studentIds: null, error: new Error(error.message) }
+  }
+
+  return { studentIds: (data || []).map((e) => e.student_id), error: null }
+}
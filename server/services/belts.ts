@@ -0,0 +1,426 @@
+import { supabaseAdmin } from '../lib/supabase-admin'
+import { logger } from '../lib/logger'
+import { sortBeltRanks, findNextBelt, canGradeFor } from '../../src/lib/belts'
+import type { BeltRank, SaveBeltRankData } from '../../src/lib/belts'
+import type {
+  BeltSyllabusItem,
+  SaveBeltSyllabusItemData,
+  StudentSyllabusProgress,
+  SyllabusCategory,
+} from '../../src/lib/belt-syllabus'
+
+const HEX_COLOR = /^#[0-9A-Fa-f]{6}$/
+const SYLLABUS_CATEGORIES: SyllabusCategory[] = ['kata', 'kihon', 'kumite']
+
+/**
+ * Get every belt in the syllabus, retired ones included, in syllabus order
+ */
+export async function getBeltSyllabus(): Promise<{ ranks: BeltRank[]; error: null } | { ranks: null; error: Error }> {
+  try {
+    const { data, error } = await supabaseAdmin.from('belt_ranks').select('*')
+
+    if (error) {
+      logger.error('Error fetching belt syllabus', error as Error)
+      return { ranks: null, error: new Error(error.message) }
+    }
+
+    return { ranks: sortBeltRanks((data || []) as BeltRank[]), error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching belt syllabus', error as Error)
+    return {
+      ranks: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch belt syllabus'),
+    }
+  }
+}
+
+/**
+ * Add a belt to the end of its programme, or update one
+ * Names can't be changed once created, since students, gradings and fees refer to belts by name
+ */
+export async function saveBeltRank(
+  data: SaveBeltRankData,
+  updatedById: string
+): Promise<{ rank: BeltRank | null; error: null } | { rank: null; error: Error }> {
+  try {
+    const name = data.name.trim()
+    const programme = data.programme.trim()
+
+    if (!data.id && !name) {
+      return { rank: null, error: new Error('Please enter a belt name') }
+    }
+    if (!programme) {
+      return { rank: null, error: new Error('Please enter a programme') }
+    }
+    if (!HEX_COLOR.test(data.color) || (data.stripeColor && !HEX_COLOR.test(data.stripeColor))) {
+      return { rank: null, error: new Error('Colours must be hex values like #FFEB3B') }
+    }
+    if (data.gradeType !== 'kyu' && data.gradeType !== 'dan') {
+      return { rank: null, error: new Error('Grade must be kyu or dan') }
+    }
+    if (!Number.isInteger(data.gradeNumber) || data.gradeNumber < 1 || data.gradeNumber > 10) {
+      return { rank: null, error: new Error('Grade number must be between 1 and 10') }
+    }
+
+    const fields = {
+      programme,
+      color: data.color.toUpperCase(),
+      stripe_color: data.stripeColor ? data.stripeColor.toUpperCase() : null,
+      grade_type: data.gradeType,
+      grade_number: data.gradeNumber,
+      is_active: data.isActive,
+      updated_by_id: updatedById,
+    }
+
+    if (data.id) {
+      const { data: existing, error: existingError } = await supabaseAdmin
+        .from('belt_ranks')
+        .select('programme')
+        .eq('id', data.id)
+        .single()
+
+      if (existingError || !existing) {
+        return { rank: null, error: new Error('Belt not found') }
+      }
+
+      // Moving to another programme puts the belt at the end of that ladder
+      let sortOrder: number | undefined
+      if (existing.programme !== programme) {
+        sortOrder = await getNextSortOrder(programme)
+      }
+
+      const { data: rank, error } = await supabaseAdmin
+        .from('belt_ranks')
+        .update(sortOrder === undefined ? fields : { ...fields, sort_order: sortOrder })
+        .eq('id', data.id)
+        .select()
+        .single()
+
+      if (error || !rank) {
+        logger.error('Error updating belt rank', error as Error)
+        return { rank: null, error: new Error(error?.message || 'Failed to update belt') }
+      }
+
+      logger.info('Belt rank updated', { rankId: data.id, name: rank.name })
+      return { rank: rank as BeltRank, error: null }
+    }
+
+    const { data: rank, error } = await supabaseAdmin
+      .from('belt_ranks')
+      .insert({ ...fields, name, sort_order: await getNextSortOrder(programme) })
+      .select()
+      .single()
+
+    if (error || !rank) {
+      logger.error('Error creating belt rank', error as Error)
+      // Unique violation on name
+      if (error?.code === '23505') {
+        return { rank: null, error: new Error(`A belt named ${name} already exists`) }
+      }
+      return { rank: null, error: new Error(error?.message || 'Failed to add belt') }
+    }
+
+    logger.info('Belt rank created', { rankId: rank.id, name, programme })
+    return { rank: rank as BeltRank, error: null }
+  } catch (error) {
+    logger.error('Unexpected error saving belt rank', error as Error)
+    return {
+      rank: null,
+      error: error instanceof Error ? error : new Error('Failed to save belt'),
+    }
+  }
+}
+
+async function getNextSortOrder(programme: string): Promise<number> {
+  const { data } = await supabaseAdmin
+    .from('belt_ranks')
+    .select('sort_order')
+    .eq('programme', programme)
+    .order('sort_order', { ascending: false })
+    .limit(1)
+
+  return (data?.[0]?.sort_order || 0) + 1
+}
+
+/**
+ * Swap a belt with its neighbour in the programme
+ */
+export async function moveBeltRank(
+  rankId: string,
+  direction: 'up' | 'down'
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { ranks, error: syllabusError } = await getBeltSyllabus()
+    if (syllabusError) {
+      return { success: false, error: syllabusError }
+    }
+
+    const rank = ranks.find((r) => r.id === rankId)
+    if (!rank) {
+      return { success: false, error: new Error('Belt not found') }
+    }
+
+    const ladder = ranks.filter((r) => r.programme === rank.programme)
+    const index = ladder.indexOf(rank)
+    const neighbour = ladder[direction === 'up' ? index - 1 : index + 1]
+    if (!neighbour) {
+      return { success: false, error: new Error(`Belt is already ${direction === 'up' ? 'first' : 'last'}`) }
+    }
+
+    const [first, second] = await Promise.all([
+      supabaseAdmin.from('belt_ranks').update({ sort_order: neighbour.sort_order }).eq('id', rank.id),
+      supabaseAdmin.from('belt_ranks').update({ sort_order: rank.sort_order }).eq('id', neighbour.id),
+    ])
+
+    if (first.error || second.error) {
+      const error = first.error || second.error
+      logger.error('Error reordering belt ranks', error as Error)
+      return { success: false, error: new Error(error!.message) }
+    }
+
+    logger.info('Belt rank moved', { rankId, direction })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error moving belt rank', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to move belt'),
+    }
+  }
+}
+
+/**
+ * Get the syllabus items for a belt (the belt graded for), by category and position
+ */
+export async function getBeltSyllabusItems(
+  beltLevel: string
+): Promise<{ items: BeltSyllabusItem[]; error: null } | { items: null; error: Error }> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('belt_syllabus_items')
+      .select('*')
+      .eq('belt_level', beltLevel)
+      .order('sort_order', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      logger.error('Error fetching belt syllabus items', error as Error)
+      return { items: null, error: new Error(error.message) }
+    }
+
+    return { items: sortSyllabusItems((data || []) as BeltSyllabusItem[]), error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching belt syllabus items', error as Error)
+    return {
+      items: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch belt syllabus'),
+    }
+  }
+}
+
+// Kata first, then kihon and kumite; by position within each
+function sortSyllabusItems<T extends BeltSyllabusItem>(items: T[]): T[] {
+  return [...items].sort(
+    (a, b) =>
+      SYLLABUS_CATEGORIES.indexOf(a.category) - SYLLABUS_CATEGORIES.indexOf(b.category) || a.sort_order - b.sort_order
+  )
+}
+
+/**
+ * Add or update a syllabus item
+ */
+export async function saveBeltSyllabusItem(
+  data: SaveBeltSyllabusItemData,
+  createdById: string
+): Promise<{ item: BeltSyllabusItem | null; error: null } | { item: null; error: Error }> {
+  try {
+    const title = data.title.trim()
+    const youtubeUrl = data.youtubeUrl?.trim() || null
+
+    if (!title) {
+      return { item: null, error: new Error('Please enter a title') }
+    }
+    if (!SYLLABUS_CATEGORIES.includes(data.category)) {
+      return { item: null, error: new Error('Category must be kata, kihon or kumite') }
+    }
+    if (youtubeUrl && !/^https?:\/\/(www\.|m\.)?(youtube\.com|youtu\.be)\//.test(youtubeUrl)) {
+      return { item: null, error: new Error('Demo link must be a YouTube URL') }
+    }
+
+    const { ranks, error: syllabusError } = await getBeltSyllabus()
+    if (syllabusError) {
+      return { item: null, error: syllabusError }
+    }
+    if (!canGradeFor(ranks, data.beltLevel)) {
+      return { item: null, error: new Error('Invalid belt level') }
+    }
+
+    const fields = {
+      belt_level: data.beltLevel,
+      category: data.category,
+      title,
+      description: data.description?.trim() || null,
+      youtube_url: youtubeUrl,
+    }
+
+    if (data.id) {
+      const { data: item, error } = await supabaseAdmin
+        .from('belt_syllabus_items')
+        .update(fields)
+        .eq('id', data.id)
+        .select()
+        .single()
+
+      if (error || !item) {
+        logger.error('Error updating belt syllabus item', error as Error)
+        return { item: null, error: new Error(error?.message || 'Failed to update syllabus item') }
+      }
+
+      return { item: item as BeltSyllabusItem, error: null }
+    }
+
+    // New items go to the end of their category
+    const { data: last } = await supabaseAdmin
+      .from('belt_syllabus_items')
+      .select('sort_order')
+      .eq('belt_level', data.beltLevel)
+      .eq('category', data.category)
+      .order('sort_order', { ascending: false })
+      .limit(1)
+
+    const { data: item, error } = await supabaseAdmin
+      .from('belt_syllabus_items')
+      .insert({ ...fields, sort_order: (last?.[0]?.sort_order || 0) + 1, created_by_id: createdById })
+      .select()
+      .single()
+
+    if (error || !item) {
+      logger.error('Error creating belt syllabus item', error as Error)
+      return { item: null, error: new Error(error?.message || 'Failed to add syllabus item') }
+    }
+
+    logger.info('Belt syllabus item created', { itemId: item.id, beltLevel: data.beltLevel })
+    return { item: item as BeltSyllabusItem, error: null }
+  } catch (error) {
+    logger.error('Unexpected error saving belt syllabus item', error as Error)
+    return {
+      item: null,
+      error: error instanceof Error ? error : new Error('Failed to save syllabus item'),
+    }
+  }
+}
+
+/**
+ * Delete a syllabus item (students' tick-offs for it go with it)
+ */
+export async function deleteBeltSyllabusItem(
+  itemId: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { error } = await supabaseAdmin.from('belt_syllabus_items').delete().eq('id', itemId)
+
+    if (error) {
+      logger.error('Error deleting belt syllabus item', error as Error)
+      return { success: false, error: new Error(error.message) }
+    }
+
+    logger.info('Belt syllabus item deleted', { itemId })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error deleting belt syllabus item', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to delete syllabus item'),
+    }
+  }
+}
+
+/**
+ * Get the requirements for a student's next belt, with the items already ticked off
+ */
+export async function getStudentSyllabusProgress(
+  studentId: string
+): Promise<{ progress: StudentSyllabusProgress | null; error: null } | { progress: null; error: Error }> {
+  try {
+    const [{ data: student, error: studentError }, { ranks, error: syllabusError }] = await Promise.all([
+      supabaseAdmin.from('students').select('current_belt').eq('id', studentId).single(),
+      getBeltSyllabus(),
+    ])
+
+    if (studentError || !student) {
+      return { progress: null, error: new Error('Student not found') }
+    }
+    if (syllabusError) {
+      return { progress: null, error: syllabusError }
+    }
+
+    const nextBelt = findNextBelt(ranks, student.current_belt)
+    if (!nextBelt) {
+      return { progress: { currentBelt: student.current_belt, nextBelt: null, items: [] }, error: null }
+    }
+
+    const [itemsResult, { data: completed, error: progressError }] = await Promise.all([
+      getBeltSyllabusItems(nextBelt),
+      supabaseAdmin.from('student_syllabus_progress').select('item_id, completed_by_id, completed_at').eq('student_id', studentId),
+    ])
+
+    if (itemsResult.error) {
+      return { progress: null, error: itemsResult.error }
+    }
+    if (progressError) {
+      logger.error('Error fetching syllabus progress', progressError as Error)
+      return { progress: null, error: new Error(progressError.message) }
+    }
+
+    const items = itemsResult.items.map((item) => {
+      const done = (completed || []).find((c: any) => c.item_id === item.id)
+      return {
+        ...item,
+        completed_at: done?.completed_at || null,
+        completed_by_id: done?.completed_by_id || null,
+      }
+    })
+
+    return { progress: { currentBelt: student.current_belt, nextBelt, items }, error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching syllabus progress', error as Error)
+    return {
+      progress: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch syllabus progress'),
+    }
+  }
+}
+
+/**
+ * Tick a syllabus item off for a student, or untick it
+ */
+export async function setSyllabusItemCompleted(
+  studentId: string,
+  itemId: string,
+  completed: boolean,
+  completedById: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { error } = completed
+      ? await supabaseAdmin
+          .from('student_syllabus_progress')
+          .upsert(
+            { student_id: studentId, item_id: itemId, completed_by_id: completedById, completed_at: new Date().toISOString() },
+            { onConflict: 'student_id,item_id' }
+          )
+      : await supabaseAdmin.from('student_syllabus_progress').delete().eq('student_id', studentId).eq('item_id', itemId)
+
+    if (error) {
+      logger.error('Error updating syllabus progress', error as Error)
+      return { success: false, error: new Error(error.message) }
+    }
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error updating syllabus progress', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to update syllabus progress'),
+    }
+  }
+}
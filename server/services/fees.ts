@@ -0,0 +1,4324 @@
+import { supabaseAdmin } from '../lib/supabase-admin'
+import { logger } from '../lib/logger'
+import type {
+  FeeType,
+  PaymentType,
+  FeeStatus,
+  FeeConfiguration,
+  StudentFee,
+  PaymentPreference,
+  BeltGrading,
+  FeePayment,
+  PaymentReversalType,
+  DiscountCategory,
+  DiscountType,
+  FeeDiscountRule,
+  StudentDiscount,
+  LateFeePenaltyType,
+  LateFeePolicy,
+  FeeFreeze,
+  StudentCreditTransaction,
+  CreditSource,
+  PrepaymentAllocation,
+  FeeReminderPolicy,
+  ReminderChannel,
+  OverdueEscalationPolicy,
+  OverdueEscalationStage,
+} from '../../src/lib/fees'
+import type { FeeReceipt } from '../../src/lib/receipts'
+import type { FeeStatement, StatementEntry } from '../../src/lib/statements'
+import { createNotification } from './admin-notifications'
+import { getBeltSyllabus } from './belts'
+import { canGradeFor } from '../../src/lib/belts'
+
+/**
+ * Parse a YYYY-MM-DD date string into a local Date (no timezone shifts).
+ * This avoids the subtle bugs of new Date('YYYY-MM-DD') which is treated as UTC.
+ */
+function parseLocalDate(dateStr: string): Date {
+  const parts = dateStr.split('-')
+  if (parts.length !== 3) {
+    throw new Error(`Invalid date format, expected YYYY-MM-DD but got: ${dateStr}`)
+  }
+  const year = parseInt(parts[0], 10)
+  const month = parseInt(parts[1], 10) - 1 // 0-indexed
+  const day = parseInt(parts[2], 10)
+
+  const d = new Date(year, month, day)
+  d.setHours(0, 0, 0, 0)
+
+  if (isNaN(d.getTime())) {
+    throw new Error(`Invalid date components for YYYY-MM-DD: ${dateStr}`)
+  }
+
+  return d
+}
+
+/**
+ * Format a Date as YYYY-MM-DD in local time (the counterpart of parseLocalDate).
+ * toISOString() gives the UTC date instead, which is a day early east of UTC.
+ */
+export function formatLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Helper to subtract a number of months from a date, keeping end-of-month behaviour sane.
+ * Used for yearly billing "one month before period end" logic.
+ */
+function subtractMonths(date: Date, months: number): Date {
+  const year = date.getFullYear()
+  const month = date.getMonth()
+  const day = date.getDate()
+
+  let targetYear = year
+  let targetMonth = month - months
+
+  while (targetMonth < 0) {
+    targetMonth += 12
+    targetYear -= 1
+  }
+
+  const result = new Date(targetYear, targetMonth, day)
+
+  // If the day doesn't exist in the target month, go to last day of that month
+  if (result.getMonth() !== targetMonth) {
+    result.setDate(0)
+  }
+
+  result.setHours(0, 0, 0, 0)
+  return result
+}
+
+/**
+ * Today's date as YYYY-MM-DD in local time, the default date for fee configuration lookups
+ */
+export function todayDateString(): string {
+  return formatLocalDate(new Date())
+}
+
+/**
+ * Restrict a fee_configurations query to one scope
+ * (fee type, belt level for grading, and a branch or global when branchId is null)
+ */
+function scopeFeeConfigurationQuery<Q extends { eq: any; is: any }>(
+  query: Q,
+  feeType: FeeType,
+  beltLevel: string | null,
+  branchId: string | null
+): Q {
+  query = query.eq('fee_type', feeType)
+  query = branchId ? query.eq('branch_id', branchId) : query.is('branch_id', null)
+
+  // For grading fees, filter by belt_level
+  if (feeType === 'grading') {
+    query = query.eq('belt_level', beltLevel)
+  } else {
+    // For non-grading fees, ensure belt_level is NULL
+    query = query.is('belt_level', null)
+  }
+
+  return query
+}
+
+/**
+ * Find the configuration in effect on a date in one scope (a branch, or global when branchId is null)
+ * Active configurations form a timeline per scope; the one with the latest
+ * effective_from on or before the date applies
+ */
+async function findActiveFeeConfiguration(
+  feeType: FeeType,
+  beltLevel: string | null,
+  branchId: string | null,
+  onDate: string = todayDateString()
+): Promise<{ fee: FeeConfiguration | null; error: null } | { fee: null; error: Error }> {
+  const query = scopeFeeConfigurationQuery(
+    supabaseAdmin.from('fee_configurations').select('*').eq('is_active', true),
+    feeType,
+    beltLevel,
+    branchId
+  )
+
+  const { data, error } = await query
+    .lte('effective_from', onDate)
+    .order('effective_from', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error && error.code !== 'PGRST116') {
+    // PGRST116 = no rows returned, which is OK
+    logger.error('Error fetching fee configuration', error as Error)
+    return { fee: null, error: new Error(error.message) }
+  }
+
+  return { fee: (data as FeeConfiguration) || null, error: null }
+}
+
+/**
+ * Get fee configuration for a specific fee type
+ * For grading fees, beltLevel is required
+ * When branchId is given, the branch override is used if there is one, otherwise the global fee
+ * onDate (YYYY-MM-DD, default today) picks the rate in effect on that date
+ */
+export async function getFeeConfiguration(
+  feeType: FeeType,
+  beltLevel?: string | null,
+  branchId?: string | null,
+  onDate?: string
+): Promise<{ fee: FeeConfiguration | null; error: null } | { fee: null; error: Error }> {
+  try {
+    if (feeType === 'grading' && !beltLevel) {
+      return { fee: null, error: new Error('Belt level is required for grading fees') }
+    }
+
+    if (branchId) {
+      const branchResult = await findActiveFeeConfiguration(feeType, beltLevel || null, branchId, onDate)
+      if (branchResult.error || branchResult.fee) {
+        return branchResult
+      }
+    }
+
+    return await findActiveFeeConfiguration(feeType, beltLevel || null, null, onDate)
+  } catch (error) {
+    logger.error('Unexpected error fetching fee configuration', error as Error)
+    return {
+      fee: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch fee configuration'),
+    }
+  }
+}
+
+/**
+ * Get all fee configurations (for admin)
+ * Returns the rates in effect today for global fees, plus that branch's overrides when branchId is given
+ * includeScheduled also returns rates that take effect in the future
+ */
+export async function getAllFeeConfigurations(options?: {
+  feeType?: FeeType
+  branchId?: string | null
+  includeScheduled?: boolean
+}): Promise<{ fees: FeeConfiguration[]; error: null } | { fees: null; error: Error }> {
+  try {
+    let query = supabaseAdmin
+      .from('fee_configurations')
+      .select('*')
+      .eq('is_active', true)
+
+    if (!options?.branchId) {
+      query = query.is('branch_id', null) // Only global fees
+    }
+
+    if (options?.feeType) {
+      query = query.eq('fee_type', options.feeType)
+    }
+
+    const { data, error } = await query
+      .order('fee_type', { ascending: true })
+      .order('belt_level', { ascending: true, nullsFirst: true })
+      .order('effective_from', { ascending: false })
+
+    if (error) {
+      logger.error('Error fetching fee configurations', error as Error)
+      return { fees: null, error: new Error(error.message) }
+    }
+
+    // Keep global fees and the requested branch's overrides only
+    const scoped = ((data || []) as FeeConfiguration[]).filter(
+      (fee) => fee.branch_id === null || fee.branch_id === options?.branchId
+    )
+
+    // Rows are newest first within each scope, so the first one on or before today is current
+    const today = todayDateString()
+    const currentScopes = new Set<string>()
+    const fees = scoped.filter((fee) => {
+      if (fee.effective_from > today) {
+        return !!options?.includeScheduled
+      }
+      const scope = `${fee.fee_type}|${fee.belt_level ?? ''}|${fee.branch_id ?? ''}`
+      if (currentScopes.has(scope)) {
+        return false // Superseded by a later rate
+      }
+      currentScopes.add(scope)
+      return true
+    })
+
+    return { fees, error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching fee configurations', error as Error)
+    return {
+      fees: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch fee configurations'),
+    }
+  }
+}
+
+/**
+ * Create or update fee configuration
+ * branchId null sets the global fee; a branchId sets that branch's override
+ * Grading fees require belt_level
+ * effectiveFrom (YYYY-MM-DD, default today) schedules the new rate; periods starting
+ * before it keep the earlier rate
+ */
+export async function setFeeConfiguration(
+  feeType: FeeType,
+  amount: number,
+  beltLevel: string | null, // For grading fees only
+  createdById: string,
+  branchId: string | null = null,
+  effectiveFrom?: string | null
+): Promise<{ fee: FeeConfiguration | null; error: null } | { fee: null; error: Error }> {
+  try {
+    if (amount < 0) {
+      return { fee: null, error: new Error('Fee amount cannot be negative') }
+    }
+
+    // Validate grading fees must have belt_level
+    if (feeType === 'grading' && !beltLevel) {
+      return { fee: null, error: new Error('Grading fees must specify a belt level') }
+    }
+
+    // Validate non-grading fees must not have belt_level
+    if (feeType !== 'grading' && beltLevel) {
+      return { fee: null, error: new Error('Only grading fees can have belt level') }
+    }
+
+    // Grading fees are for belts in the syllabus that can be graded for
+    if (feeType === 'grading') {
+      const { ranks, error: syllabusError } = await getBeltSyllabus()
+      if (syllabusError) {
+        return { fee: null, error: syllabusError }
+      }
+      if (!canGradeFor(ranks, beltLevel!)) {
+        return { fee: null, error: new Error(`${beltLevel} is not a belt that can be graded for`) }
+      }
+    }
+
+    const today = todayDateString()
+    const effectiveDate = effectiveFrom || today
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate)) {
+      return { fee: null, error: new Error('Effective date must be in YYYY-MM-DD format') }
+    }
+
+    // Rates already used for generated fees cannot be rewritten
+    if (effectiveDate < today) {
+      return { fee: null, error: new Error('Effective date cannot be in the past') }
+    }
+
+    // Get old amount for history (what this branch was paying on that date, override or global)
+    const oldFeeResult = await getFeeConfiguration(feeType, beltLevel || undefined, branchId, effectiveDate)
+    const oldAmount = oldFeeResult.fee?.amount ?? null
+
+    // Replace a rate already set for the same scope and date
+    const { error: deactivateError } = await deactivateFeeConfiguration(feeType, beltLevel, branchId, effectiveDate)
+
+    if (deactivateError) {
+      logger.warn('Error deactivating old fee configuration', { error: deactivateError })
+    }
+
+    // Create new active fee configuration
+    const { data: newFee, error: createError } = await supabaseAdmin
+      .from('fee_configurations')
+      .insert({
+        fee_type: feeType,
+        branch_id: branchId,
+        belt_level: beltLevel || null,
+        amount,
+        effective_from: effectiveDate,
+        is_active: true,
+        created_by_id: createdById,
+      })
+      .select()
+      .single()
+
+    if (createError || !newFee) {
+      logger.error('Error creating fee configuration', createError as Error)
+      return { fee: null, error: new Error(createError?.message || 'Failed to create fee configuration') }
+    }
+
+    // Record in history if amount changed
+    if (oldAmount !== null && oldAmount !== amount) {
+      await supabaseAdmin.from('fee_configuration_history').insert({
+        fee_configuration_id: newFee.id,
+        fee_type: feeType,
+        branch_id: branchId,
+        belt_level: beltLevel || null,
+        old_amount: oldAmount,
+        new_amount: amount,
+        effective_from: effectiveDate,
+        changed_by_id: createdById,
+      })
+    }
+
+    logger.info('Fee configuration set successfully', { feeType, beltLevel, branchId, amount, effectiveFrom: effectiveDate })
+    return { fee: newFee as FeeConfiguration, error: null }
+  } catch (error) {
+    logger.error('Unexpected error setting fee configuration', error as Error)
+    return {
+      fee: null,
+      error: error instanceof Error ? error : new Error('Failed to set fee configuration'),
+    }
+  }
+}
+
+/**
+ * Deactivate active configurations in one scope (a branch, or global when branchId is null)
+ * When effectiveFrom is given, only the rate starting on that date is deactivated
+ */
+async function deactivateFeeConfiguration(
+  feeType: FeeType,
+  beltLevel: string | null,
+  branchId: string | null,
+  effectiveFrom?: string
+) {
+  let query = scopeFeeConfigurationQuery(
+    supabaseAdmin.from('fee_configurations').update({ is_active: false }).eq('is_active', true),
+    feeType,
+    beltLevel,
+    branchId
+  )
+
+  if (effectiveFrom) {
+    query = query.eq('effective_from', effectiveFrom)
+  }
+
+  return query
+}
+
+/**
+ * Remove a branch override so the branch falls back to the global fee
+ * Removes the branch's current and scheduled rates
+ */
+export async function removeBranchFeeOverride(
+  feeType: FeeType,
+  beltLevel: string | null,
+  branchId: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    if (!branchId) {
+      return { success: false, error: new Error('Branch is required') }
+    }
+
+    const { error } = await deactivateFeeConfiguration(feeType, beltLevel, branchId)
+
+    if (error) {
+      logger.error('Error removing branch fee override', error as Error)
+      return { success: false, error: new Error(error.message) }
+    }
+
+    logger.info('Branch fee override removed', { feeType, beltLevel, branchId })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error removing branch fee override', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to remove branch fee override'),
+    }
+  }
+}
+
+/**
+ * Get the rate timeline for one scope (a branch override, or global when branchId is null)
+ * Newest first: scheduled rates, then the current rate, then past rates
+ * Only active rows form the timeline; cancelled changes, rates overwritten on the same
+ * date and rates replaced before effective dates existed are inactive and left out
+ */
+export async function getFeeRateHistory(
+  feeType: FeeType,
+  beltLevel: string | null,
+  branchId: string | null = null
+): Promise<{ fees: FeeConfiguration[]; error: null } | { fees: null; error: Error }> {
+  try {
+    if (feeType === 'grading' && !beltLevel) {
+      return { fees: null, error: new Error('Belt level is required for grading fees') }
+    }
+
+    const query = scopeFeeConfigurationQuery(
+      supabaseAdmin.from('fee_configurations').select('*').eq('is_active', true),
+      feeType,
+      beltLevel,
+      branchId
+    )
+
+    const { data, error } = await query.order('effective_from', { ascending: false })
+
+    if (error) {
+      logger.error('Error fetching fee rate history', error as Error)
+      return { fees: null, error: new Error(error.message) }
+    }
+
+    return { fees: (data || []) as FeeConfiguration[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching fee rate history', error as Error)
+    return {
+      fees: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch fee rate history'),
+    }
+  }
+}
+
+/**
+ * Cancel a price change that has not taken effect yet
+ */
+export async function cancelScheduledFeeChange(
+  configurationId: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { data: config, error: fetchError } = await supabaseAdmin
+      .from('fee_configurations')
+      .select('id, effective_from, is_active')
+      .eq('id', configurationId)
+      .single()
+
+    if (fetchError || !config) {
+      return { success: false, error: new Error('Fee configuration not found') }
+    }
+
+    if (!config.is_active || config.effective_from <= todayDateString()) {
+      return { success: false, error: new Error('Only upcoming price changes can be cancelled') }
+    }
+
+    const { error } = await supabaseAdmin
+      .from('fee_configurations')
+      .update({ is_active: false })
+      .eq('id', configurationId)
+      .eq('is_active', true)
+
+    if (error) {
+      logger.error('Error cancelling scheduled fee change', error as Error)
+      return { success: false, error: new Error(error.message) }
+    }
+
+    logger.info('Scheduled fee change cancelled', { configurationId, effectiveFrom: config.effective_from })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error cancelling scheduled fee change', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to cancel scheduled fee change'),
+    }
+  }
+}
+
+/**
+ * Get active discount rules
+ */
+export async function getDiscountRules(): Promise<
+  { rules: FeeDiscountRule[]; error: null } | { rules: null; error: Error }
+> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('fee_discount_rules')
+      .select('*')
+      .eq('is_active', true)
+      .order('category', { ascending: true })
+      .order('sibling_order', { ascending: true, nullsFirst: true })
+
+    if (error) {
+      logger.error('Error fetching discount rules', error as Error)
+      return { rules: null, error: new Error(error.message) }
+    }
+
+    return { rules: (data || []) as FeeDiscountRule[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching discount rules', error as Error)
+    return {
+      rules: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch discount rules'),
+    }
+  }
+}
+
+/**
+ * Create a discount rule
+ */
+export async function createDiscountRule(
+  rule: {
+    name: string
+    category: DiscountCategory
+    discountType: DiscountType
+    value: number
+    siblingOrder?: number | null
+  },
+  createdById: string
+): Promise<{ rule: FeeDiscountRule | null; error: null } | { rule: null; error: Error }> {
+  try {
+    if (!rule.name?.trim()) {
+      return { rule: null, error: new Error('Rule name is required') }
+    }
+
+    if (!(rule.value > 0)) {
+      return { rule: null, error: new Error('Discount value must be greater than zero') }
+    }
+
+    if (rule.discountType === 'percentage' && rule.value > 100) {
+      return { rule: null, error: new Error('Percentage discount cannot exceed 100%') }
+    }
+
+    if (rule.category === 'sibling' && !(rule.siblingOrder && rule.siblingOrder >= 2)) {
+      return { rule: null, error: new Error('Sibling rules must apply from the 2nd child onwards') }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('fee_discount_rules')
+      .insert({
+        name: rule.name.trim(),
+        category: rule.category,
+        discount_type: rule.discountType,
+        value: rule.value,
+        sibling_order: rule.category === 'sibling' ? rule.siblingOrder : null,
+        is_active: true,
+        created_by_id: createdById,
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      logger.error('Error creating discount rule', error as Error)
+      return { rule: null, error: new Error(error?.message || 'Failed to create discount rule') }
+    }
+
+    logger.info('Discount rule created', { ruleId: data.id, category: rule.category })
+    return { rule: data as FeeDiscountRule, error: null }
+  } catch (error) {
+    logger.error('Unexpected error creating discount rule', error as Error)
+    return {
+      rule: null,
+      error: error instanceof Error ? error : new Error('Failed to create discount rule'),
+    }
+  }
+}
+
+/**
+ * Deactivate a discount rule
+ * Fees already generated keep their discount; new fees no longer get it
+ */
+export async function deactivateDiscountRule(
+  ruleId: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { error } = await supabaseAdmin
+      .from('fee_discount_rules')
+      .update({ is_active: false })
+      .eq('id', ruleId)
+
+    if (error) {
+      logger.error('Error deactivating discount rule', error as Error)
+      return { success: false, error: new Error(error.message) }
+    }
+
+    logger.info('Discount rule deactivated', { ruleId })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error deactivating discount rule', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to deactivate discount rule'),
+    }
+  }
+}
+
+/**
+ * Get discounts granted to a student (staff child / scholarship)
+ */
+export async function getStudentDiscounts(
+  studentId: string
+): Promise<{ discounts: StudentDiscount[]; error: null } | { discounts: null; error: Error }> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('student_discounts')
+      .select('*, discount_rule:fee_discount_rules(*)')
+      .eq('student_id', studentId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      logger.error('Error fetching student discounts', error as Error)
+      return { discounts: null, error: new Error(error.message) }
+    }
+
+    return { discounts: (data || []) as StudentDiscount[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching student discounts', error as Error)
+    return {
+      discounts: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch student discounts'),
+    }
+  }
+}
+
+/**
+ * Grant a staff-child or scholarship discount to a student
+ */
+export async function assignStudentDiscount(
+  studentId: string,
+  ruleId: string,
+  assignedById: string
+): Promise<{ discount: StudentDiscount | null; error: null } | { discount: null; error: Error }> {
+  try {
+    const { data: rule, error: ruleError } = await supabaseAdmin
+      .from('fee_discount_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (ruleError || !rule) {
+      return { discount: null, error: new Error('Discount rule not found') }
+    }
+
+    if (rule.category === 'sibling') {
+      return { discount: null, error: new Error('Sibling discounts are applied automatically') }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('student_discounts')
+      .insert({
+        student_id: studentId,
+        discount_rule_id: ruleId,
+        assigned_by_id: assignedById,
+      })
+      .select('*, discount_rule:fee_discount_rules(*)')
+      .single()
+
+    if (error || !data) {
+      if (error?.code === '23505') {
+        return { discount: null, error: new Error('This discount is already granted to the student') }
+      }
+      logger.error('Error assigning student discount', error as Error)
+      return { discount: null, error: new Error(error?.message || 'Failed to assign discount') }
+    }
+
+    logger.info('Student discount assigned', { studentId, ruleId })
+    return { discount: data as StudentDiscount, error: null }
+  } catch (error) {
+    logger.error('Unexpected error assigning student discount', error as Error)
+    return {
+      discount: null,
+      error: error instanceof Error ? error : new Error('Failed to assign discount'),
+    }
+  }
+}
+
+/**
+ * Remove a discount granted to a student
+ * Fees already generated keep their discount
+ */
+export async function removeStudentDiscount(
+  studentId: string,
+  studentDiscountId: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { error } = await supabaseAdmin
+      .from('student_discounts')
+      .delete()
+      .eq('id', studentDiscountId)
+      .eq('student_id', studentId)
+
+    if (error) {
+      logger.error('Error removing student discount', error as Error)
+      return { success: false, error: new Error(error.message) }
+    }
+
+    logger.info('Student discount removed', { studentId, studentDiscountId })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error removing student discount', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to remove discount'),
+    }
+  }
+}
+
+/**
+ * Discount a rule gives on a fee amount (never more than the amount itself)
+ */
+function calculateDiscount(rule: FeeDiscountRule, amount: number): number {
+  const discount =
+    rule.discount_type === 'percentage' ? Math.round(amount * rule.value) / 100 : rule.value
+  return Math.min(discount, amount)
+}
+
+/**
+ * Pick the discount for a student's monthly/yearly fee
+ * Candidates are the sibling rule matching the student's position among active
+ * siblings (students sharing a parent phone, oldest enrolment first) and any
+ * staff-child/scholarship rules granted to the student. Discounts do not stack -
+ * the largest one wins.
+ */
+async function resolveFeeDiscount(
+  studentId: string,
+  amount: number
+): Promise<{ rule: FeeDiscountRule | null; discountAmount: number }> {
+  const none = { rule: null, discountAmount: 0 }
+  if (amount <= 0) return none
+
+  const { rules } = await getDiscountRules()
+  if (!rules || rules.length === 0) return none
+
+  const candidates: FeeDiscountRule[] = []
+
+  const siblingRules = rules.filter((r) => r.category === 'sibling')
+  if (siblingRules.length > 0) {
+    const { data: student } = await supabaseAdmin
+      .from('students')
+      .select('parent_phone')
+      .eq('id', studentId)
+      .single()
+
+    const parentPhone = student?.parent_phone?.trim()
+    if (parentPhone) {
+      const { data: siblings } = await supabaseAdmin
+        .from('students')
+        .select('id')
+        .eq('parent_phone', parentPhone)
+        .eq('is_active', true)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+
+      const position = (siblings || []).findIndex((s) => s.id === studentId) + 1
+      // Highest sibling_order the student qualifies for
+      const siblingRule = siblingRules
+        .filter((r) => position >= (r.sibling_order as number))
+        .sort((a, b) => (b.sibling_order as number) - (a.sibling_order as number))[0]
+      if (siblingRule) candidates.push(siblingRule)
+    }
+  }
+
+  const { discounts } = await getStudentDiscounts(studentId)
+  for (const granted of discounts || []) {
+    if (granted.discount_rule?.is_active) candidates.push(granted.discount_rule)
+  }
+
+  let best = none as { rule: FeeDiscountRule | null; discountAmount: number }
+  for (const rule of candidates) {
+    const discountAmount = calculateDiscount(rule, amount)
+    if (discountAmount > best.discountAmount) {
+      best = { rule, discountAmount }
+    }
+  }
+  return best
+}
+
+/**
+ * Add days to a YYYY-MM-DD date string
+ */
+function addDaysToDateString(dateStr: string, days: number): string {
+  const date = parseLocalDate(dateStr)
+  date.setDate(date.getDate() + days)
+  return formatLocalDate(date)
+}
+
+/**
+ * Get a student's fee freezes (newest first, cancelled ones excluded)
+ */
+export async function getFeeFreezes(
+  studentId: string
+): Promise<{ freezes: FeeFreeze[]; error: null } | { freezes: null; error: Error }> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('fee_freezes')
+      .select('*')
+      .eq('student_id', studentId)
+      .is('cancelled_at', null)
+      .order('start_date', { ascending: false })
+
+    if (error) {
+      logger.error('Error fetching fee freezes', error as Error)
+      return { freezes: null, error: new Error(error.message) }
+    }
+
+    return { freezes: (data || []) as FeeFreeze[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching fee freezes', error as Error)
+    return {
+      freezes: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch fee freezes'),
+    }
+  }
+}
+
+/**
+ * Freeze a student's monthly/yearly fees for a period of absence
+ * Unpaid period fees starting inside the window (with no payments recorded) are
+ * removed so they are regenerated after the freeze
+ */
+export async function createFeeFreeze(
+  studentId: string,
+  freeze: { startDate: string; endDate: string; reason: string },
+  approvedById: string
+): Promise<{ freeze: FeeFreeze | null; error: null } | { freeze: null; error: Error }> {
+  try {
+    const dateRegex = /^\d{4}-\d{2}-\d{2}$/
+    if (!dateRegex.test(freeze.startDate) || !dateRegex.test(freeze.endDate)) {
+      return { freeze: null, error: new Error('Invalid date format. Use YYYY-MM-DD') }
+    }
+    if (freeze.endDate < freeze.startDate) {
+      return { freeze: null, error: new Error('End date must be on or after the start date') }
+    }
+    if (!freeze.reason?.trim()) {
+      return { freeze: null, error: new Error('A reason is required for a fee freeze') }
+    }
+
+    // Freezes for the same student must not overlap
+    const { data: overlapping } = await supabaseAdmin
+      .from('fee_freezes')
+      .select('id')
+      .eq('student_id', studentId)
+      .is('cancelled_at', null)
+      .lte('start_date', freeze.endDate)
+      .gte('end_date', freeze.startDate)
+      .limit(1)
+
+    if (overlapping && overlapping.length > 0) {
+      return { freeze: null, error: new Error('This student already has a fee freeze in that period') }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('fee_freezes')
+      .insert({
+        student_id: studentId,
+        start_date: freeze.startDate,
+        end_date: freeze.endDate,
+        reason: freeze.reason.trim(),
+        approved_by_id: approvedById,
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      logger.error('Error creating fee freeze', error as Error)
+      return { freeze: null, error: new Error(error?.message || 'Failed to create fee freeze') }
+    }
+
+    // Remove untouched period fees that fall inside the freeze
+    const { data: frozenFees } = await supabaseAdmin
+      .from('student_fees')
+      .select('id')
+      .eq('student_id', studentId)
+      .in('fee_type', ['monthly', 'yearly'])
+      .in('status', ['pending', 'overdue'])
+      .eq('paid_amount', 0)
+      .gte('period_start_date', freeze.startDate)
+      .lte('period_start_date', freeze.endDate)
+
+    const frozenFeeIds = (frozenFees || []).map((fee) => fee.id)
+    if (frozenFeeIds.length > 0) {
+      // Keep fees whose ledger (or whose late fee's ledger) has any entry, even reversed ones
+      const { data: lateFees } = await supabaseAdmin
+        .from('student_fees')
+        .select('id, parent_fee_id')
+        .in('parent_fee_id', frozenFeeIds)
+      const { data: payments } = await supabaseAdmin
+        .from('fee_payments')
+        .select('student_fee_id')
+        .in('student_fee_id', [...frozenFeeIds, ...(lateFees || []).map((fee) => fee.id)])
+
+      const feesWithPayments = new Set((payments || []).map((p) => p.student_fee_id))
+      for (const lateFee of lateFees || []) {
+        if (feesWithPayments.has(lateFee.id)) {
+          feesWithPayments.add(lateFee.parent_fee_id)
+        }
+      }
+
+      const removableIds = frozenFeeIds.filter((id) => !feesWithPayments.has(id))
+      if (removableIds.length > 0) {
+        const { error: deleteError } = await supabaseAdmin.from('student_fees').delete().in('id', removableIds)
+        if (deleteError) {
+          logger.warn('Error removing fees inside fee freeze', { studentId, error: deleteError.message })
+        }
+      }
+    }
+
+    logger.info('Fee freeze created', { studentId, startDate: freeze.startDate, endDate: freeze.endDate })
+    return { freeze: data as FeeFreeze, error: null }
+  } catch (error) {
+    logger.error('Unexpected error creating fee freeze', error as Error)
+    return {
+      freeze: null,
+      error: error instanceof Error ? error : new Error('Failed to create fee freeze'),
+    }
+  }
+}
+
+/**
+ * End a fee freeze
+ * An upcoming freeze is cancelled; an active one ends yesterday so billing resumes today
+ */
+export async function endFeeFreeze(
+  studentId: string,
+  freezeId: string
+): Promise<{ freeze: FeeFreeze | null; error: null } | { freeze: null; error: Error }> {
+  try {
+    const { data: existing, error: fetchError } = await supabaseAdmin
+      .from('fee_freezes')
+      .select('*')
+      .eq('id', freezeId)
+      .eq('student_id', studentId)
+      .is('cancelled_at', null)
+      .single()
+
+    if (fetchError || !existing) {
+      return { freeze: null, error: new Error('Fee freeze not found') }
+    }
+
+    const today = todayDateString()
+    if (existing.end_date < today) {
+      return { freeze: null, error: new Error('This fee freeze has already ended') }
+    }
+    if (existing.billing_resumed_on) {
+      return { freeze: null, error: new Error('Fees after this freeze have already been generated') }
+    }
+
+    const updates =
+      existing.start_date >= today
+        ? { cancelled_at: new Date().toISOString() }
+        : { end_date: addDaysToDateString(today, -1) }
+
+    const { data, error } = await supabaseAdmin
+      .from('fee_freezes')
+      .update(updates)
+      .eq('id', freezeId)
+      .eq('student_id', studentId)
+      .select()
+      .single()
+
+    if (error || !data) {
+      logger.error('Error ending fee freeze', error as Error)
+      return { freeze: null, error: new Error(error?.message || 'Failed to end fee freeze') }
+    }
+
+    logger.info('Fee freeze ended', { studentId, freezeId, cancelled: 'cancelled_at' in updates })
+    return { freeze: data as FeeFreeze, error: null }
+  } catch (error) {
+    logger.error('Unexpected error ending fee freeze', error as Error)
+    return {
+      freeze: null,
+      error: error instanceof Error ? error : new Error('Failed to end fee freeze'),
+    }
+  }
+}
+
+/**
+ * Move a billing period past any fee freeze it would start in.
+ *
+ * Rules:
+ * - A period starting inside a freeze is skipped; the next period starts the day after the freeze.
+ * - Back-to-back freezes are skipped in turn.
+ * - Once billing has resumed after a freeze, monthly due dates follow the resume day
+ *   instead of the enrollment day (billing_resumed_on).
+ */
+async function resolveFeeFreezes(
+  studentId: string,
+  previousPeriodEndDate: string
+): Promise<{ previousPeriodEndDate: string; shiftedBy: FeeFreeze | null; billingResumedOn: string | null }> {
+  const { data } = await supabaseAdmin
+    .from('fee_freezes')
+    .select('*')
+    .eq('student_id', studentId)
+    .is('cancelled_at', null)
+    .order('start_date', { ascending: true })
+
+  let previousEnd = previousPeriodEndDate
+  let shiftedBy: FeeFreeze | null = null
+  for (const freeze of (data || []) as FeeFreeze[]) {
+    const nextStart = addDaysToDateString(previousEnd, 1)
+    if (freeze.start_date <= nextStart && freeze.end_date >= nextStart) {
+      previousEnd = freeze.end_date
+      shiftedBy = freeze
+    }
+  }
+
+  // Latest resume day on or before the period being generated
+  const nextStart = addDaysToDateString(previousEnd, 1)
+  const resumeDates = ((data || []) as FeeFreeze[])
+    .map((freeze) => freeze.billing_resumed_on)
+    .filter((date): date is string => !!date && date <= nextStart)
+  if (shiftedBy) {
+    resumeDates.push(nextStart)
+  }
+  const billingResumedOn = resumeDates.sort().pop() || null
+
+  return { previousPeriodEndDate: previousEnd, shiftedBy, billingResumedOn }
+}
+
+/**
+ * Get the active late fee policy (null when late fees are off)
+ */
+export async function getLateFeePolicy(): Promise<
+  { policy: LateFeePolicy | null; error: null } | { policy: null; error: Error }
+> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('late_fee_policies')
+      .select('*')
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (error && error.code !== 'PGRST116') {
+      logger.error('Error fetching late fee policy', error as Error)
+      return { policy: null, error: new Error(error.message) }
+    }
+
+    return { policy: (data as LateFeePolicy) || null, error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching late fee policy', error as Error)
+    return {
+      policy: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch late fee policy'),
+    }
+  }
+}
+
+/**
+ * Replace the late fee policy
+ * The previous policy is deactivated and kept for history
+ */
+export async function setLateFeePolicy(
+  policy: {
+    graceDays: number
+    penaltyType: LateFeePenaltyType
+    value: number
+    maxAmount?: number | null
+  },
+  createdById: string
+): Promise<{ policy: LateFeePolicy | null; error: null } | { policy: null; error: Error }> {
+  try {
+    if (!Number.isInteger(policy.graceDays) || policy.graceDays < 0) {
+      return { policy: null, error: new Error('Grace days must be zero or more') }
+    }
+
+    if (!(policy.value > 0)) {
+      return { policy: null, error: new Error('Late fee must be greater than zero') }
+    }
+
+    if (policy.penaltyType === 'percentage' && policy.value > 100) {
+      return { policy: null, error: new Error('Percentage late fee cannot exceed 100%') }
+    }
+
+    if (policy.maxAmount !== null && policy.maxAmount !== undefined && !(policy.maxAmount > 0)) {
+      return { policy: null, error: new Error('Cap must be greater than zero') }
+    }
+
+    const disableResult = await disableLateFeePolicy()
+    if (disableResult.error) {
+      return { policy: null, error: disableResult.error }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('late_fee_policies')
+      .insert({
+        grace_days: policy.graceDays,
+        penalty_type: policy.penaltyType,
+        value: policy.value,
+        max_amount: policy.maxAmount || null,
+        is_active: true,
+        created_by_id: createdById,
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      logger.error('Error setting late fee policy', error as Error)
+      return { policy: null, error: new Error(error?.message || 'Failed to set late fee policy') }
+    }
+
+    logger.info('Late fee policy set', { graceDays: policy.graceDays, penaltyType: policy.penaltyType, value: policy.value })
+    return { policy: data as LateFeePolicy, error: null }
+  } catch (error) {
+    logger.error('Unexpected error setting late fee policy', error as Error)
+    return {
+      policy: null,
+      error: error instanceof Error ? error : new Error('Failed to set late fee policy'),
+    }
+  }
+}
+
+/**
+ * Turn late fees off
+ * Penalties already created are kept
+ */
+export async function disableLateFeePolicy(): Promise<
+  { success: boolean; error: null } | { success: false; error: Error }
+> {
+  try {
+    const { error } = await supabaseAdmin
+      .from('late_fee_policies')
+      .update({ is_active: false })
+      .eq('is_active', true)
+
+    if (error) {
+      logger.error('Error disabling late fee policy', error as Error)
+      return { success: false, error: new Error(error.message) }
+    }
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error disabling late fee policy', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to disable late fee policy'),
+    }
+  }
+}
+
+/**
+ * Get payment preference for a student
+ */
+export async function getStudentPaymentPreference(
+  studentId: string
+): Promise<{ preference: PaymentPreference | null; error: null } | { preference: null; error: Error }> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('student_payment_preferences')
+      .select('*')
+      .eq('student_id', studentId)
+      .maybeSingle()
+
+    if (error && error.code !== 'PGRST116') {
+      logger.error('Error fetching payment preference', error as Error)
+      return { preference: null, error: new Error(error.message) }
+    }
+
+    return { preference: (data as PaymentPreference) || null, error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching payment preference', error as Error)
+    return {
+      preference: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch payment preference'),
+    }
+  }
+}
+
+/**
+ * Set payment preference for a student
+ */
+export async function setStudentPaymentPreference(
+  studentId: string,
+  paymentType: PaymentType,
+  startedFrom: string
+): Promise<{ preference: PaymentPreference | null; error: null } | { preference: null; error: Error }> {
+  try {
+    // Upsert payment preference
+    const { data, error } = await supabaseAdmin
+      .from('student_payment_preferences')
+      .upsert(
+        {
+          student_id: studentId,
+          payment_type: paymentType,
+          started_from: startedFrom,
+        },
+        {
+          onConflict: 'student_id',
+        }
+      )
+      .select()
+      .single()
+
+    if (error || !data) {
+      logger.error('Error setting payment preference', error as Error)
+      return { preference: null, error: new Error(error?.message || 'Failed to set payment preference') }
+    }
+
+    logger.info('Payment preference set successfully', { studentId, paymentType })
+    return { preference: data as PaymentPreference, error: null }
+  } catch (error) {
+    logger.error('Unexpected error setting payment preference', error as Error)
+    return {
+      preference: null,
+      error: error instanceof Error ? error : new Error('Failed to set payment preference'),
+    }
+  }
+}
+
+/**
+ * Create a student fee
+ */
+export async function createStudentFee(data: {
+  studentId: string
+  feeType: FeeType
+  amount: number
+  dueDate: string
+  periodStartDate?: string | null
+  periodEndDate?: string | null
+  beltGradingId?: string | null
+  parentFeeId?: string | null // Late fees only
+}): Promise<{ fee: StudentFee | null; error: null } | { fee: null; error: Error }> {
+  try {
+    // Validate amount
+    if (data.amount < 0) {
+      return { fee: null, error: new Error('Fee amount cannot be negative') }
+    }
+
+    let amount = data.amount
+    let discount: { rule: FeeDiscountRule | null; discountAmount: number } = { rule: null, discountAmount: 0 }
+
+    // Check if student is active (for monthly/yearly fees)
+    if (data.feeType === 'monthly' || data.feeType === 'yearly') {
+      const { data: student, error: studentError } = await supabaseAdmin
+        .from('students')
+        .select('is_active')
+        .eq('id', data.studentId)
+        .single()
+
+      if (studentError || !student) {
+        logger.error('Error fetching student for fee creation', studentError as Error)
+        return { fee: null, error: new Error('Student not found') }
+      }
+
+      if (!student.is_active) {
+        logger.warn('Attempted to create fee for inactive student', { studentId: data.studentId })
+        return { fee: null, error: new Error('Cannot create fees for inactive students') }
+      }
+
+      // Check for duplicate fee (same type, overlapping period)
+      if (data.periodStartDate && data.periodEndDate) {
+        // Check for overlapping periods: periods overlap if start1 <= end2 AND end1 >= start2
+        const { data: existingFees } = await supabaseAdmin
+          .from('student_fees')
+          .select('id, period_start_date, period_end_date')
+          .eq('student_id', data.studentId)
+          .eq('fee_type', data.feeType)
+          .in('status', ['pending', 'overdue'])
+          .not('period_start_date', 'is', null)
+          .not('period_end_date', 'is', null)
+
+        if (existingFees) {
+          for (const existing of existingFees) {
+            // Check if periods overlap
+            if (
+              existing.period_start_date <= data.periodEndDate &&
+              existing.period_end_date >= data.periodStartDate
+            ) {
+              logger.warn('Duplicate fee detected - overlapping period', {
+                studentId: data.studentId,
+                feeType: data.feeType,
+                newPeriod: { start: data.periodStartDate, end: data.periodEndDate },
+                existingPeriod: {
+                  start: existing.period_start_date,
+                  end: existing.period_end_date,
+                },
+              })
+              return { fee: null, error: new Error('A fee for this period already exists') }
+            }
+          }
+        }
+      }
+
+      // Sibling / staff child / scholarship discount
+      discount = await resolveFeeDiscount(data.studentId, data.amount)
+      amount = Math.round((data.amount - discount.discountAmount) * 100) / 100
+    }
+
+    // Determine initial status based on due date
+    const initialStatus = (() => {
+      const dueDateParts = data.dueDate.split('-')
+      if (dueDateParts.length !== 3) {
+        return 'pending'
+      }
+      const dueYear = parseInt(dueDateParts[0], 10)
+      const dueMonth = parseInt(dueDateParts[1], 10) - 1
+      const dueDay = parseInt(dueDateParts[2], 10)
+      
+      const today = new Date()
+      today.setHours(0, 0, 0, 0)
+      const dueDate = new Date(dueYear, dueMonth, dueDay)
+      dueDate.setHours(0, 0, 0, 0)
+      
+      // If due date is in the future or today, it's pending
+      if (dueDate >= today) {
+        return 'pending'
+      }
+      // If due date has passed, it's overdue
+      return 'overdue'
+    })()
+
+    // A fully discounted fee has nothing left to collect
+    const fullyDiscounted = amount === 0 && discount.discountAmount > 0
+
+    const { data: fee, error } = await supabaseAdmin
+      .from('student_fees')
+      .insert({
+        student_id: data.studentId,
+        fee_type: data.feeType,
+        amount,
+        discount_amount: discount.discountAmount,
+        discount_rule_id: discount.rule?.id || null,
+        due_date: data.dueDate,
+        status: fullyDiscounted ? 'paid' : initialStatus,
+        paid_at: fullyDiscounted ? new Date().toISOString() : null,
+        period_start_date: data.periodStartDate || null,
+        period_end_date: data.periodEndDate || null,
+        belt_grading_id: data.beltGradingId || null,
+        parent_fee_id: data.parentFeeId || null,
+      })
+      .select()
+      .single()
+
+    if (error || !fee) {
+      logger.error('Error creating student fee', error as Error)
+      return { fee: null, error: new Error(error?.message || 'Failed to create student fee') }
+    }
+
+    logger.info('Student fee created successfully', {
+      studentId: data.studentId,
+      feeType: data.feeType,
+      discountAmount: discount.discountAmount,
+    })
+
+    // Use up any credit the student holds on the new fee
+    const settled = await applyStudentCredit(fee as StudentFee)
+    return { fee: settled, error: null }
+  } catch (error) {
+    logger.error('Unexpected error creating student fee', error as Error)
+    return {
+      fee: null,
+      error: error instanceof Error ? error : new Error('Failed to create student fee'),
+    }
+  }
+}
+
+/**
+ * Helper function to determine correct fee status based on due date
+ */
+function getCorrectFeeStatus(fee: StudentFee): FeeStatus {
+  // If fee is paid, it stays paid
+  if (fee.status === 'paid') {
+    return 'paid'
+  }
+
+  // Waived fees are never collected
+  if (fee.status === 'waived') {
+    return 'waived'
+  }
+
+  // If fee is fully paid (paid_amount >= amount), it should be paid
+  if ((fee.paid_amount || 0) >= fee.amount) {
+    return 'paid'
+  }
+
+  // Parse dates safely to avoid timezone issues
+  // Parse due_date as YYYY-MM-DD format (local time, not UTC)
+  const dueDateParts = fee.due_date.split('-')
+  if (dueDateParts.length !== 3) {
+    logger.warn('Invalid due_date format', { dueDate: fee.due_date, feeId: fee.id })
+    return 'pending' // Default to pending if date is invalid
+  }
+
+  const dueYear = parseInt(dueDateParts[0], 10)
+  const dueMonth = parseInt(dueDateParts[1], 10) - 1 // Month is 0-indexed
+  const dueDay = parseInt(dueDateParts[2], 10)
+
+  // Create date objects in local timezone (not UTC)
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  
+  const dueDate = new Date(dueYear, dueMonth, dueDay)
+  dueDate.setHours(0, 0, 0, 0)
+
+  // Validate dates
+  if (isNaN(today.getTime()) || isNaN(dueDate.getTime())) {
+    logger.warn('Invalid date created', { today: today.getTime(), dueDate: dueDate.getTime(), feeId: fee.id })
+    return 'pending'
+  }
+
+  // Compare dates: if due date is in the future, it's pending
+  if (dueDate > today) {
+    return 'pending'
+  }
+
+  // If due date is today, it's still pending (not overdue until tomorrow)
+  if (dueDate.getTime() === today.getTime()) {
+    return 'pending'
+  }
+
+  // If due date has passed and fee is not fully paid, it's overdue
+  if (dueDate < today) {
+    return 'overdue'
+  }
+
+  // Default to pending
+  return 'pending'
+}
+
+/**
+ * Ensure monthly fees are generated up to (and including) the month that covers "today".
+ *
+ * Rules:
+ * - Next monthly fee is generated ONLY when today > last_period_end_date.
+ * - If multiple months were missed, generate all missing months until today is covered.
+ * - Generation is time-driven (called from getStudentFees), not payment-driven.
+ */
+async function ensureMonthlyFeesUpToDate(studentId: string): Promise<void> {
+  try {
+    // Get the latest monthly fee by period_end_date
+    const { data, error } = await supabaseAdmin
+      .from('student_fees')
+      .select('*')
+      .eq('student_id', studentId)
+      .eq('fee_type', 'monthly')
+      .not('period_end_date', 'is', null)
+      .order('period_end_date', { ascending: false })
+      .limit(1)
+
+    if (error || !data || data.length === 0) {
+      // No monthly fees yet – nothing to extend here
+      return
+    }
+
+    let lastFee = data[0] as StudentFee
+    if (!lastFee.period_end_date) {
+      return
+    }
+
+    let lastPeriodEnd = parseLocalDate(lastFee.period_end_date)
+    const today = new Date()
+    today.setHours(0, 0, 0, 0)
+
+    // Safety guard: don't generate an unbounded number of months in one call
+    let iterations = 0
+    const MAX_MONTHS_TO_GENERATE = 36
+
+    // While today is strictly after the last period end, generate the next period
+    while (lastPeriodEnd < today && iterations < MAX_MONTHS_TO_GENERATE) {
+      const created = await generateNextPeriodFee(studentId, 'monthly', lastFee.period_end_date)
+      if (!created || !created.period_end_date) {
+        break
+      }
+
+      lastFee = created
+      lastPeriodEnd = parseLocalDate(created.period_end_date)
+      iterations += 1
+    }
+  } catch (error) {
+    logger.error('Unexpected error ensuring monthly fees are up to date', error as Error, { studentId })
+  }
+}
+
+/**
+ * Ensure yearly fees are generated up to date following these rules:
+ *
+ * - Next yearly fee should become visible when today >= (period_end_date - 1 month).
+ * - Only one yearly fee per yearly period.
+ * - If multiple years were missed, generate all missing yearly fees until today is covered.
+ *
+ * This is called from getStudentFees (time-driven), not from payments.
+ */
+async function ensureYearlyFeesUpToDate(studentId: string): Promise<void> {
+  try {
+    // Respect student's payment preference – only work for yearly plans
+    const prefResult = await getStudentPaymentPreference(studentId)
+    if (!prefResult.preference || prefResult.preference.payment_type !== 'yearly') {
+      return
+    }
+
+    // Get latest yearly fee (any status) by period_end_date
+    const { data, error } = await supabaseAdmin
+      .from('student_fees')
+      .select('*')
+      .eq('student_id', studentId)
+      .eq('fee_type', 'yearly')
+      .not('period_end_date', 'is', null)
+      .order('period_end_date', { ascending: false })
+      .limit(1)
+
+    if (error || !data || data.length === 0) {
+      // No yearly fees yet – nothing to extend here
+      return
+    }
+
+    let lastFee = data[0] as StudentFee
+    if (!lastFee.period_end_date) {
+      return
+    }
+
+    let lastPeriodEndStr = lastFee.period_end_date
+    const today = new Date()
+    today.setHours(0, 0, 0, 0)
+
+    let iterations = 0
+    const MAX_YEARS_TO_GENERATE = 10
+
+    while (iterations < MAX_YEARS_TO_GENERATE) {
+      const lastPeriodEnd = parseLocalDate(lastPeriodEndStr)
+      const oneMonthBefore = subtractMonths(lastPeriodEnd, 1)
+
+      // If today is before one month before the current period end AND
+      // the current period still covers today, we are up to date
+      if (today < oneMonthBefore && today <= lastPeriodEnd) {
+        break
+      }
+
+      // If today is before one month before but already after lastPeriodEnd,
+      // we are historically behind – still generate the next period.
+      if (today >= oneMonthBefore) {
+        const created = await generateNextPeriodFee(studentId, 'yearly', lastPeriodEndStr)
+        if (!created || !created.period_end_date) {
+          break
+        }
+        lastFee = created
+        lastPeriodEndStr = created.period_end_date
+        iterations += 1
+
+        // After generating the next year's fee, loop again to see if more are needed
+        continue
+      }
+
+      break
+    }
+  } catch (error) {
+    logger.error('Unexpected error ensuring yearly fees are up to date', error as Error, { studentId })
+  }
+}
+
+/**
+ * Late fee for an outstanding balance under a policy (capped, never negative)
+ */
+function calculateLateFee(policy: LateFeePolicy, outstanding: number): number {
+  const penalty =
+    policy.penalty_type === 'percentage' ? Math.round(outstanding * policy.value) / 100 : policy.value
+  return policy.max_amount !== null ? Math.min(penalty, policy.max_amount) : penalty
+}
+
+/**
+ * Create late fee penalties for unpaid fees that are past their grace period.
+ *
+ * Rules:
+ * - A fee crosses its grace period when today > due_date + grace_days.
+ * - Each fee gets at most one penalty (late fees never attract late fees).
+ * - The penalty is due immediately and is linked to the late fee via parent_fee_id.
+ * - Only fees whose grace period ends on or after the day the policy was set are penalised,
+ *   so turning late fees on does not back-charge old debts.
+ * - Only active students are penalised.
+ * - Run by the daily scheduled job (runScheduledFeeReminders), never when fees are read.
+ */
+export async function ensureLateFeesApplied(): Promise<void> {
+  try {
+    const { policy } = await getLateFeePolicy()
+    if (!policy) {
+      return
+    }
+
+    const today = new Date()
+    today.setHours(0, 0, 0, 0)
+    const cutoff = new Date(today)
+    cutoff.setDate(cutoff.getDate() - policy.grace_days)
+    const cutoffStr = formatLocalDate(cutoff)
+    const policyStart = addDaysToDateString(formatLocalDate(new Date(policy.created_at)), -policy.grace_days)
+
+    const { data: lateFees, error } = await supabaseAdmin
+      .from('student_fees')
+      .select('id, student_id, amount, paid_amount, due_date, student:students!inner(is_active)')
+      .in('status', ['pending', 'overdue'])
+      .neq('fee_type', 'late_fee')
+      .eq('student.is_active', true)
+      .gte('due_date', policyStart)
+      .lt('due_date', cutoffStr)
+
+    if (error) {
+      logger.error('Error fetching fees for late fee penalties', error as Error)
+      return
+    }
+    if (!lateFees || lateFees.length === 0) {
+      return
+    }
+
+    const { data: existingPenalties } = await supabaseAdmin
+      .from('student_fees')
+      .select('parent_fee_id')
+      .eq('fee_type', 'late_fee')
+      .in(
+        'parent_fee_id',
+        lateFees.map((fee) => fee.id)
+      )
+    const penalised = new Set((existingPenalties || []).map((p) => p.parent_fee_id))
+
+    const todayStr = formatLocalDate(today)
+    for (const fee of lateFees) {
+      const outstanding = fee.amount - (fee.paid_amount || 0)
+      if (penalised.has(fee.id) || outstanding <= 0) {
+        continue
+      }
+
+      const penalty = calculateLateFee(policy, outstanding)
+      if (penalty <= 0) {
+        continue
+      }
+
+      // unique_late_fee_per_parent rejects a duplicate if another request got there first
+      const result = await createStudentFee({
+        studentId: fee.student_id,
+        feeType: 'late_fee',
+        amount: penalty,
+        dueDate: todayStr,
+        parentFeeId: fee.id,
+      })
+
+      if (result.fee) {
+        logger.info('Late fee applied', { studentId: fee.student_id, parentFeeId: fee.id, amount: penalty })
+      }
+    }
+  } catch (error) {
+    logger.error('Unexpected error applying late fees', error as Error)
+  }
+}
+
+/**
+ * Get all fees for a student
+ */
+export async function getStudentFees(
+  studentId: string,
+  options?: {
+    status?: FeeStatus | 'all'
+    feeType?: FeeType | 'all'
+  }
+): Promise<{ fees: StudentFee[]; error: null } | { fees: null; error: Error }> {
+  try {
+    // TIME-DRIVEN BILLING ENGINE
+    // Before reading fees, make sure monthly and yearly fees are generated
+    // up to the current date according to the billing rules.
+    await ensureMonthlyFeesUpToDate(studentId)
+    await ensureYearlyFeesUpToDate(studentId)
+
+    let query = supabaseAdmin.from('student_fees').select('*').eq('student_id', studentId)
+
+    if (options?.status && options.status !== 'all') {
+      query = query.eq('status', options.status)
+    }
+
+    if (options?.feeType && options.feeType !== 'all') {
+      query = query.eq('fee_type', options.feeType)
+    }
+
+    const { data, error } = await query.order('due_date', { ascending: false })
+
+    if (error) {
+      logger.error('Error fetching student fees', error as Error)
+      return { fees: null, error: new Error(error.message) }
+    }
+
+    // Correct status for each fee based on due date
+    const correctedFees = (data || []).map((fee: StudentFee) => {
+      const correctStatus = getCorrectFeeStatus(fee)
+      // If status is incorrect, update it in the database (async, don't wait)
+      if (fee.status !== correctStatus && fee.status !== 'paid') {
+        // Only update if it's not paid (paid status should never change)
+        // Log the correction for debugging
+        logger.debug('Correcting fee status in getStudentFees', {
+          feeId: fee.id,
+          oldStatus: fee.status,
+          newStatus: correctStatus,
+          dueDate: fee.due_date,
+          today: todayDateString(),
+        })
+        Promise.resolve(
+          supabaseAdmin
+            .from('student_fees')
+            .update({ status: correctStatus })
+            .eq('id', fee.id)
+        )
+          .then(() => {
+            logger.debug('Fee status corrected in database', { feeId: fee.id, newStatus: correctStatus })
+          })
+          .catch((err) => {
+            logger.error('Error correcting fee status in database', err as Error, { feeId: fee.id })
+          })
+      }
+      // Always return the corrected status in the response, even if DB update is pending
+      return { ...fee, status: correctStatus }
+    })
+
+    return { fees: correctedFees as StudentFee[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching student fees', error as Error)
+    return {
+      fees: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch student fees'),
+    }
+  }
+}
+
+/**
+ * Record payment for a student fee
+ * The receipt number is allocated by the database (per-branch sequence) and returned
+ * with the new ledger entry
+ */
+export async function recordPayment(
+  studentFeeId: string,
+  paymentData: {
+    amount: number
+    paymentMethod: string
+    notes?: string | null
+    paymentReference?: string | null // UPI transaction reference (UTR)
+    excessToCredit?: boolean // Keep any amount above the remaining balance as student credit
+    recordedById: string | null // null when the system records it (credit applied to a new fee)
+  }
+): Promise<{ success: boolean; payment: FeePayment | null; error: null } | { success: false; payment: null; error: Error }> {
+  try {
+    // Get current fee
+    const { data: fee, error: fetchError } = await supabaseAdmin
+      .from('student_fees')
+      .select('*')
+      .eq('id', studentFeeId)
+      .single()
+
+    if (fetchError || !fee) {
+      logger.error('Error fetching student fee for payment', fetchError as Error)
+      return { success: false, payment: null, error: new Error('Student fee not found') }
+    }
+
+    if (fee.status === 'paid') {
+      return { success: false, payment: null, error: new Error('Fee is already paid') }
+    }
+
+    if (fee.status === 'waived') {
+      return { success: false, payment: null, error: new Error('Fee has been waived') }
+    }
+
+    // Validate payment amount
+    if (paymentData.amount <= 0) {
+      return { success: false, payment: null, error: new Error('Payment amount must be greater than zero') }
+    }
+
+    const currentPaidAmount = fee.paid_amount || 0
+    const remainingAmount = Math.round((fee.amount - currentPaidAmount) * 100) / 100
+
+    // Overpayment: settle the fee and keep the rest as credit
+    const excessAmount =
+      paymentData.excessToCredit && paymentData.amount > remainingAmount
+        ? Math.round((paymentData.amount - remainingAmount) * 100) / 100
+        : 0
+    const paymentAmount = paymentData.amount - excessAmount
+
+    if (paymentAmount > remainingAmount || paymentAmount <= 0) {
+      return {
+        success: false,
+        payment: null,
+        error: new Error(`Payment amount (₹${paymentData.amount.toFixed(2)}) exceeds remaining balance (₹${remainingAmount.toFixed(2)})`),
+      }
+    }
+
+    // Each instalment is a ledger row. A trigger recomputes paid_amount, status and paid_at
+    // on student_fees under a row lock, so concurrent payments cannot double count.
+    // Generation of the next period is handled by time-driven helpers
+    // (ensureMonthlyFeesUpToDate / ensureYearlyFeesUpToDate)
+    const { data: payment, error: insertError } = await supabaseAdmin
+      .from('fee_payments')
+      .insert({
+        student_fee_id: studentFeeId,
+        student_id: fee.student_id,
+        amount: paymentAmount,
+        payment_method: paymentData.paymentMethod,
+        notes: paymentData.notes || null,
+        payment_reference: paymentData.paymentReference?.trim() || null,
+        recorded_by_id: paymentData.recordedById,
+      })
+      .select()
+      .single()
+
+    if (insertError) {
+      logger.error('Error recording payment', insertError as Error)
+      // unique_active_payment_reference: this UPI transfer is already on the ledger
+      if (insertError.code === '23505' && insertError.message.includes('unique_active_payment_reference')) {
+        return {
+          success: false,
+          payment: null,
+          error: new Error(`Payment reference ${paymentData.paymentReference} has already been recorded`),
+        }
+      }
+      // check_paid_amount_not_exceed: another instalment was recorded concurrently
+      if (insertError.code === '23514') {
+        return {
+          success: false,
+          payment: null,
+          error: new Error('Payment conflict: Another payment was recorded simultaneously. Please try again.'),
+        }
+      }
+      return { success: false, payment: null, error: new Error(insertError.message) }
+    }
+
+    if (excessAmount > 0) {
+      const creditResult = await addCreditTransaction({
+        studentId: fee.student_id,
+        amount: excessAmount,
+        source: 'overpayment',
+        paymentMethod: paymentData.paymentMethod,
+        studentFeeId,
+        feePaymentId: payment.id,
+        notes: `Overpayment on receipt #${payment.receipt_number || payment.id}`,
+        createdById: paymentData.recordedById,
+      })
+      if (creditResult.error) {
+        // Don't leave the fee settled with the excess recorded nowhere
+        logger.error('Overpayment credit could not be added, removing payment', creditResult.error, {
+          studentFeeId,
+          excessAmount,
+        })
+        await supabaseAdmin.from('fee_payments').delete().eq('id', payment.id)
+        return {
+          success: false,
+          payment: null,
+          error: new Error(`Payment not recorded: the excess ₹${excessAmount.toFixed(2)} could not be added as credit`),
+        }
+      }
+    }
+
+    logger.info('Payment recorded successfully', {
+      studentFeeId,
+      amount: paymentAmount,
+      creditAdded: excessAmount,
+      receiptNumber: payment.receipt_number,
+    })
+    return { success: true, payment: payment as FeePayment, error: null }
+  } catch (error) {
+    logger.error('Unexpected error recording payment', error as Error)
+    return {
+      success: false,
+      payment: null,
+      error: error instanceof Error ? error : new Error('Failed to record payment'),
+    }
+  }
+}
+
+/**
+ * Record a batch of payments (statement imports, UPI reconciliation)
+ * Each entry is recorded independently; one failure does not stop the rest
+ */
+export async function recordBulkPayments(
+  entries: Array<{
+    studentFeeId: string
+    amount: number
+    paymentMethod: string
+    paymentReference?: string | null
+    notes?: string | null
+  }>,
+  recordedById: string
+): Promise<
+  | {
+      results: Array<{ studentFeeId: string; payment: FeePayment | null; error: string | null }>
+      error: null
+    }
+  | { results: null; error: Error }
+> {
+  try {
+    if (!Array.isArray(entries) || entries.length === 0) {
+      return { results: null, error: new Error('No payments to record') }
+    }
+
+    const results = []
+    for (const entry of entries) {
+      const result = await recordPayment(entry.studentFeeId, {
+        amount: entry.amount,
+        paymentMethod: entry.paymentMethod,
+        paymentReference: entry.paymentReference,
+        notes: entry.notes,
+        recordedById,
+      })
+      results.push({
+        studentFeeId: entry.studentFeeId,
+        payment: result.payment,
+        error: result.error ? result.error.message : null,
+      })
+    }
+
+    logger.info('Bulk payments recorded', {
+      total: entries.length,
+      recorded: results.filter((r) => !r.error).length,
+    })
+    return { results, error: null }
+  } catch (error) {
+    logger.error('Unexpected error recording bulk payments', error as Error)
+    return {
+      results: null,
+      error: error instanceof Error ? error : new Error('Failed to record payments'),
+    }
+  }
+}
+
+/**
+ * Record a batch of UPI payments matched to fees during reconciliation
+ * Every entry needs its UPI reference, so a transfer cannot be recorded twice
+ */
+export async function recordUpiPayments(
+  entries: Array<{ studentFeeId: string; amount: number; reference: string }>,
+  recordedById: string
+): Promise<
+  | {
+      results: Array<{ reference: string; studentFeeId: string; payment: FeePayment | null; error: string | null }>
+      error: null
+    }
+  | { results: null; error: Error }
+> {
+  if (!Array.isArray(entries) || entries.length === 0) {
+    return { results: null, error: new Error('No payments to record') }
+  }
+  if (entries.some((entry) => !entry.reference?.trim())) {
+    return { results: null, error: new Error('UPI reference is required for every payment') }
+  }
+
+  const result = await recordBulkPayments(
+    entries.map((entry) => ({
+      studentFeeId: entry.studentFeeId,
+      amount: entry.amount,
+      paymentMethod: 'upi',
+      paymentReference: entry.reference,
+      notes: `UPI ref ${entry.reference.trim()}`,
+    })),
+    recordedById
+  )
+  if (result.error) return { results: null, error: result.error }
+
+  return {
+    results: result.results.map((r, index) => ({ ...r, reference: entries[index].reference })),
+    error: null,
+  }
+}
+
+/**
+ * Insert a movement on a student's credit balance
+ */
+async function addCreditTransaction(entry: {
+  studentId: string
+  amount: number
+  source: CreditSource
+  paymentMethod?: string | null
+  studentFeeId?: string | null
+  feePaymentId?: string | null
+  notes?: string | null
+  createdById?: string | null
+}): Promise<{ transaction: StudentCreditTransaction | null; error: null } | { transaction: null; error: Error }> {
+  const { data, error } = await supabaseAdmin
+    .from('student_credit_transactions')
+    .insert({
+      student_id: entry.studentId,
+      amount: entry.amount,
+      source: entry.source,
+      payment_method: entry.paymentMethod || null,
+      student_fee_id: entry.studentFeeId || null,
+      fee_payment_id: entry.feePaymentId || null,
+      notes: entry.notes || null,
+      created_by_id: entry.createdById || null,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    logger.error('Error adding credit transaction', error as Error, { studentId: entry.studentId, source: entry.source })
+    // check_student_credit_balance: the movement would take the balance below zero
+    if (error.message.includes('insufficient_student_credit')) {
+      return { transaction: null, error: new Error('Not enough credit balance') }
+    }
+    return { transaction: null, error: new Error(error.message) }
+  }
+  return { transaction: data as StudentCreditTransaction, error: null }
+}
+
+/**
+ * Pay a newly created fee from the student's credit balance, as far as it goes
+ * The credit used is a fee_payments row (payment_method 'credit') plus a negative credit movement.
+ * The database rejects the movement if the balance was spent in the meantime (e.g. by a fee
+ * created at the same time), and the payment is then removed again.
+ * Returns the fee as it stands afterwards.
+ */
+async function applyStudentCredit(fee: StudentFee): Promise<StudentFee> {
+  try {
+    const balanceDue = Math.round((fee.amount - (fee.paid_amount || 0)) * 100) / 100
+    if (balanceDue <= 0 || fee.status === 'paid' || fee.status === 'waived') return fee
+
+    const creditResult = await getStudentCredit(fee.student_id)
+    if (creditResult.error || creditResult.balance <= 0) return fee
+
+    const amount = Math.min(creditResult.balance, balanceDue)
+    const paymentResult = await recordPayment(fee.id, {
+      amount,
+      paymentMethod: 'credit',
+      notes: 'Paid from credit balance',
+      recordedById: null,
+    })
+    if (paymentResult.error || !paymentResult.payment) {
+      logger.error('Error applying credit to fee', paymentResult.error as Error, { feeId: fee.id })
+      return fee
+    }
+
+    const usedResult = await addCreditTransaction({
+      studentId: fee.student_id,
+      amount: -amount,
+      source: 'applied',
+      studentFeeId: fee.id,
+      feePaymentId: paymentResult.payment.id,
+      notes: `Applied to ${fee.fee_type.replace('_', ' ')} fee due ${fee.due_date}`,
+    })
+    if (usedResult.error) {
+      // Don't leave a fee paid with credit that was never deducted
+      logger.warn('Credit could not be deducted, removing credit payment', { feeId: fee.id, amount })
+      await supabaseAdmin.from('fee_payments').delete().eq('id', paymentResult.payment.id)
+      return fee
+    }
+
+    const { data: updated } = await supabaseAdmin.from('student_fees').select('*').eq('id', fee.id).single()
+    logger.info('Credit applied to fee', { feeId: fee.id, studentId: fee.student_id, amount })
+    return (updated as StudentFee) || fee
+  } catch (error) {
+    logger.error('Unexpected error applying credit to fee', error as Error, { feeId: fee.id })
+    return fee
+  }
+}
+
+/**
+ * Grant a student credit as a discount (e.g. a concession agreed after fees were raised)
+ * It is used up automatically by the next fee created for the student
+ */
+export async function grantStudentCredit(
+  studentId: string,
+  data: { amount: number; notes: string },
+  grantedById: string
+): Promise<{ transaction: StudentCreditTransaction | null; error: null } | { transaction: null; error: Error }> {
+  try {
+    if (!(data.amount > 0)) {
+      return { transaction: null, error: new Error('Credit amount must be greater than zero') }
+    }
+    if (!data.notes?.trim()) {
+      return { transaction: null, error: new Error('A reason is required') }
+    }
+
+    const result = await addCreditTransaction({
+      studentId,
+      amount: Math.round(data.amount * 100) / 100,
+      source: 'discount',
+      notes: data.notes.trim(),
+      createdById: grantedById,
+    })
+    if (result.error) return { transaction: null, error: result.error }
+
+    logger.info('Student credit granted', { studentId, amount: data.amount })
+    return { transaction: result.transaction, error: null }
+  } catch (error) {
+    logger.error('Unexpected error granting student credit', error as Error)
+    return {
+      transaction: null,
+      error: error instanceof Error ? error : new Error('Failed to grant credit'),
+    }
+  }
+}
+
+/**
+ * Get a student's credit balance and its movements (newest first)
+ */
+export async function getStudentCredit(
+  studentId: string
+): Promise<
+  | { balance: number; transactions: StudentCreditTransaction[]; error: null }
+  | { balance: null; transactions: null; error: Error }
+> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('student_credit_transactions')
+      .select('*')
+      .eq('student_id', studentId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      logger.error('Error fetching student credit', error as Error)
+      return { balance: null, transactions: null, error: new Error(error.message) }
+    }
+
+    const transactions = (data || []) as StudentCreditTransaction[]
+    const balance = Math.round(transactions.reduce((sum, t) => sum + Number(t.amount), 0) * 100) / 100
+    return { balance, transactions, error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching student credit', error as Error)
+    return {
+      balance: null,
+      transactions: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch student credit'),
+    }
+  }
+}
+
+/**
+ * Record a prepayment covering the next N monthly fees
+ * Unpaid monthly fees are settled first (oldest first); the remaining months are
+ * generated ahead of time with generateNextPeriodFee. Whatever is left after the
+ * N fees are paid in full goes to the student's credit balance.
+ */
+export async function recordPrepayment(
+  studentId: string,
+  data: {
+    months: number
+    amount: number
+    paymentMethod: string
+    paymentReference?: string | null
+    notes?: string | null
+    recordedById: string
+  }
+): Promise<
+  | { allocations: PrepaymentAllocation[]; creditAdded: number; error: null }
+  | { allocations: null; creditAdded: null; error: Error }
+> {
+  try {
+    const MAX_PREPAID_MONTHS = 12
+    if (!Number.isInteger(data.months) || data.months < 1 || data.months > MAX_PREPAID_MONTHS) {
+      return { allocations: null, creditAdded: null, error: new Error(`Months must be between 1 and ${MAX_PREPAID_MONTHS}`) }
+    }
+    if (!(data.amount > 0)) {
+      return { allocations: null, creditAdded: null, error: new Error('Payment amount must be greater than zero') }
+    }
+
+    const prefResult = await getStudentPaymentPreference(studentId)
+    if (prefResult.preference && prefResult.preference.payment_type !== 'monthly') {
+      return { allocations: null, creditAdded: null, error: new Error('Prepayment is only available on the monthly plan') }
+    }
+
+    // Bring generation up to today before looking at what is owed
+    await ensureMonthlyFeesUpToDate(studentId)
+
+    const { data: monthlyFees, error: feesError } = await supabaseAdmin
+      .from('student_fees')
+      .select('*')
+      .eq('student_id', studentId)
+      .eq('fee_type', 'monthly')
+      .not('period_end_date', 'is', null)
+      .order('period_end_date', { ascending: true })
+
+    if (feesError) {
+      logger.error('Error fetching monthly fees for prepayment', feesError as Error)
+      return { allocations: null, creditAdded: null, error: new Error(feesError.message) }
+    }
+
+    const allMonthly = (monthlyFees || []) as StudentFee[]
+    if (allMonthly.length === 0) {
+      return { allocations: null, creditAdded: null, error: new Error('Student has no monthly fees to prepay') }
+    }
+
+    const targets = allMonthly
+      .filter((fee) => (fee.status === 'pending' || fee.status === 'overdue') && fee.amount - (fee.paid_amount || 0) > 0)
+      .slice(0, data.months)
+
+    // Materialise the future months that are not billed yet
+    let lastPeriodEnd = allMonthly[allMonthly.length - 1].period_end_date
+    while (targets.length < data.months) {
+      const created = await generateNextPeriodFee(studentId, 'monthly', lastPeriodEnd)
+      // Stops at an upcoming fee freeze or a plan change
+      if (!created || !created.period_end_date) break
+      lastPeriodEnd = created.period_end_date
+      // Counts as a covered month even if the student's credit already paid it
+      targets.push(created)
+    }
+
+    const reference = data.paymentReference?.trim() || null
+    const noteParts = [`Prepayment for ${data.months} month${data.months === 1 ? '' : 's'}`]
+    if (reference) noteParts.push(`ref ${reference}`)
+    if (data.notes?.trim()) noteParts.push(data.notes.trim())
+    const notes = noteParts.join(' • ')
+
+    const allocations: PrepaymentAllocation[] = []
+    let remaining = Math.round(data.amount * 100) / 100
+    for (const fee of targets) {
+      if (remaining <= 0) break
+      const balance = Math.round((fee.amount - (fee.paid_amount || 0)) * 100) / 100
+      if (balance <= 0) continue
+      const amount = Math.min(balance, remaining)
+
+      const result = await recordPayment(fee.id, {
+        amount,
+        paymentMethod: data.paymentMethod,
+        // A reference can back only one live payment, so it goes on the first instalment
+        paymentReference: allocations.length === 0 ? reference : null,
+        notes,
+        recordedById: data.recordedById,
+      })
+      if (result.error) {
+        logger.error('Error allocating prepayment', result.error, { studentId, feeId: fee.id })
+        if (allocations.length === 0) {
+          return { allocations: null, creditAdded: null, error: result.error }
+        }
+        // Money already received; the unallocated part is kept as credit below
+        break
+      }
+
+      allocations.push({
+        feeId: fee.id,
+        periodStartDate: fee.period_start_date,
+        periodEndDate: fee.period_end_date,
+        amount,
+        receiptNumber: result.payment?.receipt_number || null,
+      })
+      remaining = Math.round((remaining - amount) * 100) / 100
+    }
+
+    let creditAdded = 0
+    if (remaining > 0) {
+      const { error: creditError } = await addCreditTransaction({
+        studentId,
+        amount: remaining,
+        source: 'prepayment',
+        paymentMethod: data.paymentMethod,
+        notes,
+        createdById: data.recordedById,
+      })
+
+      if (creditError) {
+        logger.error('Error adding prepayment remainder to credit', creditError as Error, { studentId, remaining })
+        return {
+          allocations: null,
+          creditAdded: null,
+          error: new Error(
+            `${allocations.length} month(s) were paid, but ₹${remaining.toFixed(2)} could not be added to credit: ${creditError.message}`
+          ),
+        }
+      }
+      creditAdded = remaining
+    }
+
+    logger.info('Prepayment recorded', {
+      studentId,
+      months: data.months,
+      amount: data.amount,
+      feesPaid: allocations.length,
+      creditAdded,
+    })
+    return { allocations, creditAdded, error: null }
+  } catch (error) {
+    logger.error('Unexpected error recording prepayment', error as Error)
+    return {
+      allocations: null,
+      creditAdded: null,
+      error: error instanceof Error ? error : new Error('Failed to record prepayment'),
+    }
+  }
+}
+
+/**
+ * Log a fee audit entry
+ */
+async function logFeeAudit(entry: {
+  studentFeeId: string
+  feePaymentId: string | null
+  action: string
+  reason: string | null
+  oldValues: any
+  newValues: any
+  changedBy: string
+}): Promise<void> {
+  try {
+    await supabaseAdmin.from('fee_audit_logs').insert({
+      student_fee_id: entry.studentFeeId,
+      fee_payment_id: entry.feePaymentId,
+      action: entry.action,
+      reason: entry.reason,
+      old_values: entry.oldValues,
+      new_values: entry.newValues,
+      changed_by: entry.changedBy,
+    })
+  } catch (error) {
+    logger.warn('Failed to log fee audit trail', error as Error)
+    // Don't fail the operation if audit logging fails
+  }
+}
+
+/**
+ * Take an instalment out of the ledger total (reversal or refund)
+ * The row is kept for history; the ledger trigger recomputes paid_amount and status.
+ */
+async function voidPayment(
+  paymentId: string,
+  reversalType: PaymentReversalType,
+  reason: string,
+  changedById: string,
+  refundToCredit = false
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const trimmedReason = reason?.trim()
+    if (!trimmedReason) {
+      return { success: false, error: new Error('A reason is required') }
+    }
+
+    const { data: payment, error: fetchError } = await supabaseAdmin
+      .from('fee_payments')
+      .select('*')
+      .eq('id', paymentId)
+      .single()
+
+    if (fetchError || !payment) {
+      logger.error('Error fetching payment for reversal', fetchError as Error)
+      return { success: false, error: new Error('Payment not found') }
+    }
+
+    if (payment.reversed_at) {
+      return { success: false, error: new Error(`Payment was already ${payment.reversal_type === 'refund' ? 'refunded' : 'reversed'}`) }
+    }
+
+    const { data: feeBefore } = await supabaseAdmin
+      .from('student_fees')
+      .select('paid_amount, status')
+      .eq('id', payment.student_fee_id)
+      .single()
+
+    // Overpayment credit from this payment is withdrawn, unless a refund is kept as credit anyway.
+    // The withdrawal is refused once the credit has been spent, so the payment cannot be voided then.
+    const { data: overpayments } = await supabaseAdmin
+      .from('student_credit_transactions')
+      .select('amount')
+      .eq('fee_payment_id', paymentId)
+      .eq('source', 'overpayment')
+    const overpaidAmount =
+      Math.round((overpayments || []).reduce((sum: number, t: any) => sum + Number(t.amount), 0) * 100) / 100
+
+    let withdrawalId: string | null = null
+    if (overpaidAmount > 0 && !(reversalType === 'refund' && refundToCredit)) {
+      const withdrawal = await addCreditTransaction({
+        studentId: payment.student_id,
+        amount: -overpaidAmount,
+        source: 'withdrawn',
+        studentFeeId: payment.student_fee_id,
+        feePaymentId: paymentId,
+        notes: trimmedReason,
+        createdById: changedById,
+      })
+      if (withdrawal.error || !withdrawal.transaction) {
+        return {
+          success: false,
+          error: new Error(
+            `The ₹${overpaidAmount.toFixed(2)} overpaid with this payment has already been used as credit, so it cannot be voided`
+          ),
+        }
+      }
+      withdrawalId = withdrawal.transaction.id
+    }
+
+    // Only update if not reversed in the meantime
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('fee_payments')
+      .update({
+        reversed_at: new Date().toISOString(),
+        reversed_by_id: changedById,
+        reversal_type: reversalType,
+        reversal_reason: trimmedReason,
+      })
+      .eq('id', paymentId)
+      .is('reversed_at', null)
+      .select('id')
+
+    if (updateError || !updated || updated.length === 0) {
+      if (withdrawalId) {
+        await supabaseAdmin.from('student_credit_transactions').delete().eq('id', withdrawalId)
+      }
+      if (updateError) {
+        logger.error('Error reversing payment', updateError as Error)
+        return { success: false, error: new Error(updateError.message) }
+      }
+      return { success: false, error: new Error('Payment was already reversed') }
+    }
+
+    const { data: feeAfter } = await supabaseAdmin
+      .from('student_fees')
+      .select('paid_amount, status')
+      .eq('id', payment.student_fee_id)
+      .single()
+
+    await logFeeAudit({
+      studentFeeId: payment.student_fee_id,
+      feePaymentId: paymentId,
+      action: reversalType === 'refund' ? 'payment_refunded' : 'payment_reversed',
+      reason: trimmedReason,
+      oldValues: { payment_amount: payment.amount, ...(feeBefore || {}) },
+      newValues: feeAfter || null,
+      changedBy: changedById,
+    })
+
+    // Credit spent on the fee goes back to the student; a refund can also be kept as credit
+    if (payment.payment_method === 'credit' || (reversalType === 'refund' && refundToCredit)) {
+      const creditResult = await addCreditTransaction({
+        studentId: payment.student_id,
+        amount: payment.amount,
+        source: payment.payment_method === 'credit' ? 'restored' : 'refund',
+        paymentMethod: payment.payment_method,
+        studentFeeId: payment.student_fee_id,
+        feePaymentId: paymentId,
+        notes: trimmedReason,
+        createdById: changedById,
+      })
+      if (creditResult.error) {
+        return {
+          success: false,
+          error: new Error(`Payment was voided, but the credit could not be added: ${creditResult.error.message}`),
+        }
+      }
+    }
+
+    logger.info('Payment voided', { paymentId, reversalType, amount: payment.amount, creditWithdrawn: withdrawalId ? overpaidAmount : 0 })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error reversing payment', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to reverse payment'),
+    }
+  }
+}
+
+/**
+ * Reverse a payment recorded by mistake
+ */
+export async function reversePayment(
+  paymentId: string,
+  data: { reason: string; reversedById: string }
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  return voidPayment(paymentId, 'reversal', data.reason, data.reversedById)
+}
+
+/**
+ * Refund a payment (e.g. a student leaving mid-period)
+ * With toCredit the money is kept as student credit instead of being paid back;
+ * otherwise any overpayment credit from the payment is withdrawn and paid back with it
+ */
+export async function refundPayment(
+  paymentId: string,
+  data: { reason: string; refundedById: string; toCredit?: boolean }
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  return voidPayment(paymentId, 'refund', data.reason, data.refundedById, data.toCredit)
+}
+
+/**
+ * Waive an unpaid late fee
+ * Fees with active payments must have those reversed first
+ */
+export async function waiveLateFee(
+  studentId: string,
+  feeId: string,
+  waiver: { reason: string; waivedById: string }
+): Promise<{ fee: StudentFee | null; error: null } | { fee: null; error: Error }> {
+  try {
+    const trimmedReason = waiver.reason?.trim()
+    if (!trimmedReason) {
+      return { fee: null, error: new Error('A reason is required') }
+    }
+
+    const { data: fee, error: fetchError } = await supabaseAdmin
+      .from('student_fees')
+      .select('*')
+      .eq('id', feeId)
+      .eq('student_id', studentId)
+      .single()
+
+    if (fetchError || !fee) {
+      return { fee: null, error: new Error('Student fee not found') }
+    }
+
+    if (fee.fee_type !== 'late_fee') {
+      return { fee: null, error: new Error('Only late fees can be waived') }
+    }
+
+    if (fee.status === 'waived') {
+      return { fee: null, error: new Error('Late fee is already waived') }
+    }
+
+    if ((fee.paid_amount || 0) > 0) {
+      return { fee: null, error: new Error('Reverse the payments on this late fee before waiving it') }
+    }
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('student_fees')
+      .update({
+        status: 'waived',
+        waived_at: new Date().toISOString(),
+        waived_by_id: waiver.waivedById,
+        waiver_reason: trimmedReason,
+      })
+      .eq('id', feeId)
+      .select()
+      .single()
+
+    if (updateError || !updated) {
+      logger.error('Error waiving late fee', updateError as Error)
+      return { fee: null, error: new Error(updateError?.message || 'Failed to waive late fee') }
+    }
+
+    await logFeeAudit({
+      studentFeeId: feeId,
+      feePaymentId: null,
+      action: 'late_fee_waived',
+      reason: trimmedReason,
+      oldValues: { status: fee.status, amount: fee.amount },
+      newValues: { status: 'waived' },
+      changedBy: waiver.waivedById,
+    })
+
+    logger.info('Late fee waived', { feeId, studentId })
+    return { fee: updated as StudentFee, error: null }
+  } catch (error) {
+    logger.error('Unexpected error waiving late fee', error as Error)
+    return {
+      fee: null,
+      error: error instanceof Error ? error : new Error('Failed to waive late fee'),
+    }
+  }
+}
+
+/**
+ * Get payment history (ledger entries) for a student, newest first
+ * Optionally limited to a single fee
+ */
+export async function getStudentPayments(
+  studentId: string,
+  studentFeeId?: string
+): Promise<{ payments: FeePayment[]; error: null } | { payments: null; error: Error }> {
+  try {
+    let query = supabaseAdmin
+      .from('fee_payments')
+      .select(
+        `
+        *,
+        student_fee:student_fees!fee_payments_student_fee_id_fkey(fee_type, period_start_date, period_end_date)
+      `
+      )
+      .eq('student_id', studentId)
+
+    if (studentFeeId) {
+      query = query.eq('student_fee_id', studentFeeId)
+    }
+
+    const { data, error } = await query.order('paid_at', { ascending: false })
+
+    if (error) {
+      logger.error('Error fetching fee payments', error as Error)
+      return { payments: null, error: new Error(error.message) }
+    }
+
+    return { payments: (data || []) as FeePayment[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching fee payments', error as Error)
+    return {
+      payments: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch payments'),
+    }
+  }
+}
+
+/**
+ * Get everything needed to print a receipt for one payment
+ */
+export async function getPaymentReceipt(
+  paymentId: string
+): Promise<{ receipt: FeeReceipt | null; error: null } | { receipt: null; error: Error }> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('fee_payments')
+      .select(
+        `
+        *,
+        fee:student_fees!fee_payments_student_fee_id_fkey(fee_type, amount, paid_amount, due_date, period_start_date, period_end_date),
+        student:students!fee_payments_student_id_fkey(id, student_id, first_name, last_name, branch:branches(name, code, address, phone))
+      `
+      )
+      .eq('id', paymentId)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error fetching payment receipt', error as Error)
+      return { receipt: null, error: new Error(error.message) }
+    }
+
+    if (!data) {
+      return { receipt: null, error: new Error('Payment not found') }
+    }
+
+    const { fee, student, ...payment } = data as any
+    const { branch, ...studentInfo } = student || {}
+
+    return {
+      receipt: {
+        payment: payment as FeePayment,
+        fee,
+        student: studentInfo,
+        branch: branch || null,
+      },
+      error: null,
+    }
+  } catch (error) {
+    logger.error('Unexpected error fetching payment receipt', error as Error)
+    return {
+      receipt: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch receipt'),
+    }
+  }
+}
+
+/**
+ * Build a fee statement for a student between two dates (YYYY-MM-DD, inclusive)
+ * Charges are dated by due date, payments by the day they were received and waivers by the
+ * day they were granted. Everything before startDate is rolled into the opening balance.
+ * Reversed/refunded payments are left out, as they no longer count towards any fee.
+ */
+export async function getFeeStatement(
+  studentId: string,
+  startDate: string,
+  endDate: string
+): Promise<{ statement: FeeStatement | null; error: null } | { statement: null; error: Error }> {
+  try {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+      return { statement: null, error: new Error('Statement dates must be in YYYY-MM-DD format') }
+    }
+    if (startDate > endDate) {
+      return { statement: null, error: new Error('Statement start date must be before the end date') }
+    }
+
+    const { data: student, error: studentError } = await supabaseAdmin
+      .from('students')
+      .select('id, student_id, first_name, last_name, current_belt, branch:branches(name, code, address, phone)')
+      .eq('id', studentId)
+      .maybeSingle()
+
+    if (studentError) {
+      logger.error('Error fetching student for fee statement', studentError as Error)
+      return { statement: null, error: new Error(studentError.message) }
+    }
+    if (!student) {
+      return { statement: null, error: new Error('Student not found') }
+    }
+
+    // getStudentFees brings monthly/yearly/late fees up to date before reading them
+    const [feesResult, paymentsResult, gradingsResult, creditResult] = await Promise.all([
+      getStudentFees(studentId),
+      getStudentPayments(studentId),
+      supabaseAdmin
+        .from('belt_gradings')
+        .select('*')
+        .eq('student_id', studentId)
+        .gte('grading_date', startDate)
+        .lte('grading_date', endDate)
+        .order('grading_date', { ascending: true }),
+      supabaseAdmin
+        .from('student_credit_transactions')
+        .select('amount')
+        .eq('student_id', studentId)
+        .lte('created_at', `${endDate}T23:59:59.999Z`),
+    ])
+
+    if (feesResult.error) return { statement: null, error: feesResult.error }
+    if (paymentsResult.error) return { statement: null, error: paymentsResult.error }
+    if (gradingsResult.error) {
+      logger.error('Error fetching belt gradings for fee statement', gradingsResult.error as Error)
+      return { statement: null, error: new Error(gradingsResult.error.message) }
+    }
+    if (creditResult.error) {
+      logger.error('Error fetching credit for fee statement', creditResult.error as Error)
+      return { statement: null, error: new Error(creditResult.error.message) }
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100
+    const feesById = new Map(feesResult.fees.map((fee) => [fee.id, fee]))
+    const movements: Omit<StatementEntry, 'balance'>[] = []
+
+    for (const fee of feesResult.fees) {
+      const feeInfo = {
+        feeType: fee.fee_type,
+        periodStartDate: fee.period_start_date,
+        periodEndDate: fee.period_end_date,
+      }
+      movements.push({
+        date: fee.due_date,
+        type: 'charge',
+        ...feeInfo,
+        paymentMethod: null,
+        reference: null,
+        amount: Number(fee.amount),
+      })
+
+      // The unpaid part of a waived fee is written off on the day it was waived
+      const waivedAmount = round(Number(fee.amount) - Number(fee.paid_amount || 0))
+      if (fee.status === 'waived' && waivedAmount > 0) {
+        movements.push({
+          date: (fee.waived_at || fee.updated_at).split('T')[0],
+          type: 'waiver',
+          ...feeInfo,
+          paymentMethod: null,
+          reference: null,
+          amount: waivedAmount,
+        })
+      }
+    }
+
+    for (const payment of paymentsResult.payments) {
+      if (payment.reversed_at) continue
+      const fee = feesById.get(payment.student_fee_id)
+      movements.push({
+        date: payment.paid_at.split('T')[0],
+        type: 'payment',
+        feeType: fee?.fee_type || payment.student_fee?.fee_type || 'monthly',
+        periodStartDate: fee?.period_start_date || null,
+        periodEndDate: fee?.period_end_date || null,
+        paymentMethod: payment.payment_method,
+        reference: payment.receipt_number,
+        amount: Number(payment.amount),
+      })
+    }
+
+    // Same-day ordering: charges first, then payments, then waivers
+    const typeOrder = { charge: 0, payment: 1, waiver: 2 }
+    movements.sort((a, b) => a.date.localeCompare(b.date) || typeOrder[a.type] - typeOrder[b.type])
+
+    const signed = (movement: Omit<StatementEntry, 'balance'>) =>
+      movement.type === 'charge' ? movement.amount : -movement.amount
+
+    const openingBalance = round(
+      movements.filter((m) => m.date < startDate).reduce((sum, m) => sum + signed(m), 0)
+    )
+
+    let balance = openingBalance
+    const entries: StatementEntry[] = movements
+      .filter((m) => m.date >= startDate && m.date <= endDate)
+      .map((m) => {
+        balance = round(balance + signed(m))
+        return { ...m, balance }
+      })
+
+    const total = (type: StatementEntry['type']) =>
+      round(entries.filter((e) => e.type === type).reduce((sum, e) => sum + e.amount, 0))
+
+    const { branch, ...studentInfo } = student as any
+
+    return {
+      statement: {
+        student: studentInfo,
+        branch: branch || null,
+        startDate,
+        endDate,
+        openingBalance,
+        totalCharges: total('charge'),
+        totalPayments: total('payment'),
+        totalWaived: total('waiver'),
+        closingBalance: balance,
+        creditBalance: round((creditResult.data || []).reduce((sum, t) => sum + Number(t.amount), 0)),
+        entries,
+        gradings: (gradingsResult.data || []) as BeltGrading[],
+        generatedAt: new Date().toISOString(),
+      },
+      error: null,
+    }
+  } catch (error) {
+    logger.error('Unexpected error building fee statement', error as Error)
+    return {
+      statement: null,
+      error: error instanceof Error ? error : new Error('Failed to build fee statement'),
+    }
+  }
+}
+
+/**
+ * Generate next period fee for monthly/yearly payments
+ * Periods that would start inside a fee freeze are moved to after the freeze
+ */
+async function generateNextPeriodFee(
+  studentId: string,
+  feeType: 'monthly' | 'yearly',
+  previousPeriodEndDate: string | null
+): Promise<StudentFee | null> {
+  try {
+    if (!previousPeriodEndDate) {
+      logger.warn('Cannot generate next period fee: no previous period end date', { studentId, feeType })
+      return null
+    }
+
+    // Get student's branch and payment preference
+    const { data: student, error: studentError } = await supabaseAdmin
+      .from('students')
+      .select('branch_id, is_active')
+      .eq('id', studentId)
+      .single()
+
+    if (studentError || !student) {
+      logger.error('Error fetching student for next period fee', studentError as Error)
+      return
+    }
+
+    if (!student.is_active) {
+      logger.warn('Cannot generate next period fee for inactive student', { studentId })
+      return
+    }
+
+    // Check payment preference matches fee type
+    const prefResult = await getStudentPaymentPreference(studentId)
+    if (prefResult.preference && prefResult.preference.payment_type !== feeType) {
+      logger.info('Payment preference changed, skipping fee generation', {
+        studentId,
+        feeType,
+        currentPreference: prefResult.preference.payment_type,
+      })
+      return
+    }
+
+    // Skip periods that would start inside a fee freeze
+    const freezeResult = await resolveFeeFreezes(studentId, previousPeriodEndDate)
+
+    // Get enrollment day from payment preference for monthly fees
+    // (or the day billing resumed after a fee freeze, if that is later)
+    let enrollmentDay: number | null = null
+    if (feeType === 'monthly' && prefResult.preference) {
+      const startedFrom = prefResult.preference.started_from
+      const anchorDate =
+        freezeResult.billingResumedOn && freezeResult.billingResumedOn > startedFrom
+          ? freezeResult.billingResumedOn
+          : startedFrom
+      const enrollmentDateObj = parseLocalDate(anchorDate)
+      enrollmentDay = enrollmentDateObj.getDate()
+    }
+    
+    // Parse the previous period end date properly (stored as YYYY-MM-DD)
+    const previousEnd = parseLocalDate(freezeResult.previousPeriodEndDate)
+    
+    let periodStart: Date
+    let periodEnd: Date
+    let dueDate: Date
+
+    if (feeType === 'monthly') {
+      // For monthly fees: due date should always be the enrollment day of the next month
+      // Get the next month's enrollment day
+      const nextMonth = new Date(previousEnd)
+      nextMonth.setMonth(nextMonth.getMonth() + 1)
+      
+      if (enrollmentDay) {
+        // Use enrollment day of next month
+        dueDate = new Date(nextMonth.getFullYear(), nextMonth.getMonth(), enrollmentDay)
+      } else {
+        // Fallback: use the same day as previous period end (shouldn't happen, but safety)
+        dueDate = new Date(nextMonth.getFullYear(), nextMonth.getMonth(), previousEnd.getDate())
+      }
+      
+      dueDate.setHours(0, 0, 0, 0)
+      
+      // Period should cover from previous enrollment day to day before due date
+      // Period start: previous month's enrollment day (or day after previous period end)
+      periodStart = new Date(previousEnd)
+      periodStart.setDate(periodStart.getDate() + 1) // Day after previous period ends
+      periodStart.setHours(0, 0, 0, 0)
+      
+      // Period end: day before due date (end of day)
+      periodEnd = new Date(dueDate)
+      periodEnd.setDate(periodEnd.getDate() - 1)
+      periodEnd.setHours(23, 59, 59, 999)
+    } else {
+      // For yearly fees: period starts the day after previous period ends
+      periodStart = new Date(previousEnd)
+      periodStart.setDate(periodStart.getDate() + 1)
+      periodStart.setHours(0, 0, 0, 0)
+
+      // Calculate period end
+      periodEnd = new Date(periodStart)
+      // yearly - add exactly 1 year
+      const startYear = periodStart.getFullYear()
+      const startMonth = periodStart.getMonth()
+      const startDay = periodStart.getDate()
+      
+      // Set to exactly 1 year later
+      periodEnd.setFullYear(startYear + 1, startMonth, startDay)
+      
+      // Handle leap year edge case (Feb 29 -> Feb 28 in non-leap year)
+      if (periodEnd.getDate() !== startDay) {
+        // Leap year adjustment needed
+        periodEnd.setDate(0) // Go to last day of previous month (Feb 28)
+      }
+      periodEnd.setHours(23, 59, 59, 999) // End of day
+
+      // Due date is one month before period end (available to pay from one month before)
+      // Calculate one month before period end to determine due date
+      const oneMonthBeforeEnd = subtractMonths(periodEnd, 1)
+      dueDate = new Date(oneMonthBeforeEnd)
+      dueDate.setHours(0, 0, 0, 0)
+    }
+
+    const newPeriodStartStr = formatLocalDate(periodStart)
+    const newPeriodEndStr = formatLocalDate(periodEnd)
+
+    // Monthly billing resumes once the freeze is over, not while it is running
+    if (freezeResult.shiftedBy && feeType === 'monthly') {
+      const today = new Date()
+      today.setHours(0, 0, 0, 0)
+      if (periodStart > today) {
+        logger.info('Fee freeze in progress, skipping next period generation', {
+          studentId,
+          freezeId: freezeResult.shiftedBy.id,
+          resumesOn: newPeriodStartStr,
+        })
+        return null
+      }
+    }
+
+    // Get the fee amount in effect when the period starts (branch override or global)
+    const feeResult = await getFeeConfiguration(feeType, null, student.branch_id, newPeriodStartStr)
+    if (feeResult.error || !feeResult.fee) {
+      logger.error('Error fetching fee configuration for next period', feeResult.error || new Error('Fee not found'))
+      return
+    }
+
+    // Strong duplicate protection: check for ANY overlapping period (all statuses)
+    const { data: existingFees } = await supabaseAdmin
+      .from('student_fees')
+      .select('id, period_start_date, period_end_date, status')
+      .eq('student_id', studentId)
+      .eq('fee_type', feeType)
+      .not('period_start_date', 'is', null)
+      .not('period_end_date', 'is', null)
+
+    if (existingFees) {
+      for (const existing of existingFees) {
+        if (
+          existing.period_start_date <= newPeriodEndStr &&
+          existing.period_end_date >= newPeriodStartStr
+        ) {
+          logger.info('Overlapping fee period detected, skipping next period generation', {
+            studentId,
+            feeType,
+            newPeriod: { start: newPeriodStartStr, end: newPeriodEndStr },
+            existingPeriod: {
+              start: existing.period_start_date,
+              end: existing.period_end_date,
+              status: existing.status,
+            },
+          })
+          return null
+        }
+      }
+    }
+
+    // Create next period fee
+    const createdResult = await createStudentFee({
+      studentId,
+      feeType,
+      amount: feeResult.fee.amount,
+      dueDate: formatLocalDate(dueDate),
+      periodStartDate: newPeriodStartStr,
+      periodEndDate: newPeriodEndStr,
+    })
+
+    if (createdResult.error || !createdResult.fee) {
+      logger.error('Error creating next period fee', createdResult.error as Error, {
+        studentId,
+        feeType,
+        periodStart: newPeriodStartStr,
+        periodEnd: newPeriodEndStr,
+      })
+      return null
+    }
+
+    // Later monthly due dates follow the day billing resumed
+    if (freezeResult.shiftedBy && !freezeResult.shiftedBy.billing_resumed_on) {
+      await supabaseAdmin
+        .from('fee_freezes')
+        .update({ billing_resumed_on: newPeriodStartStr })
+        .eq('id', freezeResult.shiftedBy.id)
+    }
+
+    logger.info('Next period fee generated', {
+      studentId,
+      feeType,
+      periodStart: newPeriodStartStr,
+      periodEnd: newPeriodEndStr,
+    })
+    return createdResult.fee
+  } catch (error) {
+    logger.error('Unexpected error generating next period fee', error as Error)
+    return null
+  }
+}
+
+/**
+ * Initialize fees for a new student (registration fee + first monthly/yearly fee)
+ */
+export async function initializeStudentFees(
+  studentId: string,
+  paymentType: PaymentType,
+  enrollmentDate: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    // Set payment preference (use enrollment date for historical record)
+    await setStudentPaymentPreference(studentId, paymentType, enrollmentDate)
+
+    // Parse enrollment date to extract the day of month
+    const enrollmentDateObj = parseLocalDate(enrollmentDate)
+    const enrollmentDay = enrollmentDateObj.getDate() // Get day of month (1-31)
+    const enrollmentMonth = enrollmentDateObj.getMonth() // Get month (0-11)
+    
+    // Get today's date
+    const today = new Date()
+    today.setHours(0, 0, 0, 0)
+    const todayDay = today.getDate()
+    const todayMonth = today.getMonth()
+    const todayYear = today.getFullYear()
+
+    // Fees follow the student's branch (override or global)
+    const { data: student } = await supabaseAdmin
+      .from('students')
+      .select('branch_id')
+      .eq('id', studentId)
+      .single()
+    const branchId = student?.branch_id || null
+
+    // Get registration fee in effect on the enrollment date
+    const regFeeResult = await getFeeConfiguration('registration', null, branchId, enrollmentDate)
+    if (regFeeResult.error || !regFeeResult.fee) {
+      logger.warn('Registration fee not configured')
+    } else {
+      // Create registration fee with enrollment date (historical record)
+      await createStudentFee({
+        studentId,
+        feeType: 'registration',
+        amount: regFeeResult.fee.amount,
+        dueDate: enrollmentDate,
+      })
+    }
+
+    // Get monthly/yearly fee
+    const periodFeeResult = await getFeeConfiguration(paymentType, null, branchId)
+    if (periodFeeResult.error || !periodFeeResult.fee) {
+      logger.warn(`${paymentType} fee not configured`)
+    } else {
+      // Calculate period start date and due date based on enrollment day pattern
+      let periodStart: Date
+      let periodEnd: Date
+      let dueDate: Date
+      
+      if (paymentType === 'monthly') {
+        // For monthly fees: due date should always be the enrollment day of the month
+        // If enrollment day hasn't passed this month, due date is this month
+        // If enrollment day has passed this month, due date is next month
+        
+        if (todayDay < enrollmentDay) {
+          // Enrollment day hasn't passed this month - due date is this month
+          dueDate = new Date(todayYear, todayMonth, enrollmentDay)
+        } else {
+          // Enrollment day has passed this month - due date is next month
+          dueDate = new Date(todayYear, todayMonth + 1, enrollmentDay)
+        }
+        
+        dueDate.setHours(0, 0, 0, 0)
+        
+        // Period should cover from previous enrollment day to day before due date
+        // Period start: previous month's enrollment day
+        periodStart = new Date(dueDate)
+        periodStart.setMonth(periodStart.getMonth() - 1)
+        periodStart.setHours(0, 0, 0, 0)
+        
+        // Period end: day before due date (end of day)
+        periodEnd = new Date(dueDate)
+        periodEnd.setDate(periodEnd.getDate() - 1)
+        periodEnd.setHours(23, 59, 59, 999)
+      } else {
+        // For yearly fees: period should start from enrollment date (or today if enrollment is in the past)
+        const enrollmentYear = enrollmentDateObj.getFullYear()
+        
+        // If enrollment date is today or in the future, start period from enrollment date
+        if (enrollmentDateObj >= today) {
+          // Enrollment is today or future - use enrollment date as period start
+          periodStart = new Date(enrollmentYear, enrollmentMonth, enrollmentDay)
+        } else {
+          // Enrollment is in the past - align with enrollment day but use current or next year
+          if (todayMonth < enrollmentMonth || (todayMonth === enrollmentMonth && todayDay < enrollmentDay)) {
+            // Enrollment day hasn't passed this year - use current year with enrollment month/day
+            periodStart = new Date(todayYear, enrollmentMonth, enrollmentDay)
+          } else {
+            // Enrollment day has passed this year - use next year with enrollment month/day
+            periodStart = new Date(todayYear + 1, enrollmentMonth, enrollmentDay)
+          }
+        }
+        
+        periodStart.setHours(0, 0, 0, 0)
+        
+        // Calculate period end date
+        periodEnd = new Date(periodStart)
+        // yearly - add exactly 1 year
+        const startYear = periodStart.getFullYear()
+        const startMonth = periodStart.getMonth()
+        const startDay = periodStart.getDate()
+        
+        // Set to exactly 1 year later
+        periodEnd.setFullYear(startYear + 1, startMonth, startDay)
+        
+        // Handle leap year edge case (Feb 29 -> Feb 28 in non-leap year)
+        if (periodEnd.getDate() !== startDay) {
+          // Leap year adjustment needed
+          periodEnd.setDate(0) // Go to last day of previous month (Feb 28)
+        }
+        periodEnd.setHours(23, 59, 59, 999) // End of day
+
+        // Due date is the enrollment date (immediate collection on first day)
+        // For initial yearly fee, collect on enrollment date
+        // Next yearly fee will be due one month before period end (handled by ensureUpcomingYearlyFee)
+        dueDate = new Date(periodStart) // Use period start (enrollment date) as due date
+        dueDate.setHours(0, 0, 0, 0)
+      }
+
+      // Charge the rate in effect when the period starts (falls back to today's rate)
+      const periodStartStr = formatLocalDate(periodStart)
+      const periodRateResult = await getFeeConfiguration(paymentType, null, branchId, periodStartStr)
+      const periodAmount = periodRateResult.fee?.amount ?? periodFeeResult.fee.amount
+
+      // Create first period fee
+      await createStudentFee({
+        studentId,
+        feeType: paymentType,
+        amount: periodAmount,
+        dueDate: formatLocalDate(dueDate),
+        periodStartDate: periodStartStr,
+        periodEndDate: formatLocalDate(periodEnd),
+      })
+
+      logger.info('Student fees initialized with aligned period', {
+        studentId,
+        paymentType,
+        enrollmentDate,
+        enrollmentDay,
+        periodStart: formatLocalDate(periodStart),
+        periodEnd: formatLocalDate(periodEnd),
+        dueDate: formatLocalDate(dueDate),
+      })
+    }
+
+    logger.info('Student fees initialized', { studentId, paymentType, enrollmentDate })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error initializing student fees', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to initialize student fees'),
+    }
+  }
+}
+
+/**
+ * Record belt grading and create grading fee
+ * Used for each candidate promoted from a grading session (gradingSessionId)
+ */
+export async function recordBeltGrading(data: {
+  studentId: string
+  fromBelt: string
+  toBelt: string
+  gradingDate: string
+  createdById: string
+  gradingSessionId?: string | null
+}): Promise<{ grading: BeltGrading | null; fee: StudentFee | null; error: null } | { grading: null; fee: null; error: Error }> {
+  try {
+    // Get student's branch and current belt
+    const { data: student, error: studentError } = await supabaseAdmin
+      .from('students')
+      .select('branch_id, current_belt, is_active')
+      .eq('id', data.studentId)
+      .single()
+
+    if (studentError || !student) {
+      logger.error('Error fetching student for belt grading', studentError as Error)
+      return { grading: null, fee: null, error: new Error('Student not found') }
+    }
+
+    if (!student.is_active) {
+      return { grading: null, fee: null, error: new Error('Cannot grade belt for inactive student') }
+    }
+
+    // Validate from_belt matches current_belt
+    if (student.current_belt !== data.fromBelt) {
+      logger.warn('Belt mismatch in grading', {
+        studentId: data.studentId,
+        currentBelt: student.current_belt,
+        fromBelt: data.fromBelt,
+      })
+      return {
+        grading: null,
+        fee: null,
+        error: new Error(`Student's current belt is ${student.current_belt}, not ${data.fromBelt}`),
+      }
+    }
+
+    // Get grading fee for the TO belt (the belt they're upgrading to) in effect on the grading date
+    const gradingFeeResult = await getFeeConfiguration('grading', data.toBelt, student.branch_id, data.gradingDate)
+    if (gradingFeeResult.error || !gradingFeeResult.fee) {
+      logger.warn('Grading fee not configured for belt', { belt: data.toBelt })
+    }
+
+    // Create belt grading record
+    const { data: grading, error: gradingError } = await supabaseAdmin
+      .from('belt_gradings')
+      .insert({
+        student_id: data.studentId,
+        from_belt: data.fromBelt,
+        to_belt: data.toBelt,
+        grading_date: data.gradingDate,
+        fee_amount: gradingFeeResult.fee?.amount || null,
+        grading_session_id: data.gradingSessionId || null,
+        created_by_id: data.createdById,
+      })
+      .select()
+      .single()
+
+    if (gradingError || !grading) {
+      logger.error('Error creating belt grading', gradingError as Error)
+      return { grading: null, fee: null, error: new Error(gradingError?.message || 'Failed to create belt grading') }
+    }
+
+    // Update student's current belt
+    await supabaseAdmin
+      .from('students')
+      .update({ current_belt: data.toBelt })
+      .eq('id', data.studentId)
+
+    // Create grading fee if fee is configured
+    let fee: StudentFee | null = null
+    if (gradingFeeResult.fee) {
+      const feeResult = await createStudentFee({
+        studentId: data.studentId,
+        feeType: 'grading',
+        amount: gradingFeeResult.fee.amount,
+        dueDate: data.gradingDate,
+        beltGradingId: grading.id,
+      })
+
+      if (feeResult.fee) {
+        fee = feeResult.fee
+
+        // Update grading record with fee ID
+        await supabaseAdmin
+          .from('belt_gradings')
+          .update({ student_fee_id: fee.id })
+          .eq('id', grading.id)
+      }
+    }
+
+    logger.info('Belt grading recorded successfully', { studentId: data.studentId, fromBelt: data.fromBelt, toBelt: data.toBelt })
+    return { grading: grading as BeltGrading, fee, error: null }
+  } catch (error) {
+    logger.error('Unexpected error recording belt grading', error as Error)
+    return {
+      grading: null,
+      fee: null,
+      error: error instanceof Error ? error : new Error('Failed to record belt grading'),
+    }
+  }
+}
+
+/**
+ * Switch student payment preference (monthly <-> yearly)
+ * Creates first fee of new type immediately with switch date as due date
+ */
+export async function switchPaymentPreference(
+  studentId: string,
+  newPaymentType: PaymentType,
+  switchDate: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    // Validate switch date format
+    let switchDateObj: Date
+    try {
+      switchDateObj = parseLocalDate(switchDate)
+    } catch {
+      return { success: false, error: new Error('Invalid switch date format. Use YYYY-MM-DD') }
+    }
+
+    // Get current preference
+    const currentPrefResult = await getStudentPaymentPreference(studentId)
+    if (currentPrefResult.error) {
+      return { success: false, error: currentPrefResult.error }
+    }
+
+    // If already on this payment type, no change needed
+    if (currentPrefResult.preference?.payment_type === newPaymentType) {
+      return { success: true, error: null }
+    }
+
+    // Get student's branch and current preference
+    const { data: student, error: studentError } = await supabaseAdmin
+      .from('students')
+      .select('branch_id, is_active')
+      .eq('id', studentId)
+      .single()
+
+    if (studentError || !student) {
+      return { success: false, error: new Error('Student not found') }
+    }
+
+    if (!student.is_active) {
+      return { success: false, error: new Error('Cannot switch payment preference for inactive student') }
+    }
+
+    // Get current preference
+    const currentPref = currentPrefResult.preference
+    const oldPaymentType = currentPref?.payment_type
+
+    // Check for pending fees of old type (for logging, but don't modify them)
+    if (oldPaymentType) {
+      const { data: pendingFees } = await supabaseAdmin
+        .from('student_fees')
+        .select('id, fee_type, due_date, amount')
+        .eq('student_id', studentId)
+        .eq('fee_type', oldPaymentType)
+        .in('status', ['pending', 'overdue'])
+
+      if (pendingFees && pendingFees.length > 0) {
+        logger.info('Found pending fees of old payment type (will remain pending for admin to handle)', {
+          studentId,
+          oldType: oldPaymentType,
+          pendingFeesCount: pendingFees.length,
+        })
+      }
+    }
+
+    // Update payment preference
+    await setStudentPaymentPreference(studentId, newPaymentType, switchDate)
+
+    // Get fee configuration for new payment type in effect when the new period starts
+    const feeResult = await getFeeConfiguration(newPaymentType, null, student.branch_id, switchDate)
+    if (feeResult.error || !feeResult.fee) {
+      logger.warn('Fee configuration not found for new payment type, preference updated but no fee created', {
+        studentId,
+        newPaymentType,
+      })
+      return { success: true, error: null } // Still return success, preference is updated
+    }
+
+    // Calculate period and due dates for the first fee of new type
+    let periodStart: Date
+    let periodEnd: Date
+    let dueDate: Date
+
+    if (newPaymentType === 'yearly') {
+      // For yearly: period starts from switch date, ends 1 year later, due date is switch date (immediate collection)
+      periodStart = new Date(switchDateObj)
+      periodStart.setHours(0, 0, 0, 0)
+
+      // Period end: exactly 1 year from switch date, minus 1 day (day before next due date)
+      // Example: Switch date Nov 27, 2025 -> Period end Nov 26, 2026 (day before Nov 27, 2026)
+      const startYear = periodStart.getFullYear()
+      const startMonth = periodStart.getMonth()
+      const startDay = periodStart.getDate()
+
+      // Calculate next year's same date
+      const nextYearDate = new Date(startYear + 1, startMonth, startDay)
+      
+      // Handle leap year edge case (Feb 29 -> Feb 28 in non-leap year)
+      if (nextYearDate.getDate() !== startDay) {
+        nextYearDate.setDate(0) // Go to last day of previous month (Feb 28)
+      }
+
+      // Period end is day before next due date (next year's switch date - 1 day)
+      periodEnd = new Date(nextYearDate)
+      periodEnd.setDate(periodEnd.getDate() - 1)
+      periodEnd.setHours(23, 59, 59, 999)
+
+      // Due date is switch date (immediate collection)
+      dueDate = new Date(switchDateObj)
+      dueDate.setHours(0, 0, 0, 0)
+    } else {
+      // For monthly: period starts from switch date, ends 1 month later, due date is switch date (immediate collection)
+      periodStart = new Date(switchDateObj)
+      periodStart.setHours(0, 0, 0, 0)
+
+      // Period end: exactly 1 month from switch date, minus 1 day
+      periodEnd = new Date(periodStart)
+      periodEnd.setMonth(periodEnd.getMonth() + 1)
+
+      // Handle month overflow (e.g., Jan 31 + 1 month should be Feb 28/29, not Mar 3)
+      if (periodEnd.getDate() !== periodStart.getDate()) {
+        // Date changed due to month overflow, set to last day of target month
+        periodEnd.setDate(0) // Go to last day of previous month
+      }
+
+      // Period end is day before next due date
+      periodEnd.setDate(periodEnd.getDate() - 1)
+      periodEnd.setHours(23, 59, 59, 999)
+
+      // Due date is switch date (immediate collection)
+      dueDate = new Date(switchDateObj)
+      dueDate.setHours(0, 0, 0, 0)
+    }
+
+    // Check if fee already exists for this period (avoid duplicates)
+    const { data: existingFee } = await supabaseAdmin
+      .from('student_fees')
+      .select('id')
+      .eq('student_id', studentId)
+      .eq('fee_type', newPaymentType)
+      .eq('period_start_date', formatLocalDate(periodStart))
+      .eq('period_end_date', formatLocalDate(periodEnd))
+      .maybeSingle()
+
+    if (existingFee) {
+      logger.info('Fee for this period already exists, skipping creation', {
+        studentId,
+        newPaymentType,
+        periodStart: formatLocalDate(periodStart),
+      })
+      return { success: true, error: null }
+    }
+
+    // Create first fee of new payment type
+    const feeCreateResult = await createStudentFee({
+      studentId,
+      feeType: newPaymentType,
+      amount: feeResult.fee.amount,
+      dueDate: formatLocalDate(dueDate),
+      periodStartDate: formatLocalDate(periodStart),
+      periodEndDate: formatLocalDate(periodEnd),
+    })
+
+    if (feeCreateResult.error) {
+      logger.error('Error creating fee after payment preference switch', feeCreateResult.error)
+      // Still return success since preference was updated
+      return { success: true, error: null }
+    }
+
+    logger.info('Payment preference switched and first fee created', {
+      studentId,
+      oldType: oldPaymentType,
+      newType: newPaymentType,
+      switchDate,
+      feeId: feeCreateResult.fee?.id,
+      dueDate: formatLocalDate(dueDate),
+      periodStart: formatLocalDate(periodStart),
+      periodEnd: formatLocalDate(periodEnd),
+    })
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error switching payment preference', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to switch payment preference'),
+    }
+  }
+}
+
+/**
+ * Get all fees (for admin - with filters)
+ */
+export async function getAllFees(options?: {
+  studentId?: string
+  branchId?: string | null
+  status?: FeeStatus | 'all'
+  feeType?: FeeType | 'all'
+  startDate?: string
+  endDate?: string
+}): Promise<{ fees: StudentFee[]; error: null } | { fees: null; error: Error }> {
+  try {
+    let query = supabaseAdmin
+      .from('student_fees')
+      .select(`
+        *,
+        student:students!student_fees_student_id_fkey(
+          id,
+          first_name,
+          last_name,
+          student_id,
+          branch_id,
+          phone,
+          parent_phone
+        )
+      `)
+
+    if (options?.studentId) {
+      query = query.eq('student_id', options.studentId)
+    }
+
+    // Note: Can't filter by nested field directly in Supabase, will filter client-side
+    // if (options?.branchId) {
+    //   query = query.eq('student.branch_id', options.branchId)
+    // }
+
+    if (options?.status && options.status !== 'all') {
+      query = query.eq('status', options.status)
+    }
+
+    if (options?.feeType && options.feeType !== 'all') {
+      query = query.eq('fee_type', options.feeType)
+    }
+
+    if (options?.startDate) {
+      query = query.gte('due_date', options.startDate)
+    }
+
+    if (options?.endDate) {
+      query = query.lte('due_date', options.endDate)
+    }
+
+    const { data, error } = await query.order('due_date', { ascending: false })
+
+    if (error) {
+      logger.error('Error fetching all fees', error as Error)
+      return { fees: null, error: new Error(error.message) }
+    }
+
+    // Filter by branch_id client-side if specified (since Supabase doesn't support nested field filtering)
+    let filteredData = data || []
+    if (options?.branchId) {
+      filteredData = filteredData.filter((fee: any) => fee.student?.branch_id === options.branchId)
+    }
+
+    // Correct status for each fee based on due date
+    const correctedFees = filteredData.map((fee: StudentFee) => {
+      const correctStatus = getCorrectFeeStatus(fee)
+      // If status is incorrect, update it in the database (async, don't wait)
+      if (fee.status !== correctStatus && fee.status !== 'paid') {
+        // Only update if it's not paid (paid status should never change)
+        // Log the correction for debugging
+        logger.debug('Correcting fee status', {
+          feeId: fee.id,
+          oldStatus: fee.status,
+          newStatus: correctStatus,
+          dueDate: fee.due_date,
+          today: todayDateString(),
+        })
+        Promise.resolve(
+          supabaseAdmin
+            .from('student_fees')
+            .update({ status: correctStatus })
+            .eq('id', fee.id)
+        )
+          .then(() => {
+            logger.debug('Fee status corrected in database', { feeId: fee.id, newStatus: correctStatus })
+          })
+          .catch((err) => {
+            logger.error('Error correcting fee status in database', err as Error, { feeId: fee.id })
+          })
+      }
+      // Always return the corrected status in the response, even if DB update is pending
+      return { ...fee, status: correctStatus }
+    })
+
+    return { fees: correctedFees as StudentFee[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching all fees', error as Error)
+    return {
+      fees: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch fees'),
+    }
+  }
+}
+
+/**
+ * Get the active fee reminder schedule, earliest reminder first
+ */
+export async function getReminderPolicies(): Promise<
+  { policies: FeeReminderPolicy[]; error: null } | { policies: null; error: Error }
+> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('fee_reminder_policies')
+      .select('*')
+      .eq('is_active', true)
+      .order('offset_days', { ascending: true })
+
+    if (error) {
+      logger.error('Error fetching fee reminder policies', error as Error)
+      return { policies: null, error: new Error(error.message) }
+    }
+
+    return { policies: (data || []) as FeeReminderPolicy[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching fee reminder policies', error as Error)
+    return {
+      policies: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch reminder policies'),
+    }
+  }
+}
+
+/**
+ * Add a reminder to the schedule, or update one when policy.id is given
+ */
+export async function saveReminderPolicy(
+  policy: {
+    id?: string
+    offsetDays: number
+    channel: ReminderChannel
+    titleTemplate: string
+    messageTemplate: string
+  },
+  createdById: string
+): Promise<{ policy: FeeReminderPolicy | null; error: null } | { policy: null; error: Error }> {
+  try {
+    if (!Number.isInteger(policy.offsetDays) || policy.offsetDays < -60 || policy.offsetDays > 60) {
+      return { policy: null, error: new Error('Reminder day must be between 60 days before and 60 days after the due date') }
+    }
+
+    if (policy.channel !== 'push' && policy.channel !== 'in_app') {
+      return { policy: null, error: new Error('Channel must be push or in-app') }
+    }
+
+    const title = policy.titleTemplate.trim()
+    const message = policy.messageTemplate.trim()
+    if (!title || !message) {
+      return { policy: null, error: new Error('Reminder title and message are required') }
+    }
+    if (title.length > 100) {
+      return { policy: null, error: new Error('Reminder title must be 100 characters or less') }
+    }
+
+    const values = {
+      offset_days: policy.offsetDays,
+      channel: policy.channel,
+      title_template: title,
+      message_template: message,
+    }
+
+    const { data, error } = policy.id
+      ? await supabaseAdmin
+          .from('fee_reminder_policies')
+          .update(values)
+          .eq('id', policy.id)
+          .eq('is_active', true)
+          .select()
+          .maybeSingle()
+      : await supabaseAdmin
+          .from('fee_reminder_policies')
+          .insert({ ...values, is_active: true, created_by_id: createdById })
+          .select()
+          .single()
+
+    if (error) {
+      logger.error('Error saving fee reminder policy', error as Error)
+      if (error.code === '23505') {
+        return { policy: null, error: new Error('There is already a reminder on that day for this channel') }
+      }
+      return { policy: null, error: new Error(error.message) }
+    }
+
+    if (!data) {
+      return { policy: null, error: new Error('Reminder not found') }
+    }
+
+    logger.info('Fee reminder policy saved', { policyId: data.id, offsetDays: policy.offsetDays, channel: policy.channel })
+    return { policy: data as FeeReminderPolicy, error: null }
+  } catch (error) {
+    logger.error('Unexpected error saving fee reminder policy', error as Error)
+    return {
+      policy: null,
+      error: error instanceof Error ? error : new Error('Failed to save reminder policy'),
+    }
+  }
+}
+
+/**
+ * Remove a reminder from the schedule (kept, inactive, for the delivery history)
+ */
+export async function removeReminderPolicy(
+  policyId: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { error } = await supabaseAdmin
+      .from('fee_reminder_policies')
+      .update({ is_active: false })
+      .eq('id', policyId)
+
+    if (error) {
+      logger.error('Error removing fee reminder policy', error as Error)
+      return { success: false, error: new Error(error.message) }
+    }
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error removing fee reminder policy', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to remove reminder policy'),
+    }
+  }
+}
+
+/**
+ * Get unpaid fees a reminder is due for today
+ * That is fees due offset_days from today (e.g. offset -3 = due in 3 days) that have not
+ * had this reminder yet
+ */
+export async function getFeesDueForReminder(
+  policyId: string
+): Promise<{ fees: StudentFee[]; error: null } | { fees: null; error: Error }> {
+  try {
+    const { data: policy, error: policyError } = await supabaseAdmin
+      .from('fee_reminder_policies')
+      .select('id, offset_days')
+      .eq('id', policyId)
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (policyError) {
+      logger.error('Error fetching fee reminder policy', policyError as Error)
+      return { fees: null, error: new Error(policyError.message) }
+    }
+    if (!policy) {
+      return { fees: null, error: new Error('Reminder not found') }
+    }
+
+    const dueDate = addDaysToDateString(todayDateString(), -policy.offset_days)
+
+    const { data, error } = await supabaseAdmin
+      .from('student_fees')
+      .select('*')
+      .in('status', ['pending', 'overdue'])
+      .eq('due_date', dueDate)
+
+    if (error) {
+      logger.error('Error fetching fees due for reminder', error as Error)
+      return { fees: null, error: new Error(error.message) }
+    }
+
+    const unpaid = ((data || []) as StudentFee[]).filter((fee) => fee.amount - (fee.paid_amount || 0) > 0)
+    if (unpaid.length === 0) {
+      return { fees: [], error: null }
+    }
+
+    const { data: deliveries, error: deliveriesError } = await supabaseAdmin
+      .from('fee_reminder_deliveries')
+      .select('student_fee_id')
+      .eq('policy_id', policyId)
+      .in('student_fee_id', unpaid.map((fee) => fee.id))
+
+    if (deliveriesError) {
+      logger.error('Error fetching fee reminder deliveries', deliveriesError as Error)
+      return { fees: null, error: new Error(deliveriesError.message) }
+    }
+
+    const alreadySent = new Set((deliveries || []).map((d: { student_fee_id: string }) => d.student_fee_id))
+    return { fees: unpaid.filter((fee) => !alreadySent.has(fee.id)), error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching fees due for reminder', error as Error)
+    return {
+      fees: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch fees due for reminder'),
+    }
+  }
+}
+
+const REMINDER_FEE_TYPE_LABELS: Record<FeeType, string> = {
+  registration: 'registration',
+  monthly: 'monthly',
+  yearly: 'yearly',
+  grading: 'grading',
+  late_fee: 'late',
+}
+
+/**
+ * Fill {placeholders} in a reminder template; unknown placeholders are left as they are
+ */
+function renderReminderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(values, key) ? values[key] : match
+  )
+}
+
+/**
+ * The user automated fee notifications are created on behalf of:
+ * the admin who triggered the run, or the first super admin for scheduled runs
+ */
+async function resolveReminderSender(sentById?: string | null): Promise<string | null> {
+  if (sentById) return sentById
+
+  const { data: superAdmin } = await supabaseAdmin
+    .from('profiles')
+    .select('user_id')
+    .eq('role', 'super_admin')
+    .limit(1)
+    .maybeSingle()
+  return superAdmin?.user_id || null
+}
+
+/**
+ * Send every reminder that is due today, following the reminder schedule,
+ * then escalate long-overdue fees to parents and branch admins
+ */
+export async function sendFeeReminders(
+  sentById?: string | null
+): Promise<
+  | { sent: number; failed: number; escalated: number; error: null }
+  | { sent: null; failed: null; escalated: null; error: Error }
+> {
+  try {
+    const createdBy = await resolveReminderSender(sentById)
+    if (!createdBy) {
+      return { sent: null, failed: null, escalated: null, error: new Error('No super admin found to send reminders from') }
+    }
+
+    const policiesResult = await getReminderPolicies()
+    if (policiesResult.error) {
+      return { sent: null, failed: null, escalated: null, error: policiesResult.error }
+    }
+
+    let sent = 0
+    let failed = 0
+
+    for (const policy of policiesResult.policies) {
+      const feesResult = await getFeesDueForReminder(policy.id)
+      if (feesResult.error) {
+        logger.error('Error finding fees for reminder', feesResult.error, { policyId: policy.id })
+        continue
+      }
+      if (feesResult.fees.length === 0) continue
+
+      const { data: students } = await supabaseAdmin
+        .from('students')
+        .select('id, first_name, last_name, user_id, is_active')
+        .in('id', [...new Set(feesResult.fees.map((fee) => fee.student_id))])
+      const studentsById = new Map((students || []).map((student: any) => [student.id, student]))
+
+      for (const fee of feesResult.fees) {
+        const student = studentsById.get(fee.student_id)
+        // No app account to notify, or no longer training
+        if (!student || !student.user_id || !student.is_active) continue
+
+        const values = {
+          first_name: student.first_name,
+          student_name: `${student.first_name} ${student.last_name}`,
+          fee_type: REMINDER_FEE_TYPE_LABELS[fee.fee_type] || 'fee',
+          amount: (fee.amount - (fee.paid_amount || 0)).toFixed(2),
+          due_date: parseLocalDate(fee.due_date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }),
+          days: String(Math.abs(policy.offset_days)),
+        }
+
+        const { notification, error } = await createNotification(
+          {
+            title: renderReminderTemplate(policy.title_template, values),
+            message: renderReminderTemplate(policy.message_template, values),
+            type: 'payment',
+            targetType: 'students',
+            targetStudentIds: [fee.student_id],
+          },
+          createdBy,
+          { push: policy.channel === 'push' }
+        )
+
+        if (error || !notification) {
+          failed++
+          logger.error('Error sending fee reminder', error || new Error('No notification created'), {
+            feeId: fee.id,
+            policyId: policy.id,
+          })
+          continue
+        }
+
+        await markReminderSent(fee.id, policy.id, notification.id)
+        sent++
+      }
+    }
+
+    logger.info('Fee reminders sent', { sent, failed })
+
+    const escalationResult = await escalateOverdueFees(createdBy)
+    if (escalationResult.error) {
+      logger.error('Error escalating overdue fees', escalationResult.error)
+    }
+
+    return { sent, failed, escalated: escalationResult.escalated || 0, error: null }
+  } catch (error) {
+    logger.error('Unexpected error sending fee reminders', error as Error)
+    return {
+      sent: null,
+      failed: null,
+      escalated: null,
+      error: error instanceof Error ? error : new Error('Failed to send fee reminders'),
+    }
+  }
+}
+
+/**
+ * Entry point for the daily scheduler, which has no user session
+ * The caller must present FEE_REMINDER_CRON_SECRET
+ */
+export async function runScheduledFeeReminders(
+  secret: string | undefined
+): Promise<
+  | { sent: number; failed: number; escalated: number; error: null }
+  | { sent: null; failed: null; escalated: null; error: Error }
+> {
+  const expected = process.env.FEE_REMINDER_CRON_SECRET
+  if (!expected || secret !== expected) {
+    logger.warn('Rejected scheduled fee reminder run')
+    return { sent: null, failed: null, escalated: null, error: new Error('Invalid reminder secret') }
+  }
+  // Penalties first, so they get their own reminders on schedule
+  await ensureLateFeesApplied()
+  return sendFeeReminders(null)
+}
+
+/**
+ * Get the active overdue escalation policy (null when escalation is off)
+ */
+export async function getOverdueEscalationPolicy(): Promise<
+  { policy: OverdueEscalationPolicy | null; error: null } | { policy: null; error: Error }
+> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('overdue_escalation_policies')
+      .select('*')
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error fetching overdue escalation policy', error as Error)
+      return { policy: null, error: new Error(error.message) }
+    }
+
+    return { policy: (data as OverdueEscalationPolicy) || null, error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching overdue escalation policy', error as Error)
+    return {
+      policy: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch overdue escalation policy'),
+    }
+  }
+}
+
+/**
+ * Replace the overdue escalation policy
+ * The previous policy is deactivated and kept for history
+ */
+export async function setOverdueEscalationPolicy(
+  policy: { parentAfterDays: number; adminAfterDays: number },
+  createdById: string
+): Promise<{ policy: OverdueEscalationPolicy | null; error: null } | { policy: null; error: Error }> {
+  try {
+    if (!Number.isInteger(policy.parentAfterDays) || policy.parentAfterDays < 1) {
+      return { policy: null, error: new Error('Parent notice must be at least 1 day overdue') }
+    }
+
+    if (!Number.isInteger(policy.adminAfterDays) || policy.adminAfterDays <= policy.parentAfterDays) {
+      return { policy: null, error: new Error('Branch admin alert must come after the parent notice') }
+    }
+
+    const disableResult = await disableOverdueEscalationPolicy()
+    if (disableResult.error) {
+      return { policy: null, error: disableResult.error }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('overdue_escalation_policies')
+      .insert({
+        parent_after_days: policy.parentAfterDays,
+        admin_after_days: policy.adminAfterDays,
+        is_active: true,
+        created_by_id: createdById,
+      })
+      .select()
+      .single()
+
+    if (error || !data) {
+      logger.error('Error setting overdue escalation policy', error as Error)
+      return { policy: null, error: new Error(error?.message || 'Failed to set overdue escalation policy') }
+    }
+
+    logger.info('Overdue escalation policy set', policy)
+    return { policy: data as OverdueEscalationPolicy, error: null }
+  } catch (error) {
+    logger.error('Unexpected error setting overdue escalation policy', error as Error)
+    return {
+      policy: null,
+      error: error instanceof Error ? error : new Error('Failed to set overdue escalation policy'),
+    }
+  }
+}
+
+/**
+ * Turn overdue escalation off (stages already reached are kept)
+ */
+export async function disableOverdueEscalationPolicy(): Promise<
+  { success: boolean; error: null } | { success: false; error: Error }
+> {
+  try {
+    const { error } = await supabaseAdmin
+      .from('overdue_escalation_policies')
+      .update({ is_active: false })
+      .eq('is_active', true)
+
+    if (error) {
+      logger.error('Error disabling overdue escalation policy', error as Error)
+      return { success: false, error: new Error(error.message) }
+    }
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error disabling overdue escalation policy', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to disable overdue escalation policy'),
+    }
+  }
+}
+
+/**
+ * Email a parent that their child's fee is overdue
+ * 'no_email' when there is no parent email or the email API is not configured,
+ * 'failed' when the email API could not be reached or returned an error
+ */
+async function sendParentOverdueNotice(
+  student: { first_name: string; last_name: string; parent_name: string | null; parent_email: string | null; branch?: { name: string; phone: string | null } | null },
+  fee: StudentFee,
+  daysOverdue: number
+): Promise<'sent' | 'no_email' | 'failed'> {
+  const emailApiUrl = process.env.EMAIL_API_URL
+  if (!student.parent_email || !emailApiUrl || emailApiUrl === 'https://your-vercel-app.vercel.app') {
+    return 'no_email'
+  }
+
+  try {
+    const emailResponse = await fetch(`${emailApiUrl}/api/email/send-fee-overdue-notice`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        email: student.parent_email,
+        parentName: student.parent_name,
+        studentName: `${student.first_name} ${student.last_name}`,
+        feeType: REMINDER_FEE_TYPE_LABELS[fee.fee_type] || 'fee',
+        amount: (fee.amount - (fee.paid_amount || 0)).toFixed(2),
+        dueDate: fee.due_date,
+        daysOverdue,
+        branchName: student.branch?.name || null,
+        branchPhone: student.branch?.phone || null,
+      }),
+    })
+
+    if (!emailResponse.ok) {
+      logger.warn('Failed to send parent overdue notice', new Error('Email API returned error'))
+      return 'failed'
+    }
+    return 'sent'
+  } catch (emailError) {
+    logger.warn('Failed to send parent overdue notice', emailError as Error)
+    return 'failed'
+  }
+}
+
+/**
+ * Escalate unpaid fees by how long they have been overdue:
+ * parents are emailed after parent_after_days, branch admins are alerted after admin_after_days.
+ * When a parent cannot be emailed (no parent_email) the branch admins are asked to call instead.
+ * When the email API fails the fee keeps its stage and is retried on the next run.
+ * Only fees that reach parent_after_days on or after the day the policy was set are escalated,
+ * so turning escalation on does not alert about every old debt at once.
+ * Admin alerts are grouped into one notification per branch.
+ */
+export async function escalateOverdueFees(
+  sentById: string
+): Promise<{ escalated: number; error: null } | { escalated: null; error: Error }> {
+  try {
+    const policyResult = await getOverdueEscalationPolicy()
+    if (policyResult.error) {
+      return { escalated: null, error: policyResult.error }
+    }
+    const policy = policyResult.policy
+    if (!policy) {
+      return { escalated: 0, error: null }
+    }
+
+    const today = todayDateString()
+    const policyStart = addDaysToDateString(formatLocalDate(new Date(policy.created_at)), -policy.parent_after_days)
+    const { data, error } = await supabaseAdmin
+      .from('student_fees')
+      .select(
+        `
+        *,
+        student:students!student_fees_student_id_fkey(
+          id, student_id, first_name, last_name, parent_name, parent_email, parent_phone, branch_id, is_active,
+          branch:branches(name, phone)
+        )
+      `
+      )
+      .in('status', ['pending', 'overdue'])
+      .neq('overdue_escalation_stage', 'branch_admin')
+      .lte('due_date', addDaysToDateString(today, -policy.parent_after_days))
+      // Fees already with the parent still move on to the branch admins
+      .or(`overdue_escalation_stage.eq.parent,due_date.gte.${policyStart}`)
+
+    if (error) {
+      logger.error('Error fetching fees to escalate', error as Error)
+      return { escalated: null, error: new Error(error.message) }
+    }
+
+    // Per branch: lines for the admin alert
+    const adminAlerts = new Map<string | null, string[]>()
+    const addAlert = (branchId: string | null, line: string) =>
+      adminAlerts.set(branchId, [...(adminAlerts.get(branchId) || []), line])
+
+    let escalated = 0
+    for (const { student, ...fee } of (data || []) as any[]) {
+      const outstanding = Math.round((fee.amount - (fee.paid_amount || 0)) * 100) / 100
+      if (!student || !student.is_active || outstanding <= 0) continue
+
+      const daysOverdue = Math.round(
+        (parseLocalDate(today).getTime() - parseLocalDate(fee.due_date).getTime()) / (24 * 60 * 60 * 1000)
+      )
+      const currentStage = fee.overdue_escalation_stage as OverdueEscalationStage
+      const nextStage: OverdueEscalationStage = daysOverdue >= policy.admin_after_days ? 'branch_admin' : 'parent'
+      if (nextStage === currentStage) continue
+      const studentLabel = `${student.first_name} ${student.last_name} (${student.student_id})`
+
+      if (currentStage === 'none') {
+        const notice = await sendParentOverdueNotice(student, fee as StudentFee, daysOverdue)
+        // Retry the email tomorrow; once the admins take over they are alerted anyway
+        if (notice === 'failed' && nextStage === 'parent') continue
+        if (notice === 'no_email' && nextStage === 'parent') {
+          addAlert(
+            student.branch_id,
+            `${studentLabel}: ₹${outstanding.toFixed(2)}, ${daysOverdue} days overdue. ` +
+              (student.parent_phone ? `No parent email - please call ${student.parent_phone}` : 'No parent contact on file')
+          )
+        }
+      }
+
+      if (nextStage === 'branch_admin') {
+        addAlert(
+          student.branch_id,
+          `${studentLabel}: ₹${outstanding.toFixed(2)}, ${daysOverdue} days overdue` +
+            (student.parent_phone ? ` • Parent ${student.parent_phone}` : '')
+        )
+      }
+
+      const { error: updateError } = await supabaseAdmin
+        .from('student_fees')
+        .update({ overdue_escalation_stage: nextStage, overdue_escalated_at: new Date().toISOString() })
+        .eq('id', fee.id)
+
+      if (updateError) {
+        logger.error('Error updating fee escalation stage', updateError as Error, { feeId: fee.id })
+        continue
+      }
+      escalated++
+    }
+
+    if (adminAlerts.size > 0) {
+      const { data: admins } = await supabaseAdmin
+        .from('profiles')
+        .select('user_id, role, branch_id')
+        .in('role', ['super_admin', 'admin'])
+
+      for (const [branchId, lines] of adminAlerts) {
+        // Branch admins of the student's branch; super admins when the branch has none
+        const branchAdmins = (admins || []).filter((p: any) => p.role === 'admin' && branchId && p.branch_id === branchId)
+        const recipients = (branchAdmins.length > 0 ? branchAdmins : (admins || []).filter((p: any) => p.role === 'super_admin'))
+          .map((p: any) => p.user_id)
+        if (recipients.length === 0) continue
+
+        const { error: notifyError } = await createNotification(
+          {
+            title: lines.length === 1 ? 'Overdue Fee' : `${lines.length} Overdue Fees`,
+            message: lines.join('\n'),
+            type: 'payment',
+            targetType: 'all',
+          },
+          sentById,
+          { recipientUserIds: recipients }
+        )
+
+        if (notifyError) {
+          logger.error('Error alerting branch admins about overdue fees', notifyError, { branchId })
+        }
+      }
+    }
+
+    logger.info('Overdue fees escalated', { escalated })
+    return { escalated, error: null }
+  } catch (error) {
+    logger.error('Unexpected error escalating overdue fees', error as Error)
+    return {
+      escalated: null,
+      error: error instanceof Error ? error : new Error('Failed to escalate overdue fees'),
+    }
+  }
+}
+
+/**
+ * Get overdue fees
+ */
+export async function getOverdueFees(): Promise<{ fees: StudentFee[]; error: null } | { fees: null; error: Error }> {
+  try {
+    const today = todayDateString()
+
+    const { data, error } = await supabaseAdmin
+      .from('student_fees')
+      .select('*')
+      .eq('status', 'pending')
+      .lt('due_date', today)
+      .is('overdue_notification_sent_at', null)
+
+    if (error) {
+      logger.error('Error fetching overdue fees', error as Error)
+      return { fees: null, error: new Error(error.message) }
+    }
+
+    return { fees: (data || []) as StudentFee[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching overdue fees', error as Error)
+    return {
+      fees: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch overdue fees'),
+    }
+  }
+}
+
+/**
+ * Record that a scheduled reminder was sent for a fee
+ * reminder_sent_at on the fee keeps the time of the latest reminder
+ */
+export async function markReminderSent(
+  feeId: string,
+  policyId: string,
+  notificationId?: string | null
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { error: deliveryError } = await supabaseAdmin.from('fee_reminder_deliveries').insert({
+      student_fee_id: feeId,
+      policy_id: policyId,
+      notification_id: notificationId || null,
+    })
+
+    // Already recorded by an overlapping run
+    if (deliveryError && deliveryError.code !== '23505') {
+      logger.error('Error recording fee reminder delivery', deliveryError as Error)
+      return { success: false, error: new Error(deliveryError.message) }
+    }
+
+    const { error } = await supabaseAdmin
+      .from('student_fees')
+      .update({ reminder_sent_at: new Date().toISOString() })
+      .eq('id', feeId)
+
+    if (error) {
+      logger.error('Error marking reminder as sent', error as Error)
+      return { success: false, error: new Error(error.message) }
+    }
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error marking reminder as sent', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to mark reminder as sent'),
+    }
+  }
+}
+
+/**
+ * Mark overdue notification as sent and update status
+ */
+export async function markOverdueNotificationSent(feeId: string): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { error } = await supabaseAdmin
+      .from('student_fees')
+      .update({
+        status: 'overdue',
+        overdue_notification_sent_at: new Date().toISOString(),
+      })
+      .eq('id', feeId)
+
+    if (error) {
+      logger.error('Error marking overdue notification as sent', error as Error)
+      return { success: false, error: new Error(error.message) }
+    }
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error marking overdue notification as sent', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to mark overdue notification as sent'),
+    }
+  }
+}
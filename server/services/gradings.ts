@@ -0,0 +1,1000 @@
+import { supabaseAdmin } from '../lib/supabase-admin'
+import { logger } from '../lib/logger'
+import { recordBeltGrading, todayDateString } from './fees'
+import { getBeltSyllabus } from './belts'
+import { findNextBelt, canGradeFor } from '../../src/lib/belts'
+import type {
+  GradingSession,
+  GradingSessionSummary,
+  GradingSessionStatus,
+  GradingCandidate,
+  GradingEligibility,
+  GradingSessionStudent,
+  GradingResult,
+  GradingResultInput,
+  CreateGradingSessionData,
+  BeltPrerequisite,
+  SaveBeltPrerequisiteData,
+  BeltHistoryEntry,
+} from '../../src/lib/gradings'
+
+const GRADING_RESULTS: GradingResult[] = ['pending', 'pass', 'fail', 'deferred']
+
+// Student IDs per .in() filter; a whole branch in one filter makes the request URL too long
+const ID_BATCH_SIZE = 100
+
+// Student columns needed to check eligibility
+const ELIGIBILITY_STUDENT_FIELDS =
+  'id, student_id, first_name, last_name, current_belt, branch_id, is_active, date_of_birth, created_at'
+
+interface EligibilityStudent {
+  id: string
+  current_belt: string
+  branch_id: string
+  is_active: boolean
+  date_of_birth: string | null
+  created_at: string
+}
+
+/**
+ * Whole months / years from one YYYY-MM-DD date to another
+ */
+function wholeMonthsBetween(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = from.split('-').map(Number)
+  const [toYear, toMonth, toDay] = to.split('-').map(Number)
+  const months = (toYear - fromYear) * 12 + (toMonth - fromMonth) - (toDay < fromDay ? 1 : 0)
+  return Math.max(0, months)
+}
+
+/**
+ * Split IDs into batches of ID_BATCH_SIZE for .in() filters
+ */
+function idBatches(ids: string[]): string[][] {
+  const batches: string[][] = []
+  for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+    batches.push(ids.slice(i, i + ID_BATCH_SIZE))
+  }
+  return batches
+}
+
+/**
+ * Run a query once per batch of student IDs and combine the rows
+ */
+async function selectForStudents<T>(
+  studentIds: string[],
+  query: (batch: string[]) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<{ data: T[]; error: null } | { data: null; error: Error }> {
+  const rows: T[] = []
+  for (const batch of idBatches(studentIds)) {
+    const { data, error } = await query(batch)
+    if (error) {
+      return { data: null, error: new Error(error.message) }
+    }
+    rows.push(...(data || []))
+  }
+  return { data: rows, error: null }
+}
+
+/**
+ * Attendance percentage per student since the given date, calculated the same way
+ * as getStudentAttendanceStats (present / recorded classes); null when nothing is recorded
+ */
+async function getAttendancePercentages(
+  since: Map<string, string>
+): Promise<{ percentages: Map<string, number | null>; error: null } | { percentages: null; error: Error }> {
+  const percentages = new Map<string, number | null>()
+  const studentIds = [...since.keys()]
+  if (studentIds.length === 0) return { percentages, error: null }
+
+  const totals = new Map<string, { total: number; present: number }>()
+  const pageSize = 1000
+
+  for (const batch of idBatches(studentIds)) {
+    const earliest = batch.map((id) => since.get(id)!).sort()[0]
+
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await supabaseAdmin
+        .from('attendance_records')
+        .select('student_id, class_date, status')
+        .in('student_id', batch)
+        .gte('class_date', earliest)
+        .order('class_date', { ascending: true })
+        .range(from, from + pageSize - 1)
+
+      if (error) {
+        logger.error('Error fetching attendance for grading eligibility', error as Error)
+        return { percentages: null, error: new Error(error.message) }
+      }
+
+      for (const record of data || []) {
+        if (record.class_date < (since.get(record.student_id) || '')) continue
+        const counts = totals.get(record.student_id) || { total: 0, present: 0 }
+        counts.total++
+        if (record.status === 'present') counts.present++
+        totals.set(record.student_id, counts)
+      }
+
+      if (!data || data.length < pageSize) break
+    }
+  }
+
+  for (const studentId of studentIds) {
+    const counts = totals.get(studentId)
+    percentages.set(studentId, counts && counts.total > 0 ? Math.round((counts.present / counts.total) * 100) : null)
+  }
+  return { percentages, error: null }
+}
+
+/**
+ * Check students for grading, optionally against a session.
+ * Hard checks (cannot be overridden): active, in the session's branch (a branch admin's
+ * own branch for all-branch sessions), below the top belt, not already registered for
+ * an open session.
+ * Prerequisites (an admin may override with a reason): the belt's minimum months at
+ * the current belt, attendance since the last grading and age, and no unpaid grading fee.
+ * Time in grade and age are measured on the session date (today without a session).
+ */
+async function evaluateEligibility(
+  students: EligibilityStudent[],
+  session: GradingSession | null,
+  callerBranchId?: string | null
+): Promise<{ eligibility: Map<string, GradingEligibility>; error: null } | { eligibility: null; error: Error }> {
+  const studentIds = students.map((s) => s.id)
+  const result = new Map<string, GradingEligibility>()
+  if (studentIds.length === 0) return { eligibility: result, error: null }
+
+  const today = todayDateString()
+  const onDate = session && session.session_date > today ? session.session_date : today
+
+  const [registrations, unpaidFees, gradings, { data: prerequisites, error: prerequisitesError }, { ranks }] =
+    await Promise.all([
+      selectForStudents<any>(studentIds, (batch) =>
+        supabaseAdmin
+          .from('grading_session_candidates')
+          .select('student_id, session_id, result, belt_grading_id, session:grading_sessions!inner(status)')
+          .in('student_id', batch)
+          .eq('session.status', 'scheduled')
+      ),
+      selectForStudents<any>(studentIds, (batch) =>
+        supabaseAdmin
+          .from('student_fees')
+          .select('student_id')
+          .in('student_id', batch)
+          .eq('fee_type', 'grading')
+          .in('status', ['pending', 'overdue'])
+      ),
+      selectForStudents<any>(studentIds, (batch) =>
+        supabaseAdmin
+          .from('belt_gradings')
+          .select('student_id, grading_date')
+          .in('student_id', batch)
+          .order('grading_date', { ascending: false })
+      ),
+      supabaseAdmin.from('belt_prerequisites').select('*'),
+      getBeltSyllabus(),
+    ])
+
+  const queryError =
+    registrations.error || unpaidFees.error || gradings.error || (prerequisitesError && new Error(prerequisitesError.message))
+  if (queryError) {
+    logger.error('Error fetching grading eligibility data', queryError)
+    return { eligibility: null, error: queryError }
+  }
+
+  // At the current belt since the last grading, or since joining
+  const beltSince = new Map<string, string>()
+  for (const student of students) {
+    const lastGrading = gradings.data.find((g: any) => g.student_id === student.id)
+    beltSince.set(student.id, lastGrading?.grading_date || student.created_at.split('T')[0])
+  }
+  const attendanceResult = await getAttendancePercentages(beltSince)
+  if (attendanceResult.error) {
+    return { eligibility: null, error: attendanceResult.error }
+  }
+  const attendance = attendanceResult.percentages
+
+  for (const student of students) {
+    const blockers: string[] = []
+    const shortfalls: string[] = []
+    const nextBelt = findNextBelt(ranks || [], student.current_belt)
+
+    if (!student.is_active) blockers.push('Student is inactive')
+    if (session?.branch_id && student.branch_id !== session.branch_id) {
+      blockers.push("Student is not in this session's branch")
+    } else if (callerBranchId && student.branch_id !== callerBranchId) {
+      blockers.push('Student is not in your branch')
+    }
+    if (!nextBelt) blockers.push('Already at the highest belt')
+
+    const openRegistration = registrations.data.find(
+      (r: any) => r.student_id === student.id && (r.result === 'pending' || (r.result === 'pass' && !r.belt_grading_id))
+    )
+    if (openRegistration) {
+      blockers.push(
+        openRegistration.session_id === session?.id
+          ? 'Already registered for this session'
+          : 'Already registered for a grading session'
+      )
+    }
+
+    const monthsAtBelt = wholeMonthsBetween(beltSince.get(student.id)!, onDate)
+    const attendancePercentage = attendance.get(student.id) ?? null
+    const ageYears = student.date_of_birth
+      ? Math.floor(wholeMonthsBetween(student.date_of_birth, onDate) / 12)
+      : null
+
+    const prerequisite = (prerequisites || []).find((p: any) => p.belt_level === nextBelt) as
+      | BeltPrerequisite
+      | undefined
+    if (prerequisite) {
+      if (monthsAtBelt < prerequisite.min_months_at_belt) {
+        shortfalls.push(`${monthsAtBelt} of ${prerequisite.min_months_at_belt} months at current belt`)
+      }
+      if (prerequisite.min_attendance_percentage > 0 && (attendancePercentage ?? 0) < prerequisite.min_attendance_percentage) {
+        shortfalls.push(
+          attendancePercentage === null
+            ? 'No attendance recorded at current belt'
+            : `Attendance ${attendancePercentage}% (needs ${prerequisite.min_attendance_percentage}%)`
+        )
+      }
+      if (prerequisite.min_age_years !== null) {
+        if (ageYears === null) {
+          shortfalls.push(`Date of birth missing (minimum age ${prerequisite.min_age_years})`)
+        } else if (ageYears < prerequisite.min_age_years) {
+          shortfalls.push(`Age ${ageYears} (minimum ${prerequisite.min_age_years})`)
+        }
+      }
+    }
+    if (unpaidFees.data.some((f: any) => f.student_id === student.id)) {
+      shortfalls.push('Has an unpaid grading fee')
+    }
+
+    const reasons = [...blockers, ...shortfalls]
+    result.set(student.id, {
+      eligible: reasons.length === 0,
+      canOverride: blockers.length === 0 && shortfalls.length > 0,
+      nextBelt,
+      reasons,
+      monthsAtBelt,
+      attendancePercentage,
+      ageYears,
+    })
+  }
+
+  return { eligibility: result, error: null }
+}
+
+/**
+ * Fetch a session; pass the caller's branch to hide other branches' sessions from branch admins
+ */
+async function fetchSession(
+  sessionId: string,
+  callerBranchId?: string | null
+): Promise<{ session: GradingSession; error: null } | { session: null; error: Error }> {
+  const { data, error } = await supabaseAdmin
+    .from('grading_sessions')
+    .select('*, branch:branches(name)')
+    .eq('id', sessionId)
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Error fetching grading session', error as Error)
+    return { session: null, error: new Error(error.message) }
+  }
+  // All-branch sessions are open to every branch
+  if (!data || (callerBranchId && data.branch_id && data.branch_id !== callerBranchId)) {
+    return { session: null, error: new Error('Grading session not found') }
+  }
+  return { session: data as GradingSession, error: null }
+}
+
+/**
+ * Get grading sessions, newest first, with candidate counts
+ * Pass branchId to limit to one branch (all-branch sessions are always included)
+ */
+export async function getGradingSessions(options?: {
+  status?: GradingSessionStatus
+  branchId?: string | null
+}): Promise<{ sessions: GradingSessionSummary[]; error: null } | { sessions: null; error: Error }> {
+  try {
+    let query = supabaseAdmin
+      .from('grading_sessions')
+      .select('*, branch:branches(name), candidates:grading_session_candidates(result)')
+      .order('session_date', { ascending: false })
+
+    if (options?.status) {
+      query = query.eq('status', options.status)
+    }
+    if (options?.branchId) {
+      query = query.or(`branch_id.eq.${options.branchId},branch_id.is.null`)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      logger.error('Error fetching grading sessions', error as Error)
+      return { sessions: null, error: new Error(error.message) }
+    }
+
+    const sessions = (data || []).map(({ candidates, ...session }: any) => {
+      const resultCounts = Object.fromEntries(GRADING_RESULTS.map((r) => [r, 0])) as Record<GradingResult, number>
+      for (const candidate of candidates || []) {
+        resultCounts[candidate.result as GradingResult]++
+      }
+      return { ...session, candidate_count: (candidates || []).length, result_counts: resultCounts }
+    })
+
+    return { sessions: sessions as GradingSessionSummary[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching grading sessions', error as Error)
+    return {
+      sessions: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch grading sessions'),
+    }
+  }
+}
+
+/**
+ * Get a grading session with its candidates (ordered by registration)
+ */
+export async function getGradingSession(
+  sessionId: string,
+  callerBranchId?: string | null
+): Promise<
+  | { session: GradingSession; candidates: GradingCandidate[]; error: null }
+  | { session: null; candidates: null; error: Error }
+> {
+  try {
+    const sessionResult = await fetchSession(sessionId, callerBranchId)
+    if (sessionResult.error) {
+      return { session: null, candidates: null, error: sessionResult.error }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('grading_session_candidates')
+      .select('*, student:students(id, student_id, first_name, last_name, current_belt, branch_id)')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      logger.error('Error fetching grading candidates', error as Error)
+      return { session: null, candidates: null, error: new Error(error.message) }
+    }
+
+    return { session: sessionResult.session, candidates: (data || []) as GradingCandidate[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching grading session', error as Error)
+    return {
+      session: null,
+      candidates: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch grading session'),
+    }
+  }
+}
+
+/**
+ * Schedule a grading session
+ */
+export async function createGradingSession(
+  data: CreateGradingSessionData,
+  createdById: string
+): Promise<{ session: GradingSession | null; error: null } | { session: null; error: Error }> {
+  try {
+    if (!data.title?.trim()) {
+      return { session: null, error: new Error('Please enter a title') }
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(data.sessionDate || '')) {
+      return { session: null, error: new Error('Invalid session date format. Use YYYY-MM-DD') }
+    }
+
+    const examiners = (data.examiners || []).map((name) => name.trim()).filter(Boolean)
+    if (examiners.length === 0) {
+      return { session: null, error: new Error('Please add at least one examiner') }
+    }
+
+    const { data: session, error } = await supabaseAdmin
+      .from('grading_sessions')
+      .insert({
+        title: data.title.trim(),
+        session_date: data.sessionDate,
+        branch_id: data.branchId || null,
+        examiners,
+        notes: data.notes?.trim() || null,
+        created_by_id: createdById,
+      })
+      .select('*, branch:branches(name)')
+      .single()
+
+    if (error || !session) {
+      logger.error('Error creating grading session', error as Error)
+      return { session: null, error: new Error(error?.message || 'Failed to create grading session') }
+    }
+
+    logger.info('Grading session created', { sessionId: session.id, sessionDate: data.sessionDate })
+    return { session: session as GradingSession, error: null }
+  } catch (error) {
+    logger.error('Unexpected error creating grading session', error as Error)
+    return {
+      session: null,
+      error: error instanceof Error ? error : new Error('Failed to create grading session'),
+    }
+  }
+}
+
+/**
+ * Cancel a grading session
+ * Not allowed once any candidate has been promoted, and only super admins may cancel
+ * all-branch sessions
+ */
+export async function cancelGradingSession(
+  sessionId: string,
+  callerBranchId?: string | null
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const sessionResult = await fetchSession(sessionId, callerBranchId)
+    if (sessionResult.error) {
+      return { success: false, error: sessionResult.error }
+    }
+    if (callerBranchId && !sessionResult.session.branch_id) {
+      return { success: false, error: new Error('Only a super admin can cancel an all-branch session') }
+    }
+    if (sessionResult.session.status !== 'scheduled') {
+      return { success: false, error: new Error('Only scheduled sessions can be cancelled') }
+    }
+
+    const { count } = await supabaseAdmin
+      .from('grading_session_candidates')
+      .select('id', { count: 'exact', head: true })
+      .eq('session_id', sessionId)
+      .not('belt_grading_id', 'is', null)
+
+    if (count && count > 0) {
+      return { success: false, error: new Error('Candidates from this session have already been promoted') }
+    }
+
+    const { error } = await supabaseAdmin.from('grading_sessions').update({ status: 'cancelled' }).eq('id', sessionId)
+
+    if (error) {
+      logger.error('Error cancelling grading session', error as Error)
+      return { success: false, error: new Error(error.message) }
+    }
+
+    logger.info('Grading session cancelled', { sessionId })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error cancelling grading session', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to cancel grading session'),
+    }
+  }
+}
+
+/**
+ * Get active students (optionally of one branch) with their grading eligibility
+ */
+async function getStudentsWithEligibility(
+  branchId: string | null,
+  session: GradingSession | null
+): Promise<{ students: GradingSessionStudent[]; error: null } | { students: null; error: Error }> {
+  let query = supabaseAdmin
+    .from('students')
+    .select(ELIGIBILITY_STUDENT_FIELDS)
+    .eq('is_active', true)
+    .order('first_name', { ascending: true })
+
+  if (branchId) {
+    query = query.eq('branch_id', branchId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    logger.error('Error fetching students for grading eligibility', error as Error)
+    return { students: null, error: new Error(error.message) }
+  }
+
+  const { eligibility, error: eligibilityError } = await evaluateEligibility((data || []) as EligibilityStudent[], session)
+  if (eligibilityError) {
+    return { students: null, error: eligibilityError }
+  }
+
+  const students = (data || []).map(({ is_active, date_of_birth, created_at, ...student }: any) => ({
+    ...student,
+    eligibility: eligibility.get(student.id)!,
+  }))
+
+  return { students: students as GradingSessionStudent[], error: null }
+}
+
+/**
+ * Get the active students who could take part in a session (its branch, or for
+ * all-branch sessions every branch, or the branch admin's own) with their eligibility
+ */
+export async function getGradingSessionStudents(
+  sessionId: string,
+  callerBranchId?: string | null
+): Promise<{ students: GradingSessionStudent[]; error: null } | { students: null; error: Error }> {
+  try {
+    const sessionResult = await fetchSession(sessionId, callerBranchId)
+    if (sessionResult.error) {
+      return { students: null, error: sessionResult.error }
+    }
+
+    return await getStudentsWithEligibility(
+      sessionResult.session.branch_id || callerBranchId || null,
+      sessionResult.session
+    )
+  } catch (error) {
+    logger.error('Unexpected error fetching students for grading session', error as Error)
+    return {
+      students: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch students for grading session'),
+    }
+  }
+}
+
+/**
+ * Get every active student's grading eligibility as of today (optionally for one branch)
+ * Used to list who is ready for their next belt
+ */
+export async function getGradingReadiness(options?: {
+  branchId?: string | null
+}): Promise<{ students: GradingSessionStudent[]; error: null } | { students: null; error: Error }> {
+  try {
+    return await getStudentsWithEligibility(options?.branchId || null, null)
+  } catch (error) {
+    logger.error('Unexpected error checking grading readiness', error as Error)
+    return {
+      students: null,
+      error: error instanceof Error ? error : new Error('Failed to check grading readiness'),
+    }
+  }
+}
+
+/**
+ * Register students as candidates for their next belt
+ * Students who fall short of the belt's prerequisites are only registered when an
+ * override reason is given; everyone else who is not eligible is skipped and
+ * returned with the reasons
+ */
+export async function registerGradingCandidates(
+  sessionId: string,
+  studentIds: string[],
+  options: { overrideReason?: string | null; registeredById: string; callerBranchId?: string | null }
+): Promise<
+  | { added: number; skipped: Array<{ studentId: string; reasons: string[] }>; error: null }
+  | { added: null; skipped: null; error: Error }
+> {
+  try {
+    if (!studentIds || studentIds.length === 0) {
+      return { added: null, skipped: null, error: new Error('Please select at least one student') }
+    }
+
+    const sessionResult = await fetchSession(sessionId, options.callerBranchId)
+    if (sessionResult.error) {
+      return { added: null, skipped: null, error: sessionResult.error }
+    }
+    const session = sessionResult.session
+    if (session.status !== 'scheduled') {
+      return { added: null, skipped: null, error: new Error('Candidates can only be added to scheduled sessions') }
+    }
+
+    const { data: students, error: studentsError } = await selectForStudents<EligibilityStudent>(studentIds, (batch) =>
+      supabaseAdmin.from('students').select(ELIGIBILITY_STUDENT_FIELDS).in('id', batch)
+    )
+
+    if (studentsError) {
+      logger.error('Error fetching students to register for grading', studentsError)
+      return { added: null, skipped: null, error: studentsError }
+    }
+
+    const overrideReason = options.overrideReason?.trim() || null
+    const { eligibility, error: eligibilityError } = await evaluateEligibility(
+      students,
+      session,
+      options.callerBranchId
+    )
+    if (eligibilityError) {
+      return { added: null, skipped: null, error: eligibilityError }
+    }
+    const skipped: Array<{ studentId: string; reasons: string[] }> = studentIds
+      .filter((id) => !eligibility.has(id))
+      .map((id) => ({ studentId: id, reasons: ['Student not found'] }))
+
+    const rows = []
+    for (const student of students) {
+      const check = eligibility.get(student.id)!
+      const overridden = !check.eligible && check.canOverride && !!overrideReason
+      if ((!check.eligible && !overridden) || !check.nextBelt) {
+        skipped.push({ studentId: student.id, reasons: check.reasons })
+        continue
+      }
+      rows.push({
+        session_id: sessionId,
+        student_id: student.id,
+        from_belt: student.current_belt,
+        to_belt: check.nextBelt,
+        override_reason: overridden ? overrideReason : null,
+        overridden_by_id: overridden ? options.registeredById : null,
+      })
+    }
+
+    const overrides = rows.filter((row) => row.override_reason)
+    if (overrides.length > 0) {
+      logger.info('Grading prerequisites overridden', {
+        sessionId,
+        studentIds: overrides.map((row) => row.student_id),
+        reason: overrideReason,
+      })
+    }
+
+    if (rows.length > 0) {
+      const { error } = await supabaseAdmin.from('grading_session_candidates').insert(rows)
+      if (error) {
+        logger.error('Error registering grading candidates', error as Error)
+        return { added: null, skipped: null, error: new Error(error.message) }
+      }
+    }
+
+    logger.info('Grading candidates registered', { sessionId, added: rows.length, skipped: skipped.length })
+    return { added: rows.length, skipped, error: null }
+  } catch (error) {
+    logger.error('Unexpected error registering grading candidates', error as Error)
+    return {
+      added: null,
+      skipped: null,
+      error: error instanceof Error ? error : new Error('Failed to register grading candidates'),
+    }
+  }
+}
+
+/**
+ * Remove a candidate from a session (not once promoted)
+ * Pass the caller's branch to limit branch admins to their own students
+ */
+export async function removeGradingCandidate(
+  candidateId: string,
+  callerBranchId?: string | null
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { data: candidate, error: fetchError } = await supabaseAdmin
+      .from('grading_session_candidates')
+      .select('id, belt_grading_id, session:grading_sessions(status), student:students(branch_id)')
+      .eq('id', candidateId)
+      .maybeSingle()
+
+    if (fetchError || !candidate || (callerBranchId && (candidate.student as any)?.branch_id !== callerBranchId)) {
+      return { success: false, error: new Error('Candidate not found') }
+    }
+    if (candidate.belt_grading_id) {
+      return { success: false, error: new Error('This candidate has already been promoted') }
+    }
+    if ((candidate.session as any)?.status !== 'scheduled') {
+      return { success: false, error: new Error('Candidates can only be removed from scheduled sessions') }
+    }
+
+    const { error } = await supabaseAdmin.from('grading_session_candidates').delete().eq('id', candidateId)
+
+    if (error) {
+      logger.error('Error removing grading candidate', error as Error)
+      return { success: false, error: new Error(error.message) }
+    }
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error removing grading candidate', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to remove grading candidate'),
+    }
+  }
+}
+
+/**
+ * Record pass / fail / deferred results and examiner remarks for candidates
+ * Results of promoted candidates can no longer be changed
+ * Pass the caller's branch to limit branch admins to their own students
+ */
+export async function recordGradingResults(
+  sessionId: string,
+  results: GradingResultInput[],
+  callerBranchId?: string | null
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    if (!results || results.length === 0) {
+      return { success: false, error: new Error('No results to record') }
+    }
+    if (results.some((r) => !GRADING_RESULTS.includes(r.result))) {
+      return { success: false, error: new Error('Invalid grading result') }
+    }
+
+    const sessionResult = await fetchSession(sessionId, callerBranchId)
+    if (sessionResult.error) {
+      return { success: false, error: sessionResult.error }
+    }
+    if (sessionResult.session.status !== 'scheduled') {
+      return { success: false, error: new Error('Results can only be recorded for scheduled sessions') }
+    }
+
+    const { data: candidates, error: fetchError } = await supabaseAdmin
+      .from('grading_session_candidates')
+      .select('id, belt_grading_id, student:students(branch_id)')
+      .eq('session_id', sessionId)
+      .in(
+        'id',
+        results.map((r) => r.candidateId)
+      )
+
+    if (fetchError) {
+      logger.error('Error fetching grading candidates', fetchError as Error)
+      return { success: false, error: new Error(fetchError.message) }
+    }
+
+    for (const input of results) {
+      const candidate = (candidates || []).find((c: any) => c.id === input.candidateId)
+      if (!candidate || (callerBranchId && (candidate.student as any)?.branch_id !== callerBranchId)) {
+        return { success: false, error: new Error('Candidate not found in this session') }
+      }
+      if (candidate.belt_grading_id) {
+        return { success: false, error: new Error('Results of promoted candidates cannot be changed') }
+      }
+    }
+
+    for (const input of results) {
+      const { error } = await supabaseAdmin
+        .from('grading_session_candidates')
+        .update({
+          result: input.result,
+          ...(input.remarks !== undefined ? { remarks: input.remarks?.trim() || null } : {}),
+        })
+        .eq('id', input.candidateId)
+
+      if (error) {
+        logger.error('Error recording grading result', error as Error, { candidateId: input.candidateId })
+        return { success: false, error: new Error(error.message) }
+      }
+    }
+
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error recording grading results', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to record grading results'),
+    }
+  }
+}
+
+/**
+ * Promote every candidate who passed and has not been promoted yet.
+ * Each promotion goes through recordBeltGrading, so the student's belt is
+ * updated and the grading fee created exactly as for a single grading.
+ * The session is marked completed once every candidate has a final result
+ * and all passes have been promoted.
+ * Pass the caller's branch so branch admins only promote their own students.
+ */
+export async function promoteGradingCandidates(
+  sessionId: string,
+  createdById: string,
+  callerBranchId?: string | null
+): Promise<
+  | {
+      promoted: number
+      failures: Array<{ candidateId: string; studentName: string; message: string }>
+      completed: boolean
+      error: null
+    }
+  | { promoted: null; failures: null; completed: null; error: Error }
+> {
+  try {
+    const sessionResult = await getGradingSession(sessionId, callerBranchId)
+    if (sessionResult.error) {
+      return { promoted: null, failures: null, completed: null, error: sessionResult.error }
+    }
+    const { session, candidates } = sessionResult
+
+    if (session.status !== 'scheduled') {
+      return { promoted: null, failures: null, completed: null, error: new Error('This session is not open') }
+    }
+    if (session.session_date > todayDateString()) {
+      return {
+        promoted: null,
+        failures: null,
+        completed: null,
+        error: new Error('Candidates can only be promoted on or after the grading date'),
+      }
+    }
+
+    let promoted = 0
+    const failures: Array<{ candidateId: string; studentName: string; message: string }> = []
+
+    for (const candidate of candidates) {
+      if (candidate.result !== 'pass' || candidate.belt_grading_id) continue
+      if (callerBranchId && candidate.student?.branch_id !== callerBranchId) continue
+
+      const studentName = candidate.student
+        ? `${candidate.student.first_name} ${candidate.student.last_name}`
+        : candidate.student_id
+
+      const gradingResult = await recordBeltGrading({
+        studentId: candidate.student_id,
+        fromBelt: candidate.from_belt,
+        toBelt: candidate.to_belt,
+        gradingDate: session.session_date,
+        createdById,
+        gradingSessionId: session.id,
+      })
+
+      if (gradingResult.error || !gradingResult.grading) {
+        failures.push({
+          candidateId: candidate.id,
+          studentName,
+          message: gradingResult.error?.message || 'Failed to record belt grading',
+        })
+        continue
+      }
+
+      const { error: linkError } = await supabaseAdmin
+        .from('grading_session_candidates')
+        .update({ belt_grading_id: gradingResult.grading.id })
+        .eq('id', candidate.id)
+
+      if (linkError) {
+        logger.error('Error linking belt grading to candidate', linkError as Error, { candidateId: candidate.id })
+      }
+      candidate.belt_grading_id = gradingResult.grading.id
+      promoted++
+    }
+
+    const completed =
+      failures.length === 0 &&
+      candidates.every((c) => c.result === 'fail' || c.result === 'deferred' || (c.result === 'pass' && c.belt_grading_id))
+
+    if (completed) {
+      const { error } = await supabaseAdmin.from('grading_sessions').update({ status: 'completed' }).eq('id', sessionId)
+      if (error) {
+        logger.error('Error completing grading session', error as Error)
+      }
+    }
+
+    logger.info('Grading candidates promoted', { sessionId, promoted, failed: failures.length, completed })
+    return { promoted, failures, completed, error: null }
+  } catch (error) {
+    logger.error('Unexpected error promoting grading candidates', error as Error)
+    return {
+      promoted: null,
+      failures: null,
+      completed: null,
+      error: error instanceof Error ? error : new Error('Failed to promote grading candidates'),
+    }
+  }
+}
+
+/**
+ * Get the prerequisites for every belt that has them, in belt order
+ */
+export async function getBeltPrerequisites(): Promise<
+  { prerequisites: BeltPrerequisite[]; error: null } | { prerequisites: null; error: Error }
+> {
+  try {
+    const [{ data, error }, { ranks }] = await Promise.all([
+      supabaseAdmin.from('belt_prerequisites').select('*'),
+      getBeltSyllabus(),
+    ])
+
+    if (error) {
+      logger.error('Error fetching belt prerequisites', error as Error)
+      return { prerequisites: null, error: new Error(error.message) }
+    }
+
+    const order = (belt: string) => (ranks || []).findIndex((r) => r.name === belt)
+    const prerequisites = ((data || []) as BeltPrerequisite[]).sort((a, b) => order(a.belt_level) - order(b.belt_level))
+    return { prerequisites, error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching belt prerequisites', error as Error)
+    return {
+      prerequisites: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch belt prerequisites'),
+    }
+  }
+}
+
+/**
+ * Set the prerequisites for grading to a belt
+ */
+export async function saveBeltPrerequisite(
+  data: SaveBeltPrerequisiteData,
+  updatedById: string
+): Promise<{ prerequisite: BeltPrerequisite | null; error: null } | { prerequisite: null; error: Error }> {
+  try {
+    const { ranks, error: syllabusError } = await getBeltSyllabus()
+    if (syllabusError) {
+      return { prerequisite: null, error: syllabusError }
+    }
+    if (!canGradeFor(ranks, data.beltLevel)) {
+      return { prerequisite: null, error: new Error('Invalid belt level') }
+    }
+
+    if (!Number.isInteger(data.minMonthsAtBelt) || data.minMonthsAtBelt < 0) {
+      return { prerequisite: null, error: new Error('Minimum months must be 0 or more') }
+    }
+
+    if (
+      !Number.isInteger(data.minAttendancePercentage) ||
+      data.minAttendancePercentage < 0 ||
+      data.minAttendancePercentage > 100
+    ) {
+      return { prerequisite: null, error: new Error('Attendance must be between 0 and 100%') }
+    }
+
+    if (data.minAgeYears !== null && (!Number.isInteger(data.minAgeYears) || data.minAgeYears < 3 || data.minAgeYears > 100)) {
+      return { prerequisite: null, error: new Error('Minimum age must be between 3 and 100') }
+    }
+
+    const { data: prerequisite, error } = await supabaseAdmin
+      .from('belt_prerequisites')
+      .upsert(
+        {
+          belt_level: data.beltLevel,
+          min_months_at_belt: data.minMonthsAtBelt,
+          min_attendance_percentage: data.minAttendancePercentage,
+          min_age_years: data.minAgeYears,
+          updated_by_id: updatedById,
+        },
+        { onConflict: 'belt_level' }
+      )
+      .select()
+      .single()
+
+    if (error || !prerequisite) {
+      logger.error('Error saving belt prerequisite', error as Error)
+      return { prerequisite: null, error: new Error(error?.message || 'Failed to save belt prerequisite') }
+    }
+
+    logger.info('Belt prerequisite saved', { beltLevel: data.beltLevel })
+    return { prerequisite: prerequisite as BeltPrerequisite, error: null }
+  } catch (error) {
+    logger.error('Unexpected error saving belt prerequisite', error as Error)
+    return {
+      prerequisite: null,
+      error: error instanceof Error ? error : new Error('Failed to save belt prerequisite'),
+    }
+  }
+}
+
+/**
+ * Get a student's belt gradings, oldest first, with the examiners of the session each came from
+ */
+export async function getStudentBeltHistory(
+  studentId: string
+): Promise<{ history: BeltHistoryEntry[]; error: null } | { history: null; error: Error }> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('belt_gradings')
+      .select('*, grading_session:grading_sessions(title, examiners)')
+      .eq('student_id', studentId)
+      .order('grading_date', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      logger.error('Error fetching belt history', error as Error)
+      return { history: null, error: new Error(error.message) }
+    }
+
+    const history = (data || []).map(({ grading_session, ...grading }: any) => ({
+      ...grading,
+      session_title: grading_session?.title ?? null,
+      examiners: grading_session?.examiners ?? [],
+    }))
+
+    return { history: history as BeltHistoryEntry[], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching belt history', error as Error)
+    return {
+      history: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch belt history'),
+    }
+  }
+}
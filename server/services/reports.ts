@@ -0,0 +1,192 @@
+import { supabaseAdmin } from '../lib/supabase-admin'
+import { logger } from '../lib/logger'
+import type { FeeType } from '../../src/lib/fees'
+import type {
+  AgingBucket,
+  CollectionPeriod,
+  FeeTypeBreakdown,
+  FinancialReport,
+  OutstandingFeeRow,
+  ReportGrouping,
+} from '../../src/lib/reports'
+
+const FEE_TYPES: FeeType[] = ['registration', 'monthly', 'yearly', 'grading', 'late_fee']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Aging bucket for a fee by how many days it is past due
+ */
+function agingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue < 0) return 'current'
+  if (daysOverdue <= 30) return 'days_0_30'
+  if (daysOverdue <= 60) return 'days_31_60'
+  return 'days_60_plus'
+}
+
+/**
+ * Whole days between two YYYY-MM-DD dates (positive when `to` is later)
+ */
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS)
+}
+
+/**
+ * Build the financial report for a date range
+ * - Collections: payments received in the range, net of reversals and refunds
+ * - Outstanding and aging: unpaid balances as of today, whatever their due date
+ * branchId filters by the student's branch (client-side, like getAllFees)
+ */
+export async function getFinancialReport(options: {
+  startDate: string
+  endDate: string
+  groupBy?: ReportGrouping
+  branchId?: string | null
+}): Promise<{ report: FinancialReport | null; error: null } | { report: null; error: Error }> {
+  try {
+    const dateRegex = /^\d{4}-\d{2}-\d{2}$/
+    if (!dateRegex.test(options.startDate) || !dateRegex.test(options.endDate)) {
+      return { report: null, error: new Error('Invalid date format. Use YYYY-MM-DD') }
+    }
+    if (options.startDate > options.endDate) {
+      return { report: null, error: new Error('Start date must be before end date') }
+    }
+
+    const groupBy = options.groupBy || 'month'
+    const branchId = options.branchId || null
+
+    const [paymentsResult, feesResult] = await Promise.all([
+      supabaseAdmin
+        .from('fee_payments')
+        .select(`
+          id,
+          amount,
+          paid_at,
+          fee:student_fees!fee_payments_student_fee_id_fkey(fee_type),
+          student:students!fee_payments_student_id_fkey(branch_id)
+        `)
+        .is('reversed_at', null)
+        .gte('paid_at', `${options.startDate}T00:00:00`)
+        .lte('paid_at', `${options.endDate}T23:59:59.999`)
+        .order('paid_at', { ascending: true }),
+      supabaseAdmin
+        .from('student_fees')
+        .select(`
+          id,
+          fee_type,
+          amount,
+          paid_amount,
+          due_date,
+          student:students!student_fees_student_id_fkey(id, student_id, first_name, last_name, branch_id)
+        `)
+        .in('status', ['pending', 'overdue'])
+        .order('due_date', { ascending: true }),
+    ])
+
+    if (paymentsResult.error) {
+      logger.error('Error fetching payments for report', paymentsResult.error as Error)
+      return { report: null, error: new Error(paymentsResult.error.message) }
+    }
+    if (feesResult.error) {
+      logger.error('Error fetching outstanding fees for report', feesResult.error as Error)
+      return { report: null, error: new Error(feesResult.error.message) }
+    }
+
+    const payments = (paymentsResult.data || []).filter(
+      (payment: any) => !branchId || payment.student?.branch_id === branchId
+    )
+    const unpaidFees = (feesResult.data || []).filter(
+      (fee: any) => !branchId || fee.student?.branch_id === branchId
+    )
+
+    const collectedByType = new Map<FeeType, number>()
+    const outstandingByType = new Map<FeeType, number>()
+
+    // Collections by day or month
+    const periods = new Map<string, CollectionPeriod>()
+    let totalCollected = 0
+    for (const payment of payments as any[]) {
+      const day = String(payment.paid_at).split('T')[0]
+      const period = groupBy === 'day' ? day : day.slice(0, 7)
+      const entry = periods.get(period) || { period, amount: 0, paymentCount: 0 }
+      entry.amount += payment.amount
+      entry.paymentCount += 1
+      periods.set(period, entry)
+      totalCollected += payment.amount
+
+      const feeType = payment.fee?.fee_type as FeeType | undefined
+      if (feeType) {
+        collectedByType.set(feeType, (collectedByType.get(feeType) || 0) + payment.amount)
+      }
+    }
+
+    // Outstanding balances and aging as of today
+    const today = new Date().toISOString().split('T')[0]
+    const aging: FinancialReport['aging'] = {
+      current: { amount: 0, feeCount: 0 },
+      days_0_30: { amount: 0, feeCount: 0 },
+      days_31_60: { amount: 0, feeCount: 0 },
+      days_60_plus: { amount: 0, feeCount: 0 },
+    }
+    const outstandingFees: OutstandingFeeRow[] = []
+    for (const fee of unpaidFees as any[]) {
+      const balance = roundMoney(fee.amount - (fee.paid_amount || 0))
+      if (balance <= 0) continue
+
+      const daysOverdue = daysBetween(fee.due_date, today)
+      const bucket = agingBucket(daysOverdue)
+      aging[bucket].amount += balance
+      aging[bucket].feeCount += 1
+      outstandingByType.set(fee.fee_type, (outstandingByType.get(fee.fee_type) || 0) + balance)
+
+      outstandingFees.push({
+        feeId: fee.id,
+        studentId: fee.student?.id,
+        studentCode: fee.student?.student_id || '',
+        studentName: fee.student ? `${fee.student.first_name} ${fee.student.last_name}` : '',
+        branchId: fee.student?.branch_id || null,
+        feeType: fee.fee_type,
+        dueDate: fee.due_date,
+        balance,
+        daysOverdue,
+        bucket,
+      })
+    }
+
+    for (const bucket of Object.keys(aging) as AgingBucket[]) {
+      aging[bucket].amount = roundMoney(aging[bucket].amount)
+    }
+
+    const byFeeType: FeeTypeBreakdown[] = FEE_TYPES.map((feeType) => ({
+      feeType,
+      collected: roundMoney(collectedByType.get(feeType) || 0),
+      outstanding: roundMoney(outstandingByType.get(feeType) || 0),
+    })).filter((row) => row.collected > 0 || row.outstanding > 0)
+
+    const report: FinancialReport = {
+      startDate: options.startDate,
+      endDate: options.endDate,
+      branchId,
+      groupBy,
+      generatedAt: new Date().toISOString(),
+      collections: Array.from(periods.values()).map((p) => ({ ...p, amount: roundMoney(p.amount) })),
+      totalCollected: roundMoney(totalCollected),
+      paymentCount: payments.length,
+      totalOutstanding: roundMoney(outstandingFees.reduce((sum, fee) => sum + fee.balance, 0)),
+      aging,
+      byFeeType,
+      // Most overdue first
+      outstandingFees: outstandingFees.sort((a, b) => b.daysOverdue - a.daysOverdue),
+    }
+
+    return { report, error: null }
+  } catch (error) {
+    logger.error('Unexpected error building financial report', error as Error)
+    return {
+      report: null,
+      error: error instanceof Error ? error : new Error('Failed to build financial report'),
+    }
+  }
+}
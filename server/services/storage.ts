@@ -0,0 +1,246 @@
+import { supabaseAdmin } from '../lib/supabase-admin'
+import { logger } from '../lib/logger'
+import type { StorageUsage, StorageSummary } from '../../src/lib/storage-monitoring'
+
+/**
+ * Buckets the app may write to through the API.
+ * student-documents and admin-profiles are written with the user's own session (RLS).
+ */
+export const WRITABLE_BUCKETS = ['public-assets', 'notification-images'] as const
+export type WritableBucket = typeof WRITABLE_BUCKETS[number]
+
+/**
+ * Folder the app writes to in each bucket.
+ * Anything outside it (logos, other assets) can only be changed from the Supabase dashboard.
+ */
+const WRITABLE_FOLDERS: Record<WritableBucket, string> = {
+  'public-assets': 'public-gallery/',
+  'notification-images': 'notifications/',
+}
+
+function isWritablePath(bucket: WritableBucket, path: string): boolean {
+  return typeof path === 'string' && path.startsWith(WRITABLE_FOLDERS[bucket]) && !path.split('/').includes('..')
+}
+
+const FREE_TIER_LIMIT = 500 * 1024 * 1024 // 500MB in bytes
+
+/**
+ * Get storage usage for a specific bucket
+ */
+async function getBucketUsage(bucketId: string): Promise<StorageUsage | null> {
+  try {
+    // List all files in the bucket
+    const { data: files, error } = await supabaseAdmin.storage
+      .from(bucketId)
+      .list('', {
+        limit: 10000, // Max files to check (Supabase limit)
+        sortBy: { column: 'created_at', order: 'desc' },
+      })
+
+    if (error) {
+      logger.error(`Error listing files in bucket ${bucketId}`, error as Error)
+      return null
+    }
+
+    // Calculate total size
+    let totalSize = 0
+    let fileCount = 0
+
+    if (files && files.length > 0) {
+      // Get file sizes
+      for (const file of files) {
+        if (file.metadata && file.metadata.size) {
+          totalSize += parseInt(file.metadata.size, 10) || 0
+          fileCount++
+        } else if ('size' in file && file.size) {
+          totalSize += (file.size as number)
+          fileCount++
+        }
+      }
+
+      // If there are more files, we need to paginate
+      // For now, we'll estimate based on average file size
+      if (files.length === 10000) {
+        logger.warn(`Bucket ${bucketId} has more than 10000 files, usage may be underestimated`)
+      }
+    }
+
+    const totalSizeMB = totalSize / (1024 * 1024)
+    const totalSizeGB = totalSizeMB / 1024
+    const percentageOfLimit = (totalSize / FREE_TIER_LIMIT) * 100
+
+    return {
+      bucketId,
+      bucketName: bucketId,
+      fileCount,
+      totalSize,
+      totalSizeMB,
+      totalSizeGB,
+      percentageOfLimit,
+    }
+  } catch (error) {
+    logger.error(`Unexpected error getting bucket usage for ${bucketId}`, error as Error)
+    return null
+  }
+}
+
+/**
+ * Get storage usage summary for all buckets
+ */
+export async function getStorageSummary(): Promise<StorageSummary | null> {
+  try {
+    // List all buckets
+    const { data: buckets, error: bucketsError } = await supabaseAdmin.storage.listBuckets()
+
+    if (bucketsError) {
+      logger.error('Error listing storage buckets', bucketsError as Error)
+      return null
+    }
+
+    if (!buckets || buckets.length === 0) {
+      return {
+        totalSize: 0,
+        totalSizeMB: 0,
+        totalSizeGB: 0,
+        totalFiles: 0,
+        buckets: [],
+        freeTierLimit: FREE_TIER_LIMIT,
+        usagePercentage: 0,
+        remainingSpace: FREE_TIER_LIMIT,
+        remainingSpaceMB: 500,
+        status: 'healthy',
+      }
+    }
+
+    // Get usage for each bucket
+    const bucketUsages: StorageUsage[] = []
+    let totalSize = 0
+    let totalFiles = 0
+
+    for (const bucket of buckets) {
+      const usage = await getBucketUsage(bucket.id)
+      if (usage) {
+        bucketUsages.push(usage)
+        totalSize += usage.totalSize
+        totalFiles += usage.fileCount
+      }
+    }
+
+    const totalSizeMB = totalSize / (1024 * 1024)
+    const totalSizeGB = totalSizeMB / 1024
+    const usagePercentage = (totalSize / FREE_TIER_LIMIT) * 100
+    const remainingSpace = FREE_TIER_LIMIT - totalSize
+    const remainingSpaceMB = remainingSpace / (1024 * 1024)
+
+    // Determine status
+    let status: 'healthy' | 'warning' | 'critical' = 'healthy'
+    if (usagePercentage >= 90) {
+      status = 'critical'
+    } else if (usagePercentage >= 70) {
+      status = 'warning'
+    }
+
+    return {
+      totalSize,
+      totalSizeMB,
+      totalSizeGB,
+      totalFiles,
+      buckets: bucketUsages,
+      freeTierLimit: FREE_TIER_LIMIT,
+      usagePercentage,
+      remainingSpace,
+      remainingSpaceMB,
+      status,
+    }
+  } catch (error) {
+    logger.error('Unexpected error getting storage summary', error as Error)
+    return null
+  }
+}
+
+/**
+ * Upload a base64-encoded file and return its public URL
+ */
+export async function uploadFile(
+  bucket: WritableBucket,
+  path: string,
+  base64: string,
+  contentType: string
+): Promise<{ url: string | null; path: string | null; error: null } | { url: null; path: null; error: Error }> {
+  try {
+    if (!WRITABLE_BUCKETS.includes(bucket)) {
+      return { url: null, path: null, error: new Error(`Uploads to bucket "${bucket}" are not allowed`) }
+    }
+    if (!isWritablePath(bucket, path)) {
+      return { url: null, path: null, error: new Error(`Uploads to "${path}" are not allowed`) }
+    }
+
+    const bytes = Buffer.from(base64, 'base64')
+
+    const { data: uploadData, error } = await supabaseAdmin.storage
+      .from(bucket)
+      .upload(path, bytes, {
+        contentType,
+        upsert: false,
+      })
+
+    if (error) {
+      logger.error('Error uploading file to storage', error as Error, { bucket, path })
+      return { url: null, path: null, error: new Error(error.message) }
+    }
+
+    const uploadedPath = uploadData?.path || path
+    const { data: urlData } = supabaseAdmin.storage.from(bucket).getPublicUrl(uploadedPath)
+
+    if (!urlData?.publicUrl) {
+      return { url: null, path: null, error: new Error('Failed to get public URL') }
+    }
+
+    logger.info('File uploaded to storage', { bucket, path: uploadedPath, size: bytes.length })
+    return { url: urlData.publicUrl, path: uploadedPath, error: null }
+  } catch (error) {
+    logger.error('Unexpected error uploading file', error as Error)
+    return {
+      url: null,
+      path: null,
+      error: error instanceof Error ? error : new Error('Failed to upload file'),
+    }
+  }
+}
+
+/**
+ * Remove files from a bucket
+ */
+export async function removeFiles(
+  bucket: WritableBucket,
+  paths: string[]
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    if (!WRITABLE_BUCKETS.includes(bucket)) {
+      return { success: false, error: new Error(`Deleting from bucket "${bucket}" is not allowed`) }
+    }
+    if (!Array.isArray(paths) || paths.length === 0) {
+      return { success: false, error: new Error('No files to delete') }
+    }
+    const blocked = paths.find((path) => !isWritablePath(bucket, path))
+    if (blocked !== undefined) {
+      return { success: false, error: new Error(`Deleting "${blocked}" is not allowed`) }
+    }
+
+    const { error } = await supabaseAdmin.storage.from(bucket).remove(paths)
+
+    if (error) {
+      logger.warn('Failed to delete files from storage', { bucket, paths, error: error.message })
+      return { success: false, error: new Error(error.message) }
+    }
+
+    logger.info('Deleted files from storage', { bucket, count: paths.length })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Unexpected error deleting files', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to delete files'),
+    }
+  }
+}
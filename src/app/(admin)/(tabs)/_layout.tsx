@@ -139,6 +139,24 @@ export default function AdminTabsLayout() {
           href: null, // Hide from tabs, accessed via dashboard/flows
         }}
       />
+      <Tabs.Screen
+        name="reports"
+        options={{
+          href: null, // Hide from tabs, accessed via More screen
+        }}
+      />
+      <Tabs.Screen
+        name="upi-reconciliation"
+        options={{
+          href: null, // Hide from tabs, accessed via More screen
+        }}
+      />
+      <Tabs.Screen
+        name="statement-import"
+        options={{
+          href: null, // Hide from tabs, accessed via UPI Payments screen
+        }}
+      />
       <Tabs.Screen
         name="public-gallery"
         options={{
@@ -154,7 +172,37 @@ export default function AdminTabsLayout() {
       <Tabs.Screen
         name="belt-grading"
         options={{
-          href: null, // Hide from tabs
+          href: null, // Hide from tabs, accessed via More screen
+        }}
+      />
+      <Tabs.Screen
+        name="grading-session"
+        options={{
+          href: null, // Hide from tabs, accessed via Belt Gradings screen
+        }}
+      />
+      <Tabs.Screen
+        name="belt-syllabus"
+        options={{
+          href: null, // Hide from tabs, accessed via Belt Gradings screen
+        }}
+      />
+      <Tabs.Screen
+        name="belt-requirements"
+        options={{
+          href: null, // Hide from tabs, accessed via Belt Gradings screen
+        }}
+      />
+      <Tabs.Screen
+        name="timetable"
+        options={{
+          href: null, // Hide from tabs, accessed via More screen
+        }}
+      />
+      <Tabs.Screen
+        name="check-in-scanner"
+        options={{
+          href: null, // Hide from tabs, accessed via Mark Attendance screen
         }}
       />
       <Tabs.Screen
@@ -1,306 +1,715 @@
-import React, { useState, useEffect } from 'react'
-import { View, StyleSheet, ScrollView, KeyboardAvoidingView, Platform, TouchableOpacity } from 'react-native'
-import { Text, Card, Button, TextInput, ActivityIndicator, Snackbar, Menu } from 'react-native-paper'
-import { useRouter, useLocalSearchParams } from 'expo-router'
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { View, StyleSheet, ScrollView, RefreshControl, TouchableOpacity } from 'react-native'
+import { Text, Card, Button, ActivityIndicator, Snackbar, Chip, Dialog, TextInput } from 'react-native-paper'
+import { useRouter, useLocalSearchParams, useFocusEffect } from 'expo-router'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { format } from 'date-fns'
 import { useAuth } from '@/context/AuthContext'
-import { recordBeltGrading } from '@/lib/fees'
+import {
+  getGradingSessions,
+  createGradingSession,
+  registerGradingCandidates,
+  getGradingReadiness,
+  getBeltPrerequisites,
+  saveBeltPrerequisite,
+  type GradingSessionStatus,
+  type GradingSessionSummary,
+  type GradingSessionStudent,
+  type BeltPrerequisite,
+} from '@/lib/gradings'
 import { getStudentById, type Student } from '@/lib/students'
+import { getBranches, type Branch } from '@/lib/branches'
+import { getProfileByUserId } from '@/lib/profiles'
 import { logger } from '@/lib/logger'
-import { BELT_LEVELS, BELT_COLORS, BELT_KYU, getBeltDisplayName, getBeltIndex, isBeltHigher } from '@/lib/belts'
+import { getBeltLevels, getBeltDisplayName, isGradableBelt } from '@/lib/belts'
+import { useBeltSyllabus } from '@/hooks/useBeltSyllabus'
 import { DatePicker } from '@/components/shared/DatePicker'
 import { AdminHeader } from '@/components/admin/AdminHeader'
 
+const STATUS_LABELS: Record<GradingSessionStatus, string> = {
+  scheduled: 'Scheduled',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+}
+
+const STATUS_COLORS: Record<GradingSessionStatus, string> = {
+  scheduled: '#7B2CBF',
+  completed: '#10B981',
+  cancelled: '#6B7280',
+}
+
+// Besides the session lists, the screen shows who is ready to grade and the per-belt prerequisites
+type GradingView = GradingSessionStatus | 'ready' | 'prerequisites'
+
+const VIEW_LABELS: Record<GradingView, string> = {
+  ...STATUS_LABELS,
+  ready: 'Ready to Grade',
+  prerequisites: 'Prerequisites',
+}
+
+const todayString = () => format(new Date(), 'yyyy-MM-dd')
+
+const formatPrerequisite = (prerequisite: BeltPrerequisite | undefined) => {
+  if (!prerequisite) return 'No requirements'
+
+  const parts = [
+    `${prerequisite.min_months_at_belt} month(s) at previous belt`,
+    `${prerequisite.min_attendance_percentage}% attendance`,
+  ]
+  if (prerequisite.min_age_years !== null) {
+    parts.push(`age ${prerequisite.min_age_years}+`)
+  }
+  return parts.join(' • ')
+}
+
+/**
+ * Belt grading sessions
+ * Opened with ?studentId= (from a student's profile) to register that student for a session
+ * Also lists who is ready for their next belt and the per-belt prerequisites
+ */
 export default function BeltGradingScreen() {
   const router = useRouter()
   const params = useLocalSearchParams()
   const insets = useSafeAreaInsets()
   const { user } = useAuth()
-  const studentId = params.studentId as string
+  const studentId = params.studentId as string | undefined
 
+  const [sessions, setSessions] = useState<GradingSessionSummary[]>([])
+  const [view, setView] = useState<GradingView>('scheduled')
+  const [readiness, setReadiness] = useState<GradingSessionStudent[]>([])
+  const [prerequisites, setPrerequisites] = useState<BeltPrerequisite[]>([])
   const [student, setStudent] = useState<Student | null>(null)
+  const [isSuperAdmin, setIsSuperAdmin] = useState(false)
+  const [branches, setBranches] = useState<Branch[]>([])
   const [loading, setLoading] = useState(true)
-  const [saving, setSaving] = useState(false)
-  const [fromBelt, setFromBelt] = useState('')
-  const [toBelt, setToBelt] = useState('')
-  const [gradingDate, setGradingDate] = useState(new Date().toISOString().split('T')[0])
-  const [fromBeltMenuVisible, setFromBeltMenuVisible] = useState(false)
-  const [toBeltMenuVisible, setToBeltMenuVisible] = useState(false)
+  const [refreshing, setRefreshing] = useState(false)
+  const [registering, setRegistering] = useState<string | null>(null)
   const [snackbar, setSnackbar] = useState({ visible: false, message: '' })
 
+  // New session dialog
+  const [dialogVisible, setDialogVisible] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [title, setTitle] = useState('')
+  const [sessionDate, setSessionDate] = useState(todayString())
+  const [branchId, setBranchId] = useState<string | null>(null)
+  const [examiners, setExaminers] = useState('')
+  const [notes, setNotes] = useState('')
+
+  // Prerequisite dialog
+  const [editingBelt, setEditingBelt] = useState<string | null>(null)
+  const [minMonths, setMinMonths] = useState('')
+  const [minAttendance, setMinAttendance] = useState('')
+  const [minAge, setMinAge] = useState('')
+  const [savingPrerequisite, setSavingPrerequisite] = useState(false)
+
+  // Re-render the prerequisites list once the configured syllabus has loaded
+  useBeltSyllabus()
+
+  // Refs to prevent unnecessary reloads
+  const lastLoadTimeRef = useRef<number>(0)
+  const isLoadingRef = useRef(false)
+
+  useEffect(() => {
+    loadUserProfile()
+  }, [user])
+
   useEffect(() => {
     if (studentId) {
       loadStudent()
+    } else {
+      setStudent(null)
     }
   }, [studentId])
 
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user, view])
+
+  // Auto-refresh when screen comes into focus
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return
+
+      // Skip if just loaded or currently loading
+      const timeSinceLastLoad = Date.now() - lastLoadTimeRef.current
+      if (isLoadingRef.current || timeSinceLastLoad < 1000) {
+        return
+      }
+
+      // Reload data
+      isLoadingRef.current = true
+      loadData().finally(() => {
+        isLoadingRef.current = false
+        lastLoadTimeRef.current = Date.now()
+      })
+    }, [user, view])
+  )
+
+  const loadUserProfile = async () => {
+    if (!user?.id) return
+
+    try {
+      const result = await getProfileByUserId(user.id)
+      if (result.profile?.role === 'super_admin') {
+        setIsSuperAdmin(true)
+        const branchesResult = await getBranches({ status: 'active' })
+        if (branchesResult.branches) {
+          setBranches(branchesResult.branches as Branch[])
+        }
+      }
+    } catch (error) {
+      logger.error('Error loading user profile', error as Error)
+    }
+  }
+
   const loadStudent = async () => {
+    if (!studentId) return
+
+    const result = await getStudentById(studentId)
+    if (result.error || !result.student) {
+      setSnackbar({ visible: true, message: result.error?.message || 'Student not found' })
+      return
+    }
+    setStudent(result.student)
+  }
+
+  const loadData = async () => {
     try {
       setLoading(true)
-      const result = await getStudentById(studentId)
 
-      if (result.error || !result.student) {
-        setSnackbar({ visible: true, message: result.error?.message || 'Student not found' })
-        router.back()
+      if (view === 'ready') {
+        const result = await getGradingReadiness()
+        if (result.error) {
+          setSnackbar({ visible: true, message: result.error.message })
+          return
+        }
+
+        // Ready students first; black belts have no next grading
+        const students = result.students.filter((s) => s.eligibility.nextBelt !== null)
+        setReadiness([
+          ...students.filter((s) => s.eligibility.eligible),
+          ...students.filter((s) => !s.eligibility.eligible),
+        ])
+        return
+      }
+
+      if (view === 'prerequisites') {
+        const result = await getBeltPrerequisites()
+        if (result.error) {
+          setSnackbar({ visible: true, message: result.error.message })
+          return
+        }
+        setPrerequisites(result.prerequisites)
+        return
+      }
+
+      const result = await getGradingSessions({ status: view })
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
         return
       }
 
-      setStudent(result.student)
-      setFromBelt(result.student.current_belt || 'White')
+      setSessions(result.sessions || [])
     } catch (error) {
-      logger.error('Error loading student', error as Error)
-      setSnackbar({ visible: true, message: 'Failed to load student' })
-      router.back()
+      logger.error('Error loading belt gradings', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to load grading sessions' })
     } finally {
       setLoading(false)
+      setRefreshing(false)
     }
   }
 
-  const handleSubmit = async () => {
-    if (!user?.id || !student) return
+  const onRefresh = () => {
+    setRefreshing(true)
+    loadData()
+  }
 
-    if (!fromBelt || !toBelt) {
-      setSnackbar({ visible: true, message: 'Please select both from and to belt levels' })
-      return
+  const openSession = (session: GradingSessionSummary) => {
+    router.push(`/(admin)/(tabs)/grading-session?id=${session.id}`)
+  }
+
+  const handleRegisterStudent = async (session: GradingSessionSummary) => {
+    if (!student) return
+
+    try {
+      setRegistering(session.id)
+      const result = await registerGradingCandidates(session.id, [student.id])
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      if (result.added === 0) {
+        setSnackbar({
+          visible: true,
+          message: `${student.first_name} cannot be registered: ${result.skipped[0]?.reasons.join(', ') || 'not eligible'}`,
+        })
+        return
+      }
+
+      setSnackbar({ visible: true, message: `${student.first_name} registered for ${session.title}` })
+      router.setParams({ studentId: '' })
+      openSession(session)
+    } finally {
+      setRegistering(null)
     }
+  }
 
-    if (fromBelt === toBelt) {
-      setSnackbar({ visible: true, message: 'From and to belt levels cannot be the same' })
+  const openCreateDialog = () => {
+    setTitle('')
+    setSessionDate(todayString())
+    setBranchId(null)
+    setExaminers('')
+    setNotes('')
+    setDialogVisible(true)
+  }
+
+  const handleCreateSession = async () => {
+    if (!title.trim()) {
+      setSnackbar({ visible: true, message: 'Please enter a title' })
       return
     }
-
-    if (!gradingDate) {
-      setSnackbar({ visible: true, message: 'Please select a grading date' })
+    const examinerNames = examiners
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean)
+    if (examinerNames.length === 0) {
+      setSnackbar({ visible: true, message: 'Please add at least one examiner' })
       return
     }
 
     try {
       setSaving(true)
-      const result = await recordBeltGrading({
-        studentId: student.id,
-        fromBelt,
-        toBelt,
-        gradingDate,
-        createdById: user.id,
+      const result = await createGradingSession({
+        title,
+        sessionDate,
+        branchId,
+        examiners: examinerNames,
+        notes: notes || null,
       })
 
-      if (result.error) {
-        setSnackbar({ visible: true, message: result.error.message })
+      if (result.error || !result.session) {
+        setSnackbar({ visible: true, message: result.error?.message || 'Failed to create session' })
         return
       }
 
-      setSnackbar({ visible: true, message: 'Belt grading recorded successfully! Grading fee has been created.' })
-      setTimeout(() => {
-        router.back()
-      }, 2000)
+      setDialogVisible(false)
+      router.push(`/(admin)/(tabs)/grading-session?id=${result.session.id}`)
     } catch (error) {
-      logger.error('Error recording belt grading', error as Error)
-      setSnackbar({ visible: true, message: 'Failed to record belt grading' })
+      logger.error('Error creating grading session', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to create session' })
     } finally {
       setSaving(false)
     }
   }
 
-  const canUpgrade = (from: string, to: string) => {
-    return isBeltHigher(to, from)
+  const openPrerequisiteDialog = (beltLevel: string) => {
+    const prerequisite = prerequisites.find((p) => p.belt_level === beltLevel)
+    setEditingBelt(beltLevel)
+    setMinMonths(String(prerequisite?.min_months_at_belt ?? 0))
+    setMinAttendance(String(prerequisite?.min_attendance_percentage ?? 0))
+    setMinAge(prerequisite?.min_age_years != null ? String(prerequisite.min_age_years) : '')
   }
 
-  if (loading) {
-    return (
-      <View style={[styles.container, { paddingTop: insets.top }]}>
-        <View style={styles.loadingContainer}>
-          <ActivityIndicator size="large" color="#7B2CBF" />
-          <Text style={styles.loadingText}>Loading student details...</Text>
-        </View>
-      </View>
-    )
-  }
+  const handleSavePrerequisite = async () => {
+    if (!editingBelt) return
 
-  if (!student) {
-    return null
-  }
+    const months = parseInt(minMonths, 10)
+    const attendance = parseInt(minAttendance, 10)
+    const age = minAge.trim() ? parseInt(minAge, 10) : null
 
-  const isValidUpgrade = canUpgrade(fromBelt, toBelt)
+    if (isNaN(months) || months < 0) {
+      setSnackbar({ visible: true, message: 'Please enter the minimum months at the previous belt' })
+      return
+    }
+    if (isNaN(attendance) || attendance < 0 || attendance > 100) {
+      setSnackbar({ visible: true, message: 'Attendance must be between 0 and 100%' })
+      return
+    }
+    if (age !== null && (isNaN(age) || age < 3 || age > 100)) {
+      setSnackbar({ visible: true, message: 'Minimum age must be between 3 and 100' })
+      return
+    }
 
-  return (
-    <KeyboardAvoidingView
-      style={styles.container}
-      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
-      keyboardVerticalOffset={insets.top}
-    >
-      <AdminHeader title="Belt Grading" showBackButton />
+    try {
+      setSavingPrerequisite(true)
+      const result = await saveBeltPrerequisite({
+        beltLevel: editingBelt,
+        minMonthsAtBelt: months,
+        minAttendancePercentage: attendance,
+        minAgeYears: age,
+      })
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      setEditingBelt(null)
+      setSnackbar({ visible: true, message: `${getBeltDisplayName(editingBelt)} prerequisites saved` })
+      await loadData()
+    } catch (error) {
+      logger.error('Error saving belt prerequisite', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to save prerequisites' })
+    } finally {
+      setSavingPrerequisite(false)
+    }
+  }
 
-      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+  const renderReadinessStudent = (readinessStudent: GradingSessionStudent) => {
+    const { eligibility } = readinessStudent
 
-        {/* Student Info Card */}
+    return (
+      <TouchableOpacity
+        key={readinessStudent.id}
+        activeOpacity={0.8}
+        onPress={() => router.push(`/(admin)/(tabs)/student-profile?id=${readinessStudent.id}`)}
+      >
         <Card style={styles.card}>
           <Card.Content>
-            <Text variant="titleMedium" style={styles.cardTitle}>
-              Student Information
-            </Text>
-            <View style={styles.studentInfo}>
-              <View style={styles.studentDetails}>
-                <Text variant="bodyLarge" style={styles.studentName}>
-                  {student.first_name} {student.last_name}
+            <View style={styles.sessionHeader}>
+              <View style={styles.sessionInfo}>
+                <Text variant="titleMedium" style={styles.sessionTitle}>
+                  {readinessStudent.first_name} {readinessStudent.last_name}
                 </Text>
-                <Text variant="bodyMedium" style={styles.studentId}>
-                  {student.student_id}
+                <Text variant="bodySmall" style={styles.meta}>
+                  {getBeltDisplayName(readinessStudent.current_belt)} →{' '}
+                  {getBeltDisplayName(eligibility.nextBelt as string)}
+                </Text>
+                <Text variant="bodySmall" style={styles.meta}>
+                  {eligibility.monthsAtBelt} month(s) at belt •{' '}
+                  {eligibility.attendancePercentage !== null
+                    ? `${eligibility.attendancePercentage}% attendance`
+                    : 'No attendance recorded'}
+                  {eligibility.ageYears !== null ? ` • Age ${eligibility.ageYears}` : ''}
                 </Text>
               </View>
-              <View style={[styles.currentBeltBadge, { backgroundColor: BELT_COLORS[student.current_belt] || '#FFFFFF' }]}>
-                <Text
-                  variant="titleMedium"
-                  style={[styles.beltText, { color: student.current_belt === 'White' || student.current_belt === 'Yellow' ? '#000' : '#FFF' }]}
-                >
-                  {getBeltDisplayName(student.current_belt)}
+              <View
+                style={[styles.statusBadge, { backgroundColor: eligibility.eligible ? '#10B981' : '#F59E0B' }]}
+              >
+                <Text variant="labelSmall" style={styles.statusText}>
+                  {eligibility.eligible ? 'Ready' : 'Not yet'}
                 </Text>
               </View>
             </View>
+
+            {!eligibility.eligible && (
+              <Text variant="bodySmall" style={styles.reasonsText}>
+                {eligibility.reasons.join(' • ')}
+              </Text>
+            )}
           </Card.Content>
         </Card>
+      </TouchableOpacity>
+    )
+  }
 
-        {/* Grading Form Card */}
-        <Card style={styles.card}>
-          <Card.Content>
-            <Text variant="titleMedium" style={styles.cardTitle}>
-              Grading Details
-            </Text>
+  const renderPrerequisite = (beltLevel: string) => {
+    const prerequisite = prerequisites.find((p) => p.belt_level === beltLevel)
 
-            <Text variant="bodyMedium" style={styles.label}>
-              From Belt *
+    return (
+      <Card key={beltLevel} style={styles.card}>
+        <Card.Content style={styles.prerequisiteContent}>
+          <View style={styles.sessionInfo}>
+            <Text variant="titleSmall" style={styles.sessionTitle}>
+              {getBeltDisplayName(beltLevel)}
             </Text>
-            <Menu
-              visible={fromBeltMenuVisible}
-              onDismiss={() => setFromBeltMenuVisible(false)}
-              anchor={
-                <Button
-                  mode="outlined"
-                  onPress={() => {
-                    if (fromBeltMenuVisible) {
-                      setFromBeltMenuVisible(false)
-                    } else {
-                      setTimeout(() => setFromBeltMenuVisible(true), 50)
-                    }
-                  }}
-                  style={styles.input}
-                  icon="arrow-down"
-                >
-                  {fromBelt ? getBeltDisplayName(fromBelt) : 'Select From Belt'}
-                </Button>
-              }
-            >
-              {BELT_LEVELS.map((belt) => (
-                <Menu.Item
-                  key={belt}
-                  onPress={() => {
-                    setFromBelt(belt)
-                    setFromBeltMenuVisible(false)
-                    if (!toBelt || getBeltIndex(belt) >= getBeltIndex(toBelt)) {
-                      setToBelt('')
-                    }
-                  }}
-                  title={getBeltDisplayName(belt)}
-                />
-              ))}
-            </Menu>
-
-            <Text variant="bodyMedium" style={styles.label}>
-              To Belt *
+            <Text variant="bodySmall" style={styles.meta}>
+              {formatPrerequisite(prerequisite)}
             </Text>
-            <Menu
-              visible={toBeltMenuVisible}
-              onDismiss={() => setToBeltMenuVisible(false)}
-              anchor={
-                <Button
-                  mode="outlined"
-                  onPress={() => {
-                    if (toBeltMenuVisible) {
-                      setToBeltMenuVisible(false)
-                    } else {
-                      setTimeout(() => setToBeltMenuVisible(true), 50)
-                    }
-                  }}
-                  style={styles.input}
-                  icon="arrow-up"
-                  disabled={!fromBelt}
-                >
-                  {toBelt ? getBeltDisplayName(toBelt) : 'Select To Belt'}
-                </Button>
-              }
+          </View>
+          <Button
+            mode="text"
+            compact
+            onPress={() => router.push(`/(admin)/(tabs)/belt-requirements?belt=${encodeURIComponent(beltLevel)}`)}
+            textColor="#7B2CBF"
+          >
+            Syllabus
+          </Button>
+          {isSuperAdmin && (
+            <Button mode="text" compact onPress={() => openPrerequisiteDialog(beltLevel)} textColor="#7B2CBF">
+              Edit
+            </Button>
+          )}
+        </Card.Content>
+      </Card>
+    )
+  }
+
+  const renderContent = () => {
+    if (view === 'ready') {
+      const readyCount = readiness.filter((s) => s.eligibility.eligible).length
+
+      return readiness.length === 0 ? (
+        <Text variant="bodyMedium" style={styles.emptyText}>
+          No students to grade
+        </Text>
+      ) : (
+        <>
+          <Text variant="bodyMedium" style={styles.summaryText}>
+            {readyCount} of {readiness.length} student(s) meet the prerequisites for their next belt
+          </Text>
+          {readiness.map(renderReadinessStudent)}
+        </>
+      )
+    }
+
+    if (view === 'prerequisites') {
+      // The first belt of each programme is never graded for
+      return (
+        <>
+          {isSuperAdmin && (
+            <Button
+              mode="outlined"
+              onPress={() => router.push('/(admin)/(tabs)/belt-syllabus')}
+              icon="karate"
+              textColor="#7B2CBF"
+              style={styles.newButton}
             >
-              {BELT_LEVELS.filter((belt) => isBeltHigher(belt, fromBelt)).map((belt) => (
-                <Menu.Item
-                  key={belt}
-                  onPress={() => {
-                    setToBelt(belt)
-                    setToBeltMenuVisible(false)
-                  }}
-                  title={getBeltDisplayName(belt)}
-                />
-              ))}
-            </Menu>
-
-            {fromBelt && toBelt && !isValidUpgrade && (
-              <View style={styles.warningBox}>
-                <MaterialCommunityIcons name="alert-circle" size={20} color="#F59E0B" />
-                <Text variant="bodySmall" style={styles.warningText}>
-                  To belt must be higher than from belt
+              Edit Belt Syllabus
+            </Button>
+          )}
+          {getBeltLevels().filter(isGradableBelt).map(renderPrerequisite)}
+        </>
+      )
+    }
+
+    return sessions.length === 0 ? (
+      <Text variant="bodyMedium" style={styles.emptyText}>
+        No {STATUS_LABELS[view].toLowerCase()} grading sessions
+      </Text>
+    ) : (
+      sessions.map(renderSession)
+    )
+  }
+
+  const renderSession = (session: GradingSessionSummary) => {
+    const canRegister = !!student && session.status === 'scheduled'
+
+    return (
+      <TouchableOpacity key={session.id} activeOpacity={0.8} onPress={() => openSession(session)}>
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.sessionHeader}>
+              <View style={styles.sessionInfo}>
+                <Text variant="titleMedium" style={styles.sessionTitle}>
+                  {session.title}
+                </Text>
+                <Text variant="bodySmall" style={styles.meta}>
+                  {format(new Date(session.session_date + 'T00:00:00'), 'EEE, dd MMM yyyy')} •{' '}
+                  {session.branch?.name || 'All branches'}
+                </Text>
+                <Text variant="bodySmall" style={styles.meta}>
+                  Examiners: {session.examiners.join(', ')}
+                </Text>
+              </View>
+              <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[session.status] }]}>
+                <Text variant="labelSmall" style={styles.statusText}>
+                  {STATUS_LABELS[session.status]}
                 </Text>
               </View>
+            </View>
+
+            <View style={styles.countsRow}>
+              <Text variant="bodySmall" style={styles.count}>
+                {session.candidate_count} candidate(s)
+              </Text>
+              {session.result_counts.pass > 0 && (
+                <Text variant="bodySmall" style={[styles.count, styles.countPass]}>
+                  {session.result_counts.pass} passed
+                </Text>
+              )}
+              {session.result_counts.fail > 0 && (
+                <Text variant="bodySmall" style={[styles.count, styles.countFail]}>
+                  {session.result_counts.fail} failed
+                </Text>
+              )}
+              {session.result_counts.deferred > 0 && (
+                <Text variant="bodySmall" style={styles.count}>
+                  {session.result_counts.deferred} deferred
+                </Text>
+              )}
+            </View>
+
+            {canRegister && (
+              <Button
+                mode="contained"
+                onPress={() => handleRegisterStudent(session)}
+                loading={registering === session.id}
+                disabled={!!registering}
+                buttonColor="#7B2CBF"
+                icon="account-plus"
+                style={styles.registerButton}
+              >
+                Register {student.first_name}
+              </Button>
             )}
+          </Card.Content>
+        </Card>
+      </TouchableOpacity>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      <AdminHeader title="Belt Gradings" showBackButton />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 16 }]}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {student && (
+          <Card style={[styles.card, styles.studentBanner]}>
+            <Card.Content style={styles.bannerContent}>
+              <MaterialCommunityIcons name="trophy" size={24} color="#7B2CBF" />
+              <View style={styles.sessionInfo}>
+                <Text variant="titleSmall" style={styles.sessionTitle}>
+                  Register {student.first_name} {student.last_name}
+                </Text>
+                <Text variant="bodySmall" style={styles.meta}>
+                  Currently {getBeltDisplayName(student.current_belt)}. Choose a scheduled session below.
+                </Text>
+              </View>
+            </Card.Content>
+          </Card>
+        )}
+
+        <View style={styles.filterRow}>
+          {(Object.keys(VIEW_LABELS) as GradingView[]).map((option) => (
+            <Chip key={option} selected={view === option} onPress={() => setView(option)}>
+              {VIEW_LABELS[option]}
+            </Chip>
+          ))}
+        </View>
+
+        {view !== 'ready' && view !== 'prerequisites' && (
+          <Button
+            mode="contained"
+            onPress={openCreateDialog}
+            icon="plus"
+            buttonColor="#7B2CBF"
+            style={styles.newButton}
+          >
+            New Grading Session
+          </Button>
+        )}
+
+        {loading && !refreshing ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#7B2CBF" />
+          </View>
+        ) : (
+          renderContent()
+        )}
+      </ScrollView>
 
+      <Dialog visible={dialogVisible} onDismiss={() => setDialogVisible(false)}>
+        <Dialog.Title>New Grading Session</Dialog.Title>
+        <Dialog.ScrollArea style={styles.dialogScrollArea}>
+          <ScrollView>
+            <TextInput
+              label="Title"
+              value={title}
+              onChangeText={setTitle}
+              mode="outlined"
+              placeholder="e.g. Summer Kyu Grading"
+              style={styles.dialogInput}
+            />
             <DatePicker
-              label="Grading Date *"
-              value={gradingDate}
-              onChange={setGradingDate}
-              placeholder="Select grading date"
+              label="Grading Date"
+              value={sessionDate}
+              onChange={setSessionDate}
               disabled={saving}
-              style={styles.input}
-              maximumDate={new Date()}
+              style={styles.dialogInput}
             />
-
-            {fromBelt && toBelt && isValidUpgrade && (
-              <View style={styles.beltPreview}>
-                <View style={styles.beltTransition}>
-                  <View style={[styles.beltBadge, { backgroundColor: BELT_COLORS[fromBelt] || '#FFFFFF' }]}>
-                    <Text
-                      variant="bodyMedium"
-                      style={[styles.beltText, { color: fromBelt === 'White' || fromBelt === 'Yellow' ? '#000' : '#FFF' }]}
-                    >
-                      {getBeltDisplayName(fromBelt)}
-                    </Text>
-                  </View>
-                  <MaterialCommunityIcons name="arrow-right" size={24} color="#7B2CBF" />
-                  <View style={[styles.beltBadge, { backgroundColor: BELT_COLORS[toBelt] || '#FFFFFF' }]}>
-                    <Text
-                      variant="bodyMedium"
-                      style={[styles.beltText, { color: toBelt === 'White' || toBelt === 'Yellow' ? '#000' : '#FFF' }]}
-                    >
-                      {getBeltDisplayName(toBelt)}
-                    </Text>
-                  </View>
-                </View>
-                <Text variant="bodySmall" style={styles.previewText}>
-                  Student will be upgraded from {getBeltDisplayName(fromBelt)} to {getBeltDisplayName(toBelt)}
-                </Text>
+            {isSuperAdmin && (
+              <View style={styles.chipRow}>
+                <Chip selected={branchId === null} onPress={() => setBranchId(null)}>
+                  All Branches
+                </Chip>
+                {branches.map((branch) => (
+                  <Chip key={branch.id} selected={branchId === branch.id} onPress={() => setBranchId(branch.id)}>
+                    {branch.name}
+                  </Chip>
+                ))}
               </View>
             )}
+            <TextInput
+              label="Examiners (comma separated)"
+              value={examiners}
+              onChangeText={setExaminers}
+              mode="outlined"
+              style={styles.dialogInput}
+            />
+            <TextInput
+              label="Notes (optional)"
+              value={notes}
+              onChangeText={setNotes}
+              mode="outlined"
+              multiline
+              numberOfLines={3}
+              style={styles.dialogInput}
+            />
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={() => setDialogVisible(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onPress={handleCreateSession} loading={saving} mode="contained" buttonColor="#7B2CBF">
+            Create
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
 
-            <Button
-              mode="contained"
-              onPress={handleSubmit}
-              loading={saving}
-              disabled={saving || !fromBelt || !toBelt || !isValidUpgrade || !gradingDate}
-              style={styles.submitButton}
-              buttonColor="#7B2CBF"
-              icon="trophy"
-            >
-              Record Grading
-            </Button>
-          </Card.Content>
-        </Card>
-      </ScrollView>
+      <Dialog visible={!!editingBelt} onDismiss={() => setEditingBelt(null)}>
+        <Dialog.Title>{editingBelt ? `${getBeltDisplayName(editingBelt)} Prerequisites` : ''}</Dialog.Title>
+        <Dialog.Content>
+          <TextInput
+            label="Minimum months at previous belt"
+            value={minMonths}
+            onChangeText={setMinMonths}
+            mode="outlined"
+            keyboardType="number-pad"
+            style={styles.dialogInput}
+          />
+          <TextInput
+            label="Minimum attendance %"
+            value={minAttendance}
+            onChangeText={setMinAttendance}
+            mode="outlined"
+            keyboardType="number-pad"
+            style={styles.dialogInput}
+          />
+          <TextInput
+            label="Minimum age (optional)"
+            value={minAge}
+            onChangeText={setMinAge}
+            mode="outlined"
+            keyboardType="number-pad"
+            style={styles.dialogInput}
+          />
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={() => setEditingBelt(null)} disabled={savingPrerequisite}>
+            Cancel
+          </Button>
+          <Button
+            onPress={handleSavePrerequisite}
+            loading={savingPrerequisite}
+            mode="contained"
+            buttonColor="#7B2CBF"
+          >
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
 
       <Snackbar
         visible={snackbar.visible}
@@ -309,7 +718,7 @@ export default function BeltGradingScreen() {
       >
         {snackbar.message}
       </Snackbar>
-    </KeyboardAvoidingView>
+    </View>
   )
 }
 
@@ -325,101 +734,107 @@ const styles = StyleSheet.create({
     padding: 16,
   },
   loadingContainer: {
-    flex: 1,
-    justifyContent: 'center',
+    paddingVertical: 48,
     alignItems: 'center',
   },
-  loadingText: {
-    marginTop: 16,
-    color: '#6B7280',
-  },
   card: {
-    marginBottom: 16,
+    marginBottom: 12,
     elevation: 1,
     backgroundColor: '#FFFFFF',
   },
-  cardTitle: {
-    fontWeight: '600',
-    color: '#1A1A1A',
-    marginBottom: 16,
+  studentBanner: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#7B2CBF',
   },
-  studentInfo: {
+  bannerContent: {
     flexDirection: 'row',
-    justifyContent: 'space-between',
     alignItems: 'center',
+    gap: 12,
   },
-  studentDetails: {
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  newButton: {
+    marginBottom: 16,
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  sessionInfo: {
     flex: 1,
   },
-  studentName: {
+  sessionTitle: {
     fontWeight: '600',
     color: '#1A1A1A',
     marginBottom: 4,
   },
-  studentId: {
+  meta: {
     color: '#6B7280',
+    marginTop: 2,
   },
-  currentBeltBadge: {
-    paddingHorizontal: 16,
-    paddingVertical: 8,
-    borderRadius: 20,
-    borderWidth: 2,
-    borderColor: '#E5E7EB',
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
   },
-  beltBadge: {
-    paddingHorizontal: 16,
-    paddingVertical: 8,
-    borderRadius: 20,
-    borderWidth: 2,
-    borderColor: '#E5E7EB',
-    minWidth: 80,
-    alignItems: 'center',
+  statusText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
   },
-  beltText: {
-    fontWeight: 'bold',
+  countsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 12,
   },
-  label: {
-    marginBottom: 8,
-    color: '#1A1A1A',
+  count: {
+    color: '#6B7280',
     fontWeight: '500',
   },
-  input: {
-    marginBottom: 16,
+  countPass: {
+    color: '#10B981',
   },
-  warningBox: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 8,
-    padding: 12,
-    backgroundColor: '#FFFBEB',
-    borderRadius: 8,
-    marginBottom: 16,
+  countFail: {
+    color: '#DC2626',
   },
-  warningText: {
-    color: '#D97706',
-    flex: 1,
+  registerButton: {
+    marginTop: 12,
   },
-  beltPreview: {
+  reasonsText: {
+    color: '#D97706',
     marginTop: 8,
-    marginBottom: 16,
-    padding: 16,
-    backgroundColor: '#F9FAFB',
-    borderRadius: 8,
   },
-  beltTransition: {
+  summaryText: {
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  prerequisiteContent: {
     flexDirection: 'row',
     alignItems: 'center',
-    justifyContent: 'center',
-    gap: 16,
-    marginBottom: 8,
+    gap: 12,
   },
-  previewText: {
-    textAlign: 'center',
+  emptyText: {
     color: '#6B7280',
-    marginTop: 8,
+    textAlign: 'center',
+    marginTop: 32,
   },
-  submitButton: {
-    marginTop: 8,
+  dialogScrollArea: {
+    maxHeight: 480,
+    paddingHorizontal: 24,
+    paddingTop: 8,
+  },
+  dialogInput: {
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
   },
 })
-
@@ -0,0 +1,408 @@
+import React, { useState, useEffect } from 'react'
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native'
+import { Text, Card, Button, ActivityIndicator, Snackbar, Chip, Dialog, TextInput, IconButton } from 'react-native-paper'
+import { useLocalSearchParams } from 'expo-router'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { useAuth } from '@/context/AuthContext'
+import { getBeltColor, getBeltGrade } from '@/lib/belts'
+import {
+  getBeltSyllabusItems,
+  saveBeltSyllabusItem,
+  deleteBeltSyllabusItem,
+  SYLLABUS_CATEGORY_LABELS,
+  type BeltSyllabusItem,
+  type SyllabusCategory,
+} from '@/lib/belt-syllabus'
+import { getProfileByUserId } from '@/lib/profiles'
+import { logger } from '@/lib/logger'
+import { AdminHeader } from '@/components/admin/AdminHeader'
+import { ConfirmDialog } from '@/components/shared/ConfirmDialog'
+import { extractYouTubeVideoId } from '@/components/public/YouTubePlayer'
+
+const CATEGORIES = Object.keys(SYLLABUS_CATEGORY_LABELS) as SyllabusCategory[]
+
+/**
+ * Syllabus for one belt: the kata, techniques and kumite students show at grading for it
+ * Everyone can view it; only super admins can change it
+ */
+export default function BeltRequirementsScreen() {
+  const params = useLocalSearchParams()
+  const insets = useSafeAreaInsets()
+  const { user } = useAuth()
+  const belt = params.belt as string
+
+  const [items, setItems] = useState<BeltSyllabusItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [isSuperAdmin, setIsSuperAdmin] = useState(false)
+  const [snackbar, setSnackbar] = useState({ visible: false, message: '' })
+
+  // Item dialog
+  const [dialogVisible, setDialogVisible] = useState(false)
+  const [editingItem, setEditingItem] = useState<BeltSyllabusItem | null>(null)
+  const [category, setCategory] = useState<SyllabusCategory>('kata')
+  const [title, setTitle] = useState('')
+  const [description, setDescription] = useState('')
+  const [youtubeUrl, setYoutubeUrl] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const [deletingItem, setDeletingItem] = useState<BeltSyllabusItem | null>(null)
+  const [deleting, setDeleting] = useState(false)
+
+  useEffect(() => {
+    loadUserProfile()
+  }, [user])
+
+  useEffect(() => {
+    if (belt) {
+      loadItems()
+    }
+  }, [belt])
+
+  const loadUserProfile = async () => {
+    if (!user?.id) return
+
+    try {
+      const result = await getProfileByUserId(user.id)
+      setIsSuperAdmin(result.profile?.role === 'super_admin')
+    } catch (error) {
+      logger.error('Error loading user profile', error as Error)
+    }
+  }
+
+  const loadItems = async () => {
+    try {
+      const result = await getBeltSyllabusItems(belt)
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+      setItems(result.items)
+    } catch (error) {
+      logger.error('Error loading belt syllabus items', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to load syllabus' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadItems()
+    setRefreshing(false)
+  }
+
+  const openDialog = (item: BeltSyllabusItem | null, forCategory?: SyllabusCategory) => {
+    setEditingItem(item)
+    setCategory(item?.category || forCategory || 'kata')
+    setTitle(item?.title || '')
+    setDescription(item?.description || '')
+    setYoutubeUrl(item?.youtube_url || '')
+    setDialogVisible(true)
+  }
+
+  const handleSave = async () => {
+    if (!title.trim()) {
+      setSnackbar({ visible: true, message: 'Please enter a title' })
+      return
+    }
+    if (youtubeUrl.trim() && !extractYouTubeVideoId(youtubeUrl.trim())) {
+      setSnackbar({ visible: true, message: 'Please enter a valid YouTube link' })
+      return
+    }
+
+    try {
+      setSaving(true)
+      const result = await saveBeltSyllabusItem({
+        id: editingItem?.id || null,
+        beltLevel: belt,
+        category,
+        title,
+        description: description || null,
+        youtubeUrl: youtubeUrl || null,
+      })
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      setDialogVisible(false)
+      setSnackbar({ visible: true, message: editingItem ? 'Requirement updated' : 'Requirement added' })
+      loadItems()
+    } catch (error) {
+      logger.error('Error saving belt syllabus item', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to save requirement' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deletingItem) return
+
+    try {
+      setDeleting(true)
+      const result = await deleteBeltSyllabusItem(deletingItem.id)
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+      setDeletingItem(null)
+      setSnackbar({ visible: true, message: 'Requirement deleted' })
+      loadItems()
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <AdminHeader title={`${belt} Belt Syllabus`} showBackButton />
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#7B2CBF" />
+        </View>
+      </View>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      <AdminHeader title={`${belt} Belt Syllabus`} showBackButton />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 16 }]}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <View style={styles.beltRow}>
+          <View style={[styles.beltDot, { backgroundColor: getBeltColor(belt) || '#E5E7EB' }]} />
+          <Text variant="bodyMedium" style={styles.hint}>
+            What students show at grading for {belt}
+            {getBeltGrade(belt) ? ` (${getBeltGrade(belt)})` : ''}. Instructors tick items off on each student's
+            profile.
+          </Text>
+        </View>
+
+        {CATEGORIES.map((categoryKey) => {
+          const categoryItems = items.filter((i) => i.category === categoryKey)
+          return (
+            <View key={categoryKey} style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  {SYLLABUS_CATEGORY_LABELS[categoryKey]}
+                </Text>
+                {isSuperAdmin && (
+                  <Button mode="text" compact icon="plus" textColor="#7B2CBF" onPress={() => openDialog(null, categoryKey)}>
+                    Add
+                  </Button>
+                )}
+              </View>
+              {categoryItems.length === 0 ? (
+                <Text variant="bodySmall" style={styles.emptyText}>
+                  Nothing added yet
+                </Text>
+              ) : (
+                categoryItems.map((item) => (
+                  <Card key={item.id} style={styles.card}>
+                    <Card.Content style={styles.itemContent}>
+                      <View style={styles.itemInfo}>
+                        <Text variant="titleSmall" style={styles.itemTitle}>
+                          {item.title}
+                        </Text>
+                        {item.description && (
+                          <Text variant="bodySmall" style={styles.meta}>
+                            {item.description}
+                          </Text>
+                        )}
+                        {item.youtube_url && (
+                          <View style={styles.videoRow}>
+                            <MaterialCommunityIcons name="youtube" size={14} color="#DC2626" />
+                            <Text variant="bodySmall" style={styles.meta} numberOfLines={1}>
+                              {item.youtube_url}
+                            </Text>
+                          </View>
+                        )}
+                      </View>
+                      {isSuperAdmin && (
+                        <View style={styles.itemActions}>
+                          <IconButton icon="pencil" size={18} onPress={() => openDialog(item)} iconColor="#7B2CBF" />
+                          <IconButton icon="delete" size={18} onPress={() => setDeletingItem(item)} iconColor="#DC2626" />
+                        </View>
+                      )}
+                    </Card.Content>
+                  </Card>
+                ))
+              )}
+            </View>
+          )
+        })}
+      </ScrollView>
+
+      <Dialog visible={dialogVisible} onDismiss={() => setDialogVisible(false)}>
+        <Dialog.Title>{editingItem ? 'Edit Requirement' : 'Add Requirement'}</Dialog.Title>
+        <Dialog.ScrollArea style={styles.dialogScrollArea}>
+          <ScrollView>
+            <View style={styles.chipRow}>
+              {CATEGORIES.map((categoryKey) => (
+                <Chip key={categoryKey} selected={category === categoryKey} onPress={() => setCategory(categoryKey)}>
+                  {SYLLABUS_CATEGORY_LABELS[categoryKey]}
+                </Chip>
+              ))}
+            </View>
+            <TextInput
+              label="Title"
+              value={title}
+              onChangeText={setTitle}
+              mode="outlined"
+              placeholder={category === 'kata' ? 'e.g. Heian Shodan' : 'e.g. Oi-zuki (stepping punch)'}
+              style={styles.dialogInput}
+            />
+            <TextInput
+              label="Description (optional)"
+              value={description}
+              onChangeText={setDescription}
+              mode="outlined"
+              multiline
+              numberOfLines={3}
+              style={styles.dialogInput}
+            />
+            <TextInput
+              label="YouTube demo link (optional)"
+              value={youtubeUrl}
+              onChangeText={setYoutubeUrl}
+              mode="outlined"
+              autoCapitalize="none"
+              keyboardType="url"
+              style={styles.dialogInput}
+            />
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={() => setDialogVisible(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onPress={handleSave} loading={saving} mode="contained" buttonColor="#7B2CBF">
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+
+      <ConfirmDialog
+        visible={!!deletingItem}
+        title="Delete Requirement"
+        message={`Delete "${deletingItem?.title}"? Students' tick-offs for it will be removed too.`}
+        confirmLabel="Delete"
+        confirmColor="#DC2626"
+        loading={deleting}
+        onConfirm={handleDelete}
+        onCancel={() => setDeletingItem(null)}
+      />
+
+      <Snackbar
+        visible={snackbar.visible}
+        onDismiss={() => setSnackbar({ visible: false, message: '' })}
+        duration={3000}
+      >
+        {snackbar.message}
+      </Snackbar>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFF8E7',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  beltRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    marginBottom: 16,
+  },
+  beltDot: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+    borderColor: '#E5E7EB',
+    marginTop: 2,
+  },
+  hint: {
+    flex: 1,
+    color: '#6B7280',
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  emptyText: {
+    color: '#6B7280',
+  },
+  card: {
+    marginBottom: 8,
+    elevation: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  itemContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  meta: {
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  videoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 2,
+  },
+  itemActions: {
+    flexDirection: 'row',
+  },
+  dialogScrollArea: {
+    maxHeight: 480,
+    paddingHorizontal: 24,
+    paddingTop: 8,
+  },
+  dialogInput: {
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+})
@@ -0,0 +1,407 @@
+import React, { useState, useEffect } from 'react'
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native'
+import { Text, Card, Button, Snackbar, Chip, Dialog, TextInput, Switch, IconButton } from 'react-native-paper'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { useAuth } from '@/context/AuthContext'
+import { getBeltGrade, DEFAULT_PROGRAMME, type BeltRank, type BeltGradeType } from '@/lib/belts'
+import { loadBeltSyllabus, saveBeltRank, moveBeltRank } from '@/lib/belt-syllabus'
+import { getProfileByUserId } from '@/lib/profiles'
+import { logger } from '@/lib/logger'
+import { useBeltSyllabus } from '@/hooks/useBeltSyllabus'
+import { AdminHeader } from '@/components/admin/AdminHeader'
+
+const HEX_COLOR = /^#[0-9A-Fa-f]{6}$/
+
+/**
+ * Belt syllabus editor: the belts of each programme, their colours, grades and order
+ * Everyone can view it; only super admins can change it
+ */
+export default function BeltSyllabusScreen() {
+  const insets = useSafeAreaInsets()
+  const { user } = useAuth()
+  const ranks = useBeltSyllabus()
+
+  const [isSuperAdmin, setIsSuperAdmin] = useState(false)
+  const [refreshing, setRefreshing] = useState(false)
+  const [movingId, setMovingId] = useState<string | null>(null)
+  const [snackbar, setSnackbar] = useState({ visible: false, message: '' })
+
+  // Belt dialog
+  const [dialogVisible, setDialogVisible] = useState(false)
+  const [editingRank, setEditingRank] = useState<BeltRank | null>(null)
+  const [name, setName] = useState('')
+  const [programme, setProgramme] = useState(DEFAULT_PROGRAMME)
+  const [color, setColor] = useState('#FFFFFF')
+  const [stripeColor, setStripeColor] = useState('')
+  const [gradeType, setGradeType] = useState<BeltGradeType>('kyu')
+  const [gradeNumber, setGradeNumber] = useState('')
+  const [isActive, setIsActive] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadUserProfile()
+  }, [user])
+
+  const loadUserProfile = async () => {
+    if (!user?.id) return
+
+    try {
+      const result = await getProfileByUserId(user.id)
+      setIsSuperAdmin(result.profile?.role === 'super_admin')
+    } catch (error) {
+      logger.error('Error loading user profile', error as Error)
+    }
+  }
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    const result = await loadBeltSyllabus(true)
+    if (result.error) {
+      setSnackbar({ visible: true, message: result.error.message })
+    }
+    setRefreshing(false)
+  }
+
+  const programmes = [...new Set(ranks.map((r) => r.programme))]
+
+  const openDialog = (rank: BeltRank | null, forProgramme?: string) => {
+    setEditingRank(rank)
+    setName(rank?.name || '')
+    setProgramme(rank?.programme || forProgramme || DEFAULT_PROGRAMME)
+    setColor(rank?.color || '#FFFFFF')
+    setStripeColor(rank?.stripe_color || '')
+    setGradeType(rank?.grade_type || 'kyu')
+    setGradeNumber(rank ? String(rank.grade_number) : '')
+    setIsActive(rank?.is_active ?? true)
+    setDialogVisible(true)
+  }
+
+  const handleSave = async () => {
+    const grade = parseInt(gradeNumber, 10)
+
+    if (!editingRank && !name.trim()) {
+      setSnackbar({ visible: true, message: 'Please enter a belt name' })
+      return
+    }
+    if (!programme.trim()) {
+      setSnackbar({ visible: true, message: 'Please enter a programme' })
+      return
+    }
+    if (!HEX_COLOR.test(color) || (stripeColor && !HEX_COLOR.test(stripeColor))) {
+      setSnackbar({ visible: true, message: 'Colours must be hex values like #FFEB3B' })
+      return
+    }
+    if (isNaN(grade) || grade < 1 || grade > 10) {
+      setSnackbar({ visible: true, message: 'Grade number must be between 1 and 10' })
+      return
+    }
+
+    try {
+      setSaving(true)
+      const result = await saveBeltRank({
+        id: editingRank?.id || null,
+        name,
+        programme,
+        color,
+        stripeColor: stripeColor || null,
+        gradeType,
+        gradeNumber: grade,
+        isActive,
+      })
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      setDialogVisible(false)
+      setSnackbar({ visible: true, message: editingRank ? 'Belt updated' : 'Belt added' })
+    } catch (error) {
+      logger.error('Error saving belt', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to save belt' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleMove = async (rank: BeltRank, direction: 'up' | 'down') => {
+    try {
+      setMovingId(rank.id)
+      const result = await moveBeltRank(rank.id, direction)
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+      }
+    } finally {
+      setMovingId(null)
+    }
+  }
+
+  const renderRank = (rank: BeltRank, index: number, ladder: BeltRank[]) => (
+    <Card key={rank.id} style={[styles.card, !rank.is_active && styles.retiredCard]}>
+      <Card.Content style={styles.rankContent}>
+        <View style={[styles.swatch, { backgroundColor: rank.color }]}>
+          {rank.stripe_color && <View style={[styles.stripe, { backgroundColor: rank.stripe_color }]} />}
+        </View>
+        <View style={styles.rankInfo}>
+          <Text variant="titleSmall" style={styles.rankName}>
+            {rank.name}
+          </Text>
+          <Text variant="bodySmall" style={styles.meta}>
+            {getBeltGrade(rank.name)}
+            {!rank.is_active ? ' • Retired' : ''}
+          </Text>
+        </View>
+        {isSuperAdmin && (
+          <View style={styles.rankActions}>
+            <IconButton
+              icon="arrow-up"
+              size={18}
+              onPress={() => handleMove(rank, 'up')}
+              disabled={index === 0 || !!movingId}
+              iconColor="#6B7280"
+            />
+            <IconButton
+              icon="arrow-down"
+              size={18}
+              onPress={() => handleMove(rank, 'down')}
+              disabled={index === ladder.length - 1 || !!movingId}
+              iconColor="#6B7280"
+            />
+            <IconButton icon="pencil" size={18} onPress={() => openDialog(rank)} iconColor="#7B2CBF" />
+          </View>
+        )}
+      </Card.Content>
+    </Card>
+  )
+
+  return (
+    <View style={styles.container}>
+      <AdminHeader title="Belt Syllabus" showBackButton />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 16 }]}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <Text variant="bodySmall" style={styles.hint}>
+          Students grade up through the belts of their programme in this order. Retired belts stay on existing
+          records but are no longer offered.
+        </Text>
+
+        {isSuperAdmin && (
+          <Button
+            mode="contained"
+            onPress={() => openDialog(null)}
+            icon="plus"
+            buttonColor="#7B2CBF"
+            style={styles.addButton}
+          >
+            Add Belt
+          </Button>
+        )}
+
+        {programmes.map((programmeName) => {
+          const ladder = ranks.filter((r) => r.programme === programmeName)
+          return (
+            <View key={programmeName} style={styles.section}>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                {programmeName}
+              </Text>
+              {ladder.map(renderRank)}
+            </View>
+          )
+        })}
+      </ScrollView>
+
+      <Dialog visible={dialogVisible} onDismiss={() => setDialogVisible(false)}>
+        <Dialog.Title>{editingRank ? `Edit ${editingRank.name}` : 'Add Belt'}</Dialog.Title>
+        <Dialog.ScrollArea style={styles.dialogScrollArea}>
+          <ScrollView>
+            {!editingRank && (
+              <TextInput
+                label="Belt name"
+                value={name}
+                onChangeText={setName}
+                mode="outlined"
+                placeholder="e.g. Yellow Stripe"
+                style={styles.dialogInput}
+              />
+            )}
+            <TextInput
+              label="Programme"
+              value={programme}
+              onChangeText={setProgramme}
+              mode="outlined"
+              style={styles.dialogInput}
+            />
+            <View style={styles.chipRow}>
+              {programmes.map((programmeName) => (
+                <Chip
+                  key={programmeName}
+                  selected={programme === programmeName}
+                  onPress={() => setProgramme(programmeName)}
+                >
+                  {programmeName}
+                </Chip>
+              ))}
+            </View>
+            <View style={styles.colorRow}>
+              <TextInput
+                label="Colour"
+                value={color}
+                onChangeText={setColor}
+                mode="outlined"
+                autoCapitalize="characters"
+                style={styles.colorInput}
+              />
+              <View style={[styles.swatch, { backgroundColor: HEX_COLOR.test(color) ? color : '#FFFFFF' }]}>
+                {HEX_COLOR.test(stripeColor) && <View style={[styles.stripe, { backgroundColor: stripeColor }]} />}
+              </View>
+            </View>
+            <TextInput
+              label="Stripe colour (optional)"
+              value={stripeColor}
+              onChangeText={setStripeColor}
+              mode="outlined"
+              autoCapitalize="characters"
+              style={styles.dialogInput}
+            />
+            <View style={styles.chipRow}>
+              {(['kyu', 'dan'] as BeltGradeType[]).map((type) => (
+                <Chip key={type} selected={gradeType === type} onPress={() => setGradeType(type)}>
+                  {type === 'kyu' ? 'Kyu' : 'Dan'}
+                </Chip>
+              ))}
+            </View>
+            <TextInput
+              label={gradeType === 'kyu' ? 'Kyu (10 = first belt, 1 = last before Dan)' : 'Dan (1-10)'}
+              value={gradeNumber}
+              onChangeText={setGradeNumber}
+              mode="outlined"
+              keyboardType="number-pad"
+              style={styles.dialogInput}
+            />
+            {editingRank && (
+              <View style={styles.switchRow}>
+                <Text variant="bodyMedium">Offered to students</Text>
+                <Switch value={isActive} onValueChange={setIsActive} />
+              </View>
+            )}
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={() => setDialogVisible(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onPress={handleSave} loading={saving} mode="contained" buttonColor="#7B2CBF">
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+
+      <Snackbar
+        visible={snackbar.visible}
+        onDismiss={() => setSnackbar({ visible: false, message: '' })}
+        duration={3000}
+      >
+        {snackbar.message}
+      </Snackbar>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFF8E7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  hint: {
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  addButton: {
+    marginBottom: 16,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 8,
+  },
+  card: {
+    marginBottom: 8,
+    elevation: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  retiredCard: {
+    opacity: 0.6,
+  },
+  rankContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  swatch: {
+    width: 48,
+    height: 16,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    alignItems: 'flex-end',
+  },
+  stripe: {
+    width: 8,
+    height: '100%',
+    marginRight: 8,
+  },
+  rankInfo: {
+    flex: 1,
+  },
+  rankName: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  meta: {
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  rankActions: {
+    flexDirection: 'row',
+  },
+  dialogScrollArea: {
+    maxHeight: 480,
+    paddingHorizontal: 24,
+    paddingTop: 8,
+  },
+  dialogInput: {
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  colorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  colorInput: {
+    flex: 1,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+})
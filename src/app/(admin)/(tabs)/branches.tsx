@@ -176,7 +176,7 @@ export default function BranchesScreen() {
     if (!user?.id) return
 
     try {
-      const result = await deleteBranch(branchId, user.id)
+      const result = await deleteBranch(branchId)
       if (result.error) {
         setSnackbar({ visible: true, message: result.error.message })
       } else {
@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { View, StyleSheet, Vibration } from 'react-native'
+import { Text, Button, ActivityIndicator } from 'react-native-paper'
+import { useLocalSearchParams } from 'expo-router'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { CameraView, useCameraPermissions, type BarcodeScanningResult } from 'expo-camera'
+import { getClassAttendance, markAttendance, parseCheckInQrValue } from '@/lib/attendance'
+import { logger } from '@/lib/logger'
+import { AdminHeader } from '@/components/admin/AdminHeader'
+
+// The camera reports the same code many times a second while it's in view
+const SAME_CODE_COOLDOWN_MS = 3000
+const FEEDBACK_DURATION_MS = 2500
+
+type ScanFeedback = { type: 'success' | 'duplicate' | 'error'; message: string }
+
+const FEEDBACK_STYLES = {
+  success: { icon: 'check-circle', color: '#10B981' },
+  duplicate: { icon: 'account-check', color: '#F59E0B' },
+  error: { icon: 'alert-circle', color: '#EF4444' },
+} as const
+
+/**
+ * Check-in mode for a class session: the instructor's phone scans students' QR codes
+ * and marks each of them present
+ */
+export default function CheckInScannerScreen() {
+  const params = useLocalSearchParams()
+  const insets = useSafeAreaInsets()
+  const sessionId = params.sessionId as string
+  const sessionTitle = (params.title as string) || 'Class Session'
+
+  const [permission, requestPermission] = useCameraPermissions()
+  const [loading, setLoading] = useState(true)
+  // Students present in the session, by ID, with their names
+  const [presentStudents, setPresentStudents] = useState<Map<string, string>>(new Map())
+  const [recentCheckIns, setRecentCheckIns] = useState<string[]>([])
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null)
+
+  // Refs, as scans arrive faster than state updates
+  const presentIdsRef = useRef<Set<string>>(new Set())
+  const processingRef = useRef(false)
+  const lastScanRef = useRef<{ data: string; at: number } | null>(null)
+  const feedbackTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    if (sessionId) {
+      loadPresentStudents()
+    } else {
+      setLoading(false)
+    }
+  }, [sessionId])
+
+  useEffect(() => {
+    return () => {
+      if (feedbackTimeoutRef.current) clearTimeout(feedbackTimeoutRef.current)
+    }
+  }, [])
+
+  const loadPresentStudents = async () => {
+    try {
+      const result = await getClassAttendance(sessionId)
+      if (result.error) {
+        showFeedback({ type: 'error', message: result.error.message })
+        return
+      }
+
+      const present = new Map<string, string>()
+      result.records
+        .filter((record) => record.status === 'present')
+        .forEach((record) => {
+          present.set(
+            record.student_id,
+            record.student ? `${record.student.first_name} ${record.student.last_name}` : 'Student'
+          )
+        })
+      presentIdsRef.current = new Set(present.keys())
+      setPresentStudents(present)
+    } catch (error) {
+      logger.error('Error loading session attendance for check-in', error as Error)
+      showFeedback({ type: 'error', message: 'Failed to load attendance' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const showFeedback = (next: ScanFeedback) => {
+    if (feedbackTimeoutRef.current) clearTimeout(feedbackTimeoutRef.current)
+    setFeedback(next)
+    feedbackTimeoutRef.current = setTimeout(() => setFeedback(null), FEEDBACK_DURATION_MS)
+  }
+
+  const handleBarcodeScanned = async ({ data }: BarcodeScanningResult) => {
+    const now = Date.now()
+    const lastScan = lastScanRef.current
+    if (processingRef.current || (lastScan && lastScan.data === data && now - lastScan.at < SAME_CODE_COOLDOWN_MS)) {
+      return
+    }
+    lastScanRef.current = { data, at: now }
+
+    const studentId = parseCheckInQrValue(data)
+    if (!studentId) {
+      showFeedback({ type: 'error', message: 'Not a student check-in code' })
+      return
+    }
+
+    if (presentIdsRef.current.has(studentId)) {
+      showFeedback({ type: 'duplicate', message: `${presentStudents.get(studentId) || 'Student'} is already checked in` })
+      return
+    }
+
+    try {
+      processingRef.current = true
+      const result = await markAttendance({ studentId, sessionId, status: 'present' })
+      if (result.error) {
+        showFeedback({ type: 'error', message: result.error.message })
+        return
+      }
+
+      const student = result.record?.student
+      const name = student ? `${student.first_name} ${student.last_name}` : 'Student'
+      presentIdsRef.current.add(studentId)
+      setPresentStudents((current) => new Map(current).set(studentId, name))
+      setRecentCheckIns((current) => [name, ...current].slice(0, 5))
+      Vibration.vibrate(100)
+      showFeedback({ type: 'success', message: `${name} checked in` })
+    } catch (error) {
+      logger.error('Unexpected error checking in student', error as Error)
+      showFeedback({ type: 'error', message: 'Failed to check in student' })
+    } finally {
+      processingRef.current = false
+    }
+  }
+
+  if (!sessionId) {
+    return (
+      <View style={styles.container}>
+        <AdminHeader title="Check-in" showBackButton />
+        <View style={styles.centerContainer}>
+          <MaterialCommunityIcons name="calendar-remove" size={64} color="#9CA3AF" />
+          <Text variant="titleMedium" style={styles.messageTitle}>
+            No session selected
+          </Text>
+          <Text variant="bodyMedium" style={styles.messageText}>
+            Open check-in from a class session on the Mark Attendance screen.
+          </Text>
+        </View>
+      </View>
+    )
+  }
+
+  if (!permission || loading) {
+    return (
+      <View style={styles.container}>
+        <AdminHeader title="Check-in" showBackButton />
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#7B2CBF" />
+        </View>
+      </View>
+    )
+  }
+
+  if (!permission.granted) {
+    return (
+      <View style={styles.container}>
+        <AdminHeader title="Check-in" showBackButton />
+        <View style={styles.centerContainer}>
+          <MaterialCommunityIcons name="camera-off" size={64} color="#9CA3AF" />
+          <Text variant="titleMedium" style={styles.messageTitle}>
+            Camera access needed
+          </Text>
+          <Text variant="bodyMedium" style={styles.messageText}>
+            Allow camera access to scan students' check-in QR codes.
+          </Text>
+          <Button mode="contained" buttonColor="#7B2CBF" onPress={requestPermission}>
+            Allow Camera
+          </Button>
+        </View>
+      </View>
+    )
+  }
+
+  const feedbackStyle = feedback ? FEEDBACK_STYLES[feedback.type] : null
+
+  return (
+    <View style={styles.container}>
+      <AdminHeader title="Check-in" showBackButton />
+
+      <View style={styles.cameraContainer}>
+        <CameraView
+          style={StyleSheet.absoluteFill}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+          onBarcodeScanned={handleBarcodeScanned}
+        />
+        <View style={styles.scanFrame} pointerEvents="none" />
+
+        {feedback && feedbackStyle && (
+          <View style={[styles.feedback, { backgroundColor: feedbackStyle.color }]}>
+            <MaterialCommunityIcons name={feedbackStyle.icon} size={22} color="#FFFFFF" />
+            <Text variant="titleSmall" style={styles.feedbackText}>
+              {feedback.message}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      <View style={[styles.panel, { paddingBottom: insets.bottom + 16 }]}>
+        <Text variant="bodyMedium" style={styles.sessionTitle}>
+          {sessionTitle}
+        </Text>
+        <View style={styles.countRow}>
+          <MaterialCommunityIcons name="account-check" size={28} color="#10B981" />
+          <Text variant="displaySmall" style={styles.count}>
+            {presentStudents.size}
+          </Text>
+          <Text variant="bodyLarge" style={styles.countLabel}>
+            present
+          </Text>
+        </View>
+        {recentCheckIns.length > 0 && (
+          <Text variant="bodySmall" style={styles.recent} numberOfLines={2}>
+            Latest: {recentCheckIns.join(', ')}
+          </Text>
+        )}
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFF8E7',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    gap: 12,
+  },
+  messageTitle: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  messageText: {
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  cameraContainer: {
+    flex: 1,
+    backgroundColor: '#000000',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scanFrame: {
+    width: 240,
+    height: 240,
+    borderWidth: 3,
+    borderColor: '#FFFFFF',
+    borderRadius: 16,
+  },
+  feedback: {
+    position: 'absolute',
+    top: 16,
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+  },
+  feedbackText: {
+    flex: 1,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  panel: {
+    paddingTop: 16,
+    paddingHorizontal: 20,
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  sessionTitle: {
+    color: '#6B7280',
+  },
+  countRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  count: {
+    fontWeight: '700',
+    color: '#1A1A1A',
+  },
+  countLabel: {
+    color: '#6B7280',
+  },
+  recent: {
+    color: '#6B7280',
+    marginTop: 8,
+  },
+})
@@ -185,7 +185,7 @@ export default function CreateBranchScreen() {
           email: formData.email.trim() || undefined,
         }
 
-        const result = await updateBranch(params.id as string, updateData, user.id)
+        const result = await updateBranch(params.id as string, updateData)
 
         if (result.error) {
           setSnackbarMessage(result.error.message)
@@ -214,7 +214,7 @@ export default function CreateBranchScreen() {
           // sendEmail: adminData.sendEmail,
         }
 
-        const result = await createBranch(createData, user.id)
+        const result = await createBranch(createData)
 
         if (result.error) {
           setSnackbarMessage(result.error.message)
@@ -7,6 +7,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { useAuth } from '@/context/AuthContext'
 import { createNotification, pickImageFromGallery, takePhotoWithCamera, type NotificationType, type TargetType } from '@/lib/admin-notifications'
 import { getBranches, type Branch } from '@/lib/branches'
+import { getClassBatches, formatBatchDays, type ClassBatch } from '@/lib/batches'
 import { getStudents, type Student } from '@/lib/students'
 import { logger } from '@/lib/logger'
 import { AdminHeader } from '@/components/admin/AdminHeader'
@@ -35,11 +36,13 @@ export default function CreateNotificationScreen() {
     type: 'announcement' as NotificationType,
     targetType: 'all' as TargetType,
     targetBranchId: '',
+    targetBatchId: '',
     targetStudentIds: [] as string[],
   })
 
   const [imageUri, setImageUri] = useState<string | null>(null)
   const [branches, setBranches] = useState<Branch[]>([])
+  const [batches, setBatches] = useState<ClassBatch[]>([])
   const [students, setStudents] = useState<Student[]>([])
   const [loadingStudents, setLoadingStudents] = useState(false)
   const [errors, setErrors] = useState<{
@@ -52,9 +55,11 @@ export default function CreateNotificationScreen() {
   const [snackbarMessage, setSnackbarMessage] = useState('')
   const [typeMenuVisible, setTypeMenuVisible] = useState(false)
   const [branchMenuVisible, setBranchMenuVisible] = useState(false)
+  const [batchMenuVisible, setBatchMenuVisible] = useState(false)
 
   useEffect(() => {
     loadBranches()
+    loadBatches()
   }, [])
 
   useEffect(() => {
@@ -76,6 +81,17 @@ export default function CreateNotificationScreen() {
     }
   }
 
+  const loadBatches = async () => {
+    try {
+      const result = await getClassBatches()
+      if (result.batches) {
+        setBatches(result.batches)
+      }
+    } catch (error) {
+      logger.error('Error loading batches', error as Error)
+    }
+  }
+
   const loadStudentsForBranch = async (branchId: string) => {
     try {
       setLoadingStudents(true)
@@ -147,6 +163,10 @@ export default function CreateNotificationScreen() {
       newErrors.targetType = 'Please select a branch'
     }
 
+    if (formData.targetType === 'batch' && !formData.targetBatchId) {
+      newErrors.targetType = 'Please select a batch'
+    }
+
     if (formData.targetType === 'students' && formData.targetStudentIds.length === 0) {
       newErrors.targetType = 'Please select at least one student'
     }
@@ -169,18 +189,16 @@ export default function CreateNotificationScreen() {
     try {
       setLoading(true)
 
-      const result = await createNotification(
-        {
-          title: formData.title.trim(),
-          message: formData.message.trim(),
-          type: formData.type,
-          imageUri: imageUri || undefined,
-          targetType: formData.targetType,
-          targetBranchId: formData.targetBranchId || undefined,
-          targetStudentIds: formData.targetStudentIds.length > 0 ? formData.targetStudentIds : undefined,
-        },
-        user.id
-      )
+      const result = await createNotification({
+        title: formData.title.trim(),
+        message: formData.message.trim(),
+        type: formData.type,
+        imageUri: imageUri || undefined,
+        targetType: formData.targetType,
+        targetBranchId: formData.targetBranchId || undefined,
+        targetBatchId: formData.targetBatchId || undefined,
+        targetStudentIds: formData.targetStudentIds.length > 0 ? formData.targetStudentIds : undefined,
+      })
 
       if (result.error) {
         setSnackbarMessage(result.error.message)
@@ -208,6 +226,8 @@ export default function CreateNotificationScreen() {
     }))
   }
 
+  const selectedBatch = batches.find((b) => b.id === formData.targetBatchId)
+
   return (
     <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : 'height'} keyboardVerticalOffset={insets.top}>
       <AdminHeader title="Create Notification" showBackButton />
@@ -335,6 +355,7 @@ export default function CreateNotificationScreen() {
                   ...prev,
                   targetType: value as TargetType,
                   targetBranchId: '',
+                  targetBatchId: '',
                   targetStudentIds: [],
                 }))
                 if (errors.targetType) setErrors((prev) => ({ ...prev, targetType: undefined }))
@@ -391,6 +412,58 @@ export default function CreateNotificationScreen() {
                 </View>
               )}
 
+              <View style={styles.radioOption}>
+                <RadioButton value="batch" />
+                <Text variant="bodyLarge" onPress={() => setFormData((prev) => ({ ...prev, targetType: 'batch' }))}>
+                  Specific Batch
+                </Text>
+              </View>
+
+              {formData.targetType === 'batch' && (
+                <View style={styles.branchSelector}>
+                  <Menu
+                    visible={batchMenuVisible}
+                    onDismiss={() => setBatchMenuVisible(false)}
+                    anchor={
+                      <Button
+                        mode="outlined"
+                        onPress={() => {
+                          if (batchMenuVisible) {
+                            setBatchMenuVisible(false)
+                          } else {
+                            setTimeout(() => setBatchMenuVisible(true), 50)
+                          }
+                        }}
+                        style={styles.menuButton}
+                        contentStyle={styles.menuButtonContent}
+                      >
+                        {selectedBatch?.name || 'Select Batch'}
+                      </Button>
+                    }
+                  >
+                    {batches.length === 0 ? (
+                      <Menu.Item title="No batches in the timetable" disabled />
+                    ) : (
+                      batches.map((batch) => (
+                        <Menu.Item
+                          key={batch.id}
+                          onPress={() => {
+                            setFormData((prev) => ({ ...prev, targetBatchId: batch.id }))
+                            setBatchMenuVisible(false)
+                          }}
+                          title={`${batch.name} (${batch.branch?.name || 'Unknown branch'})`}
+                        />
+                      ))
+                    )}
+                  </Menu>
+                  {selectedBatch && (
+                    <Text variant="bodySmall" style={styles.selectedCount}>
+                      {formatBatchDays(selectedBatch.days_of_week)} • {selectedBatch.student_count || 0} student(s) enrolled
+                    </Text>
+                  )}
+                </View>
+              )}
+
               <View style={styles.radioOption}>
                 <RadioButton value="students" />
                 <Text variant="bodyLarge" onPress={() => setFormData((prev) => ({ ...prev, targetType: 'students' }))}>
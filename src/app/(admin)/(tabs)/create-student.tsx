@@ -9,7 +9,8 @@ import { createStudent, type CreateStudentData } from '@/lib/students'
 import { getBranches, type Branch } from '@/lib/branches'
 import { getProfileByUserId } from '@/lib/profiles'
 import { DatePicker } from '@/components/shared/DatePicker'
-import { BELT_LEVELS, getBeltDisplayName, BELT_COLORS } from '@/lib/belts'
+import { getBeltLevels, getBeltDisplayName, getBeltColor } from '@/lib/belts'
+import { useBeltSyllabus } from '@/hooks/useBeltSyllabus'
 import { AdminHeader } from '@/components/admin/AdminHeader'
 
 export default function CreateStudentScreen() {
@@ -44,6 +45,8 @@ export default function CreateStudentScreen() {
   const [snackbarMessage, setSnackbarMessage] = useState('')
   const [successData, setSuccessData] = useState<{ studentId: string; email: string; password: string } | null>(null)
   const [beltMenuVisible, setBeltMenuVisible] = useState(false)
+  // Re-render the belt menu once the configured syllabus has loaded
+  useBeltSyllabus()
   const defaultBranchIdRef = useRef<string>('') // Store default branch ID to preserve after form clear
 
   useEffect(() => {
@@ -167,7 +170,7 @@ export default function CreateStudentScreen() {
         currentBelt: formData.currentBelt,
       }
 
-      const result = await createStudent(createData, user.id)
+      const result = await createStudent(createData)
 
       if (result.error) {
         setSnackbarMessage(result.error.message)
@@ -600,7 +603,7 @@ export default function CreateStudentScreen() {
                     <MaterialCommunityIcons
                       name="karate"
                       size={20}
-                      color={BELT_COLORS[formData.currentBelt] || '#6B7280'}
+                      color={getBeltColor(formData.currentBelt) || '#6B7280'}
                     />
                     <Text variant="bodyMedium" style={styles.beltSelectorText}>
                       {getBeltDisplayName(formData.currentBelt)}
@@ -610,7 +613,7 @@ export default function CreateStudentScreen() {
                 </TouchableOpacity>
               }
             >
-              {BELT_LEVELS.map((belt) => (
+              {getBeltLevels().map((belt) => (
                 <Menu.Item
                   key={belt}
                   onPress={() => {
@@ -622,7 +625,7 @@ export default function CreateStudentScreen() {
                     <View
                       style={[
                         styles.beltMenuIcon,
-                        { backgroundColor: BELT_COLORS[belt] || '#E5E7EB' },
+                        { backgroundColor: getBeltColor(belt) || '#E5E7EB' },
                       ]}
                     />
                   )}
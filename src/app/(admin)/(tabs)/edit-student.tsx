@@ -5,7 +5,8 @@ import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { useRouter, useLocalSearchParams } from 'expo-router'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { getStudentById, updateStudent, type UpdateStudentData } from '@/lib/students'
-import { BELT_LEVELS, getBeltDisplayName } from '@/lib/belts'
+import { getBeltLevels, getBeltDisplayName } from '@/lib/belts'
+import { useBeltSyllabus } from '@/hooks/useBeltSyllabus'
 import { DatePicker } from '@/components/shared/DatePicker'
 import { AdminHeader } from '@/components/admin/AdminHeader'
 
@@ -39,6 +40,8 @@ export default function EditStudentScreen() {
   const [saving, setSaving] = useState(false)
   const [snackbar, setSnackbar] = useState({ visible: false, message: '' })
   const [beltMenuVisible, setBeltMenuVisible] = useState(false)
+  // Re-render the belt menu once the configured syllabus has loaded
+  useBeltSyllabus()
 
   useEffect(() => {
     if (studentId) {
@@ -260,7 +263,7 @@ export default function EditStudentScreen() {
                 </Button>
               }
             >
-              {BELT_LEVELS.map((belt) => (
+              {getBeltLevels().map((belt) => (
                 <Menu.Item
                   key={belt}
                   onPress={() => {
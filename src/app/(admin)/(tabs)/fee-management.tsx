@@ -1,28 +1,85 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react'
 import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native'
-import { Text, Card, Button, ActivityIndicator, Dialog, TextInput, Snackbar } from 'react-native-paper'
+import { Text, Card, Button, ActivityIndicator, Dialog, TextInput, Snackbar, Chip } from 'react-native-paper'
 import { useFocusEffect } from 'expo-router'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { format } from 'date-fns'
 import { useAuth } from '@/context/AuthContext'
-import { getAllFeeConfigurations, setFeeConfiguration, type FeeConfiguration, type FeeType } from '@/lib/fees'
+import {
+  getAllFeeConfigurations,
+  setFeeConfiguration,
+  removeBranchFeeOverride,
+  getFeeRateHistory,
+  cancelScheduledFeeChange,
+  getDiscountRules,
+  createDiscountRule,
+  deactivateDiscountRule,
+  getLateFeePolicy,
+  setLateFeePolicy,
+  disableLateFeePolicy,
+  getReminderPolicies,
+  saveReminderPolicy,
+  removeReminderPolicy,
+  sendFeeReminders,
+  getOverdueEscalationPolicy,
+  setOverdueEscalationPolicy,
+  disableOverdueEscalationPolicy,
+  type FeeConfiguration,
+  type FeeType,
+  type FeeDiscountRule,
+  type DiscountCategory,
+  type DiscountType,
+  type LateFeePolicy,
+  type LateFeePenaltyType,
+  type FeeReminderPolicy,
+  type ReminderChannel,
+  type OverdueEscalationPolicy,
+} from '@/lib/fees'
+import { getBranches, type Branch } from '@/lib/branches'
 import { logger } from '@/lib/logger'
+import { getBeltLevels, isGradableBelt } from '@/lib/belts'
+import { useBeltSyllabus } from '@/hooks/useBeltSyllabus'
 import { AdminHeader } from '@/components/admin/AdminHeader'
+import { DatePicker } from '@/components/shared/DatePicker'
 
 const FEE_TYPE_LABELS: Record<FeeType, string> = {
   registration: 'Registration Fee',
   monthly: 'Monthly Fee',
   yearly: 'Yearly Fee',
   grading: 'Grading Fee',
+  late_fee: 'Late Fee',
 }
 
-// Belt levels for grading fees (as specified by user)
-const BELT_LEVELS = ['Yellow', 'Orange', 'Green', 'Blue', 'Purple', 'Brown 4', 'Brown 3', 'Brown 2', 'Brown 1', 'Black']
+const DISCOUNT_CATEGORY_LABELS: Record<DiscountCategory, string> = {
+  sibling: 'Sibling',
+  staff_child: 'Staff Child',
+  scholarship: 'Scholarship',
+}
+
+const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  push: 'Push + In-App',
+  in_app: 'In-App Only',
+}
+
+type ReminderTiming = 'before' | 'on' | 'after'
+
+const describeReminderOffset = (offsetDays: number) => {
+  if (offsetDays === 0) return 'On the due date'
+  const days = `${Math.abs(offsetDays)} day${Math.abs(offsetDays) === 1 ? '' : 's'}`
+  return offsetDays < 0 ? `${days} before due date` : `${days} after due date`
+}
+
+const todayString = () => new Date().toISOString().split('T')[0]
+
+const formatEffectiveDate = (date: string) => format(new Date(date + 'T00:00:00'), 'dd MMM yyyy')
 
 export default function FeeManagementScreen() {
   const insets = useSafeAreaInsets()
   const { user } = useAuth()
 
   const [fees, setFees] = useState<FeeConfiguration[]>([])
+  const [branches, setBranches] = useState<Branch[]>([])
+  const [selectedBranchId, setSelectedBranchId] = useState<string | null>(null) // null = global fees
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
 
@@ -30,9 +87,52 @@ export default function FeeManagementScreen() {
   const [editDialogVisible, setEditDialogVisible] = useState(false)
   const [editingFee, setEditingFee] = useState<{ feeType: FeeType; beltLevel: string | null; currentAmount: number } | null>(null)
   const [editAmount, setEditAmount] = useState('')
+  const [editEffectiveFrom, setEditEffectiveFrom] = useState(todayString())
   const [saving, setSaving] = useState(false)
   const [snackbar, setSnackbar] = useState({ visible: false, message: '' })
 
+  // Grading fees are listed for every belt in the syllabus that can be graded for
+  useBeltSyllabus()
+
+  // Rate history dialog
+  const [historyFee, setHistoryFee] = useState<{ feeType: FeeType; beltLevel: string | null } | null>(null)
+  const [historyRates, setHistoryRates] = useState<FeeConfiguration[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
+
+  // Discount rules
+  const [discountRules, setDiscountRules] = useState<FeeDiscountRule[]>([])
+  const [ruleDialogVisible, setRuleDialogVisible] = useState(false)
+  const [ruleName, setRuleName] = useState('')
+  const [ruleCategory, setRuleCategory] = useState<DiscountCategory>('sibling')
+  const [ruleDiscountType, setRuleDiscountType] = useState<DiscountType>('percentage')
+  const [ruleValue, setRuleValue] = useState('')
+  const [ruleSiblingOrder, setRuleSiblingOrder] = useState('2')
+
+  // Late fee policy
+  const [lateFeePolicy, setLateFeePolicyState] = useState<LateFeePolicy | null>(null)
+  const [policyDialogVisible, setPolicyDialogVisible] = useState(false)
+  const [policyGraceDays, setPolicyGraceDays] = useState('')
+  const [policyPenaltyType, setPolicyPenaltyType] = useState<LateFeePenaltyType>('fixed')
+  const [policyValue, setPolicyValue] = useState('')
+  const [policyMaxAmount, setPolicyMaxAmount] = useState('')
+
+  // Fee reminder schedule
+  const [reminderPolicies, setReminderPolicies] = useState<FeeReminderPolicy[]>([])
+  const [reminderDialogVisible, setReminderDialogVisible] = useState(false)
+  const [editingReminderId, setEditingReminderId] = useState<string | null>(null)
+  const [reminderTiming, setReminderTiming] = useState<ReminderTiming>('before')
+  const [reminderDays, setReminderDays] = useState('')
+  const [reminderChannel, setReminderChannel] = useState<ReminderChannel>('push')
+  const [reminderTitle, setReminderTitle] = useState('')
+  const [reminderMessage, setReminderMessage] = useState('')
+  const [sendingReminders, setSendingReminders] = useState(false)
+
+  // Overdue escalation
+  const [escalationPolicy, setEscalationPolicy] = useState<OverdueEscalationPolicy | null>(null)
+  const [escalationDialogVisible, setEscalationDialogVisible] = useState(false)
+  const [escalationParentDays, setEscalationParentDays] = useState('')
+  const [escalationAdminDays, setEscalationAdminDays] = useState('')
+
   // Refs to prevent unnecessary reloads
   const lastLoadTimeRef = useRef<number>(0)
   const isLoadingRef = useRef(false)
@@ -41,7 +141,7 @@ export default function FeeManagementScreen() {
     if (user) {
       loadData()
     }
-  }, [user])
+  }, [user, selectedBranchId])
 
   // Auto-refresh when screen comes into focus
   useFocusEffect(
@@ -60,13 +160,21 @@ export default function FeeManagementScreen() {
         isLoadingRef.current = false
         lastLoadTimeRef.current = Date.now()
       })
-    }, [user])
+    }, [user, selectedBranchId])
   )
 
   const loadData = async () => {
     try {
       setLoading(true)
-      const result = await getAllFeeConfigurations()
+      const [result, rulesResult, branchesResult, policyResult, remindersResult, escalationResult] =
+        await Promise.all([
+          getAllFeeConfigurations({ branchId: selectedBranchId, includeScheduled: true }),
+          getDiscountRules(),
+          getBranches({ status: 'active' }),
+          getLateFeePolicy(),
+          getReminderPolicies(),
+          getOverdueEscalationPolicy(),
+        ])
 
       if (result.error) {
         setSnackbar({ visible: true, message: result.error.message })
@@ -74,6 +182,36 @@ export default function FeeManagementScreen() {
       }
 
       setFees(result.fees || [])
+
+      if (branchesResult.error) {
+        logger.error('Error loading branches', branchesResult.error)
+      } else {
+        setBranches(branchesResult.branches || [])
+      }
+
+      if (policyResult.error) {
+        logger.error('Error loading late fee policy', policyResult.error)
+      } else {
+        setLateFeePolicyState(policyResult.policy)
+      }
+
+      if (remindersResult.error) {
+        logger.error('Error loading reminder schedule', remindersResult.error)
+      } else {
+        setReminderPolicies(remindersResult.policies || [])
+      }
+
+      if (escalationResult.error) {
+        logger.error('Error loading overdue escalation policy', escalationResult.error)
+      } else {
+        setEscalationPolicy(escalationResult.policy)
+      }
+
+      if (rulesResult.error) {
+        logger.error('Error loading discount rules', rulesResult.error)
+      } else {
+        setDiscountRules(rulesResult.rules || [])
+      }
     } catch (error) {
       logger.error('Error loading fees', error as Error)
       setSnackbar({ visible: true, message: 'Failed to load fees' })
@@ -92,6 +230,7 @@ export default function FeeManagementScreen() {
   const openEditDialog = (feeType: FeeType, beltLevel: string | null, currentAmount: number) => {
     setEditingFee({ feeType, beltLevel, currentAmount })
     setEditAmount(currentAmount.toString())
+    setEditEffectiveFrom(todayString())
     setEditDialogVisible(true)
   }
 
@@ -106,17 +245,29 @@ export default function FeeManagementScreen() {
 
     try {
       setSaving(true)
-      const result = await setFeeConfiguration(editingFee.feeType, amount, editingFee.beltLevel, user.id)
+      const result = await setFeeConfiguration(
+        editingFee.feeType,
+        amount,
+        editingFee.beltLevel,
+        selectedBranchId,
+        editEffectiveFrom
+      )
 
       if (result.error) {
         setSnackbar({ visible: true, message: result.error.message })
         return
       }
 
+      const scheduled = editEffectiveFrom > todayString()
       setEditDialogVisible(false)
       setEditingFee(null)
       setEditAmount('')
-      setSnackbar({ visible: true, message: 'Fee updated successfully' })
+      setSnackbar({
+        visible: true,
+        message: scheduled
+          ? `Fee change scheduled from ${formatEffectiveDate(editEffectiveFrom)}`
+          : 'Fee updated successfully',
+      })
       await loadData()
     } catch (error) {
       logger.error('Error saving fee', error as Error)
@@ -126,20 +277,332 @@ export default function FeeManagementScreen() {
     }
   }
 
-  const getFeeForType = (feeType: FeeType, beltLevel: string | null = null) => {
-    if (feeType === 'grading' && beltLevel) {
-      return fees.find((f) => f.fee_type === feeType && f.belt_level === beltLevel)
-    } else if (feeType !== 'grading') {
-      return fees.find((f) => f.fee_type === feeType && f.belt_level === null)
+  const loadRateHistory = async (feeType: FeeType, beltLevel: string | null) => {
+    try {
+      setHistoryLoading(true)
+      const result = await getFeeRateHistory(feeType, beltLevel, selectedBranchId)
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+      setHistoryRates(result.fees || [])
+    } catch (error) {
+      logger.error('Error loading fee rate history', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to load rate history' })
+    } finally {
+      setHistoryLoading(false)
+    }
+  }
+
+  const openHistoryDialog = (feeType: FeeType, beltLevel: string | null) => {
+    setHistoryFee({ feeType, beltLevel })
+    setHistoryRates([])
+    loadRateHistory(feeType, beltLevel)
+  }
+
+  const handleCancelScheduledChange = async (rate: FeeConfiguration) => {
+    const result = await cancelScheduledFeeChange(rate.id)
+    if (result.error) {
+      setSnackbar({ visible: true, message: result.error.message })
+      return
+    }
+    setSnackbar({ visible: true, message: 'Scheduled change cancelled' })
+    if (historyFee) {
+      await loadRateHistory(historyFee.feeType, historyFee.beltLevel)
+    }
+    await loadData()
+  }
+
+  const openRuleDialog = () => {
+    setRuleName('')
+    setRuleCategory('sibling')
+    setRuleDiscountType('percentage')
+    setRuleValue('')
+    setRuleSiblingOrder('2')
+    setRuleDialogVisible(true)
+  }
+
+  const handleSaveRule = async () => {
+    const value = parseFloat(ruleValue)
+    if (!ruleName.trim()) {
+      setSnackbar({ visible: true, message: 'Please enter a rule name' })
+      return
+    }
+    if (isNaN(value) || value <= 0) {
+      setSnackbar({ visible: true, message: 'Please enter a valid discount value' })
+      return
+    }
+
+    try {
+      setSaving(true)
+      const result = await createDiscountRule({
+        name: ruleName.trim(),
+        category: ruleCategory,
+        discountType: ruleDiscountType,
+        value,
+        siblingOrder: ruleCategory === 'sibling' ? parseInt(ruleSiblingOrder, 10) : null,
+      })
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      setRuleDialogVisible(false)
+      setSnackbar({ visible: true, message: 'Discount rule added' })
+      await loadData()
+    } catch (error) {
+      logger.error('Error saving discount rule', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to save discount rule' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeactivateRule = async (rule: FeeDiscountRule) => {
+    const result = await deactivateDiscountRule(rule.id)
+    if (result.error) {
+      setSnackbar({ visible: true, message: result.error.message })
+      return
+    }
+    setSnackbar({ visible: true, message: `${rule.name} removed` })
+    await loadData()
+  }
+
+  const openPolicyDialog = () => {
+    setPolicyGraceDays(lateFeePolicy ? lateFeePolicy.grace_days.toString() : '7')
+    setPolicyPenaltyType(lateFeePolicy?.penalty_type || 'fixed')
+    setPolicyValue(lateFeePolicy ? lateFeePolicy.value.toString() : '')
+    setPolicyMaxAmount(lateFeePolicy?.max_amount ? lateFeePolicy.max_amount.toString() : '')
+    setPolicyDialogVisible(true)
+  }
+
+  const handleSavePolicy = async () => {
+    const graceDays = parseInt(policyGraceDays, 10)
+    const value = parseFloat(policyValue)
+    const maxAmount = policyMaxAmount.trim() ? parseFloat(policyMaxAmount) : null
+
+    if (isNaN(graceDays) || graceDays < 0) {
+      setSnackbar({ visible: true, message: 'Please enter valid grace days' })
+      return
+    }
+    if (isNaN(value) || value <= 0) {
+      setSnackbar({ visible: true, message: 'Please enter a valid late fee' })
+      return
+    }
+    if (maxAmount !== null && (isNaN(maxAmount) || maxAmount <= 0)) {
+      setSnackbar({ visible: true, message: 'Please enter a valid cap' })
+      return
+    }
+
+    try {
+      setSaving(true)
+      const result = await setLateFeePolicy({ graceDays, penaltyType: policyPenaltyType, value, maxAmount })
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      setPolicyDialogVisible(false)
+      setSnackbar({ visible: true, message: 'Late fee policy saved' })
+      await loadData()
+    } catch (error) {
+      logger.error('Error saving late fee policy', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to save late fee policy' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDisablePolicy = async () => {
+    const result = await disableLateFeePolicy()
+    if (result.error) {
+      setSnackbar({ visible: true, message: result.error.message })
+      return
     }
-    return null
+    setSnackbar({ visible: true, message: 'Late fees turned off' })
+    await loadData()
+  }
+
+  const openReminderDialog = (policy: FeeReminderPolicy | null) => {
+    setEditingReminderId(policy?.id || null)
+    setReminderTiming(!policy || policy.offset_days < 0 ? 'before' : policy.offset_days === 0 ? 'on' : 'after')
+    setReminderDays(policy && policy.offset_days !== 0 ? Math.abs(policy.offset_days).toString() : '')
+    setReminderChannel(policy?.channel || 'push')
+    setReminderTitle(policy?.title_template || 'Fee Reminder')
+    setReminderMessage(policy?.message_template || 'Your {fee_type} fee of ₹{amount} is due on {due_date}.')
+    setReminderDialogVisible(true)
   }
 
+  const handleSaveReminder = async () => {
+    const days = reminderTiming === 'on' ? 0 : parseInt(reminderDays, 10)
+    if (isNaN(days) || (reminderTiming !== 'on' && days < 1)) {
+      setSnackbar({ visible: true, message: 'Please enter the number of days' })
+      return
+    }
+    if (!reminderTitle.trim() || !reminderMessage.trim()) {
+      setSnackbar({ visible: true, message: 'Please enter a title and message' })
+      return
+    }
+
+    try {
+      setSaving(true)
+      const result = await saveReminderPolicy({
+        id: editingReminderId || undefined,
+        offsetDays: reminderTiming === 'before' ? -days : days,
+        channel: reminderChannel,
+        titleTemplate: reminderTitle,
+        messageTemplate: reminderMessage,
+      })
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      setReminderDialogVisible(false)
+      setSnackbar({ visible: true, message: editingReminderId ? 'Reminder updated' : 'Reminder added' })
+      await loadData()
+    } catch (error) {
+      logger.error('Error saving reminder', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to save reminder' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemoveReminder = async (policy: FeeReminderPolicy) => {
+    const result = await removeReminderPolicy(policy.id)
+    if (result.error) {
+      setSnackbar({ visible: true, message: result.error.message })
+      return
+    }
+    setSnackbar({ visible: true, message: 'Reminder removed' })
+    await loadData()
+  }
+
+  const handleSendReminders = async () => {
+    try {
+      setSendingReminders(true)
+      const result = await sendFeeReminders()
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+      const escalated = result.escalated > 0 ? ` • ${result.escalated} overdue fee(s) escalated` : ''
+      setSnackbar({
+        visible: true,
+        message:
+          result.sent === 0 && result.failed === 0
+            ? `No reminders are due today${escalated}`
+            : `${result.sent} reminder(s) sent${result.failed > 0 ? ` • ${result.failed} failed` : ''}${escalated}`,
+      })
+    } finally {
+      setSendingReminders(false)
+    }
+  }
+
+  const openEscalationDialog = () => {
+    setEscalationParentDays(escalationPolicy ? escalationPolicy.parent_after_days.toString() : '7')
+    setEscalationAdminDays(escalationPolicy ? escalationPolicy.admin_after_days.toString() : '14')
+    setEscalationDialogVisible(true)
+  }
+
+  const handleSaveEscalation = async () => {
+    const parentAfterDays = parseInt(escalationParentDays, 10)
+    const adminAfterDays = parseInt(escalationAdminDays, 10)
+
+    if (isNaN(parentAfterDays) || parentAfterDays < 1) {
+      setSnackbar({ visible: true, message: 'Please enter valid days for the parent notice' })
+      return
+    }
+    if (isNaN(adminAfterDays) || adminAfterDays <= parentAfterDays) {
+      setSnackbar({ visible: true, message: 'Branch admins must be alerted after the parent notice' })
+      return
+    }
+
+    try {
+      setSaving(true)
+      const result = await setOverdueEscalationPolicy({ parentAfterDays, adminAfterDays })
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      setEscalationDialogVisible(false)
+      setSnackbar({ visible: true, message: 'Overdue escalation saved' })
+      await loadData()
+    } catch (error) {
+      logger.error('Error saving overdue escalation policy', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to save overdue escalation' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDisableEscalation = async () => {
+    const result = await disableOverdueEscalationPolicy()
+    if (result.error) {
+      setSnackbar({ visible: true, message: result.error.message })
+      return
+    }
+    setSnackbar({ visible: true, message: 'Overdue escalation turned off' })
+    await loadData()
+  }
+
+  const describeRule = (rule: FeeDiscountRule) => {
+    const value = rule.discount_type === 'percentage' ? `${rule.value}% off` : `₹${rule.value.toFixed(2)} off`
+    if (rule.category === 'sibling') {
+      return `${value} from sibling #${rule.sibling_order}`
+    }
+    return `${value} • granted per student`
+  }
+
+  const handleResetToGlobal = async (feeType: FeeType, beltLevel: string | null) => {
+    if (!selectedBranchId) return
+
+    const result = await removeBranchFeeOverride(feeType, beltLevel, selectedBranchId)
+    if (result.error) {
+      setSnackbar({ visible: true, message: result.error.message })
+      return
+    }
+    setSnackbar({ visible: true, message: 'Branch now uses the global fee' })
+    await loadData()
+  }
+
+  // Rates in one scope, newest effective date first
+  const feesInScope = (feeType: FeeType, beltLevel: string | null, branchId: string | null) =>
+    fees.filter(
+      (f) => f.fee_type === feeType && f.belt_level === (feeType === 'grading' ? beltLevel : null) && f.branch_id === branchId
+    )
+
+  const findFee = (feeType: FeeType, beltLevel: string | null, branchId: string | null) =>
+    feesInScope(feeType, beltLevel, branchId).find((f) => f.effective_from <= todayString())
+
+  // The next upcoming rate in a scope, if a change is scheduled
+  const findScheduledFee = (feeType: FeeType, beltLevel: string | null, branchId: string | null) =>
+    feesInScope(feeType, beltLevel, branchId)
+      .filter((f) => f.effective_from > todayString())
+      .pop()
+
   const renderFeeCard = (feeType: FeeType, beltLevel: string | null = null) => {
-    const fee = getFeeForType(feeType, beltLevel)
-    const amount = fee?.amount || 0
+    const globalFee = findFee(feeType, beltLevel, null)
+    const override = selectedBranchId ? findFee(feeType, beltLevel, selectedBranchId) : undefined
+    const amount = (override || globalFee)?.amount || 0
+    const scheduled =
+      (selectedBranchId && findScheduledFee(feeType, beltLevel, selectedBranchId)) ||
+      (!override ? findScheduledFee(feeType, beltLevel, null) : undefined)
     const label = beltLevel ? `${FEE_TYPE_LABELS[feeType]} - ${beltLevel}` : FEE_TYPE_LABELS[feeType]
 
+    let scopeText = beltLevel ? `Belt Level: ${beltLevel}` : 'Global Fee'
+    if (selectedBranchId) {
+      scopeText = override
+        ? `Branch price • Global ₹${(globalFee?.amount || 0).toFixed(2)}`
+        : 'Using global fee'
+    }
+
     return (
       <Card key={`${feeType}-${beltLevel || 'global'}`} style={styles.feeCard}>
         <Card.Content>
@@ -148,9 +611,14 @@ export default function FeeManagementScreen() {
               <Text variant="titleMedium" style={styles.feeTypeLabel}>
                 {label}
               </Text>
-              <Text variant="bodySmall" style={styles.feeSubtext}>
-                {beltLevel ? `Belt Level: ${beltLevel}` : 'Global Fee'}
+              <Text variant="bodySmall" style={[styles.feeSubtext, override && styles.overrideText]}>
+                {scopeText}
               </Text>
+              {scheduled && (
+                <Text variant="bodySmall" style={styles.scheduledText}>
+                  ₹{scheduled.amount.toFixed(2)} from {formatEffectiveDate(scheduled.effective_from)}
+                </Text>
+              )}
             </View>
             <View style={styles.feeAmountContainer}>
               <Text variant="headlineSmall" style={styles.feeAmount}>
@@ -158,14 +626,36 @@ export default function FeeManagementScreen() {
               </Text>
             </View>
           </View>
-          <Button
-            mode="outlined"
-            onPress={() => openEditDialog(feeType, beltLevel, amount)}
-            style={styles.editButton}
-            icon="pencil"
-          >
-            Edit
-          </Button>
+          <View style={styles.feeActions}>
+            <Button
+              mode="outlined"
+              onPress={() => openEditDialog(feeType, beltLevel, amount)}
+              style={[styles.editButton, styles.feeActionButton]}
+              icon="pencil"
+            >
+              {selectedBranchId && !override ? 'Set Branch Price' : 'Edit'}
+            </Button>
+            {override && (
+              <Button
+                mode="text"
+                onPress={() => handleResetToGlobal(feeType, beltLevel)}
+                style={styles.editButton}
+                icon="backup-restore"
+                textColor="#6B7280"
+              >
+                Use Global
+              </Button>
+            )}
+            <Button
+              mode="text"
+              onPress={() => openHistoryDialog(feeType, beltLevel)}
+              style={styles.editButton}
+              icon="history"
+              textColor="#6B7280"
+            >
+              History
+            </Button>
+          </View>
         </Card.Content>
       </Card>
     )
@@ -190,7 +680,7 @@ export default function FeeManagementScreen() {
     <View style={styles.container}>
       <AdminHeader
         title="Fee Management"
-        subtitle="Configure global fees and belt-specific grading fees"
+        subtitle="Configure global and branch fees, grading fees and discounts"
       />
 
       <ScrollView
@@ -198,11 +688,33 @@ export default function FeeManagementScreen() {
         contentContainerStyle={styles.scrollContent}
         refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
       >
+        {/* Branch selector */}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.branchChips}>
+          <Chip selected={selectedBranchId === null} onPress={() => setSelectedBranchId(null)} icon="earth">
+            All Branches
+          </Chip>
+          {branches.map((branch) => (
+            <Chip
+              key={branch.id}
+              selected={selectedBranchId === branch.id}
+              onPress={() => setSelectedBranchId(branch.id)}
+              icon="office-building"
+            >
+              {branch.name}
+            </Chip>
+          ))}
+        </ScrollView>
+
         {/* Global Fees */}
         <View style={styles.section}>
           <Text variant="titleMedium" style={styles.sectionTitle}>
-            Global Fees
+            {selectedBranchId ? `Fees for ${branches.find((b) => b.id === selectedBranchId)?.name || 'Branch'}` : 'Global Fees'}
           </Text>
+          {selectedBranchId && (
+            <Text variant="bodySmall" style={styles.sectionHint}>
+              Fees without a branch price use the global fee.
+            </Text>
+          )}
           {(['registration', 'monthly', 'yearly'] as FeeType[]).map((feeType) => renderFeeCard(feeType))}
         </View>
 
@@ -211,7 +723,217 @@ export default function FeeManagementScreen() {
           <Text variant="titleMedium" style={styles.sectionTitle}>
             Grading Fees (by Belt Level)
           </Text>
-          {BELT_LEVELS.map((beltLevel) => renderFeeCard('grading', beltLevel))}
+          {getBeltLevels()
+            .filter(isGradableBelt)
+            .map((beltLevel) => renderFeeCard('grading', beltLevel))}
+        </View>
+
+        {/* Late Fee Policy */}
+        <View style={styles.section}>
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            Late Fee Policy
+          </Text>
+          <Card style={styles.feeCard}>
+            <Card.Content>
+              <View style={styles.feeHeader}>
+                <View style={styles.feeInfo}>
+                  <Text variant="titleMedium" style={styles.feeTypeLabel}>
+                    {lateFeePolicy ? 'Late fees are on' : 'Late fees are off'}
+                  </Text>
+                  <Text variant="bodySmall" style={styles.feeSubtext}>
+                    {lateFeePolicy
+                      ? `${
+                          lateFeePolicy.penalty_type === 'percentage'
+                            ? `${lateFeePolicy.value}% of the unpaid balance`
+                            : `₹${lateFeePolicy.value.toFixed(2)}`
+                        } after ${lateFeePolicy.grace_days} day(s) past due${
+                          lateFeePolicy.max_amount ? ` • max ₹${lateFeePolicy.max_amount.toFixed(2)}` : ''
+                        }`
+                      : 'No penalty is added to overdue fees'}
+                  </Text>
+                </View>
+              </View>
+              <View style={styles.feeActions}>
+                <Button
+                  mode="outlined"
+                  onPress={openPolicyDialog}
+                  style={[styles.editButton, styles.feeActionButton]}
+                  icon="pencil"
+                >
+                  {lateFeePolicy ? 'Edit' : 'Set Up'}
+                </Button>
+                {lateFeePolicy && (
+                  <Button
+                    mode="text"
+                    onPress={handleDisablePolicy}
+                    style={styles.editButton}
+                    icon="close-circle-outline"
+                    textColor="#DC2626"
+                  >
+                    Turn Off
+                  </Button>
+                )}
+              </View>
+            </Card.Content>
+          </Card>
+        </View>
+
+        {/* Fee Reminders */}
+        <View style={styles.section}>
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            Fee Reminders
+          </Text>
+          <Text variant="bodySmall" style={styles.sectionHint}>
+            Sent once per fee on each scheduled day while it is unpaid. Reminders go out daily; use Send Now to run
+            today's reminders immediately.
+          </Text>
+          {reminderPolicies.length === 0 ? (
+            <Text variant="bodyMedium" style={[styles.feeSubtext, styles.emptyHint]}>
+              No reminders scheduled
+            </Text>
+          ) : (
+            reminderPolicies.map((policy) => (
+              <Card key={policy.id} style={styles.feeCard}>
+                <Card.Content>
+                  <View style={styles.feeHeader}>
+                    <View style={styles.feeInfo}>
+                      <Text variant="titleMedium" style={styles.feeTypeLabel}>
+                        {describeReminderOffset(policy.offset_days)}
+                      </Text>
+                      <Text variant="bodySmall" style={styles.feeSubtext}>
+                        {REMINDER_CHANNEL_LABELS[policy.channel]} • {policy.title_template}
+                      </Text>
+                      <Text variant="bodySmall" style={styles.reminderMessage} numberOfLines={2}>
+                        {policy.message_template}
+                      </Text>
+                    </View>
+                  </View>
+                  <View style={styles.feeActions}>
+                    <Button
+                      mode="outlined"
+                      onPress={() => openReminderDialog(policy)}
+                      style={[styles.editButton, styles.feeActionButton]}
+                      icon="pencil"
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      mode="text"
+                      onPress={() => handleRemoveReminder(policy)}
+                      style={styles.editButton}
+                      icon="delete-outline"
+                      textColor="#DC2626"
+                    >
+                      Remove
+                    </Button>
+                  </View>
+                </Card.Content>
+              </Card>
+            ))
+          )}
+          <View style={styles.feeActions}>
+            <Button
+              mode="contained"
+              onPress={() => openReminderDialog(null)}
+              icon="plus"
+              buttonColor="#7B2CBF"
+              style={styles.feeActionButton}
+            >
+              Add Reminder
+            </Button>
+            <Button
+              mode="outlined"
+              onPress={handleSendReminders}
+              icon="send"
+              loading={sendingReminders}
+              disabled={sendingReminders || reminderPolicies.length === 0}
+              style={styles.feeActionButton}
+            >
+              Send Now
+            </Button>
+          </View>
+          <Card style={[styles.feeCard, styles.escalationCard]}>
+            <Card.Content>
+              <View style={styles.feeHeader}>
+                <View style={styles.feeInfo}>
+                  <Text variant="titleMedium" style={styles.feeTypeLabel}>
+                    {escalationPolicy ? 'Overdue escalation is on' : 'Overdue escalation is off'}
+                  </Text>
+                  <Text variant="bodySmall" style={styles.feeSubtext}>
+                    {escalationPolicy
+                      ? `Parents emailed after ${escalationPolicy.parent_after_days} day(s) overdue • Branch admins alerted after ${escalationPolicy.admin_after_days} day(s)`
+                      : 'Overdue reminders only reach the student'}
+                  </Text>
+                </View>
+              </View>
+              <View style={styles.feeActions}>
+                <Button
+                  mode="outlined"
+                  onPress={openEscalationDialog}
+                  style={[styles.editButton, styles.feeActionButton]}
+                  icon="pencil"
+                >
+                  {escalationPolicy ? 'Edit' : 'Set Up'}
+                </Button>
+                {escalationPolicy && (
+                  <Button
+                    mode="text"
+                    onPress={handleDisableEscalation}
+                    style={styles.editButton}
+                    icon="close-circle-outline"
+                    textColor="#DC2626"
+                  >
+                    Turn Off
+                  </Button>
+                )}
+              </View>
+            </Card.Content>
+          </Card>
+        </View>
+
+        {/* Discount Rules */}
+        <View style={styles.section}>
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            Discount Rules
+          </Text>
+          <Text variant="bodySmall" style={styles.sectionHint}>
+            Applied to monthly and yearly fees when they are generated. Siblings share a parent phone number; the
+            largest applicable discount is used.
+          </Text>
+          {discountRules.length === 0 ? (
+            <Text variant="bodyMedium" style={styles.feeSubtext}>
+              No discount rules yet
+            </Text>
+          ) : (
+            discountRules.map((rule) => (
+              <Card key={rule.id} style={styles.feeCard}>
+                <Card.Content>
+                  <View style={styles.feeHeader}>
+                    <View style={styles.feeInfo}>
+                      <Text variant="titleMedium" style={styles.feeTypeLabel}>
+                        {rule.name}
+                      </Text>
+                      <Text variant="bodySmall" style={styles.feeSubtext}>
+                        {DISCOUNT_CATEGORY_LABELS[rule.category]} • {describeRule(rule)}
+                      </Text>
+                    </View>
+                  </View>
+                  <Button
+                    mode="outlined"
+                    onPress={() => handleDeactivateRule(rule)}
+                    style={styles.editButton}
+                    icon="delete-outline"
+                    textColor="#DC2626"
+                  >
+                    Remove
+                  </Button>
+                </Card.Content>
+              </Card>
+            ))
+          )}
+          <Button mode="contained" onPress={openRuleDialog} icon="plus" buttonColor="#7B2CBF">
+            Add Discount Rule
+          </Button>
         </View>
       </ScrollView>
 
@@ -225,6 +947,7 @@ export default function FeeManagementScreen() {
                 ? `${FEE_TYPE_LABELS[editingFee.feeType]} - ${editingFee.beltLevel}`
                 : FEE_TYPE_LABELS[editingFee.feeType]
             )}
+            {selectedBranchId ? ` (${branches.find((b) => b.id === selectedBranchId)?.name || 'Branch'})` : ''}
           </Text>
           <TextInput
             label="Amount (₹)"
@@ -234,6 +957,17 @@ export default function FeeManagementScreen() {
             mode="outlined"
             style={styles.dialogInput}
           />
+          <DatePicker
+            label="Effective from"
+            value={editEffectiveFrom}
+            onChange={setEditEffectiveFrom}
+            disabled={saving}
+            style={styles.dialogInput}
+            minimumDate={new Date()}
+          />
+          <Text variant="bodySmall" style={styles.feeSubtext}>
+            Fees for periods starting before this date keep the current amount.
+          </Text>
         </Dialog.Content>
         <Dialog.Actions>
           <Button onPress={() => setEditDialogVisible(false)} disabled={saving}>
@@ -245,6 +979,255 @@ export default function FeeManagementScreen() {
         </Dialog.Actions>
       </Dialog>
 
+      {/* Rate History Dialog */}
+      <Dialog visible={!!historyFee} onDismiss={() => setHistoryFee(null)}>
+        <Dialog.Title>Rate History</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium" style={styles.dialogLabel}>
+            {historyFee && (
+              historyFee.beltLevel
+                ? `${FEE_TYPE_LABELS[historyFee.feeType]} - ${historyFee.beltLevel}`
+                : FEE_TYPE_LABELS[historyFee.feeType]
+            )}
+            {selectedBranchId ? ` (${branches.find((b) => b.id === selectedBranchId)?.name || 'Branch'})` : ''}
+          </Text>
+          {historyLoading ? (
+            <ActivityIndicator color="#7B2CBF" />
+          ) : historyRates.length === 0 ? (
+            <Text variant="bodyMedium" style={styles.feeSubtext}>
+              {selectedBranchId ? 'No branch prices set' : 'No rates set'}
+            </Text>
+          ) : (
+            historyRates.map((rate) => {
+              const isScheduled = rate.effective_from > todayString()
+              const isCurrent = rate.id === historyRates.find((r) => r.effective_from <= todayString())?.id
+              return (
+                <View key={rate.id} style={styles.historyRow}>
+                  <View style={styles.feeInfo}>
+                    <Text variant="bodyMedium" style={styles.feeTypeLabel}>
+                      ₹{rate.amount.toFixed(2)}
+                    </Text>
+                    <Text variant="bodySmall" style={[styles.feeSubtext, isScheduled && styles.scheduledText]}>
+                      From {formatEffectiveDate(rate.effective_from)}
+                      {isScheduled ? ' • Scheduled' : isCurrent ? ' • Current' : ''}
+                    </Text>
+                  </View>
+                  {isScheduled && (
+                    <Button mode="text" onPress={() => handleCancelScheduledChange(rate)} textColor="#DC2626">
+                      Cancel
+                    </Button>
+                  )}
+                </View>
+              )
+            })
+          )}
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={() => setHistoryFee(null)}>Close</Button>
+        </Dialog.Actions>
+      </Dialog>
+
+      {/* Late Fee Policy Dialog */}
+      <Dialog visible={policyDialogVisible} onDismiss={() => setPolicyDialogVisible(false)}>
+        <Dialog.Title>Late Fee Policy</Dialog.Title>
+        <Dialog.Content>
+          <TextInput
+            label="Grace days after due date"
+            value={policyGraceDays}
+            onChangeText={setPolicyGraceDays}
+            keyboardType="number-pad"
+            mode="outlined"
+            style={styles.dialogInput}
+          />
+          <View style={styles.chipRow}>
+            <Chip selected={policyPenaltyType === 'fixed'} onPress={() => setPolicyPenaltyType('fixed')}>
+              Flat Amount
+            </Chip>
+            <Chip selected={policyPenaltyType === 'percentage'} onPress={() => setPolicyPenaltyType('percentage')}>
+              Percentage
+            </Chip>
+          </View>
+          <TextInput
+            label={policyPenaltyType === 'percentage' ? 'Late fee (% of unpaid balance)' : 'Late fee (₹)'}
+            value={policyValue}
+            onChangeText={setPolicyValue}
+            keyboardType="decimal-pad"
+            mode="outlined"
+            style={styles.dialogInput}
+          />
+          <TextInput
+            label="Maximum late fee (₹, optional)"
+            value={policyMaxAmount}
+            onChangeText={setPolicyMaxAmount}
+            keyboardType="decimal-pad"
+            mode="outlined"
+            style={styles.dialogInput}
+          />
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={() => setPolicyDialogVisible(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onPress={handleSavePolicy} loading={saving} mode="contained" buttonColor="#7B2CBF">
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+
+      {/* Fee Reminder Dialog */}
+      <Dialog visible={reminderDialogVisible} onDismiss={() => setReminderDialogVisible(false)}>
+        <Dialog.Title>{editingReminderId ? 'Edit Reminder' : 'Add Reminder'}</Dialog.Title>
+        <Dialog.ScrollArea style={styles.dialogScrollArea}>
+          <ScrollView>
+            <View style={styles.chipRow}>
+              <Chip selected={reminderTiming === 'before'} onPress={() => setReminderTiming('before')}>
+                Before Due
+              </Chip>
+              <Chip selected={reminderTiming === 'on'} onPress={() => setReminderTiming('on')}>
+                On Due Date
+              </Chip>
+              <Chip selected={reminderTiming === 'after'} onPress={() => setReminderTiming('after')}>
+                After Due
+              </Chip>
+            </View>
+            {reminderTiming !== 'on' && (
+              <TextInput
+                label={reminderTiming === 'before' ? 'Days before due date' : 'Days after due date'}
+                value={reminderDays}
+                onChangeText={setReminderDays}
+                keyboardType="number-pad"
+                mode="outlined"
+                style={styles.dialogInput}
+              />
+            )}
+            <View style={styles.chipRow}>
+              {(Object.keys(REMINDER_CHANNEL_LABELS) as ReminderChannel[]).map((channel) => (
+                <Chip key={channel} selected={reminderChannel === channel} onPress={() => setReminderChannel(channel)}>
+                  {REMINDER_CHANNEL_LABELS[channel]}
+                </Chip>
+              ))}
+            </View>
+            <TextInput
+              label="Title"
+              value={reminderTitle}
+              onChangeText={setReminderTitle}
+              mode="outlined"
+              style={styles.dialogInput}
+            />
+            <TextInput
+              label="Message"
+              value={reminderMessage}
+              onChangeText={setReminderMessage}
+              mode="outlined"
+              multiline
+              numberOfLines={3}
+              style={styles.dialogInput}
+            />
+            <Text variant="bodySmall" style={styles.feeSubtext}>
+              Placeholders: {'{first_name}'}, {'{student_name}'}, {'{fee_type}'}, {'{amount}'} (unpaid balance),{' '}
+              {'{due_date}'}, {'{days}'}
+            </Text>
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={() => setReminderDialogVisible(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onPress={handleSaveReminder} loading={saving} mode="contained" buttonColor="#7B2CBF">
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+
+      {/* Overdue Escalation Dialog */}
+      <Dialog visible={escalationDialogVisible} onDismiss={() => setEscalationDialogVisible(false)}>
+        <Dialog.Title>Overdue Escalation</Dialog.Title>
+        <Dialog.Content>
+          <TextInput
+            label="Email parents after (days overdue)"
+            value={escalationParentDays}
+            onChangeText={setEscalationParentDays}
+            keyboardType="number-pad"
+            mode="outlined"
+            style={styles.dialogInput}
+          />
+          <TextInput
+            label="Alert branch admins after (days overdue)"
+            value={escalationAdminDays}
+            onChangeText={setEscalationAdminDays}
+            keyboardType="number-pad"
+            mode="outlined"
+            style={styles.dialogInput}
+          />
+          <Text variant="bodySmall" style={styles.feeSubtext}>
+            Parents without an email address are listed in the branch admin alert with their phone number instead.
+          </Text>
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={() => setEscalationDialogVisible(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onPress={handleSaveEscalation} loading={saving} mode="contained" buttonColor="#7B2CBF">
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+
+      {/* Discount Rule Dialog */}
+      <Dialog visible={ruleDialogVisible} onDismiss={() => setRuleDialogVisible(false)}>
+        <Dialog.Title>Add Discount Rule</Dialog.Title>
+        <Dialog.Content>
+          <TextInput
+            label="Name"
+            value={ruleName}
+            onChangeText={setRuleName}
+            mode="outlined"
+            style={styles.dialogInput}
+          />
+          <View style={styles.chipRow}>
+            {(Object.keys(DISCOUNT_CATEGORY_LABELS) as DiscountCategory[]).map((category) => (
+              <Chip key={category} selected={ruleCategory === category} onPress={() => setRuleCategory(category)}>
+                {DISCOUNT_CATEGORY_LABELS[category]}
+              </Chip>
+            ))}
+          </View>
+          <View style={styles.chipRow}>
+            <Chip selected={ruleDiscountType === 'percentage'} onPress={() => setRuleDiscountType('percentage')}>
+              Percentage
+            </Chip>
+            <Chip selected={ruleDiscountType === 'fixed'} onPress={() => setRuleDiscountType('fixed')}>
+              Fixed Amount
+            </Chip>
+          </View>
+          <TextInput
+            label={ruleDiscountType === 'percentage' ? 'Discount (%)' : 'Discount (₹)'}
+            value={ruleValue}
+            onChangeText={setRuleValue}
+            keyboardType="decimal-pad"
+            mode="outlined"
+            style={styles.dialogInput}
+          />
+          {ruleCategory === 'sibling' && (
+            <TextInput
+              label="Applies from sibling # (2 = second child)"
+              value={ruleSiblingOrder}
+              onChangeText={setRuleSiblingOrder}
+              keyboardType="number-pad"
+              mode="outlined"
+              style={styles.dialogInput}
+            />
+          )}
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={() => setRuleDialogVisible(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onPress={handleSaveRule} loading={saving} mode="contained" buttonColor="#7B2CBF">
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+
       <Snackbar
         visible={snackbar.visible}
         onDismiss={() => setSnackbar({ visible: false, message: '' })}
@@ -290,6 +1273,11 @@ const styles = StyleSheet.create({
     color: '#1A1A1A',
     marginBottom: 12,
   },
+  sectionHint: {
+    color: '#6B7280',
+    marginTop: -4,
+    marginBottom: 12,
+  },
   feeCard: {
     marginBottom: 12,
     elevation: 1,
@@ -322,6 +1310,32 @@ const styles = StyleSheet.create({
   editButton: {
     marginTop: 8,
   },
+  feeActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  feeActionButton: {
+    flex: 1,
+  },
+  overrideText: {
+    color: '#7B2CBF',
+  },
+  scheduledText: {
+    color: '#D97706',
+    marginTop: 2,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  branchChips: {
+    gap: 8,
+    paddingBottom: 16,
+  },
   dialogLabel: {
     marginBottom: 8,
     color: '#1A1A1A',
@@ -329,4 +1343,25 @@ const styles = StyleSheet.create({
   dialogInput: {
     marginBottom: 8,
   },
+  reminderMessage: {
+    color: '#1A1A1A',
+    marginTop: 4,
+  },
+  emptyHint: {
+    marginBottom: 12,
+  },
+  escalationCard: {
+    marginTop: 16,
+  },
+  dialogScrollArea: {
+    maxHeight: 420,
+    paddingHorizontal: 24,
+    paddingTop: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
 })
@@ -0,0 +1,782 @@
+import React, { useState, useEffect } from 'react'
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native'
+import { Text, Card, Button, ActivityIndicator, Snackbar, Chip, Dialog, TextInput, Checkbox, Searchbar } from 'react-native-paper'
+import { useRouter, useLocalSearchParams } from 'expo-router'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { format } from 'date-fns'
+import {
+  getGradingSession,
+  getGradingSessionStudents,
+  registerGradingCandidates,
+  removeGradingCandidate,
+  recordGradingResults,
+  promoteGradingCandidates,
+  cancelGradingSession,
+  GRADING_RESULT_LABELS,
+  type GradingSession,
+  type GradingCandidate,
+  type GradingResult,
+  type GradingSessionStudent,
+} from '@/lib/gradings'
+import { logger } from '@/lib/logger'
+import { getBeltColor, getBeltDisplayName } from '@/lib/belts'
+import { AdminHeader } from '@/components/admin/AdminHeader'
+
+const RESULT_COLORS: Record<GradingResult, string> = {
+  pending: '#6B7280',
+  pass: '#10B981',
+  fail: '#DC2626',
+  deferred: '#F59E0B',
+}
+
+const FINAL_RESULTS: GradingResult[] = ['pass', 'fail', 'deferred']
+
+/**
+ * One grading session: candidates, results and bulk promotion
+ */
+export default function GradingSessionScreen() {
+  const router = useRouter()
+  const params = useLocalSearchParams()
+  const insets = useSafeAreaInsets()
+  const sessionId = params.id as string
+
+  const [session, setSession] = useState<GradingSession | null>(null)
+  const [candidates, setCandidates] = useState<GradingCandidate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [savingCandidateId, setSavingCandidateId] = useState<string | null>(null)
+  const [promoting, setPromoting] = useState(false)
+  const [snackbar, setSnackbar] = useState({ visible: false, message: '' })
+
+  // Add candidates dialog
+  const [addDialogVisible, setAddDialogVisible] = useState(false)
+  const [students, setStudents] = useState<GradingSessionStudent[]>([])
+  const [studentsLoading, setStudentsLoading] = useState(false)
+  const [studentSearch, setStudentSearch] = useState('')
+  const [selectedStudentIds, setSelectedStudentIds] = useState<string[]>([])
+  const [overrideReason, setOverrideReason] = useState('')
+  const [adding, setAdding] = useState(false)
+
+  // Remarks dialog
+  const [remarksCandidate, setRemarksCandidate] = useState<GradingCandidate | null>(null)
+  const [remarks, setRemarks] = useState('')
+
+  // Confirmation dialogs
+  const [confirmPromoteVisible, setConfirmPromoteVisible] = useState(false)
+  const [confirmCancelVisible, setConfirmCancelVisible] = useState(false)
+
+  useEffect(() => {
+    if (sessionId) {
+      loadData()
+    }
+  }, [sessionId])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      const result = await getGradingSession(sessionId)
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      setSession(result.session)
+      setCandidates(result.candidates)
+    } catch (error) {
+      logger.error('Error loading grading session', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to load grading session' })
+    } finally {
+      setLoading(false)
+      setRefreshing(false)
+    }
+  }
+
+  const onRefresh = () => {
+    setRefreshing(true)
+    loadData()
+  }
+
+  const isOpen = session?.status === 'scheduled'
+  const passedToPromote = candidates.filter((c) => c.result === 'pass' && !c.belt_grading_id)
+  const gradingDateReached = !!session && session.session_date <= format(new Date(), 'yyyy-MM-dd')
+  const overridesSelected = students.filter(
+    (s) => selectedStudentIds.includes(s.id) && !s.eligibility.eligible
+  ).length
+
+  const handleSetResult = async (candidate: GradingCandidate, result: GradingResult) => {
+    // Tapping the selected result again clears it
+    const nextResult = candidate.result === result ? 'pending' : result
+
+    try {
+      setSavingCandidateId(candidate.id)
+      const saveResult = await recordGradingResults(sessionId, [{ candidateId: candidate.id, result: nextResult }])
+
+      if (saveResult.error) {
+        setSnackbar({ visible: true, message: saveResult.error.message })
+        return
+      }
+
+      setCandidates((prev) => prev.map((c) => (c.id === candidate.id ? { ...c, result: nextResult } : c)))
+    } finally {
+      setSavingCandidateId(null)
+    }
+  }
+
+  const openRemarksDialog = (candidate: GradingCandidate) => {
+    setRemarksCandidate(candidate)
+    setRemarks(candidate.remarks || '')
+  }
+
+  const handleSaveRemarks = async () => {
+    if (!remarksCandidate) return
+
+    try {
+      setSavingCandidateId(remarksCandidate.id)
+      const result = await recordGradingResults(sessionId, [
+        { candidateId: remarksCandidate.id, result: remarksCandidate.result, remarks },
+      ])
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      setCandidates((prev) =>
+        prev.map((c) => (c.id === remarksCandidate.id ? { ...c, remarks: remarks.trim() || null } : c))
+      )
+      setRemarksCandidate(null)
+    } finally {
+      setSavingCandidateId(null)
+    }
+  }
+
+  const handleRemoveCandidate = async (candidate: GradingCandidate) => {
+    const result = await removeGradingCandidate(candidate.id)
+    if (result.error) {
+      setSnackbar({ visible: true, message: result.error.message })
+      return
+    }
+    setCandidates((prev) => prev.filter((c) => c.id !== candidate.id))
+  }
+
+  const openAddDialog = async () => {
+    setSelectedStudentIds([])
+    setStudentSearch('')
+    setOverrideReason('')
+    setAddDialogVisible(true)
+
+    try {
+      setStudentsLoading(true)
+      const result = await getGradingSessionStudents(sessionId)
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+      setStudents(result.students)
+    } finally {
+      setStudentsLoading(false)
+    }
+  }
+
+  const toggleStudent = (studentId: string) => {
+    setSelectedStudentIds((prev) =>
+      prev.includes(studentId) ? prev.filter((id) => id !== studentId) : [...prev, studentId]
+    )
+  }
+
+  const handleAddCandidates = async () => {
+    if (overridesSelected > 0 && !overrideReason.trim()) {
+      setSnackbar({ visible: true, message: 'Please give a reason for registering students who are not ready' })
+      return
+    }
+
+    try {
+      setAdding(true)
+      const result = await registerGradingCandidates(
+        sessionId,
+        selectedStudentIds,
+        overridesSelected > 0 ? overrideReason : null
+      )
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      setAddDialogVisible(false)
+      setSnackbar({
+        visible: true,
+        message: `${result.added} candidate(s) added${result.skipped.length > 0 ? ` • ${result.skipped.length} not eligible` : ''}`,
+      })
+      await loadData()
+    } catch (error) {
+      logger.error('Error adding grading candidates', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to add candidates' })
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const handlePromote = async () => {
+    try {
+      setConfirmPromoteVisible(false)
+      setPromoting(true)
+      const result = await promoteGradingCandidates(sessionId)
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      setSnackbar({
+        visible: true,
+        message:
+          result.failures.length > 0
+            ? `${result.promoted} promoted • ${result.failures[0].studentName}: ${result.failures[0].message}`
+            : `${result.promoted} student(s) promoted${result.completed ? ' • Session completed' : ''}`,
+      })
+      await loadData()
+    } catch (error) {
+      logger.error('Error promoting grading candidates', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to promote candidates' })
+    } finally {
+      setPromoting(false)
+    }
+  }
+
+  const handleCancelSession = async () => {
+    setConfirmCancelVisible(false)
+    const result = await cancelGradingSession(sessionId)
+    if (result.error) {
+      setSnackbar({ visible: true, message: result.error.message })
+      return
+    }
+    setSnackbar({ visible: true, message: 'Grading session cancelled' })
+    await loadData()
+  }
+
+  const renderBelt = (belt: string) => (
+    <View style={[styles.beltBadge, { backgroundColor: getBeltColor(belt) || '#FFFFFF' }]}>
+      <Text
+        variant="labelSmall"
+        style={[styles.beltText, { color: belt === 'White' || belt === 'Yellow' ? '#000' : '#FFF' }]}
+      >
+        {belt}
+      </Text>
+    </View>
+  )
+
+  const renderCandidate = (candidate: GradingCandidate) => {
+    const promoted = !!candidate.belt_grading_id
+    const editable = isOpen && !promoted
+
+    return (
+      <Card key={candidate.id} style={styles.card}>
+        <Card.Content>
+          <View style={styles.candidateHeader}>
+            <View style={styles.candidateInfo}>
+              <Text variant="titleSmall" style={styles.candidateName}>
+                {candidate.student ? `${candidate.student.first_name} ${candidate.student.last_name}` : 'Student'}
+              </Text>
+              <Text variant="bodySmall" style={styles.meta}>
+                {candidate.student?.student_id}
+              </Text>
+            </View>
+            <View style={styles.beltTransition}>
+              {renderBelt(candidate.from_belt)}
+              <MaterialCommunityIcons name="arrow-right" size={16} color="#7B2CBF" />
+              {renderBelt(candidate.to_belt)}
+            </View>
+          </View>
+
+          {promoted ? (
+            <View style={styles.promotedRow}>
+              <MaterialCommunityIcons name="check-decagram" size={18} color="#10B981" />
+              <Text variant="bodySmall" style={styles.promotedText}>
+                Promoted to {getBeltDisplayName(candidate.to_belt)}
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.chipRow}>
+              {FINAL_RESULTS.map((result) => (
+                <Chip
+                  key={result}
+                  selected={candidate.result === result}
+                  onPress={() => handleSetResult(candidate, result)}
+                  disabled={!editable || savingCandidateId === candidate.id}
+                  selectedColor={candidate.result === result ? RESULT_COLORS[result] : undefined}
+                  compact
+                >
+                  {GRADING_RESULT_LABELS[result]}
+                </Chip>
+              ))}
+            </View>
+          )}
+
+          {candidate.override_reason && (
+            <View style={styles.overrideRow}>
+              <MaterialCommunityIcons name="alert-circle-outline" size={16} color="#D97706" />
+              <Text variant="bodySmall" style={styles.ineligibleText}>
+                Prerequisites overridden: {candidate.override_reason}
+              </Text>
+            </View>
+          )}
+
+          {candidate.remarks && (
+            <Text variant="bodySmall" style={styles.remarks}>
+              {candidate.remarks}
+            </Text>
+          )}
+
+          {editable && (
+            <View style={styles.candidateActions}>
+              <Button mode="text" compact icon="comment-text-outline" onPress={() => openRemarksDialog(candidate)}>
+                Remarks
+              </Button>
+              <Button
+                mode="text"
+                compact
+                icon="account-remove-outline"
+                textColor="#DC2626"
+                onPress={() => handleRemoveCandidate(candidate)}
+              >
+                Remove
+              </Button>
+            </View>
+          )}
+        </Card.Content>
+      </Card>
+    )
+  }
+
+  if (loading && !session) {
+    return (
+      <View style={styles.container}>
+        <AdminHeader title="Grading Session" showBackButton />
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#7B2CBF" />
+        </View>
+      </View>
+    )
+  }
+
+  if (!session) {
+    return (
+      <View style={styles.container}>
+        <AdminHeader title="Grading Session" showBackButton />
+        <View style={styles.loadingContainer}>
+          <Text variant="bodyMedium" style={styles.meta}>
+            Grading session not found
+          </Text>
+          <Button mode="text" onPress={() => router.back()}>
+            Go Back
+          </Button>
+        </View>
+      </View>
+    )
+  }
+
+  const registeredIds = new Set(candidates.map((c) => c.student_id))
+  const search = studentSearch.trim().toLowerCase()
+  const visibleStudents = students.filter(
+    (s) =>
+      !registeredIds.has(s.id) &&
+      (!search || `${s.first_name} ${s.last_name} ${s.student_id}`.toLowerCase().includes(search))
+  )
+  const counts = FINAL_RESULTS.map((result) => ({
+    result,
+    count: candidates.filter((c) => c.result === result).length,
+  }))
+
+  return (
+    <View style={styles.container}>
+      <AdminHeader title="Grading Session" showBackButton />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 16 }]}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {/* Session Details */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sessionTitle}>
+              {session.title}
+            </Text>
+            <Text variant="bodyMedium" style={styles.meta}>
+              {format(new Date(session.session_date + 'T00:00:00'), 'EEEE, dd MMM yyyy')} •{' '}
+              {session.branch?.name || 'All branches'}
+            </Text>
+            <Text variant="bodyMedium" style={styles.meta}>
+              Examiners: {session.examiners.join(', ')}
+            </Text>
+            {session.notes && (
+              <Text variant="bodySmall" style={styles.remarks}>
+                {session.notes}
+              </Text>
+            )}
+            <View style={styles.chipRow}>
+              <Text variant="bodySmall" style={styles.count}>
+                {candidates.length} candidate(s)
+              </Text>
+              {counts.map(({ result, count }) => (
+                <Text key={result} variant="bodySmall" style={[styles.count, { color: RESULT_COLORS[result] }]}>
+                  {count} {GRADING_RESULT_LABELS[result].toLowerCase()}
+                </Text>
+              ))}
+            </View>
+            {session.status !== 'scheduled' && (
+              <Text variant="labelLarge" style={styles.statusText}>
+                {session.status === 'completed' ? 'Completed' : 'Cancelled'}
+              </Text>
+            )}
+          </Card.Content>
+        </Card>
+
+        {isOpen && (
+          <View style={styles.actions}>
+            <Button mode="outlined" icon="account-multiple-plus" onPress={openAddDialog} style={styles.actionButton}>
+              Add Candidates
+            </Button>
+            <Button
+              mode="contained"
+              icon="trophy"
+              buttonColor="#7B2CBF"
+              onPress={() => setConfirmPromoteVisible(true)}
+              loading={promoting}
+              disabled={promoting || passedToPromote.length === 0 || !gradingDateReached}
+              style={styles.actionButton}
+            >
+              Promote ({passedToPromote.length})
+            </Button>
+          </View>
+        )}
+        {isOpen && !gradingDateReached && (
+          <Text variant="bodySmall" style={styles.hint}>
+            Results can be entered now; candidates who pass are promoted on or after the grading date.
+          </Text>
+        )}
+
+        <Text variant="titleMedium" style={styles.sectionTitle}>
+          Candidates
+        </Text>
+        {candidates.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            No candidates registered yet
+          </Text>
+        ) : (
+          candidates.map(renderCandidate)
+        )}
+
+        {isOpen && (
+          <Button
+            mode="text"
+            icon="close-circle-outline"
+            textColor="#DC2626"
+            onPress={() => setConfirmCancelVisible(true)}
+            style={styles.cancelButton}
+          >
+            Cancel Session
+          </Button>
+        )}
+      </ScrollView>
+
+      {/* Add Candidates Dialog */}
+      <Dialog visible={addDialogVisible} onDismiss={() => setAddDialogVisible(false)}>
+        <Dialog.Title>Add Candidates</Dialog.Title>
+        <Dialog.ScrollArea style={styles.dialogScrollArea}>
+          <Searchbar
+            placeholder="Search students"
+            value={studentSearch}
+            onChangeText={setStudentSearch}
+            style={styles.searchbar}
+          />
+          <ScrollView>
+            {studentsLoading ? (
+              <ActivityIndicator color="#7B2CBF" style={styles.dialogLoading} />
+            ) : visibleStudents.length === 0 ? (
+              <Text variant="bodyMedium" style={styles.emptyText}>
+                No students to add
+              </Text>
+            ) : (
+              visibleStudents.map((student) => (
+                <View key={student.id} style={styles.studentRow}>
+                  <Checkbox
+                    status={selectedStudentIds.includes(student.id) ? 'checked' : 'unchecked'}
+                    onPress={() => toggleStudent(student.id)}
+                    disabled={!student.eligibility.eligible && !student.eligibility.canOverride}
+                    color="#7B2CBF"
+                  />
+                  <View style={styles.candidateInfo}>
+                    <Text variant="bodyMedium" style={styles.candidateName}>
+                      {student.first_name} {student.last_name}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.meta}>
+                      {student.current_belt}
+                      {student.eligibility.nextBelt ? ` → ${student.eligibility.nextBelt}` : ''}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.meta}>
+                      {student.eligibility.monthsAtBelt} mo at belt •{' '}
+                      {student.eligibility.attendancePercentage !== null
+                        ? `${student.eligibility.attendancePercentage}% attendance`
+                        : 'No attendance'}
+                      {student.eligibility.ageYears !== null ? ` • Age ${student.eligibility.ageYears}` : ''}
+                    </Text>
+                    {!student.eligibility.eligible && (
+                      <Text variant="bodySmall" style={styles.ineligibleText}>
+                        {student.eligibility.reasons.join(' • ')}
+                      </Text>
+                    )}
+                  </View>
+                </View>
+              ))
+            )}
+          </ScrollView>
+          {overridesSelected > 0 && (
+            <TextInput
+              label={`Override reason (${overridesSelected} not ready)`}
+              value={overrideReason}
+              onChangeText={setOverrideReason}
+              mode="outlined"
+              style={styles.overrideInput}
+            />
+          )}
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={() => setAddDialogVisible(false)} disabled={adding}>
+            Cancel
+          </Button>
+          <Button
+            onPress={handleAddCandidates}
+            loading={adding}
+            disabled={adding || selectedStudentIds.length === 0}
+            mode="contained"
+            buttonColor="#7B2CBF"
+          >
+            Add ({selectedStudentIds.length})
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+
+      {/* Remarks Dialog */}
+      <Dialog visible={!!remarksCandidate} onDismiss={() => setRemarksCandidate(null)}>
+        <Dialog.Title>Examiner Remarks</Dialog.Title>
+        <Dialog.Content>
+          <TextInput
+            label="Remarks"
+            value={remarks}
+            onChangeText={setRemarks}
+            mode="outlined"
+            multiline
+            numberOfLines={4}
+          />
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={() => setRemarksCandidate(null)}>Cancel</Button>
+          <Button
+            onPress={handleSaveRemarks}
+            loading={!!remarksCandidate && savingCandidateId === remarksCandidate.id}
+            mode="contained"
+            buttonColor="#7B2CBF"
+          >
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+
+      {/* Promote Confirmation Dialog */}
+      <Dialog visible={confirmPromoteVisible} onDismiss={() => setConfirmPromoteVisible(false)}>
+        <Dialog.Title>Promote Candidates</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium">
+            Promote {passedToPromote.length} student(s) who passed? Their belts will be updated and grading fees
+            created.
+          </Text>
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={() => setConfirmPromoteVisible(false)}>Cancel</Button>
+          <Button onPress={handlePromote} mode="contained" buttonColor="#7B2CBF">
+            Promote
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+
+      {/* Cancel Session Confirmation Dialog */}
+      <Dialog visible={confirmCancelVisible} onDismiss={() => setConfirmCancelVisible(false)}>
+        <Dialog.Title>Cancel Session</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium">Cancel this grading session? Registered candidates will not be graded.</Text>
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={() => setConfirmCancelVisible(false)}>Keep</Button>
+          <Button onPress={handleCancelSession} mode="contained" buttonColor="#DC2626">
+            Cancel Session
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+
+      <Snackbar
+        visible={snackbar.visible}
+        onDismiss={() => setSnackbar({ visible: false, message: '' })}
+        duration={3000}
+      >
+        {snackbar.message}
+      </Snackbar>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFF8E7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    marginBottom: 12,
+    elevation: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  sessionTitle: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  meta: {
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  count: {
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  statusText: {
+    color: '#6B7280',
+    marginTop: 8,
+  },
+  hint: {
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  candidateHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  candidateInfo: {
+    flex: 1,
+  },
+  candidateName: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  beltTransition: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  beltBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  beltText: {
+    fontWeight: 'bold',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  promotedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  promotedText: {
+    color: '#10B981',
+    fontWeight: '600',
+  },
+  remarks: {
+    color: '#4B5563',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  candidateActions: {
+    flexDirection: 'row',
+    marginTop: 4,
+    marginLeft: -8,
+  },
+  cancelButton: {
+    marginTop: 8,
+  },
+  emptyText: {
+    color: '#6B7280',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  dialogScrollArea: {
+    maxHeight: 480,
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  dialogLoading: {
+    marginVertical: 24,
+  },
+  searchbar: {
+    marginBottom: 8,
+    backgroundColor: '#F9FAFB',
+  },
+  studentRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  ineligibleText: {
+    color: '#D97706',
+    marginTop: 2,
+    flexShrink: 1,
+  },
+  overrideRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 8,
+  },
+  overrideInput: {
+    marginVertical: 8,
+  },
+})
@@ -56,7 +56,7 @@ export default function LeaveInformDetailScreen() {
 
     try {
       setApproving(true)
-      const result = await approveLeaveInform(informId, user.id)
+      const result = await approveLeaveInform(informId)
 
       if (result.error) {
         Alert.alert('Error', result.error.message)
@@ -94,7 +94,7 @@ export default function LeaveInformDetailScreen() {
           onPress: async () => {
             setDeleting(true)
             try {
-              const result = await deleteLeaveInform(informId, user.id)
+              const result = await deleteLeaveInform(informId)
               if (result.success) {
                 logger.info('Leave inform deleted successfully', { informId })
                 router.back()
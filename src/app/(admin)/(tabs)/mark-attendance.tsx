@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react'
 import { View, StyleSheet, ScrollView, TouchableOpacity, Image, KeyboardAvoidingView, Platform, RefreshControl } from 'react-native'
-import { Text, Button, Card, Snackbar, ActivityIndicator, Chip, Menu, Divider, Searchbar } from 'react-native-paper'
+import { Text, Button, Card, Snackbar, ActivityIndicator, Chip, Menu, Divider, Searchbar, Dialog, TextInput } from 'react-native-paper'
 import { useRouter, useFocusEffect } from 'expo-router'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { format } from 'date-fns'
@@ -12,11 +12,20 @@ import { AdminHeader } from '@/components/admin/AdminHeader'
 import {
   getStudentsForAttendance,
   getClassAttendance,
+  getClassSessions,
+  createClassSession,
+  deleteClassSession,
+  formatSessionTime,
   markBulkAttendance,
   type AttendanceStatus,
   type AttendanceRecord,
+  type ClassSession,
 } from '@/lib/attendance'
+import { getClassBatches, getBatchesOnDate, type ClassBatch } from '@/lib/batches'
+import { getInstructors } from '@/lib/public/services/publicDataService'
+import type { Instructor } from '@/lib/public/types/public.types'
 import { DatePicker } from '@/components/shared/DatePicker'
+import { ConfirmDialog } from '@/components/shared/ConfirmDialog'
 import { logger } from '@/lib/logger'
 
 interface StudentAttendance {
@@ -48,6 +57,30 @@ export default function MarkAttendanceScreen() {
   const [branches, setBranches] = useState<Branch[]>([])
   const [selectedBranchId, setSelectedBranchId] = useState<string | null>(null)
   const [branchMenuVisible, setBranchMenuVisible] = useState(false)
+  const [sessions, setSessions] = useState<ClassSession[]>([])
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null)
+  const [instructors, setInstructors] = useState<Instructor[]>([])
+  const [batches, setBatches] = useState<ClassBatch[]>([])
+  const [startingBatchId, setStartingBatchId] = useState<string | null>(null)
+  // Students enrolled in the selected session's batch (null when the session isn't from the timetable)
+  const [enrolledIds, setEnrolledIds] = useState<Set<string> | null>(null)
+  const [showAllStudents, setShowAllStudents] = useState(false)
+
+  // New session dialog
+  const [sessionDialogVisible, setSessionDialogVisible] = useState(false)
+  const [batchName, setBatchName] = useState('')
+  const [startTime, setStartTime] = useState('')
+  const [endTime, setEndTime] = useState('')
+  const [instructorId, setInstructorId] = useState<string | null>(null)
+  const [creatingSession, setCreatingSession] = useState(false)
+  const [deleteSessionVisible, setDeleteSessionVisible] = useState(false)
+  const [deletingSession, setDeletingSession] = useState(false)
+
+  // A timetable session lists its enrolled students (plus anyone already marked) unless 'Show all' is on
+  const sessionStudents = useMemo(() => {
+    if (!enrolledIds || showAllStudents) return students
+    return students.filter((student) => enrolledIds.has(student.id) || existingAttendanceMap.has(student.id))
+  }, [students, enrolledIds, showAllStudents, existingAttendanceMap])
 
   // Refs to prevent unnecessary reloads
   const lastLoadTimeRef = useRef<number>(0)
@@ -56,6 +89,7 @@ export default function MarkAttendanceScreen() {
   useEffect(() => {
     checkRole()
     loadBranches()
+    loadInstructors()
   }, [user])
 
   useEffect(() => {
@@ -86,7 +120,7 @@ export default function MarkAttendanceScreen() {
 
   useEffect(() => {
     applyFilters()
-  }, [searchQuery, statusFilter, students, attendanceMap])
+  }, [searchQuery, statusFilter, sessionStudents, attendanceMap])
 
   const checkRole = async () => {
     if (user?.id) {
@@ -111,41 +145,42 @@ export default function MarkAttendanceScreen() {
     }
   }
 
+  const loadInstructors = async () => {
+    const result = await getInstructors()
+    if (result.instructors) {
+      setInstructors(result.instructors)
+    }
+  }
+
+  const selectedSession = sessions.find((s) => s.id === selectedSessionId) || null
+
+  // Timetabled batches meeting on the selected day that haven't been started yet
+  const scheduledBatches = getBatchesOnDate(batches, selectedDate).filter(
+    (batch) => !sessions.some((session) => session.batch_id === batch.id)
+  )
+
   const loadData = async () => {
     try {
       setLoading(true)
 
-      const studentsResult = await getStudentsForAttendance(selectedBranchId || userBranchId || undefined)
-      if (studentsResult.error) {
-        setSnackbar({ visible: true, message: studentsResult.error.message })
+      const branchId = selectedBranchId || userBranchId
+      const [sessionsResult, batchesResult] = await Promise.all([
+        getClassSessions(selectedDate, branchId || undefined),
+        getClassBatches({ branchId }),
+      ])
+      if (sessionsResult.error) {
+        setSnackbar({ visible: true, message: sessionsResult.error.message })
         return
       }
+      setBatches(batchesResult.batches || [])
 
-      const studentsList = (studentsResult.students || []).map((s) => ({
-        id: s.id,
-        first_name: s.first_name,
-        last_name: s.last_name,
-        student_id: s.student_id,
-        student_photo_url: s.student_photo_url,
-      }))
+      // Keep the chosen session if it's still on this date, otherwise take the first one
+      const sessionsList = sessionsResult.sessions
+      const session = sessionsList.find((s) => s.id === selectedSessionId) || sessionsList[0] || null
+      setSessions(sessionsList)
+      setSelectedSessionId(session?.id || null)
 
-      setStudents(studentsList)
-
-      const attendanceResult = await getClassAttendance(selectedDate, selectedBranchId || userBranchId || undefined)
-      if (!attendanceResult.error && attendanceResult.records) {
-        const map = new Map<string, AttendanceStatus>()
-        const existingMap = new Map<string, AttendanceRecord>()
-        attendanceResult.records.forEach((record) => {
-          map.set(record.student_id, record.status)
-          existingMap.set(record.student_id, record)
-        })
-        setAttendanceMap(map)
-        setExistingAttendanceMap(existingMap)
-      } else {
-        setAttendanceMap(new Map())
-        setExistingAttendanceMap(new Map())
-      }
-      
+      await loadSessionAttendance(session)
     } catch (error) {
       logger.error('Unexpected error loading attendance data', error as Error)
       setSnackbar({ visible: true, message: 'Failed to load data' })
@@ -156,13 +191,180 @@ export default function MarkAttendanceScreen() {
     }
   }
 
+  // Students of the session's branch and anything already marked for the session
+  const loadSessionAttendance = async (session: ClassSession | null) => {
+    setShowAllStudents(false)
+    if (!session) {
+      setStudents([])
+      setEnrolledIds(null)
+      setAttendanceMap(new Map())
+      setExistingAttendanceMap(new Map())
+      return
+    }
+
+    const [studentsResult, enrolledResult] = await Promise.all([
+      getStudentsForAttendance(session.branch_id),
+      session.batch_id ? getStudentsForAttendance(session.branch_id, session.batch_id) : null,
+    ])
+    if (studentsResult.error) {
+      setSnackbar({ visible: true, message: studentsResult.error.message })
+      return
+    }
+    setEnrolledIds(enrolledResult?.students ? new Set(enrolledResult.students.map((s) => s.id)) : null)
+
+    const studentsList = (studentsResult.students || []).map((s) => ({
+      id: s.id,
+      first_name: s.first_name,
+      last_name: s.last_name,
+      student_id: s.student_id,
+      student_photo_url: s.student_photo_url,
+    }))
+
+    setStudents(studentsList)
+
+    const attendanceResult = await getClassAttendance(session.id)
+    if (!attendanceResult.error && attendanceResult.records) {
+      const map = new Map<string, AttendanceStatus>()
+      const existingMap = new Map<string, AttendanceRecord>()
+      attendanceResult.records.forEach((record) => {
+        map.set(record.student_id, record.status)
+        existingMap.set(record.student_id, record)
+      })
+      setAttendanceMap(map)
+      setExistingAttendanceMap(existingMap)
+    } else {
+      setAttendanceMap(new Map())
+      setExistingAttendanceMap(new Map())
+    }
+  }
+
+  const handleSelectSession = async (session: ClassSession) => {
+    if (session.id === selectedSessionId) return
+
+    try {
+      setLoading(true)
+      setSelectedSessionId(session.id)
+      await loadSessionAttendance(session)
+    } catch (error) {
+      logger.error('Unexpected error loading session attendance', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to load attendance' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openSessionDialog = () => {
+    if (!(selectedBranchId || userBranchId)) {
+      setSnackbar({ visible: true, message: 'Select a branch to create a class session' })
+      return
+    }
+    setBatchName('')
+    setStartTime('')
+    setEndTime('')
+    setInstructorId(null)
+    setSessionDialogVisible(true)
+  }
+
+  const handleCreateSession = async () => {
+    const branchId = selectedBranchId || userBranchId
+    if (!branchId) return
+
+    try {
+      setCreatingSession(true)
+      const result = await createClassSession({
+        branchId,
+        batchName,
+        sessionDate: selectedDate,
+        startTime,
+        endTime,
+        instructorId,
+      })
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      setSessionDialogVisible(false)
+      await showNewSession(result.session)
+    } catch (error) {
+      logger.error('Unexpected error creating class session', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to create class session' })
+    } finally {
+      setCreatingSession(false)
+    }
+  }
+
+  // One tap to open today's session for a timetabled batch
+  const handleStartBatchSession = async (batch: ClassBatch) => {
+    try {
+      setStartingBatchId(batch.id)
+      const result = await createClassSession({
+        branchId: batch.branch_id,
+        batchName: batch.name,
+        sessionDate: selectedDate,
+        startTime: batch.start_time.slice(0, 5),
+        endTime: batch.end_time.slice(0, 5),
+        instructorId: batch.instructor_id,
+        batchId: batch.id,
+      })
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      await showNewSession(result.session)
+    } catch (error) {
+      logger.error('Unexpected error starting batch session', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to create class session' })
+    } finally {
+      setStartingBatchId(null)
+    }
+  }
+
+  const showNewSession = async (session: ClassSession | null) => {
+    setSelectedSessionId(session?.id || null)
+    setSessions((current) => (session ? [...current, session] : current))
+    await loadSessionAttendance(session)
+    setSnackbar({ visible: true, message: 'Class session created' })
+  }
+
+  const handleDeleteSession = async () => {
+    if (!selectedSession) return
+
+    try {
+      setDeletingSession(true)
+      const result = await deleteClassSession(selectedSession.id)
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+      setDeleteSessionVisible(false)
+      setSelectedSessionId(null)
+      setSnackbar({ visible: true, message: 'Class session deleted' })
+      await loadData()
+    } finally {
+      setDeletingSession(false)
+    }
+  }
+
+  // Students check themselves in by showing their QR code to this phone
+  const openCheckInScanner = () => {
+    if (!selectedSession) return
+    const title = `${selectedSession.batch_name} • ${formatSessionTime(selectedSession)}`
+    router.push(
+      `/(admin)/(tabs)/check-in-scanner?sessionId=${selectedSession.id}&title=${encodeURIComponent(title)}`
+    )
+  }
+
   const handleRefresh = async () => {
     setRefreshing(true)
     await loadData()
   }
 
   const applyFilters = () => {
-    let filtered = [...students]
+    let filtered = [...sessionStudents]
 
     if (searchQuery.trim()) {
       const searchTerm = searchQuery.toLowerCase()
@@ -191,7 +393,7 @@ export default function MarkAttendanceScreen() {
 
   const handleMarkAllPresent = () => {
     const newMap = new Map(attendanceMap)
-    students.forEach((student) => {
+    sessionStudents.forEach((student) => {
       newMap.set(student.id, 'present')
     })
     setAttendanceMap(newMap)
@@ -199,7 +401,7 @@ export default function MarkAttendanceScreen() {
 
   const handleMarkAllAbsent = () => {
     const newMap = new Map(attendanceMap)
-    students.forEach((student) => {
+    sessionStudents.forEach((student) => {
       newMap.set(student.id, 'absent')
     })
     setAttendanceMap(newMap)
@@ -210,11 +412,15 @@ export default function MarkAttendanceScreen() {
       setSnackbar({ visible: true, message: 'User not found' })
       return
     }
+    if (!selectedSessionId) {
+      setSnackbar({ visible: true, message: 'Select a class session first' })
+      return
+    }
 
     try {
       setSaving(true)
 
-      const records = students.map((student) => ({
+      const records = sessionStudents.map((student) => ({
         studentId: student.id,
         status: attendanceMap.get(student.id) || 'absent',
       }))
@@ -224,7 +430,7 @@ export default function MarkAttendanceScreen() {
         return
       }
 
-      const result = await markBulkAttendance(records, selectedDate, user.id)
+      const result = await markBulkAttendance(records, selectedSessionId)
 
       if (result.error) {
         const errorMessage = result.error.message.includes('invalid student')
@@ -384,59 +590,152 @@ export default function MarkAttendanceScreen() {
           </Card>
         )}
 
-        {/* Quick Filters Card */}
+        {/* Class Session Card - attendance is marked per session */}
         <Card style={styles.sectionCard} mode="elevated" elevation={1}>
           <Card.Content>
-            <View style={styles.filtersContainer}>
-              <Searchbar
-                placeholder="Search students..."
-                onChangeText={setSearchQuery}
-                value={searchQuery}
-                style={styles.searchbar}
-                inputStyle={styles.searchInput}
-              />
-              <View style={styles.chipsRow}>
-                <Chip
-                  selected={statusFilter === 'all'}
-                  onPress={() => setStatusFilter('all')}
-                  style={styles.chip}
-                  textStyle={statusFilter === 'all' ? styles.chipTextSelected : styles.chipText}
-                  icon={statusFilter === 'all' ? 'check-circle' : 'circle-outline'}
-                >
-                  All
-                </Chip>
-                <Chip
-                  selected={statusFilter === 'present'}
-                  onPress={() => setStatusFilter('present')}
-                  style={[styles.chip, statusFilter === 'present' && { backgroundColor: '#D1FAE5' }]}
-                  textStyle={statusFilter === 'present' ? styles.chipTextSelected : styles.chipText}
-                  icon={statusFilter === 'present' ? 'check-circle' : 'circle-outline'}
-                >
-                  Present
-                </Chip>
-                <Chip
-                  selected={statusFilter === 'absent'}
-                  onPress={() => setStatusFilter('absent')}
-                  style={[styles.chip, statusFilter === 'absent' && { backgroundColor: '#FEE2E2' }]}
-                  textStyle={statusFilter === 'absent' ? styles.chipTextSelected : styles.chipText}
-                  icon={statusFilter === 'absent' ? 'close-circle' : 'circle-outline'}
-                >
-                  Absent
-                </Chip>
-                <Chip
-                  selected={statusFilter === 'leave'}
-                  onPress={() => setStatusFilter('leave')}
-                  style={[styles.chip, statusFilter === 'leave' && { backgroundColor: '#FEF3C7' }]}
-                  textStyle={statusFilter === 'leave' ? styles.chipTextSelected : styles.chipText}
-                  icon={statusFilter === 'leave' ? 'calendar-clock' : 'circle-outline'}
-                >
-                  Leave
-                </Chip>
+            <View style={styles.sessionHeader}>
+              <View style={styles.dateHeader}>
+                <MaterialCommunityIcons name="clock-outline" size={20} color="#7B2CBF" />
+                <Text variant="titleMedium" style={styles.dateTitle}>
+                  Class Session
+                </Text>
               </View>
+              <Button mode="text" icon="plus" onPress={openSessionDialog} textColor="#7B2CBF" compact>
+                New Session
+              </Button>
             </View>
+            {sessions.length === 0 ? (
+              <Text variant="bodySmall" style={styles.sessionHint}>
+                {loading ? 'Loading sessions...' : 'No classes on this date yet. Create a session to mark attendance.'}
+              </Text>
+            ) : (
+              <View style={styles.chipsRow}>
+                {sessions.map((session) => (
+                  <Chip
+                    key={session.id}
+                    selected={session.id === selectedSessionId}
+                    onPress={() => handleSelectSession(session)}
+                    style={[styles.sessionChip, session.id === selectedSessionId && styles.sessionChipSelected]}
+                    textStyle={session.id === selectedSessionId ? styles.chipTextSelected : styles.chipText}
+                  >
+                    {session.batch_name} • {formatSessionTime(session)}
+                  </Chip>
+                ))}
+              </View>
+            )}
+            {scheduledBatches.length > 0 && (
+              <View style={styles.scheduledContainer}>
+                <Text variant="bodySmall" style={styles.sessionHint}>
+                  Scheduled in the timetable - tap to start
+                </Text>
+                <View style={styles.chipsRow}>
+                  {scheduledBatches.map((batch) => (
+                    <Chip
+                      key={batch.id}
+                      icon="play-circle-outline"
+                      onPress={() => handleStartBatchSession(batch)}
+                      disabled={startingBatchId !== null}
+                      style={styles.scheduledChip}
+                      textStyle={styles.chipText}
+                    >
+                      {batch.name} • {formatSessionTime(batch)}
+                      {!userBranchId && !selectedBranchId && batch.branch?.name ? ` • ${batch.branch.name}` : ''}
+                    </Chip>
+                  ))}
+                </View>
+              </View>
+            )}
+            {selectedSession && (
+              <View style={styles.sessionDetails}>
+                <Text variant="bodySmall" style={styles.sessionHint}>
+                  {[
+                    !userBranchId && selectedSession.branch?.name,
+                    selectedSession.instructor?.name && `Instructor: ${selectedSession.instructor.name}`,
+                    `${selectedSession.attendance_count || 0} marked`,
+                  ]
+                    .filter(Boolean)
+                    .join(' • ')}
+                </Text>
+                <View style={styles.sessionActions}>
+                  <Button mode="text" icon="qrcode-scan" onPress={openCheckInScanner} textColor="#7B2CBF" compact>
+                    Scan QR
+                  </Button>
+                  {!selectedSession.attendance_count && (
+                    <Button mode="text" onPress={() => setDeleteSessionVisible(true)} textColor="#EF4444" compact>
+                      Delete
+                    </Button>
+                  )}
+                </View>
+              </View>
+            )}
+            {selectedSession && enrolledIds && (
+              <View style={styles.sessionDetails}>
+                <Text variant="bodySmall" style={styles.sessionHint}>
+                  {showAllStudents ? 'Showing all branch students' : `${enrolledIds.size} enrolled in this batch`}
+                </Text>
+                <Button mode="text" onPress={() => setShowAllStudents((current) => !current)} textColor="#7B2CBF" compact>
+                  {showAllStudents ? 'Enrolled only' : 'Show all'}
+                </Button>
+              </View>
+            )}
           </Card.Content>
         </Card>
 
+        {/* Quick Filters Card */}
+        {selectedSession && (
+          <Card style={styles.sectionCard} mode="elevated" elevation={1}>
+            <Card.Content>
+              <View style={styles.filtersContainer}>
+                <Searchbar
+                  placeholder="Search students..."
+                  onChangeText={setSearchQuery}
+                  value={searchQuery}
+                  style={styles.searchbar}
+                  inputStyle={styles.searchInput}
+                />
+                <View style={styles.chipsRow}>
+                  <Chip
+                    selected={statusFilter === 'all'}
+                    onPress={() => setStatusFilter('all')}
+                    style={styles.chip}
+                    textStyle={statusFilter === 'all' ? styles.chipTextSelected : styles.chipText}
+                    icon={statusFilter === 'all' ? 'check-circle' : 'circle-outline'}
+                  >
+                    All
+                  </Chip>
+                  <Chip
+                    selected={statusFilter === 'present'}
+                    onPress={() => setStatusFilter('present')}
+                    style={[styles.chip, statusFilter === 'present' && { backgroundColor: '#D1FAE5' }]}
+                    textStyle={statusFilter === 'present' ? styles.chipTextSelected : styles.chipText}
+                    icon={statusFilter === 'present' ? 'check-circle' : 'circle-outline'}
+                  >
+                    Present
+                  </Chip>
+                  <Chip
+                    selected={statusFilter === 'absent'}
+                    onPress={() => setStatusFilter('absent')}
+                    style={[styles.chip, statusFilter === 'absent' && { backgroundColor: '#FEE2E2' }]}
+                    textStyle={statusFilter === 'absent' ? styles.chipTextSelected : styles.chipText}
+                    icon={statusFilter === 'absent' ? 'close-circle' : 'circle-outline'}
+                  >
+                    Absent
+                  </Chip>
+                  <Chip
+                    selected={statusFilter === 'leave'}
+                    onPress={() => setStatusFilter('leave')}
+                    style={[styles.chip, statusFilter === 'leave' && { backgroundColor: '#FEF3C7' }]}
+                    textStyle={statusFilter === 'leave' ? styles.chipTextSelected : styles.chipText}
+                    icon={statusFilter === 'leave' ? 'calendar-clock' : 'circle-outline'}
+                  >
+                    Leave
+                  </Chip>
+                </View>
+              </View>
+            </Card.Content>
+          </Card>
+        )}
+
         {/* Loading State */}
         {loading && (
           <Card style={styles.sectionCard} mode="elevated" elevation={1}>
@@ -452,7 +751,7 @@ export default function MarkAttendanceScreen() {
         )}
 
         {/* Students List */}
-        {!loading && (
+        {!loading && selectedSession && (
           <View style={styles.list}>
             {filteredStudents.length === 0 ? (
               <Card style={styles.sectionCard} mode="elevated" elevation={1}>
@@ -465,8 +764,10 @@ export default function MarkAttendanceScreen() {
                     <Text variant="bodySmall" style={styles.emptyText}>
                       {searchQuery
                         ? 'Try adjusting your search or filters'
-                        : students.length === 0
-                        ? (selectedBranchId ? 'No active students in this branch' : 'No active students found')
+                        : sessionStudents.length === 0
+                        ? enrolledIds && !showAllStudents
+                          ? 'No students enrolled in this batch'
+                          : selectedBranchId ? 'No active students in this branch' : 'No active students found'
                         : 'No students match the current filters'}
                     </Text>
                   </View>
@@ -495,7 +796,7 @@ export default function MarkAttendanceScreen() {
       </ScrollView>
 
       {/* Bottom Action Bar */}
-      {!loading && filteredStudents.length > 0 && (
+      {!loading && selectedSession && filteredStudents.length > 0 && (
         <Card style={[styles.actionBar, { paddingBottom: insets.bottom + 8 }]} mode="elevated" elevation={4}>
           <Card.Content style={styles.actionBarContent}>
             <View style={styles.actionButtons}>
@@ -543,6 +844,83 @@ export default function MarkAttendanceScreen() {
         </Card>
       )}
 
+      {/* New Session Dialog */}
+      <Dialog visible={sessionDialogVisible} onDismiss={() => setSessionDialogVisible(false)}>
+        <Dialog.Title>New Class Session</Dialog.Title>
+        <Dialog.ScrollArea style={styles.dialogScrollArea}>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text variant="bodySmall" style={styles.sessionHint}>
+              {format(new Date(selectedDate + 'T00:00:00'), 'EEEE, dd MMM yyyy')}
+            </Text>
+            <TextInput
+              label="Batch name"
+              value={batchName}
+              onChangeText={setBatchName}
+              mode="outlined"
+              placeholder="e.g. Morning Batch, Sparring"
+              style={styles.dialogInput}
+            />
+            <View style={styles.timeRow}>
+              <TextInput
+                label="Start (HH:MM)"
+                value={startTime}
+                onChangeText={setStartTime}
+                mode="outlined"
+                placeholder="06:00"
+                keyboardType="numbers-and-punctuation"
+                style={styles.timeInput}
+              />
+              <TextInput
+                label="End (HH:MM)"
+                value={endTime}
+                onChangeText={setEndTime}
+                mode="outlined"
+                placeholder="07:30"
+                keyboardType="numbers-and-punctuation"
+                style={styles.timeInput}
+              />
+            </View>
+            {instructors.length > 0 && (
+              <>
+                <Text variant="labelLarge" style={styles.dialogLabel}>
+                  Instructor
+                </Text>
+                <View style={styles.chipsRow}>
+                  {instructors.map((instructor) => (
+                    <Chip
+                      key={instructor.id}
+                      selected={instructorId === instructor.id}
+                      onPress={() => setInstructorId(instructorId === instructor.id ? null : instructor.id)}
+                    >
+                      {instructor.name}
+                    </Chip>
+                  ))}
+                </View>
+              </>
+            )}
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={() => setSessionDialogVisible(false)} disabled={creatingSession}>
+            Cancel
+          </Button>
+          <Button onPress={handleCreateSession} loading={creatingSession} mode="contained" buttonColor="#7B2CBF">
+            Create
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+
+      <ConfirmDialog
+        visible={deleteSessionVisible}
+        title="Delete Class Session"
+        message={`Delete ${selectedSession?.batch_name || 'this session'}? No attendance has been marked for it.`}
+        confirmLabel="Delete"
+        confirmColor="#EF4444"
+        loading={deletingSession}
+        onConfirm={handleDeleteSession}
+        onCancel={() => setDeleteSessionVisible(false)}
+      />
+
       <Snackbar
         visible={snackbar.visible}
         onDismiss={() => setSnackbar({ visible: false, message: '' })}
@@ -741,6 +1119,61 @@ const styles = StyleSheet.create({
   branchButtonContent: {
     paddingVertical: 4,
   },
+  sessionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  sessionHint: {
+    color: '#666666',
+  },
+  sessionChip: {
+    backgroundColor: '#F9FAFB',
+  },
+  sessionChipSelected: {
+    backgroundColor: '#7B2CBF',
+  },
+  sessionActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  scheduledContainer: {
+    marginTop: 12,
+  },
+  scheduledChip: {
+    backgroundColor: '#F3E8FF',
+    borderWidth: 1,
+    borderColor: '#7B2CBF',
+    borderStyle: 'dashed',
+  },
+  sessionDetails: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  dialogScrollArea: {
+    maxHeight: 440,
+    paddingHorizontal: 24,
+    paddingTop: 8,
+  },
+  dialogInput: {
+    marginTop: 12,
+  },
+  dialogLabel: {
+    color: '#1A1A1A',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  timeInput: {
+    flex: 1,
+  },
   filtersContainer: {
     gap: 12,
   },
@@ -44,6 +44,34 @@ const FEATURES: Feature[] = [
     gradient: ['#8B5CF6', '#7C3AED'],
     iconColor: '#FFFFFF',
   },
+  {
+    icon: 'chart-bar',
+    label: 'Reports',
+    route: '/(admin)/(tabs)/reports',
+    gradient: ['#0EA5E9', '#0284C7'],
+    iconColor: '#FFFFFF',
+  },
+  {
+    icon: 'calendar-clock',
+    label: 'Timetable',
+    route: '/(admin)/(tabs)/timetable',
+    gradient: ['#F97316', '#EA580C'],
+    iconColor: '#FFFFFF',
+  },
+  {
+    icon: 'trophy',
+    label: 'Belt Gradings',
+    route: '/(admin)/(tabs)/belt-grading',
+    gradient: ['#EF4444', '#DC2626'],
+    iconColor: '#FFFFFF',
+  },
+  {
+    icon: 'qrcode-scan',
+    label: 'UPI Payments',
+    route: '/(admin)/(tabs)/upi-reconciliation',
+    gradient: ['#14B8A6', '#0D9488'],
+    iconColor: '#FFFFFF',
+  },
   {
     icon: 'bell-outline',
     label: 'Notifications',
@@ -67,6 +95,10 @@ const FEATURES: Feature[] = [
   },
 ]
 
+const FEATURE_ROWS: Feature[][] = Array.from({ length: Math.ceil(FEATURES.length / 3) }, (_, index) =>
+  FEATURES.slice(index * 3, index * 3 + 3)
+)
+
 export default function MoreScreen() {
   const router = useRouter()
 
@@ -82,99 +114,42 @@ export default function MoreScreen() {
         </Text>
 
         <View style={styles.featuresGrid}>
-          {/* Top row: 3 cards */}
-          <View style={styles.featureRow}>
-            {FEATURES.slice(0, 3).map((feature) => (
-              <TouchableOpacity
-                key={feature.route}
-                style={styles.featureButton}
-                activeOpacity={0.8}
-                onPress={() => router.push(feature.route as any)}
-              >
-                <Card style={styles.card}>
-                  <LinearGradient
-                    colors={feature.gradient as [string, string, ...string[]]}
-                    start={{ x: 0, y: 0 }}
-                    end={{ x: 1, y: 1 }}
-                    style={styles.gradient}
-                  >
-                    <Card.Content style={styles.featureContent}>
-                      <MaterialCommunityIcons
-                        name={feature.icon as any}
-                        size={32}
-                        color={feature.iconColor}
-                      />
-                      <Text variant="bodyMedium" style={styles.featureLabel}>
-                        {feature.label}
-                      </Text>
-                    </Card.Content>
-                  </LinearGradient>
-                </Card>
-              </TouchableOpacity>
-            ))}
-          </View>
-          {/* Middle row: 2 cards */}
-          <View style={styles.featureRow}>
-            {FEATURES.slice(3, 5).map((feature) => (
-              <TouchableOpacity
-                key={feature.route}
-                style={styles.featureButtonTwo}
-                activeOpacity={0.8}
-                onPress={() => router.push(feature.route as any)}
-              >
-                <Card style={styles.card}>
-                  <LinearGradient
-                    colors={feature.gradient as [string, string, ...string[]]}
-                    start={{ x: 0, y: 0 }}
-                    end={{ x: 1, y: 1 }}
-                    style={styles.gradient}
-                  >
-                    <Card.Content style={styles.featureContent}>
-                      <MaterialCommunityIcons
-                        name={feature.icon as any}
-                        size={32}
-                        color={feature.iconColor}
-                      />
-                      <Text variant="bodyMedium" style={styles.featureLabel}>
-                        {feature.label}
-                      </Text>
-                    </Card.Content>
-                  </LinearGradient>
-                </Card>
-              </TouchableOpacity>
-            ))}
-          </View>
-          {/* Bottom row: 2 cards */}
-          <View style={styles.featureRow}>
-            {FEATURES.slice(5, 7).map((feature) => (
-              <TouchableOpacity
-                key={feature.route}
-                style={styles.featureButtonTwo}
-                activeOpacity={0.8}
-                onPress={() => router.push(feature.route as any)}
-              >
-                <Card style={styles.card}>
-                  <LinearGradient
-                    colors={feature.gradient as [string, string, ...string[]]}
-                    start={{ x: 0, y: 0 }}
-                    end={{ x: 1, y: 1 }}
-                    style={styles.gradient}
-                  >
-                    <Card.Content style={styles.featureContent}>
-                      <MaterialCommunityIcons
-                        name={feature.icon as any}
-                        size={32}
-                        color={feature.iconColor}
-                      />
-                      <Text variant="bodyMedium" style={styles.featureLabel}>
-                        {feature.label}
-                      </Text>
-                    </Card.Content>
-                  </LinearGradient>
-                </Card>
-              </TouchableOpacity>
-            ))}
-          </View>
+          {/* Rows of 3 cards; the last row is padded so cards keep their width */}
+          {FEATURE_ROWS.map((row, rowIndex) => (
+            <View key={rowIndex} style={styles.featureRow}>
+              {row.map((feature) => (
+                <TouchableOpacity
+                  key={feature.route}
+                  style={styles.featureButton}
+                  activeOpacity={0.8}
+                  onPress={() => router.push(feature.route as any)}
+                >
+                  <Card style={styles.card}>
+                    <LinearGradient
+                      colors={feature.gradient as [string, string, ...string[]]}
+                      start={{ x: 0, y: 0 }}
+                      end={{ x: 1, y: 1 }}
+                      style={styles.gradient}
+                    >
+                      <Card.Content style={styles.featureContent}>
+                        <MaterialCommunityIcons
+                          name={feature.icon as any}
+                          size={32}
+                          color={feature.iconColor}
+                        />
+                        <Text variant="bodyMedium" style={styles.featureLabel}>
+                          {feature.label}
+                        </Text>
+                      </Card.Content>
+                    </LinearGradient>
+                  </Card>
+                </TouchableOpacity>
+              ))}
+              {Array.from({ length: 3 - row.length }, (_, index) => (
+                <View key={`spacer-${index}`} style={styles.featureButton} />
+              ))}
+            </View>
+          ))}
         </View>
 
         {/* Storage Usage Section */}
@@ -222,10 +197,6 @@ const styles = StyleSheet.create({
   featureButton: {
     flex: 1,
   },
-  featureButtonTwo: {
-    flex: 1,
-    maxWidth: '48%', // For 2 cards per row
-  },
   card: {
     elevation: 4,
     borderRadius: RADIUS.lg,
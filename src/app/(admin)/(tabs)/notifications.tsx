@@ -124,6 +124,7 @@ export default function AdminNotificationsScreen() {
   const getTargetLabel = (notification: Notification) => {
     if (notification.targetType === 'all') return 'All Students'
     if (notification.targetType === 'branch') return 'Branch'
+    if (notification.targetType === 'batch') return 'Batch'
     return 'Selected Students'
   }
 
@@ -1,14 +1,25 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react'
 import { View, StyleSheet, ScrollView, KeyboardAvoidingView, Platform } from 'react-native'
-import { Text, Card, Button, TextInput, ActivityIndicator, Snackbar, Menu } from 'react-native-paper'
+import { Text, Card, Button, TextInput, ActivityIndicator, Snackbar, Menu, Dialog, Chip } from 'react-native-paper'
 import { useRouter, useLocalSearchParams, useFocusEffect } from 'expo-router'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { useAuth } from '@/context/AuthContext'
-import { getAllFees, recordPayment, type StudentFee } from '@/lib/fees'
+import {
+  getAllFees,
+  recordPayment,
+  getStudentPayments,
+  reversePayment,
+  refundPayment,
+  type StudentFee,
+  type FeePayment,
+  type PaymentReversalType,
+} from '@/lib/fees'
+import { shareFeeReceipt } from '@/lib/receipts'
 import { logger } from '@/lib/logger'
 import { AdminHeader } from '@/components/admin/AdminHeader'
+import { PaymentHistoryList } from '@/components/shared/PaymentHistoryList'
 
-const PAYMENT_METHODS = ['cash', 'bank_transfer', 'cheque', 'online', 'other']
+const PAYMENT_METHODS = ['cash', 'upi', 'bank_transfer', 'cheque', 'online', 'other']
 
 export default function RecordPaymentScreen() {
   const router = useRouter()
@@ -22,10 +33,16 @@ export default function RecordPaymentScreen() {
   const [saving, setSaving] = useState(false)
   const [paymentAmount, setPaymentAmount] = useState('')
   const [paymentMethod, setPaymentMethod] = useState('cash')
-  const [receiptNumber, setReceiptNumber] = useState('')
   const [notes, setNotes] = useState('')
+  const [paymentReference, setPaymentReference] = useState('')
   const [methodMenuVisible, setMethodMenuVisible] = useState(false)
   const [snackbar, setSnackbar] = useState({ visible: false, message: '' })
+  const [payments, setPayments] = useState<FeePayment[]>([])
+  const [reverseTarget, setReverseTarget] = useState<FeePayment | null>(null)
+  const [reverseType, setReverseType] = useState<PaymentReversalType>('reversal')
+  const [refundToCredit, setRefundToCredit] = useState(false)
+  const [reverseReason, setReverseReason] = useState('')
+  const [reversing, setReversing] = useState(false)
   
   // Refs to prevent unnecessary reloads
   const lastLoadTimeRef = useRef<number>(0)
@@ -43,8 +60,8 @@ export default function RecordPaymentScreen() {
 
         // Clear form when screen comes into focus
         setPaymentAmount('')
-        setReceiptNumber('')
         setNotes('')
+        setPaymentReference('')
         setPaymentMethod('cash')
         
         // Reload fee data
@@ -90,6 +107,13 @@ export default function RecordPaymentScreen() {
       
       // Auto-fill remaining amount (user can change it)
       setPaymentAmount(remainingAmount > 0 ? remainingAmount.toFixed(2) : '')
+
+      // Instalments recorded against this fee
+      const paymentsResult = await getStudentPayments(foundFee.student_id, feeId)
+      if (paymentsResult.error) {
+        logger.error('Error loading fee payments', paymentsResult.error)
+      }
+      setPayments(paymentsResult.payments || [])
     } catch (error) {
       logger.error('Error loading fee', error as Error)
       setSnackbar({ visible: true, message: 'Failed to load fee' })
@@ -114,8 +138,13 @@ export default function RecordPaymentScreen() {
     const totalAmount = typeof fee.amount === 'number' ? fee.amount : 0
     const remainingAmount = totalAmount - paidAmount
 
-    if (amount > remainingAmount) {
-      setSnackbar({ visible: true, message: `Payment amount cannot exceed remaining balance of ₹${remainingAmount.toFixed(2)}` })
+    if (remainingAmount <= 0) {
+      setSnackbar({ visible: true, message: 'Fee is already fully paid' })
+      return
+    }
+
+    if (paymentMethod === 'upi' && !paymentReference.trim()) {
+      setSnackbar({ visible: true, message: 'Please enter the UPI transaction reference' })
       return
     }
 
@@ -124,9 +153,10 @@ export default function RecordPaymentScreen() {
       const result = await recordPayment(feeId, {
         amount,
         paymentMethod,
-        receiptNumber: receiptNumber.trim() || null,
         notes: notes.trim() || null,
-        recordedById: user.id,
+        paymentReference: paymentMethod === 'upi' ? paymentReference.trim() : null,
+        // Anything above the balance is kept as the student's credit
+        excessToCredit: amount > remainingAmount,
       })
 
       if (result.error) {
@@ -140,7 +170,12 @@ export default function RecordPaymentScreen() {
       // Refresh fee data after successful payment to get updated balance
       await loadFee()
 
-      setSnackbar({ visible: true, message: 'Payment recorded successfully' })
+      setSnackbar({
+        visible: true,
+        message: result.payment?.receipt_number
+          ? `Payment recorded • Receipt #${result.payment.receipt_number}`
+          : 'Payment recorded successfully',
+      })
       
       // Navigate back to student profile (where user came from)
       // Always navigate to student profile if we have student_id
@@ -159,6 +194,59 @@ export default function RecordPaymentScreen() {
     }
   }
 
+  const handleShareReceipt = async (payment: FeePayment) => {
+    const result = await shareFeeReceipt(payment.id)
+    if (result.error) {
+      setSnackbar({ visible: true, message: result.error.message })
+    }
+  }
+
+  const openReverseDialog = (payment: FeePayment) => {
+    setReverseTarget(payment)
+    setReverseType('reversal')
+    setRefundToCredit(false)
+    setReverseReason('')
+  }
+
+  const handleReverse = async () => {
+    if (!reverseTarget) return
+
+    if (!reverseReason.trim()) {
+      setSnackbar({ visible: true, message: 'Please enter a reason' })
+      return
+    }
+
+    try {
+      setReversing(true)
+      const result =
+        reverseType === 'refund'
+          ? await refundPayment(reverseTarget.id, reverseReason.trim(), refundToCredit)
+          : await reversePayment(reverseTarget.id, reverseReason.trim())
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      setReverseTarget(null)
+      setSnackbar({
+        visible: true,
+        message:
+          reverseType === 'refund'
+            ? refundToCredit
+              ? 'Payment refunded to credit balance'
+              : 'Payment refunded'
+            : 'Payment reversed',
+      })
+      await loadFee()
+    } catch (error) {
+      logger.error('Error reversing payment', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to reverse payment' })
+    } finally {
+      setReversing(false)
+    }
+  }
+
   if (loading) {
     return (
       <View style={[styles.container, { paddingTop: insets.top }]}>
@@ -272,6 +360,15 @@ export default function RecordPaymentScreen() {
           </Card.Content>
         </Card>
 
+        {/* Payments recorded against this fee */}
+        <PaymentHistoryList
+          title="Payments"
+          payments={payments}
+          emptyText="No payments recorded for this fee yet"
+          onReverse={openReverseDialog}
+          onShareReceipt={handleShareReceipt}
+        />
+
         {/* Payment Form Card */}
         <Card style={styles.card}>
           <Card.Content>
@@ -300,8 +397,7 @@ export default function RecordPaymentScreen() {
               error={
                 paymentAmount && 
                 (isNaN(parseFloat(paymentAmount)) || 
-                 parseFloat(paymentAmount) <= 0 || 
-                 parseFloat(paymentAmount) > remainingAmount)
+                 parseFloat(paymentAmount) <= 0)
               }
             />
             {remainingAmount > 0 && (
@@ -309,6 +405,12 @@ export default function RecordPaymentScreen() {
                 Remaining balance: ₹{remainingAmount.toFixed(2)}
               </Text>
             )}
+            {remainingAmount > 0 && parseFloat(paymentAmount) > remainingAmount && (
+              <Text variant="bodySmall" style={{ marginTop: 4, color: '#D97706' }}>
+                ₹{(parseFloat(paymentAmount) - remainingAmount).toFixed(2)} above the balance will be kept as the
+                student's credit
+              </Text>
+            )}
             {remainingAmount <= 0 && (
               <Text variant="bodySmall" style={{ marginTop: 4, color: '#10B981' }}>
                 Fee is fully paid
@@ -347,14 +449,17 @@ export default function RecordPaymentScreen() {
               ))}
             </Menu>
 
-            <TextInput
-              label="Receipt Number (optional)"
-              value={receiptNumber}
-              onChangeText={setReceiptNumber}
-              mode="outlined"
-              style={styles.input}
-              disabled={saving}
-            />
+            {paymentMethod === 'upi' && (
+              <TextInput
+                label="UPI Reference (UTR)"
+                value={paymentReference}
+                onChangeText={setPaymentReference}
+                mode="outlined"
+                autoCapitalize="characters"
+                style={styles.input}
+                disabled={saving}
+              />
+            )}
 
             <TextInput
               label="Notes (optional)"
@@ -382,6 +487,73 @@ export default function RecordPaymentScreen() {
         </Card>
       </ScrollView>
 
+      {/* Reverse / Refund Dialog */}
+      <Dialog visible={!!reverseTarget} onDismiss={() => !reversing && setReverseTarget(null)}>
+        <Dialog.Title>Reverse Payment</Dialog.Title>
+        <Dialog.Content>
+          {reverseTarget && (
+            <Text variant="bodyMedium" style={styles.dialogLabel}>
+              ₹{reverseTarget.amount.toFixed(2)} via {reverseTarget.payment_method.replace('_', ' ').toUpperCase()}
+              {reverseTarget.receipt_number ? ` (#${reverseTarget.receipt_number})` : ''}
+            </Text>
+          )}
+          <View style={styles.chipRow}>
+            <Chip
+              selected={reverseType === 'reversal'}
+              onPress={() => setReverseType('reversal')}
+              icon="undo-variant"
+            >
+              Entered by mistake
+            </Chip>
+            <Chip
+              selected={reverseType === 'refund' && !refundToCredit}
+              onPress={() => {
+                setReverseType('refund')
+                setRefundToCredit(false)
+              }}
+              icon="cash-refund"
+            >
+              Refund to student
+            </Chip>
+            {reverseTarget?.payment_method !== 'credit' && (
+              <Chip
+                selected={reverseType === 'refund' && refundToCredit}
+                onPress={() => {
+                  setReverseType('refund')
+                  setRefundToCredit(true)
+                }}
+                icon="wallet-plus"
+              >
+                Refund to credit
+              </Chip>
+            )}
+          </View>
+          <TextInput
+            label="Reason *"
+            value={reverseReason}
+            onChangeText={setReverseReason}
+            mode="outlined"
+            multiline
+            numberOfLines={2}
+            disabled={reversing}
+          />
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={() => setReverseTarget(null)} disabled={reversing}>
+            Cancel
+          </Button>
+          <Button
+            onPress={handleReverse}
+            loading={reversing}
+            disabled={reversing}
+            mode="contained"
+            buttonColor="#DC2626"
+          >
+            {reverseType === 'refund' ? 'Refund' : 'Reverse'}
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+
       <Snackbar
         visible={snackbar.visible}
         onDismiss={() => setSnackbar({ visible: false, message: '' })}
@@ -445,5 +617,15 @@ const styles = StyleSheet.create({
   submitButton: {
     marginTop: 8,
   },
+  dialogLabel: {
+    marginBottom: 12,
+    color: '#1A1A1A',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
 })
 
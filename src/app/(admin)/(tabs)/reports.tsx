@@ -0,0 +1,468 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native'
+import { Text, Card, Button, ActivityIndicator, Chip, Snackbar } from 'react-native-paper'
+import { useFocusEffect } from 'expo-router'
+import { format, startOfMonth, startOfYear, subMonths } from 'date-fns'
+import { useAuth } from '@/context/AuthContext'
+import {
+  getFinancialReport,
+  shareFinancialReportCsv,
+  AGING_BUCKET_LABELS,
+  type AgingBucket,
+  type FinancialReport,
+  type ReportGrouping,
+} from '@/lib/reports'
+import type { FeeType } from '@/lib/fees'
+import { getBranches, type Branch } from '@/lib/branches'
+import { getProfileByUserId } from '@/lib/profiles'
+import { logger } from '@/lib/logger'
+import { AdminHeader } from '@/components/admin/AdminHeader'
+
+type RangePreset = 'this_month' | 'last_3_months' | 'this_year'
+
+const RANGE_LABELS: Record<RangePreset, string> = {
+  this_month: 'This Month',
+  last_3_months: 'Last 3 Months',
+  this_year: 'This Year',
+}
+
+const FEE_TYPE_LABELS: Record<FeeType, string> = {
+  registration: 'Registration',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+  grading: 'Grading',
+  late_fee: 'Late Fee',
+}
+
+const AGING_COLORS: Record<AgingBucket, string> = {
+  current: '#10B981',
+  days_0_30: '#F59E0B',
+  days_31_60: '#EA580C',
+  days_60_plus: '#DC2626',
+}
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd')
+
+function getRange(preset: RangePreset): { startDate: string; endDate: string } {
+  const today = new Date()
+  switch (preset) {
+    case 'this_month':
+      return { startDate: toDateString(startOfMonth(today)), endDate: toDateString(today) }
+    case 'last_3_months':
+      return { startDate: toDateString(startOfMonth(subMonths(today, 2))), endDate: toDateString(today) }
+    case 'this_year':
+      return { startDate: toDateString(startOfYear(today)), endDate: toDateString(today) }
+  }
+}
+
+const formatPeriod = (period: string, groupBy: ReportGrouping) =>
+  groupBy === 'day'
+    ? format(new Date(period + 'T00:00:00'), 'dd MMM yyyy')
+    : format(new Date(period + '-01T00:00:00'), 'MMM yyyy')
+
+export default function ReportsScreen() {
+  const { user } = useAuth()
+
+  const [report, setReport] = useState<FinancialReport | null>(null)
+  const [branches, setBranches] = useState<Branch[]>([])
+  const [isSuperAdmin, setIsSuperAdmin] = useState(false)
+  const [selectedBranchId, setSelectedBranchId] = useState<string | null>(null) // null = all branches
+  const [rangePreset, setRangePreset] = useState<RangePreset>('this_month')
+  const [groupBy, setGroupBy] = useState<ReportGrouping>('day')
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [snackbar, setSnackbar] = useState({ visible: false, message: '' })
+
+  // Refs to prevent unnecessary reloads
+  const lastLoadTimeRef = useRef<number>(0)
+  const isLoadingRef = useRef(false)
+
+  useEffect(() => {
+    loadUserProfile()
+  }, [user])
+
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user, selectedBranchId, rangePreset, groupBy])
+
+  // Auto-refresh when screen comes into focus
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return
+
+      // Skip if just loaded or currently loading
+      const timeSinceLastLoad = Date.now() - lastLoadTimeRef.current
+      if (isLoadingRef.current || timeSinceLastLoad < 1000) {
+        return
+      }
+
+      // Reload data
+      isLoadingRef.current = true
+      loadData().finally(() => {
+        isLoadingRef.current = false
+        lastLoadTimeRef.current = Date.now()
+      })
+    }, [user, selectedBranchId, rangePreset, groupBy])
+  )
+
+  const loadUserProfile = async () => {
+    if (!user?.id) return
+
+    try {
+      const result = await getProfileByUserId(user.id)
+      if (result.profile?.role === 'super_admin') {
+        setIsSuperAdmin(true)
+        const branchesResult = await getBranches({ status: 'active' })
+        if (branchesResult.branches) {
+          setBranches(branchesResult.branches as Branch[])
+        }
+      }
+    } catch (error) {
+      logger.error('Error loading user profile', error as Error)
+    }
+  }
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      const result = await getFinancialReport({
+        ...getRange(rangePreset),
+        groupBy,
+        branchId: selectedBranchId,
+      })
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      setReport(result.report)
+    } catch (error) {
+      logger.error('Error loading financial report', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to load report' })
+    } finally {
+      setLoading(false)
+      setRefreshing(false)
+      lastLoadTimeRef.current = Date.now()
+    }
+  }
+
+  const handleRefresh = async () => {
+    setRefreshing(true)
+    await loadData()
+  }
+
+  const handleExport = async () => {
+    if (!report) return
+
+    setExporting(true)
+    const branchName = branches.find((b) => b.id === selectedBranchId)?.name
+    const result = await shareFinancialReportCsv(report, branchName)
+    setExporting(false)
+
+    if (result.error) {
+      setSnackbar({ visible: true, message: result.error.message })
+    }
+  }
+
+  const renderSummary = (label: string, value: string, color: string) => (
+    <Card style={styles.summaryCard}>
+      <Card.Content>
+        <Text variant="bodySmall" style={styles.mutedText}>
+          {label}
+        </Text>
+        <Text variant="titleLarge" style={[styles.summaryValue, { color }]}>
+          {value}
+        </Text>
+      </Card.Content>
+    </Card>
+  )
+
+  return (
+    <View style={styles.container}>
+      <AdminHeader title="Reports" subtitle="Collections, outstanding balances and aging" />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        {/* Branch selector (super admin only - branch admins see their own branch) */}
+        {isSuperAdmin && branches.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            <Chip selected={selectedBranchId === null} onPress={() => setSelectedBranchId(null)} icon="earth">
+              All Branches
+            </Chip>
+            {branches.map((branch) => (
+              <Chip
+                key={branch.id}
+                selected={selectedBranchId === branch.id}
+                onPress={() => setSelectedBranchId(branch.id)}
+                icon="office-building"
+              >
+                {branch.name}
+              </Chip>
+            ))}
+          </ScrollView>
+        )}
+
+        <View style={styles.chipRow}>
+          {(Object.keys(RANGE_LABELS) as RangePreset[]).map((preset) => (
+            <Chip key={preset} selected={rangePreset === preset} onPress={() => setRangePreset(preset)}>
+              {RANGE_LABELS[preset]}
+            </Chip>
+          ))}
+        </View>
+        <View style={styles.chipRow}>
+          <Chip selected={groupBy === 'day'} onPress={() => setGroupBy('day')} icon="calendar-today">
+            By Day
+          </Chip>
+          <Chip selected={groupBy === 'month'} onPress={() => setGroupBy('month')} icon="calendar-month">
+            By Month
+          </Chip>
+        </View>
+
+        {loading && !report ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#7B2CBF" />
+          </View>
+        ) : report ? (
+          <>
+            <View style={styles.summaryRow}>
+              {renderSummary('Collected', `₹${report.totalCollected.toFixed(2)}`, '#10B981')}
+              {renderSummary('Outstanding', `₹${report.totalOutstanding.toFixed(2)}`, '#DC2626')}
+            </View>
+
+            <Button
+              mode="contained"
+              onPress={handleExport}
+              loading={exporting}
+              disabled={exporting}
+              icon="file-delimited"
+              buttonColor="#7B2CBF"
+              style={styles.exportButton}
+            >
+              Export CSV
+            </Button>
+
+            {/* Collections */}
+            <View style={styles.section}>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Collections
+              </Text>
+              <Card style={styles.card}>
+                <Card.Content>
+                  {report.collections.length === 0 ? (
+                    <Text variant="bodyMedium" style={styles.mutedText}>
+                      No payments in this period
+                    </Text>
+                  ) : (
+                    report.collections.map((c) => (
+                      <View key={c.period} style={styles.row}>
+                        <Text variant="bodyMedium" style={styles.rowLabel}>
+                          {formatPeriod(c.period, report.groupBy)}
+                        </Text>
+                        <Text variant="bodySmall" style={styles.mutedText}>
+                          {c.paymentCount} payment{c.paymentCount === 1 ? '' : 's'}
+                        </Text>
+                        <Text variant="bodyMedium" style={styles.rowAmount}>
+                          ₹{c.amount.toFixed(2)}
+                        </Text>
+                      </View>
+                    ))
+                  )}
+                </Card.Content>
+              </Card>
+            </View>
+
+            {/* By fee type */}
+            <View style={styles.section}>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                By Fee Type
+              </Text>
+              <Card style={styles.card}>
+                <Card.Content>
+                  <View style={styles.row}>
+                    <Text variant="bodySmall" style={[styles.rowLabel, styles.mutedText]}>
+                      Fee Type
+                    </Text>
+                    <Text variant="bodySmall" style={[styles.rowAmount, styles.mutedText]}>
+                      Collected
+                    </Text>
+                    <Text variant="bodySmall" style={[styles.rowAmount, styles.mutedText]}>
+                      Outstanding
+                    </Text>
+                  </View>
+                  {report.byFeeType.map((b) => (
+                    <View key={b.feeType} style={styles.row}>
+                      <Text variant="bodyMedium" style={styles.rowLabel}>
+                        {FEE_TYPE_LABELS[b.feeType]}
+                      </Text>
+                      <Text variant="bodyMedium" style={styles.rowAmount}>
+                        ₹{b.collected.toFixed(2)}
+                      </Text>
+                      <Text variant="bodyMedium" style={[styles.rowAmount, b.outstanding > 0 && styles.dueText]}>
+                        ₹{b.outstanding.toFixed(2)}
+                      </Text>
+                    </View>
+                  ))}
+                </Card.Content>
+              </Card>
+            </View>
+
+            {/* Aging */}
+            <View style={styles.section}>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Outstanding Aging
+              </Text>
+              <Card style={styles.card}>
+                <Card.Content>
+                  {(Object.keys(AGING_BUCKET_LABELS) as AgingBucket[]).map((bucket) => (
+                    <View key={bucket} style={styles.row}>
+                      <View style={[styles.agingDot, { backgroundColor: AGING_COLORS[bucket] }]} />
+                      <Text variant="bodyMedium" style={styles.rowLabel}>
+                        {AGING_BUCKET_LABELS[bucket]}
+                      </Text>
+                      <Text variant="bodySmall" style={styles.mutedText}>
+                        {report.aging[bucket].feeCount} fee{report.aging[bucket].feeCount === 1 ? '' : 's'}
+                      </Text>
+                      <Text variant="bodyMedium" style={styles.rowAmount}>
+                        ₹{report.aging[bucket].amount.toFixed(2)}
+                      </Text>
+                    </View>
+                  ))}
+                </Card.Content>
+              </Card>
+            </View>
+
+            {/* Most overdue */}
+            {report.outstandingFees.length > 0 && (
+              <View style={styles.section}>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  Most Overdue
+                </Text>
+                <Card style={styles.card}>
+                  <Card.Content>
+                    {report.outstandingFees.slice(0, 10).map((f) => (
+                      <View key={f.feeId} style={styles.row}>
+                        <View style={styles.rowLabel}>
+                          <Text variant="bodyMedium">{f.studentName}</Text>
+                          <Text variant="bodySmall" style={styles.mutedText}>
+                            {FEE_TYPE_LABELS[f.feeType]} •{' '}
+                            {f.daysOverdue > 0 ? `${f.daysOverdue} days overdue` : 'Not yet due'}
+                          </Text>
+                        </View>
+                        <Text variant="bodyMedium" style={[styles.rowAmount, styles.dueText]}>
+                          ₹{f.balance.toFixed(2)}
+                        </Text>
+                      </View>
+                    ))}
+                    {report.outstandingFees.length > 10 && (
+                      <Text variant="bodySmall" style={styles.mutedText}>
+                        {report.outstandingFees.length - 10} more in the CSV export
+                      </Text>
+                    )}
+                  </Card.Content>
+                </Card>
+              </View>
+            )}
+          </>
+        ) : null}
+      </ScrollView>
+
+      <Snackbar
+        visible={snackbar.visible}
+        onDismiss={() => setSnackbar({ visible: false, message: '' })}
+        duration={3000}
+      >
+        {snackbar.message}
+      </Snackbar>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFF8E7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 80,
+  },
+  loadingContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    elevation: 1,
+  },
+  summaryValue: {
+    fontWeight: 'bold',
+    marginTop: 4,
+  },
+  exportButton: {
+    marginBottom: 24,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    elevation: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  rowLabel: {
+    flex: 1,
+    color: '#1A1A1A',
+  },
+  rowAmount: {
+    minWidth: 90,
+    textAlign: 'right',
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  mutedText: {
+    color: '#6B7280',
+  },
+  dueText: {
+    color: '#DC2626',
+  },
+  agingDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+})
@@ -0,0 +1,507 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native'
+import { Text, Card, Button, ActivityIndicator, Dialog, TextInput, Snackbar, Checkbox, Chip } from 'react-native-paper'
+import { useFocusEffect } from 'expo-router'
+import { format } from 'date-fns'
+import { useAuth } from '@/context/AuthContext'
+import { getAllFees, recordBulkPayments, type FeeType } from '@/lib/fees'
+import {
+  parseBankStatement,
+  matchStatementRows,
+  type StatementMatch,
+  type StatementMatchConfidence,
+  type StatementMatchSource,
+} from '@/lib/statement-import'
+import { logger } from '@/lib/logger'
+import { AdminHeader } from '@/components/admin/AdminHeader'
+
+const FEE_TYPE_LABELS: Record<FeeType, string> = {
+  registration: 'Registration',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+  grading: 'Grading',
+  late_fee: 'Late Fee',
+}
+
+const MATCH_SOURCE_LABELS: Record<StatementMatchSource, string> = {
+  student_id: 'Student ID',
+  phone: 'Phone',
+  name: 'Name',
+}
+
+const CONFIDENCE_COLORS: Record<StatementMatchConfidence, string> = {
+  high: '#10B981',
+  medium: '#F59E0B',
+  low: '#EA580C',
+}
+
+/**
+ * A proposed match under review, with the admin's choice and the commit result
+ */
+interface ReviewRow extends StatementMatch {
+  selected: boolean
+  result: { success: boolean; message: string } | null
+}
+
+const feeBalance = (fee: any) => Math.round((fee.amount - (fee.paid_amount || 0)) * 100) / 100
+
+const studentLabel = (fee: any) =>
+  fee?.student ? `${fee.student.first_name} ${fee.student.last_name} (${fee.student.student_id})` : 'Unknown student'
+
+export default function StatementImportScreen() {
+  const { user } = useAuth()
+
+  const [pendingFees, setPendingFees] = useState<any[]>([])
+  const [csvText, setCsvText] = useState('')
+  const [rows, setRows] = useState<ReviewRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [committing, setCommitting] = useState(false)
+  const [pickerLine, setPickerLine] = useState<number | null>(null)
+  const [pickerSearch, setPickerSearch] = useState('')
+  const [snackbar, setSnackbar] = useState({ visible: false, message: '' })
+
+  // Refs to prevent unnecessary reloads
+  const lastLoadTimeRef = useRef<number>(0)
+  const isLoadingRef = useRef(false)
+
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user])
+
+  // Auto-refresh when screen comes into focus
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return
+
+      // Skip if just loaded or currently loading
+      const timeSinceLastLoad = Date.now() - lastLoadTimeRef.current
+      if (isLoadingRef.current || timeSinceLastLoad < 1000) {
+        return
+      }
+
+      // Reload data
+      isLoadingRef.current = true
+      loadData().finally(() => {
+        isLoadingRef.current = false
+        lastLoadTimeRef.current = Date.now()
+      })
+    }, [user])
+  )
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      const [pendingResult, overdueResult] = await Promise.all([
+        getAllFees({ status: 'pending' }),
+        getAllFees({ status: 'overdue' }),
+      ])
+
+      if (pendingResult.error || overdueResult.error) {
+        const error = (pendingResult.error || overdueResult.error) as Error
+        logger.error('Error loading pending fees', error)
+        setSnackbar({ visible: true, message: error.message })
+        return
+      }
+
+      setPendingFees(
+        [...(pendingResult.fees || []), ...(overdueResult.fees || [])].filter((fee) => feeBalance(fee) > 0)
+      )
+    } catch (error) {
+      logger.error('Unexpected error loading pending fees', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to load pending fees' })
+    } finally {
+      setLoading(false)
+      setRefreshing(false)
+      lastLoadTimeRef.current = Date.now()
+    }
+  }
+
+  const handleRefresh = async () => {
+    setRefreshing(true)
+    await loadData()
+  }
+
+  const findFee = (feeId: string | null) => (feeId ? pendingFees.find((fee) => fee.id === feeId) : undefined)
+
+  const handleParse = () => {
+    const parsed = parseBankStatement(csvText)
+    if (parsed.error) {
+      setSnackbar({ visible: true, message: parsed.error.message })
+      return
+    }
+    if (parsed.rows.length === 0) {
+      setSnackbar({ visible: true, message: 'No credit rows found in the statement' })
+      return
+    }
+
+    setRows(
+      matchStatementRows(parsed.rows, pendingFees).map((match) => ({
+        ...match,
+        // Low-confidence guesses wait for the admin to tick them
+        selected: !!match.feeId && match.confidence !== 'low',
+        result: null,
+      }))
+    )
+
+    if (parsed.skippedLines.length > 0) {
+      setSnackbar({
+        visible: true,
+        message: `Skipped ${parsed.skippedLines.length} debit or unreadable line${parsed.skippedLines.length === 1 ? '' : 's'}`,
+      })
+    }
+  }
+
+  const updateRow = (line: number, changes: Partial<ReviewRow>) => {
+    setRows((current) => current.map((row) => (row.row.line === line ? { ...row, ...changes } : row)))
+  }
+
+  const handlePickFee = (feeId: string) => {
+    if (pickerLine === null) return
+    const fee = findFee(feeId)
+    updateRow(pickerLine, {
+      feeId,
+      studentId: fee?.student_id || null,
+      selected: true,
+      result: null,
+    })
+    setPickerLine(null)
+    setPickerSearch('')
+  }
+
+  const committableRows = rows.filter((row) => row.selected && row.feeId && !row.result?.success)
+  const committableTotal = committableRows.reduce((sum, row) => sum + row.row.amount, 0)
+
+  const handleCommit = async () => {
+    if (committableRows.length === 0) return
+
+    try {
+      setCommitting(true)
+      const result = await recordBulkPayments(
+        committableRows.map((row) => ({
+          studentFeeId: row.feeId as string,
+          amount: row.row.amount,
+          paymentMethod: 'bank_transfer',
+          paymentReference: row.row.reference,
+          notes: `Statement import: ${row.row.remark}`.slice(0, 500),
+        }))
+      )
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      // Results come back in the order the entries were sent
+      const outcomes = new Map(committableRows.map((row, index) => [row.row.line, result.results[index]]))
+      setRows((current) =>
+        current.map((row) => {
+          const outcome = outcomes.get(row.row.line)
+          if (!outcome) return row
+          return {
+            ...row,
+            selected: false,
+            result: outcome.error
+              ? { success: false, message: outcome.error }
+              : {
+                  success: true,
+                  message: outcome.payment?.receipt_number
+                    ? `Recorded • Receipt #${outcome.payment.receipt_number}`
+                    : 'Recorded',
+                },
+          }
+        })
+      )
+
+      const recorded = result.results.filter((r) => !r.error).length
+      setSnackbar({
+        visible: true,
+        message: `${recorded} of ${result.results.length} payment${result.results.length === 1 ? '' : 's'} recorded`,
+      })
+      await loadData()
+    } catch (error) {
+      logger.error('Unexpected error committing statement import', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to record payments' })
+    } finally {
+      setCommitting(false)
+    }
+  }
+
+  const recordedCount = rows.filter((row) => row.result?.success).length
+  const failedCount = rows.filter((row) => row.result && !row.result.success).length
+  const unmatchedCount = rows.filter((row) => !row.feeId && !row.result).length
+
+  const pickerQuery = pickerSearch.trim().toLowerCase()
+  const pickerFees = pendingFees.filter((fee) => !pickerQuery || studentLabel(fee).toLowerCase().includes(pickerQuery))
+
+  return (
+    <View style={styles.container}>
+      <AdminHeader title="Import Statement" subtitle="Record payments from a bank statement CSV" />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="bodySmall" style={styles.mutedText}>
+              Paste the receipts CSV exported from the bank. Rows are matched to students by the student ID or
+              phone number in the remark, then by name, and to their oldest pending fee that fits the amount.
+              The export needs a credit column, or an amount column with each row marked Dr or Cr.
+            </Text>
+            <TextInput
+              label="Statement CSV"
+              value={csvText}
+              onChangeText={setCsvText}
+              mode="outlined"
+              multiline
+              numberOfLines={6}
+              style={styles.input}
+            />
+            <Button mode="outlined" icon="table-search" onPress={handleParse} disabled={loading || !csvText.trim()}>
+              Match Rows
+            </Button>
+          </Card.Content>
+        </Card>
+
+        {loading && pendingFees.length === 0 ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#7B2CBF" />
+          </View>
+        ) : (
+          rows.length > 0 && (
+            <View style={styles.section}>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Review Matches
+              </Text>
+              <Text variant="bodySmall" style={[styles.mutedText, styles.summaryText]}>
+                {rows.length} rows • {recordedCount} recorded • {failedCount} failed • {unmatchedCount} unmatched
+              </Text>
+
+              {rows.map((row) => {
+                const fee = findFee(row.feeId)
+                const exceedsBalance = !!fee && !row.result && row.row.amount > feeBalance(fee)
+                const done = !!row.result?.success
+
+                return (
+                  <Card key={row.row.line} style={styles.rowCard}>
+                    <Card.Content style={styles.row}>
+                      <Checkbox
+                        status={row.selected ? 'checked' : 'unchecked'}
+                        disabled={!row.feeId || done}
+                        onPress={() => updateRow(row.row.line, { selected: !row.selected })}
+                        color="#7B2CBF"
+                      />
+                      <View style={styles.rowInfo}>
+                        <Text variant="bodyMedium" style={styles.rowTitle}>
+                          ₹{row.row.amount.toFixed(2)}
+                          {row.row.date ? ` • ${format(new Date(row.row.date + 'T00:00:00'), 'MMM dd, yyyy')}` : ''}
+                          {row.row.reference ? ` • ${row.row.reference}` : ''}
+                        </Text>
+                        <Text variant="bodySmall" style={styles.mutedText} numberOfLines={2}>
+                          {row.row.remark || 'No remark'}
+                        </Text>
+
+                        {fee ? (
+                          <Text variant="bodySmall" style={styles.matchText}>
+                            → {studentLabel(fee)} • {FEE_TYPE_LABELS[fee.fee_type as FeeType]} due{' '}
+                            {format(new Date(fee.due_date + 'T00:00:00'), 'MMM dd, yyyy')} • Balance ₹
+                            {feeBalance(fee).toFixed(2)}
+                          </Text>
+                        ) : (
+                          !done && (
+                            <Text variant="bodySmall" style={styles.warningText}>
+                              {row.studentId ? 'Student found, but no pending fee fits the amount' : 'No match'} – pick a
+                              fee
+                            </Text>
+                          )
+                        )}
+
+                        {row.matchedBy && row.confidence && !done && (
+                          <Chip
+                            compact
+                            style={[styles.confidenceChip, { backgroundColor: CONFIDENCE_COLORS[row.confidence] }]}
+                            textStyle={styles.confidenceText}
+                          >
+                            {MATCH_SOURCE_LABELS[row.matchedBy]} • {row.confidence}
+                          </Chip>
+                        )}
+                        {exceedsBalance && (
+                          <Text variant="bodySmall" style={styles.errorText}>
+                            Amount is more than the remaining balance
+                          </Text>
+                        )}
+                        {row.result && (
+                          <Text variant="bodySmall" style={row.result.success ? styles.successText : styles.errorText}>
+                            {row.result.message}
+                          </Text>
+                        )}
+                      </View>
+                      {!done && (
+                        <Button compact onPress={() => setPickerLine(row.row.line)} textColor="#7B2CBF">
+                          {fee ? 'Change' : 'Pick Fee'}
+                        </Button>
+                      )}
+                    </Card.Content>
+                  </Card>
+                )
+              })}
+
+              <Button
+                mode="contained"
+                icon="cash-check"
+                onPress={handleCommit}
+                loading={committing}
+                disabled={committing || committableRows.length === 0}
+                buttonColor="#7B2CBF"
+                style={styles.commitButton}
+              >
+                Record {committableRows.length} Payment{committableRows.length === 1 ? '' : 's'} (₹
+                {committableTotal.toFixed(2)})
+              </Button>
+            </View>
+          )
+        )}
+      </ScrollView>
+
+      <Dialog visible={pickerLine !== null} onDismiss={() => setPickerLine(null)}>
+        <Dialog.Title>Pick Fee</Dialog.Title>
+        <Dialog.Content>
+          <TextInput
+            label="Search student"
+            value={pickerSearch}
+            onChangeText={setPickerSearch}
+            mode="outlined"
+            style={styles.input}
+          />
+        </Dialog.Content>
+        <Dialog.ScrollArea style={styles.pickerArea}>
+          <ScrollView>
+            {pickerFees.length === 0 ? (
+              <Text variant="bodySmall" style={[styles.mutedText, styles.pickerEmpty]}>
+                No pending fees found
+              </Text>
+            ) : (
+              pickerFees.map((fee) => (
+                <Button
+                  key={fee.id}
+                  onPress={() => handlePickFee(fee.id)}
+                  textColor="#1A1A1A"
+                  contentStyle={styles.pickerItem}
+                >
+                  {studentLabel(fee)} • {FEE_TYPE_LABELS[fee.fee_type as FeeType]} • ₹{feeBalance(fee).toFixed(2)}
+                </Button>
+              ))
+            )}
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={() => setPickerLine(null)}>Cancel</Button>
+        </Dialog.Actions>
+      </Dialog>
+
+      <Snackbar
+        visible={snackbar.visible}
+        onDismiss={() => setSnackbar({ visible: false, message: '' })}
+        duration={3000}
+      >
+        {snackbar.message}
+      </Snackbar>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFF8E7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 80,
+  },
+  loadingContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    elevation: 1,
+    marginBottom: 24,
+  },
+  input: {
+    marginVertical: 12,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 4,
+  },
+  summaryText: {
+    marginBottom: 12,
+  },
+  rowCard: {
+    backgroundColor: '#FFFFFF',
+    elevation: 1,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  matchText: {
+    color: '#1A1A1A',
+  },
+  confidenceChip: {
+    alignSelf: 'flex-start',
+    marginTop: 4,
+  },
+  confidenceText: {
+    color: '#FFFFFF',
+    fontSize: 11,
+  },
+  commitButton: {
+    marginTop: 8,
+  },
+  pickerArea: {
+    maxHeight: 320,
+    paddingHorizontal: 0,
+  },
+  pickerItem: {
+    justifyContent: 'flex-start',
+  },
+  pickerEmpty: {
+    padding: 16,
+  },
+  mutedText: {
+    color: '#6B7280',
+  },
+  warningText: {
+    color: '#D97706',
+  },
+  errorText: {
+    color: '#DC2626',
+  },
+  successText: {
+    color: '#10B981',
+  },
+})
@@ -1,28 +1,44 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react'
-import { View, StyleSheet, ScrollView, RefreshControl, TouchableOpacity } from 'react-native'
-import { Text, Card, Button, ActivityIndicator, Chip, Searchbar, Menu, FAB } from 'react-native-paper'
+import { View, StyleSheet, ScrollView, RefreshControl, TouchableOpacity, Alert } from 'react-native'
+import { Text, Card, Button, ActivityIndicator, Chip, Searchbar, Menu, FAB, Dialog, TextInput } from 'react-native-paper'
 import { useRouter, useLocalSearchParams, useFocusEffect } from 'expo-router'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { format, formatDistanceToNow } from 'date-fns'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { useAuth } from '@/context/AuthContext'
-import { getAllFees, type StudentFee, type FeeType, type FeeStatus } from '@/lib/fees'
+import {
+  getAllFees,
+  getStudentPayments,
+  waiveLateFee,
+  getStudentCredit,
+  grantStudentCredit,
+  type StudentFee,
+  type FeeType,
+  type FeeStatus,
+  type FeePayment,
+  type StudentCreditTransaction,
+} from '@/lib/fees'
 import { getBranches, type Branch } from '@/lib/branches'
 import { getProfileByUserId } from '@/lib/profiles'
+import { shareFeeReceipt } from '@/lib/receipts'
 import { logger } from '@/lib/logger'
 import { AdminHeader } from '@/components/admin/AdminHeader'
+import { PaymentHistoryList } from '@/components/shared/PaymentHistoryList'
+import { CreditStatementList } from '@/components/shared/CreditStatementList'
 
 const FEE_TYPE_LABELS: Record<FeeType, string> = {
   registration: 'Registration',
   monthly: 'Monthly',
   yearly: 'Yearly',
   grading: 'Grading',
+  late_fee: 'Late Fee',
 }
 
 const STATUS_COLORS: Record<FeeStatus, string> = {
   pending: '#F59E0B',
   paid: '#10B981',
   overdue: '#DC2626',
+  waived: '#9CA3AF',
 }
 
 export default function StudentFeesScreen() {
@@ -34,6 +50,7 @@ export default function StudentFeesScreen() {
 
   const [fees, setFees] = useState<any[]>([])
   const [filteredFees, setFilteredFees] = useState<any[]>([])
+  const [payments, setPayments] = useState<FeePayment[]>([])
   const [branches, setBranches] = useState<Branch[]>([])
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
@@ -46,6 +63,17 @@ export default function StudentFeesScreen() {
   const [statusMenuVisible, setStatusMenuVisible] = useState(false)
   const [typeMenuVisible, setTypeMenuVisible] = useState(false)
   const [branchMenuVisible, setBranchMenuVisible] = useState(false)
+  const [waiveTarget, setWaiveTarget] = useState<StudentFee | null>(null)
+  const [waiveReason, setWaiveReason] = useState('')
+  const [credit, setCredit] = useState<{ balance: number; transactions: StudentCreditTransaction[] }>({
+    balance: 0,
+    transactions: [],
+  })
+  const [creditDialogVisible, setCreditDialogVisible] = useState(false)
+  const [creditAmount, setCreditAmount] = useState('')
+  const [creditReason, setCreditReason] = useState('')
+  const [grantingCredit, setGrantingCredit] = useState(false)
+  const [waiving, setWaiving] = useState(false)
 
   // Refs to prevent unnecessary reloads
   const lastLoadTimeRef = useRef<number>(0)
@@ -131,6 +159,24 @@ export default function StudentFeesScreen() {
       }
 
       setFees(result.fees || [])
+
+      // Payment history and credit statement are shown when viewing a single student
+      if (studentIdFromParams) {
+        const [paymentsResult, creditResult] = await Promise.all([
+          getStudentPayments(studentIdFromParams),
+          getStudentCredit(studentIdFromParams),
+        ])
+        if (paymentsResult.error) {
+          logger.error('Error loading payment history', paymentsResult.error)
+        }
+        setPayments(paymentsResult.payments || [])
+
+        if (creditResult.error) {
+          logger.error('Error loading credit balance', creditResult.error)
+        } else {
+          setCredit({ balance: creditResult.balance, transactions: creditResult.transactions })
+        }
+      }
     } catch (error) {
       logger.error('Unexpected error loading fees', error as Error)
       setFees([]) // Set empty array on error
@@ -164,6 +210,80 @@ export default function StudentFeesScreen() {
     await loadData()
   }
 
+  const handleShareReceipt = async (payment: FeePayment) => {
+    const result = await shareFeeReceipt(payment.id)
+    if (result.error) {
+      logger.error('Error sharing receipt', result.error)
+      Alert.alert('Receipt', result.error.message)
+    }
+  }
+
+  const openWaiveDialog = (fee: StudentFee) => {
+    setWaiveTarget(fee)
+    setWaiveReason('')
+  }
+
+  const handleWaive = async () => {
+    if (!waiveTarget) return
+
+    if (!waiveReason.trim()) {
+      Alert.alert('Waive Late Fee', 'Please enter a reason')
+      return
+    }
+
+    try {
+      setWaiving(true)
+      const result = await waiveLateFee(waiveTarget.student_id, waiveTarget.id, waiveReason.trim())
+      if (result.error) {
+        Alert.alert('Waive Late Fee', result.error.message)
+        return
+      }
+      setWaiveTarget(null)
+      await loadData()
+    } catch (error) {
+      logger.error('Error waiving late fee', error as Error)
+      Alert.alert('Waive Late Fee', 'Failed to waive late fee')
+    } finally {
+      setWaiving(false)
+    }
+  }
+
+  const openCreditDialog = () => {
+    setCreditAmount('')
+    setCreditReason('')
+    setCreditDialogVisible(true)
+  }
+
+  const handleGrantCredit = async () => {
+    if (!studentIdFromParams) return
+
+    const amount = parseFloat(creditAmount)
+    if (isNaN(amount) || amount <= 0) {
+      Alert.alert('Add Credit', 'Please enter a valid amount')
+      return
+    }
+    if (!creditReason.trim()) {
+      Alert.alert('Add Credit', 'Please enter a reason')
+      return
+    }
+
+    try {
+      setGrantingCredit(true)
+      const result = await grantStudentCredit(studentIdFromParams, { amount, notes: creditReason.trim() })
+      if (result.error) {
+        Alert.alert('Add Credit', result.error.message)
+        return
+      }
+      setCreditDialogVisible(false)
+      await loadData()
+    } catch (error) {
+      logger.error('Error granting credit', error as Error)
+      Alert.alert('Add Credit', 'Failed to add credit')
+    } finally {
+      setGrantingCredit(false)
+    }
+  }
+
   const getStatusBadge = (status: FeeStatus) => {
     return (
       <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[status] }]}>
@@ -220,6 +340,7 @@ export default function StudentFeesScreen() {
             <Menu.Item onPress={() => { setStatusFilter('pending'); setStatusMenuVisible(false); loadData() }} title="Pending" />
             <Menu.Item onPress={() => { setStatusFilter('paid'); setStatusMenuVisible(false); loadData() }} title="Paid" />
             <Menu.Item onPress={() => { setStatusFilter('overdue'); setStatusMenuVisible(false); loadData() }} title="Overdue" />
+            <Menu.Item onPress={() => { setStatusFilter('waived'); setStatusMenuVisible(false); loadData() }} title="Waived" />
           </Menu>
 
           <Menu
@@ -247,6 +368,7 @@ export default function StudentFeesScreen() {
             <Menu.Item onPress={() => { setFeeTypeFilter('monthly'); setTypeMenuVisible(false); loadData() }} title="Monthly" />
             <Menu.Item onPress={() => { setFeeTypeFilter('yearly'); setTypeMenuVisible(false); loadData() }} title="Yearly" />
             <Menu.Item onPress={() => { setFeeTypeFilter('grading'); setTypeMenuVisible(false); loadData() }} title="Grading" />
+            <Menu.Item onPress={() => { setFeeTypeFilter('late_fee'); setTypeMenuVisible(false); loadData() }} title="Late Fee" />
           </Menu>
 
           {isSuperAdmin && (
@@ -350,6 +472,16 @@ export default function StudentFeesScreen() {
                         ₹{fee.amount.toFixed(2)}
                       </Text>
                     </View>
+                    {fee.discount_amount > 0 && (
+                      <View style={styles.feeRow}>
+                        <Text variant="bodySmall" style={styles.feeLabel}>
+                          Discount:
+                        </Text>
+                        <Text variant="bodyMedium" style={styles.feeValue}>
+                          −₹{fee.discount_amount.toFixed(2)}
+                        </Text>
+                      </View>
+                    )}
                     {fee.paid_amount > 0 && (
                       <View style={styles.feeRow}>
                         <Text variant="bodySmall" style={styles.feeLabel}>
@@ -368,7 +500,25 @@ export default function StudentFeesScreen() {
                         {format(new Date(fee.due_date), 'MMM dd, yyyy')}
                       </Text>
                     </View>
+                    {fee.status === 'waived' && (
+                      <Text variant="bodySmall" style={styles.waiverText}>
+                        Waived on {format(new Date(fee.waived_at), 'MMM dd, yyyy')}: {fee.waiver_reason}
+                      </Text>
+                    )}
                   </View>
+                  {fee.fee_type === 'late_fee' &&
+                    (fee.status === 'pending' || fee.status === 'overdue') &&
+                    !(fee.paid_amount > 0) && (
+                      <Button
+                        mode="outlined"
+                        onPress={() => openWaiveDialog(fee)}
+                        style={styles.recordButton}
+                        textColor="#DC2626"
+                        icon="cancel"
+                      >
+                        Waive Late Fee
+                      </Button>
+                    )}
                   {fee.status === 'pending' && (
                     <Button
                       mode="contained"
@@ -385,7 +535,87 @@ export default function StudentFeesScreen() {
             </TouchableOpacity>
           ))
         )}
+
+        {!loading && studentIdFromParams && (
+          <CreditStatementList
+            balance={credit.balance}
+            transactions={credit.transactions}
+            onAddCredit={openCreditDialog}
+          />
+        )}
+        {!loading && studentIdFromParams && <PaymentHistoryList payments={payments} onShareReceipt={handleShareReceipt} />}
       </ScrollView>
+
+      {/* Add Credit (discount) Dialog */}
+      <Dialog visible={creditDialogVisible} onDismiss={() => !grantingCredit && setCreditDialogVisible(false)}>
+        <Dialog.Title>Add Credit</Dialog.Title>
+        <Dialog.Content>
+          <Text variant="bodyMedium" style={styles.waiveLabel}>
+            Credit is used automatically on the next fee created for this student.
+          </Text>
+          <TextInput
+            label="Amount (₹) *"
+            value={creditAmount}
+            onChangeText={setCreditAmount}
+            keyboardType="decimal-pad"
+            mode="outlined"
+            style={styles.waiveLabel}
+            disabled={grantingCredit}
+          />
+          <TextInput
+            label="Reason *"
+            value={creditReason}
+            onChangeText={setCreditReason}
+            mode="outlined"
+            multiline
+            numberOfLines={2}
+            disabled={grantingCredit}
+          />
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={() => setCreditDialogVisible(false)} disabled={grantingCredit}>
+            Cancel
+          </Button>
+          <Button
+            onPress={handleGrantCredit}
+            loading={grantingCredit}
+            disabled={grantingCredit}
+            mode="contained"
+            buttonColor="#7B2CBF"
+          >
+            Add Credit
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+
+      {/* Waive Late Fee Dialog */}
+      <Dialog visible={!!waiveTarget} onDismiss={() => !waiving && setWaiveTarget(null)}>
+        <Dialog.Title>Waive Late Fee</Dialog.Title>
+        <Dialog.Content>
+          {waiveTarget && (
+            <Text variant="bodyMedium" style={styles.waiveLabel}>
+              ₹{waiveTarget.amount.toFixed(2)} late fee will no longer be collected.
+            </Text>
+          )}
+          <TextInput
+            label="Reason *"
+            value={waiveReason}
+            onChangeText={setWaiveReason}
+            mode="outlined"
+            multiline
+            numberOfLines={2}
+            disabled={waiving}
+          />
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={() => setWaiveTarget(null)} disabled={waiving}>
+            Cancel
+          </Button>
+          <Button onPress={handleWaive} loading={waiving} disabled={waiving} mode="contained" buttonColor="#DC2626">
+            Waive
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
     </View>
   )
 }
@@ -505,5 +735,13 @@ const styles = StyleSheet.create({
   recordButton: {
     marginTop: 12,
   },
+  waiverText: {
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  waiveLabel: {
+    marginBottom: 12,
+    color: '#1A1A1A',
+  },
 })
 
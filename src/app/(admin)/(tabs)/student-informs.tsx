@@ -168,7 +168,7 @@ export default function StudentInformsScreen() {
           onPress: async () => {
             setDeletingId(informId)
             try {
-              const result = await deleteLeaveInform(informId, user.id)
+              const result = await deleteLeaveInform(informId)
               if (result.success) {
                 // Remove from local state
                 setInforms((prev) => prev.filter((inform) => inform.id !== informId))
@@ -21,20 +21,39 @@ import {
   getStudentFees,
   getStudentPaymentPreference,
   switchPaymentPreference,
+  getDiscountRules,
+  getStudentDiscounts,
+  assignStudentDiscount,
+  removeStudentDiscount,
+  getFeeFreezes,
+  createFeeFreeze,
+  endFeeFreeze,
+  recordPrepayment,
+  getStudentCredit,
   type StudentFee,
   type FeeStatus,
   type PaymentPreference,
   type PaymentType,
+  type FeeDiscountRule,
+  type StudentDiscount,
+  type FeeFreeze,
 } from '@/lib/fees'
 import { DeleteStudentDialog } from '@/components/shared/DeleteStudentDialog'
 import { DatePicker } from '@/components/shared/DatePicker'
+import { FeeStatementDialog } from '@/components/shared/FeeStatementDialog'
+import { BeltRequirementsCard } from '@/components/shared/BeltRequirementsCard'
+import { StudentBatchesCard } from '@/components/shared/StudentBatchesCard'
+import { CheckInQrCard } from '@/components/shared/CheckInQrCard'
 import { useAuth } from '@/context/AuthContext'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { format } from 'date-fns'
 import ImageViewing from 'react-native-image-viewing'
-import { BELT_COLORS, getBeltDisplayName } from '@/lib/belts'
+import { getBeltColor, getBeltDisplayName } from '@/lib/belts'
 import { logger } from '@/lib/logger'
 
+const PREPAY_MONTH_OPTIONS = [3, 6, 12]
+const PREPAY_METHODS = ['cash', 'upi', 'bank_transfer', 'cheque']
+
 export default function StudentProfileScreen() {
   // Feature flag: Set to true to enable switch plan feature
   const ENABLE_SWITCH_PLAN = false
@@ -61,6 +80,23 @@ export default function StudentProfileScreen() {
   const [switchPaymentType, setSwitchPaymentType] = useState<PaymentType>('monthly')
   const [switchDate, setSwitchDate] = useState(() => new Date().toISOString().split('T')[0])
   const [switchingPreference, setSwitchingPreference] = useState(false)
+  const [discounts, setDiscounts] = useState<StudentDiscount[]>([])
+  const [discountRules, setDiscountRules] = useState<FeeDiscountRule[]>([])
+  const [updatingDiscount, setUpdatingDiscount] = useState(false)
+  const [freezes, setFreezes] = useState<FeeFreeze[]>([])
+  const [freezeDialogVisible, setFreezeDialogVisible] = useState(false)
+  const [freezeStartDate, setFreezeStartDate] = useState(() => new Date().toISOString().split('T')[0])
+  const [freezeEndDate, setFreezeEndDate] = useState('')
+  const [freezeReason, setFreezeReason] = useState('')
+  const [savingFreeze, setSavingFreeze] = useState(false)
+  const [creditBalance, setCreditBalance] = useState(0)
+  const [prepayDialogVisible, setPrepayDialogVisible] = useState(false)
+  const [prepayMonths, setPrepayMonths] = useState('3')
+  const [prepayAmount, setPrepayAmount] = useState('')
+  const [prepayMethod, setPrepayMethod] = useState('cash')
+  const [prepayReference, setPrepayReference] = useState('')
+  const [savingPrepayment, setSavingPrepayment] = useState(false)
+  const [statementDialogVisible, setStatementDialogVisible] = useState(false)
 
   // Refs to prevent unnecessary reloads
   const lastLoadTimeRef = useRef<number>(0)
@@ -104,6 +140,9 @@ export default function StudentProfileScreen() {
         // Load fees for this student
         loadFees()
         loadPaymentPreference()
+        loadDiscounts()
+        loadFreezes()
+        loadCredit()
       }
     } catch (error) {
       setSnackbar({ visible: true, message: 'Failed to load student' })
@@ -132,6 +171,198 @@ export default function StudentProfileScreen() {
     }
   }
 
+  const loadDiscounts = async () => {
+    if (!studentId) return
+    try {
+      const [discountsResult, rulesResult] = await Promise.all([getStudentDiscounts(studentId), getDiscountRules()])
+      if (discountsResult.error) {
+        logger.warn('Failed to load student discounts', discountsResult.error)
+      } else {
+        setDiscounts(discountsResult.discounts || [])
+      }
+      if (rulesResult.error) {
+        logger.warn('Failed to load discount rules', rulesResult.error)
+      } else {
+        // Sibling discounts are applied automatically and cannot be granted
+        setDiscountRules((rulesResult.rules || []).filter((rule) => rule.category !== 'sibling'))
+      }
+    } catch (error) {
+      logger.warn('Error loading discounts', error instanceof Error ? error : new Error(String(error)))
+    }
+  }
+
+  const handleGrantDiscount = async (rule: FeeDiscountRule) => {
+    if (!studentId) return
+    try {
+      setUpdatingDiscount(true)
+      const result = await assignStudentDiscount(studentId, rule.id)
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+      setSnackbar({ visible: true, message: `${rule.name} granted. Applies to fees generated from now on.` })
+      await loadDiscounts()
+    } finally {
+      setUpdatingDiscount(false)
+    }
+  }
+
+  const handleRemoveDiscount = async (discount: StudentDiscount) => {
+    if (!studentId) return
+    try {
+      setUpdatingDiscount(true)
+      const result = await removeStudentDiscount(studentId, discount.id)
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+      setSnackbar({ visible: true, message: 'Discount removed' })
+      await loadDiscounts()
+    } finally {
+      setUpdatingDiscount(false)
+    }
+  }
+
+  const loadFreezes = async () => {
+    if (!studentId) return
+    try {
+      const result = await getFeeFreezes(studentId)
+      if (result.error) {
+        logger.warn('Failed to load fee freezes', result.error)
+      } else {
+        setFreezes(result.freezes || [])
+      }
+    } catch (error) {
+      logger.warn('Error loading fee freezes', error instanceof Error ? error : new Error(String(error)))
+    }
+  }
+
+  const handleOpenFreezeDialog = () => {
+    setFreezeStartDate(new Date().toISOString().split('T')[0])
+    setFreezeEndDate('')
+    setFreezeReason('')
+    setFreezeDialogVisible(true)
+  }
+
+  const handleCreateFreeze = async () => {
+    if (!studentId) return
+    if (!freezeEndDate) {
+      setSnackbar({ visible: true, message: 'Please select an end date' })
+      return
+    }
+    if (!freezeReason.trim()) {
+      setSnackbar({ visible: true, message: 'Please enter a reason' })
+      return
+    }
+
+    try {
+      setSavingFreeze(true)
+      const result = await createFeeFreeze(studentId, {
+        startDate: freezeStartDate,
+        endDate: freezeEndDate,
+        reason: freezeReason.trim(),
+      })
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+      setFreezeDialogVisible(false)
+      setSnackbar({ visible: true, message: 'Fees frozen. Billing resumes after the freeze ends.' })
+      await Promise.all([loadFreezes(), loadFees()])
+    } finally {
+      setSavingFreeze(false)
+    }
+  }
+
+  const handleEndFreeze = async (freeze: FeeFreeze) => {
+    if (!studentId) return
+    try {
+      setSavingFreeze(true)
+      const result = await endFeeFreeze(studentId, freeze.id)
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+      setSnackbar({ visible: true, message: result.freeze?.cancelled_at ? 'Fee freeze cancelled' : 'Fee freeze ended' })
+      await Promise.all([loadFreezes(), loadFees()])
+    } finally {
+      setSavingFreeze(false)
+    }
+  }
+
+  const loadCredit = async () => {
+    if (!studentId) return
+    try {
+      const result = await getStudentCredit(studentId)
+      if (result.error) {
+        logger.warn('Failed to load credit balance', result.error)
+      } else {
+        setCreditBalance(result.balance)
+      }
+    } catch (error) {
+      logger.warn('Error loading credit balance', error instanceof Error ? error : new Error(String(error)))
+    }
+  }
+
+  // Latest monthly rate, used to suggest the prepayment amount
+  const latestMonthlyFee = fees
+    .filter((fee) => fee.fee_type === 'monthly')
+    .sort((a, b) => (b.period_end_date || '').localeCompare(a.period_end_date || ''))[0]
+
+  const handleOpenPrepayDialog = () => {
+    setPrepayMonths('3')
+    setPrepayAmount(latestMonthlyFee ? (latestMonthlyFee.amount * 3).toFixed(2) : '')
+    setPrepayMethod('cash')
+    setPrepayReference('')
+    setPrepayDialogVisible(true)
+  }
+
+  const handleSelectPrepayMonths = (months: number) => {
+    setPrepayMonths(String(months))
+    if (latestMonthlyFee) {
+      setPrepayAmount((latestMonthlyFee.amount * months).toFixed(2))
+    }
+  }
+
+  const handleRecordPrepayment = async () => {
+    if (!studentId) return
+    const months = parseInt(prepayMonths, 10)
+    const amount = parseFloat(prepayAmount)
+    if (isNaN(months) || months < 1 || months > 12) {
+      setSnackbar({ visible: true, message: 'Months must be between 1 and 12' })
+      return
+    }
+    if (isNaN(amount) || amount <= 0) {
+      setSnackbar({ visible: true, message: 'Please enter a valid amount' })
+      return
+    }
+
+    try {
+      setSavingPrepayment(true)
+      const result = await recordPrepayment(studentId, {
+        months,
+        amount,
+        paymentMethod: prepayMethod,
+        paymentReference: prepayReference.trim() || null,
+      })
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+      setPrepayDialogVisible(false)
+      const paid = result.allocations.length
+      setSnackbar({
+        visible: true,
+        message:
+          `Prepayment recorded for ${paid} month${paid === 1 ? '' : 's'}` +
+          (result.creditAdded > 0 ? ` • ₹${result.creditAdded.toFixed(2)} added to credit` : ''),
+      })
+      await Promise.all([loadFees(), loadCredit()])
+    } finally {
+      setSavingPrepayment(false)
+    }
+  }
+
   const loadFees = async () => {
     if (!studentId) return
     try {
@@ -160,7 +391,7 @@ export default function StudentProfileScreen() {
 
     setDeleting(true)
     try {
-      const result = await deleteStudent(student.id, hardDelete, user.id)
+      const result = await deleteStudent(student.id, hardDelete)
       if (result.error) {
         setSnackbar({ visible: true, message: result.error.message })
       } else {
@@ -189,7 +420,7 @@ export default function StudentProfileScreen() {
 
     setReactivating(true)
     try {
-      const result = await reactivateStudent(student.id, user.id)
+      const result = await reactivateStudent(student.id)
       if (result.error) {
         setSnackbar({ visible: true, message: result.error.message })
       } else {
@@ -301,7 +532,7 @@ export default function StudentProfileScreen() {
                   <View
                     style={[
                       styles.beltBadge,
-                      { backgroundColor: BELT_COLORS[student.current_belt] || '#E5E7EB' },
+                      { backgroundColor: getBeltColor(student.current_belt) || '#E5E7EB' },
                     ]}
                   >
                     <Text
@@ -376,6 +607,35 @@ export default function StudentProfileScreen() {
           </Card.Content>
         </Card>
 
+        {/* Next belt requirements - ticked off by instructors ahead of grading */}
+        {student.is_active && (
+          <BeltRequirementsCard
+            key={`${student.id}-${student.current_belt}`}
+            studentId={student.id}
+            title="Next Belt Requirements"
+            editable
+            onError={(message) => setSnackbar({ visible: true, message })}
+          />
+        )}
+
+        {/* Timetable batches the student attends */}
+        {student.is_active && student.branch_id && (
+          <StudentBatchesCard
+            studentId={student.id}
+            branchId={student.branch_id}
+            onError={(message) => setSnackbar({ visible: true, message })}
+          />
+        )}
+
+        {/* Check-in QR (students without the app can use a printout) */}
+        {student.is_active && (
+          <CheckInQrCard
+            studentId={student.id}
+            studentCode={student.student_id}
+            hint="Scan in check-in mode on Mark Attendance. Print it for students without the app."
+          />
+        )}
+
         {/* Branch Information */}
         {student.branch && (
           <Card style={styles.card}>
@@ -520,6 +780,9 @@ export default function StudentProfileScreen() {
                 Fees
               </Text>
               <View style={{ flex: 1 }} />
+              <Button mode="text" compact onPress={() => setStatementDialogVisible(true)} textColor="#7B2CBF">
+                Statement
+              </Button>
               <Button
                 mode="text"
                 compact
@@ -594,6 +857,120 @@ export default function StudentProfileScreen() {
               )}
             </View>
 
+            {(discounts.length > 0 || discountRules.length > 0) && (
+              <View style={styles.paymentPlanCard}>
+                <View style={styles.paymentPlanTextContainer}>
+                  <Text variant="titleSmall" style={styles.paymentPlanLabel}>
+                    Discounts
+                  </Text>
+                  <Text variant="bodySmall" style={styles.paymentPlanHint}>
+                    Staff child and scholarship discounts. Sibling discounts apply automatically.
+                  </Text>
+                </View>
+                <View style={styles.discountChips}>
+                  {discounts.map((discount) => (
+                    <Chip
+                      key={discount.id}
+                      icon="tag"
+                      style={styles.grantedDiscountChip}
+                      onClose={updatingDiscount ? undefined : () => handleRemoveDiscount(discount)}
+                    >
+                      {discount.discount_rule?.name || 'Discount'}
+                    </Chip>
+                  ))}
+                  {discountRules
+                    .filter((rule) => !discounts.some((d) => d.discount_rule_id === rule.id))
+                    .map((rule) => (
+                      <Chip
+                        key={rule.id}
+                        icon="plus"
+                        mode="outlined"
+                        disabled={updatingDiscount}
+                        onPress={() => handleGrantDiscount(rule)}
+                      >
+                        {rule.name}
+                      </Chip>
+                    ))}
+                </View>
+              </View>
+            )}
+
+            {paymentPreference?.payment_type !== 'yearly' && (
+              <View style={styles.paymentPlanCard}>
+                <View style={styles.paymentPlanHeader}>
+                  <View style={styles.paymentPlanTextContainer}>
+                    <Text variant="titleSmall" style={styles.paymentPlanLabel}>
+                      Prepayment
+                    </Text>
+                    <Text variant="bodySmall" style={styles.paymentPlanHint}>
+                      Pay several months at once
+                      {creditBalance > 0 ? ` • Credit balance ₹${creditBalance.toFixed(2)}` : ''}
+                    </Text>
+                  </View>
+                  <Button
+                    mode="outlined"
+                    compact
+                    onPress={handleOpenPrepayDialog}
+                    disabled={savingPrepayment || !student.is_active}
+                    textColor="#7B2CBF"
+                    style={styles.switchPlanButton}
+                  >
+                    Prepay
+                  </Button>
+                </View>
+              </View>
+            )}
+
+            <View style={styles.paymentPlanCard}>
+              <View style={styles.paymentPlanHeader}>
+                <View style={styles.paymentPlanTextContainer}>
+                  <Text variant="titleSmall" style={styles.paymentPlanLabel}>
+                    Fee Freezes
+                  </Text>
+                  <Text variant="bodySmall" style={styles.paymentPlanHint}>
+                    Pause monthly/yearly fees during a long absence
+                  </Text>
+                </View>
+                <Button
+                  mode="outlined"
+                  compact
+                  onPress={handleOpenFreezeDialog}
+                  disabled={savingFreeze || !student.is_active}
+                  textColor="#7B2CBF"
+                  style={styles.switchPlanButton}
+                >
+                  Freeze Fees
+                </Button>
+              </View>
+              {freezes
+                .filter((freeze) => freeze.end_date >= new Date().toISOString().split('T')[0])
+                .map((freeze) => (
+                  <View key={freeze.id} style={styles.freezeRow}>
+                    <MaterialCommunityIcons name="snowflake" size={18} color="#0EA5E9" />
+                    <View style={styles.freezeInfo}>
+                      <Text variant="bodyMedium">
+                        {format(new Date(freeze.start_date + 'T00:00:00'), 'MMM dd, yyyy')} –{' '}
+                        {format(new Date(freeze.end_date + 'T00:00:00'), 'MMM dd, yyyy')}
+                      </Text>
+                      <Text variant="bodySmall" style={styles.paymentPlanHint}>
+                        {freeze.reason}
+                      </Text>
+                    </View>
+                    {!freeze.billing_resumed_on && (
+                      <Button
+                        mode="text"
+                        compact
+                        onPress={() => handleEndFreeze(freeze)}
+                        disabled={savingFreeze}
+                        textColor="#DC2626"
+                      >
+                        {freeze.start_date > new Date().toISOString().split('T')[0] ? 'Cancel' : 'End Now'}
+                      </Button>
+                    )}
+                  </View>
+                ))}
+            </View>
+
             {loadingFees ? (
               <View style={styles.feesLoading}>
                 <ActivityIndicator size="small" color="#7B2CBF" />
@@ -647,11 +1024,13 @@ export default function StudentProfileScreen() {
                       monthly: 'Monthly',
                       yearly: 'Yearly',
                       grading: 'Grading',
+                      late_fee: 'Late Fee',
                     }
                     const statusColors: Record<FeeStatus, string> = {
                       pending: '#F59E0B',
                       paid: '#10B981',
                       overdue: '#DC2626',
+                      waived: '#9CA3AF',
                     }
 
                     return (
@@ -698,7 +1077,7 @@ export default function StudentProfileScreen() {
                             ) : (
                               <View style={[styles.feeStatusBadge, { backgroundColor: statusColors[fee.status] }]}>
                                 <Text variant="labelSmall" style={styles.feeStatusText}>
-                                  Paid
+                                  {fee.status === 'waived' ? 'Waived' : 'Paid'}
                                 </Text>
                               </View>
                             )}
@@ -743,7 +1122,7 @@ export default function StudentProfileScreen() {
               style={styles.actionButton}
               icon="trophy"
             >
-              Record Belt Grading
+              Register for Grading
             </Button>
           )}
           {!student.is_active ? (
@@ -790,6 +1169,117 @@ export default function StudentProfileScreen() {
         loading={deleting}
       />
 
+      <FeeStatementDialog
+        visible={statementDialogVisible}
+        studentId={studentId}
+        onDismiss={() => setStatementDialogVisible(false)}
+        onError={(message) => setSnackbar({ visible: true, message })}
+      />
+
+      <Portal>
+        <Dialog visible={freezeDialogVisible} onDismiss={() => setFreezeDialogVisible(false)}>
+          <Dialog.Title>Freeze Fees</Dialog.Title>
+          <Dialog.Content>
+            <DatePicker
+              label="From"
+              value={freezeStartDate}
+              onChange={setFreezeStartDate}
+              placeholder="Select start date"
+              style={styles.switchDateInput}
+            />
+            <DatePicker
+              label="Until"
+              value={freezeEndDate}
+              onChange={setFreezeEndDate}
+              placeholder="Select end date"
+              style={styles.switchDateInput}
+            />
+            <TextInput
+              label="Reason (e.g. exams, injury)"
+              value={freezeReason}
+              onChangeText={setFreezeReason}
+              mode="outlined"
+              style={styles.switchDateInput}
+            />
+            <Text variant="bodySmall" style={styles.switchDialogHint}>
+              No fees are generated for periods starting in this window. The next due date moves to after the
+              freeze. Unpaid fees for periods starting inside the window are removed.
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setFreezeDialogVisible(false)}>Cancel</Button>
+            <Button mode="contained" onPress={handleCreateFreeze} loading={savingFreeze} disabled={savingFreeze}>
+              Freeze
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
+      <Portal>
+        <Dialog visible={prepayDialogVisible} onDismiss={() => setPrepayDialogVisible(false)}>
+          <Dialog.Title>Prepay Monthly Fees</Dialog.Title>
+          <Dialog.Content>
+            <View style={styles.discountChips}>
+              {PREPAY_MONTH_OPTIONS.map((months) => (
+                <Chip
+                  key={months}
+                  selected={prepayMonths === String(months)}
+                  onPress={() => handleSelectPrepayMonths(months)}
+                >
+                  {months} months
+                </Chip>
+              ))}
+            </View>
+            <TextInput
+              label="Months"
+              value={prepayMonths}
+              onChangeText={setPrepayMonths}
+              keyboardType="number-pad"
+              mode="outlined"
+              style={styles.switchDateInput}
+            />
+            <TextInput
+              label="Amount Received (₹)"
+              value={prepayAmount}
+              onChangeText={setPrepayAmount}
+              keyboardType="decimal-pad"
+              mode="outlined"
+              style={styles.switchDateInput}
+            />
+            <View style={styles.discountChips}>
+              {PREPAY_METHODS.map((method) => (
+                <Chip key={method} selected={prepayMethod === method} onPress={() => setPrepayMethod(method)}>
+                  {method.replace('_', ' ').toUpperCase()}
+                </Chip>
+              ))}
+            </View>
+            <TextInput
+              label="Reference (optional)"
+              value={prepayReference}
+              onChangeText={setPrepayReference}
+              mode="outlined"
+              style={styles.switchDateInput}
+            />
+            <Text variant="bodySmall" style={styles.switchDialogHint}>
+              {latestMonthlyFee ? `Current monthly fee: ₹${latestMonthlyFee.amount.toFixed(2)}. ` : ''}
+              Unpaid months are settled first, then upcoming months are billed ahead and paid. Anything left over is
+              kept as credit.
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setPrepayDialogVisible(false)}>Cancel</Button>
+            <Button
+              mode="contained"
+              onPress={handleRecordPrepayment}
+              loading={savingPrepayment}
+              disabled={savingPrepayment}
+            >
+              Record
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
       {ENABLE_SWITCH_PLAN && (
         <Portal>
           <Dialog visible={switchDialogVisible} onDismiss={() => setSwitchDialogVisible(false)}>
@@ -1060,6 +1550,24 @@ const styles = StyleSheet.create({
   paymentPlanEmpty: {
     color: '#6B7280',
   },
+  discountChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  grantedDiscountChip: {
+    backgroundColor: '#EDE9FE',
+  },
+  freezeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  freezeInfo: {
+    flex: 1,
+  },
   sectionHeader: {
     flexDirection: 'row',
     alignItems: 'center',
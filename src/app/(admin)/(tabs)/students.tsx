@@ -20,7 +20,7 @@ interface StudentStats {
   profileIncomplete: number
 }
 
-import { BELT_COLORS, getBeltDisplayName } from '@/lib/belts'
+import { getBeltColor, getBeltDisplayName } from '@/lib/belts'
 
 export default function StudentsScreen() {
   const router = useRouter()
@@ -227,7 +227,7 @@ export default function StudentsScreen() {
 
     setDeleting(true)
     try {
-      const result = await deleteStudent(deleteDialog.studentId, hardDelete, user.id)
+      const result = await deleteStudent(deleteDialog.studentId, hardDelete)
       if (result.error) {
         setSnackbar({ visible: true, message: result.error.message })
       } else {
@@ -256,7 +256,7 @@ export default function StudentsScreen() {
 
     setReactivating(studentId)
     try {
-      const result = await reactivateStudent(studentId, user.id)
+      const result = await reactivateStudent(studentId)
       if (result.error) {
         setSnackbar({ visible: true, message: result.error.message })
       } else {
@@ -561,7 +561,7 @@ function StudentCard({
                   <View
                     style={[
                       styles.beltBadge,
-                      { backgroundColor: BELT_COLORS[student.current_belt] || '#E5E7EB' },
+                      { backgroundColor: getBeltColor(student.current_belt) || '#E5E7EB' },
                     ]}
                   >
                     <Text
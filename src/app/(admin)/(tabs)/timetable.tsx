@@ -0,0 +1,487 @@
+import React, { useState, useEffect } from 'react'
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native'
+import { Text, Card, Button, ActivityIndicator, Snackbar, Chip, Dialog, TextInput, IconButton, Switch } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { useAuth } from '@/context/AuthContext'
+import { getProfileByUserId } from '@/lib/profiles'
+import { getBranches, type Branch } from '@/lib/branches'
+import { formatSessionTime } from '@/lib/attendance'
+import {
+  getClassBatches,
+  saveClassBatch,
+  formatBatchDays,
+  DAY_LABELS,
+  WEEK_DAYS,
+  type ClassBatch,
+} from '@/lib/batches'
+import { getInstructors } from '@/lib/public/services/publicDataService'
+import type { Instructor } from '@/lib/public/types/public.types'
+import { logger } from '@/lib/logger'
+import { AdminHeader } from '@/components/admin/AdminHeader'
+
+/**
+ * Weekly class timetable for each branch
+ * Attendance sessions, batch notifications and the public site's schedules come from here
+ */
+export default function TimetableScreen() {
+  const insets = useSafeAreaInsets()
+  const { user } = useAuth()
+
+  const [batches, setBatches] = useState<ClassBatch[]>([])
+  const [branches, setBranches] = useState<Branch[]>([])
+  const [instructors, setInstructors] = useState<Instructor[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [isSuperAdmin, setIsSuperAdmin] = useState(false)
+  const [userBranchId, setUserBranchId] = useState<string | null>(null)
+  const [selectedBranchId, setSelectedBranchId] = useState<string | null>(null)
+  const [snackbar, setSnackbar] = useState({ visible: false, message: '' })
+
+  // Batch dialog
+  const [dialogVisible, setDialogVisible] = useState(false)
+  const [editingBatch, setEditingBatch] = useState<ClassBatch | null>(null)
+  const [branchId, setBranchId] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([])
+  const [startTime, setStartTime] = useState('')
+  const [endTime, setEndTime] = useState('')
+  const [ageGroup, setAgeGroup] = useState('')
+  const [level, setLevel] = useState('')
+  const [instructorId, setInstructorId] = useState<string | null>(null)
+  const [isActive, setIsActive] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadUserProfile()
+    loadInstructors()
+  }, [user])
+
+  useEffect(() => {
+    loadBatches()
+  }, [selectedBranchId])
+
+  const loadUserProfile = async () => {
+    if (!user?.id) return
+
+    try {
+      const result = await getProfileByUserId(user.id)
+      if (result.profile?.role === 'super_admin') {
+        setIsSuperAdmin(true)
+        const branchesResult = await getBranches()
+        if (branchesResult.branches) {
+          setBranches(branchesResult.branches as Branch[])
+        }
+      } else if (result.profile?.branchId) {
+        setUserBranchId(result.profile.branchId)
+      }
+    } catch (error) {
+      logger.error('Error loading user profile', error as Error)
+    }
+  }
+
+  const loadInstructors = async () => {
+    const result = await getInstructors()
+    if (result.instructors) {
+      setInstructors(result.instructors)
+    }
+  }
+
+  const loadBatches = async () => {
+    try {
+      const result = await getClassBatches({ branchId: selectedBranchId, includeInactive: true })
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+      setBatches(result.batches)
+    } catch (error) {
+      logger.error('Error loading timetable', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to load timetable' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const onRefresh = async () => {
+    setRefreshing(true)
+    await loadBatches()
+    setRefreshing(false)
+  }
+
+  const openDialog = (batch: ClassBatch | null) => {
+    setEditingBatch(batch)
+    setBranchId(batch?.branch_id || selectedBranchId || userBranchId)
+    setName(batch?.name || '')
+    setDaysOfWeek(batch?.days_of_week || [])
+    setStartTime(batch?.start_time.slice(0, 5) || '')
+    setEndTime(batch?.end_time.slice(0, 5) || '')
+    setAgeGroup(batch?.age_group || '')
+    setLevel(batch?.level || '')
+    setInstructorId(batch?.instructor_id || null)
+    setIsActive(batch?.is_active ?? true)
+    setDialogVisible(true)
+  }
+
+  const toggleDay = (day: number) => {
+    setDaysOfWeek((current) => (current.includes(day) ? current.filter((d) => d !== day) : [...current, day]))
+  }
+
+  const handleSave = async () => {
+    if (!branchId) {
+      setSnackbar({ visible: true, message: 'Please choose a branch' })
+      return
+    }
+
+    try {
+      setSaving(true)
+      const result = await saveClassBatch({
+        id: editingBatch?.id || null,
+        branchId,
+        name,
+        daysOfWeek,
+        startTime,
+        endTime,
+        ageGroup: ageGroup || null,
+        level: level || null,
+        instructorId,
+        isActive,
+      })
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      setDialogVisible(false)
+      setSnackbar({ visible: true, message: editingBatch ? 'Batch updated' : 'Batch added' })
+      loadBatches()
+    } catch (error) {
+      logger.error('Error saving class batch', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to save batch' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const activeBatches = batches.filter((b) => b.is_active)
+  const inactiveBatches = batches.filter((b) => !b.is_active)
+  const showBranchName = isSuperAdmin && !selectedBranchId
+
+  const renderBatch = (batch: ClassBatch, key: string) => (
+    <Card key={key} style={[styles.card, !batch.is_active && styles.inactiveCard]}>
+      <Card.Content style={styles.batchContent}>
+        <View style={styles.batchInfo}>
+          <Text variant="titleSmall" style={styles.batchName}>
+            {batch.name}
+          </Text>
+          <Text variant="bodySmall" style={styles.meta}>
+            {formatSessionTime(batch)}
+            {batch.is_active ? '' : ` • ${formatBatchDays(batch.days_of_week)}`}
+            {showBranchName && batch.branch?.name ? ` • ${batch.branch.name}` : ''}
+          </Text>
+          {(batch.age_group || batch.level) && (
+            <Text variant="bodySmall" style={styles.meta}>
+              {[batch.age_group, batch.level].filter(Boolean).join(' • ')}
+            </Text>
+          )}
+          <View style={styles.statsRow}>
+            <MaterialCommunityIcons name="account-group" size={14} color="#6B7280" />
+            <Text variant="bodySmall" style={styles.meta}>
+              {batch.student_count || 0} enrolled
+              {batch.instructor?.name ? ` • ${batch.instructor.name}` : ''}
+            </Text>
+          </View>
+        </View>
+        <IconButton icon="pencil" size={18} onPress={() => openDialog(batch)} iconColor="#7B2CBF" />
+      </Card.Content>
+    </Card>
+  )
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <AdminHeader title="Class Timetable" showBackButton />
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#7B2CBF" />
+        </View>
+      </View>
+    )
+  }
+
+  return (
+    <View style={styles.container}>
+      <AdminHeader title="Class Timetable" showBackButton />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 16 }]}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <View style={styles.headerRow}>
+          <Text variant="bodyMedium" style={styles.hint}>
+            Weekly batches. Students are enrolled from their profile; attendance sessions start from here.
+          </Text>
+          <Button mode="contained" icon="plus" buttonColor="#7B2CBF" compact onPress={() => openDialog(null)}>
+            Add
+          </Button>
+        </View>
+
+        {isSuperAdmin && branches.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            <Chip selected={!selectedBranchId} onPress={() => setSelectedBranchId(null)}>
+              All Branches
+            </Chip>
+            {branches.map((branch) => (
+              <Chip key={branch.id} selected={selectedBranchId === branch.id} onPress={() => setSelectedBranchId(branch.id)}>
+                {branch.name}
+              </Chip>
+            ))}
+          </ScrollView>
+        )}
+
+        {activeBatches.length === 0 && (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            No batches yet. Add the classes this branch runs each week.
+          </Text>
+        )}
+
+        {WEEK_DAYS.map((day) => {
+          const dayBatches = activeBatches.filter((b) => b.days_of_week.includes(day))
+          if (dayBatches.length === 0) return null
+          return (
+            <View key={day} style={styles.section}>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                {DAY_LABELS[day]}
+              </Text>
+              {dayBatches.map((batch) => renderBatch(batch, `${day}-${batch.id}`))}
+            </View>
+          )
+        })}
+
+        {inactiveBatches.length > 0 && (
+          <View style={styles.section}>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Inactive
+            </Text>
+            {inactiveBatches.map((batch) => renderBatch(batch, batch.id))}
+          </View>
+        )}
+      </ScrollView>
+
+      <Dialog visible={dialogVisible} onDismiss={() => setDialogVisible(false)}>
+        <Dialog.Title>{editingBatch ? 'Edit Batch' : 'Add Batch'}</Dialog.Title>
+        <Dialog.ScrollArea style={styles.dialogScrollArea}>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {isSuperAdmin && !editingBatch && (
+              <>
+                <Text variant="labelLarge" style={styles.dialogLabel}>
+                  Branch
+                </Text>
+                <View style={styles.chipRow}>
+                  {branches.map((branch) => (
+                    <Chip key={branch.id} selected={branchId === branch.id} onPress={() => setBranchId(branch.id)}>
+                      {branch.name}
+                    </Chip>
+                  ))}
+                </View>
+              </>
+            )}
+            <TextInput
+              label="Batch name"
+              value={name}
+              onChangeText={setName}
+              mode="outlined"
+              placeholder="e.g. Kids Morning, Adults Evening"
+              style={styles.dialogInput}
+            />
+            <Text variant="labelLarge" style={styles.dialogLabel}>
+              Days
+            </Text>
+            <View style={styles.chipRow}>
+              {WEEK_DAYS.map((day) => (
+                <Chip key={day} selected={daysOfWeek.includes(day)} onPress={() => toggleDay(day)} compact>
+                  {DAY_LABELS[day]}
+                </Chip>
+              ))}
+            </View>
+            <View style={styles.timeRow}>
+              <TextInput
+                label="Start (HH:MM)"
+                value={startTime}
+                onChangeText={setStartTime}
+                mode="outlined"
+                placeholder="06:00"
+                keyboardType="numbers-and-punctuation"
+                style={[styles.dialogInput, styles.timeInput]}
+              />
+              <TextInput
+                label="End (HH:MM)"
+                value={endTime}
+                onChangeText={setEndTime}
+                mode="outlined"
+                placeholder="07:30"
+                keyboardType="numbers-and-punctuation"
+                style={[styles.dialogInput, styles.timeInput]}
+              />
+            </View>
+            <TextInput
+              label="Age group (optional)"
+              value={ageGroup}
+              onChangeText={setAgeGroup}
+              mode="outlined"
+              placeholder="e.g. Ages 5-12, Adults"
+              style={styles.dialogInput}
+            />
+            <TextInput
+              label="Level (optional)"
+              value={level}
+              onChangeText={setLevel}
+              mode="outlined"
+              placeholder="e.g. Beginner, All Levels"
+              style={styles.dialogInput}
+            />
+            {instructors.length > 0 && (
+              <>
+                <Text variant="labelLarge" style={styles.dialogLabel}>
+                  Instructor (optional)
+                </Text>
+                <View style={styles.chipRow}>
+                  {instructors.map((instructor) => (
+                    <Chip
+                      key={instructor.id}
+                      selected={instructorId === instructor.id}
+                      onPress={() => setInstructorId(instructorId === instructor.id ? null : instructor.id)}
+                    >
+                      {instructor.name}
+                    </Chip>
+                  ))}
+                </View>
+              </>
+            )}
+            <View style={styles.switchRow}>
+              <Text variant="bodyMedium">Active</Text>
+              <Switch value={isActive} onValueChange={setIsActive} color="#7B2CBF" />
+            </View>
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={() => setDialogVisible(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onPress={handleSave} loading={saving} mode="contained" buttonColor="#7B2CBF">
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+
+      <Snackbar
+        visible={snackbar.visible}
+        onDismiss={() => setSnackbar({ visible: false, message: '' })}
+        duration={3000}
+      >
+        {snackbar.message}
+      </Snackbar>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFF8E7',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  hint: {
+    flex: 1,
+    color: '#6B7280',
+  },
+  emptyText: {
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 8,
+  },
+  card: {
+    marginBottom: 8,
+    elevation: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  inactiveCard: {
+    opacity: 0.6,
+  },
+  batchContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  batchInfo: {
+    flex: 1,
+  },
+  batchName: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  meta: {
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 2,
+  },
+  dialogScrollArea: {
+    maxHeight: 480,
+    paddingHorizontal: 24,
+    paddingTop: 8,
+  },
+  dialogInput: {
+    marginBottom: 12,
+  },
+  dialogLabel: {
+    color: '#1A1A1A',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  timeInput: {
+    flex: 1,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+})
@@ -0,0 +1,461 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native'
+import { Text, Card, Button, ActivityIndicator, Dialog, TextInput, Snackbar, Checkbox } from 'react-native-paper'
+import { useFocusEffect, useRouter } from 'expo-router'
+import { format } from 'date-fns'
+import { useAuth } from '@/context/AuthContext'
+import { getAllFees, recordUpiPayments, type FeeType } from '@/lib/fees'
+import { parseUpiTransactions, type UpiTransaction } from '@/lib/upi'
+import { logger } from '@/lib/logger'
+import { AdminHeader } from '@/components/admin/AdminHeader'
+
+const FEE_TYPE_LABELS: Record<FeeType, string> = {
+  registration: 'Registration',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+  grading: 'Grading',
+  late_fee: 'Late Fee',
+}
+
+/**
+ * One pasted UPI transaction and the pending fee it is matched to
+ */
+interface ReconciliationRow {
+  key: string
+  transaction: UpiTransaction
+  feeId: string | null
+  selected: boolean
+  result: { success: boolean; message: string } | null
+}
+
+const feeBalance = (fee: any) => Math.round((fee.amount - (fee.paid_amount || 0)) * 100) / 100
+
+const studentLabel = (fee: any) =>
+  fee?.student ? `${fee.student.first_name} ${fee.student.last_name} (${fee.student.student_id})` : 'Unknown student'
+
+export default function UpiReconciliationScreen() {
+  const router = useRouter()
+  const { user } = useAuth()
+
+  const [pendingFees, setPendingFees] = useState<any[]>([])
+  const [pasteText, setPasteText] = useState('')
+  const [rows, setRows] = useState<ReconciliationRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [recording, setRecording] = useState(false)
+  const [pickerRowKey, setPickerRowKey] = useState<string | null>(null)
+  const [pickerSearch, setPickerSearch] = useState('')
+  const [snackbar, setSnackbar] = useState({ visible: false, message: '' })
+
+  // Refs to prevent unnecessary reloads
+  const lastLoadTimeRef = useRef<number>(0)
+  const isLoadingRef = useRef(false)
+
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user])
+
+  // Auto-refresh when screen comes into focus
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return
+
+      // Skip if just loaded or currently loading
+      const timeSinceLastLoad = Date.now() - lastLoadTimeRef.current
+      if (isLoadingRef.current || timeSinceLastLoad < 1000) {
+        return
+      }
+
+      // Reload data
+      isLoadingRef.current = true
+      loadData().finally(() => {
+        isLoadingRef.current = false
+        lastLoadTimeRef.current = Date.now()
+      })
+    }, [user])
+  )
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      const [pendingResult, overdueResult] = await Promise.all([
+        getAllFees({ status: 'pending' }),
+        getAllFees({ status: 'overdue' }),
+      ])
+
+      if (pendingResult.error || overdueResult.error) {
+        const error = (pendingResult.error || overdueResult.error) as Error
+        logger.error('Error loading pending fees', error)
+        setSnackbar({ visible: true, message: error.message })
+        return
+      }
+
+      setPendingFees(
+        [...(pendingResult.fees || []), ...(overdueResult.fees || [])].filter((fee) => feeBalance(fee) > 0)
+      )
+    } catch (error) {
+      logger.error('Unexpected error loading pending fees', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to load pending fees' })
+    } finally {
+      setLoading(false)
+      setRefreshing(false)
+      lastLoadTimeRef.current = Date.now()
+    }
+  }
+
+  const handleRefresh = async () => {
+    setRefreshing(true)
+    await loadData()
+  }
+
+  const findFee = (feeId: string | null) => (feeId ? pendingFees.find((fee) => fee.id === feeId) : undefined)
+
+  const handleMatch = () => {
+    const { transactions, invalidLines } = parseUpiTransactions(pasteText)
+    if (transactions.length === 0) {
+      setSnackbar({ visible: true, message: 'Paste one transaction per line: reference, amount, note' })
+      return
+    }
+
+    setRows(
+      transactions.map((transaction, index) => {
+        // Only auto-match notes that point at a fee that is still unpaid
+        const fee = findFee(transaction.feeId)
+        return {
+          key: `${transaction.reference}-${index}`,
+          transaction,
+          feeId: fee ? fee.id : null,
+          selected: !!fee && transaction.amount <= feeBalance(fee),
+          result: null,
+        }
+      })
+    )
+
+    if (invalidLines.length > 0) {
+      setSnackbar({ visible: true, message: `Skipped unreadable line${invalidLines.length === 1 ? '' : 's'} ${invalidLines.join(', ')}` })
+    }
+  }
+
+  const updateRow = (key: string, changes: Partial<ReconciliationRow>) => {
+    setRows((current) => current.map((row) => (row.key === key ? { ...row, ...changes } : row)))
+  }
+
+  const handlePickFee = (feeId: string) => {
+    if (!pickerRowKey) return
+    const row = rows.find((r) => r.key === pickerRowKey)
+    const fee = findFee(feeId)
+    updateRow(pickerRowKey, {
+      feeId,
+      selected: !!row && !!fee && row.transaction.amount <= feeBalance(fee),
+      result: null,
+    })
+    setPickerRowKey(null)
+    setPickerSearch('')
+  }
+
+  const recordableRows = rows.filter((row) => row.selected && row.feeId && !row.result?.success)
+
+  const handleRecord = async () => {
+    if (recordableRows.length === 0) return
+
+    try {
+      setRecording(true)
+      const result = await recordUpiPayments(
+        recordableRows.map((row) => ({
+          studentFeeId: row.feeId as string,
+          amount: row.transaction.amount,
+          reference: row.transaction.reference,
+        }))
+      )
+
+      if (result.error) {
+        setSnackbar({ visible: true, message: result.error.message })
+        return
+      }
+
+      // Results come back in the order the entries were sent
+      const outcomes = new Map(recordableRows.map((row, index) => [row.key, result.results[index]]))
+      setRows((current) =>
+        current.map((row) => {
+          const outcome = outcomes.get(row.key)
+          if (!outcome) return row
+          return {
+            ...row,
+            selected: false,
+            result: outcome.error
+              ? { success: false, message: outcome.error }
+              : {
+                  success: true,
+                  message: outcome.payment?.receipt_number
+                    ? `Recorded • Receipt #${outcome.payment.receipt_number}`
+                    : 'Recorded',
+                },
+          }
+        })
+      )
+
+      const recorded = result.results.filter((r) => !r.error).length
+      setSnackbar({
+        visible: true,
+        message: `${recorded} of ${result.results.length} payment${result.results.length === 1 ? '' : 's'} recorded`,
+      })
+      await loadData()
+    } catch (error) {
+      logger.error('Unexpected error recording UPI payments', error as Error)
+      setSnackbar({ visible: true, message: 'Failed to record payments' })
+    } finally {
+      setRecording(false)
+    }
+  }
+
+  const pickerQuery = pickerSearch.trim().toLowerCase()
+  const pickerFees = pendingFees.filter((fee) => !pickerQuery || studentLabel(fee).toLowerCase().includes(pickerQuery))
+
+  return (
+    <View style={styles.container}>
+      <AdminHeader title="UPI Payments" subtitle="Match incoming UPI transfers to pending fees" />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="bodySmall" style={styles.mutedText}>
+              Paste transactions from the bank statement or UPI app, one per line: reference (UTR), amount,
+              transaction note. Notes from the app's pay links contain the fee id and are matched automatically.
+            </Text>
+            <TextInput
+              label="Transactions"
+              value={pasteText}
+              onChangeText={setPasteText}
+              mode="outlined"
+              multiline
+              numberOfLines={5}
+              placeholder="412345678901, 1200, 3f2b..."
+              style={styles.input}
+            />
+            <Button mode="outlined" icon="link-variant" onPress={handleMatch} disabled={loading}>
+              Match to Fees
+            </Button>
+          </Card.Content>
+        </Card>
+
+        <Button
+          mode="text"
+          icon="file-delimited"
+          textColor="#7B2CBF"
+          onPress={() => router.push('/(admin)/(tabs)/statement-import' as any)}
+          style={styles.importLink}
+        >
+          Import a bank statement CSV instead
+        </Button>
+
+        {loading && pendingFees.length === 0 ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#7B2CBF" />
+          </View>
+        ) : (
+          rows.length > 0 && (
+            <View style={styles.section}>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Transactions
+              </Text>
+              {rows.map((row) => {
+                const fee = findFee(row.feeId)
+                const exceedsBalance = !!fee && row.transaction.amount > feeBalance(fee)
+                const done = !!row.result?.success
+
+                return (
+                  <Card key={row.key} style={styles.rowCard}>
+                    <Card.Content style={styles.row}>
+                      <Checkbox
+                        status={row.selected ? 'checked' : 'unchecked'}
+                        disabled={!fee || exceedsBalance || done}
+                        onPress={() => updateRow(row.key, { selected: !row.selected })}
+                        color="#7B2CBF"
+                      />
+                      <View style={styles.rowInfo}>
+                        <Text variant="bodyMedium" style={styles.rowTitle}>
+                          ₹{row.transaction.amount.toFixed(2)} • {row.transaction.reference}
+                        </Text>
+                        {fee ? (
+                          <Text variant="bodySmall" style={styles.mutedText}>
+                            {studentLabel(fee)} • {FEE_TYPE_LABELS[fee.fee_type as FeeType]} due{' '}
+                            {format(new Date(fee.due_date + 'T00:00:00'), 'MMM dd, yyyy')} • Balance ₹
+                            {feeBalance(fee).toFixed(2)}
+                          </Text>
+                        ) : (
+                          !done && (
+                            <Text variant="bodySmall" style={styles.warningText}>
+                              {row.transaction.feeId ? 'Fee in note is not pending' : 'No fee in note'} – pick one
+                            </Text>
+                          )
+                        )}
+                        {exceedsBalance && !done && (
+                          <Text variant="bodySmall" style={styles.errorText}>
+                            Amount is more than the remaining balance
+                          </Text>
+                        )}
+                        {row.result && (
+                          <Text variant="bodySmall" style={row.result.success ? styles.successText : styles.errorText}>
+                            {row.result.message}
+                          </Text>
+                        )}
+                      </View>
+                      {!done && (
+                        <Button compact onPress={() => setPickerRowKey(row.key)} textColor="#7B2CBF">
+                          {fee ? 'Change' : 'Pick Fee'}
+                        </Button>
+                      )}
+                    </Card.Content>
+                  </Card>
+                )
+              })}
+
+              <Button
+                mode="contained"
+                icon="cash-check"
+                onPress={handleRecord}
+                loading={recording}
+                disabled={recording || recordableRows.length === 0}
+                buttonColor="#7B2CBF"
+                style={styles.recordButton}
+              >
+                Record {recordableRows.length} Payment{recordableRows.length === 1 ? '' : 's'}
+              </Button>
+            </View>
+          )
+        )}
+      </ScrollView>
+
+      <Dialog visible={pickerRowKey !== null} onDismiss={() => setPickerRowKey(null)}>
+        <Dialog.Title>Pick Fee</Dialog.Title>
+        <Dialog.Content>
+          <TextInput
+            label="Search student"
+            value={pickerSearch}
+            onChangeText={setPickerSearch}
+            mode="outlined"
+            style={styles.input}
+          />
+        </Dialog.Content>
+        <Dialog.ScrollArea style={styles.pickerArea}>
+          <ScrollView>
+            {pickerFees.length === 0 ? (
+              <Text variant="bodySmall" style={[styles.mutedText, styles.pickerEmpty]}>
+                No pending fees found
+              </Text>
+            ) : (
+              pickerFees.map((fee) => (
+                <Button
+                  key={fee.id}
+                  onPress={() => handlePickFee(fee.id)}
+                  textColor="#1A1A1A"
+                  contentStyle={styles.pickerItem}
+                >
+                  {studentLabel(fee)} • {FEE_TYPE_LABELS[fee.fee_type as FeeType]} • ₹{feeBalance(fee).toFixed(2)}
+                </Button>
+              ))
+            )}
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={() => setPickerRowKey(null)}>Cancel</Button>
+        </Dialog.Actions>
+      </Dialog>
+
+      <Snackbar
+        visible={snackbar.visible}
+        onDismiss={() => setSnackbar({ visible: false, message: '' })}
+        duration={3000}
+      >
+        {snackbar.message}
+      </Snackbar>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFF8E7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 80,
+  },
+  loadingContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    elevation: 1,
+    marginBottom: 24,
+  },
+  input: {
+    marginVertical: 12,
+  },
+  importLink: {
+    marginTop: -12,
+    marginBottom: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 12,
+  },
+  rowCard: {
+    backgroundColor: '#FFFFFF',
+    elevation: 1,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  recordButton: {
+    marginTop: 8,
+  },
+  pickerArea: {
+    maxHeight: 320,
+    paddingHorizontal: 0,
+  },
+  pickerItem: {
+    justifyContent: 'flex-start',
+  },
+  pickerEmpty: {
+    padding: 16,
+  },
+  mutedText: {
+    color: '#6B7280',
+  },
+  warningText: {
+    color: '#D97706',
+  },
+  errorText: {
+    color: '#DC2626',
+  },
+  successText: {
+    color: '#10B981',
+  },
+})
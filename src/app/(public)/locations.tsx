@@ -8,6 +8,8 @@ import { usePublicData } from '@/lib/public/hooks/usePublicData'
 import { ContactCard } from '@/components/public/ContactCard'
 import { LocationCard } from '@/components/public/LocationCard'
 import { SocialLinksCard } from '@/components/public/SocialLinksCard'
+import { formatBatchDays } from '@/lib/batches'
+import { formatSessionTime } from '@/lib/attendance'
 
 const CONTACT_INFO = {
   phone: '+91 9916836930',
@@ -15,6 +17,7 @@ const CONTACT_INFO = {
   whatsapp: 'https://wa.me/919916836930',
 }
 
+// Shown until the branches' timetables have been set up in the app
 const LOCATIONS = [
   {
     id: '1',
@@ -103,6 +106,24 @@ export default function LocationsScreen() {
     ? data.branches[0].name 
     : 'Karate Sports Club Hubballi'
 
+  // Branches with classes in the timetable, each with its weekly schedule
+  const timetable = data?.timetable || []
+  const timetableLocations = (data?.branches || [])
+    .filter((branch) => timetable.some((batch) => batch.branch_id === branch.id))
+    .map((branch) => ({
+      id: branch.id,
+      name: branch.name,
+      address: branch.address || '',
+      mapsUrl: `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(branch.address || branch.name)}`,
+      schedule: timetable
+        .filter((batch) => batch.branch_id === branch.id)
+        .map((batch) => ({
+          days: formatBatchDays(batch.days_of_week),
+          time: `${batch.name}: ${formatSessionTime(batch)}`,
+        })),
+    }))
+  const locations = timetableLocations.length > 0 ? timetableLocations : LOCATIONS
+
   return (
     <View style={styles.container}>
       <PublicHeader logoUrl={data?.logoUrl} dojoName={dojoName} />
@@ -147,7 +168,7 @@ export default function LocationsScreen() {
           </Text>
         </View>
 
-        {LOCATIONS.map((location) => (
+        {locations.map((location) => (
           <LocationCard
             key={location.id}
             name={location.name}
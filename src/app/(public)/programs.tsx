@@ -4,6 +4,9 @@ import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { PublicHeader } from '@/components/public/shared/PublicHeader'
 import { usePublicData } from '@/lib/public/hooks/usePublicData'
+import { formatBatchDays } from '@/lib/batches'
+import { formatSessionTime } from '@/lib/attendance'
+import type { TimetableBatch } from '@/lib/public/types/public.types'
 
 interface Program {
   id: string
@@ -142,6 +145,21 @@ export default function ProgramsScreen() {
     ? data.branches[0].name 
     : 'Karate Sports Club Hubballi'
 
+  // Timetable grouped by age group, in the order the groups first appear
+  const timetableGroups = (data?.timetable || []).reduce<{ ageGroup: string; batches: TimetableBatch[] }[]>(
+    (groups, batch) => {
+      const ageGroup = batch.age_group || 'All Ages'
+      const group = groups.find((g) => g.ageGroup === ageGroup)
+      if (group) {
+        group.batches.push(batch)
+      } else {
+        groups.push({ ageGroup, batches: [batch] })
+      }
+      return groups
+    },
+    []
+  )
+
   return (
     <View style={styles.container}>
       <PublicHeader logoUrl={data?.logoUrl} dojoName={dojoName} />
@@ -222,6 +240,49 @@ export default function ProgramsScreen() {
           </Card>
         ))}
 
+        {/* Class Timetable - from the branches' weekly batches */}
+        {timetableGroups.length > 0 && (
+          <>
+            <View style={styles.programsHeader}>
+              <Text variant="titleLarge" style={styles.programsTitle}>
+                Class Timetable
+              </Text>
+            </View>
+
+            {timetableGroups.map((group) => (
+              <Card key={group.ageGroup} style={styles.timetableCard} mode="elevated">
+                <Card.Content>
+                  <View style={styles.timetableHeader}>
+                    <MaterialCommunityIcons name="calendar-clock" size={22} color="#7B2CBF" />
+                    <Text variant="titleMedium" style={styles.timetableGroup}>
+                      {group.ageGroup}
+                    </Text>
+                  </View>
+                  {group.batches.map((batch) => (
+                    <View key={batch.id} style={styles.timetableRow}>
+                      <View style={styles.timetableInfo}>
+                        <Text variant="bodyLarge" style={styles.timetableName}>
+                          {batch.name}
+                          {batch.level ? ` • ${batch.level}` : ''}
+                        </Text>
+                        <Text variant="bodySmall" style={styles.timetableMeta}>
+                          {formatBatchDays(batch.days_of_week)} • {formatSessionTime(batch)}
+                        </Text>
+                        {batch.branch?.name && (
+                          <Text variant="bodySmall" style={styles.timetableMeta}>
+                            {batch.branch.name}
+                            {batch.instructor?.name ? ` • ${batch.instructor.name}` : ''}
+                          </Text>
+                        )}
+                      </View>
+                    </View>
+                  ))}
+                </Card.Content>
+              </Card>
+            ))}
+          </>
+        )}
+
       </ScrollView>
     </View>
   )
@@ -369,4 +430,37 @@ const styles = StyleSheet.create({
     flex: 1,
     lineHeight: 20,
   },
+  // Timetable
+  timetableCard: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+    borderRadius: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  timetableHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  timetableGroup: {
+    fontWeight: '700',
+    color: '#111827',
+  },
+  timetableRow: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  timetableInfo: {
+    flex: 1,
+  },
+  timetableName: {
+    fontWeight: '600',
+    color: '#111827',
+  },
+  timetableMeta: {
+    color: '#6B7280',
+    marginTop: 2,
+  },
 })
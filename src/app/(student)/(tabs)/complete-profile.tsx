@@ -6,7 +6,8 @@ import { useRouter } from 'expo-router'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { useAuth } from '@/context/AuthContext'
 import { getStudentByUserId, updateStudent, uploadStudentPhoto, uploadAadharCard, type UpdateStudentData } from '@/lib/students'
-import { BELT_LEVELS, getBeltDisplayName } from '@/lib/belts'
+import { getBeltLevels, getBeltDisplayName } from '@/lib/belts'
+import { useBeltSyllabus } from '@/hooks/useBeltSyllabus'
 import * as ImagePicker from 'expo-image-picker'
 import { Alert } from 'react-native'
 import { DatePicker } from '@/components/shared/DatePicker'
@@ -41,6 +42,8 @@ export default function CompleteProfileScreen() {
   const [snackbar, setSnackbar] = useState({ visible: false, message: '' })
   const [studentId, setStudentId] = useState<string | null>(null)
   const [beltMenuVisible, setBeltMenuVisible] = useState(false)
+  // Re-render the belt menu once the configured syllabus has loaded
+  useBeltSyllabus()
 
   useEffect(() => {
     if (user?.id) {
@@ -404,7 +407,7 @@ export default function CompleteProfileScreen() {
                 </Button>
               }
             >
-              {BELT_LEVELS.map((belt) => (
+              {getBeltLevels().map((belt) => (
                 <Menu.Item
                   key={belt}
                   onPress={() => {
@@ -12,6 +12,7 @@ import { AlertsSection } from '@/components/student/dashboard/AlertsSection'
 import { RecentActivitySection } from '@/components/student/dashboard/RecentActivitySection'
 import { ErrorState } from '@/components/student/dashboard/ErrorState'
 import { NotificationBanner } from '@/components/student/dashboard/NotificationBanner'
+import { BeltRequirementsCard } from '@/components/shared/BeltRequirementsCard'
 import { useStudentDashboard } from '@/hooks/useStudentDashboard'
 import { markNotificationAsRead } from '@/lib/student-notifications'
 import { COLORS, SPACING } from '@/lib/design-system'
@@ -190,6 +191,15 @@ export default function StudentDashboardScreen() {
           />
         )}
 
+        {!loading && student && (
+          // Keyed by belt so the requirements reload after a promotion
+          <BeltRequirementsCard
+            key={`${student.id}-${currentBelt}`}
+            studentId={student.id}
+            title="Your next belt: requirements"
+          />
+        )}
+
         <QuickActionsSection />
 
         {!loading && (
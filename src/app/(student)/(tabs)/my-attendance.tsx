@@ -261,6 +261,7 @@ export default function MyAttendanceScreen() {
                     </Text>
                     <Text variant="bodySmall" style={styles.dateAgo}>
                       {formatDistanceToNow(new Date(record.class_date), { addSuffix: true })}
+                      {record.session ? ` • ${record.session.batch_name}` : ''}
                     </Text>
                   </View>
                   {getStatusBadge(record.status)}
@@ -1,16 +1,30 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react'
-import { View, StyleSheet, ScrollView, RefreshControl, TouchableOpacity } from 'react-native'
-import { Text, Card, ActivityIndicator } from 'react-native-paper'
+import { View, StyleSheet, ScrollView, RefreshControl, TouchableOpacity, Alert, Linking } from 'react-native'
+import { Text, Card, ActivityIndicator, Button } from 'react-native-paper'
 import { LinearGradient } from 'expo-linear-gradient'
 import { useFocusEffect } from 'expo-router'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { format, formatDistanceToNow } from 'date-fns'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import QRCode from 'react-native-qrcode-svg'
 import { useAuth } from '@/context/AuthContext'
-import { getStudentFees, type StudentFee, type FeeType, type FeeStatus } from '@/lib/fees'
+import {
+  getStudentFees,
+  getStudentPayments,
+  getFeeFreezes,
+  type StudentFee,
+  type FeeType,
+  type FeeStatus,
+  type FeePayment,
+  type FeeFreeze,
+} from '@/lib/fees'
 import { getStudentByUserId } from '@/lib/students'
+import { shareFeeReceipt } from '@/lib/receipts'
+import { getUpiConfig, buildUpiPaymentLink } from '@/lib/upi'
 import { logger } from '@/lib/logger'
 import { StudentHeader } from '@/components/student/StudentHeader'
+import { PaymentHistoryList } from '@/components/shared/PaymentHistoryList'
+import { FeeStatementDialog } from '@/components/shared/FeeStatementDialog'
 import { COLORS, SPACING, RADIUS, ELEVATION } from '@/lib/design-system'
 
 const FEE_TYPE_LABELS: Record<FeeType, string> = {
@@ -18,28 +32,37 @@ const FEE_TYPE_LABELS: Record<FeeType, string> = {
   monthly: 'Monthly',
   yearly: 'Yearly',
   grading: 'Grading',
+  late_fee: 'Late Fee',
 }
 
 const STATUS_GRADIENTS: Record<FeeStatus, string[]> = {
   pending: ['#F59E0B', '#D97706'],
   paid: ['#10B981', '#059669'],
   overdue: ['#EF4444', '#DC2626'],
+  waived: ['#9CA3AF', '#6B7280'],
 }
 
 const STATUS_ICONS: Record<FeeStatus, string> = {
   pending: 'clock-outline',
   paid: 'check-circle',
   overdue: 'alert-circle',
+  waived: 'cancel',
 }
 
+const upiConfig = getUpiConfig()
+
 export default function MyFeesScreen() {
   const insets = useSafeAreaInsets()
   const { user } = useAuth()
 
   const [fees, setFees] = useState<StudentFee[]>([])
+  const [payments, setPayments] = useState<FeePayment[]>([])
+  const [freezes, setFreezes] = useState<FeeFreeze[]>([])
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
   const [studentId, setStudentId] = useState<string | null>(null)
+  const [upiFeeId, setUpiFeeId] = useState<string | null>(null)
+  const [statementDialogVisible, setStatementDialogVisible] = useState(false)
 
   // Refs to prevent unnecessary reloads
   const lastLoadTimeRef = useRef<number>(0)
@@ -93,7 +116,11 @@ export default function MyFeesScreen() {
 
     try {
       setLoading(true)
-      const result = await getStudentFees(studentId)
+      const [result, paymentsResult, freezesResult] = await Promise.all([
+        getStudentFees(studentId),
+        getStudentPayments(studentId),
+        getFeeFreezes(studentId),
+      ])
 
       if (result.error) {
         logger.error('Error loading fees', result.error)
@@ -101,6 +128,16 @@ export default function MyFeesScreen() {
       }
 
       setFees(result.fees || [])
+
+      if (paymentsResult.error) {
+        logger.error('Error loading payment history', paymentsResult.error)
+      }
+      setPayments(paymentsResult.payments || [])
+
+      if (freezesResult.error) {
+        logger.error('Error loading fee freezes', freezesResult.error)
+      }
+      setFreezes(freezesResult.freezes || [])
     } catch (error) {
       logger.error('Unexpected error loading fees', error as Error)
     } finally {
@@ -115,6 +152,23 @@ export default function MyFeesScreen() {
     await loadData()
   }
 
+  const handleShareReceipt = async (payment: FeePayment) => {
+    const result = await shareFeeReceipt(payment.id)
+    if (result.error) {
+      logger.error('Error sharing receipt', result.error)
+      Alert.alert('Receipt', result.error.message)
+    }
+  }
+
+  const handleOpenUpiApp = async (link: string) => {
+    try {
+      await Linking.openURL(link)
+    } catch (error) {
+      logger.error('Error opening UPI app', error as Error)
+      Alert.alert('Pay via UPI', 'No UPI app found. Scan the QR code from another phone instead.')
+    }
+  }
+
 
   // Calculate statistics
   const pendingFees = fees.filter((f) => f.status === 'pending')
@@ -122,6 +176,8 @@ export default function MyFeesScreen() {
   const paidFees = fees.filter((f) => f.status === 'paid')
   const totalPending = pendingFees.reduce((sum, f) => sum + (f.amount - f.paid_amount), 0)
   const totalOverdue = overdueFees.reduce((sum, f) => sum + (f.amount - f.paid_amount), 0)
+  const today = new Date().toISOString().split('T')[0]
+  const currentFreezes = freezes.filter((f) => f.end_date >= today)
 
   if (loading && !studentId) {
     return (
@@ -146,6 +202,24 @@ export default function MyFeesScreen() {
         contentContainerStyle={styles.scrollContent}
         refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
       >
+        {/* Fee freezes (current and upcoming) */}
+        {currentFreezes.map((freeze) => (
+          <Card key={freeze.id} style={styles.freezeCard}>
+            <Card.Content style={styles.statContent}>
+              <MaterialCommunityIcons name="snowflake" size={28} color={COLORS.info} />
+              <View style={styles.statInfo}>
+                <Text variant="titleSmall" style={styles.freezeTitle}>
+                  {freeze.start_date > today ? 'Fees will be paused' : 'Fees are paused'}
+                </Text>
+                <Text variant="bodySmall" style={styles.statLabel}>
+                  {format(new Date(freeze.start_date + 'T00:00:00'), 'MMM dd, yyyy')} –{' '}
+                  {format(new Date(freeze.end_date + 'T00:00:00'), 'MMM dd, yyyy')} • {freeze.reason}
+                </Text>
+              </View>
+            </Card.Content>
+          </Card>
+        ))}
+
         {/* Statistics Cards */}
         {(totalPending > 0 || totalOverdue > 0) && (
           <View style={styles.statsContainer}>
@@ -203,14 +277,21 @@ export default function MyFeesScreen() {
             {fees.map((fee) => {
               const statusGradient = STATUS_GRADIENTS[fee.status]
               const statusIcon = STATUS_ICONS[fee.status]
-              const remaining = fee.amount - fee.paid_amount
+              const remaining = fee.status === 'waived' ? 0 : fee.amount - fee.paid_amount
               const isFullyPaid = remaining <= 0
+              const upiLink =
+                upiConfig && (fee.status === 'pending' || fee.status === 'overdue')
+                  ? buildUpiPaymentLink(fee, upiConfig)
+                  : null
+              const showUpi = upiLink !== null && upiFeeId === fee.id
 
               return (
                 <TouchableOpacity
                   key={fee.id}
                   activeOpacity={0.8}
                   style={styles.feeContainer}
+                  disabled={!upiLink}
+                  onPress={() => setUpiFeeId(showUpi ? null : fee.id)}
                 >
                   <LinearGradient
                     colors={statusGradient as [string, string]}
@@ -243,6 +324,11 @@ export default function MyFeesScreen() {
                               <Text variant="headlineSmall" style={styles.totalAmount}>
                                 ₹{fee.amount.toFixed(2)}
                               </Text>
+                              {fee.discount_amount > 0 && (
+                                <Text variant="bodySmall" style={styles.amountLabel}>
+                                  ₹{fee.discount_amount.toFixed(2)} discount applied
+                                </Text>
+                              )}
                             </View>
                             {fee.paid_amount > 0 && (
                               <View style={styles.paidAmountContainer}>
@@ -282,6 +368,12 @@ export default function MyFeesScreen() {
                             )}
                           </View>
 
+                          {fee.status === 'waived' && fee.waiver_reason && (
+                            <Text variant="bodySmall" style={styles.amountLabel}>
+                              Waived: {fee.waiver_reason}
+                            </Text>
+                          )}
+
                           {fee.status === 'overdue' && (
                             <View style={styles.overdueWarning}>
                               <MaterialCommunityIcons name="alert" size={16} color="#fff" />
@@ -292,16 +384,68 @@ export default function MyFeesScreen() {
                           )}
                         </View>
                       </View>
-                      <MaterialCommunityIcons name="chevron-right" size={24} color="#fff" />
+                      <MaterialCommunityIcons
+                        name={showUpi ? 'chevron-down' : 'chevron-right'}
+                        size={24}
+                        color="#fff"
+                      />
                     </View>
                   </LinearGradient>
+
+                  {upiLink && !showUpi && (
+                    <Text variant="labelSmall" style={styles.upiHint}>
+                      Tap to pay ₹{remaining.toFixed(2)} via UPI
+                    </Text>
+                  )}
+
+                  {showUpi && upiLink && (
+                    <View style={styles.upiPanel}>
+                      <Text variant="titleSmall" style={styles.upiTitle}>
+                        Pay ₹{remaining.toFixed(2)} via UPI
+                      </Text>
+                      <View style={styles.upiQr}>
+                        <QRCode value={upiLink} size={180} />
+                      </View>
+                      <Text variant="bodySmall" style={styles.upiNote}>
+                        Scan with any UPI app, or open one on this phone. Keep the prefilled note so we
+                        can match your payment to this fee.
+                      </Text>
+                      <Button
+                        mode="contained"
+                        icon="cellphone-arrow-down"
+                        buttonColor={COLORS.brandPurple}
+                        onPress={() => handleOpenUpiApp(upiLink)}
+                      >
+                        Open UPI App
+                      </Button>
+                    </View>
+                  )}
                 </TouchableOpacity>
               )
             })}
+            <PaymentHistoryList payments={payments} onShareReceipt={handleShareReceipt} />
+            <Button
+              mode="outlined"
+              icon="file-document-outline"
+              onPress={() => setStatementDialogVisible(true)}
+              textColor={COLORS.brandPurple}
+              style={styles.statementButton}
+            >
+              Download Fee Statement
+            </Button>
             <View style={styles.bottomPadding} />
           </>
         )}
       </ScrollView>
+
+      {studentId && (
+        <FeeStatementDialog
+          visible={statementDialogVisible}
+          studentId={studentId}
+          onDismiss={() => setStatementDialogVisible(false)}
+          onError={(message) => Alert.alert('Fee Statement', message)}
+        />
+      )}
     </View>
   )
 }
@@ -323,6 +467,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingVertical: SPACING.xxl,
   },
+  statementButton: {
+    marginTop: SPACING.md,
+    borderColor: COLORS.brandPurple,
+  },
   bottomPadding: {
     height: SPACING.xl,
   },
@@ -339,6 +487,45 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: COLORS.border,
   },
+  upiHint: {
+    color: COLORS.brandPurple,
+    textAlign: 'right',
+    marginTop: SPACING.xs,
+  },
+  upiPanel: {
+    alignItems: 'center',
+    gap: SPACING.md,
+    padding: SPACING.lg,
+    marginTop: SPACING.sm,
+    backgroundColor: COLORS.surface,
+    borderRadius: RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  upiTitle: {
+    color: COLORS.textPrimary,
+    fontWeight: '600',
+  },
+  upiQr: {
+    padding: SPACING.sm,
+    backgroundColor: '#fff',
+  },
+  upiNote: {
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+  },
+  freezeCard: {
+    elevation: ELEVATION.sm,
+    backgroundColor: '#EFF6FF',
+    borderRadius: RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginBottom: SPACING.md,
+  },
+  freezeTitle: {
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
   statContent: {
     flexDirection: 'row',
     alignItems: 'center',
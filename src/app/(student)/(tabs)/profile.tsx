@@ -8,6 +8,8 @@ import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { format } from 'date-fns'
 import { useQueryClient } from '@tanstack/react-query'
 import { StudentHeader } from '@/components/student/StudentHeader'
+import { BeltHistorySection } from '@/components/student/BeltHistorySection'
+import { CheckInQrCard } from '@/components/shared/CheckInQrCard'
 import { COLORS, SPACING, RADIUS, ELEVATION } from '@/lib/design-system'
 import { logger } from '@/lib/logger'
 
@@ -170,6 +172,15 @@ export default function StudentProfileScreen() {
           </Card.Content>
         </Card>
 
+        {/* Check-in QR - scanned by the instructor at the start of class */}
+        {student.is_active && (
+          <CheckInQrCard
+            studentId={student.id}
+            studentCode={student.student_id}
+            hint="Show this to your instructor at the start of class to be marked present."
+          />
+        )}
+
         {/* Personal Information */}
         <Card style={styles.card}>
           <Card.Content>
@@ -196,6 +207,17 @@ export default function StudentProfileScreen() {
           </Card.Content>
         </Card>
 
+        {/* Belt Progression */}
+        {student.current_belt && (
+          <BeltHistorySection
+            studentId={student.id}
+            studentName={`${student.first_name} ${student.last_name}`}
+            currentBelt={student.current_belt}
+            joinedAt={student.created_at}
+            onError={(message) => setSnackbar({ visible: true, message })}
+          />
+        )}
+
         {/* Branch Information */}
         {student.branch && (
           <Card style={styles.card}>
@@ -14,6 +14,7 @@ import { hasConfigError, configError } from '@/lib/supabase'
 import { ConfigErrorScreen } from '@/components/ConfigErrorScreen'
 import * as Updates from 'expo-updates'
 import { logger } from '@/lib/logger'
+import { loadBeltSyllabus } from '@/lib/belt-syllabus'
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -54,6 +55,8 @@ export default function RootLayout() {
     initSentry()
     // ErrorBoundary component will handle React errors
     // Sentry will capture errors if configured
+    // Load the configured belt syllabus for the belt helpers used across the app
+    loadBeltSyllabus()
   }, [])
 
   // Check for app updates on startup
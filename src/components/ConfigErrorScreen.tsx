@@ -47,7 +47,7 @@ export function ConfigErrorScreen({ error }: ConfigErrorScreenProps) {
               <View style={styles.variableList}>
                 <Text style={styles.variable}>• EXPO_PUBLIC_SUPABASE_URL</Text>
                 <Text style={styles.variable}>• EXPO_PUBLIC_SUPABASE_ANON_KEY</Text>
-                <Text style={styles.variable}>• EXPO_PUBLIC_SUPABASE_SERVICE_ROLE_KEY (optional)</Text>
+                <Text style={styles.variable}>• EXPO_PUBLIC_API_URL</Text>
               </View>
               
               <Text variant="bodySmall" style={styles.instruction}>
@@ -1,8 +1,22 @@
 import { View, StyleSheet, ScrollView } from 'react-native'
 import { Text, Card } from 'react-native-paper'
-import { BELT_LEVELS, BELT_COLORS, BELT_KYU } from '@/lib/belts'
+import { getBeltGrade, getBeltProgrammes, getBeltRanks, DEFAULT_PROGRAMME } from '@/lib/belts'
+import { useBeltSyllabus } from '@/hooks/useBeltSyllabus'
+
+// Dark text on light belts (white, yellow, ...), white text otherwise
+function isLightColor(hex: string): boolean {
+  const value = parseInt(hex.replace('#', ''), 16)
+  const r = (value >> 16) & 255
+  const g = (value >> 8) & 255
+  const b = value & 255
+  return r * 0.299 + g * 0.587 + b * 0.114 > 160
+}
 
 export function BeltProgressionSection() {
+  // Re-render once the configured syllabus has loaded
+  useBeltSyllabus()
+  const programmes = getBeltProgrammes()
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -10,52 +24,53 @@ export function BeltProgressionSection() {
           Belt Progression
         </Text>
       </View>
-      <ScrollView
-        horizontal
-        showsHorizontalScrollIndicator={false}
-        contentContainerStyle={styles.scrollContent}
-      >
-        {BELT_LEVELS.map((belt, index) => {
-          const beltColor = BELT_COLORS[belt] || '#FFFFFF'
-          const kyu = BELT_KYU[belt] || ''
-          const isLightColor = belt === 'White' || belt === 'Yellow'
-          
-          return (
-            <Card
-              key={belt}
-              style={[
-                styles.beltCard,
-                { backgroundColor: beltColor },
-                index === 0 && styles.firstCard,
-                index === BELT_LEVELS.length - 1 && styles.lastCard,
-              ]}
+      {programmes.map((programme) => {
+        const belts = getBeltRanks().filter((r) => r.programme === programme && r.is_active)
+
+        return (
+          <View key={programme} style={styles.programme}>
+            {programmes.length > 1 && (
+              <Text variant="titleSmall" style={styles.programmeTitle}>
+                {programme === DEFAULT_PROGRAMME ? 'Belts' : programme}
+              </Text>
+            )}
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.scrollContent}
             >
-              <Card.Content style={styles.beltCardContent}>
-                <Text
-                  variant="titleMedium"
-                  style={[
-                    styles.beltName,
-                    { color: isLightColor ? '#000000' : '#FFFFFF' },
-                  ]}
-                >
-                  {belt}
-                </Text>
-                {kyu && (
-                  <Text
-                    variant="bodySmall"
+              {belts.map((belt, index) => {
+                const textColor = isLightColor(belt.color) ? '#000000' : '#FFFFFF'
+                const grade = getBeltGrade(belt.name)
+
+                return (
+                  <Card
+                    key={belt.id}
                     style={[
-                      styles.kyu,
-                      { color: isLightColor ? '#000000' : '#FFFFFF' },
+                      styles.beltCard,
+                      { backgroundColor: belt.color },
+                      index === 0 && styles.firstCard,
+                      index === belts.length - 1 && styles.lastCard,
                     ]}
                   >
-                    {kyu}
-                  </Text>
-                )}
-              </Card.Content>
-            </Card>
-          )
-        })}
-      </ScrollView>
+                    {belt.stripe_color && <View style={[styles.stripe, { backgroundColor: belt.stripe_color }]} />}
+                    <Card.Content style={styles.beltCardContent}>
+                      <Text variant="titleMedium" style={[styles.beltName, { color: textColor }]}>
+                        {belt.name}
+                      </Text>
+                      {grade && (
+                        <Text variant="bodySmall" style={[styles.kyu, { color: textColor }]}>
+                          {grade}
+                        </Text>
+                      )}
+                    </Card.Content>
+                  </Card>
+                )
+              })}
+            </ScrollView>
+          </View>
+        )
+      })}
     </View>
   )
 }
@@ -73,6 +88,22 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#1A1A1A',
   },
+  programme: {
+    marginBottom: 16,
+  },
+  programmeTitle: {
+    fontWeight: '600',
+    color: '#6B7280',
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  stripe: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    right: 12,
+    width: 10,
+  },
   scrollContent: {
     paddingHorizontal: 16,
     gap: 12,
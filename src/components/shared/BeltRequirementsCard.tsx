@@ -0,0 +1,280 @@
+import { useState, useEffect } from 'react'
+import { View, StyleSheet, TouchableOpacity } from 'react-native'
+import { Text, Card, Button, Checkbox, ActivityIndicator, ProgressBar } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { getBeltColor, getBeltGrade } from '@/lib/belts'
+import {
+  getStudentSyllabusProgress,
+  setSyllabusItemCompleted,
+  SYLLABUS_CATEGORY_LABELS,
+  type StudentSyllabusProgress,
+  type SyllabusCategory,
+  type SyllabusProgressItem,
+} from '@/lib/belt-syllabus'
+import { YouTubePlayer, extractYouTubeVideoId } from '@/components/public/YouTubePlayer'
+import { COLORS, SPACING, RADIUS, ELEVATION } from '@/lib/design-system'
+
+interface BeltRequirementsCardProps {
+  studentId: string
+  title: string
+  // Instructors can tick items off; students see them read-only
+  editable?: boolean
+  onError?: (message: string) => void
+}
+
+/**
+ * What a student has to show at grading for their next belt, and what is already ticked off
+ */
+export function BeltRequirementsCard({ studentId, title, editable = false, onError }: BeltRequirementsCardProps) {
+  const [progress, setProgress] = useState<StudentSyllabusProgress | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [video, setVideo] = useState<{ videoId: string; title: string } | null>(null)
+
+  useEffect(() => {
+    loadProgress()
+  }, [studentId])
+
+  const loadProgress = async () => {
+    try {
+      setLoading(true)
+      const result = await getStudentSyllabusProgress(studentId)
+      if (result.error) {
+        onError?.(result.error.message)
+        return
+      }
+      setProgress(result.progress)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleToggle = async (item: SyllabusProgressItem) => {
+    const completed = !item.completed_at
+    try {
+      setUpdatingId(item.id)
+      const result = await setSyllabusItemCompleted(studentId, item.id, completed)
+      if (result.error) {
+        onError?.(result.error.message)
+        return
+      }
+      setProgress((current) =>
+        current && {
+          ...current,
+          items: current.items.map((i) =>
+            i.id === item.id ? { ...i, completed_at: completed ? new Date().toISOString() : null } : i
+          ),
+        }
+      )
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const items = progress?.items || []
+  const completedCount = items.filter((i) => i.completed_at).length
+  const categories = (Object.keys(SYLLABUS_CATEGORY_LABELS) as SyllabusCategory[]).filter((category) =>
+    items.some((i) => i.category === category)
+  )
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.sectionHeader}>
+          <MaterialCommunityIcons name="clipboard-check-outline" size={24} color={COLORS.brandPurple} />
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            {title}
+          </Text>
+        </View>
+
+        {loading ? (
+          <ActivityIndicator size="small" color={COLORS.brandPurple} />
+        ) : !progress?.nextBelt ? (
+          <Text variant="bodySmall" style={styles.emptyText}>
+            {progress ? 'Top of the belt ladder - no further gradings.' : 'Requirements are not available right now.'}
+          </Text>
+        ) : (
+          <View>
+            <View style={styles.beltRow}>
+              <View style={[styles.beltDot, { backgroundColor: getBeltColor(progress.nextBelt) || COLORS.textTertiary }]} />
+              <Text variant="bodyMedium" style={styles.beltName}>
+                {progress.nextBelt} Belt{getBeltGrade(progress.nextBelt) ? ` • ${getBeltGrade(progress.nextBelt)}` : ''}
+              </Text>
+              {items.length > 0 && (
+                <Text variant="bodySmall" style={styles.countText}>
+                  {completedCount}/{items.length} done
+                </Text>
+              )}
+            </View>
+
+            {items.length === 0 ? (
+              <Text variant="bodySmall" style={styles.emptyText}>
+                The syllabus for this belt hasn't been added yet. Ask your instructor what to practise.
+              </Text>
+            ) : (
+              <>
+                <ProgressBar
+                  progress={completedCount / items.length}
+                  color={COLORS.success}
+                  style={styles.progressBar}
+                />
+                {categories.map((category) => (
+                  <View key={category} style={styles.category}>
+                    <Text variant="labelLarge" style={styles.categoryTitle}>
+                      {SYLLABUS_CATEGORY_LABELS[category]}
+                    </Text>
+                    {items
+                      .filter((i) => i.category === category)
+                      .map((item) => (
+                        <RequirementRow
+                          key={item.id}
+                          item={item}
+                          editable={editable}
+                          updating={updatingId === item.id}
+                          onToggle={() => handleToggle(item)}
+                          onPlay={(videoId) => setVideo({ videoId, title: item.title })}
+                        />
+                      ))}
+                  </View>
+                ))}
+              </>
+            )}
+          </View>
+        )}
+      </Card.Content>
+
+      {video && (
+        <YouTubePlayer visible videoId={video.videoId} videoTitle={video.title} onClose={() => setVideo(null)} />
+      )}
+    </Card>
+  )
+}
+
+function RequirementRow({
+  item,
+  editable,
+  updating,
+  onToggle,
+  onPlay,
+}: {
+  item: SyllabusProgressItem
+  editable: boolean
+  updating: boolean
+  onToggle: () => void
+  onPlay: (videoId: string) => void
+}) {
+  const videoId = item.youtube_url ? extractYouTubeVideoId(item.youtube_url) : null
+
+  return (
+    <View style={styles.itemRow}>
+      {editable ? (
+        <Checkbox
+          status={item.completed_at ? 'checked' : 'unchecked'}
+          onPress={onToggle}
+          disabled={updating}
+          color={COLORS.success}
+        />
+      ) : (
+        <MaterialCommunityIcons
+          name={item.completed_at ? 'check-circle' : 'circle-outline'}
+          size={22}
+          color={item.completed_at ? COLORS.success : COLORS.textTertiary}
+          style={styles.itemIcon}
+        />
+      )}
+      <TouchableOpacity style={styles.itemContent} onPress={onToggle} disabled={!editable || updating}>
+        <Text variant="bodyMedium" style={[styles.itemTitle, item.completed_at && styles.itemTitleDone]}>
+          {item.title}
+        </Text>
+        {item.description && (
+          <Text variant="bodySmall" style={styles.itemDescription}>
+            {item.description}
+          </Text>
+        )}
+      </TouchableOpacity>
+      {videoId && (
+        <Button mode="text" compact icon="youtube" textColor={COLORS.error} onPress={() => onPlay(videoId)}>
+          Demo
+        </Button>
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: SPACING.lg,
+    elevation: ELEVATION.sm,
+    borderRadius: RADIUS.md,
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    marginBottom: SPACING.lg,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  beltRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  beltDot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: COLORS.border,
+  },
+  beltName: {
+    flex: 1,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  countText: {
+    color: COLORS.textSecondary,
+  },
+  progressBar: {
+    height: 6,
+    borderRadius: 3,
+    marginBottom: SPACING.md,
+  },
+  category: {
+    marginTop: SPACING.sm,
+  },
+  categoryTitle: {
+    color: COLORS.brandPurple,
+    marginBottom: SPACING.xs,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemIcon: {
+    marginHorizontal: SPACING.sm,
+  },
+  itemContent: {
+    flex: 1,
+    paddingVertical: SPACING.xs,
+  },
+  itemTitle: {
+    color: COLORS.textPrimary,
+  },
+  itemTitleDone: {
+    color: COLORS.textSecondary,
+  },
+  itemDescription: {
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  emptyText: {
+    color: COLORS.textSecondary,
+  },
+})
@@ -0,0 +1,80 @@
+import { View, StyleSheet } from 'react-native'
+import { Text, Card } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import QRCode from 'react-native-qrcode-svg'
+import { getCheckInQrValue } from '@/lib/attendance'
+import { COLORS, SPACING, RADIUS, ELEVATION } from '@/lib/design-system'
+
+interface CheckInQrCardProps {
+  studentId: string
+  studentCode: string // The student's ID number shown under the code
+  hint: string
+}
+
+/**
+ * A student's personal QR code, scanned by the instructor to check them in to class
+ */
+export function CheckInQrCard({ studentId, studentCode, hint }: CheckInQrCardProps) {
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.sectionHeader}>
+          <MaterialCommunityIcons name="qrcode" size={24} color={COLORS.brandPurple} />
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            Class Check-in
+          </Text>
+        </View>
+        <View style={styles.qrContainer}>
+          <View style={styles.qr}>
+            <QRCode value={getCheckInQrValue(studentId)} size={180} />
+          </View>
+          <Text variant="bodyMedium" style={styles.studentCode}>
+            {studentCode}
+          </Text>
+          <Text variant="bodySmall" style={styles.hint}>
+            {hint}
+          </Text>
+        </View>
+      </Card.Content>
+    </Card>
+  )
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: SPACING.lg,
+    elevation: ELEVATION.sm,
+    borderRadius: RADIUS.md,
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    marginBottom: SPACING.lg,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  qrContainer: {
+    alignItems: 'center',
+  },
+  qr: {
+    padding: SPACING.md,
+    backgroundColor: '#FFFFFF',
+    borderRadius: RADIUS.md,
+  },
+  studentCode: {
+    marginTop: SPACING.sm,
+    color: COLORS.textPrimary,
+    fontFamily: 'monospace',
+  },
+  hint: {
+    marginTop: SPACING.xs,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+  },
+})
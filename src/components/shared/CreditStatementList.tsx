@@ -0,0 +1,183 @@
+import React from 'react'
+import { View, StyleSheet } from 'react-native'
+import { Text, Card, Button } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { format } from 'date-fns'
+import type { CreditSource, StudentCreditTransaction } from '@/lib/fees'
+import { COLORS, SPACING, RADIUS } from '@/lib/design-system'
+
+const SOURCE_LABELS: Record<CreditSource, string> = {
+  prepayment: 'Prepayment remainder',
+  overpayment: 'Overpayment',
+  refund: 'Refund to credit',
+  discount: 'Discount',
+  applied: 'Used on fee',
+  restored: 'Credit payment reversed',
+  withdrawn: 'Overpayment voided',
+}
+
+interface CreditStatementListProps {
+  balance: number
+  transactions: StudentCreditTransaction[] // Newest first, as returned by getStudentCredit
+  onAddCredit?: () => void // Shows an "Add Credit" action
+}
+
+/**
+ * Running statement of a student's credit balance, newest first
+ */
+export function CreditStatementList({ balance, transactions, onAddCredit }: CreditStatementListProps) {
+  // Balance after each movement: walk back from the current balance
+  let runningBalance = balance
+  const rows = transactions.map((transaction) => {
+    const balanceAfter = runningBalance
+    runningBalance = Math.round((runningBalance - transaction.amount) * 100) / 100
+    return { transaction, balanceAfter }
+  })
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text variant="titleMedium" style={styles.title}>
+              Credit Balance
+            </Text>
+            <Text variant="bodySmall" style={styles.meta}>
+              Used automatically on the next fee
+            </Text>
+          </View>
+          <Text variant="titleLarge" style={styles.balance}>
+            ₹{balance.toFixed(2)}
+          </Text>
+        </View>
+
+        {rows.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            No credit movements yet
+          </Text>
+        ) : (
+          rows.map(({ transaction, balanceAfter }, index) => {
+            const isDebit = transaction.amount < 0
+
+            return (
+              <View key={transaction.id} style={[styles.row, index < rows.length - 1 && styles.rowDivider]}>
+                <View style={[styles.iconContainer, isDebit && styles.iconContainerDebit]}>
+                  <MaterialCommunityIcons
+                    name={isDebit ? 'wallet-outline' : 'wallet-plus'}
+                    size={20}
+                    color={isDebit ? COLORS.textSecondary : COLORS.success}
+                  />
+                </View>
+                <View style={styles.details}>
+                  <Text variant="bodyMedium" style={styles.label}>
+                    {SOURCE_LABELS[transaction.source]}
+                  </Text>
+                  <Text variant="bodySmall" style={styles.meta}>
+                    {format(new Date(transaction.created_at), 'MMM dd, yyyy')} • Balance ₹{balanceAfter.toFixed(2)}
+                  </Text>
+                  {transaction.notes && (
+                    <Text variant="bodySmall" style={styles.notes} numberOfLines={2}>
+                      {transaction.notes}
+                    </Text>
+                  )}
+                </View>
+                <Text variant="titleSmall" style={[styles.amount, isDebit && styles.amountDebit]}>
+                  {isDebit ? '−' : '+'}₹{Math.abs(transaction.amount).toFixed(2)}
+                </Text>
+              </View>
+            )
+          })
+        )}
+
+        {onAddCredit && (
+          <Button
+            mode="text"
+            compact
+            icon="plus"
+            textColor={COLORS.brandPurple}
+            onPress={onAddCredit}
+            style={styles.addButton}
+          >
+            Add Credit
+          </Button>
+        )}
+      </Card.Content>
+    </Card>
+  )
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: SPACING.md,
+    elevation: 1,
+    backgroundColor: COLORS.surface,
+    borderRadius: RADIUS.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: SPACING.md,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  balance: {
+    fontWeight: '700',
+    color: COLORS.success,
+  },
+  emptyText: {
+    color: COLORS.textSecondary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: SPACING.sm,
+    gap: SPACING.md,
+  },
+  rowDivider: {
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.borderLight,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#ECFDF5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconContainerDebit: {
+    backgroundColor: COLORS.borderLight,
+  },
+  details: {
+    flex: 1,
+  },
+  label: {
+    color: COLORS.textPrimary,
+    fontWeight: '500',
+  },
+  meta: {
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  notes: {
+    color: COLORS.textTertiary,
+    marginTop: 2,
+  },
+  amount: {
+    color: COLORS.success,
+    fontWeight: '600',
+  },
+  amountDebit: {
+    color: COLORS.textSecondary,
+  },
+  addButton: {
+    alignSelf: 'flex-start',
+    marginTop: SPACING.sm,
+    marginLeft: -SPACING.sm,
+  },
+})
@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react'
+import { View, StyleSheet } from 'react-native'
+import { Dialog, Text, Button, Portal, Chip } from 'react-native-paper'
+import { DatePicker } from '@/components/shared/DatePicker'
+import { getStatementRanges, shareFeeStatement } from '@/lib/statements'
+import { COLORS, SPACING } from '@/lib/design-system'
+
+interface FeeStatementDialogProps {
+  visible: boolean
+  studentId: string
+  onDismiss: () => void
+  onError: (message: string) => void
+}
+
+/**
+ * Pick a date range and share the student's fee statement as a PDF
+ */
+export function FeeStatementDialog({ visible, studentId, onDismiss, onError }: FeeStatementDialogProps) {
+  const ranges = getStatementRanges()
+  const [startDate, setStartDate] = useState(ranges[0].startDate)
+  const [endDate, setEndDate] = useState(ranges[0].endDate)
+  const [generating, setGenerating] = useState(false)
+
+  // Start from the current financial year each time the dialog opens
+  useEffect(() => {
+    if (visible) {
+      setStartDate(ranges[0].startDate)
+      setEndDate(ranges[0].endDate)
+    }
+  }, [visible])
+
+  const handleGenerate = async () => {
+    if (!startDate || !endDate || startDate > endDate) {
+      onError('Please choose a start date before the end date')
+      return
+    }
+
+    try {
+      setGenerating(true)
+      const result = await shareFeeStatement(studentId, startDate, endDate)
+      if (result.error) {
+        onError(result.error.message)
+        return
+      }
+      onDismiss()
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss} style={styles.dialog}>
+        <Dialog.Title>Fee Statement</Dialog.Title>
+        <Dialog.Content>
+          <View style={styles.chips}>
+            {ranges.map((range) => (
+              <Chip
+                key={range.label}
+                selected={startDate === range.startDate && endDate === range.endDate}
+                onPress={() => {
+                  setStartDate(range.startDate)
+                  setEndDate(range.endDate)
+                }}
+              >
+                {range.label}
+              </Chip>
+            ))}
+          </View>
+          <DatePicker label="From" value={startDate} onChange={setStartDate} style={styles.input} />
+          <DatePicker label="To" value={endDate} onChange={setEndDate} style={styles.input} />
+          <Text variant="bodySmall" style={styles.hint}>
+            Shows the opening balance, fees charged, payments received and closing balance for the period, along
+            with any belt gradings.
+          </Text>
+        </Dialog.Content>
+        <Dialog.Actions style={styles.actions}>
+          <Button onPress={onDismiss} disabled={generating}>
+            Cancel
+          </Button>
+          <Button
+            mode="contained"
+            icon="file-pdf-box"
+            onPress={handleGenerate}
+            loading={generating}
+            disabled={generating}
+            buttonColor={COLORS.brandPurple}
+          >
+            Share PDF
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  )
+}
+
+const styles = StyleSheet.create({
+  dialog: {
+    borderRadius: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  input: {
+    marginTop: SPACING.sm,
+  },
+  hint: {
+    color: COLORS.textSecondary,
+    marginTop: SPACING.md,
+  },
+  actions: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+})
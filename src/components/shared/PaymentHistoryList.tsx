@@ -0,0 +1,195 @@
+import React from 'react'
+import { View, StyleSheet } from 'react-native'
+import { Text, Card, Button } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { format } from 'date-fns'
+import type { FeePayment, FeeType } from '@/lib/fees'
+import { COLORS, SPACING, RADIUS } from '@/lib/design-system'
+
+const FEE_TYPE_LABELS: Record<FeeType, string> = {
+  registration: 'Registration',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+  grading: 'Grading',
+  late_fee: 'Late Fee',
+}
+
+interface PaymentHistoryListProps {
+  payments: FeePayment[]
+  title?: string
+  emptyText?: string
+  onReverse?: (payment: FeePayment) => void // Shows a "Reverse" action on active instalments
+  onShareReceipt?: (payment: FeePayment) => void // Shows a "Receipt" action on every instalment
+}
+
+/**
+ * List of recorded instalments (fee_payments ledger), newest first
+ */
+export function PaymentHistoryList({
+  payments,
+  title = 'Payment History',
+  emptyText = 'No payments recorded yet',
+  onReverse,
+  onShareReceipt,
+}: PaymentHistoryListProps) {
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text variant="titleMedium" style={styles.title}>
+          {title}
+        </Text>
+
+        {payments.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            {emptyText}
+          </Text>
+        ) : (
+          payments.map((payment, index) => {
+            const isReversed = !!payment.reversed_at
+
+            return (
+              <View
+                key={payment.id}
+                style={[styles.row, index < payments.length - 1 && styles.rowDivider]}
+              >
+                <View style={[styles.iconContainer, isReversed && styles.iconContainerReversed]}>
+                  <MaterialCommunityIcons
+                    name={isReversed ? 'cash-refund' : 'cash-check'}
+                    size={20}
+                    color={isReversed ? COLORS.textTertiary : COLORS.success}
+                  />
+                </View>
+                <View style={styles.details}>
+                  <Text variant="bodyMedium" style={styles.feeLabel}>
+                    {payment.student_fee ? FEE_TYPE_LABELS[payment.student_fee.fee_type] : 'Fee'}
+                    {payment.student_fee?.period_start_date
+                      ? ` • ${format(new Date(payment.student_fee.period_start_date), 'MMM yyyy')}`
+                      : ''}
+                  </Text>
+                  <Text variant="bodySmall" style={styles.meta}>
+                    {format(new Date(payment.paid_at), 'MMM dd, yyyy')} • {payment.payment_method.replace('_', ' ').toUpperCase()}
+                    {payment.receipt_number ? ` • #${payment.receipt_number}` : ''}
+                  </Text>
+                  {payment.notes && (
+                    <Text variant="bodySmall" style={styles.notes} numberOfLines={2}>
+                      {payment.notes}
+                    </Text>
+                  )}
+                  {isReversed && (
+                    <Text variant="bodySmall" style={styles.reversedText}>
+                      {payment.reversal_type === 'refund' ? 'Refunded' : 'Reversed'} on{' '}
+                      {format(new Date(payment.reversed_at as string), 'MMM dd, yyyy')}: {payment.reversal_reason}
+                    </Text>
+                  )}
+                  {(onShareReceipt || (!isReversed && onReverse)) && (
+                    <View style={styles.actions}>
+                      {onShareReceipt && (
+                        <Button
+                          mode="text"
+                          compact
+                          icon="file-pdf-box"
+                          textColor={COLORS.brandPurple}
+                          onPress={() => onShareReceipt(payment)}
+                          style={styles.actionButton}
+                        >
+                          Receipt
+                        </Button>
+                      )}
+                      {!isReversed && onReverse && (
+                        <Button
+                          mode="text"
+                          compact
+                          icon="undo-variant"
+                          textColor={COLORS.error}
+                          onPress={() => onReverse(payment)}
+                          style={styles.actionButton}
+                        >
+                          Reverse
+                        </Button>
+                      )}
+                    </View>
+                  )}
+                </View>
+                <Text variant="titleSmall" style={[styles.amount, isReversed && styles.amountReversed]}>
+                  ₹{payment.amount.toFixed(2)}
+                </Text>
+              </View>
+            )
+          })
+        )}
+      </Card.Content>
+    </Card>
+  )
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: SPACING.md,
+    elevation: 1,
+    backgroundColor: COLORS.surface,
+    borderRadius: RADIUS.md,
+  },
+  title: {
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+    marginBottom: SPACING.md,
+  },
+  emptyText: {
+    color: COLORS.textSecondary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: SPACING.sm,
+    gap: SPACING.md,
+  },
+  rowDivider: {
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.borderLight,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#ECFDF5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconContainerReversed: {
+    backgroundColor: COLORS.borderLight,
+  },
+  details: {
+    flex: 1,
+  },
+  feeLabel: {
+    color: COLORS.textPrimary,
+    fontWeight: '500',
+  },
+  meta: {
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  notes: {
+    color: COLORS.textTertiary,
+    marginTop: 2,
+  },
+  reversedText: {
+    color: COLORS.error,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginLeft: -SPACING.sm,
+  },
+  actionButton: {
+    alignSelf: 'flex-start',
+  },
+  amount: {
+    color: COLORS.success,
+    fontWeight: '600',
+  },
+  amountReversed: {
+    color: COLORS.textTertiary,
+    textDecorationLine: 'line-through',
+  },
+})
@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react'
+import { View, StyleSheet } from 'react-native'
+import { Text, Card, Chip, ActivityIndicator } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { formatSessionTime } from '@/lib/attendance'
+import { getClassBatches, getStudentBatches, setStudentBatches, formatBatchDays, type ClassBatch } from '@/lib/batches'
+import { COLORS, SPACING, RADIUS, ELEVATION } from '@/lib/design-system'
+
+interface StudentBatchesCardProps {
+  studentId: string
+  branchId: string
+  onError?: (message: string) => void
+}
+
+/**
+ * The timetable batches a student attends at their branch, toggled on and off by admins
+ */
+export function StudentBatchesCard({ studentId, branchId, onError }: StudentBatchesCardProps) {
+  const [branchBatches, setBranchBatches] = useState<ClassBatch[]>([])
+  const [enrolledIds, setEnrolledIds] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [updating, setUpdating] = useState(false)
+
+  useEffect(() => {
+    loadBatches()
+  }, [studentId, branchId])
+
+  const loadBatches = async () => {
+    try {
+      setLoading(true)
+      const [branchResult, studentResult] = await Promise.all([
+        getClassBatches({ branchId }),
+        getStudentBatches(studentId),
+      ])
+      if (branchResult.error || studentResult.error) {
+        onError?.((branchResult.error || studentResult.error)!.message)
+        return
+      }
+      setBranchBatches(branchResult.batches)
+      // Enrolments left over from a previous branch are dropped on the next change
+      const branchBatchIds = branchResult.batches.map((b) => b.id)
+      setEnrolledIds(studentResult.batches.map((b) => b.id).filter((id) => branchBatchIds.includes(id)))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleToggle = async (batch: ClassBatch) => {
+    const batchIds = enrolledIds.includes(batch.id)
+      ? enrolledIds.filter((id) => id !== batch.id)
+      : [...enrolledIds, batch.id]
+
+    try {
+      setUpdating(true)
+      const result = await setStudentBatches(studentId, batchIds)
+      if (result.error) {
+        onError?.(result.error.message)
+        return
+      }
+      setEnrolledIds(batchIds)
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const enrolledBatches = branchBatches.filter((b) => enrolledIds.includes(b.id))
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.sectionHeader}>
+          <MaterialCommunityIcons name="calendar-clock" size={24} color={COLORS.brandPurple} />
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            Class Batches
+          </Text>
+        </View>
+
+        {loading ? (
+          <ActivityIndicator size="small" color={COLORS.brandPurple} />
+        ) : branchBatches.length === 0 ? (
+          <Text variant="bodySmall" style={styles.emptyText}>
+            This branch has no batches in the timetable yet.
+          </Text>
+        ) : (
+          <>
+            <View style={styles.chipRow}>
+              {branchBatches.map((batch) => (
+                <Chip
+                  key={batch.id}
+                  selected={enrolledIds.includes(batch.id)}
+                  onPress={() => handleToggle(batch)}
+                  disabled={updating}
+                  showSelectedCheck
+                >
+                  {batch.name}
+                </Chip>
+              ))}
+            </View>
+            {enrolledBatches.length === 0 ? (
+              <Text variant="bodySmall" style={styles.emptyText}>
+                Not enrolled in any batch. Tap a batch to enrol.
+              </Text>
+            ) : (
+              enrolledBatches.map((batch) => (
+                <Text key={batch.id} variant="bodySmall" style={styles.scheduleText}>
+                  {batch.name}: {formatBatchDays(batch.days_of_week)} • {formatSessionTime(batch)}
+                </Text>
+              ))
+            )}
+          </>
+        )}
+      </Card.Content>
+    </Card>
+  )
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: SPACING.lg,
+    elevation: ELEVATION.sm,
+    borderRadius: RADIUS.md,
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    marginBottom: SPACING.lg,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+    marginBottom: SPACING.md,
+  },
+  scheduleText: {
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  emptyText: {
+    color: COLORS.textSecondary,
+  },
+})
@@ -0,0 +1,153 @@
+import type { RefObject } from 'react'
+import { View, StyleSheet } from 'react-native'
+import { Text } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { format } from 'date-fns'
+import { getBeltColor, getBeltGrade, getBeltRank } from '@/lib/belts'
+import { COLORS, SPACING, RADIUS } from '@/lib/design-system'
+import { DOJO_NAME } from '@/lib/receipts'
+import type { BeltHistoryEntry } from '@/lib/gradings'
+
+interface BeltCertificateProps {
+  certificateRef: RefObject<View | null>
+  studentName: string
+  grading: BeltHistoryEntry
+}
+
+/**
+ * Grading certificate, laid out to be captured as an image
+ */
+export function BeltCertificate({ certificateRef, studentName, grading }: BeltCertificateProps) {
+  const beltColor = getBeltColor(grading.to_belt) || COLORS.textSecondary
+  const stripeColor = getBeltRank(grading.to_belt)?.stripe_color
+
+  return (
+    // collapsable={false} keeps the view in the native hierarchy so Android can capture it
+    <View ref={certificateRef} collapsable={false} style={styles.certificate}>
+      <View style={styles.border}>
+        <Text style={styles.dojo}>{DOJO_NAME}</Text>
+        <Text style={styles.heading}>Certificate of Grading</Text>
+        <Text style={styles.body}>This is to certify that</Text>
+        <Text style={styles.studentName}>{studentName}</Text>
+        <Text style={styles.body}>has successfully passed the grading examination for</Text>
+
+        <View style={styles.beltRow}>
+          <View style={[styles.beltSwatch, { backgroundColor: beltColor }]}>
+            {stripeColor ? <View style={[styles.beltStripe, { backgroundColor: stripeColor }]} /> : null}
+          </View>
+          <Text style={styles.belt}>{grading.to_belt} Belt</Text>
+        </View>
+        {getBeltGrade(grading.to_belt) ? <Text style={styles.kyu}>{getBeltGrade(grading.to_belt)}</Text> : null}
+
+        <View style={styles.footer}>
+          <View style={styles.footerItem}>
+            <Text style={styles.footerValue}>{format(new Date(grading.grading_date + 'T00:00:00'), 'dd MMMM yyyy')}</Text>
+            <Text style={styles.footerLabel}>Date of Grading</Text>
+          </View>
+          <MaterialCommunityIcons name="trophy-award" size={36} color={COLORS.brandPurple} />
+          {/* Only examiners recorded on the grading session are printed */}
+          {grading.examiners.length > 0 && (
+            <View style={styles.footerItem}>
+              <Text style={styles.footerValue}>{grading.examiners.join(', ')}</Text>
+              <Text style={styles.footerLabel}>Examiner{grading.examiners.length > 1 ? 's' : ''}</Text>
+            </View>
+          )}
+        </View>
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  certificate: {
+    backgroundColor: '#FFFDF5',
+    padding: SPACING.sm,
+    borderRadius: RADIUS.sm,
+  },
+  border: {
+    borderWidth: 2,
+    borderColor: COLORS.brandPurple,
+    borderRadius: RADIUS.sm,
+    padding: SPACING.lg,
+    alignItems: 'center',
+  },
+  dojo: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: COLORS.brandPurple,
+    textAlign: 'center',
+    marginBottom: SPACING.md,
+  },
+  heading: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+    marginBottom: SPACING.md,
+  },
+  body: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+  },
+  studentName: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+    marginVertical: SPACING.sm,
+    textAlign: 'center',
+  },
+  beltRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginTop: SPACING.md,
+  },
+  beltSwatch: {
+    width: 40,
+    height: 12,
+    borderRadius: 3,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    alignItems: 'flex-end',
+  },
+  beltStripe: {
+    width: 6,
+    height: '100%',
+    marginRight: 6,
+  },
+  belt: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: COLORS.textPrimary,
+  },
+  kyu: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'space-between',
+    alignSelf: 'stretch',
+    marginTop: SPACING.xl,
+  },
+  footerItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  footerValue: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+    textAlign: 'center',
+  },
+  footerLabel: {
+    fontSize: 10,
+    color: COLORS.textSecondary,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+    paddingTop: SPACING.xs,
+    marginTop: SPACING.xs,
+  },
+})
@@ -0,0 +1,246 @@
+import { useState, useEffect, useRef } from 'react'
+import { View, StyleSheet, ScrollView } from 'react-native'
+import { Text, Card, Button, Dialog, Portal, ActivityIndicator } from 'react-native-paper'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
+import { format } from 'date-fns'
+import { getBeltColor, getBeltGrade } from '@/lib/belts'
+import { getStudentBeltHistory, type BeltHistoryEntry } from '@/lib/gradings'
+import { shareGradingCertificate, type CertificateFormat } from '@/lib/certificates'
+import { COLORS, SPACING, RADIUS, ELEVATION } from '@/lib/design-system'
+import { BeltCertificate } from './BeltCertificate'
+
+interface BeltHistorySectionProps {
+  studentId: string
+  studentName: string
+  currentBelt: string
+  joinedAt: string
+  onError: (message: string) => void
+}
+
+/**
+ * Belt progression timeline with a shareable certificate for each grading
+ */
+export function BeltHistorySection({ studentId, studentName, currentBelt, joinedAt, onError }: BeltHistorySectionProps) {
+  const [history, setHistory] = useState<BeltHistoryEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [certificateGrading, setCertificateGrading] = useState<BeltHistoryEntry | null>(null)
+  const [sharing, setSharing] = useState<CertificateFormat | null>(null)
+  const certificateRef = useRef<View>(null)
+
+  useEffect(() => {
+    loadHistory()
+  }, [studentId])
+
+  const loadHistory = async () => {
+    try {
+      setLoading(true)
+      const result = await getStudentBeltHistory(studentId)
+      if (result.error) {
+        onError(result.error.message)
+        return
+      }
+      setHistory(result.history)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleShare = async (certificateFormat: CertificateFormat) => {
+    if (!certificateGrading) return
+
+    try {
+      setSharing(certificateFormat)
+      const result = await shareGradingCertificate(
+        certificateRef,
+        certificateFormat,
+        `${certificateGrading.to_belt} Belt Certificate`
+      )
+      if (result.error) {
+        onError(result.error.message)
+      }
+    } finally {
+      setSharing(null)
+    }
+  }
+
+  // The belt the student started at, then each grading in order
+  const startingBelt = history[0]?.from_belt || currentBelt
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.sectionHeader}>
+          <MaterialCommunityIcons name="karate" size={24} color={COLORS.brandPurple} />
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            Belt Progression
+          </Text>
+        </View>
+
+        {loading ? (
+          <ActivityIndicator size="small" color={COLORS.brandPurple} />
+        ) : (
+          <View>
+            <TimelineItem
+              belt={startingBelt}
+              subtitle={`Joined ${format(new Date(joinedAt), 'dd MMM yyyy')}`}
+              isLast={history.length === 0}
+            />
+            {history.map((grading, index) => (
+              <TimelineItem
+                key={grading.id}
+                belt={grading.to_belt}
+                subtitle={`Graded ${format(new Date(grading.grading_date + 'T00:00:00'), 'dd MMM yyyy')}${
+                  grading.examiners.length > 0 ? ` • ${grading.examiners.join(', ')}` : ''
+                }`}
+                isLast={index === history.length - 1}
+                onCertificate={() => setCertificateGrading(grading)}
+              />
+            ))}
+            {history.length === 0 && (
+              <Text variant="bodySmall" style={styles.emptyText}>
+                Your gradings will appear here once you are promoted.
+              </Text>
+            )}
+          </View>
+        )}
+      </Card.Content>
+
+      <Portal>
+        <Dialog visible={!!certificateGrading} onDismiss={() => setCertificateGrading(null)}>
+          <Dialog.Title>Grading Certificate</Dialog.Title>
+          <Dialog.ScrollArea style={styles.dialogScrollArea}>
+            <ScrollView>
+              {certificateGrading && (
+                <BeltCertificate
+                  certificateRef={certificateRef}
+                  studentName={studentName}
+                  grading={certificateGrading}
+                />
+              )}
+            </ScrollView>
+          </Dialog.ScrollArea>
+          <Dialog.Actions>
+            <Button onPress={() => setCertificateGrading(null)} disabled={!!sharing}>
+              Close
+            </Button>
+            <Button
+              onPress={() => handleShare('pdf')}
+              loading={sharing === 'pdf'}
+              disabled={!!sharing}
+              icon="file-pdf-box"
+            >
+              PDF
+            </Button>
+            <Button
+              onPress={() => handleShare('image')}
+              loading={sharing === 'image'}
+              disabled={!!sharing}
+              mode="contained"
+              buttonColor={COLORS.brandPurple}
+              icon="share-variant"
+            >
+              Image
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </Card>
+  )
+}
+
+function TimelineItem({
+  belt,
+  subtitle,
+  isLast,
+  onCertificate,
+}: {
+  belt: string
+  subtitle: string
+  isLast: boolean
+  onCertificate?: () => void
+}) {
+  return (
+    <View style={styles.timelineItem}>
+      <View style={styles.timelineMarker}>
+        <View style={[styles.beltDot, { backgroundColor: getBeltColor(belt) || COLORS.textTertiary }]} />
+        {!isLast && <View style={styles.timelineLine} />}
+      </View>
+      <View style={styles.timelineContent}>
+        <Text variant="bodyMedium" style={styles.beltName}>
+          {belt} Belt{getBeltGrade(belt) ? ` • ${getBeltGrade(belt)}` : ''}
+        </Text>
+        <Text variant="bodySmall" style={styles.timelineSubtitle}>
+          {subtitle}
+        </Text>
+      </View>
+      {onCertificate && (
+        <Button mode="text" compact onPress={onCertificate} textColor={COLORS.brandPurple} icon="certificate">
+          Certificate
+        </Button>
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: SPACING.lg,
+    elevation: ELEVATION.sm,
+    borderRadius: RADIUS.md,
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    marginBottom: SPACING.lg,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  timelineItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: SPACING.md,
+  },
+  timelineMarker: {
+    alignItems: 'center',
+    width: 20,
+    alignSelf: 'stretch',
+  },
+  beltDot: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+    borderColor: COLORS.border,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    minHeight: 24,
+    backgroundColor: COLORS.border,
+  },
+  timelineContent: {
+    flex: 1,
+    paddingBottom: SPACING.lg,
+  },
+  beltName: {
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  timelineSubtitle: {
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  emptyText: {
+    color: COLORS.textSecondary,
+  },
+  dialogScrollArea: {
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+  },
+})
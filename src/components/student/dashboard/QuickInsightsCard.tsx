@@ -2,7 +2,8 @@ import { View, StyleSheet } from 'react-native'
 import { Text, Card } from 'react-native-paper'
 import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { COLORS, SPACING, RADIUS, ELEVATION } from '@/lib/design-system'
-import { BELT_LEVELS } from '@/lib/belts'
+import { getNextBelt } from '@/lib/belts'
+import { useBeltSyllabus } from '@/hooks/useBeltSyllabus'
 
 interface QuickInsight {
   icon: string
@@ -18,20 +19,13 @@ interface QuickInsightsCardProps {
   feeStatus?: 'paid' | 'pending' | 'overdue'
 }
 
-function getNextBelt(currentBelt: string): string {
-  const currentIndex = BELT_LEVELS.indexOf(currentBelt as any)
-  if (currentIndex === -1 || currentIndex === BELT_LEVELS.length - 1) {
-    return 'Max Level'
-  }
-  return BELT_LEVELS[currentIndex + 1]
-}
-
 export function QuickInsightsCard({
   currentBelt = 'White',
   attendanceStreak = 0,
   feeStatus = 'pending',
 }: QuickInsightsCardProps) {
-  const nextBelt = getNextBelt(currentBelt)
+  useBeltSyllabus()
+  const nextBelt = getNextBelt(currentBelt) || 'Max Level'
   const insights: QuickInsight[] = [
     {
       icon: 'karate',
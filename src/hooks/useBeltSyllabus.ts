@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react'
+import { getBeltRanks, subscribeToBeltRanks, type BeltRank } from '@/lib/belts'
+import { loadBeltSyllabus } from '@/lib/belt-syllabus'
+
+/**
+ * The configured belt syllabus, loading it on first use
+ * Components that call this re-render when the syllabus loads or is edited,
+ * so the belt helpers in @/lib/belts return current values while rendering.
+ */
+export function useBeltSyllabus(): BeltRank[] {
+  const [ranks, setRanks] = useState<BeltRank[]>(getBeltRanks())
+
+  useEffect(() => {
+    const unsubscribe = subscribeToBeltRanks(() => setRanks(getBeltRanks()))
+    loadBeltSyllabus()
+    return unsubscribe
+  }, [])
+
+  return ranks
+}
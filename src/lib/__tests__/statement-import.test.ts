@@ -0,0 +1,200 @@
+import { parseCsv, parseBankStatement, matchStatementRows, type StatementRow } from '../statement-import'
+
+const student = (id: string, code: string, firstName: string, lastName: string, phone: string | null = null) => ({
+  id,
+  student_id: code,
+  first_name: firstName,
+  last_name: lastName,
+  phone,
+  parent_phone: null,
+})
+
+const pendingFee = (
+  id: string,
+  owner: ReturnType<typeof student>,
+  amount: number,
+  dueDate: string,
+  paidAmount: number = 0
+) => ({ id, student_id: owner.id, amount, paid_amount: paidAmount, due_date: dueDate, student: owner })
+
+const statementRow = (remark: string, amount: number, line: number = 2): StatementRow => ({
+  line,
+  date: '2026-03-10',
+  amount,
+  reference: null,
+  remark,
+})
+
+describe('parseCsv', () => {
+  it('splits rows and trims cells', () => {
+    expect(parseCsv('a, b ,c\n1,2,3')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+    ])
+  })
+
+  it('keeps commas, newlines and escaped quotes inside quoted cells', () => {
+    expect(parseCsv('"1,500.00","line one\nline two","say ""hi"""')).toEqual([
+      ['1,500.00', 'line one\nline two', 'say "hi"'],
+    ])
+  })
+
+  it('handles CRLF line endings and a trailing newline', () => {
+    expect(parseCsv('a,b\r\n1,2\r\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ])
+  })
+})
+
+describe('parseBankStatement', () => {
+  it('finds the header below account details and reads credit rows', () => {
+    const csv = [
+      'Account Statement,,,',
+      'Account No,1234567890,,',
+      'Txn Date,Narration,Ref No,Debit,Credit',
+      '10/03/2026,UPI/STU001/Fee,UTR123,,"1,500.00"',
+      '11-Mar-2026,ATM withdrawal,,2000.00,',
+    ].join('\n')
+
+    const result = parseBankStatement(csv)
+
+    expect(result.error).toBeNull()
+    expect(result.rows).toEqual([
+      { line: 4, date: '2026-03-10', amount: 1500, reference: 'UTR123', remark: 'UPI/STU001/Fee' },
+    ])
+    expect(result.skippedLines).toEqual([5])
+  })
+
+  it('uses a Dr/Cr column to skip debits in a combined amount column', () => {
+    const csv = [
+      'Date,Description,Amount,Dr/Cr',
+      '2026-03-10,NEFT from parent STU001,1500.00,CR',
+      '2026-03-11,Rent STU001,1500.00,DR',
+    ].join('\n')
+
+    const result = parseBankStatement(csv)
+
+    expect(result.rows?.map((row) => row.line)).toEqual([2])
+    expect(result.skippedLines).toEqual([3])
+  })
+
+  it('uses a Cr / Dr suffix on the amount to skip debits', () => {
+    const csv = [
+      'Date,Remarks,Transaction Amount',
+      '10/03/2026,UPI STU001,1500.00 Cr',
+      '11/03/2026,UPI STU001,800.00 Dr',
+    ].join('\n')
+
+    const result = parseBankStatement(csv)
+
+    expect(result.rows?.map((row) => row.amount)).toEqual([1500])
+    expect(result.skippedLines).toEqual([3])
+  })
+
+  it('skips negative amounts in a combined amount column', () => {
+    const csv = ['Date,Remarks,Amount,Type', '10/03/2026,Refund STU001,-500.00,', '10/03/2026,UPI STU002,700,Cr'].join('\n')
+
+    const result = parseBankStatement(csv)
+
+    expect(result.rows?.map((row) => row.remark)).toEqual(['UPI STU002'])
+    expect(result.skippedLines).toEqual([2])
+  })
+
+  it('refuses a combined amount column with no Dr/Cr marker', () => {
+    const csv = ['Date,Remarks,Amount', '10/03/2026,UPI STU001,1500.00', '11/03/2026,Rent,900.00'].join('\n')
+
+    const result = parseBankStatement(csv)
+
+    expect(result.rows).toBeNull()
+    expect(result.error?.message).toMatch(/Dr\/Cr/)
+  })
+
+  it('skips debits marked in a credit column', () => {
+    const csv = ['Date,Narration,Credit', '10/03/2026,UPI STU001,1500.00 Cr', '10/03/2026,Reversal,200.00 Dr'].join('\n')
+
+    const result = parseBankStatement(csv)
+
+    expect(result.rows?.map((row) => row.amount)).toEqual([1500])
+    expect(result.skippedLines).toEqual([3])
+  })
+
+  it('returns an error when no header row is found', () => {
+    const result = parseBankStatement('foo,bar\n1,2')
+
+    expect(result.rows).toBeNull()
+    expect(result.error).toBeInstanceOf(Error)
+  })
+})
+
+describe('matchStatementRows', () => {
+  const asha = student('s1', 'STU001', 'Asha', 'Menon', '+91 98765 43210')
+  const ravi = student('s2', 'STU002', 'Ravi', 'Kumar')
+  const rahul = student('s3', 'STU003', 'Rahul', 'Kumar')
+
+  it('matches by student ID with high confidence, preferring a fee with the exact balance', () => {
+    const fees = [pendingFee('f1', asha, 2000, '2026-02-05'), pendingFee('f2', asha, 1500, '2026-03-05')]
+
+    const [match] = matchStatementRows([statementRow('UPI/STU001/march fee', 1500)], fees)
+
+    expect(match).toMatchObject({ studentId: 's1', feeId: 'f2', matchedBy: 'student_id', confidence: 'high' })
+  })
+
+  it('matches real student IDs whatever the bank does to the hyphen', () => {
+    const priya = student('s4', 'KSC24-0007', 'Priya', 'Shetty')
+    const remarks = ['UPI/KSC24-0007/fee', 'KSC24-0007', 'NEFT KSC24 0007 MARCH', 'UPI-KSC240007-PAYTM']
+    const fees = remarks.map((_, index) => pendingFee(`f${index + 1}`, priya, 1500, `2026-0${index + 3}-05`))
+
+    const matches = matchStatementRows(
+      remarks.map((remark, index) => statementRow(remark, 1500, index + 2)),
+      fees
+    )
+
+    matches.forEach((match) => expect(match).toMatchObject({ studentId: 's4', matchedBy: 'student_id', confidence: 'high' }))
+  })
+
+  it('does not match a student ID that is only a prefix of another', () => {
+    const first = student('s5', 'KSC24-0007', 'Anil', 'Rao')
+    const fees = [pendingFee('f1', first, 1500, '2026-03-05')]
+
+    const [match] = matchStatementRows([statementRow('UPI/KSC24-00071/fee', 1500)], fees)
+
+    expect(match.matchedBy).not.toBe('student_id')
+  })
+
+  it('matches by the phone number in the remark', () => {
+    const fees = [pendingFee('f1', asha, 1500, '2026-03-05')]
+
+    const [match] = matchStatementRows([statementRow('UPI from 9876543210', 1500)], fees)
+
+    expect(match).toMatchObject({ studentId: 's1', matchedBy: 'phone', confidence: 'high' })
+  })
+
+  it('matches a full name with medium confidence, allowing one typo', () => {
+    const fees = [pendingFee('f1', ravi, 1500, '2026-03-05'), pendingFee('f2', rahul, 1500, '2026-03-05')]
+
+    const [match] = matchStatementRows([statementRow('NEFT RAVI KUMAAR', 1500)], fees)
+
+    expect(match).toMatchObject({ studentId: 's2', matchedBy: 'name', confidence: 'medium' })
+  })
+
+  it('leaves ambiguous names unmatched', () => {
+    const fees = [pendingFee('f1', ravi, 1500, '2026-03-05'), pendingFee('f2', rahul, 1500, '2026-03-05')]
+
+    const [match] = matchStatementRows([statementRow('Kumar fees', 1500)], fees)
+
+    expect(match).toMatchObject({ studentId: null, feeId: null, matchedBy: null, confidence: null })
+  })
+
+  it('does not propose the same fee twice across rows', () => {
+    const fees = [pendingFee('f1', asha, 1500, '2026-02-05'), pendingFee('f2', asha, 1500, '2026-03-05')]
+
+    const matches = matchStatementRows(
+      [statementRow('STU001 feb', 1500, 2), statementRow('STU001 mar', 1500, 3), statementRow('STU001 apr', 1500, 4)],
+      fees
+    )
+
+    expect(matches.map((match) => match.feeId)).toEqual(['f1', 'f2', null])
+    expect(matches[2].studentId).toBe('s1')
+  })
+})
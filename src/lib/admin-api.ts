@@ -1,55 +1,48 @@
 /**
- * API functions for admin operations that require backend
- * These operations require service role key which should not be in mobile app
+ * Client for the server API (server/index.ts)
+ * Operations that need the service role key run there - the key never ships in the app.
+ * Every request carries the signed-in user's access token; the server derives the
+ * caller's identity and role from it.
  */
 
+import { supabase } from './supabase'
+import type { EndpointName, EndpointInput, EndpointData } from '../../server/endpoints'
+
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'https://your-api-url.com'
 
 /**
- * Create admin user via backend API
+ * Call a server API endpoint
  */
-export async function createAdminUser(
-  email: string,
-  password: string,
-  name: string,
-  branchId: string
-): Promise<{ success: boolean; userId: string | null; error: Error | null }> {
+export async function callAdminApi<K extends EndpointName>(
+  endpoint: K,
+  input: EndpointInput<K>
+): Promise<{ data: EndpointData<K>; error: null } | { data: null; error: Error }> {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/admin/create-user`, {
+    const { data: { session } } = await supabase.auth.getSession()
+
+    const response = await fetch(`${API_BASE_URL}/api/${endpoint}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}),
       },
-      body: JSON.stringify({
-        email,
-        password,
-        name,
-        branchId,
-      }),
+      body: JSON.stringify(input ?? {}),
     })
 
-    const data = await response.json()
+    const body = await response.json().catch(() => null)
 
-    if (!response.ok) {
+    if (!response.ok || !body) {
       return {
-        success: false,
-        userId: null,
-        error: new Error(data.error || 'Failed to create admin user'),
+        data: null,
+        error: new Error(body?.error || `Request failed (${response.status})`),
       }
     }
 
-    return {
-      success: true,
-      userId: data.userId,
-      error: null,
-    }
+    return { data: body.data as EndpointData<K>, error: null }
   } catch (error) {
     return {
-      success: false,
-      userId: null,
-      error: error instanceof Error ? error : new Error('Failed to create admin user'),
+      data: null,
+      error: error instanceof Error ? error : new Error('Failed to reach the server'),
     }
   }
 }
-
-
@@ -1,12 +1,12 @@
-import { supabase, supabaseAdmin } from './supabase'
+import { supabase } from './supabase'
 import { logger } from './logger'
+import { callAdminApi } from './admin-api'
 import * as FileSystem from 'expo-file-system/legacy'
 import { compressImage } from './image-compression'
 import * as ImagePicker from 'expo-image-picker'
-import Constants from 'expo-constants'
 
 export type NotificationType = 'announcement' | 'alert' | 'reminder' | 'achievement' | 'event' | 'payment' | 'class' | 'system'
-export type TargetType = 'all' | 'branch' | 'students'
+export type TargetType = 'all' | 'branch' | 'batch' | 'students'
 
 /**
  * Fix image URL if it has duplicate bucket name in path
@@ -35,6 +35,7 @@ export interface CreateNotificationData {
   imageUri?: string // Local file URI from image picker
   targetType: TargetType
   targetBranchId?: string
+  targetBatchId?: string // Students enrolled in a timetable batch
   targetStudentIds?: string[]
   scheduledAt?: Date
 }
@@ -48,6 +49,7 @@ export interface Notification {
   createdBy: string
   targetType: TargetType
   targetBranchId: string | null
+  targetBatchId: string | null
   targetStudentIds: string[] | null
   scheduledAt: string | null
   sentAt: string | null
@@ -76,98 +78,12 @@ export interface NotificationRecipient {
   } | null
 }
 
-/**
- * Calculate recipients based on target type
- */
-async function calculateRecipients(
-  targetType: TargetType,
-  targetBranchId?: string,
-  targetStudentIds?: string[]
-): Promise<{ userIds: string[]; studentCount: number }> {
-  try {
-    let userIds: string[] = []
-
-    if (targetType === 'all') {
-      // Get all active students
-      const { data: students, error } = await supabaseAdmin
-        .from('students')
-        .select('user_id')
-        .eq('is_active', true)
-        .not('user_id', 'is', null)
-
-      if (error) {
-        logger.error('Error fetching all students', error as Error)
-        return { userIds: [], studentCount: 0 }
-      }
-
-      userIds = (students || []).map((s) => s.user_id).filter((id): id is string => !!id)
-    } else if (targetType === 'branch' && targetBranchId) {
-      // Get students from specific branch
-      const { data: students, error } = await supabaseAdmin
-        .from('students')
-        .select('user_id')
-        .eq('branch_id', targetBranchId)
-        .eq('is_active', true)
-        .not('user_id', 'is', null)
-
-      if (error) {
-        logger.error('Error fetching branch students', error as Error)
-        return { userIds: [], studentCount: 0 }
-      }
-
-      userIds = (students || []).map((s) => s.user_id).filter((id): id is string => !!id)
-    } else if (targetType === 'students' && targetStudentIds && targetStudentIds.length > 0) {
-      // Get specific students
-      const { data: students, error } = await supabaseAdmin
-        .from('students')
-        .select('user_id')
-        .in('id', targetStudentIds)
-        .eq('is_active', true)
-        .not('user_id', 'is', null)
-
-      if (error) {
-        logger.error('Error fetching specific students', error as Error)
-        return { userIds: [], studentCount: 0 }
-      }
-
-      userIds = (students || []).map((s) => s.user_id).filter((id): id is string => !!id)
-    }
-
-    logger.info('Recipients calculated', { targetType, count: userIds.length, studentCount: userIds.length })
-    return { userIds, studentCount: userIds.length }
-  } catch (error) {
-    logger.error('Unexpected error calculating recipients', error as Error)
-    return { userIds: [], studentCount: 0 }
-  }
-}
-
 /**
  * Upload notification image to Supabase Storage
- * Uses the same pattern as mess-management-mobile app
+ * The image is compressed on the device and uploaded through the server API
  */
-export async function uploadNotificationImage(imageUri: string, notificationId: string): Promise<{ url: string | null; error: Error | null }> {
+export async function uploadNotificationImage(imageUri: string): Promise<{ url: string | null; error: Error | null }> {
   try {
-    if (!supabaseAdmin) {
-      return { url: null, error: new Error('Service role key not configured') }
-    }
-
-    // Check if storage bucket exists
-    const { data: buckets, error: bucketError } = await supabaseAdmin.storage.listBuckets()
-    if (bucketError) {
-      logger.error('Error checking storage buckets', bucketError as Error)
-      return { url: null, error: new Error('Failed to access storage') }
-    }
-
-    const bucketExists = buckets?.some((b) => b.id === 'notification-images')
-    if (!bucketExists) {
-      return { 
-        url: null, 
-        error: new Error(
-          'Storage bucket "notification-images" not found. Please create it in Supabase Dashboard → Storage.'
-        ) 
-      }
-    }
-
     // Compress image before upload
     logger.info('Compressing notification image before upload...')
     const { uri: compressedUri, size: compressedSize, originalSize } = await compressImage(imageUri, 'notification')
@@ -177,64 +93,38 @@ export async function uploadNotificationImage(imageUri: string, notificationId:
       reduction: `${((1 - compressedSize / originalSize) * 100).toFixed(1)}%`,
     })
 
-    // Read compressed file as ArrayBuffer
     const base64 = await FileSystem.readAsStringAsync(compressedUri, {
       encoding: FileSystem.EncodingType.Base64,
     })
 
-    // Convert base64 to ArrayBuffer
-    const binaryString = atob(base64)
-    const bytes = new Uint8Array(binaryString.length)
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i)
-    }
-
     // Generate unique filename - put all images in one folder (not per notification)
     // Format: notifications/{timestamp}_{random}.jpg
+    // File path should NOT include bucket name - just the path within the bucket
     const timestamp = Date.now()
     const random = Math.random().toString(36).substring(2, 9)
-    const filename = `notifications/${timestamp}_${random}.jpg`
-    // File path should NOT include bucket name - just the path within the bucket
-    const filePath = filename
+    const filePath = `notifications/${timestamp}_${random}.jpg`
 
-    // Upload to Supabase Storage using ArrayBuffer
-    const { data: uploadData, error } = await supabaseAdmin.storage.from('notification-images').upload(filePath, bytes.buffer, {
+    const { data, error } = await callAdminApi('storage.upload', {
+      bucket: 'notification-images',
+      path: filePath,
+      base64,
       contentType: 'image/jpeg',
-      upsert: false,
     })
 
     if (error) {
-      logger.error('Error uploading image to storage', error as Error)
-      return { url: null, error: new Error(error.message) }
-    }
-
-    // Use the path returned by Supabase (it's already relative to the bucket)
-    // Supabase returns the full path including any folders, so we use it directly
-    const uploadedPath = uploadData?.path || filePath
-    
-    logger.info('Image upload path', { 
-      notificationId, 
-      filePath, 
-      uploadedPath: uploadData?.path,
-      fullPath: uploadData?.fullPath 
-    })
-
-    // Get public URL using the path returned from upload
-    const { data: urlData } = supabaseAdmin.storage.from('notification-images').getPublicUrl(uploadedPath)
-
-    if (!urlData?.publicUrl) {
-      logger.error('Failed to get public URL', new Error('URL data is null'), { uploadedPath })
-      return { url: null, error: new Error('Failed to get public URL') }
+      logger.error('Error uploading image to storage', error)
+      return { url: null, error }
     }
 
-    logger.info('Notification image uploaded', { notificationId, url: urlData.publicUrl, path: uploadedPath })
-    return { url: urlData.publicUrl, error: null }
+    logger.info('Notification image uploaded', { url: data.url, path: data.path })
+    return { url: data.url, error: null }
   } catch (error) {
     logger.error('Unexpected error uploading image', error as Error)
     return { url: null, error: error instanceof Error ? error : new Error('Failed to upload image') }
   }
 }
 
+
 /**
  * Request image picker permissions
  */
@@ -323,379 +213,46 @@ export async function takePhotoWithCamera(): Promise<{ uri: string | null; error
   }
 }
 
-/**
- * Validate Expo push token format
- */
-function isValidExpoPushToken(token: string): boolean {
-  return token.startsWith('ExponentPushToken[') || token.startsWith('ExpoPushToken[')
-}
-
-/**
- * Validate notification data (Expo limits: title 48 chars, body 2000 chars)
- */
-function validateNotificationData(title: string, body: string): { valid: boolean; error?: string } {
-  if (!title || title.trim().length === 0) {
-    return { valid: false, error: 'Title cannot be empty' }
-  }
-  if (title.length > 48) {
-    return { valid: false, error: `Title exceeds 48 character limit (${title.length} chars)` }
-  }
-  if (!body || body.trim().length === 0) {
-    return { valid: false, error: 'Body cannot be empty' }
-  }
-  if (body.length > 2000) {
-    return { valid: false, error: `Body exceeds 2000 character limit (${body.length} chars)` }
-  }
-  return { valid: true }
-}
-
-/**
- * Send Expo push notification with retry logic
- * Returns array of successful token indices and list of invalid tokens to remove
- */
-export async function sendExpoPushNotification(
-  tokens: string[],
-  title: string,
-  body: string,
-  data?: Record<string, unknown>,
-  retries: number = 2
-): Promise<{ sent: number; failed: number; successfulIndices: number[]; invalidTokens: string[] }> {
-  try {
-    if (tokens.length === 0) {
-      return { sent: 0, failed: 0, successfulIndices: [], invalidTokens: [] }
-    }
-
-    // Validate notification data
-    const validation = validateNotificationData(title, body)
-    if (!validation.valid) {
-      logger.error('Invalid notification data', new Error(validation.error || 'Validation failed'))
-      return { sent: 0, failed: tokens.length, successfulIndices: [], invalidTokens: [] }
-    }
-
-    // Filter and validate tokens
-    const validTokens: string[] = []
-    const invalidTokens: string[] = []
-    const tokenIndexMap = new Map<string, number>() // Map valid token to original index
-
-    tokens.forEach((token, index) => {
-      if (token && isValidExpoPushToken(token)) {
-        validTokens.push(token)
-        tokenIndexMap.set(token, index)
-      } else {
-        invalidTokens.push(token)
-        logger.warn('Invalid push token format', { token: token?.substring(0, 30) + '...', index })
-      }
-    })
-
-    if (validTokens.length === 0) {
-      logger.warn('No valid push tokens to send', { total: tokens.length, invalid: invalidTokens.length })
-      return { sent: 0, failed: tokens.length, successfulIndices: [], invalidTokens }
-    }
-
-    const messages = validTokens.map((token) => ({
-      to: token,
-      sound: 'default',
-      title: title.substring(0, 48), // Ensure within limit
-      body: body.substring(0, 2000), // Ensure within limit
-      data: data || {},
-    }))
-
-    // Retry logic for transient failures
-    let lastError: Error | null = null
-    let response: Response | null = null
-    let result: any = null
-
-    for (let attempt = 0; attempt <= retries; attempt++) {
-      try {
-        if (attempt > 0) {
-          // Exponential backoff: 1s, 2s, 4s
-          const delay = Math.pow(2, attempt - 1) * 1000
-          await new Promise((resolve) => setTimeout(resolve, delay))
-          logger.info(`Retrying push notification send (attempt ${attempt + 1}/${retries + 1})`)
-        }
-
-        response = await fetch('https://exp.host/--/api/v2/push/send', {
-          method: 'POST',
-          headers: {
-            Accept: 'application/json',
-            'Accept-Encoding': 'gzip, deflate',
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(messages),
-        })
-
-        if (!response.ok) {
-          // Don't retry on client errors (4xx), only server errors (5xx) and network errors
-          if (response.status >= 400 && response.status < 500) {
-            logger.error('Expo push API client error (no retry)', new Error(`HTTP ${response.status}: ${response.statusText}`))
-            return { sent: 0, failed: validTokens.length, successfulIndices: [], invalidTokens }
-          }
-          lastError = new Error(`HTTP ${response.status}: ${response.statusText}`)
-          if (attempt < retries) continue // Retry on server errors
-          logger.error('Expo push API error', lastError)
-          return { sent: 0, failed: validTokens.length, successfulIndices: [], invalidTokens }
-        }
-
-        result = await response.json()
-        break // Success, exit retry loop
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error))
-        if (attempt < retries) {
-          logger.warn(`Push notification send failed, will retry`, { attempt: attempt + 1, error: lastError.message })
-          continue
-        }
-        logger.error('Error sending push notifications', lastError)
-        return { sent: 0, failed: validTokens.length, successfulIndices: [], invalidTokens }
-      }
-    }
-
-    if (!result) {
-      logger.error('No result from Expo push API after retries', lastError || new Error('Unknown error'))
-      return { sent: 0, failed: validTokens.length, successfulIndices: [], invalidTokens }
-    }
-    
-    // Handle different response formats
-    let receipts: any[] = []
-    if (Array.isArray(result.data)) {
-      receipts = result.data
-    } else if (result.data) {
-      receipts = [result.data]
-    } else if (Array.isArray(result)) {
-      receipts = result
-    } else {
-      logger.warn('Unexpected Expo push response format', { result })
-      return { sent: 0, failed: validTokens.length, successfulIndices: [], invalidTokens }
-    }
-
-    const successfulIndices: number[] = []
-    const failedTokens: string[] = []
-    let sent = 0
-    let failed = 0
-
-    receipts.forEach((receipt: any, index: number) => {
-      const token = validTokens[index]
-      const originalIndex = tokenIndexMap.get(token) ?? index
-
-      // Receipt can have status: 'ok' or error details
-      if (receipt.status === 'ok' || (receipt.status && String(receipt.status).toLowerCase().includes('ok'))) {
-        sent++
-        successfulIndices.push(originalIndex)
-      } else {
-        failed++
-        const errorMessage = receipt.message || receipt.error || receipt.status || 'Unknown error'
-        const errorCode = receipt.details?.error || receipt.errorCode
-
-        // Check for invalid token errors (DeviceNotRegistered, InvalidCredentials, etc.)
-        const isInvalidToken = 
-          errorCode === 'DeviceNotRegistered' ||
-          errorCode === 'InvalidCredentials' ||
-          errorCode === 'InvalidToken' ||
-          (typeof errorMessage === 'string' && (
-            errorMessage.includes('DeviceNotRegistered') ||
-            errorMessage.includes('InvalidCredentials') ||
-            errorMessage.includes('InvalidToken')
-          ))
-
-        if (isInvalidToken) {
-          failedTokens.push(token)
-          logger.warn('Invalid push token detected, should be removed', { 
-            index: originalIndex, 
-            token: token.substring(0, 30) + '...', 
-            error: errorMessage,
-            errorCode
-          })
-        } else {
-          logger.warn('Push notification failed', { 
-            index: originalIndex, 
-            token: token.substring(0, 30) + '...', 
-            error: errorMessage,
-            errorCode
-          })
-        }
-      }
-    })
-
-    logger.info('Push notifications sent', { total: validTokens.length, sent, failed, invalidTokens: invalidTokens.length, failedTokens: failedTokens.length })
-    return { sent, failed, successfulIndices, invalidTokens: [...invalidTokens, ...failedTokens] }
-  } catch (error) {
-    logger.error('Error sending push notifications', error as Error)
-    return { sent: 0, failed: tokens.length, successfulIndices: [], invalidTokens: [] }
-  }
-}
-
 /**
  * Create a new notification
+ * Recipients, push delivery and token cleanup are handled by the server API
  */
 export async function createNotification(
-  data: CreateNotificationData,
-  createdBy: string
+  data: CreateNotificationData
 ): Promise<{ notification: Notification | null; error: Error | null }> {
   try {
-    if (!supabaseAdmin) {
-      return { notification: null, error: new Error('Service role key not configured') }
-    }
-
-    // Calculate recipients
-    const { userIds, studentCount } = await calculateRecipients(data.targetType, data.targetBranchId, data.targetStudentIds)
-
-    if (studentCount === 0) {
-      return { notification: null, error: new Error('No recipients found for the selected target') }
-    }
-
-    // Prepare notification data
-    const notificationData: any = {
-      title: data.title.trim(),
-      message: data.message.trim(),
-      type: data.type,
-      created_by: createdBy,
-      target_type: data.targetType,
-      target_branch_id: data.targetBranchId || null,
-      target_student_ids: data.targetStudentIds && data.targetStudentIds.length > 0 ? data.targetStudentIds : null,
-      scheduled_at: data.scheduledAt ? data.scheduledAt.toISOString() : null,
-      total_sent: studentCount,
-      read_count: 0,
-    }
-
-    // Create notification
-    const { data: notification, error: createError } = await supabaseAdmin
-      .from('notifications')
-      .insert(notificationData)
-      .select()
-      .single()
-
-    if (createError || !notification) {
-      logger.error('Error creating notification', createError as Error)
-      
-      // Check if it's a schema error (migration not run)
-      if (createError?.code === 'PGRST204' || createError?.message?.includes('schema cache') || createError?.message?.includes('column')) {
-        return {
-          notification: null,
-          error: new Error(
-            'Database migration not run. Please run the migration file: prisma/migrations/006_create_notifications_system.sql in Supabase SQL Editor.'
-          ),
-        }
-      }
-      
-      return { notification: null, error: new Error(createError?.message || 'Failed to create notification') }
-    }
+    const { imageUri, scheduledAt, ...notificationData } = data
 
     // Upload image if provided
-    let imageUrl: string | null = null
-    if (data.imageUri) {
-      const uploadResult = await uploadNotificationImage(data.imageUri, notification.id)
+    let imageUrl: string | undefined
+    if (imageUri) {
+      const uploadResult = await uploadNotificationImage(imageUri)
       if (uploadResult.url) {
         imageUrl = uploadResult.url
-        // Update notification with image URL
-        await supabaseAdmin
-          .from('notifications')
-          .update({ image_url: imageUrl })
-          .eq('id', notification.id)
       } else {
-        logger.warn('Notification created but image upload failed', uploadResult.error)
+        logger.warn('Image upload failed, sending notification without image', uploadResult.error)
       }
     }
 
-    // Create recipient records
-    const recipientRecords = userIds.map((userId) => ({
-      notification_id: notification.id,
-      user_id: userId,
-      read: false,
-      push_sent: false,
-    }))
-
-    const { error: recipientError } = await supabaseAdmin.from('notification_recipients').insert(recipientRecords)
-
-    if (recipientError) {
-      logger.error('Error creating notification recipients', recipientError as Error)
-      // Don't fail - notification is created
-    }
-
-    // Send push notifications
-    const { data: pushTokens } = await supabaseAdmin
-      .from('user_push_tokens')
-      .select('user_id, token')
-      .in('user_id', userIds)
-
-    if (pushTokens && pushTokens.length > 0) {
-      // Create map of token to user_id for tracking
-      const tokenToUserIdMap = new Map<string, string>()
-      const tokens: string[] = []
-      
-      pushTokens.forEach((pt: any) => {
-        if (pt.token && pt.user_id) {
-          tokens.push(pt.token)
-          tokenToUserIdMap.set(pt.token, pt.user_id)
-        }
-      })
-
-      if (tokens.length > 0) {
-        const pushResult = await sendExpoPushNotification(tokens, data.title, data.message, {
-          notificationId: notification.id,
-          type: data.type,
-        })
-
-        // Clean up invalid tokens from database
-        if (pushResult.invalidTokens.length > 0) {
-          try {
-            await supabaseAdmin
-              .from('user_push_tokens')
-              .delete()
-              .in('token', pushResult.invalidTokens)
-            logger.info('Removed invalid push tokens', { count: pushResult.invalidTokens.length })
-          } catch (cleanupError) {
-            logger.error('Error cleaning up invalid tokens', cleanupError as Error)
-          }
-        }
-
-        // Clean up invalid tokens from database
-        if (pushResult.invalidTokens.length > 0) {
-          try {
-            await supabaseAdmin
-              .from('user_push_tokens')
-              .delete()
-              .in('token', pushResult.invalidTokens)
-            logger.info('Removed invalid push tokens', { count: pushResult.invalidTokens.length })
-          } catch (cleanupError) {
-            logger.error('Error cleaning up invalid tokens', cleanupError as Error)
-          }
-        }
-
-        // Update push_sent status ONLY for users whose tokens succeeded
-        if (pushResult.successfulIndices.length > 0) {
-          const successfulUserIds: string[] = []
-          pushResult.successfulIndices.forEach((index) => {
-            const token = tokens[index]
-            const userId = tokenToUserIdMap.get(token)
-            if (userId) {
-              successfulUserIds.push(userId)
-            }
-          })
+    const { data: result, error } = await callAdminApi('notifications.create', {
+      ...notificationData,
+      imageUrl,
+      scheduledAt: scheduledAt ? scheduledAt.toISOString() : undefined,
+    })
 
-          if (successfulUserIds.length > 0) {
-            await supabaseAdmin
-              .from('notification_recipients')
-              .update({ push_sent: true, push_sent_at: new Date().toISOString() })
-              .eq('notification_id', notification.id)
-              .in('user_id', successfulUserIds)
-          }
-        }
-      }
+    if (error) {
+      logger.error('Error creating notification', error)
+      return { notification: null, error }
     }
 
-    // Update sent_at
-    await supabaseAdmin
-      .from('notifications')
-      .update({ sent_at: new Date().toISOString() })
-      .eq('id', notification.id)
-
-    logger.info('Notification created successfully', { notificationId: notification.id, recipients: studentCount })
-    return { notification: notification as Notification, error: null }
+    return { notification: result.notification, error: null }
   } catch (error) {
     logger.error('Unexpected error creating notification', error as Error)
     return { notification: null, error: error instanceof Error ? error : new Error('Failed to create notification') }
   }
 }
 
+
 /**
  * Get all notifications (for admin)
  */
@@ -742,6 +299,7 @@ export async function getNotifications(options?: {
         createdBy: n.created_by || n.createdBy,
         targetType: n.target_type || n.targetType,
         targetBranchId: n.target_branch_id || n.targetBranchId,
+        targetBatchId: n.target_batch_id || n.targetBatchId || null,
         targetStudentIds: n.target_student_ids || n.targetStudentIds,
         scheduledAt: n.scheduled_at || n.scheduledAt,
         sentAt: n.sent_at || n.sentAt,
@@ -755,7 +313,7 @@ export async function getNotifications(options?: {
       if (fixedUrl && fixedUrl !== (n.image_url || n.imageUrl)) {
         // Update in database if URL was fixed (async, don't wait)
         Promise.resolve(
-          supabaseAdmin
+          supabase
             .from('notifications')
             .update({ image_url: fixedUrl })
             .eq('id', notification.id)
@@ -802,6 +360,7 @@ export async function getNotificationById(notificationId: string): Promise<{ not
       createdBy: n.created_by || n.createdBy,
       targetType: n.target_type || n.targetType,
       targetBranchId: n.target_branch_id || n.targetBranchId,
+      targetBatchId: n.target_batch_id || n.targetBatchId || null,
       targetStudentIds: n.target_student_ids || n.targetStudentIds,
       scheduledAt: n.scheduled_at || n.scheduledAt,
       sentAt: n.sent_at || n.sentAt,
@@ -817,7 +376,7 @@ export async function getNotificationById(notificationId: string): Promise<{ not
     // Update in database if URL was fixed (async, don't wait)
     if (fixedUrl !== originalUrl && fixedUrl) {
       Promise.resolve(
-        supabaseAdmin
+        supabase
           .from('notifications')
           .update({ image_url: fixedUrl })
           .eq('id', notificationId)
@@ -841,48 +400,9 @@ export async function getNotificationById(notificationId: string): Promise<{ not
  * Get notification recipients
  */
 export async function getNotificationRecipients(notificationId: string): Promise<{ recipients: NotificationRecipient[]; error: null } | { recipients: null; error: Error }> {
-  try {
-    // First get recipients with user info
-    const { data: recipientsData, error: recipientsError } = await supabaseAdmin
-      .from('notification_recipients')
-      .select(
-        `
-        *,
-        user:profiles!notification_recipients_user_id_fkey(email, role)
-      `
-      )
-      .eq('notification_id', notificationId)
-      .order('created_at', { ascending: false })
-
-    if (recipientsError) {
-      logger.error('Error fetching notification recipients', recipientsError as Error)
-      return { recipients: null, error: new Error(recipientsError.message) }
-    }
-
-    // Then fetch student info for each recipient
-    const recipientsWithStudents = await Promise.all(
-      (recipientsData || []).map(async (recipient) => {
-        if (recipient.user_id) {
-          const { data: studentData } = await supabaseAdmin
-            .from('students')
-            .select('first_name, last_name, student_id')
-            .eq('user_id', recipient.user_id)
-            .maybeSingle()
-
-          return {
-            ...recipient,
-            student: studentData || null,
-          }
-        }
-        return { ...recipient, student: null }
-      })
-    )
-
-    return { recipients: recipientsWithStudents as NotificationRecipient[], error: null }
-  } catch (error) {
-    logger.error('Unexpected error fetching recipients', error as Error)
-    return { recipients: null, error: error instanceof Error ? error : new Error('Failed to fetch recipients') }
-  }
+  const { data, error } = await callAdminApi('notifications.getRecipients', { notificationId })
+  if (error) return { recipients: null, error }
+  return { recipients: data.recipients, error: null }
 }
 
 /**
@@ -890,49 +410,7 @@ export async function getNotificationRecipients(notificationId: string): Promise
  * Also attempts to delete associated image from storage (non-blocking)
  */
 export async function deleteNotification(notificationId: string): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { success: false, error: new Error('Service role key not configured') }
-    }
-
-    // Get notification to find image URL before deletion
-    const { data: notification } = await supabaseAdmin
-      .from('notifications')
-      .select('image_url')
-      .eq('id', notificationId)
-      .single()
-
-    // Delete notification (this will cascade delete recipients)
-    const { error } = await supabaseAdmin.from('notifications').delete().eq('id', notificationId)
-
-    if (error) {
-      logger.error('Error deleting notification', error as Error)
-      return { success: false, error: new Error(error.message) }
-    }
-
-    // Attempt to delete image from storage (non-blocking - don't fail if this fails)
-    if (notification?.image_url) {
-      try {
-        // Extract file path from URL
-        // URL format: https://project.supabase.co/storage/v1/object/public/notification-images/path/to/file.jpg
-        const url = notification.image_url
-        const match = url.match(/\/notification-images\/(.+)$/)
-        if (match && match[1]) {
-          const filePath = match[1]
-          await supabaseAdmin.storage.from('notification-images').remove([filePath])
-          logger.info('Deleted notification image from storage', { notificationId, filePath })
-        }
-      } catch (storageError) {
-        // Log but don't fail - image deletion is optional
-        logger.warn('Failed to delete notification image from storage', { notificationId, error: storageError })
-      }
-    }
-
-    logger.info('Notification deleted', { notificationId })
-    return { success: true, error: null }
-  } catch (error) {
-    logger.error('Unexpected error deleting notification', error as Error)
-    return { success: false, error: error instanceof Error ? error : new Error('Failed to delete notification') }
-  }
+  const { error } = await callAdminApi('notifications.delete', { notificationId })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
 }
-
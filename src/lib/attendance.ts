@@ -1,12 +1,49 @@
-import { supabase, supabaseAdmin } from './supabase'
 import { logger } from './logger'
+import { callAdminApi } from './admin-api'
 
 export type AttendanceStatus = 'present' | 'absent' | 'leave'
 
+/**
+ * One class at a branch on one day (a batch, or an extra session like sparring)
+ */
+export interface ClassSession {
+  id: string
+  branch_id: string
+  batch_name: string
+  batch_id: string | null // Timetable batch the session was started from, if any
+  session_date: string // YYYY-MM-DD
+  start_time: string | null // HH:MM:SS; null only for sessions from before sessions existed
+  end_time: string | null
+  instructor_id: string | null
+  notes: string | null
+  created_by_id: string | null
+  created_at: string
+  updated_at: string
+  branch?: {
+    name: string
+  } | null
+  instructor?: {
+    name: string
+  } | null
+  attendance_count?: number // Students marked for the session
+}
+
+export interface CreateClassSessionData {
+  branchId: string
+  batchName: string
+  sessionDate: string // YYYY-MM-DD format
+  startTime: string // HH:MM
+  endTime: string // HH:MM
+  instructorId?: string | null
+  notes?: string | null
+  batchId?: string | null // Start the session from a timetable batch
+}
+
 export interface AttendanceRecord {
   id: string
   student_id: string
-  class_date: string
+  session_id: string
+  class_date: string // The session's date
   status: AttendanceStatus
   marked_by: string
   notes: string | null
@@ -21,11 +58,16 @@ export interface AttendanceRecord {
   marked_by_profile?: {
     email: string
   } | null
+  session?: {
+    batch_name: string
+    start_time: string | null
+    end_time: string | null
+  } | null
 }
 
 export interface CreateAttendanceRecordData {
   studentId: string
-  classDate: string // YYYY-MM-DD format
+  sessionId: string
   status: AttendanceStatus
   notes?: string
 }
@@ -40,214 +82,85 @@ export interface AttendanceStats {
 }
 
 /**
- * Validate date for attendance
+ * Format a session's times for display, e.g. "6:00 AM - 7:30 AM"
  */
-function validateAttendanceDate(classDate: string): { valid: boolean; error?: string } {
-  const dateRegex = /^\d{4}-\d{2}-\d{2}$/
-  if (!dateRegex.test(classDate)) {
-    return { valid: false, error: 'Invalid date format. Use YYYY-MM-DD' }
+export function formatSessionTime(session: Pick<ClassSession, 'start_time' | 'end_time'>): string {
+  const formatTime = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number)
+    const suffix = hours >= 12 ? 'PM' : 'AM'
+    return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${suffix}`
   }
 
-  const date = new Date(classDate)
-  const today = new Date()
-  today.setHours(0, 0, 0, 0)
-  
-  // Check if date is valid
-  if (isNaN(date.getTime())) {
-    return { valid: false, error: 'Invalid date' }
-  }
-
-  // Allow dates up to 7 days in the future (for advance marking)
-  const maxFutureDate = new Date(today)
-  maxFutureDate.setDate(maxFutureDate.getDate() + 7)
-  
-  // Don't allow dates more than 1 year in the past
-  const minPastDate = new Date(today)
-  minPastDate.setFullYear(minPastDate.getFullYear() - 1)
-
-  if (date > maxFutureDate) {
-    return { valid: false, error: 'Cannot mark attendance more than 7 days in the future' }
-  }
+  if (!session.start_time) return 'Time not set'
+  return session.end_time
+    ? `${formatTime(session.start_time)} - ${formatTime(session.end_time)}`
+    : formatTime(session.start_time)
+}
 
-  if (date < minPastDate) {
-    return { valid: false, error: 'Cannot mark attendance for dates more than 1 year ago' }
-  }
+// Prefix on students' check-in QR codes, so other QR codes (e.g. UPI) aren't mistaken for them
+const CHECK_IN_QR_PREFIX = 'karate-dojo:check-in:'
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 
-  return { valid: true }
+/**
+ * Value encoded in a student's personal check-in QR code
+ */
+export function getCheckInQrValue(studentId: string): string {
+  return `${CHECK_IN_QR_PREFIX}${studentId}`
 }
 
 /**
- * Validate student for attendance marking
+ * Student ID from a scanned check-in QR code, or null if it isn't one
  */
-async function validateStudentForAttendance(
-  studentId: string,
-  markedByBranchId?: string | null
-): Promise<{ valid: boolean; error?: string }> {
-  if (!supabaseAdmin) {
-    return { valid: false, error: 'Service role key not configured' }
-  }
-
-  const { data: student, error } = await supabaseAdmin
-    .from('students')
-    .select('id, is_active, branch_id')
-    .eq('id', studentId)
-    .single()
-
-  if (error || !student) {
-    return { valid: false, error: 'Student not found' }
-  }
-
-  if (!student.is_active) {
-    return { valid: false, error: 'Cannot mark attendance for inactive student' }
-  }
-
-  // If branch admin, check if student belongs to their branch
-  if (markedByBranchId && student.branch_id !== markedByBranchId) {
-    return { valid: false, error: 'Student does not belong to your branch' }
-  }
-
-  return { valid: true }
+export function parseCheckInQrValue(value: string): string | null {
+  if (!value.startsWith(CHECK_IN_QR_PREFIX)) return null
+  const studentId = value.slice(CHECK_IN_QR_PREFIX.length)
+  return UUID_REGEX.test(studentId) ? studentId : null
 }
 
 /**
- * Validate admin for attendance marking
+ * Get the class sessions on a date, earliest first (for admin)
  */
-async function validateAdminForAttendance(markedBy: string): Promise<{ valid: boolean; error?: string; branchId?: string | null }> {
-  if (!supabaseAdmin) {
-    return { valid: false, error: 'Service role key not configured' }
-  }
-
-  const { data: profile, error } = await supabaseAdmin
-    .from('profiles')
-    .select('user_id, role, branch_id')
-    .eq('user_id', markedBy)
-    .single()
-
-  if (error || !profile) {
-    return { valid: false, error: 'Admin profile not found' }
-  }
+export async function getClassSessions(
+  sessionDate: string,
+  branchId?: string
+): Promise<{ sessions: ClassSession[]; error: null } | { sessions: null; error: Error }> {
+  const { data, error } = await callAdminApi('attendance.getSessions', { sessionDate, branchId })
+  if (error) return { sessions: null, error }
+  return { sessions: data.sessions, error: null }
+}
 
-  if (profile.role !== 'super_admin' && profile.role !== 'admin') {
-    return { valid: false, error: 'Only admins can mark attendance' }
-  }
+/**
+ * Create a class session (branch admins for their own branch)
+ */
+export async function createClassSession(
+  session: CreateClassSessionData
+): Promise<{ session: ClassSession | null; error: null } | { session: null; error: Error }> {
+  const { data, error } = await callAdminApi('attendance.createSession', session)
+  if (error) return { session: null, error }
+  return { session: data.session, error: null }
+}
 
-  return { valid: true, branchId: profile.branch_id }
+/**
+ * Delete a class session that has no attendance marked
+ */
+export async function deleteClassSession(
+  sessionId: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  const { error } = await callAdminApi('attendance.deleteSession', { sessionId })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
 }
 
 /**
  * Mark attendance for a student
+ * The marking admin is taken from the signed-in session
  */
 export async function markAttendance(
-  data: CreateAttendanceRecordData,
-  markedBy: string
+  data: CreateAttendanceRecordData
 ): Promise<{ record: AttendanceRecord | null; error: null } | { record: null; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { record: null, error: new Error('Service role key not configured') }
-    }
-
-    // Validate date
-    const dateValidation = validateAttendanceDate(data.classDate)
-    if (!dateValidation.valid) {
-      return { record: null, error: new Error(dateValidation.error || 'Invalid date') }
-    }
-
-    // Validate admin
-    const adminValidation = await validateAdminForAttendance(markedBy)
-    if (!adminValidation.valid) {
-      return { record: null, error: new Error(adminValidation.error || 'Invalid admin') }
-    }
-
-    // Validate student
-    const studentValidation = await validateStudentForAttendance(data.studentId, adminValidation.branchId)
-    if (!studentValidation.valid) {
-      return { record: null, error: new Error(studentValidation.error || 'Invalid student') }
-    }
-
-    // Check if record already exists
-    const { data: existing } = await supabaseAdmin
-      .from('attendance_records')
-      .select('id')
-      .eq('student_id', data.studentId)
-      .eq('class_date', data.classDate)
-      .single()
-
-    let record: AttendanceRecord | null = null
-
-    if (existing) {
-      // Update existing record
-      const { data: updated, error: updateError } = await supabaseAdmin
-        .from('attendance_records')
-        .update({
-          status: data.status,
-          notes: data.notes || null,
-          marked_by: markedBy,
-          // updated_at will be set by trigger
-        })
-        .eq('id', existing.id)
-        .select(`
-          *,
-          student:students!attendance_records_student_id_fkey(
-            first_name,
-            last_name,
-            student_id,
-            student_photo_url
-          ),
-          marked_by_profile:profiles!attendance_records_marked_by_fkey(email)
-        `)
-        .single()
-
-      if (updateError) {
-        logger.error('Error updating attendance record', updateError as Error)
-        return { record: null, error: new Error(updateError.message) }
-      }
-
-      record = updated as AttendanceRecord
-    } else {
-      // Create new record
-      const { data: created, error: createError } = await supabaseAdmin
-        .from('attendance_records')
-        .insert({
-          student_id: data.studentId,
-          class_date: data.classDate,
-          status: data.status,
-          notes: data.notes || null,
-          marked_by: markedBy,
-        })
-        .select(`
-          *,
-          student:students!attendance_records_student_id_fkey(
-            first_name,
-            last_name,
-            student_id,
-            student_photo_url
-          ),
-          marked_by_profile:profiles!attendance_records_marked_by_fkey(email)
-        `)
-        .single()
-
-      if (createError) {
-        logger.error('Error creating attendance record', createError as Error)
-        return { record: null, error: new Error(createError.message) }
-      }
-
-      record = created as AttendanceRecord
-    }
-
-    logger.info('Attendance marked successfully', {
-      studentId: data.studentId,
-      classDate: data.classDate,
-      status: data.status,
-    })
-
-    return { record, error: null }
-  } catch (error) {
-    logger.error('Unexpected error marking attendance', error as Error)
-    return {
-      record: null,
-      error: error instanceof Error ? error : new Error('Failed to mark attendance'),
-    }
-  }
+  const result = await callAdminApi('attendance.mark', data)
+  if (result.error) return { record: null, error: result.error }
+  return { record: result.data.record, error: null }
 }
 
 /**
@@ -255,89 +168,11 @@ export async function markAttendance(
  */
 export async function markBulkAttendance(
   records: Array<{ studentId: string; status: AttendanceStatus }>,
-  classDate: string,
-  markedBy: string
+  sessionId: string
 ): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { success: false, error: new Error('Service role key not configured') }
-    }
-
-    // Validate date
-    const dateValidation = validateAttendanceDate(classDate)
-    if (!dateValidation.valid) {
-      return { success: false, error: new Error(dateValidation.error || 'Invalid date') }
-    }
-
-    // Validate admin
-    const adminValidation = await validateAdminForAttendance(markedBy)
-    if (!adminValidation.valid) {
-      return { success: false, error: new Error(adminValidation.error || 'Invalid admin') }
-    }
-
-    // Validate all students before bulk operation
-    const studentIds = [...new Set(records.map((r) => r.studentId))]
-    const invalidStudents: string[] = []
-
-    for (const studentId of studentIds) {
-      const studentValidation = await validateStudentForAttendance(studentId, adminValidation.branchId)
-      if (!studentValidation.valid) {
-        invalidStudents.push(studentId)
-      }
-    }
-
-    if (invalidStudents.length > 0) {
-      logger.warn('Invalid students found in bulk attendance', { invalidStudents })
-      return {
-        success: false,
-        error: new Error(
-          `Cannot mark attendance for ${invalidStudents.length} invalid student(s). Please check if students are active and belong to your branch.`
-        ),
-      }
-    }
-
-    // Get existing records for this date
-    const { data: existingRecords } = await supabaseAdmin
-      .from('attendance_records')
-      .select('student_id, id')
-      .eq('class_date', classDate)
-      .in('student_id', studentIds)
-
-    // Prepare upsert data
-    const upsertData = records.map((record) => ({
-      student_id: record.studentId,
-      class_date: classDate,
-      status: record.status,
-      marked_by: markedBy,
-      // updated_at will be set by trigger on update
-    }))
-
-    // Use upsert to handle both insert and update
-    const { error: upsertError } = await supabaseAdmin
-      .from('attendance_records')
-      .upsert(upsertData, {
-        onConflict: 'student_id,class_date',
-      })
-
-    if (upsertError) {
-      logger.error('Error bulk marking attendance', upsertError as Error)
-      return { success: false, error: new Error(upsertError.message) }
-    }
-
-    logger.info('Bulk attendance marked successfully', {
-      count: records.length,
-      classDate,
-      markedBy,
-    })
-
-    return { success: true, error: null }
-  } catch (error) {
-    logger.error('Unexpected error bulk marking attendance', error as Error)
-    return {
-      success: false,
-      error: error instanceof Error ? error : new Error('Failed to mark bulk attendance'),
-    }
-  }
+  const { error } = await callAdminApi('attendance.markBulk', { records, sessionId })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
 }
 
 /**
@@ -351,115 +186,20 @@ export async function getStudentAttendance(
     limit?: number
   }
 ): Promise<{ records: AttendanceRecord[]; error: null } | { records: null; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { records: null, error: new Error('Service role key not configured') }
-    }
-
-    let query = supabaseAdmin
-      .from('attendance_records')
-      .select(`
-        *,
-        student:students!attendance_records_student_id_fkey(
-          first_name,
-          last_name,
-          student_id,
-          student_photo_url
-        ),
-        marked_by_profile:profiles!attendance_records_marked_by_fkey(email)
-      `)
-      .eq('student_id', studentId)
-      .order('class_date', { ascending: false })
-
-    if (options?.startDate) {
-      query = query.gte('class_date', options.startDate)
-    }
-
-    if (options?.endDate) {
-      query = query.lte('class_date', options.endDate)
-    }
-
-    if (options?.limit) {
-      query = query.limit(options.limit)
-    }
-
-    const { data: records, error } = await query
-
-    if (error) {
-      logger.error('Error fetching student attendance', error as Error)
-      return { records: null, error: new Error(error.message) }
-    }
-
-    return { records: (records || []) as AttendanceRecord[], error: null }
-  } catch (error) {
-    logger.error('Unexpected error fetching student attendance', error as Error)
-    return {
-      records: null,
-      error: error instanceof Error ? error : new Error('Failed to fetch attendance'),
-    }
-  }
+  const { data, error } = await callAdminApi('attendance.getStudentAttendance', { studentId, ...options })
+  if (error) return { records: null, error }
+  return { records: data.records, error: null }
 }
 
 /**
- * Get attendance records for a class date (for admin)
+ * Get attendance records for a class session (for admin)
  */
 export async function getClassAttendance(
-  classDate: string,
-  branchId?: string
+  sessionId: string
 ): Promise<{ records: AttendanceRecord[]; error: null } | { records: null; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { records: null, error: new Error('Service role key not configured') }
-    }
-
-    let query = supabaseAdmin
-      .from('attendance_records')
-      .select(`
-        *,
-        student:students!attendance_records_student_id_fkey(
-          first_name,
-          last_name,
-          student_id,
-          student_photo_url,
-          branch_id
-        ),
-        marked_by_profile:profiles!attendance_records_marked_by_fkey(
-          email,
-          user_id
-        )
-      `)
-      .eq('class_date', classDate)
-
-    const { data: records, error } = await query
-
-    if (error) {
-      logger.error('Error fetching class attendance', error as Error)
-      return { records: null, error: new Error(error.message) }
-    }
-
-    // Filter by branch if specified
-    let filteredRecords = records || []
-    if (branchId) {
-      filteredRecords = filteredRecords.filter(
-        (r: any) => r.student?.branch_id === branchId
-      )
-    }
-
-    // Sort by student first name (client-side sorting since Supabase doesn't support nested field ordering)
-    filteredRecords.sort((a: any, b: any) => {
-      const nameA = (a.student?.first_name || '').toLowerCase()
-      const nameB = (b.student?.first_name || '').toLowerCase()
-      return nameA.localeCompare(nameB)
-    })
-
-    return { records: filteredRecords as AttendanceRecord[], error: null }
-  } catch (error) {
-    logger.error('Unexpected error fetching class attendance', error as Error)
-    return {
-      records: null,
-      error: error instanceof Error ? error : new Error('Failed to fetch class attendance'),
-    }
-  }
+  const { data, error } = await callAdminApi('attendance.getClassAttendance', { sessionId })
+  if (error) return { records: null, error }
+  return { records: data.records, error: null }
 }
 
 /**
@@ -474,8 +214,17 @@ export async function getClassAttendance(
 function calculateAttendanceStreak(records: AttendanceRecord[]): number {
   if (records.length === 0) return 0
 
+  // One entry per day: a day with several sessions counts as present if any session was attended
+  const recordsByDate = new Map<string, AttendanceRecord>()
+  records.forEach((record) => {
+    const existing = recordsByDate.get(record.class_date)
+    if (!existing || (existing.status !== 'present' && record.status === 'present')) {
+      recordsByDate.set(record.class_date, record)
+    }
+  })
+
   // Sort records by date descending (most recent first)
-  const sortedRecords = [...records].sort((a, b) => {
+  const sortedRecords = [...recordsByDate.values()].sort((a, b) => {
     const dateA = new Date(a.class_date).getTime()
     const dateB = new Date(b.class_date).getTime()
     return dateB - dateA
@@ -578,49 +327,13 @@ export async function getStudentAttendanceStats(
 }
 
 /**
- * Get all students for a branch (for marking attendance)
+ * Get all students for a branch, or only those enrolled in a batch (for marking attendance)
  */
 export async function getStudentsForAttendance(
-  branchId?: string
+  branchId?: string,
+  batchId?: string | null
 ): Promise<{ students: Array<{ id: string; first_name: string; last_name: string; student_id: string; student_photo_url: string | null }>; error: null } | { students: null; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { students: null, error: new Error('Service role key not configured') }
-    }
-
-    let query = supabaseAdmin
-      .from('students')
-      .select('id, first_name, last_name, student_id, student_photo_url')
-      .eq('is_active', true)
-      .order('first_name', { ascending: true })
-
-    if (branchId) {
-      query = query.eq('branch_id', branchId)
-    }
-
-    const { data: students, error } = await query
-
-    if (error) {
-      logger.error('Error fetching students for attendance', error as Error)
-      return { students: null, error: new Error(error.message) }
-    }
-
-    return {
-      students: (students || []) as Array<{
-        id: string
-        first_name: string
-        last_name: string
-        student_id: string
-        student_photo_url: string | null
-      }>,
-      error: null,
-    }
-  } catch (error) {
-    logger.error('Unexpected error fetching students for attendance', error as Error)
-    return {
-      students: null,
-      error: error instanceof Error ? error : new Error('Failed to fetch students'),
-    }
-  }
+  const { data, error } = await callAdminApi('attendance.getStudentsForAttendance', { branchId, batchId })
+  if (error) return { students: null, error }
+  return { students: data.students, error: null }
 }
-
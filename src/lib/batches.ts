@@ -0,0 +1,109 @@
+import { callAdminApi } from './admin-api'
+
+/**
+ * A weekly recurring class at a branch, e.g. 'Kids Morning' on Mon/Wed/Fri 6:00-7:30 AM
+ */
+export interface ClassBatch {
+  id: string
+  branch_id: string
+  name: string
+  days_of_week: number[] // 0 = Sunday ... 6 = Saturday
+  start_time: string // HH:MM:SS
+  end_time: string
+  age_group: string | null
+  level: string | null
+  instructor_id: string | null
+  is_active: boolean
+  created_by_id: string | null
+  created_at: string
+  updated_at: string
+  branch?: {
+    name: string
+  } | null
+  instructor?: {
+    name: string
+  } | null
+  student_count?: number // Enrolled students (admin views only)
+}
+
+export interface SaveClassBatchData {
+  id?: string | null // Omit to add a batch
+  branchId: string
+  name: string
+  daysOfWeek: number[]
+  startTime: string // HH:MM
+  endTime: string // HH:MM
+  ageGroup?: string | null
+  level?: string | null
+  instructorId?: string | null
+  isActive: boolean
+}
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Monday-first, as the timetable is read
+export const WEEK_DAYS = [1, 2, 3, 4, 5, 6, 0]
+
+/**
+ * Format a batch's days for display, e.g. "Mon, Wed, Fri"
+ */
+export function formatBatchDays(daysOfWeek: number[]): string {
+  if (daysOfWeek.length === 7) return 'Every day'
+  return WEEK_DAYS.filter((day) => daysOfWeek.includes(day))
+    .map((day) => DAY_LABELS[day])
+    .join(', ')
+}
+
+/**
+ * Batches that meet on a date's weekday (date as YYYY-MM-DD)
+ */
+export function getBatchesOnDate(batches: ClassBatch[], date: string): ClassBatch[] {
+  const day = new Date(date + 'T00:00:00').getDay()
+  return batches.filter((batch) => batch.is_active && batch.days_of_week.includes(day))
+}
+
+/**
+ * Get the timetable for a branch, or every branch, earliest classes first
+ */
+export async function getClassBatches(
+  options: { branchId?: string | null; includeInactive?: boolean } = {}
+): Promise<{ batches: ClassBatch[]; error: null } | { batches: null; error: Error }> {
+  const { data, error } = await callAdminApi('batches.getBatches', options)
+  if (error) return { batches: null, error }
+  return { batches: data.batches, error: null }
+}
+
+/**
+ * Add or update a batch (branch admins for their own branch)
+ */
+export async function saveClassBatch(
+  batch: SaveClassBatchData
+): Promise<{ batch: ClassBatch | null; error: null } | { batch: null; error: Error }> {
+  const { data, error } = await callAdminApi('batches.saveBatch', batch)
+  if (error) return { batch: null, error }
+  return { batch: data.batch, error: null }
+}
+
+/**
+ * Get the batches a student is enrolled in
+ */
+export async function getStudentBatches(
+  studentId: string
+): Promise<{ batches: ClassBatch[]; error: null } | { batches: null; error: Error }> {
+  const { data, error } = await callAdminApi('batches.getStudentBatches', { studentId })
+  if (error) return { batches: null, error }
+  return { batches: data.batches, error: null }
+}
+
+/**
+ * Set the batches a student is enrolled in (admins only)
+ * Batches must be at the student's branch
+ */
+export async function setStudentBatches(
+  studentId: string,
+  batchIds: string[]
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  const { error } = await callAdminApi('batches.setStudentBatches', { studentId, batchIds })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
+}
@@ -0,0 +1,175 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { callAdminApi } from './admin-api'
+import { setBeltRanks, type BeltRank, type SaveBeltRankData } from './belts'
+
+export type SyllabusCategory = 'kata' | 'kihon' | 'kumite'
+
+export const SYLLABUS_CATEGORY_LABELS: Record<SyllabusCategory, string> = {
+  kata: 'Kata',
+  kihon: 'Kihon (Techniques)',
+  kumite: 'Kumite',
+}
+
+/**
+ * Something a student must show at grading for a belt
+ */
+export interface BeltSyllabusItem {
+  id: string
+  belt_level: string // The belt graded for
+  category: SyllabusCategory
+  title: string
+  description: string | null
+  youtube_url: string | null // Optional demo video
+  sort_order: number // Position within the belt and category
+  created_by_id: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface SaveBeltSyllabusItemData {
+  id?: string | null // Omit to add an item
+  beltLevel: string
+  category: SyllabusCategory
+  title: string
+  description?: string | null
+  youtubeUrl?: string | null
+}
+
+export interface SyllabusProgressItem extends BeltSyllabusItem {
+  completed_at: string | null // Set once an instructor has ticked it off
+  completed_by_id: string | null
+}
+
+/**
+ * A student's requirements for their next belt
+ */
+export interface StudentSyllabusProgress {
+  currentBelt: string
+  nextBelt: string | null // null at the top of the ladder
+  items: SyllabusProgressItem[]
+}
+
+let loadPromise: Promise<{ ranks: BeltRank[]; error: null } | { ranks: null; error: Error }> | null = null
+
+/**
+ * Load the belt syllabus and cache it for the belt helpers in belts.ts
+ * Readable without signing in (public site). Concurrent calls share one request;
+ * pass force to reload after an edit.
+ */
+export async function loadBeltSyllabus(
+  force = false
+): Promise<{ ranks: BeltRank[]; error: null } | { ranks: null; error: Error }> {
+  if (loadPromise && !force) return loadPromise
+
+  loadPromise = (async () => {
+    try {
+      const { data, error } = await supabase.from('belt_ranks').select('*').order('sort_order', { ascending: true })
+
+      if (error) {
+        logger.error('Error fetching belt syllabus', error as Error)
+        return { ranks: null, error: new Error(error.message) }
+      }
+
+      const ranks = (data || []) as BeltRank[]
+      // Keep the built-in ladder if the syllabus hasn't been set up
+      if (ranks.length > 0) {
+        setBeltRanks(ranks)
+      }
+      return { ranks, error: null }
+    } catch (error) {
+      logger.error('Unexpected error fetching belt syllabus', error as Error)
+      return {
+        ranks: null,
+        error: error instanceof Error ? error : new Error('Failed to fetch belt syllabus'),
+      }
+    }
+  })()
+
+  const result = await loadPromise
+  // Retry on the next call after a failure
+  if (result.error) loadPromise = null
+  return result
+}
+
+/**
+ * Add or update a belt (super admin only)
+ */
+export async function saveBeltRank(
+  rank: SaveBeltRankData
+): Promise<{ rank: BeltRank | null; error: null } | { rank: null; error: Error }> {
+  const { data, error } = await callAdminApi('belts.saveRank', rank)
+  if (error) return { rank: null, error }
+  await loadBeltSyllabus(true)
+  return { rank: data.rank, error: null }
+}
+
+/**
+ * Move a belt one place up or down within its programme (super admin only)
+ */
+export async function moveBeltRank(
+  rankId: string,
+  direction: 'up' | 'down'
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  const { error } = await callAdminApi('belts.moveRank', { rankId, direction })
+  if (error) return { success: false, error }
+  await loadBeltSyllabus(true)
+  return { success: true, error: null }
+}
+
+/**
+ * Get the syllabus for a belt (the belt graded for), kata first, then kihon and kumite
+ */
+export async function getBeltSyllabusItems(
+  beltLevel: string
+): Promise<{ items: BeltSyllabusItem[]; error: null } | { items: null; error: Error }> {
+  const { data, error } = await callAdminApi('belts.getSyllabusItems', { beltLevel })
+  if (error) return { items: null, error }
+  return { items: data.items, error: null }
+}
+
+/**
+ * Add or update a syllabus item (super admin only)
+ */
+export async function saveBeltSyllabusItem(
+  item: SaveBeltSyllabusItemData
+): Promise<{ item: BeltSyllabusItem | null; error: null } | { item: null; error: Error }> {
+  const { data, error } = await callAdminApi('belts.saveSyllabusItem', item)
+  if (error) return { item: null, error }
+  return { item: data.item, error: null }
+}
+
+/**
+ * Delete a syllabus item (super admin only)
+ */
+export async function deleteBeltSyllabusItem(
+  itemId: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  const { error } = await callAdminApi('belts.deleteSyllabusItem', { itemId })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
+}
+
+/**
+ * Get a student's requirements for their next belt and which are ticked off
+ */
+export async function getStudentSyllabusProgress(
+  studentId: string
+): Promise<{ progress: StudentSyllabusProgress | null; error: null } | { progress: null; error: Error }> {
+  const { data, error } = await callAdminApi('belts.getStudentProgress', { studentId })
+  if (error) return { progress: null, error }
+  return { progress: data.progress, error: null }
+}
+
+/**
+ * Tick a syllabus item off for a student ahead of grading, or untick it (admins only)
+ */
+export async function setSyllabusItemCompleted(
+  studentId: string,
+  itemId: string,
+  completed: boolean
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  const { error } = await callAdminApi('belts.setItemCompleted', { studentId, itemId, completed })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
+}
@@ -1,77 +1,215 @@
 /**
- * Belt levels with Kyu information
- * Kyu levels go from 10th (White) down to 1st (Brown 1)
- * Black belt is Dan level (no Kyu)
+ * Belt syllabus
+ * The belt ladder for each programme is configured in the belt_ranks table
+ * (see belt-syllabus.ts for loading and editing). Belts are referred to by name
+ * everywhere (students, gradings, fees), so names are unique across programmes.
+ *
+ * The helpers below are synchronous and read the syllabus cached in this module,
+ * which holds the standard ladder until the configured one has been loaded.
  */
-export const BELT_LEVELS = [
-  'White',
-  'Yellow',
-  'Orange',
-  'Green',
-  'Blue',
-  'Purple',
-  'Brown 4',
-  'Brown 3',
-  'Brown 2',
-  'Brown 1',
-  'Black',
-] as const
-
-export type BeltLevel = typeof BELT_LEVELS[number]
+
+export type BeltGradeType = 'kyu' | 'dan'
+
+export interface BeltRank {
+  id: string
+  name: string
+  programme: string
+  color: string // Hex colour
+  stripe_color: string | null // Stripe through the belt (kids' programme)
+  grade_type: BeltGradeType
+  grade_number: number // 10th Kyu ... 1st Kyu, then 1st Dan ... 5th Dan
+  sort_order: number // Position within the programme, lowest first
+  is_active: boolean // Retired belts are kept for historical records
+  updated_by_id: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface SaveBeltRankData {
+  id?: string | null // Omit to add a belt
+  name: string // Ignored when updating - belts cannot be renamed once in use
+  programme: string
+  color: string
+  stripeColor: string | null
+  gradeType: BeltGradeType
+  gradeNumber: number
+  isActive: boolean
+}
+
+export const DEFAULT_PROGRAMME = 'Standard'
+
+// The standard syllabus, used until the configured one has loaded
+const DEFAULT_BELTS: Array<[string, string, BeltGradeType, number]> = [
+  ['White', '#FFFFFF', 'kyu', 10],
+  ['Yellow', '#FFEB3B', 'kyu', 9],
+  ['Orange', '#FF9800', 'kyu', 8],
+  ['Green', '#4CAF50', 'kyu', 7],
+  ['Blue', '#2196F3', 'kyu', 6],
+  ['Purple', '#9C27B0', 'kyu', 5],
+  ['Brown 4', '#A1887F', 'kyu', 4],
+  ['Brown 3', '#8D6E63', 'kyu', 3],
+  ['Brown 2', '#795548', 'kyu', 2],
+  ['Brown 1', '#6D4C41', 'kyu', 1],
+  ['Black', '#000000', 'dan', 1],
+]
+
+const DEFAULT_BELT_RANKS: BeltRank[] = DEFAULT_BELTS.map(([name, color, gradeType, gradeNumber], index) => ({
+  id: name,
+  name,
+  programme: DEFAULT_PROGRAMME,
+  color,
+  stripe_color: null,
+  grade_type: gradeType,
+  grade_number: gradeNumber,
+  sort_order: index + 1,
+  is_active: true,
+  updated_by_id: null,
+  created_at: '',
+  updated_at: '',
+}))
+
+let beltRanks: BeltRank[] = DEFAULT_BELT_RANKS
+const listeners = new Set<() => void>()
+
+/**
+ * Order belts by programme (standard first, then alphabetically) and position
+ */
+export function sortBeltRanks(ranks: BeltRank[]): BeltRank[] {
+  return [...ranks].sort((a, b) => {
+    if (a.programme !== b.programme) {
+      if (a.programme === DEFAULT_PROGRAMME) return -1
+      if (b.programme === DEFAULT_PROGRAMME) return 1
+      return a.programme.localeCompare(b.programme)
+    }
+    return a.sort_order - b.sort_order
+  })
+}
 
 /**
- * Belt colors for UI display
+ * The active belt after the given one in its programme, or null at the top of the ladder
  */
-export const BELT_COLORS: Record<string, string> = {
-  White: '#FFFFFF',
-  Yellow: '#FFEB3B',
-  Orange: '#FF9800',
-  Green: '#4CAF50',
-  Blue: '#2196F3',
-  Purple: '#9C27B0',
-  'Brown 4': '#A1887F',
-  'Brown 3': '#8D6E63',
-  'Brown 2': '#795548',
-  'Brown 1': '#6D4C41',
-  Black: '#000000',
+export function findNextBelt(ranks: BeltRank[], belt: string): string | null {
+  const current = ranks.find((r) => r.name === belt)
+  if (!current) return null
+
+  const next = sortBeltRanks(ranks).find(
+    (r) => r.programme === current.programme && r.is_active && r.sort_order > current.sort_order
+  )
+  return next?.name || null
 }
 
 /**
- * Kyu levels for each belt
+ * Whether a belt can be graded for: in the syllabus and not the first belt of its programme
  */
-export const BELT_KYU: Record<string, string> = {
-  White: '10th Kyu',
-  Yellow: '9th Kyu',
-  Orange: '8th Kyu',
-  Green: '7th Kyu',
-  Blue: '6th Kyu',
-  Purple: '5th Kyu',
-  'Brown 4': '4th Kyu',
-  'Brown 3': '3rd Kyu',
-  'Brown 2': '2nd Kyu',
-  'Brown 1': '1st Kyu',
-  Black: 'Dan Level',
+export function canGradeFor(ranks: BeltRank[], belt: string): boolean {
+  const rank = ranks.find((r) => r.name === belt)
+  if (!rank) return false
+  return ranks.some((r) => r.programme === rank.programme && r.sort_order < rank.sort_order)
+}
+
+/**
+ * Replace the cached syllabus and re-render subscribers
+ */
+export function setBeltRanks(ranks: BeltRank[]): void {
+  beltRanks = sortBeltRanks(ranks)
+  listeners.forEach((listener) => listener())
+}
+
+export function subscribeToBeltRanks(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Every belt, retired ones included, in syllabus order
+ */
+export function getBeltRanks(): BeltRank[] {
+  return beltRanks
+}
+
+export function getBeltRank(belt: string): BeltRank | undefined {
+  return beltRanks.find((r) => r.name === belt)
 }
 
 /**
- * Get belt display name with Kyu
+ * Programmes in syllabus order
+ */
+export function getBeltProgrammes(): string[] {
+  return [...new Set(beltRanks.map((r) => r.programme))]
+}
+
+/**
+ * Names of the active belts, in order, for one programme or all of them
+ */
+export function getBeltLevels(programme?: string): string[] {
+  return beltRanks.filter((r) => r.is_active && (!programme || r.programme === programme)).map((r) => r.name)
+}
+
+export function getBeltColor(belt: string): string | undefined {
+  return getBeltRank(belt)?.color
+}
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th'
+  return `${n}${suffix}`
+}
+
+/**
+ * Kyu or Dan grade of a belt, e.g. "9th Kyu" or "2nd Dan" (empty for unknown belts)
+ */
+export function getBeltGrade(belt: string): string {
+  const rank = getBeltRank(belt)
+  if (!rank) return ''
+  return `${ordinal(rank.grade_number)} ${rank.grade_type === 'dan' ? 'Dan' : 'Kyu'}`
+}
+
+/**
+ * Get belt display name with its grade
  */
 export function getBeltDisplayName(belt: string): string {
-  const kyu = BELT_KYU[belt] || ''
-  return kyu ? `${belt} (${kyu})` : belt
+  const grade = getBeltGrade(belt)
+  return grade ? `${belt} (${grade})` : belt
 }
 
 /**
- * Get belt index for sorting/comparison
+ * Get belt index within its programme for sorting/comparison (-1 for unknown belts)
  */
 export function getBeltIndex(belt: string): number {
-  return BELT_LEVELS.indexOf(belt as BeltLevel)
+  const rank = getBeltRank(belt)
+  if (!rank) return -1
+  return beltRanks.filter((r) => r.programme === rank.programme).indexOf(rank)
 }
 
+// Seniority across programmes: 10th Kyu lowest, 1st Kyu below 1st Dan
+const gradeValue = (rank: BeltRank) => (rank.grade_type === 'dan' ? rank.grade_number : -rank.grade_number)
+
 /**
  * Check if one belt is higher than another
+ * Belts in the same programme compare by position, otherwise by kyu/dan grade
  */
 export function isBeltHigher(belt1: string, belt2: string): boolean {
-  return getBeltIndex(belt1) > getBeltIndex(belt2)
+  const rank1 = getBeltRank(belt1)
+  const rank2 = getBeltRank(belt2)
+  if (!rank1 || !rank2) return getBeltIndex(belt1) > getBeltIndex(belt2)
+
+  if (rank1.programme === rank2.programme) {
+    return rank1.sort_order > rank2.sort_order
+  }
+  return gradeValue(rank1) > gradeValue(rank2)
+}
+
+/**
+ * The belt a student at the given belt grades for next, or null at the top of the ladder
+ */
+export function getNextBelt(belt: string): string | null {
+  return findNextBelt(beltRanks, belt)
 }
 
+/**
+ * Whether a belt can be graded for (every belt except the first of its programme)
+ */
+export function isGradableBelt(belt: string): boolean {
+  return canGradeFor(beltRanks, belt)
+}
@@ -0,0 +1,56 @@
+import type { RefObject } from 'react'
+import type { View } from 'react-native'
+import { captureRef } from 'react-native-view-shot'
+import * as Print from 'expo-print'
+import * as Sharing from 'expo-sharing'
+import { logger } from './logger'
+
+export type CertificateFormat = 'image' | 'pdf'
+
+/**
+ * Capture a rendered grading certificate and open the share sheet, as a PNG image or a one-page PDF
+ */
+export async function shareGradingCertificate(
+  certificateRef: RefObject<View | null>,
+  certificateFormat: CertificateFormat,
+  title: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    if (!(await Sharing.isAvailableAsync())) {
+      return { success: false, error: new Error('Sharing is not available on this device') }
+    }
+
+    if (certificateFormat === 'image') {
+      const uri = await captureRef(certificateRef, { format: 'png', quality: 1 })
+      await Sharing.shareAsync(uri, { mimeType: 'image/png', UTI: 'public.png', dialogTitle: title })
+    } else {
+      const base64 = await captureRef(certificateRef, { format: 'png', quality: 1, result: 'base64' })
+      const html = `
+<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <style>
+      @page { size: A4 landscape; margin: 0; }
+      body { margin: 0; display: flex; align-items: center; justify-content: center; height: 100vh; }
+      img { max-width: 100%; max-height: 100%; }
+    </style>
+  </head>
+  <body>
+    <img src="data:image/png;base64,${base64}" />
+  </body>
+</html>`
+      const { uri } = await Print.printToFileAsync({ html })
+      await Sharing.shareAsync(uri, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle: title })
+    }
+
+    logger.info('Grading certificate shared', { format: certificateFormat })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Error sharing grading certificate', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to generate certificate'),
+    }
+  }
+}
@@ -1,16 +1,23 @@
-import { supabaseAdmin } from './supabase'
-import { logger } from './logger'
+import { callAdminApi } from './admin-api'
 
-export type FeeType = 'registration' | 'monthly' | 'yearly' | 'grading'
+export type FeeType = 'registration' | 'monthly' | 'yearly' | 'grading' | 'late_fee'
 export type PaymentType = 'monthly' | 'yearly'
-export type FeeStatus = 'pending' | 'paid' | 'overdue'
+export type FeeStatus = 'pending' | 'paid' | 'overdue' | 'waived'
+export type PaymentReversalType = 'reversal' | 'refund'
+export type DiscountCategory = 'sibling' | 'staff_child' | 'scholarship'
+export type DiscountType = 'percentage' | 'fixed'
+export type LateFeePenaltyType = 'percentage' | 'fixed'
+export type CreditSource = 'prepayment' | 'overpayment' | 'refund' | 'discount' | 'applied' | 'restored' | 'withdrawn'
+export type ReminderChannel = 'push' | 'in_app'
+export type OverdueEscalationStage = 'none' | 'parent' | 'branch_admin'
 
 export interface FeeConfiguration {
   id: string
   fee_type: FeeType
-  branch_id: string | null // Always NULL now (global only)
+  branch_id: string | null // NULL = global fee, otherwise an override for that branch
   belt_level: string | null // For grading fees only
   amount: number
+  effective_from: string // Date the rate takes effect (YYYY-MM-DD); later rates in the same scope supersede it
   is_active: boolean
   created_by_id: string | null
   created_at: string
@@ -21,10 +28,12 @@ export interface StudentFee {
   id: string
   student_id: string
   fee_type: FeeType
-  amount: number
+  amount: number // Amount due after discount
+  discount_amount: number // Discount applied when the fee was generated (0 if none)
+  discount_rule_id: string | null
   due_date: string
   status: FeeStatus
-  paid_amount: number
+  paid_amount: number // Sum of fee_payments (kept in sync by a database trigger)
   paid_at: string | null
   payment_method: string | null
   receipt_number: string | null
@@ -32,269 +41,442 @@ export interface StudentFee {
   period_start_date: string | null
   period_end_date: string | null
   belt_grading_id: string | null
+  parent_fee_id: string | null // Late fees only: the fee that was paid late
+  waived_at: string | null
+  waived_by_id: string | null
+  waiver_reason: string | null
   reminder_sent_at: string | null
   overdue_notification_sent_at: string | null
+  overdue_escalation_stage: OverdueEscalationStage // Furthest overdue escalation sent for this fee
+  overdue_escalated_at: string | null
   recorded_by_id: string | null
   created_at: string
   updated_at: string
 }
 
-export interface PaymentPreference {
+/**
+ * A single instalment recorded against a student fee
+ * StudentFee.paid_amount is the sum of its payments
+ */
+export interface FeePayment {
   id: string
+  student_fee_id: string
   student_id: string
-  payment_type: PaymentType
-  started_from: string
+  amount: number
+  payment_method: string
+  receipt_number: string | null
+  notes: string | null
+  payment_reference: string | null // Bank / UPI transaction reference (UTR), if known
+  recorded_by_id: string | null
+  paid_at: string
+  reversed_at: string | null // Set when reversed/refunded - no longer counts towards paid_amount
+  reversed_by_id: string | null
+  reversal_type: PaymentReversalType | null
+  reversal_reason: string | null
   created_at: string
-  updated_at: string
+  student_fee?: {
+    fee_type: FeeType
+    period_start_date: string | null
+    period_end_date: string | null
+  } | null
 }
 
-export interface BeltGrading {
+/**
+ * A discount rule for monthly/yearly fees
+ * Sibling rules apply automatically; staff-child and scholarship rules are granted per student
+ */
+export interface FeeDiscountRule {
   id: string
-  student_id: string
-  from_belt: string
-  to_belt: string
-  grading_date: string
-  fee_amount: number | null
-  student_fee_id: string | null
+  name: string
+  category: DiscountCategory
+  discount_type: DiscountType
+  value: number // Percentage (0-100] or fixed rupee amount
+  sibling_order: number | null // Sibling rules only: Nth enrolled child and later
+  is_active: boolean
   created_by_id: string | null
   created_at: string
   updated_at: string
 }
 
+export interface StudentDiscount {
+  id: string
+  student_id: string
+  discount_rule_id: string
+  assigned_by_id: string | null
+  created_at: string
+  discount_rule?: FeeDiscountRule | null
+}
+
 /**
- * Parse a YYYY-MM-DD date string into a local Date (no timezone shifts).
- * This avoids the subtle bugs of new Date('YYYY-MM-DD') which is treated as UTC.
+ * A pause in monthly/yearly billing for a long absence
+ * Periods that would start inside the window are skipped; billing resumes the day after end_date
  */
-function parseLocalDate(dateStr: string): Date {
-  const parts = dateStr.split('-')
-  if (parts.length !== 3) {
-    throw new Error(`Invalid date format, expected YYYY-MM-DD but got: ${dateStr}`)
-  }
-  const year = parseInt(parts[0], 10)
-  const month = parseInt(parts[1], 10) - 1 // 0-indexed
-  const day = parseInt(parts[2], 10)
-
-  const d = new Date(year, month, day)
-  d.setHours(0, 0, 0, 0)
-
-  if (isNaN(d.getTime())) {
-    throw new Error(`Invalid date components for YYYY-MM-DD: ${dateStr}`)
-  }
+export interface FeeFreeze {
+  id: string
+  student_id: string
+  start_date: string
+  end_date: string
+  reason: string
+  approved_by_id: string | null
+  billing_resumed_on: string | null // Set once the next period has been generated after the freeze
+  cancelled_at: string | null
+  created_at: string
+  updated_at: string
+}
 
-  return d
+/**
+ * A movement on a student's credit balance (money held that is not allocated to a fee)
+ * The balance is the sum of amounts: positive rows add credit, negative rows use it
+ */
+export interface StudentCreditTransaction {
+  id: string
+  student_id: string
+  amount: number
+  source: CreditSource
+  payment_method: string | null
+  student_fee_id: string | null
+  fee_payment_id: string | null // Ledger row that added or used the credit, if any
+  notes: string | null
+  created_by_id: string | null
+  created_at: string
 }
 
 /**
- * Helper to subtract a number of months from a date, keeping end-of-month behaviour sane.
- * Used for yearly billing "one month before period end" logic.
+ * The part of a prepayment applied to one monthly fee
  */
-function subtractMonths(date: Date, months: number): Date {
-  const year = date.getFullYear()
-  const month = date.getMonth()
-  const day = date.getDate()
+export interface PrepaymentAllocation {
+  feeId: string
+  periodStartDate: string | null
+  periodEndDate: string | null
+  amount: number
+  receiptNumber: string | null
+}
 
-  let targetYear = year
-  let targetMonth = month - months
+/**
+ * Late fee policy - a penalty fee is created once an unpaid fee is more than
+ * grace_days past its due date
+ */
+export interface LateFeePolicy {
+  id: string
+  grace_days: number
+  penalty_type: LateFeePenaltyType
+  value: number // Percentage of the outstanding balance, or fixed rupee amount
+  max_amount: number | null // Cap per penalty
+  is_active: boolean
+  created_by_id: string | null
+  created_at: string
+}
 
-  while (targetMonth < 0) {
-    targetMonth += 12
-    targetYear -= 1
-  }
+/**
+ * A step in the fee reminder schedule, sent offset_days from a fee's due date
+ * (negative = before, 0 = on the day, positive = overdue)
+ * in_app reminders only appear in the notifications inbox; push reminders also go to the phone
+ * Templates can use {first_name}, {student_name}, {fee_type}, {amount}, {due_date} and {days}
+ */
+export interface FeeReminderPolicy {
+  id: string
+  offset_days: number
+  channel: ReminderChannel
+  title_template: string
+  message_template: string
+  is_active: boolean
+  created_by_id: string | null
+  created_at: string
+  updated_at: string
+}
 
-  const result = new Date(targetYear, targetMonth, day)
+/**
+ * Overdue escalation - parents are emailed once a fee is parent_after_days overdue,
+ * and the student's branch admins are alerted once it is admin_after_days overdue
+ */
+export interface OverdueEscalationPolicy {
+  id: string
+  parent_after_days: number
+  admin_after_days: number
+  is_active: boolean
+  created_by_id: string | null
+  created_at: string
+}
 
-  // If the day doesn't exist in the target month, go to last day of that month
-  if (result.getMonth() !== targetMonth) {
-    result.setDate(0)
-  }
+export interface PaymentPreference {
+  id: string
+  student_id: string
+  payment_type: PaymentType
+  started_from: string
+  created_at: string
+  updated_at: string
+}
 
-  result.setHours(0, 0, 0, 0)
-  return result
+export interface BeltGrading {
+  id: string
+  student_id: string
+  from_belt: string
+  to_belt: string
+  grading_date: string
+  fee_amount: number | null
+  student_fee_id: string | null
+  grading_session_id: string | null // Grading session the promotion came from
+  created_by_id: string | null
+  created_at: string
+  updated_at: string
 }
 
 /**
  * Get fee configuration for a specific fee type
  * For grading fees, beltLevel is required
+ * When branchId is given, the branch override is returned if there is one, otherwise the global fee
+ * onDate (YYYY-MM-DD, default today) picks the rate in effect on that date
  */
 export async function getFeeConfiguration(
   feeType: FeeType,
-  beltLevel?: string | null
+  beltLevel?: string | null,
+  branchId?: string | null,
+  onDate?: string
 ): Promise<{ fee: FeeConfiguration | null; error: null } | { fee: null; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { fee: null, error: new Error('Service role key not configured') }
-    }
-
-    let query = supabaseAdmin
-      .from('fee_configurations')
-      .select('*')
-      .eq('fee_type', feeType)
-      .eq('is_active', true)
-      .is('branch_id', null) // Only global fees
-
-    // For grading fees, filter by belt_level
-    if (feeType === 'grading') {
-      if (!beltLevel) {
-        return { fee: null, error: new Error('Belt level is required for grading fees') }
-      }
-      query = query.eq('belt_level', beltLevel)
-    } else {
-      // For non-grading fees, ensure belt_level is NULL
-      query = query.is('belt_level', null)
-    }
-
-    const { data, error } = await query.limit(1).maybeSingle()
-
-    if (error && error.code !== 'PGRST116') {
-      // PGRST116 = no rows returned, which is OK
-      logger.error('Error fetching fee configuration', error as Error)
-      return { fee: null, error: new Error(error.message) }
-    }
-
-    return { fee: (data as FeeConfiguration) || null, error: null }
-  } catch (error) {
-    logger.error('Unexpected error fetching fee configuration', error as Error)
-    return {
-      fee: null,
-      error: error instanceof Error ? error : new Error('Failed to fetch fee configuration'),
-    }
-  }
+  const { data, error } = await callAdminApi('fees.getConfiguration', { feeType, beltLevel, branchId, onDate })
+  if (error) return { fee: null, error }
+  return { fee: data.fee, error: null }
 }
 
 /**
  * Get all fee configurations (for admin)
- * Returns global fees only (no branch-specific)
+ * Returns the rates in effect today for global fees, plus that branch's overrides when branchId is given
+ * includeScheduled also returns rates that take effect in the future
  */
 export async function getAllFeeConfigurations(options?: {
   feeType?: FeeType
+  branchId?: string | null
+  includeScheduled?: boolean
 }): Promise<{ fees: FeeConfiguration[]; error: null } | { fees: null; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { fees: null, error: new Error('Service role key not configured') }
-    }
-
-    let query = supabaseAdmin
-      .from('fee_configurations')
-      .select('*')
-      .eq('is_active', true)
-      .is('branch_id', null) // Only global fees
-
-    if (options?.feeType) {
-      query = query.eq('fee_type', options.feeType)
-    }
-
-    const { data, error } = await query.order('fee_type', { ascending: true }).order('belt_level', { ascending: true, nullsFirst: true })
-
-    if (error) {
-      logger.error('Error fetching fee configurations', error as Error)
-      return { fees: null, error: new Error(error.message) }
-    }
-
-    return { fees: (data || []) as FeeConfiguration[], error: null }
-  } catch (error) {
-    logger.error('Unexpected error fetching fee configurations', error as Error)
-    return {
-      fees: null,
-      error: error instanceof Error ? error : new Error('Failed to fetch fee configurations'),
-    }
-  }
+  const { data, error } = await callAdminApi('fees.getConfigurations', {
+    feeType: options?.feeType,
+    branchId: options?.branchId,
+    includeScheduled: options?.includeScheduled,
+  })
+  if (error) return { fees: null, error }
+  return { fees: data.fees, error: null }
 }
 
 /**
  * Create or update fee configuration
- * All fees are global (no branch_id)
+ * branchId null sets the global fee; a branchId sets that branch's override
  * Grading fees require belt_level
+ * effectiveFrom (YYYY-MM-DD, default today) schedules the new rate
  */
 export async function setFeeConfiguration(
   feeType: FeeType,
   amount: number,
   beltLevel: string | null, // For grading fees only
-  createdById: string
+  branchId: string | null = null,
+  effectiveFrom?: string | null
 ): Promise<{ fee: FeeConfiguration | null; error: null } | { fee: null; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { fee: null, error: new Error('Service role key not configured') }
-    }
+  const { data, error } = await callAdminApi('fees.setConfiguration', {
+    feeType,
+    amount,
+    beltLevel,
+    branchId,
+    effectiveFrom,
+  })
+  if (error) return { fee: null, error }
+  return { fee: data.fee, error: null }
+}
 
-    if (amount < 0) {
-      return { fee: null, error: new Error('Fee amount cannot be negative') }
-    }
+/**
+ * Get the rate timeline for one scope (a branch override, or global when branchId is null)
+ * Newest first: scheduled rates, then the current rate, then past rates
+ */
+export async function getFeeRateHistory(
+  feeType: FeeType,
+  beltLevel: string | null,
+  branchId: string | null = null
+): Promise<{ fees: FeeConfiguration[]; error: null } | { fees: null; error: Error }> {
+  const { data, error } = await callAdminApi('fees.getRateHistory', { feeType, beltLevel, branchId })
+  if (error) return { fees: null, error }
+  return { fees: data.fees, error: null }
+}
 
-    // Validate grading fees must have belt_level
-    if (feeType === 'grading' && !beltLevel) {
-      return { fee: null, error: new Error('Grading fees must specify a belt level') }
-    }
+/**
+ * Cancel a price change that has not taken effect yet
+ */
+export async function cancelScheduledFeeChange(
+  configurationId: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  const { error } = await callAdminApi('fees.cancelScheduledChange', { configurationId })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
+}
 
-    // Validate non-grading fees must not have belt_level
-    if (feeType !== 'grading' && beltLevel) {
-      return { fee: null, error: new Error('Only grading fees can have belt level') }
-    }
+/**
+ * Remove a branch override so the branch falls back to the global fee
+ */
+export async function removeBranchFeeOverride(
+  feeType: FeeType,
+  beltLevel: string | null,
+  branchId: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  const { error } = await callAdminApi('fees.removeBranchOverride', { feeType, beltLevel, branchId })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
+}
 
-    // Deactivate existing active fee
-    let deactivateQuery = supabaseAdmin
-      .from('fee_configurations')
-      .update({ is_active: false })
-      .eq('fee_type', feeType)
-      .eq('is_active', true)
-      .is('branch_id', null) // Only global fees
+/**
+ * Get active discount rules (for admin)
+ */
+export async function getDiscountRules(): Promise<
+  { rules: FeeDiscountRule[]; error: null } | { rules: null; error: Error }
+> {
+  const { data, error } = await callAdminApi('fees.getDiscountRules', {})
+  if (error) return { rules: null, error }
+  return { rules: data.rules, error: null }
+}
 
-    if (feeType === 'grading' && beltLevel) {
-      deactivateQuery = deactivateQuery.eq('belt_level', beltLevel)
-    } else if (feeType !== 'grading') {
-      deactivateQuery = deactivateQuery.is('belt_level', null)
-    }
+/**
+ * Create a discount rule
+ * siblingOrder is required for sibling rules and ignored otherwise
+ */
+export async function createDiscountRule(rule: {
+  name: string
+  category: DiscountCategory
+  discountType: DiscountType
+  value: number
+  siblingOrder?: number | null
+}): Promise<{ rule: FeeDiscountRule | null; error: null } | { rule: null; error: Error }> {
+  const { data, error } = await callAdminApi('fees.createDiscountRule', rule)
+  if (error) return { rule: null, error }
+  return { rule: data.rule, error: null }
+}
 
-    const { error: deactivateError } = await deactivateQuery
+/**
+ * Deactivate a discount rule
+ * Fees already generated keep their discount
+ */
+export async function deactivateDiscountRule(
+  ruleId: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  const { error } = await callAdminApi('fees.deactivateDiscountRule', { ruleId })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
+}
 
-    if (deactivateError) {
-      logger.warn('Error deactivating old fee configuration', { error: deactivateError })
-    }
+/**
+ * Get staff-child/scholarship discounts granted to a student
+ */
+export async function getStudentDiscounts(
+  studentId: string
+): Promise<{ discounts: StudentDiscount[]; error: null } | { discounts: null; error: Error }> {
+  const { data, error } = await callAdminApi('fees.getStudentDiscounts', { studentId })
+  if (error) return { discounts: null, error }
+  return { discounts: data.discounts, error: null }
+}
 
-    // Get old amount for history
-    const oldFeeResult = await getFeeConfiguration(feeType, beltLevel || undefined)
-    const oldAmount = oldFeeResult.fee?.amount || null
+/**
+ * Grant a staff-child or scholarship discount to a student
+ * Applies to monthly/yearly fees generated from now on
+ */
+export async function assignStudentDiscount(
+  studentId: string,
+  ruleId: string
+): Promise<{ discount: StudentDiscount | null; error: null } | { discount: null; error: Error }> {
+  const { data, error } = await callAdminApi('fees.assignStudentDiscount', { studentId, ruleId })
+  if (error) return { discount: null, error }
+  return { discount: data.discount, error: null }
+}
 
-    // Create new active fee configuration (always global, no branch_id)
-    const { data: newFee, error: createError } = await supabaseAdmin
-      .from('fee_configurations')
-      .insert({
-        fee_type: feeType,
-        branch_id: null, // Always NULL (global only)
-        belt_level: beltLevel || null,
-        amount,
-        is_active: true,
-        created_by_id: createdById,
-      })
-      .select()
-      .single()
+/**
+ * Remove a discount granted to a student
+ */
+export async function removeStudentDiscount(
+  studentId: string,
+  studentDiscountId: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  const { error } = await callAdminApi('fees.removeStudentDiscount', { studentId, studentDiscountId })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
+}
 
-    if (createError || !newFee) {
-      logger.error('Error creating fee configuration', createError as Error)
-      return { fee: null, error: new Error(createError?.message || 'Failed to create fee configuration') }
-    }
+/**
+ * Get a student's fee freezes (newest first)
+ */
+export async function getFeeFreezes(
+  studentId: string
+): Promise<{ freezes: FeeFreeze[]; error: null } | { freezes: null; error: Error }> {
+  const { data, error } = await callAdminApi('fees.getFeeFreezes', { studentId })
+  if (error) return { freezes: null, error }
+  return { freezes: data.freezes, error: null }
+}
 
-    // Record in history if amount changed
-    if (oldAmount !== null && oldAmount !== amount) {
-      await supabaseAdmin.from('fee_configuration_history').insert({
-        fee_configuration_id: newFee.id,
-        fee_type: feeType,
-        branch_id: null,
-        belt_level: beltLevel || null,
-        old_amount: oldAmount,
-        new_amount: amount,
-        changed_by_id: createdById,
-      })
-    }
+/**
+ * Freeze a student's monthly/yearly fees for a period of absence
+ */
+export async function createFeeFreeze(
+  studentId: string,
+  freeze: { startDate: string; endDate: string; reason: string }
+): Promise<{ freeze: FeeFreeze | null; error: null } | { freeze: null; error: Error }> {
+  const { data, error } = await callAdminApi('fees.createFeeFreeze', { studentId, ...freeze })
+  if (error) return { freeze: null, error }
+  return { freeze: data.freeze, error: null }
+}
 
-    logger.info('Fee configuration set successfully', { feeType, beltLevel, amount })
-    return { fee: newFee as FeeConfiguration, error: null }
-  } catch (error) {
-    logger.error('Unexpected error setting fee configuration', error as Error)
-    return {
-      fee: null,
-      error: error instanceof Error ? error : new Error('Failed to set fee configuration'),
-    }
-  }
+/**
+ * End a fee freeze (cancels it if it has not started yet)
+ */
+export async function endFeeFreeze(
+  studentId: string,
+  freezeId: string
+): Promise<{ freeze: FeeFreeze | null; error: null } | { freeze: null; error: Error }> {
+  const { data, error } = await callAdminApi('fees.endFeeFreeze', { studentId, freezeId })
+  if (error) return { freeze: null, error }
+  return { freeze: data.freeze, error: null }
+}
+
+/**
+ * Get the active late fee policy (null when late fees are off)
+ */
+export async function getLateFeePolicy(): Promise<
+  { policy: LateFeePolicy | null; error: null } | { policy: null; error: Error }
+> {
+  const { data, error } = await callAdminApi('fees.getLateFeePolicy', {})
+  if (error) return { policy: null, error }
+  return { policy: data.policy, error: null }
+}
+
+/**
+ * Replace the late fee policy
+ * Applies to fees that cross their grace period from now on
+ */
+export async function setLateFeePolicy(policy: {
+  graceDays: number
+  penaltyType: LateFeePenaltyType
+  value: number
+  maxAmount?: number | null
+}): Promise<{ policy: LateFeePolicy | null; error: null } | { policy: null; error: Error }> {
+  const { data, error } = await callAdminApi('fees.setLateFeePolicy', policy)
+  if (error) return { policy: null, error }
+  return { policy: data.policy, error: null }
+}
+
+/**
+ * Turn late fees off (existing penalties are kept)
+ */
+export async function disableLateFeePolicy(): Promise<
+  { success: boolean; error: null } | { success: false; error: Error }
+> {
+  const { error } = await callAdminApi('fees.disableLateFeePolicy', {})
+  if (error) return { success: false, error }
+  return { success: true, error: null }
+}
+
+/**
+ * Waive an unpaid late fee with a reason
+ */
+export async function waiveLateFee(
+  studentId: string,
+  feeId: string,
+  reason: string
+): Promise<{ fee: StudentFee | null; error: null } | { fee: null; error: Error }> {
+  const { data, error } = await callAdminApi('fees.waiveLateFee', { studentId, feeId, reason })
+  if (error) return { fee: null, error }
+  return { fee: data.fee, error: null }
 }
 
 /**
@@ -303,30 +485,9 @@ export async function setFeeConfiguration(
 export async function getStudentPaymentPreference(
   studentId: string
 ): Promise<{ preference: PaymentPreference | null; error: null } | { preference: null; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { preference: null, error: new Error('Service role key not configured') }
-    }
-
-    const { data, error } = await supabaseAdmin
-      .from('student_payment_preferences')
-      .select('*')
-      .eq('student_id', studentId)
-      .maybeSingle()
-
-    if (error && error.code !== 'PGRST116') {
-      logger.error('Error fetching payment preference', error as Error)
-      return { preference: null, error: new Error(error.message) }
-    }
-
-    return { preference: (data as PaymentPreference) || null, error: null }
-  } catch (error) {
-    logger.error('Unexpected error fetching payment preference', error as Error)
-    return {
-      preference: null,
-      error: error instanceof Error ? error : new Error('Failed to fetch payment preference'),
-    }
-  }
+  const { data, error } = await callAdminApi('fees.getPaymentPreference', { studentId })
+  if (error) return { preference: null, error }
+  return { preference: data.preference, error: null }
 }
 
 /**
@@ -337,41 +498,9 @@ export async function setStudentPaymentPreference(
   paymentType: PaymentType,
   startedFrom: string
 ): Promise<{ preference: PaymentPreference | null; error: null } | { preference: null; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { preference: null, error: new Error('Service role key not configured') }
-    }
-
-    // Upsert payment preference
-    const { data, error } = await supabaseAdmin
-      .from('student_payment_preferences')
-      .upsert(
-        {
-          student_id: studentId,
-          payment_type: paymentType,
-          started_from: startedFrom,
-        },
-        {
-          onConflict: 'student_id',
-        }
-      )
-      .select()
-      .single()
-
-    if (error || !data) {
-      logger.error('Error setting payment preference', error as Error)
-      return { preference: null, error: new Error(error?.message || 'Failed to set payment preference') }
-    }
-
-    logger.info('Payment preference set successfully', { studentId, paymentType })
-    return { preference: data as PaymentPreference, error: null }
-  } catch (error) {
-    logger.error('Unexpected error setting payment preference', error as Error)
-    return {
-      preference: null,
-      error: error instanceof Error ? error : new Error('Failed to set payment preference'),
-    }
-  }
+  const { data, error } = await callAdminApi('fees.setPaymentPreference', { studentId, paymentType, startedFrom })
+  if (error) return { preference: null, error }
+  return { preference: data.preference, error: null }
 }
 
 /**
@@ -386,317 +515,14 @@ export async function createStudentFee(data: {
   periodEndDate?: string | null
   beltGradingId?: string | null
 }): Promise<{ fee: StudentFee | null; error: null } | { fee: null; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { fee: null, error: new Error('Service role key not configured') }
-    }
-
-    // Validate amount
-    if (data.amount < 0) {
-      return { fee: null, error: new Error('Fee amount cannot be negative') }
-    }
-
-    // Check if student is active (for monthly/yearly fees)
-    if (data.feeType === 'monthly' || data.feeType === 'yearly') {
-      const { data: student, error: studentError } = await supabaseAdmin
-        .from('students')
-        .select('is_active')
-        .eq('id', data.studentId)
-        .single()
-
-      if (studentError || !student) {
-        logger.error('Error fetching student for fee creation', studentError as Error)
-        return { fee: null, error: new Error('Student not found') }
-      }
-
-      if (!student.is_active) {
-        logger.warn('Attempted to create fee for inactive student', { studentId: data.studentId })
-        return { fee: null, error: new Error('Cannot create fees for inactive students') }
-      }
-
-      // Check for duplicate fee (same type, overlapping period)
-      if (data.periodStartDate && data.periodEndDate) {
-        // Check for overlapping periods: periods overlap if start1 <= end2 AND end1 >= start2
-        const { data: existingFees } = await supabaseAdmin
-          .from('student_fees')
-          .select('id, period_start_date, period_end_date')
-          .eq('student_id', data.studentId)
-          .eq('fee_type', data.feeType)
-          .in('status', ['pending', 'overdue'])
-          .not('period_start_date', 'is', null)
-          .not('period_end_date', 'is', null)
-
-        if (existingFees) {
-          for (const existing of existingFees) {
-            // Check if periods overlap
-            if (
-              existing.period_start_date <= data.periodEndDate &&
-              existing.period_end_date >= data.periodStartDate
-            ) {
-              logger.warn('Duplicate fee detected - overlapping period', {
-                studentId: data.studentId,
-                feeType: data.feeType,
-                newPeriod: { start: data.periodStartDate, end: data.periodEndDate },
-                existingPeriod: {
-                  start: existing.period_start_date,
-                  end: existing.period_end_date,
-                },
-              })
-              return { fee: null, error: new Error('A fee for this period already exists') }
-            }
-          }
-        }
-      }
-    }
-
-    // Determine initial status based on due date
-    const initialStatus = (() => {
-      const dueDateParts = data.dueDate.split('-')
-      if (dueDateParts.length !== 3) {
-        return 'pending'
-      }
-      const dueYear = parseInt(dueDateParts[0], 10)
-      const dueMonth = parseInt(dueDateParts[1], 10) - 1
-      const dueDay = parseInt(dueDateParts[2], 10)
-      
-      const today = new Date()
-      today.setHours(0, 0, 0, 0)
-      const dueDate = new Date(dueYear, dueMonth, dueDay)
-      dueDate.setHours(0, 0, 0, 0)
-      
-      // If due date is in the future or today, it's pending
-      if (dueDate >= today) {
-        return 'pending'
-      }
-      // If due date has passed, it's overdue
-      return 'overdue'
-    })()
-
-    const { data: fee, error } = await supabaseAdmin
-      .from('student_fees')
-      .insert({
-        student_id: data.studentId,
-        fee_type: data.feeType,
-        amount: data.amount,
-        due_date: data.dueDate,
-        status: initialStatus,
-        period_start_date: data.periodStartDate || null,
-        period_end_date: data.periodEndDate || null,
-        belt_grading_id: data.beltGradingId || null,
-      })
-      .select()
-      .single()
-
-    if (error || !fee) {
-      logger.error('Error creating student fee', error as Error)
-      return { fee: null, error: new Error(error?.message || 'Failed to create student fee') }
-    }
-
-    logger.info('Student fee created successfully', { studentId: data.studentId, feeType: data.feeType })
-    return { fee: fee as StudentFee, error: null }
-  } catch (error) {
-    logger.error('Unexpected error creating student fee', error as Error)
-    return {
-      fee: null,
-      error: error instanceof Error ? error : new Error('Failed to create student fee'),
-    }
-  }
-}
-
-/**
- * Helper function to determine correct fee status based on due date
- */
-function getCorrectFeeStatus(fee: StudentFee): FeeStatus {
-  // If fee is paid, it stays paid
-  if (fee.status === 'paid') {
-    return 'paid'
-  }
-
-  // If fee is fully paid (paid_amount >= amount), it should be paid
-  if ((fee.paid_amount || 0) >= fee.amount) {
-    return 'paid'
-  }
-
-  // Parse dates safely to avoid timezone issues
-  // Parse due_date as YYYY-MM-DD format (local time, not UTC)
-  const dueDateParts = fee.due_date.split('-')
-  if (dueDateParts.length !== 3) {
-    logger.warn('Invalid due_date format', { dueDate: fee.due_date, feeId: fee.id })
-    return 'pending' // Default to pending if date is invalid
-  }
-
-  const dueYear = parseInt(dueDateParts[0], 10)
-  const dueMonth = parseInt(dueDateParts[1], 10) - 1 // Month is 0-indexed
-  const dueDay = parseInt(dueDateParts[2], 10)
-
-  // Create date objects in local timezone (not UTC)
-  const today = new Date()
-  today.setHours(0, 0, 0, 0)
-  
-  const dueDate = new Date(dueYear, dueMonth, dueDay)
-  dueDate.setHours(0, 0, 0, 0)
-
-  // Validate dates
-  if (isNaN(today.getTime()) || isNaN(dueDate.getTime())) {
-    logger.warn('Invalid date created', { today: today.getTime(), dueDate: dueDate.getTime(), feeId: fee.id })
-    return 'pending'
-  }
-
-  // Compare dates: if due date is in the future, it's pending
-  if (dueDate > today) {
-    return 'pending'
-  }
-
-  // If due date is today, it's still pending (not overdue until tomorrow)
-  if (dueDate.getTime() === today.getTime()) {
-    return 'pending'
-  }
-
-  // If due date has passed and fee is not fully paid, it's overdue
-  if (dueDate < today) {
-    return 'overdue'
-  }
-
-  // Default to pending
-  return 'pending'
-}
-
-/**
- * Ensure monthly fees are generated up to (and including) the month that covers "today".
- *
- * Rules:
- * - Next monthly fee is generated ONLY when today > last_period_end_date.
- * - If multiple months were missed, generate all missing months until today is covered.
- * - Generation is time-driven (called from getStudentFees), not payment-driven.
- */
-async function ensureMonthlyFeesUpToDate(studentId: string): Promise<void> {
-  try {
-    if (!supabaseAdmin) return
-
-    // Get the latest monthly fee by period_end_date
-    const { data, error } = await supabaseAdmin
-      .from('student_fees')
-      .select('*')
-      .eq('student_id', studentId)
-      .eq('fee_type', 'monthly')
-      .not('period_end_date', 'is', null)
-      .order('period_end_date', { ascending: false })
-      .limit(1)
-
-    if (error || !data || data.length === 0) {
-      // No monthly fees yet – nothing to extend here
-      return
-    }
-
-    let lastFee = data[0] as StudentFee
-    if (!lastFee.period_end_date) {
-      return
-    }
-
-    let lastPeriodEnd = parseLocalDate(lastFee.period_end_date)
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-
-    // Safety guard: don't generate an unbounded number of months in one call
-    let iterations = 0
-    const MAX_MONTHS_TO_GENERATE = 36
-
-    // While today is strictly after the last period end, generate the next period
-    while (lastPeriodEnd < today && iterations < MAX_MONTHS_TO_GENERATE) {
-      const created = await generateNextPeriodFee(studentId, 'monthly', lastFee.period_end_date)
-      if (!created || !created.period_end_date) {
-        break
-      }
-
-      lastFee = created
-      lastPeriodEnd = parseLocalDate(created.period_end_date)
-      iterations += 1
-    }
-  } catch (error) {
-    logger.error('Unexpected error ensuring monthly fees are up to date', error as Error, { studentId })
-  }
-}
-
-/**
- * Ensure yearly fees are generated up to date following these rules:
- *
- * - Next yearly fee should become visible when today >= (period_end_date - 1 month).
- * - Only one yearly fee per yearly period.
- * - If multiple years were missed, generate all missing yearly fees until today is covered.
- *
- * This is called from getStudentFees (time-driven), not from payments.
- */
-async function ensureYearlyFeesUpToDate(studentId: string): Promise<void> {
-  try {
-    if (!supabaseAdmin) return
-
-    // Respect student's payment preference – only work for yearly plans
-    const prefResult = await getStudentPaymentPreference(studentId)
-    if (!prefResult.preference || prefResult.preference.payment_type !== 'yearly') {
-      return
-    }
-
-    // Get latest yearly fee (any status) by period_end_date
-    const { data, error } = await supabaseAdmin
-      .from('student_fees')
-      .select('*')
-      .eq('student_id', studentId)
-      .eq('fee_type', 'yearly')
-      .not('period_end_date', 'is', null)
-      .order('period_end_date', { ascending: false })
-      .limit(1)
-
-    if (error || !data || data.length === 0) {
-      // No yearly fees yet – nothing to extend here
-      return
-    }
-
-    let lastFee = data[0] as StudentFee
-    if (!lastFee.period_end_date) {
-      return
-    }
-
-    let lastPeriodEndStr = lastFee.period_end_date
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-
-    let iterations = 0
-    const MAX_YEARS_TO_GENERATE = 10
-
-    while (iterations < MAX_YEARS_TO_GENERATE) {
-      const lastPeriodEnd = parseLocalDate(lastPeriodEndStr)
-      const oneMonthBefore = subtractMonths(lastPeriodEnd, 1)
-
-      // If today is before one month before the current period end AND
-      // the current period still covers today, we are up to date
-      if (today < oneMonthBefore && today <= lastPeriodEnd) {
-        break
-      }
-
-      // If today is before one month before but already after lastPeriodEnd,
-      // we are historically behind – still generate the next period.
-      if (today >= oneMonthBefore) {
-        const created = await generateNextPeriodFee(studentId, 'yearly', lastPeriodEndStr)
-        if (!created || !created.period_end_date) {
-          break
-        }
-        lastFee = created
-        lastPeriodEndStr = created.period_end_date
-        iterations += 1
-
-        // After generating the next year's fee, loop again to see if more are needed
-        continue
-      }
-
-      break
-    }
-  } catch (error) {
-    logger.error('Unexpected error ensuring yearly fees are up to date', error as Error, { studentId })
-  }
+  const result = await callAdminApi('fees.createStudentFee', data)
+  if (result.error) return { fee: null, error: result.error }
+  return { fee: result.data.fee, error: null }
 }
 
 /**
  * Get all fees for a student
+ * The server brings monthly/yearly fees up to date before returning them
  */
 export async function getStudentFees(
   studentId: string,
@@ -705,374 +531,158 @@ export async function getStudentFees(
     feeType?: FeeType | 'all'
   }
 ): Promise<{ fees: StudentFee[]; error: null } | { fees: null; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { fees: null, error: new Error('Service role key not configured') }
-    }
-
-    // TIME-DRIVEN BILLING ENGINE
-    // Before reading fees, make sure monthly and yearly fees are generated
-    // up to the current date according to the billing rules.
-    await ensureMonthlyFeesUpToDate(studentId)
-    await ensureYearlyFeesUpToDate(studentId)
-
-    let query = supabaseAdmin.from('student_fees').select('*').eq('student_id', studentId)
-
-    if (options?.status && options.status !== 'all') {
-      query = query.eq('status', options.status)
-    }
-
-    if (options?.feeType && options.feeType !== 'all') {
-      query = query.eq('fee_type', options.feeType)
-    }
-
-    const { data, error } = await query.order('due_date', { ascending: false })
-
-    if (error) {
-      logger.error('Error fetching student fees', error as Error)
-      return { fees: null, error: new Error(error.message) }
-    }
-
-    // Correct status for each fee based on due date
-    const correctedFees = (data || []).map((fee: StudentFee) => {
-      const correctStatus = getCorrectFeeStatus(fee)
-      // If status is incorrect, update it in the database (async, don't wait)
-      if (fee.status !== correctStatus && fee.status !== 'paid') {
-        // Only update if it's not paid (paid status should never change)
-        // Log the correction for debugging
-        logger.debug('Correcting fee status in getStudentFees', {
-          feeId: fee.id,
-          oldStatus: fee.status,
-          newStatus: correctStatus,
-          dueDate: fee.due_date,
-          today: new Date().toISOString().split('T')[0],
-        })
-        Promise.resolve(
-          supabaseAdmin
-            .from('student_fees')
-            .update({ status: correctStatus })
-            .eq('id', fee.id)
-        )
-          .then(() => {
-            logger.debug('Fee status corrected in database', { feeId: fee.id, newStatus: correctStatus })
-          })
-          .catch((err) => {
-            logger.error('Error correcting fee status in database', err as Error, { feeId: fee.id })
-          })
-      }
-      // Always return the corrected status in the response, even if DB update is pending
-      return { ...fee, status: correctStatus }
-    })
-
-    return { fees: correctedFees as StudentFee[], error: null }
-  } catch (error) {
-    logger.error('Unexpected error fetching student fees', error as Error)
-    return {
-      fees: null,
-      error: error instanceof Error ? error : new Error('Failed to fetch student fees'),
-    }
-  }
+  const { data, error } = await callAdminApi('fees.getStudentFees', { studentId, ...options })
+  if (error) return { fees: null, error }
+  return { fees: data.fees, error: null }
 }
 
 /**
  * Record payment for a student fee
+ * The receipt number is allocated by the server (sequential per branch)
  */
 export async function recordPayment(
   studentFeeId: string,
   paymentData: {
     amount: number
     paymentMethod: string
-    receiptNumber?: string | null
     notes?: string | null
-    recordedById: string
+    paymentReference?: string | null // UPI transaction reference (UTR)
+    excessToCredit?: boolean // Keep any amount above the remaining balance as student credit
   }
-): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { success: false, error: new Error('Service role key not configured') }
-    }
-
-    // Get current fee
-    const { data: fee, error: fetchError } = await supabaseAdmin
-      .from('student_fees')
-      .select('*')
-      .eq('id', studentFeeId)
-      .single()
-
-    if (fetchError || !fee) {
-      logger.error('Error fetching student fee for payment', fetchError as Error)
-      return { success: false, error: new Error('Student fee not found') }
-    }
-
-    if (fee.status === 'paid') {
-      return { success: false, error: new Error('Fee is already paid') }
-    }
-
-    // Validate payment amount
-    if (paymentData.amount <= 0) {
-      return { success: false, error: new Error('Payment amount must be greater than zero') }
-    }
-
-    const currentPaidAmount = fee.paid_amount || 0
-    const remainingAmount = fee.amount - currentPaidAmount
-
-    if (paymentData.amount > remainingAmount) {
-      return {
-        success: false,
-        error: new Error(`Payment amount (₹${paymentData.amount.toFixed(2)}) exceeds remaining balance (₹${remainingAmount.toFixed(2)})`),
-      }
-    }
-
-    const newPaidAmount = currentPaidAmount + paymentData.amount
-    const totalAmount = fee.amount
-
-    // Update fee with race condition protection: only update if paid_amount hasn't changed
-    const updateData: any = {
-      paid_amount: newPaidAmount,
-      recorded_by_id: paymentData.recordedById,
-      payment_method: paymentData.paymentMethod,
-      receipt_number: paymentData.receiptNumber || null,
-      notes: paymentData.notes || null,
-    }
-
-    // If fully paid, only update fee status – generation of the next period
-    // is handled by time-driven helpers (ensureMonthlyFeesUpToDate / ensureYearlyFeesUpToDate)
-    if (newPaidAmount >= totalAmount) {
-      updateData.status = 'paid'
-      updateData.paid_at = new Date().toISOString()
-    }
-
-    // Use WHERE clause to ensure paid_amount hasn't changed (race condition protection)
-    const { error: updateError } = await supabaseAdmin
-      .from('student_fees')
-      .update(updateData)
-      .eq('id', studentFeeId)
-      .eq('paid_amount', currentPaidAmount) // Only update if paid_amount hasn't changed
-
-    if (updateError) {
-      logger.error('Error recording payment', updateError as Error)
-      return { success: false, error: new Error(updateError.message) }
-    }
-
-    // Check if update actually happened (race condition check)
-    const { data: updatedFee, error: verifyError } = await supabaseAdmin
-      .from('student_fees')
-      .select('paid_amount')
-      .eq('id', studentFeeId)
-      .single()
+): Promise<{ success: boolean; payment: FeePayment | null; error: null } | { success: false; payment: null; error: Error }> {
+  const { data, error } = await callAdminApi('fees.recordPayment', { studentFeeId, ...paymentData })
+  if (error) return { success: false, payment: null, error }
+  return { success: true, payment: data.payment, error: null }
+}
 
-    if (verifyError || !updatedFee) {
-      logger.error('Error verifying payment update', verifyError as Error)
-      return { success: false, error: new Error('Failed to verify payment was recorded') }
-    }
+/**
+ * Record a batch of payments (e.g. from an imported bank statement)
+ * Returns one result per entry, in order; failed entries carry their error message
+ */
+export async function recordBulkPayments(
+  entries: Array<{
+    studentFeeId: string
+    amount: number
+    paymentMethod: string
+    paymentReference?: string | null
+    notes?: string | null
+  }>
+): Promise<
+  | {
+      results: Array<{ studentFeeId: string; payment: FeePayment | null; error: string | null }>
+      error: null
+    }
+  | { results: null; error: Error }
+> {
+  const { data, error } = await callAdminApi('fees.recordBulkPayments', { entries })
+  if (error) return { results: null, error }
+  return { results: data.results, error: null }
+}
 
-    // If paid_amount didn't change, it means another payment was recorded concurrently
-    if (updatedFee.paid_amount !== newPaidAmount) {
-      logger.warn('Payment recording conflict detected', {
-        studentFeeId,
-        expectedPaidAmount: newPaidAmount,
-        actualPaidAmount: updatedFee.paid_amount,
-      })
-      return {
-        success: false,
-        error: new Error('Payment conflict: Another payment was recorded simultaneously. Please try again.'),
-      }
-    }
+/**
+ * Record a batch of UPI payments matched to fees during reconciliation
+ * Returns one result per entry; failed entries carry their error message
+ */
+export async function recordUpiPayments(
+  entries: Array<{ studentFeeId: string; amount: number; reference: string }>
+): Promise<
+  | {
+      results: Array<{ reference: string; studentFeeId: string; payment: FeePayment | null; error: string | null }>
+      error: null
+    }
+  | { results: null; error: Error }
+> {
+  const { data, error } = await callAdminApi('fees.recordUpiPayments', { entries })
+  if (error) return { results: null, error }
+  return { results: data.results, error: null }
+}
 
-    logger.info('Payment recorded successfully', { studentFeeId, amount: paymentData.amount })
-    return { success: true, error: null }
-  } catch (error) {
-    logger.error('Unexpected error recording payment', error as Error)
-    return {
-      success: false,
-      error: error instanceof Error ? error : new Error('Failed to record payment'),
-    }
+/**
+ * Record a prepayment covering the next N monthly fees (for admin)
+ * Future months are generated ahead of time; any remainder goes to the student's credit
+ */
+export async function recordPrepayment(
+  studentId: string,
+  data: {
+    months: number
+    amount: number
+    paymentMethod: string
+    paymentReference?: string | null
+    notes?: string | null
   }
+): Promise<
+  | { allocations: PrepaymentAllocation[]; creditAdded: number; error: null }
+  | { allocations: null; creditAdded: null; error: Error }
+> {
+  const { data: result, error } = await callAdminApi('fees.recordPrepayment', { studentId, ...data })
+  if (error) return { allocations: null, creditAdded: null, error }
+  return { allocations: result.allocations, creditAdded: result.creditAdded, error: null }
 }
 
 /**
- * Generate next period fee for monthly/yearly payments
+ * Grant a student credit as a discount; the next fee created uses it up
  */
-async function generateNextPeriodFee(
+export async function grantStudentCredit(
   studentId: string,
-  feeType: 'monthly' | 'yearly',
-  previousPeriodEndDate: string | null
-): Promise<StudentFee | null> {
-  try {
-    if (!previousPeriodEndDate) {
-      logger.warn('Cannot generate next period fee: no previous period end date', { studentId, feeType })
-      return null
-    }
-
-    // Get student's branch and payment preference
-    const { data: student, error: studentError } = await supabaseAdmin
-      .from('students')
-      .select('branch_id, is_active')
-      .eq('id', studentId)
-      .single()
-
-    if (studentError || !student) {
-      logger.error('Error fetching student for next period fee', studentError as Error)
-      return
-    }
-
-    if (!student.is_active) {
-      logger.warn('Cannot generate next period fee for inactive student', { studentId })
-      return
-    }
-
-    // Check payment preference matches fee type
-    const prefResult = await getStudentPaymentPreference(studentId)
-    if (prefResult.preference && prefResult.preference.payment_type !== feeType) {
-      logger.info('Payment preference changed, skipping fee generation', {
-        studentId,
-        feeType,
-        currentPreference: prefResult.preference.payment_type,
-      })
-      return
-    }
-
-    // Get current fee amount (global fees, no branch_id needed)
-    const feeResult = await getFeeConfiguration(feeType)
-    if (feeResult.error || !feeResult.fee) {
-      logger.error('Error fetching fee configuration for next period', feeResult.error || new Error('Fee not found'))
-      return
-    }
-
-    // Get enrollment day from payment preference for monthly fees
-    let enrollmentDay: number | null = null
-    if (feeType === 'monthly' && prefResult.preference) {
-      const enrollmentDateObj = parseLocalDate(prefResult.preference.started_from)
-      enrollmentDay = enrollmentDateObj.getDate()
-    }
-    
-    // Parse the previous period end date properly (stored as YYYY-MM-DD)
-    const previousEnd = parseLocalDate(previousPeriodEndDate)
-    
-    let periodStart: Date
-    let periodEnd: Date
-    let dueDate: Date
-
-    if (feeType === 'monthly') {
-      // For monthly fees: due date should always be the enrollment day of the next month
-      // Get the next month's enrollment day
-      const nextMonth = new Date(previousEnd)
-      nextMonth.setMonth(nextMonth.getMonth() + 1)
-      
-      if (enrollmentDay) {
-        // Use enrollment day of next month
-        dueDate = new Date(nextMonth.getFullYear(), nextMonth.getMonth(), enrollmentDay)
-      } else {
-        // Fallback: use the same day as previous period end (shouldn't happen, but safety)
-        dueDate = new Date(nextMonth.getFullYear(), nextMonth.getMonth(), previousEnd.getDate())
-      }
-      
-      dueDate.setHours(0, 0, 0, 0)
-      
-      // Period should cover from previous enrollment day to day before due date
-      // Period start: previous month's enrollment day (or day after previous period end)
-      periodStart = new Date(previousEnd)
-      periodStart.setDate(periodStart.getDate() + 1) // Day after previous period ends
-      periodStart.setHours(0, 0, 0, 0)
-      
-      // Period end: day before due date (end of day)
-      periodEnd = new Date(dueDate)
-      periodEnd.setDate(periodEnd.getDate() - 1)
-      periodEnd.setHours(23, 59, 59, 999)
-    } else {
-      // For yearly fees: period starts the day after previous period ends
-      periodStart = new Date(previousEnd)
-      periodStart.setDate(periodStart.getDate() + 1)
-      periodStart.setHours(0, 0, 0, 0)
-
-      // Calculate period end
-      periodEnd = new Date(periodStart)
-      // yearly - add exactly 1 year
-      const startYear = periodStart.getFullYear()
-      const startMonth = periodStart.getMonth()
-      const startDay = periodStart.getDate()
-      
-      // Set to exactly 1 year later
-      periodEnd.setFullYear(startYear + 1, startMonth, startDay)
-      
-      // Handle leap year edge case (Feb 29 -> Feb 28 in non-leap year)
-      if (periodEnd.getDate() !== startDay) {
-        // Leap year adjustment needed
-        periodEnd.setDate(0) // Go to last day of previous month (Feb 28)
-      }
-      periodEnd.setHours(23, 59, 59, 999) // End of day
-
-      // Due date is one month before period end (available to pay from one month before)
-      // Calculate one month before period end to determine due date
-      const oneMonthBeforeEnd = subtractMonths(periodEnd, 1)
-      dueDate = new Date(oneMonthBeforeEnd)
-      dueDate.setHours(0, 0, 0, 0)
-    }
-
-    const newPeriodStartStr = periodStart.toISOString().split('T')[0]
-    const newPeriodEndStr = periodEnd.toISOString().split('T')[0]
-
-    // Strong duplicate protection: check for ANY overlapping period (all statuses)
-    const { data: existingFees } = await supabaseAdmin
-      .from('student_fees')
-      .select('id, period_start_date, period_end_date, status')
-      .eq('student_id', studentId)
-      .eq('fee_type', feeType)
-      .not('period_start_date', 'is', null)
-      .not('period_end_date', 'is', null)
+  data: { amount: number; notes: string }
+): Promise<{ transaction: StudentCreditTransaction | null; error: null } | { transaction: null; error: Error }> {
+  const { data: result, error } = await callAdminApi('fees.grantCredit', { studentId, ...data })
+  if (error) return { transaction: null, error }
+  return { transaction: result.transaction, error: null }
+}
 
-    if (existingFees) {
-      for (const existing of existingFees) {
-        if (
-          existing.period_start_date <= newPeriodEndStr &&
-          existing.period_end_date >= newPeriodStartStr
-        ) {
-          logger.info('Overlapping fee period detected, skipping next period generation', {
-            studentId,
-            feeType,
-            newPeriod: { start: newPeriodStartStr, end: newPeriodEndStr },
-            existingPeriod: {
-              start: existing.period_start_date,
-              end: existing.period_end_date,
-              status: existing.status,
-            },
-          })
-          return null
-        }
-      }
-    }
+/**
+ * Get a student's credit balance and its movements (newest first)
+ */
+export async function getStudentCredit(
+  studentId: string
+): Promise<
+  | { balance: number; transactions: StudentCreditTransaction[]; error: null }
+  | { balance: null; transactions: null; error: Error }
+> {
+  const { data, error } = await callAdminApi('fees.getCredit', { studentId })
+  if (error) return { balance: null, transactions: null, error }
+  return { balance: data.balance, transactions: data.transactions, error: null }
+}
 
-    // Create next period fee
-    const createdResult = await createStudentFee({
-      studentId,
-      feeType,
-      amount: feeResult.fee.amount,
-      dueDate: dueDate.toISOString().split('T')[0],
-      periodStartDate: newPeriodStartStr,
-      periodEndDate: newPeriodEndStr,
-    })
+/**
+ * Get payment history for a student (one entry per instalment, newest first)
+ * Pass studentFeeId to limit it to a single fee
+ */
+export async function getStudentPayments(
+  studentId: string,
+  studentFeeId?: string
+): Promise<{ payments: FeePayment[]; error: null } | { payments: null; error: Error }> {
+  const { data, error } = await callAdminApi('fees.getPayments', { studentId, studentFeeId })
+  if (error) return { payments: null, error }
+  return { payments: data.payments, error: null }
+}
 
-    if (createdResult.error || !createdResult.fee) {
-      logger.error('Error creating next period fee', createdResult.error as Error, {
-        studentId,
-        feeType,
-        periodStart: newPeriodStartStr,
-        periodEnd: newPeriodEndStr,
-      })
-      return null
-    }
+/**
+ * Reverse a payment recorded by mistake
+ * The fee's paid amount and status are recomputed; the reversal is audited
+ */
+export async function reversePayment(
+  paymentId: string,
+  reason: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  const { error } = await callAdminApi('fees.reversePayment', { paymentId, reason })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
+}
 
-    logger.info('Next period fee generated', {
-      studentId,
-      feeType,
-      periodStart: newPeriodStartStr,
-      periodEnd: newPeriodEndStr,
-    })
-    return createdResult.fee
-  } catch (error) {
-    logger.error('Unexpected error generating next period fee', error as Error)
-    return null
-  }
+/**
+ * Refund a payment to the student
+ * With toCredit the amount is kept as student credit instead of being paid back
+ */
+export async function refundPayment(
+  paymentId: string,
+  reason: string,
+  toCredit = false
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  const { error } = await callAdminApi('fees.refundPayment', { paymentId, reason, toCredit })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
 }
 
 /**
@@ -1083,256 +693,9 @@ export async function initializeStudentFees(
   paymentType: PaymentType,
   enrollmentDate: string
 ): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
-  try {
-    // Set payment preference (use enrollment date for historical record)
-    await setStudentPaymentPreference(studentId, paymentType, enrollmentDate)
-
-    // Parse enrollment date to extract the day of month
-    const enrollmentDateObj = parseLocalDate(enrollmentDate)
-    const enrollmentDay = enrollmentDateObj.getDate() // Get day of month (1-31)
-    const enrollmentMonth = enrollmentDateObj.getMonth() // Get month (0-11)
-    
-    // Get today's date
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    const todayDay = today.getDate()
-    const todayMonth = today.getMonth()
-    const todayYear = today.getFullYear()
-
-    // Get registration fee (global, no branch_id needed)
-    const regFeeResult = await getFeeConfiguration('registration')
-    if (regFeeResult.error || !regFeeResult.fee) {
-      logger.warn('Registration fee not configured')
-    } else {
-      // Create registration fee with enrollment date (historical record)
-      await createStudentFee({
-        studentId,
-        feeType: 'registration',
-        amount: regFeeResult.fee.amount,
-        dueDate: enrollmentDate,
-      })
-    }
-
-    // Get monthly/yearly fee (global, no branch_id needed)
-    const periodFeeResult = await getFeeConfiguration(paymentType)
-    if (periodFeeResult.error || !periodFeeResult.fee) {
-      logger.warn(`${paymentType} fee not configured`)
-    } else {
-      // Calculate period start date and due date based on enrollment day pattern
-      let periodStart: Date
-      let periodEnd: Date
-      let dueDate: Date
-      
-      if (paymentType === 'monthly') {
-        // For monthly fees: due date should always be the enrollment day of the month
-        // If enrollment day hasn't passed this month, due date is this month
-        // If enrollment day has passed this month, due date is next month
-        
-        if (todayDay < enrollmentDay) {
-          // Enrollment day hasn't passed this month - due date is this month
-          dueDate = new Date(todayYear, todayMonth, enrollmentDay)
-        } else {
-          // Enrollment day has passed this month - due date is next month
-          dueDate = new Date(todayYear, todayMonth + 1, enrollmentDay)
-        }
-        
-        dueDate.setHours(0, 0, 0, 0)
-        
-        // Period should cover from previous enrollment day to day before due date
-        // Period start: previous month's enrollment day
-        periodStart = new Date(dueDate)
-        periodStart.setMonth(periodStart.getMonth() - 1)
-        periodStart.setHours(0, 0, 0, 0)
-        
-        // Period end: day before due date (end of day)
-        periodEnd = new Date(dueDate)
-        periodEnd.setDate(periodEnd.getDate() - 1)
-        periodEnd.setHours(23, 59, 59, 999)
-      } else {
-        // For yearly fees: period should start from enrollment date (or today if enrollment is in the past)
-        const enrollmentYear = enrollmentDateObj.getFullYear()
-        
-        // If enrollment date is today or in the future, start period from enrollment date
-        if (enrollmentDateObj >= today) {
-          // Enrollment is today or future - use enrollment date as period start
-          periodStart = new Date(enrollmentYear, enrollmentMonth, enrollmentDay)
-        } else {
-          // Enrollment is in the past - align with enrollment day but use current or next year
-          if (todayMonth < enrollmentMonth || (todayMonth === enrollmentMonth && todayDay < enrollmentDay)) {
-            // Enrollment day hasn't passed this year - use current year with enrollment month/day
-            periodStart = new Date(todayYear, enrollmentMonth, enrollmentDay)
-          } else {
-            // Enrollment day has passed this year - use next year with enrollment month/day
-            periodStart = new Date(todayYear + 1, enrollmentMonth, enrollmentDay)
-          }
-        }
-        
-        periodStart.setHours(0, 0, 0, 0)
-        
-        // Calculate period end date
-        periodEnd = new Date(periodStart)
-        // yearly - add exactly 1 year
-        const startYear = periodStart.getFullYear()
-        const startMonth = periodStart.getMonth()
-        const startDay = periodStart.getDate()
-        
-        // Set to exactly 1 year later
-        periodEnd.setFullYear(startYear + 1, startMonth, startDay)
-        
-        // Handle leap year edge case (Feb 29 -> Feb 28 in non-leap year)
-        if (periodEnd.getDate() !== startDay) {
-          // Leap year adjustment needed
-          periodEnd.setDate(0) // Go to last day of previous month (Feb 28)
-        }
-        periodEnd.setHours(23, 59, 59, 999) // End of day
-
-        // Due date is the enrollment date (immediate collection on first day)
-        // For initial yearly fee, collect on enrollment date
-        // Next yearly fee will be due one month before period end (handled by ensureUpcomingYearlyFee)
-        dueDate = new Date(periodStart) // Use period start (enrollment date) as due date
-        dueDate.setHours(0, 0, 0, 0)
-      }
-
-      // Create first period fee
-      await createStudentFee({
-        studentId,
-        feeType: paymentType,
-        amount: periodFeeResult.fee.amount,
-        dueDate: dueDate.toISOString().split('T')[0],
-        periodStartDate: periodStart.toISOString().split('T')[0],
-        periodEndDate: periodEnd.toISOString().split('T')[0],
-      })
-
-      logger.info('Student fees initialized with aligned period', {
-        studentId,
-        paymentType,
-        enrollmentDate,
-        enrollmentDay,
-        periodStart: periodStart.toISOString().split('T')[0],
-        periodEnd: periodEnd.toISOString().split('T')[0],
-        dueDate: dueDate.toISOString().split('T')[0],
-      })
-    }
-
-    logger.info('Student fees initialized', { studentId, paymentType, enrollmentDate })
-    return { success: true, error: null }
-  } catch (error) {
-    logger.error('Unexpected error initializing student fees', error as Error)
-    return {
-      success: false,
-      error: error instanceof Error ? error : new Error('Failed to initialize student fees'),
-    }
-  }
-}
-
-/**
- * Record belt grading and create grading fee
- */
-export async function recordBeltGrading(data: {
-  studentId: string
-  fromBelt: string
-  toBelt: string
-  gradingDate: string
-  createdById: string
-}): Promise<{ grading: BeltGrading | null; fee: StudentFee | null; error: null } | { grading: null; fee: null; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { grading: null, fee: null, error: new Error('Service role key not configured') }
-    }
-
-    // Get student's branch and current belt
-    const { data: student, error: studentError } = await supabaseAdmin
-      .from('students')
-      .select('branch_id, current_belt, is_active')
-      .eq('id', data.studentId)
-      .single()
-
-    if (studentError || !student) {
-      logger.error('Error fetching student for belt grading', studentError as Error)
-      return { grading: null, fee: null, error: new Error('Student not found') }
-    }
-
-    if (!student.is_active) {
-      return { grading: null, fee: null, error: new Error('Cannot grade belt for inactive student') }
-    }
-
-    // Validate from_belt matches current_belt
-    if (student.current_belt !== data.fromBelt) {
-      logger.warn('Belt mismatch in grading', {
-        studentId: data.studentId,
-        currentBelt: student.current_belt,
-        fromBelt: data.fromBelt,
-      })
-      return {
-        grading: null,
-        fee: null,
-        error: new Error(`Student's current belt is ${student.current_belt}, not ${data.fromBelt}`),
-      }
-    }
-
-    // Get grading fee for the TO belt (the belt they're upgrading to)
-    const gradingFeeResult = await getFeeConfiguration('grading', data.toBelt)
-    if (gradingFeeResult.error || !gradingFeeResult.fee) {
-      logger.warn('Grading fee not configured for belt', { belt: data.toBelt })
-    }
-
-    // Create belt grading record
-    const { data: grading, error: gradingError } = await supabaseAdmin
-      .from('belt_gradings')
-      .insert({
-        student_id: data.studentId,
-        from_belt: data.fromBelt,
-        to_belt: data.toBelt,
-        grading_date: data.gradingDate,
-        fee_amount: gradingFeeResult.fee?.amount || null,
-        created_by_id: data.createdById,
-      })
-      .select()
-      .single()
-
-    if (gradingError || !grading) {
-      logger.error('Error creating belt grading', gradingError as Error)
-      return { grading: null, fee: null, error: new Error(gradingError?.message || 'Failed to create belt grading') }
-    }
-
-    // Update student's current belt
-    await supabaseAdmin
-      .from('students')
-      .update({ current_belt: data.toBelt })
-      .eq('id', data.studentId)
-
-    // Create grading fee if fee is configured
-    let fee: StudentFee | null = null
-    if (gradingFeeResult.fee) {
-      const feeResult = await createStudentFee({
-        studentId: data.studentId,
-        feeType: 'grading',
-        amount: gradingFeeResult.fee.amount,
-        dueDate: data.gradingDate,
-        beltGradingId: grading.id,
-      })
-
-      if (feeResult.fee) {
-        fee = feeResult.fee
-
-        // Update grading record with fee ID
-        await supabaseAdmin
-          .from('belt_gradings')
-          .update({ student_fee_id: fee.id })
-          .eq('id', grading.id)
-      }
-    }
-
-    logger.info('Belt grading recorded successfully', { studentId: data.studentId, fromBelt: data.fromBelt, toBelt: data.toBelt })
-    return { grading: grading as BeltGrading, fee, error: null }
-  } catch (error) {
-    logger.error('Unexpected error recording belt grading', error as Error)
-    return {
-      grading: null,
-      fee: null,
-      error: error instanceof Error ? error : new Error('Failed to record belt grading'),
-    }
-  }
+  const { error } = await callAdminApi('fees.initializeStudentFees', { studentId, paymentType, enrollmentDate })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
 }
 
 /**
@@ -1344,194 +707,14 @@ export async function switchPaymentPreference(
   newPaymentType: PaymentType,
   switchDate: string
 ): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { success: false, error: new Error('Service role key not configured') }
-    }
-
-    // Validate switch date format
-    let switchDateObj: Date
-    try {
-      switchDateObj = parseLocalDate(switchDate)
-    } catch {
-      return { success: false, error: new Error('Invalid switch date format. Use YYYY-MM-DD') }
-    }
-
-    // Get current preference
-    const currentPrefResult = await getStudentPaymentPreference(studentId)
-    if (currentPrefResult.error) {
-      return { success: false, error: currentPrefResult.error }
-    }
-
-    // If already on this payment type, no change needed
-    if (currentPrefResult.preference?.payment_type === newPaymentType) {
-      return { success: true, error: null }
-    }
-
-    // Get student's branch and current preference
-    const { data: student, error: studentError } = await supabaseAdmin
-      .from('students')
-      .select('branch_id, is_active')
-      .eq('id', studentId)
-      .single()
-
-    if (studentError || !student) {
-      return { success: false, error: new Error('Student not found') }
-    }
-
-    if (!student.is_active) {
-      return { success: false, error: new Error('Cannot switch payment preference for inactive student') }
-    }
-
-    // Get current preference
-    const currentPref = currentPrefResult.preference
-    const oldPaymentType = currentPref?.payment_type
-
-    // Check for pending fees of old type (for logging, but don't modify them)
-    if (oldPaymentType) {
-      const { data: pendingFees } = await supabaseAdmin
-        .from('student_fees')
-        .select('id, fee_type, due_date, amount')
-        .eq('student_id', studentId)
-        .eq('fee_type', oldPaymentType)
-        .in('status', ['pending', 'overdue'])
-
-      if (pendingFees && pendingFees.length > 0) {
-        logger.info('Found pending fees of old payment type (will remain pending for admin to handle)', {
-          studentId,
-          oldType: oldPaymentType,
-          pendingFeesCount: pendingFees.length,
-        })
-      }
-    }
-
-    // Update payment preference
-    await setStudentPaymentPreference(studentId, newPaymentType, switchDate)
-
-    // Get fee configuration for new payment type
-    const feeResult = await getFeeConfiguration(newPaymentType)
-    if (feeResult.error || !feeResult.fee) {
-      logger.warn('Fee configuration not found for new payment type, preference updated but no fee created', {
-        studentId,
-        newPaymentType,
-      })
-      return { success: true, error: null } // Still return success, preference is updated
-    }
-
-    // Calculate period and due dates for the first fee of new type
-    let periodStart: Date
-    let periodEnd: Date
-    let dueDate: Date
-
-    if (newPaymentType === 'yearly') {
-      // For yearly: period starts from switch date, ends 1 year later, due date is switch date (immediate collection)
-      periodStart = new Date(switchDateObj)
-      periodStart.setHours(0, 0, 0, 0)
-
-      // Period end: exactly 1 year from switch date, minus 1 day (day before next due date)
-      // Example: Switch date Nov 27, 2025 -> Period end Nov 26, 2026 (day before Nov 27, 2026)
-      const startYear = periodStart.getFullYear()
-      const startMonth = periodStart.getMonth()
-      const startDay = periodStart.getDate()
-
-      // Calculate next year's same date
-      const nextYearDate = new Date(startYear + 1, startMonth, startDay)
-      
-      // Handle leap year edge case (Feb 29 -> Feb 28 in non-leap year)
-      if (nextYearDate.getDate() !== startDay) {
-        nextYearDate.setDate(0) // Go to last day of previous month (Feb 28)
-      }
-
-      // Period end is day before next due date (next year's switch date - 1 day)
-      periodEnd = new Date(nextYearDate)
-      periodEnd.setDate(periodEnd.getDate() - 1)
-      periodEnd.setHours(23, 59, 59, 999)
-
-      // Due date is switch date (immediate collection)
-      dueDate = new Date(switchDateObj)
-      dueDate.setHours(0, 0, 0, 0)
-    } else {
-      // For monthly: period starts from switch date, ends 1 month later, due date is switch date (immediate collection)
-      periodStart = new Date(switchDateObj)
-      periodStart.setHours(0, 0, 0, 0)
-
-      // Period end: exactly 1 month from switch date, minus 1 day
-      periodEnd = new Date(periodStart)
-      periodEnd.setMonth(periodEnd.getMonth() + 1)
-
-      // Handle month overflow (e.g., Jan 31 + 1 month should be Feb 28/29, not Mar 3)
-      if (periodEnd.getDate() !== periodStart.getDate()) {
-        // Date changed due to month overflow, set to last day of target month
-        periodEnd.setDate(0) // Go to last day of previous month
-      }
-
-      // Period end is day before next due date
-      periodEnd.setDate(periodEnd.getDate() - 1)
-      periodEnd.setHours(23, 59, 59, 999)
-
-      // Due date is switch date (immediate collection)
-      dueDate = new Date(switchDateObj)
-      dueDate.setHours(0, 0, 0, 0)
-    }
-
-    // Check if fee already exists for this period (avoid duplicates)
-    const { data: existingFee } = await supabaseAdmin
-      .from('student_fees')
-      .select('id')
-      .eq('student_id', studentId)
-      .eq('fee_type', newPaymentType)
-      .eq('period_start_date', periodStart.toISOString().split('T')[0])
-      .eq('period_end_date', periodEnd.toISOString().split('T')[0])
-      .maybeSingle()
-
-    if (existingFee) {
-      logger.info('Fee for this period already exists, skipping creation', {
-        studentId,
-        newPaymentType,
-        periodStart: periodStart.toISOString().split('T')[0],
-      })
-      return { success: true, error: null }
-    }
-
-    // Create first fee of new payment type
-    const feeCreateResult = await createStudentFee({
-      studentId,
-      feeType: newPaymentType,
-      amount: feeResult.fee.amount,
-      dueDate: dueDate.toISOString().split('T')[0],
-      periodStartDate: periodStart.toISOString().split('T')[0],
-      periodEndDate: periodEnd.toISOString().split('T')[0],
-    })
-
-    if (feeCreateResult.error) {
-      logger.error('Error creating fee after payment preference switch', feeCreateResult.error)
-      // Still return success since preference was updated
-      return { success: true, error: null }
-    }
-
-    logger.info('Payment preference switched and first fee created', {
-      studentId,
-      oldType: oldPaymentType,
-      newType: newPaymentType,
-      switchDate,
-      feeId: feeCreateResult.fee?.id,
-      dueDate: dueDate.toISOString().split('T')[0],
-      periodStart: periodStart.toISOString().split('T')[0],
-      periodEnd: periodEnd.toISOString().split('T')[0],
-    })
-
-    return { success: true, error: null }
-  } catch (error) {
-    logger.error('Unexpected error switching payment preference', error as Error)
-    return {
-      success: false,
-      error: error instanceof Error ? error : new Error('Failed to switch payment preference'),
-    }
-  }
+  const { error } = await callAdminApi('fees.switchPaymentPreference', { studentId, newPaymentType, switchDate })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
 }
 
 /**
  * Get all fees (for admin - with filters)
+ * Branch admins only ever receive fees for their own branch
  */
 export async function getAllFees(options?: {
   studentId?: string
@@ -1541,231 +724,133 @@ export async function getAllFees(options?: {
   startDate?: string
   endDate?: string
 }): Promise<{ fees: StudentFee[]; error: null } | { fees: null; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { fees: null, error: new Error('Service role key not configured') }
-    }
-
-    let query = supabaseAdmin
-      .from('student_fees')
-      .select(`
-        *,
-        student:students!student_fees_student_id_fkey(
-          id,
-          first_name,
-          last_name,
-          student_id,
-          branch_id
-        )
-      `)
-
-    if (options?.studentId) {
-      query = query.eq('student_id', options.studentId)
-    }
-
-    // Note: Can't filter by nested field directly in Supabase, will filter client-side
-    // if (options?.branchId) {
-    //   query = query.eq('student.branch_id', options.branchId)
-    // }
-
-    if (options?.status && options.status !== 'all') {
-      query = query.eq('status', options.status)
-    }
-
-    if (options?.feeType && options.feeType !== 'all') {
-      query = query.eq('fee_type', options.feeType)
-    }
-
-    if (options?.startDate) {
-      query = query.gte('due_date', options.startDate)
-    }
-
-    if (options?.endDate) {
-      query = query.lte('due_date', options.endDate)
-    }
-
-    const { data, error } = await query.order('due_date', { ascending: false })
-
-    if (error) {
-      logger.error('Error fetching all fees', error as Error)
-      return { fees: null, error: new Error(error.message) }
-    }
+  const { data, error } = await callAdminApi('fees.getAllFees', options ?? {})
+  if (error) return { fees: null, error }
+  return { fees: data.fees, error: null }
+}
 
-    // Filter by branch_id client-side if specified (since Supabase doesn't support nested field filtering)
-    let filteredData = data || []
-    if (options?.branchId) {
-      filteredData = filteredData.filter((fee: any) => fee.student?.branch_id === options.branchId)
-    }
+/**
+ * Get the fee reminder schedule, earliest reminder first
+ */
+export async function getReminderPolicies(): Promise<
+  { policies: FeeReminderPolicy[]; error: null } | { policies: null; error: Error }
+> {
+  const { data, error } = await callAdminApi('fees.getReminderPolicies', {})
+  if (error) return { policies: null, error }
+  return { policies: data.policies, error: null }
+}
 
-    // Correct status for each fee based on due date
-    const correctedFees = filteredData.map((fee: StudentFee) => {
-      const correctStatus = getCorrectFeeStatus(fee)
-      // If status is incorrect, update it in the database (async, don't wait)
-      if (fee.status !== correctStatus && fee.status !== 'paid') {
-        // Only update if it's not paid (paid status should never change)
-        // Log the correction for debugging
-        logger.debug('Correcting fee status', {
-          feeId: fee.id,
-          oldStatus: fee.status,
-          newStatus: correctStatus,
-          dueDate: fee.due_date,
-          today: new Date().toISOString().split('T')[0],
-        })
-        Promise.resolve(
-          supabaseAdmin
-            .from('student_fees')
-            .update({ status: correctStatus })
-            .eq('id', fee.id)
-        )
-          .then(() => {
-            logger.debug('Fee status corrected in database', { feeId: fee.id, newStatus: correctStatus })
-          })
-          .catch((err) => {
-            logger.error('Error correcting fee status in database', err as Error, { feeId: fee.id })
-          })
-      }
-      // Always return the corrected status in the response, even if DB update is pending
-      return { ...fee, status: correctStatus }
-    })
+/**
+ * Add a reminder to the schedule, or update it when id is given
+ * offsetDays is relative to the due date (negative = before)
+ */
+export async function saveReminderPolicy(policy: {
+  id?: string
+  offsetDays: number
+  channel: ReminderChannel
+  titleTemplate: string
+  messageTemplate: string
+}): Promise<{ policy: FeeReminderPolicy | null; error: null } | { policy: null; error: Error }> {
+  const { data, error } = await callAdminApi('fees.saveReminderPolicy', policy)
+  if (error) return { policy: null, error }
+  return { policy: data.policy, error: null }
+}
 
-    return { fees: correctedFees as StudentFee[], error: null }
-  } catch (error) {
-    logger.error('Unexpected error fetching all fees', error as Error)
-    return {
-      fees: null,
-      error: error instanceof Error ? error : new Error('Failed to fetch fees'),
-    }
-  }
+/**
+ * Remove a reminder from the schedule
+ */
+export async function removeReminderPolicy(
+  policyId: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  const { error } = await callAdminApi('fees.removeReminderPolicy', { policyId })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
 }
 
 /**
- * Get fees due for reminders (3 days before due date)
+ * Get unpaid fees that a reminder is due for today (and has not been sent for yet)
  */
 export async function getFeesDueForReminder(
-  daysBefore: number = 3
+  policyId: string
 ): Promise<{ fees: StudentFee[]; error: null } | { fees: null; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { fees: null, error: new Error('Service role key not configured') }
-    }
+  const { data, error } = await callAdminApi('fees.getFeesDueForReminder', { policyId })
+  if (error) return { fees: null, error }
+  return { fees: data.fees, error: null }
+}
 
-    const reminderDate = new Date()
-    reminderDate.setDate(reminderDate.getDate() + daysBefore)
-    const reminderDateStr = reminderDate.toISOString().split('T')[0]
+/**
+ * Send every reminder that is due today now, instead of waiting for the daily run
+ * Overdue fees are escalated to parents and branch admins in the same run
+ */
+export async function sendFeeReminders(): Promise<
+  | { sent: number; failed: number; escalated: number; error: null }
+  | { sent: null; failed: null; escalated: null; error: Error }
+> {
+  const { data, error } = await callAdminApi('fees.sendReminders', {})
+  if (error) return { sent: null, failed: null, escalated: null, error }
+  return { sent: data.sent, failed: data.failed, escalated: data.escalated, error: null }
+}
 
-    const { data, error } = await supabaseAdmin
-      .from('student_fees')
-      .select('*')
-      .eq('status', 'pending')
-      .eq('due_date', reminderDateStr)
-      .is('reminder_sent_at', null)
+/**
+ * Get the active overdue escalation policy (null when escalation is off)
+ */
+export async function getOverdueEscalationPolicy(): Promise<
+  { policy: OverdueEscalationPolicy | null; error: null } | { policy: null; error: Error }
+> {
+  const { data, error } = await callAdminApi('fees.getOverdueEscalationPolicy', {})
+  if (error) return { policy: null, error }
+  return { policy: data.policy, error: null }
+}
 
-    if (error) {
-      logger.error('Error fetching fees due for reminder', error as Error)
-      return { fees: null, error: new Error(error.message) }
-    }
+/**
+ * Set when overdue fees are escalated to parents and to branch admins (super admin only)
+ */
+export async function setOverdueEscalationPolicy(policy: {
+  parentAfterDays: number
+  adminAfterDays: number
+}): Promise<{ policy: OverdueEscalationPolicy | null; error: null } | { policy: null; error: Error }> {
+  const { data, error } = await callAdminApi('fees.setOverdueEscalationPolicy', policy)
+  if (error) return { policy: null, error }
+  return { policy: data.policy, error: null }
+}
 
-    return { fees: (data || []) as StudentFee[], error: null }
-  } catch (error) {
-    logger.error('Unexpected error fetching fees due for reminder', error as Error)
-    return {
-      fees: null,
-      error: error instanceof Error ? error : new Error('Failed to fetch fees due for reminder'),
-    }
-  }
+/**
+ * Turn overdue escalation off (super admin only)
+ */
+export async function disableOverdueEscalationPolicy(): Promise<
+  { success: boolean; error: null } | { success: false; error: Error }
+> {
+  const { error } = await callAdminApi('fees.disableOverdueEscalationPolicy', {})
+  if (error) return { success: false, error }
+  return { success: true, error: null }
 }
 
 /**
  * Get overdue fees
  */
 export async function getOverdueFees(): Promise<{ fees: StudentFee[]; error: null } | { fees: null; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { fees: null, error: new Error('Service role key not configured') }
-    }
-
-    const today = new Date().toISOString().split('T')[0]
-
-    const { data, error } = await supabaseAdmin
-      .from('student_fees')
-      .select('*')
-      .eq('status', 'pending')
-      .lt('due_date', today)
-      .is('overdue_notification_sent_at', null)
-
-    if (error) {
-      logger.error('Error fetching overdue fees', error as Error)
-      return { fees: null, error: new Error(error.message) }
-    }
-
-    return { fees: (data || []) as StudentFee[], error: null }
-  } catch (error) {
-    logger.error('Unexpected error fetching overdue fees', error as Error)
-    return {
-      fees: null,
-      error: error instanceof Error ? error : new Error('Failed to fetch overdue fees'),
-    }
-  }
+  const { data, error } = await callAdminApi('fees.getOverdueFees', {})
+  if (error) return { fees: null, error }
+  return { fees: data.fees, error: null }
 }
 
 /**
- * Mark reminder as sent
+ * Record that a scheduled reminder was sent for a fee
  */
-export async function markReminderSent(feeId: string): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { success: false, error: new Error('Service role key not configured') }
-    }
-
-    const { error } = await supabaseAdmin
-      .from('student_fees')
-      .update({ reminder_sent_at: new Date().toISOString() })
-      .eq('id', feeId)
-
-    if (error) {
-      logger.error('Error marking reminder as sent', error as Error)
-      return { success: false, error: new Error(error.message) }
-    }
-
-    return { success: true, error: null }
-  } catch (error) {
-    logger.error('Unexpected error marking reminder as sent', error as Error)
-    return {
-      success: false,
-      error: error instanceof Error ? error : new Error('Failed to mark reminder as sent'),
-    }
-  }
+export async function markReminderSent(
+  feeId: string,
+  policyId: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  const { error } = await callAdminApi('fees.markReminderSent', { feeId, policyId })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
 }
 
 /**
  * Mark overdue notification as sent and update status
  */
 export async function markOverdueNotificationSent(feeId: string): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
-  try {
-    if (!supabaseAdmin) {
-      return { success: false, error: new Error('Service role key not configured') }
-    }
-
-    const { error } = await supabaseAdmin
-      .from('student_fees')
-      .update({
-        status: 'overdue',
-        overdue_notification_sent_at: new Date().toISOString(),
-      })
-      .eq('id', feeId)
-
-    if (error) {
-      logger.error('Error marking overdue notification as sent', error as Error)
-      return { success: false, error: new Error(error.message) }
-    }
-
-    return { success: true, error: null }
-  } catch (error) {
-    logger.error('Unexpected error marking overdue notification as sent', error as Error)
-    return {
-      success: false,
-      error: error instanceof Error ? error : new Error('Failed to mark overdue notification as sent'),
-    }
-  }
+  const { error } = await callAdminApi('fees.markOverdueNotificationSent', { feeId })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
 }
-
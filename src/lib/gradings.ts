@@ -0,0 +1,291 @@
+import { callAdminApi } from './admin-api'
+import type { BeltGrading } from './fees'
+
+export type GradingSessionStatus = 'scheduled' | 'completed' | 'cancelled'
+export type GradingResult = 'pending' | 'pass' | 'fail' | 'deferred'
+
+export interface GradingSession {
+  id: string
+  title: string
+  session_date: string // YYYY-MM-DD
+  branch_id: string | null // NULL = open to all branches
+  examiners: string[] // Examiner panel (names)
+  notes: string | null
+  status: GradingSessionStatus
+  created_by_id: string | null
+  created_at: string
+  updated_at: string
+  branch?: {
+    name: string
+  } | null
+}
+
+/**
+ * A grading session as listed, with candidate counts per result
+ */
+export interface GradingSessionSummary extends GradingSession {
+  candidate_count: number
+  result_counts: Record<GradingResult, number>
+}
+
+export interface GradingCandidate {
+  id: string
+  session_id: string
+  student_id: string
+  from_belt: string // Belt held when registered
+  to_belt: string // Belt being graded for
+  result: GradingResult
+  remarks: string | null
+  belt_grading_id: string | null // Set once the candidate has been promoted
+  override_reason: string | null // Why the candidate was registered without meeting the prerequisites
+  overridden_by_id: string | null
+  created_at: string
+  updated_at: string
+  student?: {
+    id: string
+    student_id: string
+    first_name: string
+    last_name: string
+    current_belt: string
+    branch_id: string
+  } | null
+}
+
+/**
+ * Requirements for grading to a belt (belt_level is the belt graded FOR)
+ */
+export interface BeltPrerequisite {
+  id: string
+  belt_level: string
+  min_months_at_belt: number // Time at the current belt
+  min_attendance_percentage: number // Attendance since the last grading (0 = no requirement)
+  min_age_years: number | null // NULL = no age limit
+  updated_by_id: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface SaveBeltPrerequisiteData {
+  beltLevel: string
+  minMonthsAtBelt: number
+  minAttendancePercentage: number
+  minAgeYears: number | null
+}
+
+/**
+ * Whether a student can be registered for grading, and why not
+ */
+export interface GradingEligibility {
+  eligible: boolean
+  canOverride: boolean // Only prerequisites are unmet - an admin may register them with a reason
+  nextBelt: string | null // Belt the student would be graded for
+  reasons: string[] // Empty when eligible
+  monthsAtBelt: number
+  attendancePercentage: number | null // Since the last grading; null when no classes are recorded
+  ageYears: number | null // null when the date of birth is missing
+}
+
+/**
+ * A belt grading on a student's history, with what the certificate needs
+ */
+export interface BeltHistoryEntry extends BeltGrading {
+  session_title: string | null
+  examiners: string[] // Empty for gradings recorded outside a session
+}
+
+export interface GradingSessionStudent {
+  id: string
+  student_id: string
+  first_name: string
+  last_name: string
+  current_belt: string
+  branch_id: string
+  eligibility: GradingEligibility
+}
+
+export interface CreateGradingSessionData {
+  title: string
+  sessionDate: string // YYYY-MM-DD
+  branchId: string | null // Ignored for branch admins (always their own branch)
+  examiners: string[]
+  notes?: string | null
+}
+
+export interface GradingResultInput {
+  candidateId: string
+  result: GradingResult
+  remarks?: string | null
+}
+
+export const GRADING_RESULT_LABELS: Record<GradingResult, string> = {
+  pending: 'Pending',
+  pass: 'Pass',
+  fail: 'Fail',
+  deferred: 'Deferred',
+}
+
+/**
+ * Get grading sessions, newest first
+ * Branch admins only see their own branch's sessions and all-branch sessions
+ */
+export async function getGradingSessions(options?: {
+  status?: GradingSessionStatus
+  branchId?: string | null
+}): Promise<{ sessions: GradingSessionSummary[]; error: null } | { sessions: null; error: Error }> {
+  const { data, error } = await callAdminApi('gradings.getSessions', options || {})
+  if (error) return { sessions: null, error }
+  return { sessions: data.sessions, error: null }
+}
+
+/**
+ * Get a grading session with its candidates
+ */
+export async function getGradingSession(
+  sessionId: string
+): Promise<
+  | { session: GradingSession; candidates: GradingCandidate[]; error: null }
+  | { session: null; candidates: null; error: Error }
+> {
+  const { data, error } = await callAdminApi('gradings.getSession', { sessionId })
+  if (error) return { session: null, candidates: null, error }
+  return { session: data.session, candidates: data.candidates, error: null }
+}
+
+/**
+ * Schedule a grading session
+ */
+export async function createGradingSession(
+  session: CreateGradingSessionData
+): Promise<{ session: GradingSession | null; error: null } | { session: null; error: Error }> {
+  const { data, error } = await callAdminApi('gradings.createSession', session)
+  if (error) return { session: null, error }
+  return { session: data.session, error: null }
+}
+
+/**
+ * Cancel a grading session (only before anyone has been promoted)
+ */
+export async function cancelGradingSession(
+  sessionId: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  const { error } = await callAdminApi('gradings.cancelSession', { sessionId })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
+}
+
+/**
+ * Get the students who could take part in a session, with their eligibility
+ */
+export async function getGradingSessionStudents(
+  sessionId: string
+): Promise<{ students: GradingSessionStudent[]; error: null } | { students: null; error: Error }> {
+  const { data, error } = await callAdminApi('gradings.getSessionStudents', { sessionId })
+  if (error) return { students: null, error }
+  return { students: data.students, error: null }
+}
+
+/**
+ * Register students as candidates for their next belt
+ * Students who only fall short of the prerequisites are registered when an
+ * override reason is given; other ineligible students are skipped and returned with the reasons
+ */
+export async function registerGradingCandidates(
+  sessionId: string,
+  studentIds: string[],
+  overrideReason?: string | null
+): Promise<
+  | { added: number; skipped: Array<{ studentId: string; reasons: string[] }>; error: null }
+  | { added: null; skipped: null; error: Error }
+> {
+  const { data, error } = await callAdminApi('gradings.registerCandidates', { sessionId, studentIds, overrideReason })
+  if (error) return { added: null, skipped: null, error }
+  return { added: data.added, skipped: data.skipped, error: null }
+}
+
+/**
+ * Remove a candidate from a session (not once promoted)
+ */
+export async function removeGradingCandidate(
+  candidateId: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  const { error } = await callAdminApi('gradings.removeCandidate', { candidateId })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
+}
+
+/**
+ * Record pass / fail / deferred results and examiner remarks
+ */
+export async function recordGradingResults(
+  sessionId: string,
+  results: GradingResultInput[]
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  const { error } = await callAdminApi('gradings.recordResults', { sessionId, results })
+  if (error) return { success: false, error }
+  return { success: true, error: null }
+}
+
+/**
+ * Promote every candidate who passed: records the belt grading, updates the
+ * student's belt and creates the grading fee for each of them
+ */
+export async function promoteGradingCandidates(
+  sessionId: string
+): Promise<
+  | {
+      promoted: number
+      failures: Array<{ candidateId: string; studentName: string; message: string }>
+      completed: boolean
+      error: null
+    }
+  | { promoted: null; failures: null; completed: null; error: Error }
+> {
+  const { data, error } = await callAdminApi('gradings.promoteCandidates', { sessionId })
+  if (error) return { promoted: null, failures: null, completed: null, error }
+  return { promoted: data.promoted, failures: data.failures, completed: data.completed, error: null }
+}
+
+/**
+ * Get active students' grading eligibility as of today, to see who is ready for their next belt
+ * Branch admins always get their own branch
+ */
+export async function getGradingReadiness(options?: {
+  branchId?: string | null
+}): Promise<{ students: GradingSessionStudent[]; error: null } | { students: null; error: Error }> {
+  const { data, error } = await callAdminApi('gradings.getReadiness', options || {})
+  if (error) return { students: null, error }
+  return { students: data.students, error: null }
+}
+
+/**
+ * Get the grading prerequisites for each belt
+ */
+export async function getBeltPrerequisites(): Promise<
+  { prerequisites: BeltPrerequisite[]; error: null } | { prerequisites: null; error: Error }
+> {
+  const { data, error } = await callAdminApi('gradings.getPrerequisites', {})
+  if (error) return { prerequisites: null, error }
+  return { prerequisites: data.prerequisites, error: null }
+}
+
+/**
+ * Set the grading prerequisites for a belt (super admin only)
+ */
+export async function saveBeltPrerequisite(
+  prerequisite: SaveBeltPrerequisiteData
+): Promise<{ prerequisite: BeltPrerequisite | null; error: null } | { prerequisite: null; error: Error }> {
+  const { data, error } = await callAdminApi('gradings.savePrerequisite', prerequisite)
+  if (error) return { prerequisite: null, error }
+  return { prerequisite: data.prerequisite, error: null }
+}
+
+/**
+ * Get a student's belt gradings, oldest first
+ */
+export async function getStudentBeltHistory(
+  studentId: string
+): Promise<{ history: BeltHistoryEntry[]; error: null } | { history: null; error: Error }> {
+  const { data, error } = await callAdminApi('gradings.getBeltHistory', { studentId })
+  if (error) return { history: null, error }
+  return { history: data.history, error: null }
+}
@@ -241,28 +241,6 @@ export async function uploadAdminProfileImage(
   userId: string
 ): Promise<{ url: string | null; error: Error | null }> {
   try {
-    const { supabaseAdmin } = await import('./supabase')
-    if (!supabaseAdmin) {
-      return { url: null, error: new Error('Service role key not configured') }
-    }
-
-    // Check if storage bucket exists
-    const { data: buckets, error: bucketError } = await supabaseAdmin.storage.listBuckets()
-    if (bucketError) {
-      logger.error('Error checking storage buckets', bucketError as Error)
-      return { url: null, error: new Error('Failed to access storage') }
-    }
-
-    const bucketExists = buckets?.some((b) => b.id === 'admin-profiles')
-    if (!bucketExists) {
-      return { 
-        url: null, 
-        error: new Error(
-          'Storage bucket "admin-profiles" not found. Please create it in Supabase Dashboard → Storage.'
-        ) 
-      }
-    }
-
     // Compress image before upload
     logger.info('Compressing admin profile image before upload...')
     const { uri: compressedUri, size: compressedSize, originalSize } = await compressImage(imageUri, 'profile')
@@ -1,5 +1,6 @@
 import { supabase } from '@/lib/supabase'
 import { logger } from '@/lib/logger'
+import { callAdminApi } from '@/lib/admin-api'
 import * as FileSystem from 'expo-file-system/legacy'
 import * as ImageManipulator from 'expo-image-manipulator'
 import type { PublicGalleryItem } from '../types/public.types'
@@ -98,28 +99,6 @@ export async function uploadGalleryImage(
   onProgress?: (progress: number, message: string) => void
 ): Promise<{ url: string | null; error: Error | null }> {
   try {
-    const { supabaseAdmin } = await import('@/lib/supabase')
-    if (!supabaseAdmin) {
-      return { url: null, error: new Error('Service role key not configured') }
-    }
-
-    // Check bucket exists
-    const { data: buckets, error: bucketError } = await supabaseAdmin.storage.listBuckets()
-    if (bucketError) {
-      logger.error('Error checking storage buckets', bucketError as Error)
-      return { url: null, error: new Error('Failed to access storage') }
-    }
-
-    const bucketExists = buckets?.some((b) => b.id === 'public-assets')
-    if (!bucketExists) {
-      return {
-        url: null,
-        error: new Error(
-          'Storage bucket "public-assets" not found. Please create it in Supabase Dashboard → Storage.'
-        ),
-      }
-    }
-
     // Check current image count
     const { count: imageCount } = await supabase
       .from('public_gallery')
@@ -152,41 +131,28 @@ export async function uploadGalleryImage(
       encoding: FileSystem.EncodingType.Base64,
     })
 
-    // Convert to ArrayBuffer
-    onProgress?.(50, 'Preparing upload...')
-    const binaryString = atob(base64)
-    const bytes = new Uint8Array(binaryString.length)
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i)
-    }
-
     // Generate filename
+    onProgress?.(50, 'Preparing upload...')
     const timestamp = Date.now()
     const random = Math.random().toString(36).substring(2, 9)
-    const filename = `public-gallery/images/img-${timestamp}-${random}.jpg`
-    const filePath = filename
+    const filePath = `public-gallery/images/img-${timestamp}-${random}.jpg`
 
-    // Upload to storage
+    // Upload to storage (through the server API - public-assets is not writable with the user's session)
     onProgress?.(60, 'Uploading to server...')
-    const { data: uploadData, error: uploadError } = await supabaseAdmin.storage
-      .from('public-assets')
-      .upload(filePath, bytes.buffer, {
-        contentType: 'image/jpeg',
-        upsert: false,
-      })
+    const { data: uploadData, error: uploadError } = await callAdminApi('storage.upload', {
+      bucket: 'public-assets',
+      path: filePath,
+      base64,
+      contentType: 'image/jpeg',
+    })
 
     if (uploadError) {
-      logger.error('Error uploading image', uploadError as Error)
-      return { url: null, error: new Error(uploadError.message) }
+      logger.error('Error uploading image', uploadError)
+      return { url: null, error: uploadError }
     }
 
-    // Get public URL
     onProgress?.(90, 'Finalizing...')
-    const { data: urlData } = supabaseAdmin.storage
-      .from('public-assets')
-      .getPublicUrl(filePath)
-
-    if (!urlData?.publicUrl) {
+    if (!uploadData.url) {
       return { url: null, error: new Error('Failed to get image URL') }
     }
 
@@ -194,11 +160,11 @@ export async function uploadGalleryImage(
     const originalInfo = await FileSystem.getInfoAsync(imageUri)
     const originalSize = (originalInfo.exists && 'size' in originalInfo) ? originalInfo.size : 0
     logger.info('Gallery image uploaded successfully', {
-      url: urlData.publicUrl,
+      url: uploadData.url,
       originalSize,
       compressedSize,
     })
-    return { url: urlData.publicUrl, error: null }
+    return { url: uploadData.url, error: null }
   } catch (error) {
     logger.error('Unexpected error uploading gallery image', error as Error)
     return {
@@ -217,29 +183,6 @@ export async function uploadGalleryVideo(
   onProgress?: (progress: number, message: string) => void
 ): Promise<{ url: string | null; thumbnailUrl: string | null; error: Error | null }> {
   try {
-    const { supabaseAdmin } = await import('@/lib/supabase')
-    if (!supabaseAdmin) {
-      return { url: null, thumbnailUrl: null, error: new Error('Service role key not configured') }
-    }
-
-    // Check bucket exists
-    const { data: buckets, error: bucketError } = await supabaseAdmin.storage.listBuckets()
-    if (bucketError) {
-      logger.error('Error checking storage buckets', bucketError as Error)
-      return { url: null, thumbnailUrl: null, error: new Error('Failed to access storage') }
-    }
-
-    const bucketExists = buckets?.some((b) => b.id === 'public-assets')
-    if (!bucketExists) {
-      return {
-        url: null,
-        thumbnailUrl: null,
-        error: new Error(
-          'Storage bucket "public-assets" not found. Please create it in Supabase Dashboard → Storage.'
-        ),
-      }
-    }
-
     // Check current video count
     const { count: videoCount } = await supabase
       .from('public_gallery')
@@ -276,41 +219,27 @@ export async function uploadGalleryVideo(
       encoding: FileSystem.EncodingType.Base64,
     })
 
-    // Convert to ArrayBuffer
-    onProgress?.(40, 'Processing video data...')
-    const binaryString = atob(videoData)
-    const bytes = new Uint8Array(binaryString.length)
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i)
-    }
-
     // Generate filename
     const timestamp = Date.now()
     const random = Math.random().toString(36).substring(2, 9)
-    const filename = `public-gallery/videos/video-${timestamp}-${random}.mp4`
-    const filePath = filename
+    const filePath = `public-gallery/videos/video-${timestamp}-${random}.mp4`
 
-    // Upload to storage
+    // Upload to storage (through the server API)
     onProgress?.(50, 'Uploading video to server...')
-    const { data: uploadData, error: uploadError } = await supabaseAdmin.storage
-      .from('public-assets')
-      .upload(filePath, bytes.buffer, {
-        contentType: 'video/mp4',
-        upsert: false,
-      })
+    const { data: uploadData, error: uploadError } = await callAdminApi('storage.upload', {
+      bucket: 'public-assets',
+      path: filePath,
+      base64: videoData,
+      contentType: 'video/mp4',
+    })
 
     if (uploadError) {
-      logger.error('Error uploading video', uploadError as Error)
-      return { url: null, thumbnailUrl: null, error: new Error(uploadError.message) }
+      logger.error('Error uploading video', uploadError)
+      return { url: null, thumbnailUrl: null, error: uploadError }
     }
 
-    // Get public URL
     onProgress?.(90, 'Finalizing...')
-    const { data: urlData } = supabaseAdmin.storage
-      .from('public-assets')
-      .getPublicUrl(filePath)
-
-    if (!urlData?.publicUrl) {
+    if (!uploadData.url) {
       return { url: null, thumbnailUrl: null, error: new Error('Failed to get video URL') }
     }
 
@@ -318,10 +247,10 @@ export async function uploadGalleryVideo(
     // For now, return null for thumbnail
     onProgress?.(100, 'Upload complete!')
     logger.info('Gallery video uploaded successfully', {
-      url: urlData.publicUrl,
+      url: uploadData.url,
       size: fileInfo.size,
     })
-    return { url: urlData.publicUrl, thumbnailUrl: null, error: null }
+    return { url: uploadData.url, thumbnailUrl: null, error: null }
   } catch (error) {
     logger.error('Unexpected error uploading gallery video', error as Error)
     return {
@@ -405,8 +334,7 @@ export async function deleteGalleryItem(
 
     // Try to delete file from storage (non-blocking)
     try {
-      const { supabaseAdmin } = await import('@/lib/supabase')
-      if (supabaseAdmin && item.file_url) {
+      if (item.file_url) {
         // Extract path from URL
         // URL format: https://[project].supabase.co/storage/v1/object/public/public-assets/public-gallery/images/img-123.jpg
         // We need: public-gallery/images/img-123.jpg
@@ -418,9 +346,10 @@ export async function deleteGalleryItem(
             ? pathWithQuery 
             : `public-gallery/${pathWithQuery}`
           
-          const { error: removeError } = await supabaseAdmin.storage
-            .from('public-assets')
-            .remove([filePath])
+          const { error: removeError } = await callAdminApi('storage.remove', {
+            bucket: 'public-assets',
+            paths: [filePath],
+          })
           
           if (removeError) {
             logger.warn('Failed to delete file from storage', { filePath, error: removeError })
@@ -438,7 +367,7 @@ export async function deleteGalleryItem(
               ? thumbPathWithQuery
               : `public-gallery/${thumbPathWithQuery}`
             
-            await supabaseAdmin.storage.from('public-assets').remove([thumbPath])
+            await callAdminApi('storage.remove', { bucket: 'public-assets', paths: [thumbPath] })
             logger.info('Deleted gallery thumbnail from storage', { thumbPath })
           }
         }
@@ -1,6 +1,6 @@
 import { supabase } from '@/lib/supabase'
 import { logger } from '@/lib/logger'
-import type { Instructor, PublicGalleryItem, Branch, PublicData } from '../types/public.types'
+import type { Instructor, PublicGalleryItem, Branch, PublicData, TimetableBatch } from '../types/public.types'
 
 /**
  * Get logo URL from Supabase storage
@@ -131,17 +131,44 @@ export async function getGalleryItems(): Promise<{ items: PublicGalleryItem[]; e
   }
 }
 
+/**
+ * Get the weekly class timetable (active batches at every branch, earliest first)
+ */
+export async function getTimetable(): Promise<{ batches: TimetableBatch[]; error: null } | { batches: null; error: Error }> {
+  try {
+    const { data, error } = await supabase
+      .from('class_batches')
+      .select('id, branch_id, name, days_of_week, start_time, end_time, age_group, level, branch:branches(name), instructor:instructors(name)')
+      .eq('is_active', true)
+      .order('start_time', { ascending: true })
+
+    if (error) {
+      logger.error('Error fetching timetable', error as Error)
+      return { batches: null, error: new Error(error.message) }
+    }
+
+    return { batches: (data as unknown as TimetableBatch[]) || [], error: null }
+  } catch (error) {
+    logger.error('Unexpected error fetching timetable', error as Error)
+    return {
+      batches: null,
+      error: error instanceof Error ? error : new Error('Failed to fetch timetable'),
+    }
+  }
+}
+
 /**
  * Get all public data at once (for initial load)
  * Handles partial failures gracefully - returns data for successful requests
  */
 export async function getPublicData(): Promise<{ data: PublicData; error: null } | { data: null; error: Error }> {
   try {
-    const [branchesResult, instructorsResult, studentCountResult, galleryResult, logoResult] = await Promise.allSettled([
+    const [branchesResult, instructorsResult, studentCountResult, galleryResult, timetableResult, logoResult] = await Promise.allSettled([
       getBranches(),
       getInstructors(),
       getStudentCount(),
       getGalleryItems(),
+      getTimetable(),
       getLogoUrl(),
     ])
 
@@ -162,6 +189,10 @@ export async function getPublicData(): Promise<{ data: PublicData; error: null }
       ? galleryResult.value.items || []
       : []
     
+    const timetable = timetableResult.status === 'fulfilled' && !timetableResult.value.error
+      ? timetableResult.value.batches || []
+      : []
+    
     const logoUrl = logoResult.status === 'fulfilled' && !logoResult.value.error
       ? logoResult.value.logoUrl
       : null
@@ -200,6 +231,14 @@ export async function getPublicData(): Promise<{ data: PublicData; error: null }
       errors.push(`Gallery: ${errorMsg}`)
       logger.warn('Failed to fetch gallery items', new Error(errorMsg))
     }
+    
+    if (timetableResult.status === 'rejected' || (timetableResult.status === 'fulfilled' && timetableResult.value.error)) {
+      const errorMsg = timetableResult.status === 'rejected'
+        ? timetableResult.reason?.message || 'Unknown error'
+        : timetableResult.value.error?.message || 'Unknown error'
+      errors.push(`Timetable: ${errorMsg}`)
+      logger.warn('Failed to fetch timetable', new Error(errorMsg))
+    }
 
     // Only fail if ALL critical data failed (branches and instructors)
     if (branches.length === 0 && instructors.length === 0) {
@@ -221,6 +260,7 @@ export async function getPublicData(): Promise<{ data: PublicData; error: null }
         instructors,
         studentCount,
         galleryItems,
+        timetable,
         logoUrl,
       },
       error: null,
@@ -41,11 +41,25 @@ export interface Branch {
   status: string
 }
 
+export interface TimetableBatch {
+  id: string
+  branch_id: string
+  name: string
+  days_of_week: number[] // 0 = Sunday ... 6 = Saturday
+  start_time: string // HH:MM:SS
+  end_time: string
+  age_group: string | null
+  level: string | null
+  branch: { name: string } | null
+  instructor: { name: string } | null
+}
+
 export interface PublicData {
   branches: Branch[]
   instructors: Instructor[]
   studentCount: number
   galleryItems: PublicGalleryItem[]
+  timetable: TimetableBatch[]
   logoUrl: string | null
 }
 
@@ -0,0 +1,212 @@
+import * as Print from 'expo-print'
+import * as Sharing from 'expo-sharing'
+import { format } from 'date-fns'
+import { logger } from './logger'
+import { callAdminApi } from './admin-api'
+import { getLogoUrl } from './public/services/publicDataService'
+import type { FeePayment, FeeType } from './fees'
+
+export interface FeeReceipt {
+  payment: FeePayment
+  fee: {
+    fee_type: FeeType
+    amount: number
+    paid_amount: number
+    due_date: string
+    period_start_date: string | null
+    period_end_date: string | null
+  }
+  student: {
+    id: string
+    student_id: string
+    first_name: string
+    last_name: string
+  }
+  branch: {
+    name: string
+    code: string | null
+    address: string | null
+    phone: string | null
+  } | null
+}
+
+// Club name printed on receipts, statements and certificates
+export const DOJO_NAME = 'SHOTOKAN KARATE-DO YOUTH SPORTS CLUB® HUBBALLI'
+
+export const FEE_TYPE_LABELS: Record<FeeType, string> = {
+  registration: 'Registration Fee',
+  monthly: 'Monthly Fee',
+  yearly: 'Yearly Fee',
+  grading: 'Grading Fee',
+  late_fee: 'Late Fee',
+}
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+]
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety']
+
+function twoDigitsInWords(n: number): string {
+  if (n < 20) return ONES[n]
+  return `${TENS[Math.floor(n / 10)]}${n % 10 ? ' ' + ONES[n % 10] : ''}`
+}
+
+function threeDigitsInWords(n: number): string {
+  const hundreds = Math.floor(n / 100)
+  const rest = n % 100
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', rest ? twoDigitsInWords(rest) : '']
+    .filter(Boolean)
+    .join(' ')
+}
+
+/**
+ * Amount in words using the Indian numbering system
+ * e.g. 125050.5 -> "Rupees One Lakh Twenty Five Thousand Fifty and Fifty Paise Only"
+ */
+export function amountInWords(amount: number): string {
+  const rupees = Math.floor(amount)
+  const paise = Math.round((amount - rupees) * 100)
+
+  const parts: string[] = []
+  let remaining = rupees
+  const crore = Math.floor(remaining / 10000000)
+  remaining %= 10000000
+  const lakh = Math.floor(remaining / 100000)
+  remaining %= 100000
+  const thousand = Math.floor(remaining / 1000)
+  remaining %= 1000
+
+  if (crore) parts.push(`${threeDigitsInWords(crore)} Crore`)
+  if (lakh) parts.push(`${twoDigitsInWords(lakh)} Lakh`)
+  if (thousand) parts.push(`${twoDigitsInWords(thousand)} Thousand`)
+  if (remaining) parts.push(threeDigitsInWords(remaining))
+
+  const rupeeWords = parts.length > 0 ? parts.join(' ') : 'Zero'
+  const paiseWords = paise ? ` and ${twoDigitsInWords(paise)} Paise` : ''
+  return `Rupees ${rupeeWords}${paiseWords} Only`
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function formatPeriod(fee: FeeReceipt['fee']): string {
+  if (fee.period_start_date && fee.period_end_date) {
+    return `${format(new Date(fee.period_start_date), 'dd MMM yyyy')} – ${format(new Date(fee.period_end_date), 'dd MMM yyyy')}`
+  }
+  return '—'
+}
+
+/**
+ * Build the printable HTML for a receipt
+ */
+export function buildReceiptHtml(receipt: FeeReceipt, logoUrl: string | null): string {
+  const { payment, fee, student, branch } = receipt
+  const studentName = escapeHtml(`${student.first_name} ${student.last_name}`)
+  const method = escapeHtml(payment.payment_method.replace('_', ' ').toUpperCase())
+  const isVoid = !!payment.reversed_at
+
+  return `
+<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <style>
+      body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #1F2937; padding: 32px; }
+      .header { display: flex; align-items: center; border-bottom: 3px solid #7B2CBF; padding-bottom: 16px; }
+      .header img { width: 72px; height: 72px; border-radius: 36px; object-fit: cover; margin-right: 16px; }
+      .dojo { font-size: 22px; font-weight: 700; color: #7B2CBF; }
+      .branch { font-size: 12px; color: #6B7280; margin-top: 4px; }
+      h1 { font-size: 18px; letter-spacing: 2px; text-align: center; margin: 24px 0 8px; }
+      .meta { display: flex; justify-content: space-between; font-size: 13px; margin-bottom: 16px; }
+      table { width: 100%; border-collapse: collapse; font-size: 14px; }
+      td { padding: 10px 8px; border-bottom: 1px solid #E5E7EB; }
+      td.label { color: #6B7280; width: 40%; }
+      .amount { font-size: 20px; font-weight: 700; color: #7B2CBF; }
+      .words { font-style: italic; font-size: 13px; margin-top: 12px; }
+      .void { color: #DC2626; font-weight: 700; text-align: center; font-size: 16px; margin-top: 16px; }
+      .footer { margin-top: 48px; font-size: 11px; color: #9CA3AF; text-align: center; }
+    </style>
+  </head>
+  <body>
+    <div class="header">
+      ${logoUrl ? `<img src="${escapeHtml(logoUrl)}" />` : ''}
+      <div>
+        <div class="dojo">${DOJO_NAME}</div>
+        ${branch ? `<div class="branch">${escapeHtml(branch.name)}${branch.address ? ' · ' + escapeHtml(branch.address) : ''}${branch.phone ? ' · ' + escapeHtml(branch.phone) : ''}</div>` : ''}
+      </div>
+    </div>
+
+    <h1>FEE RECEIPT</h1>
+    <div class="meta">
+      <div><strong>Receipt No:</strong> ${escapeHtml(payment.receipt_number || '—')}</div>
+      <div><strong>Date:</strong> ${format(new Date(payment.paid_at), 'dd MMM yyyy')}</div>
+    </div>
+
+    <table>
+      <tr><td class="label">Student</td><td>${studentName}</td></tr>
+      <tr><td class="label">Student ID</td><td>${escapeHtml(student.student_id)}</td></tr>
+      <tr><td class="label">Fee</td><td>${FEE_TYPE_LABELS[fee.fee_type]}</td></tr>
+      <tr><td class="label">Period</td><td>${formatPeriod(fee)}</td></tr>
+      <tr><td class="label">Payment Method</td><td>${method}</td></tr>
+      <tr><td class="label">Amount Received</td><td class="amount">₹${payment.amount.toFixed(2)}</td></tr>
+      <tr><td class="label">Fee Total / Paid to Date</td><td>₹${fee.amount.toFixed(2)} / ₹${fee.paid_amount.toFixed(2)}</td></tr>
+    </table>
+    <div class="words">${amountInWords(payment.amount)}</div>
+    ${isVoid ? `<div class="void">${payment.reversal_type === 'refund' ? 'REFUNDED' : 'REVERSED'} – ${escapeHtml(payment.reversal_reason || '')}</div>` : ''}
+
+    <div class="footer">This is a computer-generated receipt and does not require a signature.</div>
+  </body>
+</html>`
+}
+
+/**
+ * Get the data needed to print a receipt for a payment
+ */
+export async function getFeeReceipt(
+  paymentId: string
+): Promise<{ receipt: FeeReceipt | null; error: null } | { receipt: null; error: Error }> {
+  const { data, error } = await callAdminApi('fees.getReceipt', { paymentId })
+  if (error) return { receipt: null, error }
+  return { receipt: data.receipt, error: null }
+}
+
+/**
+ * Generate a PDF receipt for a payment and open the share sheet
+ */
+export async function shareFeeReceipt(paymentId: string): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { receipt, error } = await getFeeReceipt(paymentId)
+    if (error || !receipt) {
+      return { success: false, error: error || new Error('Receipt not found') }
+    }
+
+    const { logoUrl } = await getLogoUrl()
+    const html = buildReceiptHtml(receipt, logoUrl)
+    const { uri } = await Print.printToFileAsync({ html })
+
+    if (!(await Sharing.isAvailableAsync())) {
+      return { success: false, error: new Error('Sharing is not available on this device') }
+    }
+
+    await Sharing.shareAsync(uri, {
+      mimeType: 'application/pdf',
+      UTI: 'com.adobe.pdf',
+      dialogTitle: `Receipt ${receipt.payment.receipt_number || ''}`.trim(),
+    })
+
+    logger.info('Fee receipt shared', { paymentId, receiptNumber: receipt.payment.receipt_number })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Error sharing fee receipt', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to generate receipt'),
+    }
+  }
+}
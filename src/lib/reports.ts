@@ -0,0 +1,170 @@
+import * as FileSystem from 'expo-file-system/legacy'
+import * as Sharing from 'expo-sharing'
+import { logger } from './logger'
+import { callAdminApi } from './admin-api'
+import type { FeeType } from './fees'
+
+export type ReportGrouping = 'day' | 'month'
+export type AgingBucket = 'current' | 'days_0_30' | 'days_31_60' | 'days_60_plus'
+
+/**
+ * Net collections for one day (YYYY-MM-DD) or month (YYYY-MM)
+ * Reversed and refunded payments are excluded
+ */
+export interface CollectionPeriod {
+  period: string
+  amount: number
+  paymentCount: number
+}
+
+export interface FeeTypeBreakdown {
+  feeType: FeeType
+  collected: number // Within the report range
+  outstanding: number // As of today
+}
+
+export interface OutstandingFeeRow {
+  feeId: string
+  studentId: string
+  studentCode: string
+  studentName: string
+  branchId: string | null
+  feeType: FeeType
+  dueDate: string
+  balance: number
+  daysOverdue: number // Negative when not yet due
+  bucket: AgingBucket
+}
+
+export interface FinancialReport {
+  startDate: string
+  endDate: string
+  branchId: string | null // null = all branches
+  groupBy: ReportGrouping
+  generatedAt: string
+  collections: CollectionPeriod[]
+  totalCollected: number
+  paymentCount: number
+  totalOutstanding: number
+  aging: Record<AgingBucket, { amount: number; feeCount: number }>
+  byFeeType: FeeTypeBreakdown[]
+  outstandingFees: OutstandingFeeRow[]
+}
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: 'Not yet due',
+  days_0_30: '0–30 days',
+  days_31_60: '31–60 days',
+  days_60_plus: '60+ days',
+}
+
+const FEE_TYPE_LABELS: Record<FeeType, string> = {
+  registration: 'Registration Fee',
+  monthly: 'Monthly Fee',
+  yearly: 'Yearly Fee',
+  grading: 'Grading Fee',
+  late_fee: 'Late Fee',
+}
+
+/**
+ * Get collections, outstanding balances and aging for a date range (for admin)
+ * Branch admins only ever get their own branch
+ */
+export async function getFinancialReport(options: {
+  startDate: string
+  endDate: string
+  groupBy?: ReportGrouping
+  branchId?: string | null
+}): Promise<{ report: FinancialReport | null; error: null } | { report: null; error: Error }> {
+  const { data, error } = await callAdminApi('reports.getFinancial', options)
+  if (error) return { report: null, error }
+  return { report: data.report, error: null }
+}
+
+function csvCell(value: string | number): string {
+  const text = typeof value === 'number' ? value.toFixed(2) : value
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function csvRow(values: Array<string | number>): string {
+  return values.map(csvCell).join(',')
+}
+
+/**
+ * Build a CSV with one section per table (collections, fee types, aging, outstanding fees)
+ */
+export function buildFinancialReportCsv(report: FinancialReport, branchName?: string | null): string {
+  const lines: string[] = [
+    csvRow(['Financial Report']),
+    csvRow(['Branch', branchName || 'All Branches']),
+    csvRow(['From', report.startDate]),
+    csvRow(['To', report.endDate]),
+    csvRow(['Generated', report.generatedAt]),
+    '',
+    csvRow(['Collections']),
+    csvRow([report.groupBy === 'day' ? 'Date' : 'Month', 'Amount', 'Payments']),
+    ...report.collections.map((c) => csvRow([c.period, c.amount, String(c.paymentCount)])),
+    csvRow(['Total', report.totalCollected, String(report.paymentCount)]),
+    '',
+    csvRow(['By Fee Type']),
+    csvRow(['Fee Type', 'Collected', 'Outstanding']),
+    ...report.byFeeType.map((b) => csvRow([FEE_TYPE_LABELS[b.feeType], b.collected, b.outstanding])),
+    '',
+    csvRow(['Outstanding Aging']),
+    csvRow(['Bucket', 'Amount', 'Fees']),
+    ...(Object.keys(AGING_BUCKET_LABELS) as AgingBucket[]).map((bucket) =>
+      csvRow([AGING_BUCKET_LABELS[bucket], report.aging[bucket].amount, String(report.aging[bucket].feeCount)])
+    ),
+    csvRow(['Total', report.totalOutstanding, String(report.outstandingFees.length)]),
+    '',
+    csvRow(['Outstanding Fees']),
+    csvRow(['Student ID', 'Student', 'Fee Type', 'Due Date', 'Balance', 'Days Overdue', 'Bucket']),
+    ...report.outstandingFees.map((f) =>
+      csvRow([
+        f.studentCode,
+        f.studentName,
+        FEE_TYPE_LABELS[f.feeType],
+        f.dueDate,
+        f.balance,
+        String(Math.max(f.daysOverdue, 0)),
+        AGING_BUCKET_LABELS[f.bucket],
+      ])
+    ),
+  ]
+
+  return lines.join('\n')
+}
+
+/**
+ * Write the report to a CSV file and open the share sheet
+ */
+export async function shareFinancialReportCsv(
+  report: FinancialReport,
+  branchName?: string | null
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    if (!(await Sharing.isAvailableAsync())) {
+      return { success: false, error: new Error('Sharing is not available on this device') }
+    }
+
+    const fileUri = `${FileSystem.cacheDirectory}financial-report-${report.startDate}-to-${report.endDate}.csv`
+    await FileSystem.writeAsStringAsync(fileUri, buildFinancialReportCsv(report, branchName), {
+      encoding: FileSystem.EncodingType.UTF8,
+    })
+
+    await Sharing.shareAsync(fileUri, {
+      mimeType: 'text/csv',
+      UTI: 'public.comma-separated-values-text',
+      dialogTitle: 'Financial Report',
+    })
+
+    logger.info('Financial report exported', { startDate: report.startDate, endDate: report.endDate })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Error exporting financial report', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to export report'),
+    }
+  }
+}
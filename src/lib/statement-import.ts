@@ -0,0 +1,348 @@
+/**
+ * A credit line read from a bank / UPI statement CSV export
+ */
+export interface StatementRow {
+  line: number // Line in the CSV (1-based, header included)
+  date: string | null // YYYY-MM-DD when the date column could be read
+  amount: number
+  reference: string | null
+  remark: string
+}
+
+export type StatementMatchSource = 'student_id' | 'phone' | 'name'
+export type StatementMatchConfidence = 'high' | 'medium' | 'low'
+
+/**
+ * The student and pending fee a statement row is proposed to pay
+ * feeId is null when the student was found but no pending fee fits the amount
+ */
+export interface StatementMatch {
+  row: StatementRow
+  studentId: string | null
+  feeId: string | null
+  matchedBy: StatementMatchSource | null
+  confidence: StatementMatchConfidence | null
+}
+
+/**
+ * Pending fee as returned by getAllFees (with the student join)
+ */
+interface PendingFee {
+  id: string
+  student_id: string
+  amount: number
+  paid_amount: number
+  due_date: string
+  student?: {
+    id: string
+    student_id: string
+    first_name: string
+    last_name: string
+    phone?: string | null
+    parent_phone?: string | null
+  } | null
+}
+
+type EntryType = 'credit' | 'debit'
+
+// Header names seen in Indian bank exports, matched case-insensitively
+// credit holds credits only; amount holds debits and credits, told apart by a Dr/Cr column or suffix
+const COLUMN_ALIASES = {
+  date: ['date', 'txn date', 'transaction date', 'value date', 'posting date'],
+  credit: ['credit', 'credit amount', 'deposit', 'deposit amount', 'cr'],
+  amount: ['amount', 'transaction amount'],
+  entryType: ['dr/cr', 'cr/dr', 'dr / cr', 'debit/credit', 'type', 'txn type', 'transaction type'],
+  reference: ['reference', 'ref no', 'ref no.', 'reference no', 'reference number', 'utr', 'utr no', 'chq/ref no', 'cheque no', 'transaction id'],
+  remark: ['remarks', 'remark', 'description', 'narration', 'particulars', 'details', 'transaction remarks'],
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Split CSV text into rows of cells (handles quoted cells, escaped quotes and CRLF)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell.trim())
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell.trim())
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell.trim())
+    rows.push(row)
+  }
+  return rows
+}
+
+/**
+ * Read a statement date (DD/MM/YYYY, DD-MM-YY, DD-Mon-YYYY or YYYY-MM-DD) as YYYY-MM-DD
+ */
+function parseStatementDate(value: string): string | null {
+  const text = value.trim().toLowerCase()
+  const pad = (n: number) => String(n).padStart(2, '0')
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (match) return `${match[1]}-${pad(Number(match[2]))}-${pad(Number(match[3]))}`
+
+  match = text.match(/^(\d{1,2})[/\-. ]([a-z]{3}|\d{1,2})[/\-. ](\d{2,4})/)
+  if (!match) return null
+
+  const day = Number(match[1])
+  const month = /^\d+$/.test(match[2]) ? Number(match[2]) : MONTHS.indexOf(match[2]) + 1
+  const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3])
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+  return `${year}-${pad(month)}-${pad(day)}`
+}
+
+function parseEntryType(value: string | undefined): EntryType | null {
+  const text = (value || '').trim().toLowerCase().replace(/\.$/, '')
+  if (['cr', 'c', 'credit'].includes(text)) return 'credit'
+  if (['dr', 'd', 'debit'].includes(text)) return 'debit'
+  return null
+}
+
+/**
+ * Read an amount cell, with its Cr / Dr suffix when there is one (e.g. "1,500.00 Cr")
+ */
+function parseAmount(value: string | undefined): { amount: number; entryType: EntryType | null } {
+  const text = (value || '').replace(/[₹,\s]|INR/gi, '')
+  const suffix = text.match(/(cr|dr)\.?$/i)
+  const amount = parseFloat(suffix ? text.slice(0, suffix.index) : text)
+  return { amount: isNaN(amount) ? 0 : amount, entryType: suffix ? parseEntryType(suffix[1]) : null }
+}
+
+/**
+ * Parse a statement CSV into credit rows
+ * The header row is found by its column names; debits and blank lines are skipped.
+ * A credit column is used when there is one. A combined amount column needs each row marked
+ * as a credit, by a Dr/Cr column or a Cr suffix; unmarked rows are skipped.
+ */
+export function parseBankStatement(
+  text: string
+): { rows: StatementRow[]; skippedLines: number[]; error: null } | { rows: null; skippedLines: null; error: Error } {
+  const table = parseCsv(text)
+
+  const findColumn = (header: string[], aliases: string[]) =>
+    header.findIndex((cell) => aliases.includes(cell.toLowerCase().replace(/\s+/g, ' ').trim()))
+
+  // Banks put account details above the table, so look for the header within the first rows
+  const headerIndex = table
+    .slice(0, 20)
+    .findIndex(
+      (row) =>
+        (findColumn(row, COLUMN_ALIASES.credit) >= 0 || findColumn(row, COLUMN_ALIASES.amount) >= 0) &&
+        findColumn(row, COLUMN_ALIASES.remark) >= 0
+    )
+  if (headerIndex < 0) {
+    return {
+      rows: null,
+      skippedLines: null,
+      error: new Error('Could not find the header row. The CSV needs an amount/credit column and a remarks/narration column'),
+    }
+  }
+
+  const header = table[headerIndex]
+  const creditColumn = findColumn(header, COLUMN_ALIASES.credit)
+  const creditsOnly = creditColumn >= 0
+  const columns = {
+    date: findColumn(header, COLUMN_ALIASES.date),
+    amount: creditsOnly ? creditColumn : findColumn(header, COLUMN_ALIASES.amount),
+    entryType: findColumn(header, COLUMN_ALIASES.entryType),
+    reference: findColumn(header, COLUMN_ALIASES.reference),
+    remark: findColumn(header, COLUMN_ALIASES.remark),
+  }
+
+  const rows: StatementRow[] = []
+  const skippedLines: number[] = []
+  let unmarkedLines = 0
+  table.slice(headerIndex + 1).forEach((cells, index) => {
+    const line = headerIndex + index + 2
+    if (cells.every((cell) => !cell)) return
+
+    const { amount, entryType: suffixType } = parseAmount(cells[columns.amount])
+    const entryType = (columns.entryType >= 0 ? parseEntryType(cells[columns.entryType]) : null) || suffixType
+    if (!creditsOnly && !entryType && amount > 0) unmarkedLines++
+
+    const isCredit = creditsOnly ? entryType !== 'debit' : entryType === 'credit'
+    if (!isCredit || amount <= 0) {
+      skippedLines.push(line)
+      return
+    }
+
+    rows.push({
+      line,
+      date: columns.date >= 0 ? parseStatementDate(cells[columns.date] || '') : null,
+      amount: roundMoney(amount),
+      reference: columns.reference >= 0 ? cells[columns.reference] || null : null,
+      remark: cells[columns.remark] || '',
+    })
+  })
+
+  if (rows.length === 0 && unmarkedLines > 0) {
+    return {
+      rows: null,
+      skippedLines: null,
+      error: new Error(
+        'The amount column mixes debits and credits with no Dr/Cr marker. Export with a credit column or a Dr/Cr column'
+      ),
+    }
+  }
+
+  return { rows, skippedLines, error: null }
+}
+
+const lastTenDigits = (phone: string | null | undefined) => {
+  const digits = (phone || '').replace(/\D/g, '')
+  return digits.length >= 10 ? digits.slice(-10) : null
+}
+
+const words = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)
+
+/**
+ * Whether a remark contains a student ID such as KSC24-0007
+ * Banks and UPI apps drop or change the hyphen, so any separator (or none) is accepted between its parts
+ */
+function codeInRemark(code: string, remark: string): boolean {
+  const parts = words(code)
+  if (parts.length === 0) return false
+  return new RegExp(`(^|[^a-z0-9])${parts.join('[^a-z0-9]*')}($|[^a-z0-9])`).test(remark.toLowerCase())
+}
+
+/**
+ * Levenshtein distance, capped: returns early once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > max) return max + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * A remark word matches a name when it is equal, or one typo away for longer names
+ */
+function nameInWords(name: string, remarkWords: string[]): boolean {
+  const target = name.toLowerCase()
+  if (!target) return false
+  return remarkWords.some((word) => word === target || (target.length >= 5 && editDistance(word, target, 1) <= 1))
+}
+
+/**
+ * Pick the fee a payment most likely settles: an exact balance first, otherwise the oldest fee it fits
+ * allocated holds amounts already proposed against each fee by earlier rows
+ */
+function pickFee(fees: PendingFee[], amount: number, allocated: Map<string, number>): PendingFee | null {
+  const open = fees
+    .map((fee) => ({ fee, balance: roundMoney(fee.amount - (fee.paid_amount || 0) - (allocated.get(fee.id) || 0)) }))
+    .filter(({ balance }) => balance > 0)
+    .sort((a, b) => a.fee.due_date.localeCompare(b.fee.due_date))
+
+  return (
+    open.find(({ balance }) => balance === amount)?.fee ||
+    open.find(({ balance }) => balance >= amount)?.fee ||
+    null
+  )
+}
+
+/**
+ * Propose a student and pending fee for each statement row
+ * Tried in order: student ID in the remark, a phone number in the remark, the student's name
+ */
+export function matchStatementRows(rows: StatementRow[], pendingFees: PendingFee[]): StatementMatch[] {
+  const feesByStudent = new Map<string, PendingFee[]>()
+  const students = new Map<string, NonNullable<PendingFee['student']>>()
+  for (const fee of pendingFees) {
+    if (!fee.student) continue
+    students.set(fee.student.id, fee.student)
+    feesByStudent.set(fee.student.id, [...(feesByStudent.get(fee.student.id) || []), fee])
+  }
+  const studentList = Array.from(students.values())
+  const allocated = new Map<string, number>()
+
+  return rows.map((row) => {
+    const remarkWords = words(row.remark)
+    const remarkPhones = (row.remark.match(/\+?\d[\d\s-]{8,}\d/g) || []).map(lastTenDigits).filter(Boolean)
+
+    let studentId: string | null = null
+    let matchedBy: StatementMatchSource | null = null
+    let confidence: StatementMatchConfidence | null = null
+
+    const byCode = studentList.find((s) => s.student_id && codeInRemark(s.student_id, row.remark))
+    if (byCode) {
+      studentId = byCode.id
+      matchedBy = 'student_id'
+      confidence = 'high'
+    }
+
+    if (!studentId && remarkPhones.length > 0) {
+      const byPhone = studentList.filter(
+        (s) =>
+          remarkPhones.includes(lastTenDigits(s.phone)) || remarkPhones.includes(lastTenDigits(s.parent_phone))
+      )
+      // Siblings share a parent's phone, so only a single hit counts
+      if (byPhone.length === 1) {
+        studentId = byPhone[0].id
+        matchedBy = 'phone'
+        confidence = 'high'
+      }
+    }
+
+    if (!studentId) {
+      const fullName = studentList.filter(
+        (s) => nameInWords(s.first_name, remarkWords) && nameInWords(s.last_name, remarkWords)
+      )
+      const firstNameOnly = studentList.filter((s) => nameInWords(s.first_name, remarkWords))
+      if (fullName.length === 1) {
+        studentId = fullName[0].id
+        matchedBy = 'name'
+        confidence = 'medium'
+      } else if (fullName.length === 0 && firstNameOnly.length === 1) {
+        studentId = firstNameOnly[0].id
+        matchedBy = 'name'
+        confidence = 'low'
+      }
+    }
+
+    const fee = studentId ? pickFee(feesByStudent.get(studentId) || [], row.amount, allocated) : null
+    if (fee) allocated.set(fee.id, (allocated.get(fee.id) || 0) + row.amount)
+    return { row, studentId, feeId: fee ? fee.id : null, matchedBy, confidence }
+  })
+}
@@ -0,0 +1,267 @@
+import * as Print from 'expo-print'
+import * as Sharing from 'expo-sharing'
+import { format } from 'date-fns'
+import { logger } from './logger'
+import { callAdminApi } from './admin-api'
+import { getLogoUrl } from './public/services/publicDataService'
+import { getBeltDisplayName } from './belts'
+import { DOJO_NAME, escapeHtml, FEE_TYPE_LABELS, type FeeReceipt } from './receipts'
+import type { BeltGrading, FeeType } from './fees'
+
+export type StatementEntryType = 'charge' | 'payment' | 'waiver'
+
+/**
+ * One line of a fee statement
+ * Charges add to the balance; payments and waivers reduce it
+ */
+export interface StatementEntry {
+  date: string // YYYY-MM-DD
+  type: StatementEntryType
+  feeType: FeeType
+  periodStartDate: string | null
+  periodEndDate: string | null
+  paymentMethod: string | null // Payments only
+  reference: string | null // Receipt number, payments only
+  amount: number // Always positive
+  balance: number // Amount owed after this line
+}
+
+export interface FeeStatement {
+  student: {
+    id: string
+    student_id: string
+    first_name: string
+    last_name: string
+    current_belt: string | null
+  }
+  branch: FeeReceipt['branch']
+  startDate: string
+  endDate: string
+  openingBalance: number // Owed at the start of startDate (negative = paid ahead)
+  totalCharges: number
+  totalPayments: number
+  totalWaived: number
+  closingBalance: number // Owed at the end of endDate
+  creditBalance: number // Unused credit held at the end of endDate
+  entries: StatementEntry[] // Oldest first
+  gradings: BeltGrading[] // Belt gradings held during the period
+  generatedAt: string
+}
+
+export interface StatementRange {
+  label: string
+  startDate: string
+  endDate: string
+}
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd')
+
+/**
+ * Ready-made statement periods: the current and previous financial year (April–March,
+ * as used for Indian tax returns) and the previous calendar year
+ */
+export function getStatementRanges(today = new Date()): StatementRange[] {
+  const fyStartYear = today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1
+  const financialYear = (startYear: number) => `FY ${startYear}–${String(startYear + 1).slice(-2)}`
+
+  return [
+    {
+      label: `${financialYear(fyStartYear)} (to date)`,
+      startDate: `${fyStartYear}-04-01`,
+      endDate: toDateString(today),
+    },
+    {
+      label: financialYear(fyStartYear - 1),
+      startDate: `${fyStartYear - 1}-04-01`,
+      endDate: `${fyStartYear}-03-31`,
+    },
+    {
+      label: `Calendar ${today.getFullYear() - 1}`,
+      startDate: `${today.getFullYear() - 1}-01-01`,
+      endDate: `${today.getFullYear() - 1}-12-31`,
+    },
+  ]
+}
+
+const formatDate = (date: string) => format(new Date(date + 'T00:00:00'), 'dd MMM yyyy')
+
+// Negative balances mean the student has paid ahead
+const formatBalance = (amount: number) => (amount < 0 ? `₹${Math.abs(amount).toFixed(2)} CR` : `₹${amount.toFixed(2)}`)
+
+function describeEntry(entry: StatementEntry): string {
+  const period =
+    entry.periodStartDate && entry.periodEndDate
+      ? ` (${format(new Date(entry.periodStartDate + 'T00:00:00'), 'MMM yyyy')}${
+          entry.periodStartDate.slice(0, 7) === entry.periodEndDate.slice(0, 7)
+            ? ''
+            : ' – ' + format(new Date(entry.periodEndDate + 'T00:00:00'), 'MMM yyyy')
+        })`
+      : ''
+  const fee = `${FEE_TYPE_LABELS[entry.feeType]}${period}`
+
+  if (entry.type === 'charge') return fee
+  if (entry.type === 'waiver') return `Waived – ${fee}`
+  const method =
+    entry.paymentMethod === 'credit' ? 'paid from credit' : (entry.paymentMethod || '').replace('_', ' ').toUpperCase()
+  return `Payment – ${fee}${method ? ` · ${method}` : ''}`
+}
+
+/**
+ * Build the printable HTML for a fee statement
+ */
+export function buildStatementHtml(statement: FeeStatement, logoUrl: string | null): string {
+  const { student, branch, entries, gradings } = statement
+  const studentName = escapeHtml(`${student.first_name} ${student.last_name}`)
+
+  const rows = entries
+    .map(
+      (entry) => `
+        <tr>
+          <td>${formatDate(entry.date)}</td>
+          <td>${escapeHtml(describeEntry(entry))}</td>
+          <td>${escapeHtml(entry.reference || '')}</td>
+          <td class="num">${entry.type === 'charge' ? `₹${entry.amount.toFixed(2)}` : ''}</td>
+          <td class="num">${entry.type === 'charge' ? '' : `₹${entry.amount.toFixed(2)}`}</td>
+          <td class="num">${formatBalance(entry.balance)}</td>
+        </tr>`
+    )
+    .join('')
+
+  const gradingRows = gradings
+    .map(
+      (grading) => `
+        <tr>
+          <td>${formatDate(grading.grading_date)}</td>
+          <td>${escapeHtml(getBeltDisplayName(grading.from_belt))} → ${escapeHtml(getBeltDisplayName(grading.to_belt))}</td>
+          <td class="num">${grading.fee_amount != null ? `₹${Number(grading.fee_amount).toFixed(2)}` : '—'}</td>
+        </tr>`
+    )
+    .join('')
+
+  return `
+<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <style>
+      body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #1F2937; padding: 32px; }
+      .header { display: flex; align-items: center; border-bottom: 3px solid #7B2CBF; padding-bottom: 16px; }
+      .header img { width: 72px; height: 72px; border-radius: 36px; object-fit: cover; margin-right: 16px; }
+      .dojo { font-size: 22px; font-weight: 700; color: #7B2CBF; }
+      .branch { font-size: 12px; color: #6B7280; margin-top: 4px; }
+      h1 { font-size: 18px; letter-spacing: 2px; text-align: center; margin: 24px 0 8px; }
+      h2 { font-size: 14px; color: #7B2CBF; margin: 24px 0 8px; }
+      .meta { display: flex; justify-content: space-between; font-size: 13px; margin-bottom: 16px; }
+      table { width: 100%; border-collapse: collapse; font-size: 12px; }
+      th { text-align: left; color: #6B7280; font-weight: 600; padding: 8px; border-bottom: 2px solid #E5E7EB; }
+      td { padding: 8px; border-bottom: 1px solid #E5E7EB; }
+      .num { text-align: right; white-space: nowrap; }
+      .summary td { font-size: 14px; }
+      .summary td.label { color: #6B7280; width: 60%; }
+      .total td { font-weight: 700; font-size: 16px; color: #7B2CBF; }
+      .empty { color: #6B7280; font-size: 13px; }
+      .footer { margin-top: 48px; font-size: 11px; color: #9CA3AF; text-align: center; }
+    </style>
+  </head>
+  <body>
+    <div class="header">
+      ${logoUrl ? `<img src="${escapeHtml(logoUrl)}" />` : ''}
+      <div>
+        <div class="dojo">${DOJO_NAME}</div>
+        ${branch ? `<div class="branch">${escapeHtml(branch.name)}${branch.address ? ' · ' + escapeHtml(branch.address) : ''}${branch.phone ? ' · ' + escapeHtml(branch.phone) : ''}</div>` : ''}
+      </div>
+    </div>
+
+    <h1>FEE STATEMENT</h1>
+    <div class="meta">
+      <div><strong>Student:</strong> ${studentName} (${escapeHtml(student.student_id)})</div>
+      <div><strong>Period:</strong> ${formatDate(statement.startDate)} – ${formatDate(statement.endDate)}</div>
+    </div>
+
+    <table class="summary">
+      <tr><td class="label">Opening Balance</td><td class="num">${formatBalance(statement.openingBalance)}</td></tr>
+      <tr><td class="label">Fees Charged</td><td class="num">₹${statement.totalCharges.toFixed(2)}</td></tr>
+      <tr><td class="label">Payments Received</td><td class="num">₹${statement.totalPayments.toFixed(2)}</td></tr>
+      ${statement.totalWaived > 0 ? `<tr><td class="label">Fees Waived</td><td class="num">₹${statement.totalWaived.toFixed(2)}</td></tr>` : ''}
+      <tr class="total"><td>Closing Balance</td><td class="num">${formatBalance(statement.closingBalance)}</td></tr>
+      ${statement.creditBalance > 0 ? `<tr><td class="label">Unused Credit Held</td><td class="num">₹${statement.creditBalance.toFixed(2)}</td></tr>` : ''}
+    </table>
+
+    <h2>Transactions</h2>
+    ${
+      entries.length === 0
+        ? '<div class="empty">No fees or payments in this period.</div>'
+        : `<table>
+      <tr><th>Date</th><th>Description</th><th>Receipt</th><th class="num">Charge</th><th class="num">Paid</th><th class="num">Balance</th></tr>
+      ${rows}
+    </table>`
+    }
+
+    ${
+      gradings.length > 0
+        ? `<h2>Belt Gradings</h2>
+    <table>
+      <tr><th>Date</th><th>Grading</th><th class="num">Grading Fee</th></tr>
+      ${gradingRows}
+    </table>`
+        : ''
+    }
+
+    <div class="footer">
+      Generated on ${format(new Date(statement.generatedAt), 'dd MMM yyyy, hh:mm a')}. This is a computer-generated statement and does not require a signature.
+    </div>
+  </body>
+</html>`
+}
+
+/**
+ * Get a student's fee statement between two dates (YYYY-MM-DD, inclusive)
+ */
+export async function getFeeStatement(
+  studentId: string,
+  startDate: string,
+  endDate: string
+): Promise<{ statement: FeeStatement | null; error: null } | { statement: null; error: Error }> {
+  const { data, error } = await callAdminApi('fees.getStatement', { studentId, startDate, endDate })
+  if (error) return { statement: null, error }
+  return { statement: data.statement, error: null }
+}
+
+/**
+ * Generate a PDF fee statement and open the share sheet
+ */
+export async function shareFeeStatement(
+  studentId: string,
+  startDate: string,
+  endDate: string
+): Promise<{ success: boolean; error: null } | { success: false; error: Error }> {
+  try {
+    const { statement, error } = await getFeeStatement(studentId, startDate, endDate)
+    if (error || !statement) {
+      return { success: false, error: error || new Error('Statement not found') }
+    }
+
+    const { logoUrl } = await getLogoUrl()
+    const html = buildStatementHtml(statement, logoUrl)
+    const { uri } = await Print.printToFileAsync({ html })
+
+    if (!(await Sharing.isAvailableAsync())) {
+      return { success: false, error: new Error('Sharing is not available on this device') }
+    }
+
+    await Sharing.shareAsync(uri, {
+      mimeType: 'application/pdf',
+      UTI: 'com.adobe.pdf',
+      dialogTitle: `Fee Statement ${statement.student.student_id}`,
+    })
+
+    logger.info('Fee statement shared', { studentId, startDate, endDate })
+    return { success: true, error: null }
+  } catch (error) {
+    logger.error('Error sharing fee statement', error as Error)
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Failed to generate statement'),
+    }
+  }
+}
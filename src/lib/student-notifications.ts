@@ -82,6 +82,7 @@ export async function getStudentNotifications(options?: {
           createdBy: notification.created_by || notification.createdBy,
           targetType: notification.target_type || notification.targetType,
           targetBranchId: notification.target_branch_id || notification.targetBranchId,
+          targetBatchId: notification.target_batch_id || notification.targetBatchId || null,
           targetStudentIds: notification.target_student_ids || notification.targetStudentIds,
           scheduledAt: notification.scheduled_at || notification.scheduledAt,
           sentAt: notification.sent_at || notification.sentAt,
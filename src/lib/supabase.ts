@@ -35,16 +35,3 @@ export const supabase = createClient(finalUrl, finalKey, {
     detectSessionInUrl: false, // Not needed for mobile
   },
 })
-
-// Admin client for creating users (uses service role key)
-// This is used for admin operations like creating auth users and profiles
-const supabaseServiceKey = process.env.EXPO_PUBLIC_SUPABASE_SERVICE_ROLE_KEY
-
-export const supabaseAdmin = supabaseServiceKey && !hasConfigError
-  ? createClient(finalUrl, supabaseServiceKey, {
-      auth: {
-        autoRefreshToken: false,
-        persistSession: false,
-      },
-    })
-  : null
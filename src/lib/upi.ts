@@ -0,0 +1,85 @@
+import type { StudentFee } from './fees'
+
+/**
+ * Payee details for UPI pay links
+ * The dojo's VPA is bundled into the app, so links are only offered when it is configured
+ */
+export interface UpiConfig {
+  vpa: string
+  payeeName: string
+}
+
+/**
+ * An incoming UPI transfer pasted from the bank statement / UPI app during reconciliation
+ */
+export interface UpiTransaction {
+  reference: string // UTR / transaction id
+  amount: number
+  note: string
+  feeId: string | null // Fee id found in the transaction note, if any
+}
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i
+
+export function getUpiConfig(): UpiConfig | null {
+  const vpa = process.env.EXPO_PUBLIC_UPI_VPA
+  if (!vpa) return null
+  return {
+    vpa,
+    payeeName: process.env.EXPO_PUBLIC_UPI_PAYEE_NAME || 'Karate Dojo',
+  }
+}
+
+/**
+ * Build a upi://pay deep link for the remaining balance of a fee
+ * The fee id is carried as the transaction note so the transfer can be matched back to it
+ */
+export function buildUpiPaymentLink(
+  fee: Pick<StudentFee, 'id' | 'amount' | 'paid_amount'>,
+  config: UpiConfig
+): string | null {
+  const remaining = Math.round((fee.amount - (fee.paid_amount || 0)) * 100) / 100
+  if (remaining <= 0) return null
+
+  const params = [
+    `pa=${encodeURIComponent(config.vpa)}`,
+    `pn=${encodeURIComponent(config.payeeName)}`,
+    `am=${remaining.toFixed(2)}`,
+    'cu=INR',
+    `tn=${encodeURIComponent(fee.id)}`,
+  ]
+  return `upi://pay?${params.join('&')}`
+}
+
+/**
+ * Find the fee id in a UPI transaction note (apps may prepend or append their own text)
+ */
+export function extractFeeIdFromNote(note: string): string | null {
+  const match = note.match(UUID_PATTERN)
+  return match ? match[0].toLowerCase() : null
+}
+
+/**
+ * Parse pasted transactions, one per line: "reference, amount, note"
+ * Returns the parsed transactions and the line numbers that could not be read
+ */
+export function parseUpiTransactions(text: string): { transactions: UpiTransaction[]; invalidLines: number[] } {
+  const transactions: UpiTransaction[] = []
+  const invalidLines: number[] = []
+
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) return
+
+    const [reference, amountText, ...noteParts] = line.split(/[,\t]/).map((part) => part.trim())
+    const amount = parseFloat((amountText || '').replace(/[₹\s]/g, ''))
+    if (!reference || isNaN(amount) || amount <= 0) {
+      invalidLines.push(index + 1)
+      return
+    }
+
+    const note = noteParts.join(', ')
+    transactions.push({ reference, amount, note, feeId: extractFeeIdFromNote(note) })
+  })
+
+  return { transactions, invalidLines }
+}